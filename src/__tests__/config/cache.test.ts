@@ -0,0 +1,50 @@
+import { MemoryCacheBackend } from '../../config/cache';
+
+describe('MemoryCacheBackend', () => {
+  let cache: MemoryCacheBackend;
+
+  beforeEach(() => {
+    cache = new MemoryCacheBackend();
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should return stored values until they expire', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    await cache.set('categories:list', { count: 2 }, 60);
+
+    expect(await cache.get('categories:list')).toEqual({ count: 2 });
+    jest.setSystemTime(new Date('2026-01-01T00:01:01Z'));
+    expect(await cache.get('categories:list')).toBeNull();
+    jest.useRealTimers();
+  });
+
+  it('should invalidate every entry carrying a tag', async () => {
+    await cache.set('vendor-services:1', {}, 600, ['vendor-services', 'categories']);
+    await cache.set('home:popular', {}, 600, ['home', 'vendor-services']);
+    await cache.set('promotions:banners', {}, 600, ['promotions']);
+
+    expect(await cache.invalidateTags(['vendor-services'])).toBe(2);
+    expect(await cache.get('home:popular')).toBeNull();
+    expect(await cache.get('promotions:banners')).toEqual({});
+  });
+
+  it('should track hits, misses and tag sizes', async () => {
+    await cache.set('promotions:banners', [], 600, ['promotions']);
+    await cache.get('promotions:banners');
+    await cache.get('promotions:missing');
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({
+      backend: 'memory',
+      scope: 'instance',
+      size: 1,
+      hits: 1,
+      misses: 1,
+      hitRate: 50,
+      tags: { promotions: 1 },
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  FINANCIAL_LIMITS,
+  effectiveAdminRole,
+  evaluateFinancialAction,
+  startOfUtcDay,
+} from '../../config/financial-limits';
+
+describe('financial limits config', () => {
+  const limit = { dailyCap: 200, approvalThreshold: 50 };
+
+  it('should run small actions within the cap straight away', () => {
+    expect(evaluateFinancialAction(50, 0, limit)).toEqual({ outcome: 'execute' });
+    expect(evaluateFinancialAction(20, 170, limit)).toEqual({ outcome: 'execute' });
+  });
+
+  it('should queue actions above the threshold for approval', () => {
+    expect(evaluateFinancialAction(50.01, 0, limit)).toEqual({ outcome: 'approval' });
+    expect(evaluateFinancialAction(150, 50, limit)).toEqual({ outcome: 'approval' });
+  });
+
+  it('should refuse actions past the daily cap, approval or not', () => {
+    expect(evaluateFinancialAction(30.01, 170, limit)).toEqual({
+      outcome: 'over_cap',
+      remaining: 30,
+    });
+    expect(evaluateFinancialAction(250, 0, limit)).toEqual({ outcome: 'over_cap', remaining: 200 });
+    expect(evaluateFinancialAction(1, 210, limit)).toEqual({ outcome: 'over_cap', remaining: 0 });
+  });
+
+  it('should treat admins without a sub-role as super_admin', () => {
+    expect(effectiveAdminRole('support_agent')).toBe('support_agent');
+    expect(effectiveAdminRole('super_admin')).toBe('super_admin');
+    expect(effectiveAdminRole(null)).toBe('super_admin');
+  });
+
+  it('should give support agents tighter limits than super admins', () => {
+    for (const action of ['wallet_credit', 'refund'] as const) {
+      const agent = FINANCIAL_LIMITS.support_agent[action];
+      const superAdmin = FINANCIAL_LIMITS.super_admin[action];
+      expect(agent.dailyCap).toBeLessThanOrEqual(superAdmin.dailyCap);
+      expect(agent.approvalThreshold).toBeLessThanOrEqual(agent.dailyCap);
+    }
+  });
+
+  it('should count the day from midnight UTC', () => {
+    expect(startOfUtcDay(new Date('2026-06-10T23:59:00-05:00')).toISOString()).toBe(
+      '2026-06-11T00:00:00.000Z',
+    );
+  });
+});
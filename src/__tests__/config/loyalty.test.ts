@@ -0,0 +1,34 @@
+import {
+  calculatePointsForAmount,
+  calculateTierDiscount,
+  getNextTier,
+  getTierForTotalEarned,
+} from '../../config/loyalty';
+
+describe('loyalty config', () => {
+  it('should derive tier from lifetime points', () => {
+    expect(getTierForTotalEarned(0)).toBe('bronze');
+    expect(getTierForTotalEarned(499)).toBe('bronze');
+    expect(getTierForTotalEarned(500)).toBe('silver');
+    expect(getTierForTotalEarned(1000)).toBe('gold');
+  });
+
+  it('should return the next tier up', () => {
+    expect(getNextTier('bronze')).toBe('silver');
+    expect(getNextTier('silver')).toBe('gold');
+    expect(getNextTier('gold')).toBeNull();
+  });
+
+  it('should apply the tier multiplier to earned points', () => {
+    expect(calculatePointsForAmount(80, 'bronze')).toBe(80);
+    expect(calculatePointsForAmount(80, 'silver')).toBe(100);
+    expect(calculatePointsForAmount(80, 'gold')).toBe(120);
+    expect(calculatePointsForAmount(0, 'gold')).toBe(0);
+  });
+
+  it('should cap the tier booking discount', () => {
+    expect(calculateTierDiscount(100, 'bronze')).toBe(0);
+    expect(calculateTierDiscount(100, 'silver')).toBe(5);
+    expect(calculateTierDiscount(1000, 'gold')).toBe(30);
+  });
+});
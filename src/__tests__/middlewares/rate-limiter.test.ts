@@ -0,0 +1,107 @@
+import {
+  chatSendLimiter,
+  createRateLimiter,
+  identityKey,
+  rateLimitKey,
+} from '../../middlewares/rateLimiter.middleware';
+import { signToken } from '../../utils/jwt.util';
+
+const bearerFor = (sub: string) =>
+  `Bearer e30.${Buffer.from(JSON.stringify({ sub })).toString('base64url')}.sig`;
+
+const createRes = () => {
+  const res: any = { statusCode: 200, headers: {} as Record<string, string> };
+  res.setHeader = (name: string, value: string) => (res.headers[name.toLowerCase()] = value);
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => res);
+  res.send = jest.fn(() => res);
+  res.on = jest.fn();
+  return res;
+};
+
+describe('rateLimitKey', () => {
+  const baseReq = { headers: {}, ip: '10.0.0.1', socket: {} } as any;
+
+  it('should prefer the authenticated vendor, then user', () => {
+    expect(rateLimitKey({ ...baseReq, vendorId: 'v1', auth: { userId: 'u1' } })).toBe('vendor:v1');
+    expect(rateLimitKey({ ...baseReq, auth: { userId: 'u1' } })).toBe('user:u1');
+  });
+
+  it('should key on IP until auth middleware has verified the caller', () => {
+    expect(rateLimitKey({ ...baseReq, user: { _id: 'u2' } })).toBe('user:u2');
+    expect(rateLimitKey({ ...baseReq, headers: { 'x-clerk-id': 'user_abc' } })).toBe('ip:10.0.0.1');
+    expect(rateLimitKey({ ...baseReq, headers: { authorization: bearerFor('user_xyz') } })).toBe(
+      'ip:10.0.0.1',
+    );
+    expect(rateLimitKey({ ...baseReq, body: { clerkId: 'user_abc' } })).toBe('ip:10.0.0.1');
+  });
+});
+
+describe('identityKey', () => {
+  const previousSecret = process.env.JWT_SECRET;
+  beforeAll(() => (process.env.JWT_SECRET = 'rate-limit-test-secret'));
+  afterAll(() => (process.env.JWT_SECRET = previousSecret));
+
+  const requestFrom = (authorization?: string) =>
+    ({
+      headers: authorization ? { authorization } : {},
+      ip: '10.0.0.3',
+      socket: {},
+      method: 'POST',
+      app: { get: () => false },
+    }) as any;
+
+  it('should key on a verified session and ignore forged tokens', async () => {
+    expect(await identityKey(requestFrom(`Bearer ${signToken('u1', 'user', 0)}`))).toBe('user:u1');
+    expect(await identityKey(requestFrom(bearerFor('user_xyz')))).toBe('ip:10.0.0.3');
+    expect(await identityKey(requestFrom())).toBe('ip:10.0.0.3');
+  });
+
+  it('should give two customers behind one IP their own quotas', async () => {
+    const alice = requestFrom(`Bearer ${signToken('alice', 'user', 0)}`);
+    const bob = requestFrom(`Bearer ${signToken('bob', 'user', 0)}`);
+    const next = jest.fn();
+
+    for (let i = 0; i < 30; i++) await chatSendLimiter(alice, createRes(), next);
+    const limited = createRes();
+    await chatSendLimiter(alice, limited, next);
+    expect(limited.status).toHaveBeenCalledWith(429);
+
+    const res = createRes();
+    await chatSendLimiter(bob, res, next);
+    expect(res.status).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(31);
+  });
+});
+
+describe('rate limit responses', () => {
+  it('should include retry-after metadata once the quota is spent', async () => {
+    const limiter = createRateLimiter(1, 1, 'Slow down', 'test-retry-after');
+    const req = {
+      headers: {},
+      ip: '10.0.0.2',
+      socket: {},
+      method: 'POST',
+      app: { get: () => false },
+    } as any;
+
+    const next = jest.fn();
+    await limiter(req, createRes(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    const res = createRes();
+    await limiter(req, res, next);
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect(res.json.mock.calls[0][0]).toMatchObject({
+      success: false,
+      message: 'Slow down',
+      limit: 1,
+      retryAfter: expect.any(Number),
+      resetAt: expect.any(String),
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { getCalendarProvider } from '../../services/calendar-providers.service';
+
+jest.mock('../../services/calendar.service', () => ({}));
+
+const TZ = 'America/New_York';
+
+const ICS_BODY = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'UID:dentist',
+  'DTSTART:20260610T130000Z',
+  'DTEND:20260610T140000Z',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+/**
+ * Minimal fake CalDAV / ICS server: serves ICS_BODY for GET and REPORT and
+ * stores PUT bodies in memory.
+ */
+function startFakeServer() {
+  const stored = new Map<string, string>();
+  const requests: { method?: string; url?: string; auth?: string }[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, auth: req.headers.authorization });
+      if (req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'text/calendar' }).end(ICS_BODY);
+      } else if (req.method === 'REPORT') {
+        const escaped = ICS_BODY.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+        res
+          .writeHead(207, { 'Content-Type': 'application/xml' })
+          .end(
+            `<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"><d:response>` +
+              `<d:propstat><d:prop><c:calendar-data>${escaped}</c:calendar-data></d:prop>` +
+              `</d:propstat></d:response></d:multistatus>`,
+          );
+      } else if (req.method === 'PUT') {
+        stored.set(req.url || '', body);
+        res.writeHead(201).end();
+      } else if (req.method === 'DELETE') {
+        res.writeHead(stored.delete(req.url || '') ? 204 : 404).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  return new Promise<{
+    url: string;
+    stored: typeof stored;
+    requests: typeof requests;
+    close: () => Promise<void>;
+  }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/calendars/vendor/`,
+        stored,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('calendar providers against a fake server', () => {
+  let fake: Awaited<ReturnType<typeof startFakeServer>>;
+
+  beforeAll(async () => {
+    fake = await startFakeServer();
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  const from = new Date('2026-06-01T00:00:00Z');
+  const to = new Date('2026-07-01T00:00:00Z');
+
+  it('should import busy time from an ICS URL', async () => {
+    const busy = await getCalendarProvider('ics').fetchBusy(
+      { provider: 'ics', url: fake.url, calendarId: 'primary' },
+      from,
+      to,
+      TZ,
+    );
+    expect(busy).toEqual([
+      {
+        uid: 'dentist',
+        start: new Date('2026-06-10T13:00:00Z'),
+        end: new Date('2026-06-10T14:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should query, push and delete over CalDAV with basic auth', async () => {
+    const caldav = getCalendarProvider('caldav');
+    const connection = {
+      provider: 'caldav' as const,
+      url: fake.url,
+      username: 'vendor',
+      password: 'secret',
+      calendarId: 'primary',
+    };
+
+    const busy = await caldav.fetchBusy(connection, from, to, TZ);
+    expect(busy.map((b) => b.uid)).toEqual(['dentist']);
+
+    const externalId = await caldav.pushEvent!(connection, {
+      uid: 'appointment-abc@appnow.com',
+      sequence: 1,
+      status: 'CONFIRMED',
+      start: new Date('2026-06-11T13:00:00Z'),
+      end: new Date('2026-06-11T14:00:00Z'),
+      summary: 'Haircut',
+    });
+    const path = `/calendars/vendor/${externalId}`;
+    expect(fake.stored.get(path)).toContain('UID:appointment-abc@appnow.com');
+
+    await caldav.deleteEvent!(connection, externalId);
+    expect(fake.stored.has(path)).toBe(false);
+    // Already gone is not an error
+    await expect(caldav.deleteEvent!(connection, externalId)).resolves.toBeUndefined();
+
+    const expectedAuth = `Basic ${Buffer.from('vendor:secret').toString('base64')}`;
+    expect(
+      fake.requests.filter((r) => r.method !== 'GET').every((r) => r.auth === expectedAuth),
+    ).toBe(true);
+  });
+
+  it('should refuse internal hosts in production', async () => {
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    const before = fake.requests.length;
+    try {
+      await expect(
+        getCalendarProvider('ics').fetchBusy(
+          { provider: 'ics', url: fake.url.replace('http:', 'https:'), calendarId: 'primary' },
+          from,
+          to,
+          TZ,
+        ),
+      ).rejects.toThrow('Calendar url must point to a public host');
+    } finally {
+      process.env.NODE_ENV = env;
+    }
+    expect(fake.requests.length).toBe(before);
+  });
+});
@@ -0,0 +1,76 @@
+import { EventEmitter } from 'events';
+import {
+  openChatStream,
+  publishChatEvent,
+  shutdownChatRealtime,
+} from '../../services/chat-realtime.service';
+
+const createStream = () => {
+  const req = new EventEmitter();
+  const res = {
+    written: [] as string[],
+    status: jest.fn().mockReturnThis(),
+    setHeader: jest.fn(),
+    flushHeaders: jest.fn(),
+    write(chunk: string) {
+      this.written.push(chunk);
+      return true;
+    },
+    end: jest.fn(),
+  };
+  return { req, res };
+};
+
+const eventsOf = (res: { written: string[] }) =>
+  res.written
+    .filter((chunk) => chunk.startsWith('event: ') && !chunk.startsWith('event: ready'))
+    .map((chunk) => JSON.parse(chunk.split('data: ')[1]));
+
+describe('chat realtime', () => {
+  const participants = { customerId: 'c1', vendorId: 'v1' };
+
+  afterEach(async () => {
+    await shutdownChatRealtime();
+  });
+
+  it('should push events to both participants of a conversation', () => {
+    const customer = createStream();
+    const vendor = createStream();
+    const stranger = createStream();
+    openChatStream(customer.req as any, customer.res as any, 'customer', 'c1');
+    openChatStream(vendor.req as any, vendor.res as any, 'vendor', 'v1');
+    openChatStream(stranger.req as any, stranger.res as any, 'vendor', 'v2');
+
+    publishChatEvent(participants, { type: 'message', conversationId: 'conv1', data: {} });
+
+    expect(eventsOf(customer.res)).toHaveLength(1);
+    expect(eventsOf(vendor.res)[0]).toMatchObject({ type: 'message', conversationId: 'conv1' });
+    expect(eventsOf(stranger.res)).toHaveLength(0);
+  });
+
+  it('should limit delivery to one side when asked', () => {
+    const customer = createStream();
+    const vendor = createStream();
+    openChatStream(customer.req as any, customer.res as any, 'customer', 'c1');
+    openChatStream(vendor.req as any, vendor.res as any, 'vendor', 'v1');
+
+    publishChatEvent(
+      participants,
+      { type: 'typing', conversationId: 'conv1', data: { role: 'customer' } },
+      'vendor',
+    );
+
+    expect(eventsOf(customer.res)).toHaveLength(0);
+    expect(eventsOf(vendor.res)).toHaveLength(1);
+  });
+
+  it('should stop delivering once the client disconnects', () => {
+    const customer = createStream();
+    openChatStream(customer.req as any, customer.res as any, 'customer', 'c1');
+    customer.req.emit('close');
+
+    publishChatEvent(participants, { type: 'read', conversationId: 'conv1', data: {} });
+
+    expect(eventsOf(customer.res)).toHaveLength(0);
+  });
+});
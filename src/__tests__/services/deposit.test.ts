@@ -0,0 +1,32 @@
+import Appointment from '../../models/appointment.model';
+import { startBalanceCaptureScheduler } from '../../services/deposit.service';
+
+jest.mock('../../models/appointment.model', () => ({
+  __esModule: true,
+  default: { find: jest.fn() },
+}));
+jest.mock('../../services/stripe.service', () => ({}));
+jest.mock('../../services/webhook-queue.service', () => ({}));
+jest.mock('../../services/vendor-payout.service', () => ({}));
+
+describe('startBalanceCaptureScheduler', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('should sweep due balances every five minutes', async () => {
+    jest.useFakeTimers();
+    const lean = jest.fn().mockResolvedValue([]);
+    const find = Appointment.find as jest.Mock;
+    find.mockReturnValue({ select: () => ({ limit: () => ({ lean }) }) });
+
+    startBalanceCaptureScheduler();
+    expect(find).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(5 * 60 * 1000);
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(find.mock.calls[0][0]).toMatchObject({
+      balanceStatus: 'pending',
+      balanceDueAt: { $lte: expect.any(Date) },
+    });
+    jest.clearAllTimers();
+  });
+});
@@ -0,0 +1,64 @@
+import { renderEmail, EMAIL_GLOBALS } from '../../services/email-template.service';
+import { EMAIL_LAYOUT, EMAIL_LOCALES, EMAIL_PARTIALS } from '../../templates/email/layout';
+import { EMAIL_TEMPLATES, type EmailTemplateId } from '../../templates/email/templates';
+import { templateVariables } from '../../utils/email-template.util';
+
+describe('email templates', () => {
+  it('should declare every variable each locale uses', () => {
+    for (const [id, template] of Object.entries(EMAIL_TEMPLATES)) {
+      const declared = new Set([...Object.keys(template.variables), ...Object.keys(EMAIL_GLOBALS)]);
+      for (const locale of EMAIL_LOCALES) {
+        const { subject, html, text } = template.content[locale];
+        const used = templateVariables(
+          [subject, html, text || '', EMAIL_LAYOUT.html].join('\n'),
+          EMAIL_PARTIALS[locale],
+        ).filter((name) => name !== 'content');
+        expect({ id, locale, undeclared: used.filter((name) => !declared.has(name)) }).toEqual({
+          id,
+          locale,
+          undeclared: [],
+        });
+      }
+    }
+  });
+});
+
+describe('renderEmail', () => {
+  const booking = {
+    serviceName: 'Haircut',
+    vendorName: 'Downtown Barbers',
+    date: 'Wednesday, June 10, 2026',
+    time: '10:00',
+  };
+
+  it('should render the layout around the template with a text fallback', () => {
+    const email = renderEmail('booking-confirmation', booking, null);
+    expect(email.locale).toBe('en');
+    expect(email.subject).toBe('Your AppNow Booking Confirmation');
+    expect(email.html).toContain('<li><strong>Provider:</strong> Downtown Barbers</li>');
+    expect(email.html).toContain('The AppNow Team');
+    expect(email.text).toContain('- Service: Haircut');
+    expect(email.text).toContain('Best regards,\nThe AppNow Team');
+    expect(email.text).not.toContain('<');
+  });
+
+  it('should pick the locale from the user language', () => {
+    const email = renderEmail('booking-confirmation', booking, 'es-MX');
+    expect(email.locale).toBe('es');
+    expect(email.subject).toBe('Confirmación de tu reserva en AppNow');
+    expect(email.html).toContain('El equipo de AppNow');
+  });
+
+  it('should use the explicit plain-text variant when there is one', () => {
+    const email = renderEmail('account-activation', { activationUrl: 'https://x.test/a?b=1&c=2' });
+    expect(email.html).toContain('href="https://x.test/a?b=1&amp;c=2"');
+    expect(email.text).toContain('activate your account: https://x.test/a?b=1&c=2');
+  });
+
+  it('should reject unknown templates and bad variables', () => {
+    expect(() => renderEmail('nope' as EmailTemplateId, {})).toThrow('Unknown email template');
+    expect(() => renderEmail('password-reset', { resetUrl: 'https://x' })).toThrow(
+      'expiresInMinutes is required',
+    );
+  });
+});
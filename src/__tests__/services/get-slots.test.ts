@@ -0,0 +1,99 @@
+import {
+  getFreeStaff,
+  getServiceSlots,
+  isStaffFree,
+  pickStaffMember,
+} from '../../services/get-slots.service';
+import type { StaffContext, StaffSchedule } from '../../interfaces/common.interface';
+
+// 2026-06-01 is a Monday
+const DATE = '2026-06-01';
+
+const member = (overrides: Partial<StaffSchedule> = {}): StaffSchedule => ({
+  staffId: 's1',
+  name: 'Alex',
+  workingHours: [],
+  bookings: {},
+  ...overrides,
+});
+
+describe('isStaffFree', () => {
+  it('should honour working hours for the weekday', () => {
+    const alex = member({
+      workingHours: [{ dayOfWeek: 1, startTime: '10:00', endTime: '14:00' }],
+    });
+    expect(isStaffFree(alex, DATE, '10:00', '11:00')).toBe(true);
+    expect(isStaffFree(alex, DATE, '09:30', '10:30')).toBe(false);
+    expect(isStaffFree(alex, '2026-06-02', '10:00', '11:00')).toBe(false);
+  });
+
+  it('should reject overlapping bookings of the same member', () => {
+    const alex = member({
+      bookings: {
+        [DATE]: [{ start_time: '10:00', end_time: '11:00', appointments: 1 }],
+      },
+    });
+    expect(isStaffFree(alex, DATE, '10:30', '11:30')).toBe(false);
+    expect(isStaffFree(alex, DATE, '11:00', '12:00')).toBe(true);
+  });
+});
+
+describe('getFreeStaff', () => {
+  const context: StaffContext = {
+    members: [
+      member({
+        bookings: {
+          [DATE]: [{ start_time: '09:00', end_time: '10:00', appointments: 1 }],
+        },
+      }),
+      member({ staffId: 's2', name: 'Sam' }),
+      member({ staffId: 's3', name: 'Kim' }),
+    ],
+    unassigned: {
+      [DATE]: [{ start_time: '09:00', end_time: '10:00', appointments: 1 }],
+    },
+  };
+
+  it('should count free staff less unassigned bookings', () => {
+    expect(getFreeStaff(context, DATE, '09:00', '10:00')).toEqual({
+      staff: [
+        { staffId: 's2', name: 'Sam' },
+        { staffId: 's3', name: 'Kim' },
+      ],
+      capacity: 1,
+    });
+    expect(getFreeStaff(context, DATE, '10:00', '11:00').capacity).toBe(3);
+  });
+
+  it('should cap slot capacity and list free staff', () => {
+    const slots = getServiceSlots(
+      {
+        date: DATE,
+        reoccurrence: 5,
+        timingType: 'custom',
+        timings: [{ fromTime: '09:00', toTime: '11:00' }],
+      },
+      60,
+      {},
+      'vs1',
+      'UTC',
+      { staffContext: context },
+    );
+
+    expect(slots.map((s) => s.availableSlots)).toEqual([1, 3]);
+    expect(slots[0].staff?.map((s) => s.staffId)).toEqual(['s2', 's3']);
+  });
+});
+
+describe('pickStaffMember', () => {
+  it('should prefer the least-loaded, then least recently assigned member', () => {
+    expect(
+      pickStaffMember([
+        { staffId: 's1', dayLoad: 2 },
+        { staffId: 's2', dayLoad: 1, lastAssignedAt: new Date('2026-05-30') },
+        { staffId: 's3', dayLoad: 1, lastAssignedAt: new Date('2026-05-29') },
+      ]),
+    ).toBe('s3');
+    expect(pickStaffMember([])).toBeNull();
+  });
+});
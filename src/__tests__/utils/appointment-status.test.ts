@@ -0,0 +1,158 @@
+import {
+  APPOINTMENT_STATUSES,
+  buildAppointmentTimeline,
+  statusReasonError,
+  statusTransitionError,
+  type AppointmentStatus,
+} from '../../utils/appointment-status.util';
+
+const at = (time: string) => new Date(`2026-06-10T${time}:00Z`);
+
+describe('statusTransitionError', () => {
+  it.each([
+    ['pending', 'confirmed', 'vendor'],
+    ['pending', 'cancelled', 'customer'],
+    ['confirmed', 'completed', 'auto'],
+    ['confirmed', 'cancelled', 'vendor'],
+    ['confirmed', 'missed', 'vendor'],
+    ['completed', 'failed', 'customer'],
+  ] as const)('should allow %s → %s by %s', (from, to, actor) => {
+    expect(statusTransitionError(from, to, actor)).toBeNull();
+  });
+
+  it('should reject changes out of a final status', () => {
+    expect(statusTransitionError('cancelled', 'confirmed', 'admin')).toBe(
+      'A cancelled appointment can no longer change status',
+    );
+  });
+
+  it('should name the statuses that are reachable', () => {
+    expect(statusTransitionError('pending', 'completed', 'vendor')).toBe(
+      'A pending appointment can only become confirmed or cancelled, not completed',
+    );
+  });
+
+  it('should reject a change to the current status', () => {
+    expect(statusTransitionError('confirmed', 'confirmed', 'vendor')).toMatch(/already confirmed/);
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(statusTransitionError('pending', 'rejected' as AppointmentStatus, 'admin')).toMatch(
+      /Invalid status/,
+    );
+  });
+
+  it('should keep some changes to certain actors', () => {
+    expect(statusTransitionError('pending', 'confirmed', 'customer')).toBe(
+      'Only vendor or admin can mark an appointment confirmed',
+    );
+    expect(statusTransitionError('confirmed', 'missed', 'auto')).toMatch(/Only vendor/);
+  });
+
+  it('should let only admins undo a missed or failed mark', () => {
+    expect(statusTransitionError('missed', 'completed', 'admin')).toBeNull();
+    expect(statusTransitionError('failed', 'completed', 'admin')).toBeNull();
+    expect(statusTransitionError('missed', 'completed', 'vendor')).toMatch(/no longer change/);
+  });
+
+  it('should never allow a return to pending', () => {
+    for (const from of APPOINTMENT_STATUSES) {
+      if (from === 'pending') continue;
+      expect(statusTransitionError(from, 'pending', 'admin')).not.toBeNull();
+    }
+  });
+});
+
+describe('statusReasonError', () => {
+  it('should require a reason for missed and failed', () => {
+    expect(statusReasonError('missed', '')).toMatch(/at least 5/);
+    expect(statusReasonError('failed', '  no  ')).toMatch(/at least 5/);
+    expect(statusReasonError('missed', 'Customer did not arrive')).toBeNull();
+  });
+
+  it('should not require one otherwise', () => {
+    expect(statusReasonError('cancelled', undefined)).toBeNull();
+  });
+});
+
+describe('buildAppointmentTimeline', () => {
+  const history = [
+    {
+      from: 'pending',
+      to: 'confirmed',
+      actor: 'vendor',
+      actorId: 'u1',
+      reason: null,
+      at: at('09:00'),
+    },
+    {
+      from: 'confirmed',
+      to: 'missed',
+      actor: 'vendor',
+      actorId: 'u1',
+      reason: 'No show',
+      at: at('15:00'),
+    },
+  ] as const;
+
+  const slot = (startTime: string) => ({
+    appointmentDate: new Date('2026-06-12T00:00:00Z'),
+    startTime,
+    endTime: '18:00',
+  });
+
+  it('should list the booking, changes and moves oldest first', () => {
+    const timeline = buildAppointmentTimeline(
+      { status: 'missed', createdAt: at('08:00'), statusHistory: [...history] },
+      [{ from: slot('10:00'), movedTo: slot('14:00'), resolvedAt: at('11:00') }],
+    );
+    expect(timeline.map((entry) => entry.type)).toEqual([
+      'booked',
+      'status',
+      'rescheduled',
+      'status',
+    ]);
+    expect(timeline[3]).toEqual({
+      type: 'status',
+      at: at('15:00'),
+      from: 'confirmed',
+      to: 'missed',
+      actor: 'vendor',
+      reason: 'No show',
+    });
+  });
+
+  it('should include actor ids only when asked', () => {
+    const timeline = buildAppointmentTimeline(
+      { status: 'missed', createdAt: at('08:00'), statusHistory: [...history] },
+      [],
+      { includeActorIds: true },
+    );
+    expect(timeline[1]).toMatchObject({ actorId: 'u1' });
+  });
+
+  it('should skip moves that were never accepted', () => {
+    const timeline = buildAppointmentTimeline({ status: 'pending', createdAt: at('08:00') }, [
+      { from: slot('10:00'), movedTo: null, resolvedAt: null },
+    ]);
+    expect(timeline).toEqual([{ type: 'booked', at: at('08:00') }]);
+  });
+
+  it('should describe appointments changed before history was kept', () => {
+    const timeline = buildAppointmentTimeline({
+      status: 'cancelled',
+      createdAt: at('08:00'),
+      updatedAt: at('12:00'),
+      cancelledAt: at('10:00'),
+      cancellationReason: 'Cancelled by customer',
+    });
+    expect(timeline[1]).toEqual({
+      type: 'status',
+      at: at('10:00'),
+      from: null,
+      to: 'cancelled',
+      actor: null,
+      reason: 'Cancelled by customer',
+    });
+  });
+});
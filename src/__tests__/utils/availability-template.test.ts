@@ -0,0 +1,103 @@
+import {
+  expandAvailability,
+  templateTimingsForDate,
+  validateAvailabilityTemplate,
+  type AvailabilityTemplateRules,
+} from '../../utils/availability-template.util';
+
+// 2026-06-01 is a Monday
+const template: AvailabilityTemplateRules = {
+  reoccurrence: 2,
+  weeklyHours: [
+    { dayOfWeek: 1, fromTime: '13:00', toTime: '17:00' },
+    { dayOfWeek: 1, fromTime: '09:00', toTime: '12:00' },
+    { dayOfWeek: 3, fromTime: '10:00', toTime: '14:00' },
+  ],
+  exceptions: [
+    { fromDate: '2026-06-08', toDate: '2026-06-10', reason: 'Conference' },
+    {
+      fromDate: '2026-06-15',
+      toDate: '2026-06-15',
+      timings: [{ fromTime: '09:00', toTime: '11:00' }],
+    },
+  ],
+  extraOpenings: [{ date: '2026-06-06', timings: [{ fromTime: '10:00', toTime: '12:00' }] }],
+};
+
+describe('templateTimingsForDate', () => {
+  it('should use the weekday hours in start order', () => {
+    expect(templateTimingsForDate(template, '2026-06-01')).toEqual([
+      { fromTime: '09:00', toTime: '12:00' },
+      { fromTime: '13:00', toTime: '17:00' },
+    ]);
+    expect(templateTimingsForDate(template, '2026-06-02')).toEqual([]);
+  });
+
+  it('should apply exceptions and extra openings', () => {
+    expect(templateTimingsForDate(template, '2026-06-08')).toEqual([]);
+    expect(templateTimingsForDate(template, '2026-06-15')).toEqual([
+      { fromTime: '09:00', toTime: '11:00' },
+    ]);
+    expect(templateTimingsForDate(template, '2026-06-06')).toEqual([
+      { fromTime: '10:00', toTime: '12:00' },
+    ]);
+  });
+
+  it('should respect the effective range', () => {
+    const seasonal = { ...template, effectiveFrom: '2026-06-02', effectiveTo: '2026-06-30' };
+    expect(templateTimingsForDate(seasonal, '2026-06-01')).toEqual([]);
+    expect(templateTimingsForDate(seasonal, '2026-06-03')).toHaveLength(1);
+  });
+});
+
+describe('expandAvailability', () => {
+  it('should expand open dates and let per-date entries override them', () => {
+    const override = {
+      date: new Date('2026-06-03T00:00:00.000Z'),
+      reoccurrence: 1,
+      timingType: 'custom',
+      timings: [{ fromTime: '15:00', toTime: '16:00' }],
+    };
+    const dates = expandAvailability(template, '2026-06-01', '2026-06-07', [override]);
+
+    expect(dates.map((d) => d.date)).toEqual([
+      new Date('2026-06-01T00:00:00.000Z'),
+      override.date,
+      new Date('2026-06-06T00:00:00.000Z'),
+    ]);
+    expect(dates[0]).toMatchObject({ reoccurrence: 2, timingType: 'template' });
+    expect(dates[1]).toBe(override);
+  });
+
+  it('should keep working with per-date entries alone', () => {
+    const entry = {
+      date: new Date('2026-06-02T00:00:00.000Z'),
+      reoccurrence: 1,
+      timingType: 'custom',
+      timings: [{ fromTime: '09:00', toTime: '10:00' }],
+    };
+    expect(expandAvailability(null, '2026-06-01', '2026-06-30', [entry])).toEqual([entry]);
+    expect(expandAvailability(null, '2026-06-03', '2026-06-30', [entry])).toEqual([]);
+  });
+});
+
+describe('validateAvailabilityTemplate', () => {
+  it('should reject bad weekdays, times and ranges', () => {
+    expect(
+      validateAvailabilityTemplate({
+        weeklyHours: [{ dayOfWeek: 7, fromTime: '09:00', toTime: '10:00' }],
+      }),
+    ).toMatch(/dayOfWeek/);
+    expect(
+      validateAvailabilityTemplate({
+        weeklyHours: [{ dayOfWeek: 1, fromTime: '12:00', toTime: '09:00' }],
+      }),
+    ).toMatch(/fromTime before toTime/);
+    expect(
+      validateAvailabilityTemplate({
+        exceptions: [{ fromDate: '2026-06-10', toDate: '2026-06-01' }],
+      }),
+    ).toMatch(/on or before/);
+    expect(validateAvailabilityTemplate(template)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { expandBlockTimes, isDateFullyBlocked, isTimeBlocked } from '../../utils/block-time.util';
+import { getServiceSlots } from '../../services/get-slots.service';
+
+// A same-day partial block
+const partialBlock = (date: string, fromTime: string, toTime: string) => ({
+  fromDate: date,
+  toDate: date,
+  allDay: false,
+  fromTime,
+  toTime,
+});
+
+describe('expandBlockTimes', () => {
+  it('should expand each day of a block and clip it to the range', () => {
+    const windows = expandBlockTimes(
+      [
+        { fromDate: '2026-07-01', toDate: '2026-07-05', allDay: true },
+        partialBlock('2026-07-02', '12:00', '13:00'),
+      ],
+      '2026-07-02',
+      '2026-07-03',
+    );
+
+    expect(Object.keys(windows)).toEqual(['2026-07-02', '2026-07-03']);
+    expect(windows['2026-07-02']).toEqual([
+      { fromTime: '00:00', toTime: '24:00' },
+      { fromTime: '12:00', toTime: '13:00' },
+    ]);
+  });
+});
+
+describe('isTimeBlocked', () => {
+  const windows = expandBlockTimes([partialBlock('2026-07-01', '12:00', '14:00')]);
+
+  it('should flag windows that touch a block', () => {
+    expect(isTimeBlocked(windows, '2026-07-01', '11:30', '12:30')).toBe(true);
+    expect(isTimeBlocked(windows, '2026-07-01', '14:00', '15:00')).toBe(false);
+    expect(isTimeBlocked(windows, '2026-07-02', '12:00', '13:00')).toBe(false);
+  });
+
+  it('should drop blocked slots from the slot listing', () => {
+    const slots = getServiceSlots(
+      {
+        date: '2026-07-01',
+        reoccurrence: 1,
+        timingType: 'custom',
+        timings: [{ fromTime: '10:00', toTime: '16:00' }],
+      },
+      60,
+      {},
+      'vs1',
+      'UTC',
+      { blocked: windows },
+    );
+    expect(slots.map((s) => s.start_time)).toEqual(['10:00', '11:00', '14:00', '15:00']);
+  });
+});
+
+describe('isDateFullyBlocked', () => {
+  const timings = [
+    { fromTime: '09:00', toTime: '12:00' },
+    { fromTime: '13:00', toTime: '17:00' },
+  ];
+
+  it('should only treat a date as blocked when no timing is left open', () => {
+    const morning = expandBlockTimes([partialBlock('2026-07-01', '08:00', '12:00')]);
+    const covering = expandBlockTimes([
+      partialBlock('2026-07-01', '08:00', '15:00'),
+      partialBlock('2026-07-01', '15:00', '18:00'),
+    ]);
+
+    expect(isDateFullyBlocked(morning, '2026-07-01', timings)).toBe(false);
+    expect(isDateFullyBlocked(covering, '2026-07-01', timings)).toBe(true);
+    expect(isDateFullyBlocked({}, '2026-07-01', timings)).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  bookingOutboxEvents,
+  bookingSlotKey,
+  bookingStaffKey,
+  nextOutboxAttemptAt,
+  outboxRetryDelayMs,
+  staffKeysCollide,
+} from '../../utils/booking-outbox.util';
+
+const NOW = new Date('2026-06-10T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+describe('bookingSlotKey', () => {
+  const slot = {
+    vendorServiceId: '64f0c0ffee0000000000abcd',
+    appointmentDate: '2026-06-10T00:00:00.000Z',
+    startTime: '09:00',
+    endTime: '10:00',
+  };
+
+  it('should key a slot by service, calendar date and window', () => {
+    expect(bookingSlotKey(slot)).toBe('64f0c0ffee0000000000abcd|2026-06-10|09:00-10:00');
+  });
+
+  it('should give the same key for a date string and a Date', () => {
+    expect(bookingSlotKey({ ...slot, appointmentDate: new Date(slot.appointmentDate) })).toBe(
+      bookingSlotKey(slot),
+    );
+  });
+
+  it('should leave the staff member out of the slot key', () => {
+    expect(bookingSlotKey({ ...slot, staffId: 'staff-1' })).toBe(bookingSlotKey(slot));
+  });
+});
+
+describe('staffKeysCollide', () => {
+  it('should key "no preference" bookings as any', () => {
+    expect(bookingStaffKey(null)).toBe('any');
+    expect(bookingStaffKey('staff-1')).toBe('staff-1');
+  });
+
+  it('should let different staff members share a slot', () => {
+    expect(staffKeysCollide('staff-1', 'staff-2')).toBe(false);
+  });
+
+  it('should collide for the same staff member or no preference', () => {
+    expect(staffKeysCollide('staff-1', 'staff-1')).toBe(true);
+    expect(staffKeysCollide('any', 'staff-1')).toBe(true);
+    expect(staffKeysCollide('staff-2', 'any')).toBe(true);
+    expect(staffKeysCollide('any', 'any')).toBe(true);
+  });
+});
+
+describe('bookingOutboxEvents', () => {
+  it('should count the coupon only when one was applied', () => {
+    expect(bookingOutboxEvents({ promotionId: null })).not.toContain('increment-coupon');
+    expect(bookingOutboxEvents({ promotionId: 'promo-1' })).toContain('increment-coupon');
+  });
+
+  it('should record the payout before notifying anyone', () => {
+    const events = bookingOutboxEvents({});
+    expect(events.indexOf('record-payout')).toBeLessThan(events.indexOf('booking-notification'));
+    expect(events).toContain('release-slot-lock');
+    expect(events).toContain('schedule-reminders');
+  });
+});
+
+describe('outbox retries', () => {
+  it('should double from thirty seconds up to an hour', () => {
+    expect(outboxRetryDelayMs(1)).toBe(MINUTE / 2);
+    expect(outboxRetryDelayMs(2)).toBe(MINUTE);
+    expect(outboxRetryDelayMs(3)).toBe(2 * MINUTE);
+    expect(outboxRetryDelayMs(20)).toBe(60 * MINUTE);
+  });
+
+  it('should schedule the next attempt from now', () => {
+    expect(nextOutboxAttemptAt(1, NOW)).toEqual(new Date(NOW.getTime() + MINUTE / 2));
+  });
+
+  it('should stop once attempts are used up', () => {
+    expect(nextOutboxAttemptAt(MAX_OUTBOX_ATTEMPTS - 1, NOW)).not.toBeNull();
+    expect(nextOutboxAttemptAt(MAX_OUTBOX_ATTEMPTS, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  bookingWindowError,
+  resolveBookingRules,
+  validateBookingRules,
+} from '../../utils/booking-rules.util';
+import { getServiceSlots } from '../../services/get-slots.service';
+
+describe('bookingWindowError', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+  const rules = resolveBookingRules({ minNoticeMinutes: 120, maxAdvanceDays: 30 });
+
+  it('should enforce the minimum notice', () => {
+    expect(bookingWindowError(rules, new Date('2026-06-01T13:00:00Z'), now)).toBe(
+      'This service must be booked at least 2 hours in advance',
+    );
+    expect(bookingWindowError(rules, new Date('2026-06-01T14:00:00Z'), now)).toBeNull();
+  });
+
+  it('should enforce the booking horizon', () => {
+    expect(bookingWindowError(rules, new Date('2026-07-02T12:00:00Z'), now)).toBe(
+      'This service can only be booked up to 30 days in advance',
+    );
+  });
+
+  it('should reject past times even without rules', () => {
+    expect(bookingWindowError(resolveBookingRules(), new Date('2026-06-01T11:00:00Z'), now)).toBe(
+      'This time has already passed',
+    );
+  });
+});
+
+describe('booking rules in slot generation', () => {
+  const dateDetails = {
+    date: '2026-06-02',
+    reoccurrence: 1,
+    timingType: 'custom',
+    timings: [{ fromTime: '09:00', toTime: '13:00' }],
+  };
+  const now = new Date('2026-06-01T12:00:00Z');
+
+  it('should space slots by the buffers', () => {
+    const rules = resolveBookingRules({ bufferBeforeMinutes: 10, bufferAfterMinutes: 20 });
+    const slots = getServiceSlots(dateDetails, 60, {}, 'vs1', 'UTC', { rules, now });
+    expect(slots.map((s) => s.start_time)).toEqual(['09:00', '10:30', '12:00']);
+  });
+
+  it('should keep the buffer clear around existing bookings', () => {
+    const rules = resolveBookingRules({ bufferAfterMinutes: 30 });
+    const slots = getServiceSlots(
+      { ...dateDetails, timings: [{ fromTime: '09:00', toTime: '12:00' }] },
+      60,
+      { '2026-06-02': [{ start_time: '11:00', end_time: '12:00', appointments: 1 }] },
+      'vs1',
+      'UTC',
+      { rules, now },
+    );
+    // 10:30 would leave no cleanup time before the 11:00 booking
+    expect(slots.map((s) => s.start_time)).toEqual(['09:00']);
+  });
+
+  it('should drop slots inside the notice period', () => {
+    const rules = resolveBookingRules({ minNoticeMinutes: 24 * 60 });
+    const slots = getServiceSlots(dateDetails, 60, {}, 'vs1', 'UTC', { rules, now });
+    expect(slots.map((s) => s.start_time)).toEqual(['12:00']);
+  });
+});
+
+describe('validateBookingRules', () => {
+  it('should reject negative or fractional values', () => {
+    expect(validateBookingRules({ minNoticeMinutes: -5 })).toMatch(/minNoticeMinutes/);
+    expect(validateBookingRules({ bufferAfterMinutes: 2.5 })).toMatch(/bufferAfterMinutes/);
+    expect(validateBookingRules({ bufferBeforeMinutes: 15, maxAdvanceDays: 90 })).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  buildPolicySnapshot,
+  calculateCancellationRefund,
+  calculateNoShowFee,
+  DEFAULT_POLICY_TERMS,
+  normalizeTiers,
+  validatePolicyTerms,
+  type PolicyTerms,
+} from '../../utils/cancellation-policy.util';
+
+describe('calculateCancellationRefund', () => {
+  it('should follow the default 24/12/2-hour schedule', () => {
+    expect(calculateCancellationRefund(DEFAULT_POLICY_TERMS, 100, 30).refundAmount).toBe(100);
+    expect(calculateCancellationRefund(DEFAULT_POLICY_TERMS, 100, 13).refundAmount).toBe(75);
+    expect(calculateCancellationRefund(DEFAULT_POLICY_TERMS, 100, 3).refundAmount).toBe(50);
+    expect(calculateCancellationRefund(DEFAULT_POLICY_TERMS, 100, 1)).toMatchObject({
+      refundAmount: 0,
+      policyTier: 'no_refund',
+      nonRefundableAmount: 100,
+    });
+  });
+
+  it('should forfeit the deposit and deduct the fee outside the full-refund window', () => {
+    const policy: PolicyTerms & { depositAmount: number } = {
+      ...DEFAULT_POLICY_TERMS,
+      cancellationFee: 5,
+      depositForfeiture: { enabled: true, type: 'fixed', value: 20 },
+      depositAmount: 20,
+    };
+
+    // (100 − 20) × 75% − 5
+    expect(calculateCancellationRefund(policy, 100, 13)).toMatchObject({
+      refundAmount: 55,
+      depositForfeited: 20,
+      cancellationFee: 5,
+      nonRefundableAmount: 45,
+    });
+    // Full-refund window keeps the deposit refundable
+    expect(calculateCancellationRefund(policy, 100, 48)).toMatchObject({
+      refundAmount: 95,
+      depositForfeited: 0,
+    });
+  });
+});
+
+describe('calculateNoShowFee', () => {
+  it('should never charge less than the forfeitable deposit or more than the total', () => {
+    const policy: PolicyTerms & { depositAmount: number } = {
+      ...DEFAULT_POLICY_TERMS,
+      noShowFee: { type: 'percentage', value: 10 },
+      depositForfeiture: { enabled: true, type: 'fixed', value: 25 },
+      depositAmount: 25,
+    };
+    expect(calculateNoShowFee(policy, 100)).toBe(25);
+    expect(calculateNoShowFee({ ...policy, noShowFee: { type: 'fixed', value: 500 } }, 80)).toBe(
+      80,
+    );
+  });
+});
+
+describe('policy terms', () => {
+  it('should sort tiers and append a zero-hour catch-all', () => {
+    expect(
+      normalizeTiers([
+        { minHoursBefore: 6, refundPercent: 50 },
+        { minHoursBefore: 48, refundPercent: 100 },
+      ]),
+    ).toEqual([
+      { minHoursBefore: 48, refundPercent: 100 },
+      { minHoursBefore: 6, refundPercent: 50 },
+      { minHoursBefore: 0, refundPercent: 0 },
+    ]);
+  });
+
+  it('should reject invalid terms', () => {
+    expect(validatePolicyTerms({ tiers: [] })).toMatch(/non-empty/);
+    expect(validatePolicyTerms({ tiers: [{ minHoursBefore: 2, refundPercent: 120 }] })).toMatch(
+      /refundPercent/,
+    );
+    expect(validatePolicyTerms({ noShowFee: { type: 'percentage', value: 150 } })).toMatch(
+      /exceed/,
+    );
+    expect(validatePolicyTerms(DEFAULT_POLICY_TERMS)).toBeNull();
+  });
+
+  it('should resolve the deposit amount into the snapshot', () => {
+    const snapshot = buildPolicySnapshot(
+      {
+        ...DEFAULT_POLICY_TERMS,
+        depositForfeiture: { enabled: true, type: 'percentage', value: 20 },
+      },
+      150,
+    );
+    expect(snapshot.depositAmount).toBe(30);
+    expect(snapshot.name).toBe('Standard policy');
+  });
+});
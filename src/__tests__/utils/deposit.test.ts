@@ -0,0 +1,111 @@
+import {
+  allocateCents,
+  buildBookingDeposit,
+  calculateDeposit,
+  paymentPartsOf,
+  shiftBalanceDueAt,
+  splitRefund,
+  validateDepositSettings,
+} from '../../utils/deposit.util';
+
+describe('calculateDeposit', () => {
+  it('should resolve fixed and percentage deposits', () => {
+    expect(calculateDeposit({ enabled: true, type: 'percentage', value: 25 }, 200)).toBe(50);
+    expect(calculateDeposit({ enabled: true, type: 'fixed', value: 40 }, 200)).toBe(40);
+  });
+
+  it('should fall back to full payment when off or covering the whole total', () => {
+    expect(calculateDeposit({ enabled: false, type: 'fixed', value: 40 }, 200)).toBe(0);
+    expect(calculateDeposit({ enabled: true, type: 'fixed', value: 250 }, 200)).toBe(0);
+    expect(calculateDeposit(null, 200)).toBe(0);
+  });
+});
+
+describe('buildBookingDeposit', () => {
+  it('should date a before-appointment balance from the start time', () => {
+    const startAt = new Date('2026-06-01T15:00:00Z');
+    expect(
+      buildBookingDeposit(
+        {
+          enabled: true,
+          type: 'percentage',
+          value: 30,
+          balanceCapture: 'before_appointment',
+          balanceDueHoursBefore: 48,
+        },
+        150,
+        startAt,
+      ),
+    ).toEqual({
+      depositAmount: 45,
+      balanceDue: 105,
+      balanceCapture: 'before_appointment',
+      balanceDueAt: new Date('2026-05-30T15:00:00Z'),
+    });
+  });
+
+  it('should leave on-completion balances undated', () => {
+    const deposit = buildBookingDeposit({ enabled: true, type: 'fixed', value: 20 }, 100);
+    expect(deposit).toMatchObject({ balanceCapture: 'on_completion', balanceDueAt: null });
+  });
+
+  it('should keep the lead time when the appointment moves', () => {
+    expect(
+      shiftBalanceDueAt(
+        new Date('2026-05-30T15:00:00Z'),
+        new Date('2026-06-01T15:00:00Z'),
+        new Date('2026-06-04T10:30:00Z'),
+      ),
+    ).toEqual(new Date('2026-06-02T10:30:00Z'));
+  });
+});
+
+describe('splitRefund', () => {
+  const parts = paymentPartsOf({
+    paymentPlan: 'deposit',
+    total: 100,
+    depositPaid: 30,
+    balancePaid: 70,
+    paymentIntentId: 'pi_deposit',
+    balancePaymentIntentId: 'pi_balance',
+  });
+
+  it('should refund the balance before the deposit', () => {
+    expect(splitRefund(parts, 50)).toEqual([
+      { paymentIntentId: 'pi_balance', amount: 50, full: false },
+    ]);
+    expect(splitRefund(parts, 85)).toEqual([
+      { paymentIntentId: 'pi_balance', amount: 70, full: true },
+      { paymentIntentId: 'pi_deposit', amount: 15, full: false },
+    ]);
+  });
+
+  it('should never refund more than was paid', () => {
+    const depositOnly = paymentPartsOf({
+      paymentPlan: 'deposit',
+      total: 100,
+      depositPaid: 30,
+      paymentIntentId: 'pi_deposit',
+    });
+    expect(splitRefund(depositOnly, 100)).toEqual([
+      { paymentIntentId: 'pi_deposit', amount: 30, full: true },
+    ]);
+  });
+
+  it('should treat full-payment bookings as a single part', () => {
+    const full = paymentPartsOf({ total: 80, paymentIntentId: 'pi_full' });
+    expect(splitRefund(full, 80)).toEqual([{ paymentIntentId: 'pi_full', amount: 80, full: true }]);
+  });
+});
+
+describe('deposit helpers', () => {
+  it('should split cents so both parts add back up', () => {
+    expect(allocateCents(10001, 33.33, 100)).toEqual({ deposit: 3333, balance: 6668 });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(validateDepositSettings({ type: 'percentage', value: 120 })).toMatch(/exceed/);
+    expect(validateDepositSettings({ balanceCapture: 'never' as any })).toMatch(/balanceCapture/);
+    expect(validateDepositSettings({ enabled: true, type: 'fixed', value: 20 })).toBeNull();
+  });
+});
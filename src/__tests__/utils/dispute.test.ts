@@ -0,0 +1,188 @@
+import {
+  EVIDENCE_TEXT_LIMIT,
+  acceptsEvidence,
+  buildStatusTimeline,
+  composeDisputeEvidence,
+  formatTranscript,
+  isDisputeWon,
+  payoutDisputeAction,
+  pickEvidenceOverrides,
+  reversalAmounts,
+  truncateEvidence,
+} from '../../utils/dispute.util';
+
+describe('payoutDisputeAction', () => {
+  it('should hold unsent payouts and reverse transferred ones', () => {
+    expect(payoutDisputeAction('pending')).toBe('hold');
+    expect(payoutDisputeAction('failed')).toBe('hold');
+    expect(payoutDisputeAction('in_transit')).toBe('reverse');
+    expect(payoutDisputeAction('paid')).toBe('reverse');
+    expect(payoutDisputeAction('held')).toBe('none');
+    expect(payoutDisputeAction('reversed')).toBe('none');
+  });
+});
+
+describe('reversalAmounts', () => {
+  it('should split the disputed amount oldest first', () => {
+    expect(reversalAmounts([{ netAmount: 3000 }, { netAmount: 5000 }], 4000)).toEqual([3000, 1000]);
+  });
+
+  it('should not pull back more than a payout still holds', () => {
+    expect(reversalAmounts([{ netAmount: 3000, reversedAmount: 2500 }], 4000)).toEqual([500]);
+    expect(reversalAmounts([{ netAmount: 3000 }], 0)).toEqual([0]);
+  });
+});
+
+describe('dispute statuses', () => {
+  it('should treat closed inquiries as won', () => {
+    expect(isDisputeWon('won')).toBe(true);
+    expect(isDisputeWon('warning_closed')).toBe(true);
+    expect(isDisputeWon('lost')).toBe(false);
+  });
+
+  it('should take evidence only while a response is due', () => {
+    expect(acceptsEvidence('needs_response')).toBe(true);
+    expect(acceptsEvidence('warning_needs_response')).toBe(true);
+    expect(acceptsEvidence('under_review')).toBe(false);
+  });
+});
+
+describe('buildStatusTimeline', () => {
+  const appointment = {
+    createdAt: new Date('2026-06-01T09:00:00Z'),
+    startAt: new Date('2026-06-10T14:00:00Z'),
+    completedAt: new Date('2026-06-10T15:05:00Z'),
+  };
+
+  it('should merge appointment, audit and webhook history in order', () => {
+    const timeline = buildStatusTimeline(
+      appointment,
+      [
+        {
+          createdAt: new Date('2026-06-02T10:00:00Z'),
+          action: 'UPDATE',
+          path: '/api/v1/vendor/appointments/x/confirm',
+          statusCode: 200,
+        },
+        {
+          createdAt: new Date('2026-06-02T10:01:00Z'),
+          action: 'UPDATE',
+          path: '/api/v1/vendor/appointments/x/confirm',
+          statusCode: 409,
+        },
+      ],
+      [
+        { createdAt: new Date('2026-06-01T09:00:01Z'), event: 'appointment.created' },
+        { createdAt: new Date('2026-06-03T09:00:00Z'), event: 'appointment.created' },
+      ],
+    );
+    expect(timeline.map((e) => e.event)).toEqual([
+      'Booked',
+      'appointment.created',
+      'UPDATE',
+      'Scheduled start',
+      'Completed',
+    ]);
+  });
+
+  it('should list each logged status change with who made it', () => {
+    const timeline = buildStatusTimeline({
+      ...appointment,
+      statusHistory: [
+        { at: new Date('2026-06-02T10:00:00Z'), to: 'confirmed', actor: 'vendor' },
+        {
+          at: new Date('2026-06-10T15:05:00Z'),
+          to: 'completed',
+          actor: 'vendor',
+          reason: 'Finished early',
+        },
+      ],
+    });
+    expect(timeline.map((e) => [e.event, e.detail])).toEqual([
+      ['Booked', undefined],
+      ['Confirmed', 'by vendor'],
+      ['Scheduled start', undefined],
+      ['Completed', 'by vendor: Finished early'],
+    ]);
+  });
+});
+
+describe('formatTranscript', () => {
+  it('should list messages oldest first with names', () => {
+    const transcript = formatTranscript(
+      [
+        { createdAt: new Date('2026-06-10T16:00:00Z'), senderRole: 'vendor', content: 'Thanks!' },
+        {
+          createdAt: new Date('2026-06-09T12:30:00Z'),
+          senderRole: 'customer',
+          content: 'See you\ntomorrow',
+        },
+      ],
+      { customer: 'Ana Diaz', vendor: 'Downtown Barbers' },
+    );
+    expect(transcript).toBe(
+      '[2026-06-09 12:30 UTC] Ana Diaz: See you tomorrow\n' +
+        '[2026-06-10 16:00 UTC] Downtown Barbers: Thanks!',
+    );
+  });
+});
+
+describe('truncateEvidence', () => {
+  it('should keep the end of long text within the limit', () => {
+    const text = `${'a'.repeat(50)}END`;
+    const truncated = truncateEvidence(text, 40);
+    expect(truncated).toHaveLength(40);
+    expect(truncated.startsWith('[earlier entries omitted]')).toBe(true);
+    expect(truncated.endsWith('END')).toBe(true);
+    expect(truncateEvidence('short', 40)).toBe('short');
+  });
+});
+
+describe('composeDisputeEvidence', () => {
+  it('should describe the service and include the timeline and transcript', () => {
+    const evidence = composeDisputeEvidence({
+      customerName: 'Ana Diaz',
+      customerEmail: 'ana@example.com',
+      serviceName: 'Haircut',
+      vendorName: 'Downtown Barbers',
+      appointmentDate: '2026-06-10',
+      startTime: '10:00',
+      endTime: '11:00',
+      servicePlace: 'In store',
+      total: 45,
+      completedAt: new Date('2026-06-10T15:05:00Z'),
+      cancellationPolicyName: 'Flexible',
+      timeline: [{ at: new Date('2026-06-01T09:00:00Z'), event: 'Booked', source: 'appointment' }],
+      transcript: '[2026-06-09 12:30 UTC] Ana Diaz: See you tomorrow',
+    });
+    expect(evidence.product_description).toBe(
+      'Haircut provided by Downtown Barbers on 2026-06-10, 10:00–11:00 (In store). Total charged $45.00.',
+    );
+    expect(evidence.service_date).toBe('2026-06-10');
+    expect(evidence.customer_email_address).toBe('ana@example.com');
+    expect(evidence.access_activity_log).toBe('2026-06-01 09:00 UTC  Booked');
+    expect(evidence.cancellation_policy_disclosure).toContain('"Flexible"');
+    expect(evidence.uncategorized_text).toContain('marked completed at 2026-06-10 15:05 UTC');
+    expect(evidence.uncategorized_text).toContain('Ana Diaz: See you tomorrow');
+  });
+});
+
+describe('pickEvidenceOverrides', () => {
+  it('should accept known text fields', () => {
+    expect(pickEvidenceOverrides({ cancellation_rebuttal: 'Customer attended.' })).toEqual({
+      evidence: { cancellation_rebuttal: 'Customer attended.' },
+    });
+    expect(pickEvidenceOverrides(undefined)).toEqual({ evidence: {} });
+  });
+
+  it('should reject unknown fields, non-strings and oversized text', () => {
+    expect(pickEvidenceOverrides({ receipt: 'x' }).error).toBe('Unknown evidence field: receipt');
+    expect(pickEvidenceOverrides({ service_date: 20260610 }).error).toBe(
+      'service_date must be a string',
+    );
+    expect(
+      pickEvidenceOverrides({ uncategorized_text: 'x'.repeat(EVIDENCE_TEXT_LIMIT + 1) }).error,
+    ).toBe(`uncategorized_text must be at most ${EVIDENCE_TEXT_LIMIT} characters`);
+    expect(pickEvidenceOverrides([]).error).toBe('evidence must be an object');
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  htmlToText,
+  renderTemplate,
+  resolveLocale,
+  templateVariables,
+  validateTemplateVariables,
+} from '../../utils/email-template.util';
+
+describe('renderTemplate', () => {
+  it('should escape values unless triple-braced', () => {
+    expect(
+      renderTemplate('<p>{{name}}</p>{{{html}}}', {
+        name: '<b>Tom & Jerry</b>',
+        html: '<i>ok</i>',
+      }),
+    ).toBe('<p>&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;</p><i>ok</i>');
+  });
+
+  it('should not re-scan values for tags', () => {
+    expect(renderTemplate('{{a}}', { a: '{{b}}', b: 'leaked' })).toBe('{{b}}');
+  });
+
+  it('should render sections only when the variable is set', () => {
+    const source = '{{#vendor}}with {{vendor}}{{/vendor}}{{^vendor}}alone{{/vendor}}';
+    expect(renderTemplate(source, { vendor: 'Ann' })).toBe('with Ann');
+    expect(renderTemplate(source, { vendor: '' })).toBe('alone');
+  });
+
+  it('should expand partials, including nested ones', () => {
+    const partials = { footer: '<p>{{> sign}}</p>', sign: 'Bye {{name}}' };
+    expect(renderTemplate('Hi{{> footer}}', { name: 'Ann' }, { partials })).toBe(
+      'Hi<p>Bye Ann</p>',
+    );
+    expect(() => renderTemplate('{{> missing}}', {})).toThrow('Unknown email template partial');
+  });
+});
+
+describe('templateVariables', () => {
+  it('should list variables across sections and partials', () => {
+    expect(templateVariables('{{#a}}{{b}}{{/a}}{{> p}}', { p: '{{{c}}}' })).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+});
+
+describe('validateTemplateVariables', () => {
+  const specs = {
+    url: { description: 'Link', required: true, example: 'https://x' },
+    name: { description: 'Name', example: 'Ann' },
+  };
+
+  it('should report missing, unknown and non-scalar variables', () => {
+    expect(validateTemplateVariables(specs, { url: 'https://x' })).toEqual([]);
+    expect(validateTemplateVariables(specs, { name: { first: 'Ann' }, extra: 1 })).toEqual([
+      'url is required',
+      'name must be a string, number or boolean',
+      'extra is not a variable of this template',
+    ]);
+  });
+});
+
+describe('htmlToText', () => {
+  it('should keep links and list structure', () => {
+    const html =
+      '<h1>Hello</h1><p>Click <a href="https://x.test/a?b=1&amp;c=2">here</a></p><ul><li>One</li><li>Two</li></ul><p>Bye,<br>Team</p>';
+    expect(htmlToText(html)).toBe(
+      'Hello\n\nClick here: https://x.test/a?b=1&c=2\n\n- One\n- Two\n\nBye,\nTeam',
+    );
+  });
+});
+
+describe('resolveLocale', () => {
+  const available = ['en', 'es'];
+
+  it('should fall back from region to language to default', () => {
+    expect(resolveLocale('es-MX', available, 'en')).toBe('es');
+    expect(resolveLocale('es_419', available, 'en')).toBe('es');
+    expect(resolveLocale('fr', available, 'en')).toBe('en');
+    expect(resolveLocale(null, available, 'en')).toBe('en');
+  });
+
+  it('should walk an Accept-Language list in order', () => {
+    expect(resolveLocale('fr-FR,es;q=0.8,en;q=0.5', available, 'en')).toBe('es');
+  });
+});
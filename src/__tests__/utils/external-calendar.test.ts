@@ -0,0 +1,127 @@
+import {
+  busyIntervalsToBlocks,
+  extractCalDavCalendarData,
+  parseIcsBusy,
+} from '../../utils/external-calendar.util';
+
+const TZ = 'America/New_York';
+
+const calendar = (...events: string[]) =>
+  ['BEGIN:VCALENDAR', ...events.flatMap((e) => ['BEGIN:VEVENT', e, 'END:VEVENT']), 'END:VCALENDAR']
+    .join('\r\n')
+    .replace(/\n\s+/g, '\r\n');
+
+describe('parseIcsBusy', () => {
+  it('should read UTC, zoned and floating times', () => {
+    const busy = parseIcsBusy(
+      calendar(
+        'UID:utc\nDTSTART:20260610T130000Z\nDTEND:20260610T140000Z',
+        'UID:zoned\nDTSTART;TZID=America/Chicago:20260610T090000\nDTEND;TZID=America/Chicago:20260610T100000',
+        'UID:floating\nDTSTART:20260610T150000\nDURATION:PT30M',
+      ),
+      TZ,
+    );
+
+    expect(busy).toEqual([
+      {
+        uid: 'utc',
+        start: new Date('2026-06-10T13:00:00Z'),
+        end: new Date('2026-06-10T14:00:00Z'),
+      },
+      {
+        uid: 'zoned',
+        start: new Date('2026-06-10T14:00:00Z'),
+        end: new Date('2026-06-10T15:00:00Z'),
+      },
+      {
+        uid: 'floating',
+        start: new Date('2026-06-10T19:00:00Z'),
+        end: new Date('2026-06-10T19:30:00Z'),
+      },
+    ]);
+  });
+
+  it('should treat date-only events as whole vendor days', () => {
+    const [busy] = parseIcsBusy(calendar('UID:day\nDTSTART;VALUE=DATE:20260612'), TZ);
+    expect(busy.start).toEqual(new Date('2026-06-12T04:00:00Z'));
+    expect(busy.end).toEqual(new Date('2026-06-13T04:00:00Z'));
+  });
+
+  it('should skip free, cancelled and our own events', () => {
+    const busy = parseIcsBusy(
+      calendar(
+        'UID:free\nTRANSP:TRANSPARENT\nDTSTART:20260610T130000Z\nDTEND:20260610T140000Z',
+        'UID:gone\nSTATUS:CANCELLED\nDTSTART:20260610T130000Z\nDTEND:20260610T140000Z',
+        'UID:appointment-abc@appnow.com\nDTSTART:20260610T130000Z\nDTEND:20260610T140000Z',
+      ),
+      TZ,
+    );
+    expect(busy).toEqual([]);
+  });
+});
+
+describe('extractCalDavCalendarData', () => {
+  it('should unwrap escaped calendar data from a multistatus body', () => {
+    const xml = `<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">
+      <d:response><d:propstat><d:prop>
+        <cal:calendar-data>BEGIN:VCALENDAR&#13;
+SUMMARY:Tom &amp; Jerry&#13;
+END:VCALENDAR</cal:calendar-data>
+      </d:prop></d:propstat></d:response>
+    </d:multistatus>`;
+    expect(extractCalDavCalendarData(xml)).toEqual([
+      'BEGIN:VCALENDAR\r\nSUMMARY:Tom & Jerry\r\nEND:VCALENDAR',
+    ]);
+  });
+});
+
+describe('busyIntervalsToBlocks', () => {
+  it('should split intervals that cross vendor midnight', () => {
+    const blocks = busyIntervalsToBlocks(
+      [
+        {
+          uid: 'late',
+          start: new Date('2026-06-11T02:00:00Z'), // 22:00 on the 10th in New York
+          end: new Date('2026-06-11T06:00:00Z'),
+        },
+      ],
+      TZ,
+    );
+    expect(blocks).toEqual([
+      {
+        uid: 'late',
+        fromDate: '2026-06-10',
+        toDate: '2026-06-10',
+        allDay: false,
+        fromTime: '22:00',
+        toTime: '24:00',
+      },
+      {
+        uid: 'late',
+        fromDate: '2026-06-11',
+        toDate: '2026-06-11',
+        allDay: false,
+        fromTime: '00:00',
+        toTime: '02:00',
+      },
+    ]);
+  });
+
+  it('should merge whole days and clip to the window', () => {
+    const blocks = busyIntervalsToBlocks(
+      [
+        {
+          uid: 'trip',
+          start: new Date('2026-06-12T04:00:00Z'),
+          end: new Date('2026-06-16T04:00:00Z'),
+        },
+      ],
+      TZ,
+      '2026-06-01',
+      '2026-06-14',
+    );
+    expect(blocks).toEqual([
+      { uid: 'trip', fromDate: '2026-06-12', toDate: '2026-06-14', allDay: true },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  appointmentStatusToIcs,
+  appointmentUid,
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+} from '../../utils/ics.util';
+
+const event = {
+  uid: appointmentUid('65f0c0ffee'),
+  sequence: 2,
+  status: 'CONFIRMED' as const,
+  start: new Date('2026-03-10T14:00:00.000Z'),
+  end: new Date('2026-03-10T15:00:00.000Z'),
+  summary: 'Haircut, wash; style',
+  location: '1 Main St\nSuite 2',
+};
+
+describe('ics util', () => {
+  it('should format UTC date-times in basic form', () => {
+    expect(formatIcsDate(new Date('2026-03-10T14:05:09.123Z'))).toBe('20260310T140509Z');
+  });
+
+  it('should escape text values', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(lines.map((line, i) => (i ? line.slice(1) : line)).join('')).toBe(
+      `DESCRIPTION:${'é'.repeat(60)}`,
+    );
+  });
+
+  it('should map appointment statuses', () => {
+    expect(appointmentStatusToIcs('pending')).toBe('TENTATIVE');
+    expect(appointmentStatusToIcs('confirmed')).toBe('CONFIRMED');
+    expect(appointmentStatusToIcs('completed')).toBe('CONFIRMED');
+    expect(appointmentStatusToIcs('cancelled')).toBe('CANCELLED');
+  });
+
+  it('should build a calendar with stable UID and SEQUENCE', () => {
+    const now = new Date('2026-03-01T00:00:00.000Z');
+    const ics = buildIcsCalendar([event], { name: 'Feed', refreshMinutes: 15, now });
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:Feed',
+        'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+        'UID:appointment-65f0c0ffee@appnow.com',
+        'SEQUENCE:2',
+        'DTSTAMP:20260301T000000Z',
+        'DTSTART:20260310T140000Z',
+        'DTEND:20260310T150000Z',
+        'SUMMARY:Haircut\\, wash\\; style',
+        'LOCATION:1 Main St\\nSuite 2',
+        'STATUS:CONFIRMED',
+      ]),
+    );
+  });
+
+  it('should carry cancellations with a higher sequence', () => {
+    const ics = buildIcsCalendar([{ ...event, sequence: 3, status: 'CANCELLED' }], {
+      method: 'CANCEL',
+    });
+    expect(ics).toContain('METHOD:CANCEL');
+    expect(ics).toContain('SEQUENCE:3');
+    expect(ics).toContain('STATUS:CANCELLED');
+  });
+});
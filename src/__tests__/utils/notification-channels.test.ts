@@ -0,0 +1,58 @@
+import { resolveChannels, type RecipientProfile } from '../../utils/notification-channels.util';
+
+const customer: RecipientProfile = {
+  email: 'jane@example.com',
+  phone: '+15555550123',
+  expoPushToken: 'ExponentPushToken[abc]',
+  smsConsent: true,
+  marketingEmailConsent: false,
+};
+
+const summary = (recipient: RecipientProfile, ...args: [any, any?]) =>
+  resolveChannels(recipient, ...args).map((d) => (d.send ? d.channel : `${d.channel}:${d.reason}`));
+
+describe('resolveChannels', () => {
+  it('should send booking updates on every channel by default', () => {
+    expect(summary(customer, 'appointment')).toEqual(['push', 'email', 'sms']);
+  });
+
+  it('should honor per-channel opt-outs', () => {
+    const recipient = { ...customer, notificationPrefs: { emailReminders: false } };
+    expect(summary(recipient, 'reminder')).toEqual(['push', 'email:opted_out', 'sms']);
+  });
+
+  it('should require SMS consent even when the preference is on', () => {
+    const recipient = { ...customer, smsConsent: false };
+    expect(summary(recipient, 'appointment')).toContain('sms:no_consent');
+  });
+
+  it('should require marketing consent for promotional email', () => {
+    const recipient = { ...customer, notificationPrefs: { emailPromotions: true } };
+    expect(summary(recipient, 'promotion')).toContain('email:no_consent');
+    expect(summary({ ...recipient, marketingEmailConsent: true }, 'promotion')).toContain('email');
+  });
+
+  it('should report missing contact details', () => {
+    expect(summary({ smsConsent: true }, 'appointment')).toEqual([
+      'push:no_push_token',
+      'email:no_email',
+      'sms:no_phone',
+    ]);
+  });
+
+  it('should keep system messages to push', () => {
+    expect(summary(customer, 'system')).toEqual([
+      'push',
+      'email:not_applicable',
+      'sms:not_applicable',
+    ]);
+  });
+
+  it('should mark channels the caller left out as not requested', () => {
+    expect(summary(customer, 'appointment', ['email'])).toEqual([
+      'push:not_requested',
+      'email',
+      'sms:not_requested',
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+import { lookup } from 'dns/promises';
+import { assertPublicUrl } from '../../utils/public-url.util';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+describe('assertPublicUrl', () => {
+  const previousEnv = process.env.NODE_ENV;
+  beforeAll(() => (process.env.NODE_ENV = 'production'));
+  afterAll(() => (process.env.NODE_ENV = previousEnv));
+
+  it('should refuse public names that resolve to internal addresses', async () => {
+    (lookup as jest.Mock).mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+    await expect(assertPublicUrl('https://hooks.example.com/in', 'Webhook')).rejects.toThrow(
+      'Webhook url must point to a public host',
+    );
+  });
+
+  it('should allow hosts that resolve publicly', async () => {
+    (lookup as jest.Mock).mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    await expect(assertPublicUrl('https://hooks.example.com/in', 'Webhook')).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('should refuse internal literals without resolving them', async () => {
+    (lookup as jest.Mock).mockClear();
+    await expect(assertPublicUrl('https://10.0.0.5/in', 'Calendar')).rejects.toThrow(
+      'Calendar url must point to a public host',
+    );
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
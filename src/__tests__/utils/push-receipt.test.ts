@@ -0,0 +1,74 @@
+import {
+  MAX_PUSH_ATTEMPTS,
+  classifyPushError,
+  isValidExpoPushToken,
+  nextPushAttemptAt,
+  pushRetryDelayMs,
+  userPushTokens,
+} from '../../utils/push-receipt.util';
+
+const NOW = new Date('2026-06-10T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+describe('classifyPushError', () => {
+  it('should drop tokens for uninstalled apps', () => {
+    expect(classifyPushError('DeviceNotRegistered')).toBe('invalid_token');
+  });
+
+  it('should retry rate limiting', () => {
+    expect(classifyPushError('MessageRateExceeded')).toBe('transient');
+  });
+
+  it('should not retry errors that will fail again', () => {
+    expect(classifyPushError('MessageTooBig')).toBe('permanent');
+    expect(classifyPushError('InvalidCredentials')).toBe('permanent');
+    expect(classifyPushError(undefined)).toBe('permanent');
+  });
+});
+
+describe('pushRetryDelayMs', () => {
+  it('should double from one minute', () => {
+    expect(pushRetryDelayMs(1)).toBe(MINUTE);
+    expect(pushRetryDelayMs(2)).toBe(2 * MINUTE);
+    expect(pushRetryDelayMs(4)).toBe(8 * MINUTE);
+  });
+
+  it('should cap at an hour', () => {
+    expect(pushRetryDelayMs(20)).toBe(60 * MINUTE);
+  });
+});
+
+describe('nextPushAttemptAt', () => {
+  it('should schedule the next attempt after the backoff', () => {
+    expect(nextPushAttemptAt(1, NOW)).toEqual(new Date(NOW.getTime() + MINUTE));
+  });
+
+  it('should give up once attempts are used up', () => {
+    expect(nextPushAttemptAt(MAX_PUSH_ATTEMPTS, NOW)).toBeNull();
+  });
+});
+
+describe('userPushTokens', () => {
+  it('should combine registered devices with the legacy token', () => {
+    expect(
+      userPushTokens({
+        expoPushToken: 'ExponentPushToken[legacy]',
+        pushTokens: [{ token: 'ExponentPushToken[phone]' }, { token: 'ExpoPushToken[tablet]' }],
+      }),
+    ).toEqual(['ExponentPushToken[phone]', 'ExpoPushToken[tablet]', 'ExponentPushToken[legacy]']);
+  });
+
+  it('should skip duplicates and malformed tokens', () => {
+    expect(
+      userPushTokens({
+        expoPushToken: 'ExponentPushToken[phone]',
+        pushTokens: [{ token: 'ExponentPushToken[phone]' }, { token: 'not-a-token' }],
+      }),
+    ).toEqual(['ExponentPushToken[phone]']);
+  });
+
+  it('should return nothing for users without devices', () => {
+    expect(userPushTokens({})).toEqual([]);
+    expect(isValidExpoPushToken(null)).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  MAX_OCCURRENCE_CHARGE_ATTEMPTS,
+  alternativeTimes,
+  bookingHorizon,
+  dueOccurrenceIndexes,
+  occurrenceChargeDueAt,
+  occurrenceChargeRetryAt,
+  occurrenceDate,
+  occurrenceMessage,
+  parseRecurrence,
+  parseResolutions,
+} from '../../utils/recurring-series.util';
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+describe('parseRecurrence', () => {
+  it('should accept a fixed-length series', () => {
+    expect(parseRecurrence({ frequency: 'weekly', occurrences: 10 })).toEqual({
+      frequency: 'weekly',
+      occurrences: 10,
+    });
+  });
+
+  it('should treat a missing count as open-ended', () => {
+    expect(parseRecurrence({ frequency: 'monthly' })).toEqual({
+      frequency: 'monthly',
+      occurrences: null,
+    });
+  });
+
+  it('should reject unknown frequencies and out-of-range counts', () => {
+    expect(parseRecurrence({ frequency: 'daily', occurrences: 3 })).toMatch(/weekly\|biweekly/);
+    expect(parseRecurrence({ frequency: 'weekly', occurrences: 1 })).toMatch(/between 2 and 52/);
+    expect(parseRecurrence({ frequency: 'weekly', occurrences: 53 })).toMatch(/open-ended/);
+    expect(parseRecurrence(undefined)).toMatch(/frequency/);
+  });
+});
+
+describe('occurrenceDate', () => {
+  it('should step by the frequency', () => {
+    expect(occurrenceDate('2026-06-01', 'weekly', 2)).toEqual(day('2026-06-15'));
+    expect(occurrenceDate('2026-06-01', 'biweekly', 2)).toEqual(day('2026-06-29'));
+    expect(occurrenceDate('2026-06-01', 'monthly', 0)).toEqual(day('2026-06-01'));
+  });
+
+  it('should land month-end series on the last day of short months', () => {
+    expect(occurrenceDate('2026-01-31', 'monthly', 1)).toEqual(day('2026-02-28'));
+    expect(occurrenceDate('2026-01-31', 'monthly', 2)).toEqual(day('2026-03-31'));
+  });
+});
+
+describe('bookingHorizon', () => {
+  const now = new Date('2026-06-01T15:00:00Z');
+
+  it('should look eight weeks ahead by default', () => {
+    expect(bookingHorizon(now)).toEqual(day('2026-07-27'));
+  });
+
+  it("should use the service's horizon when it is shorter", () => {
+    expect(bookingHorizon(now, 14)).toEqual(day('2026-06-15'));
+    expect(bookingHorizon(now, 365)).toEqual(day('2026-07-27'));
+  });
+});
+
+describe('dueOccurrenceIndexes', () => {
+  const series = { anchorDate: day('2026-06-01'), frequency: 'weekly' as const, nextIndex: 0 };
+
+  it('should stop at the horizon for open-ended series', () => {
+    expect(dueOccurrenceIndexes({ ...series, occurrences: null }, day('2026-06-22'))).toEqual([
+      0, 1, 2, 3,
+    ]);
+  });
+
+  it('should stop at the series length', () => {
+    expect(dueOccurrenceIndexes({ ...series, occurrences: 2 }, day('2026-12-31'))).toEqual([0, 1]);
+  });
+
+  it('should continue from nextIndex', () => {
+    expect(
+      dueOccurrenceIndexes({ ...series, occurrences: null, nextIndex: 3 }, day('2026-06-29')),
+    ).toEqual([3, 4]);
+  });
+
+  it('should always include the first occurrence', () => {
+    expect(dueOccurrenceIndexes({ ...series, occurrences: 4 }, day('2026-05-01'))).toEqual([0]);
+  });
+});
+
+describe('occurrence charges', () => {
+  const now = new Date('2026-06-10T09:00:00Z');
+
+  it('should charge a day ahead', () => {
+    expect(occurrenceChargeDueAt(new Date('2026-06-12T14:00:00Z'))).toEqual(
+      new Date('2026-06-11T14:00:00Z'),
+    );
+  });
+
+  it('should retry until the last attempt', () => {
+    expect(occurrenceChargeRetryAt(1, now)).toEqual(new Date('2026-06-10T15:00:00Z'));
+    expect(occurrenceChargeRetryAt(MAX_OCCURRENCE_CHARGE_ATTEMPTS, now)).toBeNull();
+  });
+});
+
+describe('alternativeTimes', () => {
+  const slots = ['08:00', '09:00', '11:00', '12:00', '15:00'].map((start) => ({
+    start_time: start,
+    end_time: `${String(Number(start.slice(0, 2)) + 1).padStart(2, '0')}:00`,
+  }));
+
+  it('should offer the closest free times, earlier first on a tie', () => {
+    expect(alternativeTimes(slots, { startTime: '10:00', endTime: '11:00' })).toEqual([
+      { startTime: '09:00', endTime: '10:00' },
+      { startTime: '11:00', endTime: '12:00' },
+      { startTime: '08:00', endTime: '09:00' },
+    ]);
+  });
+
+  it('should not offer the wanted time itself', () => {
+    expect(alternativeTimes(slots, { startTime: '12:00', endTime: '13:00' }, 1)).toEqual([
+      { startTime: '11:00', endTime: '12:00' },
+    ]);
+  });
+});
+
+describe('parseResolutions', () => {
+  const conflicts = [{ index: 2 }, { index: 5 }];
+
+  it('should map each conflict to its choice', () => {
+    const resolutions = parseResolutions(
+      [
+        { index: 2, action: 'skip' },
+        { index: 5, action: 'move', startTime: '11:00', endTime: '12:00' },
+      ],
+      conflicts,
+    );
+    expect(resolutions).toBeInstanceOf(Map);
+    expect((resolutions as Map<number, unknown>).get(5)).toEqual({
+      index: 5,
+      action: 'move',
+      startTime: '11:00',
+      endTime: '12:00',
+    });
+  });
+
+  it('should require a choice for every conflict', () => {
+    expect(parseResolutions([{ index: 2, action: 'skip' }], conflicts)).toBe(
+      'Occurrences 5 still need a resolution',
+    );
+  });
+
+  it('should reject bad entries', () => {
+    expect(parseResolutions([{ index: 0, action: 'skip' }], [])).toMatch(/not skipped/);
+    expect(parseResolutions([{ index: 2, action: 'move' }], [])).toMatch(/startTime/);
+    expect(parseResolutions([{ index: 2, action: 'drop' }], [])).toMatch(/skip or move/);
+  });
+});
+
+describe('occurrenceMessage', () => {
+  const details = {
+    serviceName: 'Haircut',
+    appointmentDate: day('2026-06-12'),
+    startTime: '10:00',
+  };
+
+  it('should say how many tries are left after a failed charge', () => {
+    expect(occurrenceMessage('charge_failed', { ...details, attemptsLeft: 1 }).body).toBe(
+      "We couldn't charge your card for your Haircut on Fri, Jun 12 at 10:00. Please update your payment method — we'll try again 1 more time.",
+    );
+  });
+
+  it('should ask the customer to choose when a time is taken', () => {
+    expect(occurrenceMessage('conflict', details).title).toBe('Choose Another Time');
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  DEFAULT_RESCHEDULE_POLICY,
+  MAX_COUNTER_PROPOSALS,
+  describeRescheduleTime,
+  rescheduleEligibilityError,
+  rescheduleMessages,
+  resolveReschedulePolicy,
+  validateCounterProposals,
+  validateReschedulePolicy,
+} from '../../utils/reschedule.util';
+
+const slot = (startTime: string, day = '2026-06-10') => ({
+  appointmentDate: `${day}T00:00:00.000Z`,
+  startTime,
+  endTime: `${String(Number(startTime.slice(0, 2)) + 1).padStart(2, '0')}:00`,
+});
+
+describe('resolveReschedulePolicy', () => {
+  it('should fall back to the defaults when nothing is stored', () => {
+    expect(resolveReschedulePolicy(undefined)).toEqual(DEFAULT_RESCHEDULE_POLICY);
+    expect(resolveReschedulePolicy(null)).toEqual(DEFAULT_RESCHEDULE_POLICY);
+  });
+
+  it('should keep stored values and fill in the rest', () => {
+    expect(resolveReschedulePolicy({ minNoticeHours: 24 })).toEqual({
+      minNoticeHours: 24,
+      maxReschedules: 0,
+      requireApproval: false,
+    });
+  });
+
+  it('should ignore negative or non-numeric limits', () => {
+    const policy = resolveReschedulePolicy({ minNoticeHours: -1, maxReschedules: 'x' as any });
+    expect(policy.minNoticeHours).toBe(0);
+    expect(policy.maxReschedules).toBe(0);
+  });
+});
+
+describe('validateReschedulePolicy', () => {
+  it('should accept a partial policy', () => {
+    expect(validateReschedulePolicy({ requireApproval: true })).toBeNull();
+    expect(validateReschedulePolicy({ minNoticeHours: 12, maxReschedules: 2 })).toBeNull();
+  });
+
+  it('should reject fractional or negative numbers', () => {
+    expect(validateReschedulePolicy({ minNoticeHours: 1.5 })).toMatch(/minNoticeHours/);
+    expect(validateReschedulePolicy({ maxReschedules: -1 })).toMatch(/maxReschedules/);
+  });
+
+  it('should reject a non-boolean approval flag', () => {
+    expect(validateReschedulePolicy({ requireApproval: 'yes' as any })).toMatch(/requireApproval/);
+  });
+});
+
+describe('rescheduleEligibilityError', () => {
+  const policy = { minNoticeHours: 24, maxReschedules: 2, requireApproval: false };
+
+  it('should allow a move outside the notice window and under the limit', () => {
+    expect(rescheduleEligibilityError(policy, { rescheduleCount: 1 }, 48)).toBeNull();
+  });
+
+  it('should refuse once the appointment has started', () => {
+    expect(rescheduleEligibilityError(DEFAULT_RESCHEDULE_POLICY, {}, 0)).toMatch(/started/);
+  });
+
+  it('should refuse inside the notice window', () => {
+    expect(rescheduleEligibilityError(policy, {}, 23)).toMatch(/24 hours/);
+  });
+
+  it('should refuse once the limit is reached', () => {
+    expect(rescheduleEligibilityError(policy, { rescheduleCount: 2 }, 48)).toMatch(/2 times/);
+  });
+
+  it('should not limit moves when maxReschedules is 0', () => {
+    expect(
+      rescheduleEligibilityError(DEFAULT_RESCHEDULE_POLICY, { rescheduleCount: 50 }, 1),
+    ).toBeNull();
+  });
+});
+
+describe('validateCounterProposals', () => {
+  it('should accept up to the maximum distinct times', () => {
+    expect(validateCounterProposals([slot('09:00'), slot('11:00'), slot('13:00')])).toBeNull();
+  });
+
+  it('should require at least one time', () => {
+    expect(validateCounterProposals([])).toMatch(/at least one/);
+    expect(validateCounterProposals(undefined)).toMatch(/at least one/);
+  });
+
+  it('should cap the number of times', () => {
+    const proposals = Array.from({ length: MAX_COUNTER_PROPOSALS + 1 }, (_, i) =>
+      slot(`${String(9 + i).padStart(2, '0')}:00`),
+    );
+    expect(validateCounterProposals(proposals)).toMatch(/at most/);
+  });
+
+  it('should reject incomplete or repeated times', () => {
+    expect(validateCounterProposals([{ startTime: '09:00' }])).toMatch(/appointmentDate/);
+    expect(validateCounterProposals([slot('09:00'), slot('09:00')])).toMatch(/different/);
+  });
+
+  it('should treat the same time on another day as different', () => {
+    expect(validateCounterProposals([slot('09:00'), slot('09:00', '2026-06-11')])).toBeNull();
+  });
+});
+
+describe('rescheduleMessages', () => {
+  const details = {
+    serviceName: 'Haircut',
+    customerName: 'Sam',
+    from: slot('09:00'),
+    to: slot('14:00', '2026-06-12'),
+  };
+
+  it('should describe a time by its UTC calendar date', () => {
+    expect(describeRescheduleTime(slot('09:00'))).toBe('Wed, Jun 10 at 09:00');
+  });
+
+  it('should tell both sides where the appointment moved', () => {
+    const messages = rescheduleMessages('rescheduled', details);
+    expect(messages.customer.body).toContain('from Wed, Jun 10 at 09:00 to Fri, Jun 12 at 14:00');
+    expect(messages.vendor.body).toContain('Sam moved');
+  });
+
+  it('should pass the vendor note to the customer on decline', () => {
+    const messages = rescheduleMessages('declined', { ...details, note: 'Fully booked' });
+    expect(messages.customer.body).toContain('"Fully booked"');
+    expect(messages.customer.body).toContain('stays on Wed, Jun 10 at 09:00');
+  });
+
+  it('should list every counter-proposal', () => {
+    const messages = rescheduleMessages('countered', {
+      ...details,
+      proposals: [slot('11:00'), slot('15:00')],
+    });
+    expect(messages.customer.body).toContain('Wed, Jun 10 at 11:00, Wed, Jun 10 at 15:00');
+  });
+});
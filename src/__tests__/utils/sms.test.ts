@@ -0,0 +1,77 @@
+import {
+  formatSmsBody,
+  normalizePhoneNumber,
+  parseSmsKeyword,
+  phoneMatchPattern,
+  quietHoursEnd,
+} from '../../utils/sms.util';
+
+const TZ = 'America/New_York';
+
+describe('parseSmsKeyword', () => {
+  it('should recognize carrier keywords however they are typed', () => {
+    expect(parseSmsKeyword('stop')).toBe('stop');
+    expect(parseSmsKeyword(' Stop. ')).toBe('stop');
+    expect(parseSmsKeyword('STOP ALL')).toBe('stop');
+    expect(parseSmsKeyword('unsubscribe')).toBe('stop');
+    expect(parseSmsKeyword('Help')).toBe('help');
+    expect(parseSmsKeyword('START')).toBe('start');
+  });
+
+  it('should ignore ordinary replies', () => {
+    expect(parseSmsKeyword('please stop by at 5')).toBeNull();
+    expect(parseSmsKeyword('')).toBeNull();
+  });
+});
+
+describe('normalizePhoneNumber', () => {
+  it('should produce E.164', () => {
+    expect(normalizePhoneNumber('(555) 555-0123')).toBe('+15555550123');
+    expect(normalizePhoneNumber('1-555-555-0123')).toBe('+15555550123');
+    expect(normalizePhoneNumber('+44 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhoneNumber('12345')).toBeNull();
+  });
+});
+
+describe('phoneMatchPattern', () => {
+  it('should match stored numbers in any format', () => {
+    const pattern = new RegExp(phoneMatchPattern('+15555550123')!);
+    expect(pattern.test('(555) 555-0123')).toBe(true);
+    expect(pattern.test('+1 555.555.0123')).toBe(true);
+    expect(pattern.test('555-555-0124')).toBe(false);
+  });
+});
+
+describe('quietHoursEnd', () => {
+  it('should allow texts during the day', () => {
+    expect(quietHoursEnd(new Date('2026-06-10T16:00:00Z'), TZ)).toBeNull(); // 12:00 local
+  });
+
+  it('should hold late-evening texts until the next morning', () => {
+    // 22:30 local on the 10th
+    expect(quietHoursEnd(new Date('2026-06-11T02:30:00Z'), TZ)).toEqual(
+      new Date('2026-06-11T12:00:00Z'),
+    );
+  });
+
+  it('should hold early-morning texts until 08:00 the same day', () => {
+    // 06:00 local
+    expect(quietHoursEnd(new Date('2026-06-10T10:00:00Z'), TZ)).toEqual(
+      new Date('2026-06-10T12:00:00Z'),
+    );
+  });
+
+  it('should use the recipient zone, not the server zone', () => {
+    // 23:00 in New York is 20:00 in Los Angeles
+    expect(quietHoursEnd(new Date('2026-06-11T03:00:00Z'), 'America/Los_Angeles')).toBeNull();
+  });
+});
+
+describe('formatSmsBody', () => {
+  it('should add the brand and opt-out line once', () => {
+    expect(formatSmsBody('Your booking is confirmed.')).toBe(
+      'AppNow: Your booking is confirmed. Reply STOP to opt out.',
+    );
+    expect(formatSmsBody('AppNow: Reply STOP to opt out.')).toBe('AppNow: Reply STOP to opt out.');
+  });
+});
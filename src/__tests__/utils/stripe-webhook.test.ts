@@ -0,0 +1,73 @@
+import {
+  connectAccountFlags,
+  isDisputeClosed,
+  paymentStatusAfterRefund,
+  payoutRecordStatus,
+  toAppointmentRefundStatus,
+} from '../../utils/stripe-webhook.util';
+
+describe('toAppointmentRefundStatus', () => {
+  it('should map Stripe refund statuses', () => {
+    expect(toAppointmentRefundStatus('succeeded')).toBe('succeeded');
+    expect(toAppointmentRefundStatus('failed')).toBe('failed');
+    expect(toAppointmentRefundStatus('canceled')).toBe('cancelled');
+    expect(toAppointmentRefundStatus('requires_action')).toBe('processing');
+    expect(toAppointmentRefundStatus('pending')).toBe('pending');
+    expect(toAppointmentRefundStatus(null)).toBe('pending');
+  });
+});
+
+describe('paymentStatusAfterRefund', () => {
+  it('should leave unrefunded payments alone', () => {
+    expect(paymentStatusAfterRefund(100, 0)).toBeNull();
+  });
+
+  it('should distinguish partial and full refunds', () => {
+    expect(paymentStatusAfterRefund(100, 40)).toBe('partially_refunded');
+    expect(paymentStatusAfterRefund(100, 100)).toBe('refunded');
+  });
+
+  it('should absorb sub-cent rounding', () => {
+    expect(paymentStatusAfterRefund(33.335, 33.33)).toBe('refunded');
+    expect(paymentStatusAfterRefund(33.35, 33.33)).toBe('partially_refunded');
+  });
+});
+
+describe('payoutRecordStatus', () => {
+  it('should only settle paid and failed payouts', () => {
+    expect(payoutRecordStatus('paid')).toBe('paid');
+    expect(payoutRecordStatus('failed')).toBe('failed');
+    expect(payoutRecordStatus('in_transit')).toBeNull();
+    expect(payoutRecordStatus('pending')).toBeNull();
+  });
+});
+
+describe('connectAccountFlags', () => {
+  it('should read capability flags, treating missing as false', () => {
+    expect(
+      connectAccountFlags({
+        details_submitted: true,
+        charges_enabled: true,
+        payouts_enabled: false,
+      }),
+    ).toEqual({
+      stripeOnboardingCompleted: true,
+      stripeChargesEnabled: true,
+      stripePayoutsEnabled: false,
+    });
+    expect(connectAccountFlags({})).toEqual({
+      stripeOnboardingCompleted: false,
+      stripeChargesEnabled: false,
+      stripePayoutsEnabled: false,
+    });
+  });
+});
+
+describe('isDisputeClosed', () => {
+  it('should treat won and lost as closed', () => {
+    expect(isDisputeClosed('won')).toBe(true);
+    expect(isDisputeClosed('lost')).toBe(true);
+    expect(isDisputeClosed('needs_response')).toBe(false);
+    expect(isDisputeClosed('under_review')).toBe(false);
+  });
+});
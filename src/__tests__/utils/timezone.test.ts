@@ -0,0 +1,86 @@
+import {
+  buildZonedSchedule,
+  isValidTimezone,
+  minutesToTime,
+  resolveTimezone,
+  timeToMinutes,
+  toDateKey,
+  zonedTimeToUtc,
+  DEFAULT_TIMEZONE,
+} from '../../utils/timezone.util';
+import { getServiceSlots } from '../../services/get-slots.service';
+
+describe('timezone util', () => {
+  it('should validate IANA zone names', () => {
+    expect(isValidTimezone('America/Chicago')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus')).toBe(false);
+    expect(isValidTimezone('')).toBe(false);
+    expect(isValidTimezone(undefined)).toBe(false);
+  });
+
+  it('should fall back to the default zone', () => {
+    expect(resolveTimezone(null)).toBe(DEFAULT_TIMEZONE);
+    expect(resolveTimezone('Not/AZone')).toBe(DEFAULT_TIMEZONE);
+    expect(resolveTimezone('America/Denver')).toBe('America/Denver');
+  });
+
+  it('should convert between HH:mm and minutes', () => {
+    expect(timeToMinutes('09:30')).toBe(570);
+    expect(timeToMinutes('9:05')).toBe(545);
+    expect(timeToMinutes('25:00')).toBeNaN();
+    expect(minutesToTime(570)).toBe('09:30');
+    expect(minutesToTime(1470)).toBe('00:30');
+  });
+
+  it('should read stored calendar dates in UTC', () => {
+    expect(toDateKey(new Date('2026-03-10T00:00:00.000Z'))).toBe('2026-03-10');
+    expect(toDateKey('2026-03-10')).toBe('2026-03-10');
+  });
+
+  it('should interpret wall-clock times in the vendor zone', () => {
+    // Chicago is UTC-6 in January, UTC-5 in July
+    expect(zonedTimeToUtc('2026-01-15', '09:00', 'America/Chicago').toISOString()).toBe(
+      '2026-01-15T15:00:00.000Z',
+    );
+    expect(zonedTimeToUtc('2026-07-15', '09:00', 'America/Chicago').toISOString()).toBe(
+      '2026-07-15T14:00:00.000Z',
+    );
+  });
+
+  it('should roll windows that cross midnight onto the next day', () => {
+    const schedule = buildZonedSchedule('2026-01-15', '23:00', '00:30', 'UTC');
+    expect(schedule.startAt.toISOString()).toBe('2026-01-15T23:00:00.000Z');
+    expect(schedule.endAt.toISOString()).toBe('2026-01-16T00:30:00.000Z');
+  });
+});
+
+describe('getServiceSlots', () => {
+  const dateDetails = {
+    date: '2026-03-08', // US spring-forward day
+    reoccurrence: 2,
+    timingType: 'custom',
+    timings: [{ fromTime: '09:00', toTime: '11:00' }],
+  };
+
+  it('should return vendor-local and UTC instants for each slot', () => {
+    const slots = getServiceSlots(dateDetails, 60, {}, 'vs1', 'America/New_York');
+
+    expect(slots.map((s) => s.start_time)).toEqual(['09:00', '10:00']);
+    expect(slots[0].start_utc).toBe('2026-03-08T13:00:00.000Z');
+    expect(slots[0].start_local).toBe('2026-03-08T09:00:00-04:00');
+    expect(slots[0].timezone).toBe('America/New_York');
+  });
+
+  it('should subtract overlapping bookings from capacity', () => {
+    const slots = getServiceSlots(
+      dateDetails,
+      60,
+      { '2026-03-08': [{ start_time: '09:00', end_time: '10:00', appointments: 2 }] },
+      'vs1',
+      'America/Los_Angeles',
+    );
+
+    expect(slots.map((s) => s.start_time)).toEqual(['10:00']);
+    expect(slots[0].availableSlots).toBe(2);
+  });
+});
@@ -0,0 +1,300 @@
+import IORedis, { Redis } from 'ioredis';
+import logger from './logger';
+
+/**
+ * Response cache backends.
+ *
+ * Uses Redis when REDIS_URL is set so every App Service instance shares one
+ * cache (and one invalidation), otherwise falls back to a per-process Map —
+ * fine for local dev and single-instance deployments.
+ *
+ * Entries carry tags (e.g. `categories`, `vendor-services`, `promotions`).
+ * Mutations invalidate by tag rather than by key so a single category edit
+ * clears every list, detail and home response that embedded it.
+ *
+ * Both backends fail open: a cache error is logged and treated as a miss.
+ */
+
+export interface CacheStats {
+  backend: 'memory' | 'redis';
+  // 'cluster' when the numbers cover every instance sharing the backend
+  scope: 'instance' | 'cluster';
+  size: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  tags: Record<string, number>;
+  // Sample of keys, capped so the response stays small
+  keys: string[];
+  memoryUsed?: string;
+}
+
+export interface CacheBackend {
+  readonly name: 'memory' | 'redis';
+  get<T = any>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, ttlSeconds: number, tags?: string[]): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  invalidateTags(tags: string[]): Promise<number>;
+  clear(): Promise<number>;
+  getStats(): Promise<CacheStats>;
+  close(): Promise<void>;
+}
+
+const MAX_KEYS_IN_STATS = 200;
+
+const hitRate = (hits: number, misses: number) =>
+  hits + misses > 0 ? Math.round((hits / (hits + misses)) * 10000) / 100 : 0;
+
+// ============================================================================
+// In-process backend
+// ============================================================================
+
+interface MemoryEntry {
+  data: any;
+  expiresAt: number;
+  tags: string[];
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory' as const;
+  private entries = new Map<string, MemoryEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+  private hits = 0;
+  private misses = 0;
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor() {
+    // Clean up expired entries every minute; don't hold the process open
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60000);
+    this.cleanupTimer.unref();
+  }
+
+  async get<T = any>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry || Date.now() > entry.expiresAt) {
+      if (entry) this.remove(key);
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    return entry.data as T;
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number, tags: string[] = []): Promise<void> {
+    this.remove(key);
+    this.entries.set(key, { data: value, expiresAt: Date.now() + ttlSeconds * 1000, tags });
+    for (const tag of tags) {
+      if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+      this.tagIndex.get(tag)!.add(key);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let deleted = 0;
+    for (const tag of tags) {
+      for (const key of Array.from(this.tagIndex.get(tag) || [])) {
+        if (this.remove(key)) deleted++;
+      }
+      this.tagIndex.delete(tag);
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<number> {
+    const size = this.entries.size;
+    this.entries.clear();
+    this.tagIndex.clear();
+    return size;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const tags: Record<string, number> = {};
+    for (const [tag, keys] of this.tagIndex) tags[tag] = keys.size;
+    return {
+      backend: this.name,
+      scope: 'instance',
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: hitRate(this.hits, this.misses),
+      tags,
+      keys: Array.from(this.entries.keys()).slice(0, MAX_KEYS_IN_STATS),
+    };
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    for (const tag of entry.tags) this.tagIndex.get(tag)?.delete(key);
+    return true;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expiresAt) this.remove(key);
+    }
+  }
+}
+
+// ============================================================================
+// Redis backend
+// ============================================================================
+
+const KEY_PREFIX = 'cache:entry:';
+const TAG_PREFIX = 'cache:tag:';
+const STATS_KEY = 'cache:stats';
+// Tag sets must outlive every entry they index; stale members are harmless
+const TAG_TTL_SECONDS = 24 * 60 * 60;
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis' as const;
+  private client: Redis;
+
+  constructor(url: string) {
+    this.client = new IORedis(url, {
+      // Fail fast instead of queueing — a slow cache must not slow requests
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+      connectTimeout: 5000,
+    });
+    this.client.on('error', (err) => logger.error(`[Cache] Redis error: ${err.message}`));
+    this.client.on('connect', () => logger.info('[Cache] Redis connected'));
+  }
+
+  async get<T = any>(key: string): Promise<T | null> {
+    try {
+      const raw = await this.client.get(KEY_PREFIX + key);
+      this.client.hincrby(STATS_KEY, raw ? 'hits' : 'misses', 1).catch(() => undefined);
+      return raw ? (JSON.parse(raw) as T) : null;
+    } catch (err: any) {
+      logger.warn(`[Cache] get ${key} failed: ${err.message}`);
+      return null;
+    }
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number, tags: string[] = []): Promise<void> {
+    try {
+      const pipeline = this.client
+        .multi()
+        .set(KEY_PREFIX + key, JSON.stringify(value), 'EX', ttlSeconds);
+      for (const tag of tags) {
+        pipeline.sadd(TAG_PREFIX + tag, key);
+        pipeline.expire(TAG_PREFIX + tag, Math.max(ttlSeconds, TAG_TTL_SECONDS));
+      }
+      await pipeline.exec();
+    } catch (err: any) {
+      logger.warn(`[Cache] set ${key} failed: ${err.message}`);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      return (await this.client.del(KEY_PREFIX + key)) > 0;
+    } catch (err: any) {
+      logger.warn(`[Cache] delete ${key} failed: ${err.message}`);
+      return false;
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let deleted = 0;
+    for (const tag of tags) {
+      try {
+        const keys = await this.client.smembers(TAG_PREFIX + tag);
+        if (keys.length > 0) {
+          deleted += await this.client.unlink(...keys.map((key) => KEY_PREFIX + key));
+        }
+        await this.client.del(TAG_PREFIX + tag);
+      } catch (err: any) {
+        logger.warn(`[Cache] invalidate tag ${tag} failed: ${err.message}`);
+      }
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<number> {
+    let deleted = 0;
+    for (const pattern of [`${KEY_PREFIX}*`, `${TAG_PREFIX}*`]) {
+      const keys = await this.scan(pattern);
+      for (let i = 0; i < keys.length; i += 500) {
+        const removed = await this.client.unlink(...keys.slice(i, i + 500));
+        if (pattern.startsWith(KEY_PREFIX)) deleted += removed;
+      }
+    }
+    await this.client.del(STATS_KEY);
+    return deleted;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const [entryKeys, tagKeys, counters, memoryInfo] = await Promise.all([
+      this.scan(`${KEY_PREFIX}*`),
+      this.scan(`${TAG_PREFIX}*`),
+      this.client.hgetall(STATS_KEY),
+      this.client.info('memory').catch(() => ''),
+    ]);
+
+    const tags: Record<string, number> = {};
+    for (const tagKey of tagKeys) {
+      tags[tagKey.slice(TAG_PREFIX.length)] = await this.client.scard(tagKey);
+    }
+
+    const hits = Number(counters.hits || 0);
+    const misses = Number(counters.misses || 0);
+    return {
+      backend: this.name,
+      scope: 'cluster',
+      size: entryKeys.length,
+      hits,
+      misses,
+      hitRate: hitRate(hits, misses),
+      tags,
+      keys: entryKeys.slice(0, MAX_KEYS_IN_STATS).map((key) => key.slice(KEY_PREFIX.length)),
+      memoryUsed: /used_memory_human:(\S+)/.exec(memoryInfo)?.[1],
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private async scan(pattern: string): Promise<string[]> {
+    const found: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+      found.push(...keys);
+      cursor = next;
+    } while (cursor !== '0');
+    return found;
+  }
+}
+
+let backend: CacheBackend | null = null;
+
+/**
+ * The process-wide cache backend, chosen once from REDIS_URL.
+ */
+export function getCacheBackend(): CacheBackend {
+  if (backend) return backend;
+  backend = process.env.REDIS_URL
+    ? new RedisCacheBackend(process.env.REDIS_URL)
+    : new MemoryCacheBackend();
+  logger.info(`[Cache] Using ${backend.name} backend`);
+  return backend;
+}
+
+export async function closeCache(): Promise<void> {
+  if (!backend) return;
+  await backend.close();
+  backend = null;
+}
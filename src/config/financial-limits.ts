@@ -0,0 +1,86 @@
+/**
+ * Limits on admin-initiated money movements (refunds, wallet credit).
+ *
+ * Each admin role has, per action:
+ *   - dailyCap           total an admin may move per UTC day, counting
+ *                        executed actions and ones awaiting approval
+ *   - approvalThreshold  a single action above this needs a second
+ *                        super_admin to approve it before it runs
+ *
+ * Env vars (all optional, dollars):
+ *   SUPPORT_AGENT_DAILY_WALLET_CREDIT_CAP         (default 200)
+ *   SUPPORT_AGENT_WALLET_CREDIT_APPROVAL_ABOVE    (default 50)
+ *   SUPPORT_AGENT_DAILY_REFUND_CAP                (default 500)
+ *   SUPPORT_AGENT_REFUND_APPROVAL_ABOVE           (default 100)
+ *   SUPER_ADMIN_DAILY_WALLET_CREDIT_CAP           (default 5000)
+ *   SUPER_ADMIN_WALLET_CREDIT_APPROVAL_ABOVE      (default 500)
+ *   SUPER_ADMIN_DAILY_REFUND_CAP                  (default 20000)
+ *   SUPER_ADMIN_REFUND_APPROVAL_ABOVE             (default 1000)
+ */
+
+export type AdminRole = 'super_admin' | 'support_agent';
+export type FinancialActionType = 'wallet_credit' | 'refund';
+
+export interface FinancialLimit {
+  dailyCap: number;
+  approvalThreshold: number;
+}
+
+export type FinancialDecision =
+  | { outcome: 'execute' }
+  | { outcome: 'approval' }
+  | { outcome: 'over_cap'; remaining: number };
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const FINANCIAL_LIMITS: Record<AdminRole, Record<FinancialActionType, FinancialLimit>> = {
+  support_agent: {
+    wallet_credit: {
+      dailyCap: numberFromEnv('SUPPORT_AGENT_DAILY_WALLET_CREDIT_CAP', 200),
+      approvalThreshold: numberFromEnv('SUPPORT_AGENT_WALLET_CREDIT_APPROVAL_ABOVE', 50),
+    },
+    refund: {
+      dailyCap: numberFromEnv('SUPPORT_AGENT_DAILY_REFUND_CAP', 500),
+      approvalThreshold: numberFromEnv('SUPPORT_AGENT_REFUND_APPROVAL_ABOVE', 100),
+    },
+  },
+  super_admin: {
+    wallet_credit: {
+      dailyCap: numberFromEnv('SUPER_ADMIN_DAILY_WALLET_CREDIT_CAP', 5000),
+      approvalThreshold: numberFromEnv('SUPER_ADMIN_WALLET_CREDIT_APPROVAL_ABOVE', 500),
+    },
+    refund: {
+      dailyCap: numberFromEnv('SUPER_ADMIN_DAILY_REFUND_CAP', 20000),
+      approvalThreshold: numberFromEnv('SUPER_ADMIN_REFUND_APPROVAL_ABOVE', 1000),
+    },
+  },
+};
+
+// Pending approvals lapse after this long
+export const APPROVAL_TTL_MS = 72 * 60 * 60 * 1000;
+
+// Legacy admins with no sub-role are treated as super_admin
+export const effectiveAdminRole = (adminRole?: string | null): AdminRole =>
+  adminRole === 'support_agent' ? 'support_agent' : 'super_admin';
+
+export function startOfUtcDay(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Whether an action can run now, needs approval, or would take the admin
+ * past their daily cap. `usedToday` excludes the action itself.
+ */
+export function evaluateFinancialAction(
+  amount: number,
+  usedToday: number,
+  limit: FinancialLimit,
+): FinancialDecision {
+  const remaining = Math.max(0, Math.round((limit.dailyCap - usedToday) * 100) / 100);
+  if (amount > remaining) return { outcome: 'over_cap', remaining };
+  if (amount > limit.approvalThreshold) return { outcome: 'approval' };
+  return { outcome: 'execute' };
+}
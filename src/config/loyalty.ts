@@ -0,0 +1,81 @@
+/**
+ * Loyalty program configuration.
+ *
+ * Env vars (all optional):
+ *   LOYALTY_POINTS_PER_DOLLAR   base earn rate on completed bookings (default 1)
+ *   LOYALTY_SILVER_THRESHOLD    lifetime points needed for silver (default 500)
+ *   LOYALTY_GOLD_THRESHOLD      lifetime points needed for gold (default 1000)
+ */
+
+export type LoyaltyTier = 'bronze' | 'silver' | 'gold';
+
+export interface LoyaltyTierBenefits {
+  // Lifetime earned points needed to reach this tier
+  minTotalEarned: number;
+  // Multiplier applied to base points earned on bookings
+  pointsMultiplier: number;
+  // Percentage off the service fee applied during booking validation
+  bookingDiscountPercent: number;
+  // Cap on the per-booking discount, in dollars (0 = no discount)
+  maxBookingDiscount: number;
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const LOYALTY_POINTS_PER_DOLLAR = numberFromEnv('LOYALTY_POINTS_PER_DOLLAR', 1);
+
+export const LOYALTY_TIERS: Record<LoyaltyTier, LoyaltyTierBenefits> = {
+  bronze: {
+    minTotalEarned: 0,
+    pointsMultiplier: 1,
+    bookingDiscountPercent: 0,
+    maxBookingDiscount: 0,
+  },
+  silver: {
+    minTotalEarned: numberFromEnv('LOYALTY_SILVER_THRESHOLD', 500),
+    pointsMultiplier: 1.25,
+    bookingDiscountPercent: 5,
+    maxBookingDiscount: 15,
+  },
+  gold: {
+    minTotalEarned: numberFromEnv('LOYALTY_GOLD_THRESHOLD', 1000),
+    pointsMultiplier: 1.5,
+    bookingDiscountPercent: 10,
+    maxBookingDiscount: 30,
+  },
+};
+
+// Highest tier first, so the first match wins
+const TIERS_DESCENDING: LoyaltyTier[] = ['gold', 'silver', 'bronze'];
+
+export function getTierForTotalEarned(totalEarned: number): LoyaltyTier {
+  return (
+    TIERS_DESCENDING.find((tier) => totalEarned >= LOYALTY_TIERS[tier].minTotalEarned) || 'bronze'
+  );
+}
+
+export function getNextTier(tier: LoyaltyTier): LoyaltyTier | null {
+  const index = TIERS_DESCENDING.indexOf(tier);
+  return index > 0 ? TIERS_DESCENDING[index - 1] : null;
+}
+
+/**
+ * Base points × tier multiplier, rounded down.
+ */
+export function calculatePointsForAmount(amount: number, tier: LoyaltyTier): number {
+  if (!(amount > 0)) return 0;
+  return Math.floor(amount * LOYALTY_POINTS_PER_DOLLAR * LOYALTY_TIERS[tier].pointsMultiplier);
+}
+
+/**
+ * Tier discount on a service fee, in dollars (2 decimals).
+ */
+export function calculateTierDiscount(serviceFee: number, tier: LoyaltyTier): number {
+  const { bookingDiscountPercent, maxBookingDiscount } = LOYALTY_TIERS[tier];
+  if (!(serviceFee > 0) || bookingDiscountPercent <= 0) return 0;
+  const discount = Math.min((serviceFee * bookingDiscountPercent) / 100, maxBookingDiscount);
+  return Math.round(discount * 100) / 100;
+}
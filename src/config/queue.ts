@@ -91,7 +91,12 @@ export async function enqueue<T = any>(
   queueName: string,
   jobName: string,
   data: T,
-  opts?: { delay?: number; jobId?: string },
+  opts?: {
+    delay?: number;
+    jobId?: string;
+    attempts?: number;
+    backoff?: { type: 'exponential' | 'fixed'; delay: number };
+  },
 ): Promise<boolean> {
   const queue = getQueue(queueName);
   if (!queue) {
@@ -0,0 +1,149 @@
+import type { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+import IORedis, { Redis } from 'ioredis';
+import logger from './logger';
+
+/**
+ * Rate limit quotas and the shared Redis counter store.
+ *
+ * With REDIS_URL set, every instance counts against the same Redis keys so
+ * a quota means the same thing however far the App Service scales out.
+ * Without it, express-rate-limit's per-process MemoryStore is used.
+ *
+ * Route-group quotas can be overridden per environment:
+ *   RATE_LIMIT_<GROUP>_MAX              requests allowed per window
+ *   RATE_LIMIT_<GROUP>_WINDOW_SECONDS   window length
+ * e.g. RATE_LIMIT_BOOKING_MAX=20, RATE_LIMIT_CHAT_SEND_WINDOW_SECONDS=120
+ */
+
+export type RateLimitGroup = 'booking' | 'slotLock' | 'chatSend' | 'searchLog';
+
+export interface RateLimitQuota {
+  max: number;
+  windowSeconds: number;
+  message: string;
+}
+
+const ENV_NAMES: Record<RateLimitGroup, string> = {
+  booking: 'BOOKING',
+  slotLock: 'SLOT_LOCK',
+  chatSend: 'CHAT_SEND',
+  searchLog: 'SEARCH_LOG',
+};
+
+const positiveIntFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+const quota = (
+  group: RateLimitGroup,
+  max: number,
+  windowSeconds: number,
+  message: string,
+): RateLimitQuota => ({
+  max: positiveIntFromEnv(`RATE_LIMIT_${ENV_NAMES[group]}_MAX`, max),
+  windowSeconds: positiveIntFromEnv(`RATE_LIMIT_${ENV_NAMES[group]}_WINDOW_SECONDS`, windowSeconds),
+  message,
+});
+
+export const RATE_LIMIT_QUOTAS: Record<RateLimitGroup, RateLimitQuota> = {
+  booking: quota('booking', 10, 10 * 60, 'Too many booking attempts, please try again shortly'),
+  slotLock: quota('slotLock', 30, 5 * 60, 'Too many slot hold requests, please slow down'),
+  chatSend: quota('chatSend', 30, 60, 'You are sending messages too quickly'),
+  searchLog: quota('searchLog', 60, 60 * 60, 'Too many search events'),
+};
+
+// ============================================================================
+// Redis store
+// ============================================================================
+
+// INCR + set expiry on first hit, atomically; returns [hits, ttl ms]
+const INCREMENT_SCRIPT = `
+local hits = redis.call('INCR', KEYS[1])
+if hits == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+let client: Redis | null = null;
+
+function getClient(): Redis | null {
+  if (client) return client;
+  if (!process.env.REDIS_URL) return null;
+
+  client = new IORedis(process.env.REDIS_URL, {
+    // Fail fast; the limiter passes requests through on store errors
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false,
+    connectTimeout: 5000,
+  });
+  client.on('error', (err) => logger.error(`[RateLimit] Redis error: ${err.message}`));
+  return client;
+}
+
+/**
+ * express-rate-limit store backed by fixed-window Redis counters.
+ * Each limiter needs its own instance (and prefix).
+ */
+export class RedisRateLimitStore implements Store {
+  readonly localKeys = false;
+  readonly prefix: string;
+  private windowMs = 60 * 1000;
+
+  constructor(
+    private redis: Redis,
+    name: string,
+  ) {
+    this.prefix = `ratelimit:${name}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const [hits, ttl] = await Promise.all([
+      this.redis.get(this.prefix + key),
+      this.redis.pttl(this.prefix + key),
+    ]);
+    if (hits === null) return undefined;
+    return { totalHits: Number(hits), resetTime: new Date(Date.now() + Math.max(ttl, 0)) };
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const [hits, ttl] = (await this.redis.eval(
+      INCREMENT_SCRIPT,
+      1,
+      this.prefix + key,
+      String(this.windowMs),
+    )) as [number, number];
+    return { totalHits: Number(hits), resetTime: new Date(Date.now() + Number(ttl)) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.redis.decr(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.redis.del(this.prefix + key);
+  }
+}
+
+/**
+ * A Redis store for the named limiter, or undefined (MemoryStore) when
+ * Redis isn't configured.
+ */
+export function createRateLimitStore(name: string): Store | undefined {
+  const redis = getClient();
+  return redis ? new RedisRateLimitStore(redis, name) : undefined;
+}
+
+export async function closeRateLimitStore(): Promise<void> {
+  if (!client) return;
+  await client.quit();
+  client = null;
+}
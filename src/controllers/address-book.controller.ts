@@ -2,6 +2,7 @@ import type { Request, Response } from 'express';
 import { asyncHandler } from '../utils/asyncHandler.util';
 import { AppError } from '../utils/appError.util';
 import User from '../models/user.model';
+import { isValidTimezone } from '../utils/timezone.util';
 
 /**
  * Customer address book — saved service addresses for faster booking.
@@ -155,15 +156,23 @@ export const updateNotificationPrefs = asyncHandler(async (req: Request, res: Re
     }
   }
   (dbUser as any).notificationPrefs = current;
+
+  // Local zone for SMS quiet hours; null clears it
+  if (req.body.timezone !== undefined) {
+    if (req.body.timezone !== null && !isValidTimezone(req.body.timezone)) {
+      throw new AppError('timezone must be a valid IANA zone', 400);
+    }
+    dbUser.timezone = req.body.timezone;
+  }
   await dbUser.save();
 
-  res.status(200).json({ success: true, data: current });
+  res.status(200).json({ success: true, data: { ...current, timezone: dbUser.timezone || null } });
 });
 
 /** GET /api/v1/customer/notification-prefs */
 export const getNotificationPrefs = asyncHandler(async (req: Request, res: Response) => {
   const dbUser = await User.findById((await resolveUser(req))._id)
-    .select('notificationPrefs smsConsent marketingEmailConsent')
+    .select('notificationPrefs smsConsent marketingEmailConsent timezone')
     .lean();
   res.status(200).json({
     success: true,
@@ -171,6 +180,7 @@ export const getNotificationPrefs = asyncHandler(async (req: Request, res: Respo
       ...((dbUser as any)?.notificationPrefs || {}),
       smsConsent: (dbUser as any)?.smsConsent || false,
       marketingEmailConsent: (dbUser as any)?.marketingEmailConsent || false,
+      timezone: dbUser?.timezone || null,
     },
   });
 });
@@ -2,18 +2,58 @@ import type { Request, Response } from 'express';
 import { asyncHandler } from '../utils/asyncHandler.util';
 import { AppError } from '../utils/appError.util';
 import User from '../models/user.model';
-import Appointment from '../models/appointment.model';
 import WalletTransaction from '../models/wallet-transaction.model';
-import StripeService from '../services/stripe.service';
-import { logAuditEvent } from '../middlewares/audit.middleware';
-import logger from '../config/logger';
+import AdminFinancialAction from '../models/admin-financial-action.model';
+import {
+  FINANCIAL_LIMITS,
+  effectiveAdminRole,
+  type FinancialActionType,
+} from '../config/financial-limits';
+import {
+  approveFinancialAction,
+  expireStaleApprovals,
+  loadRefundTarget,
+  rejectFinancialAction,
+  requestFinancialAction,
+  usedToday,
+  type FinancialActionOutcome,
+} from '../services/admin-financial.service';
 
 /**
  * Admin-initiated financial actions. Every action is audit-logged with
  * the admin's identity, and every wallet change writes to the
  * WalletTransaction ledger for reconciliation.
+ *
+ * Refunds and wallet credits count against the admin's daily cap for
+ * their role; above the approval threshold they are queued until a
+ * second super_admin approves them (services/admin-financial.service).
  */
 
+const FINANCIAL_ACTION_STATUSES = [
+  'pending',
+  'processing',
+  'executed',
+  'failed',
+  'rejected',
+  'expired',
+];
+
+// 202 with the approval request when the action was queued
+const sendOutcome = (res: Response, outcome: FinancialActionOutcome) => {
+  const { record } = outcome;
+  if (outcome.status === 'pending') {
+    return res.status(202).json({
+      success: true,
+      message: 'This amount needs a second super_admin to approve it',
+      data: { approvalRequestId: record._id, status: record.status, amount: record.amount },
+    });
+  }
+  return res.status(200).json({
+    success: true,
+    data: { ...record.result, financialActionId: record._id },
+  });
+};
+
 /**
  * POST /admin/appointments/:id/refund
  * Body: { amount?, reason }
@@ -30,60 +70,14 @@ export const adminIssueRefund = asyncHandler(async (req: Request, res: Response)
     throw new AppError('A reason of at least 5 characters is required', 400);
   }
 
-  const appointment = await Appointment.findById(id);
-  if (!appointment) throw new AppError('Appointment not found', 404);
-  if (!appointment.paymentIntentId) {
-    throw new AppError('This appointment has no Stripe payment to refund', 400);
-  }
-  if (appointment.paymentStatus === 'refunded') {
-    throw new AppError('This appointment has already been fully refunded', 400);
-  }
-
-  const refundAmount = amount ?? appointment.total ?? 0;
-  if (refundAmount <= 0) throw new AppError('Refund amount must be positive', 400);
-  if (refundAmount > (appointment.total ?? 0)) {
-    throw new AppError('Refund amount cannot exceed the appointment total', 400);
-  }
-  const isFullRefund = refundAmount >= (appointment.total ?? 0);
-
-  const refund = await StripeService.refundPayment(
-    appointment.paymentIntentId,
-    isFullRefund ? undefined : refundAmount,
-  );
-
-  appointment.refundId = refund.id;
-  appointment.refundStatus =
-    (refund.status as 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled') ||
-    'pending';
-  appointment.refundAmount = refund.amount ? refund.amount / 100 : refundAmount;
-  appointment.paymentStatus = isFullRefund ? 'refunded' : 'partially_refunded';
-  await appointment.save();
-
-  await logAuditEvent('ADMIN_REFUND', 'appointment', {
-    userId: String(admin._id),
-    userEmail: admin.email,
-    resourceId: String(appointment._id),
-    metadata: {
-      refundId: refund.id,
-      amount: appointment.refundAmount,
-      reason: reason.trim(),
-      isFullRefund,
-    },
-  });
-
-  logger.info(
-    `[Admin] ${admin.email} issued $${appointment.refundAmount.toFixed(2)} refund on appointment ${id} — ${reason.trim()}`,
-  );
-
-  res.status(200).json({
-    success: true,
-    data: {
-      refundId: refund.id,
-      refundAmount: appointment.refundAmount,
-      refundStatus: refund.status,
-      isFullRefund,
-    },
+  const target = await loadRefundTarget(id, amount);
+  const outcome = await requestFinancialAction(admin, {
+    action: 'refund',
+    amount: target.amount,
+    reason: reason.trim(),
+    appointmentId: String(target.appointment._id),
   });
+  sendOutcome(res, outcome);
 });
 
 /**
@@ -117,53 +111,117 @@ export const adminAddWalletCredit = asyncHandler(async (req: Request, res: Respo
     throw new AppError(`Reason must be one of: ${allowedReasons.join(', ')}`, 400);
   }
 
-  const user = await User.findById(id);
+  const user = await User.findById(id).select('_id');
   if (!user) throw new AppError('User not found', 404);
 
-  const before = (user as any).walletBalance || 0;
-  const after = Math.round((before + amount) * 100) / 100;
-  (user as any).walletBalance = after;
-  await user.save();
-
-  const tx = await WalletTransaction.create({
-    userId: user._id,
-    type: 'credit',
+  const outcome = await requestFinancialAction(admin, {
+    action: 'wallet_credit',
     amount,
     reason,
     note,
-    adminId: admin._id,
-    balanceAfter: after,
+    targetUserId: String(user._id),
   });
+  sendOutcome(res, outcome);
+});
 
-  await logAuditEvent('ADMIN_WALLET_CREDIT', 'user', {
-    userId: String(admin._id),
-    userEmail: admin.email,
-    resourceId: String(user._id),
-    metadata: {
-      amount,
-      reason,
-      note,
-      balanceBefore: before,
-      balanceAfter: after,
-      transactionId: String(tx._id),
-    },
-  });
+/**
+ * GET /admin/financial-limits
+ * The signed-in admin's caps, thresholds and what they've used today.
+ */
+export const adminGetFinancialLimits = asyncHandler(async (req: Request, res: Response) => {
+  const admin = (req as any).user;
+  const role = effectiveAdminRole(admin.adminRole);
+  const actions = Object.keys(FINANCIAL_LIMITS[role]) as FinancialActionType[];
 
-  logger.info(
-    `[Admin] ${admin.email} credited $${amount.toFixed(2)} to user ${user.email} (${reason})`,
+  const limits = await Promise.all(
+    actions.map(async (action) => {
+      const used = await usedToday(admin._id, action);
+      const { dailyCap, approvalThreshold } = FINANCIAL_LIMITS[role][action];
+      return {
+        action,
+        dailyCap,
+        approvalThreshold,
+        usedToday: used,
+        remainingToday: Math.max(0, Math.round((dailyCap - used) * 100) / 100),
+      };
+    }),
   );
 
+  res.status(200).json({ success: true, data: { role, limits } });
+});
+
+/**
+ * GET /admin/financial-actions?status=pending&action=refund&page=1&limit=20
+ * The approval queue (status=pending) and history of admin money movements.
+ */
+export const adminListFinancialActions = asyncHandler(async (req: Request, res: Response) => {
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+  const status = req.query.status as string | undefined;
+  if (status && !FINANCIAL_ACTION_STATUSES.includes(status)) {
+    throw new AppError(`status must be one of: ${FINANCIAL_ACTION_STATUSES.join(', ')}`, 400);
+  }
+
+  await expireStaleApprovals();
+
+  const filter: Record<string, unknown> = {};
+  if (status) filter.status = status;
+  if (req.query.action) filter.action = req.query.action;
+
+  const [actions, total] = await Promise.all([
+    AdminFinancialAction.find(filter)
+      // Oldest first for the queue, newest first for history
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    AdminFinancialAction.countDocuments(filter),
+  ]);
+
   res.status(200).json({
     success: true,
     data: {
-      transactionId: tx._id,
-      balanceBefore: before,
-      balanceAfter: after,
-      amount,
+      actions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
     },
   });
 });
 
+/**
+ * POST /admin/financial-actions/:id/approve
+ * Body: { note? }
+ * A super_admin other than the requester approves; the action runs now.
+ */
+export const adminApproveFinancialAction = asyncHandler(async (req: Request, res: Response) => {
+  const admin = (req as any).user;
+  if (!admin?._id) throw new AppError('Admin session required', 401);
+
+  const record = await approveFinancialAction(req.params.id, admin, req.body?.note);
+  res.status(200).json({ success: true, data: record });
+});
+
+/**
+ * POST /admin/financial-actions/:id/reject
+ * Body: { note }
+ */
+export const adminRejectFinancialAction = asyncHandler(async (req: Request, res: Response) => {
+  const admin = (req as any).user;
+  if (!admin?._id) throw new AppError('Admin session required', 401);
+
+  const note = (req.body?.note as string | undefined)?.trim();
+  if (!note || note.length < 5) {
+    throw new AppError('A note of at least 5 characters is required', 400);
+  }
+
+  const record = await rejectFinancialAction(req.params.id, admin, note);
+  res.status(200).json({ success: true, data: record });
+});
+
 /**
  * GET /admin/users/:id/wallet-history
  * Returns the wallet transaction ledger for a user.
@@ -0,0 +1,64 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import Appointment from '../models/appointment.model';
+import RescheduleRequest from '../models/reschedule-request.model';
+import { getVendorServiceIds } from '../utils/vendor.util';
+import { buildAppointmentTimeline } from '../utils/appointment-status.util';
+
+/**
+ * Appointment timeline — the booking, every status change (who, when,
+ * why) and every accepted reschedule, oldest first.
+ *
+ *   GET /customer/appointments/:id/timeline   — own appointments
+ *   GET /vendor/appointments/:id/timeline     — appointments for own services
+ *   GET /admin/manage-appointments/:id/timeline — any, with the acting user ids
+ */
+
+const TIMELINE_FIELDS =
+  'customerId vendorServiceId status createdAt updatedAt statusHistory statusChangedBy statusReason cancellationReason cancelledAt completedAt';
+
+const loadTimeline = async (
+  appointmentId: string,
+  canView: (appointment: { customerId: unknown; vendorServiceId: unknown }) => boolean,
+  includeActorIds = false,
+) => {
+  const appointment = await Appointment.findById(appointmentId).select(TIMELINE_FIELDS).lean();
+  // Someone else's appointment reads as missing
+  if (!appointment || !canView(appointment)) {
+    throw new AppError('Appointment not found', 404);
+  }
+
+  const moves = await RescheduleRequest.find({ appointmentId, status: 'accepted' })
+    .select('from movedTo resolvedAt')
+    .lean();
+  return {
+    appointmentId,
+    status: appointment.status,
+    timeline: buildAppointmentTimeline(appointment, moves, { includeActorIds }),
+  };
+};
+
+/** GET /customer/appointments/:id/timeline */
+export const getCustomerAppointmentTimeline = asyncHandler(async (req: Request, res: Response) => {
+  const data = await loadTimeline(
+    req.params.id,
+    (appointment) => String(appointment.customerId) === String(req.user!._id),
+  );
+  res.status(200).json({ success: true, data });
+});
+
+/** GET /vendor/appointments/:id/timeline */
+export const getVendorAppointmentTimeline = asyncHandler(async (req: Request, res: Response) => {
+  const serviceIds = await getVendorServiceIds(req.vendorId!);
+  const data = await loadTimeline(req.params.id, (appointment) =>
+    serviceIds.includes(String(appointment.vendorServiceId)),
+  );
+  res.status(200).json({ success: true, data });
+});
+
+/** GET /admin/manage-appointments/:id/timeline */
+export const getAdminAppointmentTimeline = asyncHandler(async (req: Request, res: Response) => {
+  const data = await loadTimeline(req.params.id, () => true, true);
+  res.status(200).json({ success: true, data });
+});
@@ -7,20 +7,71 @@ import SlotLock from '../models/slot-lock.model';
 import User from '../models/user.model';
 import { AppError } from '../utils/appError.util';
 import { asyncHandler } from '../utils/asyncHandler.util';
-import { sendBookingConfirmationEmail } from '../services/email.service';
+import { buildAppointmentIcs } from '../services/ics.service';
+import { emitAppointmentEvent } from '../services/vendor-webhook.service';
+import {
+  assertStatusTransition,
+  changeAppointmentStatus,
+} from '../services/appointment-status.service';
 
 import StripeService from '../services/stripe.service';
-import { sendBookingConfirmationNotification } from '../services/push-notification.service';
-import {
-  scheduleAppointmentReminders,
-  cancelAppointmentReminders,
-  rescheduleAppointmentReminders,
-  syncTodaySchedule,
-} from '../services/notification-scheduler.service';
+import { dispatchNotification } from '../services/notification-dispatcher.service';
+import { cancelAppointmentReminders } from '../services/notification-scheduler.service';
 import { notifyWaitlistedUsers } from './waitlist.controller';
+import { getVendorServiceTimezone, resolveAppointmentSchedule } from '../utils/vendor.util';
+import { getTierDiscountForBooking } from '../services/loyalty.service';
+import { buildZonedSchedule, formatInTimezone } from '../utils/timezone.util';
+import {
+  getAppointmentPolicy,
+  snapshotCancellationPolicy,
+} from '../services/cancellation-policy.service';
+import { calculateCancellationRefund, describePolicy } from '../utils/cancellation-policy.util';
+import {
+  ensureStripeCustomer,
+  refundAppointmentPayment,
+  resolveBookingDeposit,
+  waiveBalance,
+} from '../services/deposit.service';
+import { amountPaid, paymentPartsOf } from '../utils/deposit.util';
+import { resolveBookingStaff } from '../services/staff-availability.service';
+import { isBookingBlocked } from '../services/block-time.service';
+import { checkBookingRules } from '../services/booking-rules.service';
+import { createReservedBooking, findCollidingAppointment } from '../services/booking.service';
+import {
+  requestReschedule,
+  respondToCounterProposal,
+  withdrawRescheduleRequest,
+} from '../services/reschedule.service';
 import logger from '../config/logger';
 import mongoose from 'mongoose';
 
+// What update-booking may change. Times go through the reschedule flow,
+// status through the cancel and mark-* operations, money through its services.
+const BOOKING_DETAIL_FIELDS = ['customerNotes', 'servicePlace', 'customerAddress'];
+
+/**
+ * Hours until an appointment starts, measured in the vendor's timezone.
+ * Prefers the stored UTC instant; legacy rows are resolved on the fly.
+ */
+const getHoursUntilAppointment = async (appointment: any): Promise<number> => {
+  const { startAt } = await resolveAppointmentSchedule(appointment);
+  return (startAt.getTime() - Date.now()) / (1000 * 60 * 60);
+};
+
+/**
+ * Vendor-local and UTC views of an appointment's booked window.
+ */
+const describeSchedule = (appointment: any) => {
+  if (!appointment.startAt || !appointment.timezone) return null;
+  return {
+    timezone: appointment.timezone,
+    startLocal: formatInTimezone(appointment.startAt, appointment.timezone),
+    endLocal: appointment.endAt ? formatInTimezone(appointment.endAt, appointment.timezone) : null,
+    startUtc: new Date(appointment.startAt).toISOString(),
+    endUtc: appointment.endAt ? new Date(appointment.endAt).toISOString() : null,
+  };
+};
+
 export const createAppointment = asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -28,6 +79,7 @@ export const createAppointment = asyncHandler(async (req: Request, res: Response
   }
 
   const appointment = await Appointment.create(req.body);
+  await emitAppointmentEvent('appointment.created', appointment);
 
   res.status(201).json(appointment);
 });
@@ -77,10 +129,15 @@ export const updateAppointment = asyncHandler(async (req: Request, res: Response
     throw new AppError('Not authorized to update this appointment', 403);
   }
 
-  appointment.status = req.body.status || appointment.status;
-  const updatedAppointment = await appointment.save();
+  if (req.body.status && req.body.status !== appointment.status) {
+    await changeAppointmentStatus(appointment, req.body.status, {
+      actor: 'admin',
+      actorId: req.user!._id,
+      reason: req.body.reason,
+    });
+  }
 
-  res.json(updatedAppointment);
+  res.json(appointment);
 });
 
 export const deleteAppointment = asyncHandler(async (req: Request, res: Response) => {
@@ -158,6 +215,24 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
     }
     // === End coupon validation ===
 
+    // === Loyalty tier discount ===
+    // Silver/gold members get a percentage off the (post-coupon) service fee.
+    // Always server-calculated; the client-supplied total is pre-loyalty.
+    req.body.loyaltyTier = undefined;
+    req.body.loyaltyDiscountAmount = 0;
+    if (req.body.customerId && mongoose.isValidObjectId(req.body.customerId)) {
+      const discountBase = Math.max(
+        0,
+        (Number(req.body.serviceFee) || 0) - (Number(req.body.discountAmount) || 0),
+      );
+      const tierDiscount = await getTierDiscountForBooking(req.body.customerId, discountBase);
+      req.body.loyaltyTier = tierDiscount.tier;
+      if (tierDiscount.discountAmount > 0) {
+        req.body.loyaltyDiscountAmount = tierDiscount.discountAmount;
+        req.body.total = Math.max(0, (Number(req.body.total) || 0) - tierDiscount.discountAmount);
+      }
+    }
+    // === End loyalty tier discount ===
 
     // Check if slot is locked by another user
     if (
@@ -188,42 +263,108 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
       }
     }
 
-    // Check if slot is already booked.
-    // For multi-staff vendors: a slot is "taken" only for the specific staff
-    // member who has it. Different staff can hold the same time slot.
+    // Pick (or validate) the staff member. "No preference" bookings at
+    // multi-staff vendors are auto-assigned to a free member here.
     if (
       req.body.vendorServiceId &&
       req.body.appointmentDate &&
       req.body.startTime &&
       req.body.endTime
     ) {
-      const collisionQuery: any = {
-        vendorServiceId: new mongoose.Types.ObjectId(req.body.vendorServiceId),
-        appointmentDate: new Date(req.body.appointmentDate),
-        startTime: req.body.startTime,
-        endTime: req.body.endTime,
-        status: { $nin: ['cancelled', 'rejected'] },
-      };
-      // If the incoming booking targets a specific staff member, only
-      // collide with existing bookings for that same staff (or "no preference").
-      // If no staff selected, we still collide with any booking on this slot.
-      if (req.body.staffId) {
-        collisionQuery.$or = [
-          { staffId: new mongoose.Types.ObjectId(req.body.staffId) },
-          { staffId: null },
-        ];
-      }
-
-      const existingAppointment = await Appointment.findOne(collisionQuery);
-
-      if (existingAppointment) {
+      if (await isBookingBlocked(req.body)) {
         return res.status(409).json({
           success: false,
-          message: 'This slot is already booked. Please select a different time.',
+          message: 'The provider is unavailable at this time. Please select a different time.',
         });
       }
+
+      // Buffer time, minimum notice and booking horizon
+      const ruleError = await checkBookingRules(req.body);
+      if (ruleError) {
+        return res.status(400).json({ success: false, message: ruleError });
+      }
+
+      const assignment = await resolveBookingStaff({
+        vendorServiceId: req.body.vendorServiceId,
+        appointmentDate: req.body.appointmentDate,
+        startTime: req.body.startTime,
+        endTime: req.body.endTime,
+        staffId: req.body.staffId,
+      });
+      if (assignment.error) {
+        return res.status(409).json({ success: false, message: assignment.error });
+      }
+      req.body.staffId = assignment.staffId;
+      req.body.staffAutoAssigned = assignment.autoAssigned;
+    }
+
+    // Check if slot is already booked (checked again when the booking is
+    // committed). For multi-staff vendors a slot is "taken" only for the
+    // specific staff member who has it.
+    if (
+      req.body.vendorServiceId &&
+      req.body.appointmentDate &&
+      req.body.startTime &&
+      req.body.endTime &&
+      (await findCollidingAppointment(req.body))
+    ) {
+      return res.status(409).json({
+        success: false,
+        message: 'This slot is already booked. Please select a different time.',
+      });
     }
 
+    // Pin the booked window to real instants in the vendor's timezone
+    if (
+      req.body.vendorServiceId &&
+      req.body.appointmentDate &&
+      req.body.startTime &&
+      req.body.endTime
+    ) {
+      const timezone = await getVendorServiceTimezone(req.body.vendorServiceId);
+      const schedule = buildZonedSchedule(
+        req.body.appointmentDate,
+        req.body.startTime,
+        req.body.endTime,
+        timezone,
+      );
+      req.body.timezone = schedule.timezone;
+      req.body.startAt = schedule.startAt;
+      req.body.endAt = schedule.endAt;
+    }
+
+    // Deposit bookings charge part of the total now and the balance later.
+    // Server-calculated, card payments only — the balance goes on the saved card.
+    const deposit =
+      req.body.paymentMode === 'credit-card' && req.body.vendorServiceId
+        ? await resolveBookingDeposit(
+            req.body.vendorServiceId,
+            Number(req.body.total) || 0,
+            req.body.startAt,
+          )
+        : null;
+    Object.assign(req.body, {
+      paymentPlan: deposit ? 'deposit' : 'full',
+      depositAmount: deposit?.depositAmount || 0,
+      depositPaid: 0,
+      balanceDue: deposit?.balanceDue || 0,
+      balancePaid: 0,
+      balanceCapture: deposit?.balanceCapture,
+      balanceDueAt: deposit?.balanceDueAt || undefined,
+      balanceStatus: deposit ? 'pending' : undefined,
+      balancePaymentIntentId: undefined,
+      balanceAttempts: 0,
+    });
+
+    // Freeze the cancellation policy the customer is agreeing to
+    req.body.cancellationPolicy = req.body.vendorServiceId
+      ? await snapshotCancellationPolicy(
+          req.body.vendorServiceId,
+          Number(req.body.total) || 0,
+          deposit?.depositAmount,
+        )
+      : undefined;
+
     // Create Stripe payment intent if payment mode is credit-card
     let paymentIntentId = null;
     let clientSecret = null;
@@ -231,13 +372,21 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
     if (req.body.paymentMode === 'credit-card') {
       try {
         const paymentIntent = await StripeService.createPaymentIntent({
-          amount: req.body.total,
+          amount: deposit ? deposit.depositAmount : req.body.total,
           currency: 'usd',
           idempotencyKey: req.body.idempotencyKey,
+          // Keep the card on file so the balance can be charged off-session
+          ...(deposit
+            ? {
+                customerId: (await ensureStripeCustomer(req.body.customerId)) || undefined,
+                setupFutureUsage: 'off_session' as const,
+              }
+            : {}),
           metadata: {
             appointmentType: 'booking',
             customerId: req.body.customerId,
             vendorServiceId: req.body.vendorServiceId,
+            paymentPart: deposit ? 'deposit' : 'full',
           },
         });
 
@@ -260,118 +409,44 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
       req.body.paymentStatus = 'completed';
     }
 
-    const appointment = await Appointment.create(req.body);
-
-    // Record a pending vendor payout for this appointment.
-    // Use queue if Redis is available, otherwise fall back to sync (best-effort).
-    try {
-      const { enqueuePayoutRecord } = await import('../services/webhook-queue.service');
-      const queued = await enqueuePayoutRecord(appointment._id.toString());
-      if (!queued) {
-        const { recordPayoutForAppointment } = await import('../services/vendor-payout.service');
-        await recordPayoutForAppointment(appointment._id.toString());
-      }
-    } catch (payoutErr: any) {
-      // Don't fail the booking if payout recording fails — it can be retried.
-      logger.error(`Failed to record vendor payout: ${payoutErr.message}`);
-    }
-
-    // Increment coupon usage count after successful appointment creation
-    if (appointment.promotionId) {
-      try {
-        const Promotion = (await import('../models/promotion.model')).default;
-        await Promotion.updateOne(
-          { _id: appointment.promotionId },
-          { $inc: { usageCount: 1 } },
-        );
-      } catch (couponErr: any) {
-        logger.error(`Failed to increment coupon usage: ${couponErr.message}`);
-      }
-    }
-
-    // Release the slot lock after successful appointment creation
-    try {
-      if (
-        req.body.vendorServiceId &&
-        req.body.appointmentDate &&
-        req.body.startTime &&
-        req.body.endTime
-      ) {
-        await SlotLock.deleteOne({
-          vendorServiceId: new mongoose.Types.ObjectId(req.body.vendorServiceId),
-          date: new Date(req.body.appointmentDate),
-          fromTime: req.body.startTime,
-          toTime: req.body.endTime,
-        });
-        logger.info(`Slot lock released after booking for appointment ${appointment._id}`);
-      }
-    } catch (lockError: any) {
-      // Don't fail the booking if lock release fails (TTL will clean it up)
-      logger.error(`Failed to release slot lock: ${lockError.message}`);
-    }
-
-    // Send booking confirmation push notification
-    try {
-      // Get vendor service details for the notification
-      const vendorService = await VendorService.findById(req.body.vendorServiceId)
-        .populate('vendorId', 'name')
-        .populate('serviceId', 'name')
-        .lean();
-
-      if (vendorService) {
-        const appointmentDate = new Date(req.body.appointmentDate);
-        const formattedDate = appointmentDate.toLocaleDateString('en-US', {
-          weekday: 'short',
-          month: 'short',
-          day: 'numeric',
-        });
-
-        await sendBookingConfirmationNotification(req.body.customerId, {
-          serviceName: (vendorService.serviceId as any)?.name || 'Service',
-          vendorName: (vendorService.vendorId as any)?.name,
-          date: formattedDate,
-          time: req.body.startTime,
-          appointmentId: appointment._id.toString(),
+    // Insert under the slot's reservation; the payout, coupon count, lock
+    // release, notifications and reminders run from the outbox
+    const appointment = await createReservedBooking(req.body);
+    if (!appointment) {
+      // A retry racing its own first attempt shares that attempt's payment intent
+      const existing = req.body.idempotencyKey
+        ? await Appointment.findOne({ idempotencyKey: req.body.idempotencyKey })
+        : null;
+      if (existing) {
+        return res.status(200).json({
+          success: true,
+          data: existing,
+          message: 'Appointment already exists for this idempotency key',
+          idempotent: true,
         });
-        logger.info(`Booking confirmation notification sent for appointment ${appointment._id}`);
       }
-    } catch (notificationError: any) {
-      // Don't fail the booking if notification fails
-      logger.error(
-        `Failed to send booking confirmation notification: ${notificationError.message}`,
-      );
-    }
-
-    // Schedule reminder notifications for this appointment
-    try {
-      const populatedAppointment = await Appointment.findById(appointment._id)
-        .populate('customerId', '_id')
-        .populate({
-          path: 'vendorServiceId',
-          populate: [
-            { path: 'vendorId', select: 'vendorName' },
-            { path: 'serviceId', select: 'name' },
-          ],
-        })
-        .lean();
-
-      if (populatedAppointment) {
-        await scheduleAppointmentReminders(populatedAppointment as any);
-        logger.info(`Scheduled reminders for appointment ${appointment._id}`);
+      // A keyed intent is shared with every attempt under the same key, so it
+      // is only cancelled once another booking visibly holds the slot. While
+      // the holder is still being inserted it may be this key's own, and the
+      // intent is left alone; this caller gets a 409 and won't confirm it.
+      const holder = req.body.idempotencyKey ? await findCollidingAppointment(req.body) : null;
+      const lostToOtherBooking =
+        !req.body.idempotencyKey || (!!holder && holder.idempotencyKey !== req.body.idempotencyKey);
+      if (paymentIntentId && lostToOtherBooking) {
+        StripeService.cancelPaymentIntent(paymentIntentId).catch((err: any) =>
+          logger.error(`Failed to cancel payment intent ${paymentIntentId}: ${err.message}`),
+        );
       }
-
-      // Sync today's schedule to process any due notifications immediately
-      syncTodaySchedule().catch((err) => {
-        logger.error(`Failed to sync today's schedule: ${err.message}`);
+      return res.status(409).json({
+        success: false,
+        message: 'This slot is already booked. Please select a different time.',
       });
-    } catch (schedulerError: any) {
-      // Don't fail the booking if scheduler fails
-      logger.error(`Failed to schedule reminders: ${schedulerError.message}`);
     }
 
     res.status(201).json({
       success: true,
       data: appointment,
+      schedule: describeSchedule(appointment),
       payment: {
         paymentIntentId,
         clientSecret,
@@ -380,13 +455,25 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
     });
   } else if (req.body.type == 'update-booking') {
     delete req.body.type;
-    const { appointmentId, ...updateData } = req.body;
+    const { appointmentId, status, ...updateData } = req.body;
+    if (status !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message:
+          'Status changes go through cancel-appointment, mark-missed or mark-failed, not update-booking',
+      });
+    }
+    const rejected = Object.keys(updateData).filter(
+      (field) => !BOOKING_DETAIL_FIELDS.includes(field),
+    );
+    if (rejected.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `These fields can't be changed here: ${rejected.join(', ')}`,
+      });
+    }
 
-    const appointment = await Appointment.findByIdAndUpdate(appointmentId, updateData, {
-      new: true,
-    })
-      .populate('customerId')
-      .populate('vendorServiceId');
+    const appointment = await Appointment.findById(appointmentId);
 
     if (!appointment) {
       return res.status(404).json({
@@ -395,6 +482,10 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
       });
     }
 
+    appointment.set(updateData);
+    await appointment.save();
+    await appointment.populate(['customerId', 'vendorServiceId']);
+
     res.status(200).json({
       success: true,
       data: appointment,
@@ -408,17 +499,22 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
       const paymentIntent = await StripeService.confirmPaymentIntent(paymentIntentId);
 
       if (paymentIntent.status === 'succeeded') {
-        // Update appointment payment status
-        const appointment = await Appointment.findByIdAndUpdate(
-          appointmentId,
-          {
-            paymentStatus: 'completed',
-            status: 'confirmed',
-          },
-          { new: true },
-        )
-          .populate('customerId')
-          .populate('vendorServiceId');
+        // Update appointment payment status — deposit bookings still owe the balance
+        const booked = await Appointment.findById(appointmentId).select(
+          'paymentPlan depositAmount',
+        );
+        const paymentUpdate =
+          booked?.paymentPlan === 'deposit'
+            ? { paymentStatus: 'deposit_paid', depositPaid: booked.depositAmount }
+            : { paymentStatus: 'completed' };
+        const appointment = await Appointment.findByIdAndUpdate(appointmentId, paymentUpdate, {
+          new: true,
+        });
+        // A retry, or the payment webhook, may have confirmed it already
+        if (appointment?.status === 'pending') {
+          await changeAppointmentStatus(appointment, 'confirmed', { actor: 'auto' });
+        }
+        await appointment?.populate(['customerId', 'vendorServiceId']);
 
         // Send booking confirmation email
         if (appointment) {
@@ -435,16 +531,45 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
                 year: 'numeric',
                 month: 'long',
                 day: 'numeric',
+                timeZone: 'UTC', // calendar date is stored as UTC midnight
               });
 
-              await sendBookingConfirmationEmail(customer.email, {
-                serviceName: (vendorService.serviceId as any)?.name || 'Service',
-                vendorServiceName: (vendorService.vendorId as any)?.vendorName || 'Provider',
-                date: formattedDate,
-                time: appointment.startTime,
-              });
+              // Calendar file so the customer can add the booking in one tap
+              const ics = await buildAppointmentIcs(String(appointment._id), 'customer');
+              const serviceName = (vendorService.serviceId as any)?.name || 'Service';
+              // Email only: push and the inbox entry went out when the booking was made
+              const result = await dispatchNotification(
+                { userId: String(customer._id) },
+                {
+                  type: 'appointment',
+                  title: 'Booking Confirmed',
+                  body: `Your booking for ${serviceName} on ${formattedDate} at ${appointment.startTime} has been confirmed.`,
+                  data: { appointmentId: String(appointment._id) },
+                  email: {
+                    templateId: 'booking-confirmation',
+                    variables: {
+                      serviceName,
+                      vendorName: (vendorService.vendorId as any)?.vendorName,
+                      date: formattedDate,
+                      time: appointment.startTime,
+                    },
+                    attachments: ics
+                      ? [
+                          {
+                            filename: 'appointment.ics',
+                            content: ics,
+                            contentType: 'text/calendar; charset=utf-8',
+                          },
+                        ]
+                      : undefined,
+                  },
+                  channels: ['email'],
+                  saveToDatabase: false,
+                },
+              );
+              const email = result.deliveries.find((d) => d.channel === 'email');
               logger.info(
-                `Booking confirmation email sent to ${customer.email} for appointment ${appointmentId}`,
+                `Booking confirmation email for appointment ${appointmentId}: ${email?.status || 'not sent'}${email?.reason ? ` (${email.reason})` : ''}`,
               );
             }
           } catch (emailError: any) {
@@ -475,62 +600,66 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
     }
   } else if (req.body.type == 'reschedule-appointment') {
     delete req.body.type;
-    const { appointmentId, appointmentDate, startTime, endTime } = req.body;
-
-    // Find the appointment
-    const appointment = await Appointment.findById(appointmentId);
-
-    if (!appointment) {
-      return res.status(404).json({
-        success: false,
-        message: 'Appointment not found',
-      });
-    }
-
-    // Check if appointment can be rescheduled
-    if (appointment.status === 'cancelled') {
-      return res.status(400).json({
-        success: false,
-        message: 'Cannot reschedule a cancelled appointment',
-      });
-    }
-
-    if (appointment.status === 'completed') {
-      return res.status(400).json({
-        success: false,
-        message: 'Cannot reschedule a completed appointment',
+    const { appointmentId, appointmentDate, startTime, endTime, note } = req.body;
+
+    // Checked against the slot engine and the vendor's reschedule policy;
+    // vendors who require approval get a request to answer instead
+    const previous = await Appointment.findById(appointmentId).select('appointmentDate startTime');
+    const outcome = await requestReschedule(
+      appointmentId,
+      { appointmentDate, startTime, endTime },
+      note,
+    );
+
+    if (outcome.status === 'pending') {
+      return res.status(202).json({
+        success: true,
+        message: 'Reschedule request sent to the provider',
+        data: outcome.appointment,
+        rescheduleRequest: outcome.request,
       });
     }
 
-    // Store old date/time for notification
-    const oldDate = appointment.appointmentDate;
-    const oldTime = appointment.startTime;
-
-    // Update appointment with new date/time
-    appointment.appointmentDate = new Date(appointmentDate);
-    appointment.startTime = startTime;
-    appointment.endTime = endTime;
-
-    const updatedAppointment = await appointment.save();
-
-    // Reschedule reminder notifications
-    try {
-      await rescheduleAppointmentReminders(appointmentId);
-      logger.info(
-        `Appointment ${appointmentId} rescheduled from ${oldDate} ${oldTime} to ${appointmentDate} ${startTime}`,
-      );
-    } catch (schedulerError: any) {
-      logger.error(`Failed to reschedule reminders: ${schedulerError.message}`);
-    }
-
     res.status(200).json({
       success: true,
       message: 'Appointment rescheduled successfully',
-      data: updatedAppointment,
+      data: outcome.appointment,
+      schedule: describeSchedule(outcome.appointment),
       previousSchedule: {
-        date: oldDate,
-        time: oldTime,
+        date: previous?.appointmentDate,
+        time: previous?.startTime,
       },
+      rescheduleRequest: outcome.request,
+    });
+  } else if (req.body.type === 'respond-reschedule-proposal') {
+    // Pick one of the vendor's suggested times (proposalIndex), or decline them all
+    delete req.body.type;
+    const { appointmentId, proposalIndex } = req.body;
+    const index =
+      proposalIndex === null || proposalIndex === undefined ? null : Number(proposalIndex);
+    const { request, appointment } = await respondToCounterProposal(
+      appointmentId,
+      String(req.user!._id),
+      index,
+    );
+
+    res.status(200).json({
+      success: true,
+      message: appointment
+        ? 'Appointment rescheduled successfully'
+        : 'Suggested times declined; your appointment is unchanged',
+      data: appointment,
+      schedule: appointment ? describeSchedule(appointment) : null,
+      rescheduleRequest: request,
+    });
+  } else if (req.body.type === 'withdraw-reschedule-request') {
+    delete req.body.type;
+    const request = await withdrawRescheduleRequest(req.body.appointmentId, String(req.user!._id));
+
+    res.status(200).json({
+      success: true,
+      message: 'Reschedule request withdrawn',
+      rescheduleRequest: request,
     });
   } else if (req.body.type == 'get-cancellation-policy') {
     // Get cancellation policy preview (refund amount before confirming)
@@ -546,64 +675,36 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
       });
     }
 
-    // Calculate hours until appointment
-    const appointmentDateTime = new Date(appointment.appointmentDate);
-    if (appointment.startTime) {
-      const [hours, minutes] = appointment.startTime.split(':').map(Number);
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
-    }
-    const hoursUntilAppointment = (appointmentDateTime.getTime() - Date.now()) / (1000 * 60 * 60);
-
-    // Refund policy thresholds
-    let refundPercentage = 0;
-    let policyMessage = '';
-    let policyTier = '';
-
-    if (hoursUntilAppointment >= 24) {
-      refundPercentage = 100;
-      policyMessage = 'Full refund - You are cancelling more than 24 hours before the appointment.';
-      policyTier = 'full';
-    } else if (hoursUntilAppointment >= 12) {
-      refundPercentage = 75;
-      policyMessage = '75% refund - You are cancelling 12-24 hours before the appointment.';
-      policyTier = 'partial_75';
-    } else if (hoursUntilAppointment >= 2) {
-      refundPercentage = 50;
-      policyMessage = '50% refund - You are cancelling 2-12 hours before the appointment.';
-      policyTier = 'partial_50';
-    } else {
-      refundPercentage = 0;
-      policyMessage =
-        'No refund - Cancellations less than 2 hours before the appointment are not eligible for refund.';
-      policyTier = 'no_refund';
-    }
+    // Calculate hours until appointment (in the vendor's timezone)
+    const hoursUntilAppointment = await getHoursUntilAppointment(appointment);
 
-    const originalAmount = appointment.total || 0;
-    const refundAmount = (originalAmount * refundPercentage) / 100;
-    const nonRefundableAmount = originalAmount - refundAmount;
+    // Quote against the policy snapshotted at booking, on what has been paid so far
+    const policy = await getAppointmentPolicy(appointment);
+    const originalAmount = amountPaid(paymentPartsOf(appointment));
+    const quote = calculateCancellationRefund(policy, originalAmount, hoursUntilAppointment);
 
     res.status(200).json({
       success: true,
       cancellationPolicy: {
         hoursUntilAppointment: Math.max(0, hoursUntilAppointment).toFixed(1),
-        refundPercentage,
-        policyTier,
-        policyMessage,
+        refundPercentage: quote.refundPercentage,
+        policyTier: quote.policyTier,
+        policyMessage: quote.policyMessage,
         originalAmount,
-        refundAmount,
-        nonRefundableAmount,
+        refundAmount: quote.refundAmount,
+        nonRefundableAmount: quote.nonRefundableAmount,
+        cancellationFee: quote.cancellationFee,
+        depositForfeited: quote.depositForfeited,
         paymentMethod: appointment.paymentMode,
+        paymentPlan: appointment.paymentPlan || 'full',
+        balanceDue: appointment.balanceDue || 0,
         isEligibleForRefund:
-          refundPercentage > 0 &&
+          quote.refundAmount > 0 &&
           appointment.paymentIntentId &&
-          appointment.paymentStatus === 'completed',
+          ['completed', 'deposit_paid'].includes(appointment.paymentStatus || ''),
       },
-      policyDetails: [
-        { threshold: '24+ hours', refund: '100%', description: 'Full refund' },
-        { threshold: '12-24 hours', refund: '75%', description: 'Partial refund' },
-        { threshold: '2-12 hours', refund: '50%', description: 'Partial refund' },
-        { threshold: 'Less than 2 hours', refund: '0%', description: 'No refund' },
-      ],
+      policyName: policy.name,
+      policyDetails: describePolicy(policy),
     });
   } else if (req.body.type == 'cancel-appointment') {
     delete req.body.type;
@@ -633,73 +734,44 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
         message: 'Cannot cancel a completed appointment',
       });
     }
+    // Before any refund goes out
+    assertStatusTransition(appointment, 'cancelled', { actor: 'customer' });
 
-    // Calculate hours until appointment for refund policy
-    const appointmentDateTime = new Date(appointment.appointmentDate);
-    if (appointment.startTime) {
-      const [hours, minutes] = appointment.startTime.split(':').map(Number);
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
-    }
-    const hoursUntilAppointment = (appointmentDateTime.getTime() - Date.now()) / (1000 * 60 * 60);
-
-    // Refund policy thresholds (industry standard)
-    // 24+ hours: 100% refund
-    // 12-24 hours: 75% refund
-    // 2-12 hours: 50% refund
-    // Less than 2 hours: No refund (0%)
-    let refundPercentage = 0;
-    let refundPolicyMessage = '';
-
-    if (hoursUntilAppointment >= 24) {
-      refundPercentage = 100;
-      refundPolicyMessage = 'Full refund (cancelled 24+ hours before appointment)';
-    } else if (hoursUntilAppointment >= 12) {
-      refundPercentage = 75;
-      refundPolicyMessage = '75% refund (cancelled 12-24 hours before appointment)';
-    } else if (hoursUntilAppointment >= 2) {
-      refundPercentage = 50;
-      refundPolicyMessage = '50% refund (cancelled 2-12 hours before appointment)';
-    } else {
-      refundPercentage = 0;
-      refundPolicyMessage = 'No refund (cancelled less than 2 hours before appointment)';
-    }
+    // Calculate hours until appointment for refund policy (in the vendor's timezone)
+    const hoursUntilAppointment = await getHoursUntilAppointment(appointment);
+
+    // Refund under the policy snapshotted at booking (platform default for legacy rows).
+    // Deposit bookings are quoted on what has been paid so far.
+    const policy = await getAppointmentPolicy(appointment);
+    const paidAmount = amountPaid(paymentPartsOf(appointment));
+    const quote = calculateCancellationRefund(policy, paidAmount, hoursUntilAppointment);
+    const { refundPercentage, policyMessage: refundPolicyMessage } = quote;
+    const hasCapturedPayment = ['completed', 'deposit_paid'].includes(
+      appointment.paymentStatus || '',
+    );
 
     let refundResult = null;
 
-    // Process refund if payment was made via credit card and refund percentage > 0
-    if (
-      appointment.paymentIntentId &&
-      appointment.paymentStatus === 'completed' &&
-      refundPercentage > 0
-    ) {
+    // Process refund if payment was made via credit card and something is refundable
+    if (appointment.paymentIntentId && hasCapturedPayment && quote.refundAmount > 0) {
       try {
-        const refundAmount = (appointment.total * refundPercentage) / 100;
-
-        // Pass amount for partial refund, undefined for full refund
-        const refund = await StripeService.refundPayment(
-          appointment.paymentIntentId,
-          refundPercentage < 100 ? refundAmount : undefined,
-        );
+        // Split across the deposit and balance payments where there are two
+        const refund = await refundAppointmentPayment(appointment, quote.refundAmount);
 
         refundResult = {
-          refundId: refund.id,
+          refundId: refund.refundId,
+          balanceRefundId: refund.balanceRefundId,
           refundStatus: refund.status,
-          refundAmount: refund.amount ? refund.amount / 100 : refundAmount,
+          refundAmount: refund.amount,
           refundPercentage,
-          originalAmount: appointment.total,
+          cancellationFee: quote.cancellationFee,
+          depositForfeited: quote.depositForfeited,
+          originalAmount: paidAmount,
           policyMessage: refundPolicyMessage,
         };
 
-        // Update appointment with refund info
-        appointment.refundId = refund.id;
-        appointment.refundStatus =
-          (refund.status as 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled') ||
-          'pending';
-        appointment.refundAmount = refund.amount ? refund.amount / 100 : refundAmount;
-        appointment.paymentStatus = refundPercentage === 100 ? 'refunded' : 'partially_refunded';
-
         logger.info(
-          `Refund processed for appointment ${appointmentId}: ${refund.id} (${refundPercentage}% = $${refundAmount.toFixed(2)})`,
+          `Refund processed for appointment ${appointmentId}: ${refund.refundId || refund.balanceRefundId} (${refundPercentage}% = $${refund.amount.toFixed(2)})`,
         );
       } catch (refundError: any) {
         logger.error(`Refund failed for appointment ${appointmentId}: ${refundError.message}`);
@@ -709,31 +781,35 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
           error: refundError.message,
         });
       }
-    } else if (
-      appointment.paymentIntentId &&
-      appointment.paymentStatus === 'completed' &&
-      refundPercentage === 0
-    ) {
-      // No refund due to late cancellation
+    } else if (appointment.paymentIntentId && hasCapturedPayment) {
+      // Nothing refundable under the policy (late cancellation or fees)
       refundResult = {
         refundId: null,
         refundStatus: 'not_eligible',
         refundAmount: 0,
-        refundPercentage: 0,
-        originalAmount: appointment.total,
+        refundPercentage,
+        cancellationFee: quote.cancellationFee,
+        depositForfeited: quote.depositForfeited,
+        originalAmount: paidAmount,
         policyMessage: refundPolicyMessage,
       };
-      logger.info(
-        `No refund for appointment ${appointmentId} - cancelled less than 2 hours before`,
-      );
+      logger.info(`No refund for appointment ${appointmentId} - ${refundPolicyMessage}`);
     }
 
-    // Update appointment status
-    appointment.status = 'cancelled';
-    appointment.cancelledAt = new Date();
-    appointment.cancellationReason = cancellationReason || 'Cancelled by customer';
+    appointment.cancellationFeeAmount = quote.cancellationFee;
+    appointment.depositForfeitedAmount = quote.depositForfeited;
+    // The balance of a deposit booking is never charged once cancelled
+    waiveBalance(appointment);
 
-    const updatedAppointment = await appointment.save();
+    appointment.cancellationReason = cancellationReason || 'Cancelled by customer';
+    const updatedAppointment = await changeAppointmentStatus(appointment, 'cancelled', {
+      actor: 'customer',
+      actorId: appointment.customerId,
+      reason: cancellationReason,
+    });
+    if (refundResult && refundResult.refundAmount > 0) {
+      await emitAppointmentEvent('appointment.refunded', updatedAppointment);
+    }
 
     // Cancel scheduled reminder notifications
     try {
@@ -799,10 +875,11 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
       });
     }
 
-    appointment.status = 'missed';
-    (appointment as any).statusChangedBy = 'customer';
-    (appointment as any).statusReason = reason.trim();
-    await appointment.save();
+    await changeAppointmentStatus(appointment, 'missed', {
+      actor: 'customer',
+      actorId: appointment.customerId,
+      reason,
+    });
 
     res.status(200).json({
       success: true,
@@ -844,10 +921,11 @@ export const appointmentOperations = asyncHandler(async (req: Request, res: Resp
       });
     }
 
-    appointment.status = 'failed';
-    (appointment as any).statusChangedBy = 'customer';
-    (appointment as any).statusReason = reason.trim();
-    await appointment.save();
+    await changeAppointmentStatus(appointment, 'failed', {
+      actor: 'customer',
+      actorId: appointment.customerId,
+      reason,
+    });
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,116 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import AvailabilityTemplate from '../models/availability-template.model';
+import VendorService from '../models/vendor-service.model';
+import { loadAvailability } from '../services/availability.service';
+import { validateAvailabilityTemplate } from '../utils/availability-template.util';
+import { toDateKey } from '../utils/timezone.util';
+
+const TEMPLATE_FIELDS = [
+  'isActive',
+  'reoccurrence',
+  'weeklyHours',
+  'exceptions',
+  'extraOpenings',
+  'effectiveFrom',
+  'effectiveTo',
+];
+
+// Longest range the preview endpoint expands in one call
+const MAX_PREVIEW_DAYS = 92;
+
+const findVendorService = async (vendorId: string, serviceId: string) => {
+  const service = await VendorService.findOne({ _id: serviceId, vendorId }).select('_id');
+  if (!service) throw new AppError('Service not found', 404);
+  return service;
+};
+
+/** GET /api/v1/vendor/services/:serviceId/availability-template */
+export const getAvailabilityTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const { serviceId } = req.params;
+  await findVendorService(vendorId, serviceId);
+
+  const template = await AvailabilityTemplate.findOne({ vendorServiceId: serviceId }).lean();
+  res.status(200).json({ success: true, data: template });
+});
+
+/**
+ * PUT /api/v1/vendor/services/:serviceId/availability-template
+ * Creates or replaces the weekly template. Only fields sent are changed.
+ */
+export const saveAvailabilityTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const { serviceId } = req.params;
+  await findVendorService(vendorId, serviceId);
+
+  const updates: Record<string, any> = {};
+  for (const key of TEMPLATE_FIELDS) {
+    if (req.body[key] !== undefined) updates[key] = req.body[key];
+  }
+
+  const existing = await AvailabilityTemplate.findOne({ vendorServiceId: serviceId }).lean();
+  const validationError = validateAvailabilityTemplate({
+    weeklyHours: [],
+    ...(existing || {}),
+    ...updates,
+  });
+  if (validationError) throw new AppError(validationError, 400);
+
+  const template = await AvailabilityTemplate.findOneAndUpdate(
+    { vendorServiceId: serviceId },
+    { $set: updates },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true },
+  );
+
+  res.status(existing ? 200 : 201).json({
+    success: true,
+    message: existing ? 'Availability template updated' : 'Availability template created',
+    data: template,
+  });
+});
+
+/** DELETE /api/v1/vendor/services/:serviceId/availability-template */
+export const deleteAvailabilityTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const { serviceId } = req.params;
+  await findVendorService(vendorId, serviceId);
+
+  const template = await AvailabilityTemplate.findOneAndDelete({ vendorServiceId: serviceId });
+  if (!template) throw new AppError('Availability template not found', 404);
+  res.status(200).json({ success: true, message: 'Availability template removed' });
+});
+
+/**
+ * GET /api/v1/vendor/services/:serviceId/availability?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * The dates customers will see, after the template and per-date slots are merged.
+ */
+export const previewAvailability = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const { serviceId } = req.params;
+  await findVendorService(vendorId, serviceId);
+
+  const from = new Date(`${toDateKey((req.query.from as string) || new Date())}T00:00:00.000Z`);
+  const to = req.query.to
+    ? new Date(`${toDateKey(req.query.to as string)}T00:00:00.000Z`)
+    : new Date(from.getTime() + 27 * 24 * 60 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+    throw new AppError('from and to must be valid dates with from on or before to', 400);
+  }
+  if (to.getTime() - from.getTime() > MAX_PREVIEW_DAYS * 24 * 60 * 60 * 1000) {
+    throw new AppError(`Preview range cannot exceed ${MAX_PREVIEW_DAYS} days`, 400);
+  }
+
+  const dates = await loadAvailability(serviceId, from, to);
+  res.status(200).json({
+    success: true,
+    data: dates.map((d) => ({
+      date: toDateKey(d.date),
+      // 'template' when generated from the weekly hours, else a per-date slot entry
+      source: d.timingType === 'template' ? 'template' : 'override',
+      reoccurrence: d.reoccurrence,
+      timings: d.timings.map(({ fromTime, toTime }) => ({ fromTime, toTime })),
+    })),
+  });
+});
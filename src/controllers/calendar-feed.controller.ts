@@ -0,0 +1,114 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import Appointment from '../models/appointment.model';
+import CalendarFeed from '../models/calendar-feed.model';
+import Staff from '../models/staff.model';
+import { buildAppointmentIcs, buildFeedIcs, generateFeedToken } from '../services/ics.service';
+
+/**
+ * iCalendar endpoints.
+ *
+ *   Vendor:
+ *     GET    /vendor/calendar-feeds             — list feeds with their URLs
+ *     POST   /vendor/calendar-feeds             — create a feed ({ staffId } for one staff member)
+ *     POST   /vendor/calendar-feeds/:id/rotate  — issue a new token, old URL stops working
+ *     DELETE /vendor/calendar-feeds/:id         — revoke
+ *
+ *   Public (token is the credential):
+ *     GET /calendar/feeds/:token.ics
+ *
+ *   Customer:
+ *     GET /customer/appointments/:id/calendar.ics
+ */
+
+const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+const feedUrls = (req: Request, token: string) => {
+  const base = process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  const url = `${base}/api/v1/calendar/feeds/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+const serializeFeed = (req: Request, feed: any) => ({
+  _id: feed._id,
+  staffId: feed.staffId,
+  lastAccessedAt: feed.lastAccessedAt,
+  createdAt: feed.createdAt,
+  ...feedUrls(req, feed.token),
+});
+
+/** GET /vendor/calendar-feeds */
+export const listCalendarFeeds = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const feeds = await CalendarFeed.find({ vendorId }).sort({ createdAt: 1 }).lean();
+  res.status(200).json({ success: true, data: feeds.map((feed) => serializeFeed(req, feed)) });
+});
+
+/** POST /vendor/calendar-feeds */
+export const createCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const staffId = req.body.staffId || null;
+
+  if (staffId) {
+    const staff = await Staff.findOne({ _id: staffId, vendorId }).select('_id');
+    if (!staff) throw new AppError('Staff member not found', 404);
+  }
+
+  const existing = await CalendarFeed.findOne({ vendorId, staffId });
+  if (existing) {
+    throw new AppError('A feed already exists for this calendar. Rotate it for a new URL.', 409);
+  }
+
+  const feed = await CalendarFeed.create({ vendorId, staffId, token: generateFeedToken() });
+  res.status(201).json({ success: true, data: serializeFeed(req, feed) });
+});
+
+/** POST /vendor/calendar-feeds/:id/rotate */
+export const rotateCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const feed = await CalendarFeed.findOneAndUpdate(
+    { _id: req.params.id, vendorId },
+    { $set: { token: generateFeedToken(), lastAccessedAt: null } },
+    { new: true },
+  );
+  if (!feed) throw new AppError('Calendar feed not found', 404);
+
+  res.status(200).json({
+    success: true,
+    message: 'Feed URL rotated. Update your calendar subscription.',
+    data: serializeFeed(req, feed),
+  });
+});
+
+/** DELETE /vendor/calendar-feeds/:id */
+export const deleteCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const feed = await CalendarFeed.findOneAndDelete({ _id: req.params.id, vendorId });
+  if (!feed) throw new AppError('Calendar feed not found', 404);
+  res.status(200).json({ success: true, message: 'Calendar feed revoked' });
+});
+
+/** GET /calendar/feeds/:token.ics */
+export const getCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+  const token = req.params.file.replace(/\.ics$/, '');
+  const body = await buildFeedIcs(token);
+  if (!body) throw new AppError('Calendar feed not found', 404);
+
+  res.set('Content-Type', ICS_CONTENT_TYPE);
+  res.set('Cache-Control', 'private, max-age=300');
+  res.status(200).send(body);
+});
+
+/** GET /customer/appointments/:id/calendar.ics */
+export const downloadAppointmentIcs = asyncHandler(async (req: Request, res: Response) => {
+  const appointment = await Appointment.findById(req.params.id).select('customerId');
+  if (!appointment || String(appointment.customerId) !== String(req.user!._id)) {
+    throw new AppError('Appointment not found', 404);
+  }
+
+  const body = await buildAppointmentIcs(String(appointment._id), 'customer');
+  res.set('Content-Type', ICS_CONTENT_TYPE);
+  res.set('Content-Disposition', `attachment; filename="appointment-${appointment._id}.ics"`);
+  res.status(200).send(body);
+});
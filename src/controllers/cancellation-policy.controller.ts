@@ -0,0 +1,142 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import CancellationPolicy from '../models/cancellation-policy.model';
+import VendorService from '../models/vendor-service.model';
+import { resolveCancellationPolicy } from '../services/cancellation-policy.service';
+import {
+  DEFAULT_POLICY_TERMS,
+  describePolicy,
+  normalizeTiers,
+  validatePolicyTerms,
+} from '../utils/cancellation-policy.util';
+
+/**
+ * Cancellation / no-show policy endpoints.
+ *
+ *   Vendor:
+ *     GET    /vendor/cancellation-policies        — list own policies (+ platform default)
+ *     POST   /vendor/cancellation-policies        — create vendor default or service override
+ *     PUT    /vendor/cancellation-policies/:id    — update terms
+ *     DELETE /vendor/cancellation-policies/:id    — remove (falls back to the next level)
+ *
+ *   Customer:
+ *     GET /customer/vendor-services/:id/cancellation-policy — policy shown before booking
+ *
+ * Edits only affect new bookings; existing appointments keep their snapshot.
+ */
+
+const TERM_FIELDS = [
+  'name',
+  'tiers',
+  'cancellationFee',
+  'noShowFee',
+  'depositForfeiture',
+  'isActive',
+];
+
+const requireVendorId = (req: Request): string => {
+  const vendorId = (req as any).vendorId;
+  if (!vendorId) throw new AppError('Vendor session required', 401);
+  return vendorId;
+};
+
+const assertValidTerms = (body: Record<string, any>) => {
+  const error = validatePolicyTerms(body);
+  if (error) throw new AppError(error, 400);
+};
+
+/** GET /vendor/cancellation-policies */
+export const listCancellationPolicies = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const policies = await CancellationPolicy.find({ vendorId })
+    .populate('vendorServiceId', 'name')
+    .sort({ vendorServiceId: 1, createdAt: 1 })
+    .lean();
+
+  res.status(200).json({
+    success: true,
+    data: policies,
+    platformDefault: DEFAULT_POLICY_TERMS,
+  });
+});
+
+/**
+ * POST /vendor/cancellation-policies
+ * Body: { vendorServiceId?, name?, tiers, cancellationFee?, noShowFee?, depositForfeiture? }
+ * Omit vendorServiceId for the vendor-wide default.
+ */
+export const createCancellationPolicy = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const { vendorServiceId } = req.body;
+  if (!Array.isArray(req.body.tiers)) throw new AppError('tiers is required', 400);
+  assertValidTerms(req.body);
+
+  if (vendorServiceId) {
+    const owned = await VendorService.exists({ _id: vendorServiceId, vendorId });
+    if (!owned) throw new AppError('Service does not belong to this vendor', 400);
+  }
+
+  const existing = await CancellationPolicy.exists({
+    vendorId,
+    vendorServiceId: vendorServiceId || null,
+  });
+  if (existing) {
+    throw new AppError(
+      vendorServiceId
+        ? 'This service already has a policy — update it instead'
+        : 'A default policy already exists — update it instead',
+      409,
+    );
+  }
+
+  const data: Record<string, any> = { vendorId, vendorServiceId: vendorServiceId || null };
+  for (const key of TERM_FIELDS) {
+    if (req.body[key] !== undefined) data[key] = req.body[key];
+  }
+  data.tiers = normalizeTiers(req.body.tiers);
+
+  const policy = await CancellationPolicy.create(data);
+  res.status(201).json({ success: true, data: policy });
+});
+
+/** PUT /vendor/cancellation-policies/:id */
+export const updateCancellationPolicy = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const policy = await CancellationPolicy.findOne({ _id: req.params.id, vendorId });
+  if (!policy) throw new AppError('Cancellation policy not found', 404);
+
+  assertValidTerms(req.body);
+  for (const key of TERM_FIELDS) {
+    if (req.body[key] !== undefined) (policy as any)[key] = req.body[key];
+  }
+  if (req.body.tiers !== undefined) policy.tiers = normalizeTiers(req.body.tiers);
+
+  await policy.save();
+  res.status(200).json({ success: true, data: policy });
+});
+
+/** DELETE /vendor/cancellation-policies/:id */
+export const deleteCancellationPolicy = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const deleted = await CancellationPolicy.findOneAndDelete({ _id: req.params.id, vendorId });
+  if (!deleted) throw new AppError('Cancellation policy not found', 404);
+
+  res.status(200).json({ success: true, message: 'Cancellation policy removed' });
+});
+
+/** GET /customer/vendor-services/:id/cancellation-policy */
+export const getVendorServiceCancellationPolicy = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { terms, name } = await resolveCancellationPolicy(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        name,
+        ...terms,
+        policyDetails: describePolicy(terms),
+      },
+    });
+  },
+);
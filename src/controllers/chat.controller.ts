@@ -1,11 +1,16 @@
 import type { Request, Response } from 'express';
-import mongoose from 'mongoose';
+import mongoose, { type Document } from 'mongoose';
 import { asyncHandler } from '../utils/asyncHandler.util';
 import { AppError } from '../utils/appError.util';
-import Conversation from '../models/conversation.model';
+import Conversation, { type IConversation } from '../models/conversation.model';
 import Message from '../models/message.model';
 import User from '../models/user.model';
 import Vendor from '../models/vendor.model';
+import {
+  openChatStream,
+  publishChatEvent,
+  type ChatRole,
+} from '../services/chat-realtime.service';
 
 /**
  * Chat controllers shared by customer and vendor routes.
@@ -14,8 +19,13 @@ import Vendor from '../models/vendor.model';
  *   - Customer routes: identified via `x-clerk-id` header (same as address book).
  *   - Vendor routes: identified via `req.vendorId` set by the vendor auth middleware.
  *
- * MVP scope: pull-based (no WebSocket yet). Client polls the thread list
- * every 30s and the open thread every 5s. Real-time can come later.
+ * Realtime: each party opens `GET /conversations/stream` (SSE) and receives
+ * `message`, `read` and `typing` events for all of its threads. The REST
+ * endpoints stay the source of truth — clients that can't hold a stream
+ * open keep polling them.
+ *
+ * Unread counters are only ever incremented atomically on send and
+ * recomputed from unread messages on read, so they can't drift from `readAt`.
  */
 
 const resolveCustomerId = async (req: Request): Promise<mongoose.Types.ObjectId> => {
@@ -29,6 +39,126 @@ const resolveCustomerId = async (req: Request): Promise<mongoose.Types.ObjectId>
   return user._id as unknown as mongoose.Types.ObjectId;
 };
 
+/**
+ * Load a conversation and make sure the caller is one of its participants.
+ */
+const findOwnConversation = async (
+  id: string,
+  role: ChatRole,
+  partyId: mongoose.Types.ObjectId,
+) => {
+  const conv = await Conversation.findById(id);
+  if (!conv) throw new AppError('Conversation not found', 404);
+  const ownerId = role === 'customer' ? conv.customerId : conv.vendorId;
+  if (String(ownerId) !== String(partyId)) {
+    throw new AppError('Not authorized', 403);
+  }
+  return conv;
+};
+
+const counterFor = (role: ChatRole) =>
+  role === 'customer' ? 'customerUnreadCount' : 'vendorUnreadCount';
+
+const unreadCounts = (conv: { customerUnreadCount?: number; vendorUnreadCount?: number }) => ({
+  customerUnreadCount: conv.customerUnreadCount || 0,
+  vendorUnreadCount: conv.vendorUnreadCount || 0,
+});
+
+/**
+ * Stamp `readAt` on the counterparty's messages and recompute the reader's
+ * unread counter. Pushes a `read` receipt when anything changed.
+ */
+const markConversationRead = async (conv: IConversation & Document, readerRole: ChatRole) => {
+  const senderRole: ChatRole = readerRole === 'customer' ? 'vendor' : 'customer';
+  const readAt = new Date();
+
+  const result = await Message.updateMany(
+    { conversationId: conv._id, senderRole, readAt: null },
+    { $set: { readAt } },
+  );
+  if (result.modifiedCount === 0 && !conv[counterFor(readerRole)]) {
+    return { readAt: null, ...unreadCounts(conv) };
+  }
+
+  // Count rather than zero out, so a message landing mid-read stays unread
+  const stillUnread = await Message.countDocuments({
+    conversationId: conv._id,
+    senderRole,
+    readAt: null,
+  });
+  const updated = await Conversation.findByIdAndUpdate(
+    conv._id,
+    { $set: { [counterFor(readerRole)]: stillUnread } },
+    { new: true },
+  );
+  const counts = unreadCounts(updated || conv);
+
+  publishChatEvent(conv, {
+    type: 'read',
+    conversationId: String(conv._id),
+    data: { readerRole, readAt, messagesRead: result.modifiedCount, ...counts },
+  });
+
+  return { readAt, ...counts };
+};
+
+/**
+ * Persist a message, bump the recipient's unread counter and push it to
+ * both parties.
+ */
+const deliverMessage = async (
+  conv: IConversation & Document,
+  senderRole: ChatRole,
+  senderId: mongoose.Types.ObjectId,
+  content: string,
+  attachmentUrls?: string[],
+) => {
+  const recipientRole: ChatRole = senderRole === 'customer' ? 'vendor' : 'customer';
+  const message = await Message.create({
+    conversationId: conv._id,
+    senderId,
+    senderRole,
+    content,
+    attachmentUrls,
+  });
+
+  const updated = await Conversation.findByIdAndUpdate(
+    conv._id,
+    {
+      $set: {
+        lastMessageAt: message.createdAt,
+        lastMessagePreview: content.slice(0, 200),
+        lastMessageSenderRole: senderRole,
+      },
+      $inc: { [counterFor(recipientRole)]: 1 },
+    },
+    { new: true },
+  );
+
+  publishChatEvent(conv, {
+    type: 'message',
+    conversationId: String(conv._id),
+    data: { message: message.toObject(), ...unreadCounts(updated || conv) },
+  });
+
+  return message;
+};
+
+/**
+ * Relay a typing indicator to the counterparty only. Not persisted.
+ */
+const relayTyping = (conv: IConversation & Document, role: ChatRole, isTyping: unknown) => {
+  publishChatEvent(
+    conv,
+    {
+      type: 'typing',
+      conversationId: String(conv._id),
+      data: { role, isTyping: isTyping !== false, at: new Date() },
+    },
+    role === 'customer' ? 'vendor' : 'customer',
+  );
+};
+
 // ============================================================================
 // Customer endpoints
 // ============================================================================
@@ -82,29 +212,15 @@ export const listCustomerMessages = asyncHandler(async (req: Request, res: Respo
   const page = parseInt((req.query.page as string) || '1', 10);
   const limit = Math.min(parseInt((req.query.limit as string) || '30', 10), 100);
 
-  const conv = await Conversation.findById(id);
-  if (!conv) throw new AppError('Conversation not found', 404);
-  if (String(conv.customerId) !== String(customerId)) {
-    throw new AppError('Not authorized', 403);
-  }
+  const conv = await findOwnConversation(id, 'customer', customerId);
 
-  const [messages] = await Promise.all([
-    Message.find({ conversationId: id })
-      .sort({ createdAt: -1 })
-      .skip((page - 1) * limit)
-      .limit(limit)
-      .lean(),
-    // Mark unread messages sent by the vendor as read
-    Message.updateMany(
-      { conversationId: id, senderRole: 'vendor', readAt: null },
-      { $set: { readAt: new Date() } },
-    ),
-  ]);
-
-  if (conv.customerUnreadCount > 0) {
-    conv.customerUnreadCount = 0;
-    await conv.save();
-  }
+  // Opening the thread marks the vendor's messages as read
+  await markConversationRead(conv, 'customer');
+  const messages = await Message.find({ conversationId: id })
+    .sort({ createdAt: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit)
+    .lean();
 
   res.status(200).json({ success: true, data: messages.reverse() });
 });
@@ -118,29 +234,48 @@ export const sendCustomerMessage = asyncHandler(async (req: Request, res: Respon
     throw new AppError('Message content is required', 400);
   }
 
-  const conv = await Conversation.findById(id);
-  if (!conv) throw new AppError('Conversation not found', 404);
-  if (String(conv.customerId) !== String(customerId)) {
-    throw new AppError('Not authorized', 403);
-  }
+  const conv = await findOwnConversation(id, 'customer', customerId);
+  const message = await deliverMessage(conv, 'customer', customerId, content.trim(), attachmentUrls);
 
-  const message = await Message.create({
-    conversationId: id,
-    senderId: customerId,
-    senderRole: 'customer',
-    content: content.trim(),
-    attachmentUrls,
-  });
+  res.status(201).json({ success: true, data: message });
+});
+
+/** POST /customer/conversations/:id/read */
+export const markCustomerConversationRead = asyncHandler(
+  async (req: Request, res: Response) => {
+    const customerId = await resolveCustomerId(req);
+    const conv = await findOwnConversation(req.params.id, 'customer', customerId);
+    const receipt = await markConversationRead(conv, 'customer');
 
-  conv.lastMessageAt = new Date();
-  conv.lastMessagePreview = content.trim().slice(0, 200);
-  conv.lastMessageSenderRole = 'customer';
-  conv.vendorUnreadCount = (conv.vendorUnreadCount || 0) + 1;
-  await conv.save();
+    res.status(200).json({ success: true, data: receipt });
+  },
+);
 
-  res.status(201).json({ success: true, data: message });
+/**
+ * POST /customer/conversations/:id/typing
+ * Body: { isTyping } — defaults to true. Clients should re-send every few
+ * seconds while typing and send `false` on blur/send.
+ */
+export const sendCustomerTyping = asyncHandler(async (req: Request, res: Response) => {
+  const customerId = await resolveCustomerId(req);
+  const conv = await findOwnConversation(req.params.id, 'customer', customerId);
+  relayTyping(conv, 'customer', req.body?.isTyping);
+
+  res.status(202).json({ success: true });
 });
 
+/**
+ * GET /customer/conversations/stream
+ * SSE stream of chat events. EventSource can't set headers, so `?clerkId=`
+ * is accepted here the same way as the other chat endpoints.
+ */
+export const streamCustomerConversations = asyncHandler(
+  async (req: Request, res: Response) => {
+    const customerId = await resolveCustomerId(req);
+    openChatStream(req, res, 'customer', String(customerId));
+  },
+);
+
 // ============================================================================
 // Vendor endpoints
 // ============================================================================
@@ -169,28 +304,14 @@ export const listVendorMessages = asyncHandler(async (req: Request, res: Respons
   const page = parseInt((req.query.page as string) || '1', 10);
   const limit = Math.min(parseInt((req.query.limit as string) || '30', 10), 100);
 
-  const conv = await Conversation.findById(id);
-  if (!conv) throw new AppError('Conversation not found', 404);
-  if (String(conv.vendorId) !== String(vendorId)) {
-    throw new AppError('Not authorized', 403);
-  }
+  const conv = await findOwnConversation(id, 'vendor', vendorId);
 
-  const [messages] = await Promise.all([
-    Message.find({ conversationId: id })
-      .sort({ createdAt: -1 })
-      .skip((page - 1) * limit)
-      .limit(limit)
-      .lean(),
-    Message.updateMany(
-      { conversationId: id, senderRole: 'customer', readAt: null },
-      { $set: { readAt: new Date() } },
-    ),
-  ]);
-
-  if (conv.vendorUnreadCount > 0) {
-    conv.vendorUnreadCount = 0;
-    await conv.save();
-  }
+  await markConversationRead(conv, 'vendor');
+  const messages = await Message.find({ conversationId: id })
+    .sort({ createdAt: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit)
+    .lean();
 
   res.status(200).json({ success: true, data: messages.reverse() });
 });
@@ -204,25 +325,32 @@ export const sendVendorMessage = asyncHandler(async (req: Request, res: Response
     throw new AppError('Message content is required', 400);
   }
 
-  const conv = await Conversation.findById(id);
-  if (!conv) throw new AppError('Conversation not found', 404);
-  if (String(conv.vendorId) !== String(vendorId)) {
-    throw new AppError('Not authorized', 403);
-  }
+  const conv = await findOwnConversation(id, 'vendor', vendorId);
+  const message = await deliverMessage(conv, 'vendor', vendorId, content.trim(), attachmentUrls);
 
-  const message = await Message.create({
-    conversationId: id,
-    senderId: vendorId,
-    senderRole: 'vendor',
-    content: content.trim(),
-    attachmentUrls,
-  });
+  res.status(201).json({ success: true, data: message });
+});
+
+/** POST /vendor/conversations/:id/read */
+export const markVendorConversationRead = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = await getVendorFromReq(req);
+  const conv = await findOwnConversation(req.params.id, 'vendor', vendorId);
+  const receipt = await markConversationRead(conv, 'vendor');
 
-  conv.lastMessageAt = new Date();
-  conv.lastMessagePreview = content.trim().slice(0, 200);
-  conv.lastMessageSenderRole = 'vendor';
-  conv.customerUnreadCount = (conv.customerUnreadCount || 0) + 1;
-  await conv.save();
+  res.status(200).json({ success: true, data: receipt });
+});
 
-  res.status(201).json({ success: true, data: message });
+/** POST /vendor/conversations/:id/typing — Body: { isTyping } */
+export const sendVendorTyping = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = await getVendorFromReq(req);
+  const conv = await findOwnConversation(req.params.id, 'vendor', vendorId);
+  relayTyping(conv, 'vendor', req.body?.isTyping);
+
+  res.status(202).json({ success: true });
+});
+
+/** GET /vendor/conversations/stream — SSE stream of chat events */
+export const streamVendorConversations = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = await getVendorFromReq(req);
+  openChatStream(req, res, 'vendor', String(vendorId));
 });
@@ -102,6 +102,7 @@ export const deleteUserAccount = asyncHandler(async (req: Request, res: Response
   (dbUser as any).phone = null;
   (dbUser as any).avatar = null;
   (dbUser as any).expoPushToken = null;
+  (dbUser as any).pushTokens = [];
   (dbUser as any).clerkId = null;
   (dbUser as any).deletedAt = new Date();
   (dbUser as any).deletionRequestedAt = new Date();
@@ -0,0 +1,196 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import Dispute from '../models/dispute.model';
+import VendorPayout from '../models/vendor-payout.model';
+import StripeService from '../services/stripe.service';
+import { assembleDisputeEvidence } from '../services/dispute.service';
+import { acceptsEvidence, pickEvidenceOverrides } from '../utils/dispute.util';
+import { logAuditEvent } from '../middlewares/audit.middleware';
+import logger from '../config/logger';
+
+/**
+ * Chargeback management (admin).
+ *
+ *   GET  /admin/disputes                 — list (?status=needs_response&open=true)
+ *   GET  /admin/disputes/:id             — dispute with its appointment and payouts
+ *   GET  /admin/disputes/:id/evidence    — draft evidence, timeline and chat transcript
+ *   POST /admin/disputes/:id/evidence    — save or submit evidence (super_admin)
+ *   POST /admin/disputes/:id/accept      — concede the dispute (super_admin)
+ */
+
+const OPEN_STATUSES = [
+  'warning_needs_response',
+  'warning_under_review',
+  'needs_response',
+  'under_review',
+];
+
+const findDispute = async (req: Request) => {
+  const dispute = await Dispute.findById(req.params.id);
+  if (!dispute) throw new AppError('Dispute not found', 404);
+  return dispute;
+};
+
+/** GET /admin/disputes?page=1&limit=20&status=needs_response&open=true */
+export const listDisputes = asyncHandler(async (req: Request, res: Response) => {
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+
+  const filter: Record<string, unknown> = {};
+  if (req.query.status) filter.status = req.query.status;
+  else if (req.query.open === 'true') filter.status = { $in: OPEN_STATUSES };
+  if (req.query.vendorId) filter.vendorId = req.query.vendorId;
+
+  const [disputes, total] = await Promise.all([
+    Dispute.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .select('-history -evidence')
+      .populate('vendorId', 'vendorName')
+      .populate('customerId', 'firstName lastName email')
+      .lean(),
+    Dispute.countDocuments(filter),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      disputes,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    },
+  });
+});
+
+/** GET /admin/disputes/:id */
+export const getDispute = asyncHandler(async (req: Request, res: Response) => {
+  const dispute = await Dispute.findById(req.params.id)
+    .populate('appointmentId')
+    .populate('vendorId', 'vendorName email')
+    .populate('customerId', 'firstName lastName email')
+    .populate('evidenceSubmittedBy', 'firstName lastName email')
+    .lean();
+  if (!dispute) throw new AppError('Dispute not found', 404);
+
+  const payouts = dispute.appointmentId
+    ? await VendorPayout.find({
+        $or: [{ appointmentId: (dispute.appointmentId as any)._id }, { disputeId: dispute._id }],
+      })
+        .sort({ createdAt: 1 })
+        .lean()
+    : [];
+
+  res.status(200).json({ success: true, data: { ...dispute, payouts } });
+});
+
+/** GET /admin/disputes/:id/evidence */
+export const getDisputeEvidence = asyncHandler(async (req: Request, res: Response) => {
+  const dispute = await findDispute(req);
+  const assembled = await assembleDisputeEvidence(dispute);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      ...assembled,
+      // What was last sent, if anything, so the admin can pick up from there
+      submitted: dispute.evidence,
+      evidenceDueBy: dispute.evidenceDueBy,
+      acceptsEvidence: acceptsEvidence(dispute.status),
+    },
+  });
+});
+
+/**
+ * POST /admin/disputes/:id/evidence
+ * Body: { evidence?: { field: text }, submit?: boolean }
+ * The assembled draft with the admin's fields on top. Without `submit`
+ * Stripe keeps it as a draft; submitting is final.
+ */
+export const submitDisputeEvidence = asyncHandler(async (req: Request, res: Response) => {
+  const admin = (req as any).user;
+  if (!admin?._id) throw new AppError('Admin session required', 401);
+
+  const dispute = await findDispute(req);
+  if (!acceptsEvidence(dispute.status)) {
+    throw new AppError(`Evidence can't be sent for a dispute that is ${dispute.status}`, 400);
+  }
+  const submit = req.body.submit === true;
+  const overrides = pickEvidenceOverrides(req.body.evidence);
+  if (overrides.error) throw new AppError(overrides.error, 400);
+
+  const { evidence: draft } = await assembleDisputeEvidence(dispute);
+  const evidence = { ...draft, ...overrides.evidence };
+
+  const updated = await StripeService.updateDispute(dispute.stripeDisputeId, evidence, submit);
+  dispute.evidence = evidence;
+  dispute.status = updated.status;
+  if (submit) {
+    dispute.evidenceSubmittedAt = new Date();
+    dispute.evidenceSubmittedBy = admin._id;
+  }
+  dispute.history.push({
+    event: submit ? 'evidence.submitted' : 'evidence.saved',
+    status: updated.status,
+    at: new Date(),
+  });
+  await dispute.save();
+
+  await logAuditEvent('DISPUTE_EVIDENCE', 'dispute', {
+    userId: String(admin._id),
+    userEmail: admin.email,
+    resourceId: String(dispute._id),
+    metadata: {
+      stripeDisputeId: dispute.stripeDisputeId,
+      submit,
+      fields: Object.keys(evidence),
+    },
+  });
+  logger.info(
+    `[Admin] ${admin.email} ${submit ? 'submitted' : 'saved'} evidence for dispute ${dispute.stripeDisputeId}`,
+  );
+
+  res.status(200).json({ success: true, data: dispute });
+});
+
+/**
+ * POST /admin/disputes/:id/accept
+ * Body: { reason }
+ * Concede: the customer keeps the money. The closing webhook settles the
+ * vendor's payouts.
+ */
+export const acceptDispute = asyncHandler(async (req: Request, res: Response) => {
+  const admin = (req as any).user;
+  if (!admin?._id) throw new AppError('Admin session required', 401);
+
+  const { reason } = req.body as { reason?: string };
+  if (!reason || reason.trim().length < 5) {
+    throw new AppError('A reason of at least 5 characters is required', 400);
+  }
+
+  const dispute = await findDispute(req);
+  if (!acceptsEvidence(dispute.status)) {
+    throw new AppError(`A dispute that is ${dispute.status} can't be accepted`, 400);
+  }
+
+  const updated = await StripeService.closeDispute(dispute.stripeDisputeId);
+  dispute.history.push({ event: 'accepted', status: updated.status, at: new Date() });
+  await dispute.save();
+
+  await logAuditEvent('DISPUTE_ACCEPT', 'dispute', {
+    userId: String(admin._id),
+    userEmail: admin.email,
+    resourceId: String(dispute._id),
+    metadata: { stripeDisputeId: dispute.stripeDisputeId, reason: reason.trim() },
+  });
+  logger.info(
+    `[Admin] ${admin.email} accepted dispute ${dispute.stripeDisputeId} — ${reason.trim()}`,
+  );
+
+  res.status(200).json({ success: true, data: { status: updated.status } });
+});
@@ -0,0 +1,52 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import {
+  exampleEmailVariables,
+  isEmailTemplateId,
+  listEmailTemplates,
+  renderEmail,
+} from '../services/email-template.service';
+
+/**
+ * Email template catalog and preview (admin).
+ *
+ *   GET  /admin/email-templates              — templates, their variables and locales
+ *   GET  /admin/email-templates/:id/preview  — rendered HTML with example values (?locale=es&format=text)
+ *   POST /admin/email-templates/:id/preview  — render with { locale, variables }; validation errors are 400s
+ */
+
+/** GET /admin/email-templates */
+export const getEmailTemplates = asyncHandler(async (_req: Request, res: Response) => {
+  res.status(200).json({ success: true, data: listEmailTemplates() });
+});
+
+/** GET /admin/email-templates/:id/preview */
+export const viewEmailTemplatePreview = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!isEmailTemplateId(id)) throw new AppError(`Unknown email template: ${id}`, 404);
+
+  const email = renderEmail(id, exampleEmailVariables(id), req.query.locale as string | undefined);
+  if (req.query.format === 'text') {
+    res
+      .status(200)
+      .type('text/plain; charset=utf-8')
+      .send(`Subject: ${email.subject}\n\n${email.text}`);
+  } else {
+    res.status(200).type('text/html; charset=utf-8').send(email.html);
+  }
+});
+
+/** POST /admin/email-templates/:id/preview */
+export const previewEmailTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!isEmailTemplateId(id)) throw new AppError(`Unknown email template: ${id}`, 404);
+
+  const { locale, variables } = req.body;
+  if (variables !== undefined && (typeof variables !== 'object' || Array.isArray(variables))) {
+    throw new AppError('variables must be an object', 400);
+  }
+
+  const email = renderEmail(id, variables ?? exampleEmailVariables(id), locale);
+  res.status(200).json({ success: true, data: email });
+});
@@ -0,0 +1,121 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import ExternalCalendar from '../models/external-calendar.model';
+import { webhookUrlError } from '../utils/vendor-webhook.util';
+import {
+  disconnectExternalCalendar,
+  syncExternalCalendar,
+} from '../services/external-calendar-sync.service';
+
+/**
+ * Connected external calendars (vendor).
+ *
+ *   GET    /vendor/external-calendars           — list connections and last sync status
+ *   POST   /vendor/external-calendars           — connect and run a first sync
+ *   PUT    /vendor/external-calendars/:id       — change settings or credentials
+ *   DELETE /vendor/external-calendars/:id       — disconnect, dropping imported busy time
+ *   POST   /vendor/external-calendars/:id/sync  — sync now
+ */
+
+const PROVIDERS = ['google', 'caldav', 'ics'];
+const EDITABLE_FIELDS = [
+  'name',
+  'url',
+  'username',
+  'password',
+  'calendarId',
+  'accessToken',
+  'refreshToken',
+  'importBusy',
+  'pushAppointments',
+  'isActive',
+];
+
+const validateConnection = (calendar: Record<string, any>): string | null => {
+  if (!PROVIDERS.includes(calendar.provider)) {
+    return `provider must be one of: ${PROVIDERS.join(', ')}`;
+  }
+  if (calendar.provider === 'google') {
+    if (!calendar.accessToken && !calendar.refreshToken) {
+      return 'accessToken or refreshToken is required for Google calendars';
+    }
+  } else {
+    // Same rules as webhook endpoints: https in production and never an internal host
+    const url =
+      typeof calendar.url === 'string' ? calendar.url.replace(/^webcal:/i, 'https:') : calendar.url;
+    const urlError = webhookUrlError(url, process.env.NODE_ENV === 'production');
+    if (urlError) return urlError;
+  }
+  if (calendar.provider === 'ics' && calendar.pushAppointments) {
+    return 'ICS URLs are read-only; subscribe to your AppNow calendar feed instead';
+  }
+  return null;
+};
+
+/** GET /vendor/external-calendars */
+export const listExternalCalendars = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const calendars = await ExternalCalendar.find({ vendorId }).sort({ createdAt: 1 }).lean();
+  res.status(200).json({ success: true, data: calendars });
+});
+
+/** POST /vendor/external-calendars */
+export const connectExternalCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const fields: Record<string, any> = { provider: req.body.provider };
+  for (const key of EDITABLE_FIELDS) {
+    if (req.body[key] !== undefined) fields[key] = req.body[key];
+  }
+  // Two-way by default where the protocol allows it
+  if (fields.pushAppointments === undefined) fields.pushAppointments = fields.provider !== 'ics';
+
+  const validationError = validateConnection(fields);
+  if (validationError) throw new AppError(validationError, 400);
+
+  const calendar = await ExternalCalendar.create({ ...fields, vendorId });
+  const sync = await syncExternalCalendar(String(calendar._id));
+  const saved = await ExternalCalendar.findById(calendar._id).lean();
+
+  res.status(201).json({ success: true, data: saved, sync });
+});
+
+/** PUT /vendor/external-calendars/:id */
+export const updateExternalCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const calendar = await ExternalCalendar.findOne({ _id: req.params.id, vendorId }).select(
+    '+username +password +accessToken +refreshToken',
+  );
+  if (!calendar) throw new AppError('External calendar not found', 404);
+
+  for (const key of EDITABLE_FIELDS) {
+    if (req.body[key] !== undefined) calendar.set(key, req.body[key]);
+  }
+  const validationError = validateConnection(calendar.toObject());
+  if (validationError) throw new AppError(validationError, 400);
+  await calendar.save();
+
+  const data = await ExternalCalendar.findById(calendar._id).lean();
+  res.status(200).json({ success: true, data });
+});
+
+/** DELETE /vendor/external-calendars/:id */
+export const deleteExternalCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const calendar = await ExternalCalendar.findOne({ _id: req.params.id, vendorId }).select('_id');
+  if (!calendar) throw new AppError('External calendar not found', 404);
+
+  await disconnectExternalCalendar(String(calendar._id));
+  res.status(200).json({ success: true, message: 'External calendar disconnected' });
+});
+
+/** POST /vendor/external-calendars/:id/sync */
+export const syncExternalCalendarNow = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const calendar = await ExternalCalendar.findOne({ _id: req.params.id, vendorId }).select('_id');
+  if (!calendar) throw new AppError('External calendar not found', 404);
+
+  const sync = await syncExternalCalendar(String(calendar._id));
+  if (sync.error) throw new AppError(`Calendar sync failed: ${sync.error}`, 502);
+  res.status(200).json({ success: true, data: sync });
+});
@@ -1,7 +1,31 @@
 import type { Request, Response } from 'express';
 import mongoose from 'mongoose';
 import LoyaltyAccount from '../models/loyalty-account.model';
-import User from '../models/user.model';
+import { findOrCreateLoyaltyAccount } from '../services/loyalty.service';
+import {
+  LOYALTY_POINTS_PER_DOLLAR,
+  LOYALTY_TIERS,
+  getNextTier,
+  type LoyaltyTier,
+} from '../config/loyalty';
+
+/**
+ * Benefits of the account's current tier and progress toward the next one.
+ */
+const describeTierBenefits = (tier: LoyaltyTier, totalEarned: number) => {
+  const nextTier = getNextTier(tier);
+  return {
+    earnRate: LOYALTY_POINTS_PER_DOLLAR,
+    current: { tier, ...LOYALTY_TIERS[tier] },
+    next: nextTier
+      ? {
+          tier: nextTier,
+          ...LOYALTY_TIERS[nextTier],
+          pointsNeeded: Math.max(0, LOYALTY_TIERS[nextTier].minTotalEarned - totalEarned),
+        }
+      : null,
+  };
+};
 
 /**
  * Get loyalty account for a user (creates one if it doesn't exist)
@@ -19,36 +43,21 @@ export const getLoyaltyAccount = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Try to find existing loyalty account
-    let account = await LoyaltyAccount.findOne({ clerkId });
+    // Find the existing loyalty account, or create one for the user
+    const account = await findOrCreateLoyaltyAccount({ clerkId });
 
     if (!account) {
-      // Look up the user to get userId
-      const user = await User.findOne({ clerkId });
-
-      if (!user) {
-        res.status(404).json({
-          success: false,
-          error: 'User not found',
-        });
-        return;
-      }
-
-      // Create a new loyalty account
-      account = await LoyaltyAccount.create({
-        userId: user._id,
-        clerkId,
-        points: 0,
-        totalEarned: 0,
-        totalRedeemed: 0,
-        tier: 'bronze',
-        history: [],
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
       });
+      return;
     }
 
     res.status(200).json({
       success: true,
       data: account,
+      benefits: describeTierBenefits(account.tier, account.totalEarned),
     });
   } catch (error) {
     res.status(500).json({
@@ -198,8 +207,9 @@ export const redeemPoints = async (req: Request, res: Response): Promise<void> =
 };
 
 /**
- * Award loyalty points to a user (internal function, called after payment completes)
- * 1 point per $1 spent
+ * Award loyalty points to a user (internal function, used for referral bonuses).
+ * Booking accrual goes through awardPointsForAppointment in loyalty.service.
+ * 1 point per $1
  * @param clerkId - The Clerk user ID
  * @param amount - The dollar amount spent
  * @param appointmentId - Optional appointment ID to link to the transaction
@@ -224,25 +234,10 @@ export const awardPoints = async (
     }
 
     // Find or create the loyalty account
-    let account = await LoyaltyAccount.findOne({ clerkId });
+    const account = await findOrCreateLoyaltyAccount({ clerkId });
 
     if (!account) {
-      // Look up the user to get userId
-      const user = await User.findOne({ clerkId });
-
-      if (!user) {
-        return;
-      }
-
-      account = await LoyaltyAccount.create({
-        userId: user._id,
-        clerkId,
-        points: 0,
-        totalEarned: 0,
-        totalRedeemed: 0,
-        tier: 'bronze',
-        history: [],
-      });
+      return;
     }
 
     // Add points and record transaction
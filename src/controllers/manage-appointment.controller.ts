@@ -5,6 +5,7 @@ import Appointment from './../models/appointment.model';
 import VendorService from './../models/vendor-service.model';
 import { AppError } from './../utils/appError.util';
 import { asyncHandler } from './../utils/asyncHandler.util';
+import { changeAppointmentStatus } from './../services/appointment-status.service';
 
 export const getAppointments = asyncHandler(async (req: Request, res: Response) => {
   // Whitelist allowed query fields to prevent NoSQL injection
@@ -115,41 +116,26 @@ export const getAppointmentById = asyncHandler(async (req: Request, res: Respons
 
 /**
  * Update appointment status (Admin)
+ * Must be a legal transition (utils/appointment-status); admins may also
+ * correct a wrong missed / failed mark back to completed.
  */
 export const updateAppointmentStatus = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
   const { status, reason } = req.body;
 
-  const validStatuses = ['pending', 'confirmed', 'cancelled', 'completed', 'missed', 'failed'];
-  if (!validStatuses.includes(status)) {
-    throw new AppError(`Invalid status. Must be one of: ${validStatuses.join(', ')}`, 400);
-  }
-
   const appointment = await Appointment.findById(id);
   if (!appointment) {
     throw new AppError('Appointment not found', 404);
   }
 
-  // For missed/failed, require a reason
-  if (['missed', 'failed'].includes(status) && (!reason || reason.trim().length < 5)) {
-    throw new AppError(
-      'Please provide a reason (at least 5 characters) for missed/failed status',
-      400,
-    );
-  }
-
-  appointment.status = status;
-  (appointment as any).statusChangedBy = 'admin';
-
-  if (status === 'completed') {
-    (appointment as any).completedAt = new Date();
+  if (status === 'cancelled' && !appointment.cancellationReason) {
+    appointment.cancellationReason = reason?.trim() || 'Cancelled by admin';
   }
-
-  if (['missed', 'failed'].includes(status)) {
-    (appointment as any).statusReason = reason.trim();
-  }
-
-  await appointment.save();
+  await changeAppointmentStatus(appointment, status, {
+    actor: 'admin',
+    actorId: req.user?._id,
+    reason,
+  });
 
   res.status(200).json({
     success: true,
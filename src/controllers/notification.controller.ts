@@ -6,51 +6,28 @@ import Vendor from '../models/vendor.model';
 import VendorService from '../models/vendor-service.model';
 import Appointment from '../models/appointment.model';
 import Review from '../models/review.model';
+import PushTicket from '../models/push-ticket.model';
 import type { NotificationResponse } from '../interfaces/notification.interface';
-
-interface ExpoPushMessage {
-  to: string;
-  sound?: 'default' | null;
-  title: string;
-  body: string;
-  data?: Record<string, string>;
-}
-
-interface ExpoPushTicket {
-  status: 'ok' | 'error';
-  id?: string;
-  message?: string;
-  details?: { error: string };
-}
-
-/**
- * Send push notifications via Expo Push API
- */
-async function sendExpoPushNotifications(messages: ExpoPushMessage[]): Promise<ExpoPushTicket[]> {
-  if (messages.length === 0) {
-    return [];
-  }
-
-  const response = await fetch('https://exp.host/--/api/v2/push/send', {
-    method: 'POST',
-    headers: {
-      Accept: 'application/json',
-      'Accept-encoding': 'gzip, deflate',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(messages),
-  });
-
-  const result = (await response.json()) as { data?: ExpoPushTicket[] };
-  return result.data || [];
-}
+import { dispatchToUsers } from '../services/notification-dispatcher.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  type NotificationChannel,
+  type NotificationType,
+} from '../utils/notification-channels.util';
+import { isValidExpoPushToken, userPushTokens } from '../utils/push-receipt.util';
+
+// Oldest (least recently used) devices are dropped beyond this
+const MAX_PUSH_DEVICES = 10;
+const PUSH_PLATFORMS = ['ios', 'android', 'web'];
+const maskToken = (token: string) => `${token.substring(0, 30)}...`;
 
 /**
  * Send notification to all users or specific users
  * POST /api/v1/admin/notifications/send
  */
 export const sendNotification = asyncHandler(async (req: Request, res: Response) => {
-  const { targetType, userIds, title, body, data } = req.body;
+  const { targetType, userIds, title, body, data, channels } = req.body;
 
   // Validate required fields
   if (!title || !body) {
@@ -74,109 +51,62 @@ export const sendNotification = asyncHandler(async (req: Request, res: Response)
     });
   }
 
-  // Build query to find users with push tokens
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const query: Record<string, any> = {
-    expoPushToken: { $exists: true, $nin: [null, ''] },
-    role: 'customer',
-  };
-
-  if (targetType === 'specific') {
-    query._id = { $in: userIds };
+  const type: NotificationType = data?.type || 'system';
+  if (!NOTIFICATION_TYPES.includes(type)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid notification type. Must be one of: ${NOTIFICATION_TYPES.join(', ')}`,
+    });
   }
 
-  // Get users with push tokens
-  const users = await User.find(query).select('_id email clerkId expoPushToken').lean();
-
-  if (users.length === 0) {
-    return res.status(200).json({
-      success: true,
-      message: 'No users with push tokens found',
-      sentCount: 0,
-      failedCount: 0,
+  if (
+    channels !== undefined &&
+    (!Array.isArray(channels) ||
+      channels.some((channel: NotificationChannel) => !NOTIFICATION_CHANNELS.includes(channel)))
+  ) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid channels. Must be any of: ${NOTIFICATION_CHANNELS.join(', ')}`,
     });
   }
 
-  // Save notifications to database for all target users
-  const notificationsToSave = users
-    .filter((user) => user.clerkId) // Only save for users with clerkId
-    .map((user) => ({
-      userId: user.clerkId,
-      type: data?.type || 'system',
-      title,
-      body,
-      data: data || {},
-      read: false,
-    }));
-
-  if (notificationsToSave.length > 0) {
-    try {
-      await Notification.insertMany(notificationsToSave);
-    } catch (dbError) {
-      console.error('Error saving notifications to database:', dbError);
-      // Continue with push notifications even if DB save fails
-    }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query: Record<string, any> = { role: 'customer' };
+  if (targetType === 'specific') {
+    query._id = { $in: userIds };
   }
 
-  // Prepare push messages
-  const messages: ExpoPushMessage[] = users
-    .filter((user) => user.expoPushToken && user.expoPushToken.startsWith('ExponentPushToken'))
-    .map((user) => ({
-      to: user.expoPushToken!,
-      sound: 'default' as const,
-      title,
-      body,
-      data: data || {},
-    }));
-
-  if (messages.length === 0) {
-    return res.status(200).json({
-      success: true,
-      message: 'No valid Expo push tokens found',
-      sentCount: 0,
-      failedCount: 0,
-    });
-  }
+  // Preferences and consent are applied per recipient; push only unless asked otherwise
+  const { recipients, delivered, failed } = await dispatchToUsers(query, {
+    type,
+    title,
+    body,
+    data: data || {},
+    channels: channels || ['push'],
+  });
 
-  // Send notifications in batches of 100 (Expo limit)
-  const batchSize = 100;
-  let sentCount = 0;
-  let failedCount = 0;
-
-  for (let i = 0; i < messages.length; i += batchSize) {
-    const batch = messages.slice(i, i + batchSize);
-    try {
-      const tickets = await sendExpoPushNotifications(batch);
-
-      for (const ticket of tickets) {
-        if (ticket.status === 'ok') {
-          sentCount++;
-        } else {
-          failedCount++;
-          console.error('Push notification failed:', ticket.message, ticket.details);
-        }
-      }
-    } catch (error) {
-      console.error('Error sending push notifications batch:', error);
-      failedCount += batch.length;
-    }
-  }
+  const sentCount = NOTIFICATION_CHANNELS.reduce((sum, channel) => sum + delivered[channel], 0);
+  const failedCount = NOTIFICATION_CHANNELS.reduce((sum, channel) => sum + failed[channel], 0);
 
   res.status(200).json({
     success: true,
     message: `Notification sent to ${sentCount} user(s)`,
+    recipients,
     sentCount,
     failedCount,
+    delivered,
+    failed,
   });
 });
 
 /**
  * Register push token for a user
  * POST /api/v1/users/push-token
- * Accepts either clerkId or MongoDB _id
+ * Accepts either clerkId or MongoDB _id. Each device registers its own
+ * token; re-registering a token refreshes it.
  */
 export const registerPushToken = asyncHandler(async (req: Request, res: Response) => {
-  const { userId, clerkId, pushToken } = req.body;
+  const { userId, clerkId, pushToken, platform, deviceName } = req.body;
 
   if ((!userId && !clerkId) || !pushToken) {
     return res.status(400).json({
@@ -186,21 +116,23 @@ export const registerPushToken = asyncHandler(async (req: Request, res: Response
   }
 
   // Validate Expo push token format
-  if (!pushToken.startsWith('ExponentPushToken')) {
+  if (!isValidExpoPushToken(pushToken)) {
     return res.status(400).json({
       success: false,
       message: 'Invalid Expo push token format',
     });
   }
 
-  // Find user by clerkId or MongoDB _id
-  let user;
-  if (clerkId) {
-    user = await User.findOneAndUpdate({ clerkId }, { expoPushToken: pushToken }, { new: true });
-  } else {
-    user = await User.findByIdAndUpdate(userId, { expoPushToken: pushToken }, { new: true });
+  if (platform !== undefined && platform !== null && !PUSH_PLATFORMS.includes(platform)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid platform. Must be one of: ${PUSH_PLATFORMS.join(', ')}`,
+    });
   }
 
+  // Find user by clerkId or MongoDB _id
+  const user = clerkId ? await User.findOne({ clerkId }) : await User.findById(userId);
+
   if (!user) {
     return res.status(404).json({
       success: false,
@@ -208,37 +140,114 @@ export const registerPushToken = asyncHandler(async (req: Request, res: Response
     });
   }
 
+  // A device belongs to whoever signed in on it last
+  await User.updateMany(
+    { _id: { $ne: user._id }, 'pushTokens.token': pushToken },
+    { $pull: { pushTokens: { token: pushToken } } },
+  );
+  await User.updateMany(
+    { _id: { $ne: user._id }, expoPushToken: pushToken },
+    { $unset: { expoPushToken: 1 } },
+  );
+
+  const now = new Date();
+  const existing = user.pushTokens?.find((device) => device.token === pushToken);
+  const devices = (user.pushTokens || [])
+    .filter((device) => device.token !== pushToken)
+    .map(({ token, platform, deviceName, createdAt, lastUsedAt }) => ({
+      token,
+      platform,
+      deviceName,
+      createdAt,
+      lastUsedAt,
+    }))
+    .concat({
+      token: pushToken,
+      platform: platform ?? existing?.platform ?? null,
+      deviceName: typeof deviceName === 'string' ? deviceName.slice(0, 100) : existing?.deviceName,
+      createdAt: existing?.createdAt || now,
+      lastUsedAt: now,
+    })
+    .sort((a, b) => (b.lastUsedAt?.getTime() || 0) - (a.lastUsedAt?.getTime() || 0))
+    .slice(0, MAX_PUSH_DEVICES);
+
+  await User.updateOne({ _id: user._id }, { $set: { pushTokens: devices } });
+
   res.status(200).json({
     success: true,
     message: 'Push token registered successfully',
+    devices: devices.length,
   });
 });
 
 /**
- * Debug endpoint: Get all users with their push token status
+ * Debug endpoint: push token status per customer and the delivery outcome
+ * of recent push notifications
  * GET /api/v1/admin/notifications/debug
  */
 export const debugPushTokens = asyncHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(Number(req.query.limit) || 50, 200);
+
   // Get all customer users
   const allUsers = await User.find({ role: 'customer' })
-    .select('_id email clerkId expoPushToken role createdAt')
+    .select('_id email clerkId expoPushToken pushTokens role createdAt')
     .lean();
 
-  const usersWithTokens = allUsers.filter((u) => u.expoPushToken);
-  const usersWithoutTokens = allUsers.filter((u) => !u.expoPushToken);
+  const usersWithTokens = allUsers.filter((u) => userPushTokens(u).length > 0);
+
+  const [statusCounts, recentTickets] = await Promise.all([
+    PushTicket.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    PushTicket.find()
+      .sort({ createdAt: -1 })
+      .limit(limit * MAX_PUSH_DEVICES)
+      .select(
+        'userId notificationId token message.title status errorCode error attempts sentAt createdAt',
+      )
+      .lean(),
+  ]);
+
+  // One entry per notification, with each device's ticket
+  const notifications = new Map<string, any>();
+  for (const ticket of recentTickets) {
+    const key = String(ticket.notificationId || ticket._id);
+    if (!notifications.has(key)) {
+      if (notifications.size >= limit) continue;
+      notifications.set(key, {
+        notificationId: ticket.notificationId || null,
+        userId: ticket.userId,
+        title: ticket.message?.title,
+        createdAt: ticket.createdAt,
+        devices: [],
+      });
+    }
+    notifications.get(key).devices.push({
+      token: maskToken(ticket.token),
+      status: ticket.status,
+      errorCode: ticket.errorCode || null,
+      error: ticket.error || null,
+      attempts: ticket.attempts,
+      sentAt: ticket.sentAt || null,
+    });
+  }
 
   res.status(200).json({
     success: true,
     totalCustomers: allUsers.length,
     withPushTokens: usersWithTokens.length,
-    withoutPushTokens: usersWithoutTokens.length,
-    users: allUsers.map((u) => ({
-      _id: u._id,
-      email: u.email,
-      clerkId: u.clerkId || null,
-      hasExpoPushToken: !!u.expoPushToken,
-      expoPushToken: u.expoPushToken ? `${u.expoPushToken.substring(0, 30)}...` : null,
-    })),
+    withoutPushTokens: allUsers.length - usersWithTokens.length,
+    tickets: Object.fromEntries(statusCounts.map((entry) => [entry._id, entry.count])),
+    users: allUsers.map((u) => {
+      const tokens = userPushTokens(u);
+      return {
+        _id: u._id,
+        email: u.email,
+        clerkId: u.clerkId || null,
+        hasExpoPushToken: tokens.length > 0,
+        deviceCount: tokens.length,
+        devices: tokens.map(maskToken),
+      };
+    }),
+    recentNotifications: [...notifications.values()],
   });
 });
 
@@ -248,7 +257,7 @@ export const debugPushTokens = asyncHandler(async (req: Request, res: Response)
  * Accepts either clerkId or MongoDB _id
  */
 export const removePushToken = asyncHandler(async (req: Request, res: Response) => {
-  const { userId, clerkId } = req.body;
+  const { userId, clerkId, pushToken } = req.body;
 
   if (!userId && !clerkId) {
     return res.status(400).json({
@@ -257,16 +266,20 @@ export const removePushToken = asyncHandler(async (req: Request, res: Response)
     });
   }
 
+  // With a token only that device is removed; without one, every device
+  const update = pushToken
+    ? { $pull: { pushTokens: { token: pushToken } } }
+    : { $set: { pushTokens: [] }, $unset: { expoPushToken: 1 } };
+
   // Find user by clerkId or MongoDB _id
   let user;
   if (clerkId) {
-    user = await User.findOneAndUpdate(
-      { clerkId },
-      { $unset: { expoPushToken: 1 } },
-      { new: true },
-    );
+    user = await User.findOneAndUpdate({ clerkId }, update, { new: true });
   } else {
-    user = await User.findByIdAndUpdate(userId, { $unset: { expoPushToken: 1 } }, { new: true });
+    user = await User.findByIdAndUpdate(userId, update, { new: true });
+  }
+  if (user && pushToken && user.expoPushToken === pushToken) {
+    await User.updateOne({ _id: user._id }, { $unset: { expoPushToken: 1 } });
   }
 
   if (!user) {
@@ -5,7 +5,7 @@ import { asyncHandler } from '../utils/asyncHandler.util';
 import StripeService from '../services/stripe.service';
 import logger from '../config/logger';
 import type Stripe from 'stripe';
-import SlotLock from '../models/slot-lock.model';
+import { handleStripeEvent } from '../services/stripe-webhook.service';
 import Appointment from '../models/appointment.model';
 import User from '../models/user.model';
 
@@ -192,74 +192,9 @@ export const handleWebhook = asyncHandler(async (req: Request, res: Response) =>
   const payload = req.body;
   const signature = req.headers['stripe-signature'] as string;
 
+  let event: Stripe.Event;
   try {
-    const event = await StripeService.constructWebhookEvent(payload, signature);
-
-    switch (event.type) {
-      case 'checkout.session.completed':
-        const session = event.data.object as Stripe.Checkout.Session;
-        logger.info(`Payment successful for session: ${session.id}`);
-        // Handle successful payment here - create booking, etc.
-        break;
-      case 'payment_intent.succeeded':
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        logger.info(`Payment for ${paymentIntent.amount} succeeded!`);
-
-        // Release slot lock upon successful payment
-        if (paymentIntent.id) {
-          try {
-            const deletedLock = await SlotLock.findOneAndDelete({
-              paymentIntentId: paymentIntent.id,
-            });
-            if (deletedLock) {
-              logger.info(`Slot lock released for payment intent: ${paymentIntent.id}`);
-            }
-          } catch (lockError: any) {
-            logger.error(`Error releasing slot lock: ${lockError.message}`);
-          }
-        }
-        break;
-      case 'payment_intent.payment_failed':
-        const failedPayment = event.data.object as Stripe.PaymentIntent;
-        logger.error(`Payment for ${failedPayment.amount} failed!`);
-
-        // Release slot lock on payment failure so another user can book
-        if (failedPayment.id) {
-          try {
-            const deletedLock = await SlotLock.findOneAndDelete({
-              paymentIntentId: failedPayment.id,
-            });
-            if (deletedLock) {
-              logger.info(`Slot lock released after payment failure: ${failedPayment.id}`);
-            }
-          } catch (lockError: any) {
-            logger.error(`Error releasing slot lock on failure: ${lockError.message}`);
-          }
-        }
-        break;
-      case 'payment_intent.canceled':
-        const canceledPayment = event.data.object as Stripe.PaymentIntent;
-        logger.info(`Payment intent canceled: ${canceledPayment.id}`);
-
-        // Release slot lock on cancellation
-        if (canceledPayment.id) {
-          try {
-            const deletedLock = await SlotLock.findOneAndDelete({
-              paymentIntentId: canceledPayment.id,
-            });
-            if (deletedLock) {
-              logger.info(`Slot lock released after payment cancellation: ${canceledPayment.id}`);
-            }
-          } catch (lockError: any) {
-            logger.error(`Error releasing slot lock on cancellation: ${lockError.message}`);
-          }
-        }
-        break;
-      default:
-        logger.info(`Unhandled event type ${event.type}`);
-    }
-
-    res.status(200).json({ received: true });
+    event = await StripeService.constructWebhookEvent(payload, signature);
   } catch (error: any) {
     logger.error(`Webhook error: ${error.message}`);
     res.status(400).json({
@@ -267,6 +202,19 @@ export const handleWebhook = asyncHandler(async (req: Request, res: Response) =>
       message: 'Webhook signature verification failed',
       error: error.message,
     });
+    return;
+  }
+
+  try {
+    const result = await handleStripeEvent(event);
+    res.status(200).json({ received: true, duplicate: result === 'duplicate' });
+  } catch (error: any) {
+    // Non-2xx so Stripe redelivers; the event id is free to be claimed again
+    res.status(500).json({
+      success: false,
+      message: 'Webhook processing failed',
+      error: error.message,
+    });
   }
 });
 
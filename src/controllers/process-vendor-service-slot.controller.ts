@@ -1,10 +1,18 @@
 import type { Request, Response } from 'express';
-import moment from 'moment';
 
-import VendorServiceSlot from './../models/vendor-service-slot.model';
 import Appointment from './../models/appointment.model';
 import { asyncHandler } from './../utils/asyncHandler.util';
-import { getServiceSlots } from './../services/get-slots.service';
+import {
+  getServiceSlots,
+  checkSlotIsAvailable,
+  getFreeStaff,
+} from './../services/get-slots.service';
+import { loadSlotConstraints } from './../services/booking-rules.service';
+import { getDateAvailability, loadAvailability } from './../services/availability.service';
+import { isTimeBlocked } from './../utils/block-time.util';
+import { bookingWindowError, totalBufferMinutes } from './../utils/booking-rules.util';
+import { getVendorServiceTimezone } from './../utils/vendor.util';
+import { toDateKey, todayInTimezone, zonedTimeToUtc } from './../utils/timezone.util';
 import type { Slot, Appointment as AppointmentInterface } from './../interfaces/common.interface';
 
 /**
@@ -30,7 +38,7 @@ const getAppointmentsByDate = async (
   const appointmentsByDate: Record<string, AppointmentInterface[]> = {};
 
   for (const appointment of appointments) {
-    const dateStr = moment(appointment.appointmentDate).format('YYYY-MM-DD');
+    const dateStr = toDateKey(appointment.appointmentDate);
 
     if (!appointmentsByDate[dateStr]) {
       appointmentsByDate[dateStr] = [];
@@ -60,51 +68,45 @@ const getAppointmentsByDate = async (
 export const getVendorServiceSlots = asyncHandler(async (req: Request, res: Response) => {
   try {
     const { vendorServiceId, month, year, duration } = req.body;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const payload = {
-      vendorServiceId,
-      month,
-      year,
-      dates: {
-        $elemMatch: {
-          date: {
-            $gte: today,
-          },
-        },
-      },
-    };
-
-    let vendorServiceSlots: any = await VendorServiceSlot.find(payload);
+    // "Today" is the vendor's calendar day, not the server's
+    const timezone = await getVendorServiceTimezone(vendorServiceId);
+    const today = new Date(`${todayInTimezone(timezone)}T00:00:00.000Z`);
+
+    // Remaining days of the requested month — weekly template expanded,
+    // with per-date slot entries taking precedence
+    const monthStart = new Date(Date.UTC(Number(year), Number(month) - 1, 1));
+    const monthEnd = new Date(Date.UTC(Number(year), Number(month), 0));
+    const rangeStart = monthStart > today ? monthStart : today;
+    const dates =
+      rangeStart <= monthEnd ? await loadAvailability(vendorServiceId, rangeStart, monthEnd) : [];
     const serviceSlotsByDate: Record<string, Slot[]> = {};
 
-    if (vendorServiceSlots.length > 0) {
-      vendorServiceSlots = vendorServiceSlots[0];
-
+    if (dates.length > 0) {
       // Calculate date range for appointments query
-      const dates = vendorServiceSlots.dates.filter((d: any) => new Date(d.date) >= today);
-      if (dates.length > 0) {
-        const startDate = new Date(Math.min(...dates.map((d: any) => new Date(d.date).getTime())));
-        const endDate = new Date(Math.max(...dates.map((d: any) => new Date(d.date).getTime())));
-        endDate.setHours(23, 59, 59, 999);
-
-        // Fetch appointments for the date range
-        const appointments = await getAppointmentsByDate(vendorServiceId, startDate, endDate);
-
-        for (const dateDetails of dates) {
-          const dateStr = moment(dateDetails.date).format().substring(0, 10);
-          if (!serviceSlotsByDate[dateStr]) {
-            serviceSlotsByDate[dateStr] = [];
-          }
-          serviceSlotsByDate[dateStr] = getServiceSlots(dateDetails, duration, appointments);
-        }
+      const startDate = new Date(`${toDateKey(dates[0].date)}T00:00:00.000Z`);
+      const endDate = new Date(`${toDateKey(dates[dates.length - 1].date)}T23:59:59.999Z`);
+
+      // Fetch appointments, block times, booking rules and (for multi-staff
+      // vendors) staff schedules for the date range
+      const appointments = await getAppointmentsByDate(vendorServiceId, startDate, endDate);
+      const constraints = await loadSlotConstraints(vendorServiceId, startDate, endDate);
+
+      for (const dateDetails of dates) {
+        serviceSlotsByDate[toDateKey(dateDetails.date)] = getServiceSlots(
+          dateDetails,
+          duration,
+          appointments,
+          '',
+          timezone,
+          constraints,
+        );
       }
     }
 
     res.status(200).json({
       success: true,
       data: serviceSlotsByDate,
+      timezone,
     });
   } catch (error) {
     res.status(500).json({
@@ -132,34 +134,12 @@ export const checkSlotAvailability = asyncHandler(async (req: Request, res: Resp
       return;
     }
 
-    const checkDate = new Date(date);
-    checkDate.setHours(0, 0, 0, 0);
+    const dateStr = toDateKey(date);
+    const checkDate = new Date(`${dateStr}T00:00:00.000Z`);
+    const timezone = await getVendorServiceTimezone(vendorServiceId);
 
-    const dateStr = moment(checkDate).format('YYYY-MM-DD');
-
-    // Get the slot configuration for this date
-    const vendorServiceSlot = await VendorServiceSlot.findOne({
-      vendorServiceId,
-      month: checkDate.getMonth() + 1,
-      year: checkDate.getFullYear(),
-      'dates.date': checkDate,
-    }).lean();
-
-    if (!vendorServiceSlot) {
-      res.status(200).json({
-        success: true,
-        available: false,
-        message: 'No slots configured for this date',
-        alternativeSlots: [],
-      });
-      return;
-    }
-
-    // Find the specific date details
-    const dateDetails = (vendorServiceSlot as any).dates.find((d: any) => {
-      const dDate = moment(d.date).format('YYYY-MM-DD');
-      return dDate === dateStr;
-    });
+    // Availability for this date: a per-date slot entry, else the weekly template
+    const dateDetails = await getDateAvailability(vendorServiceId, checkDate);
 
     if (!dateDetails) {
       res.status(200).json({
@@ -178,28 +158,35 @@ export const checkSlotAvailability = asyncHandler(async (req: Request, res: Resp
       new Date(checkDate.getTime() + 24 * 60 * 60 * 1000),
     );
 
-    // Check if the specific slot is available
-    const slotStartTs = new Date(`${dateStr} ${startTime}`).getTime();
-    const slotEndTs = new Date(`${dateStr} ${endTime}`).getTime();
-
-    let availableCount = dateDetails.reoccurrence;
-
-    if (appointments[dateStr]) {
-      for (const appointment of appointments[dateStr]) {
-        const appointmentStartTs = new Date(`${dateStr} ${appointment.start_time}`).getTime();
-        const appointmentEndTs = new Date(`${dateStr} ${appointment.end_time}`).getTime();
-
-        const hasOverlap =
-          (appointmentStartTs === slotStartTs && appointmentEndTs === slotEndTs) ||
-          (appointmentStartTs >= slotStartTs && appointmentStartTs < slotEndTs) ||
-          (appointmentEndTs > slotStartTs && appointmentEndTs <= slotEndTs) ||
-          (appointmentStartTs <= slotStartTs && appointmentEndTs >= slotEndTs);
-
-        if (hasOverlap) {
-          availableCount -= appointment.appointments;
-        }
-      }
-    }
+    // Check if the specific slot is available (instants in the vendor's zone),
+    // keeping the service's buffer clear around other appointments
+    const slotStart = zonedTimeToUtc(dateStr, startTime, timezone);
+    const slotEnd = zonedTimeToUtc(dateStr, endTime, timezone);
+    const constraints = await loadSlotConstraints(vendorServiceId, checkDate, checkDate);
+    const { staffContext, blocked, rules } = constraints;
+    const buffer = rules ? totalBufferMinutes(rules) : 0;
+
+    let availableCount = appointments[dateStr]
+      ? checkSlotIsAvailable(
+          appointments[dateStr],
+          dateStr,
+          slotStart.getTime() - buffer * 60 * 1000,
+          slotEnd.getTime() + buffer * 60 * 1000,
+          dateDetails.reoccurrence,
+          timezone,
+        )
+      : dateDetails.reoccurrence;
+
+    // Block times (vacation, sick days, …) and the notice / horizon rules
+    // make the slot unbookable outright
+    const ruleError = rules ? bookingWindowError(rules, slotStart) : null;
+    if (ruleError || isTimeBlocked(blocked, dateStr, startTime, endTime)) availableCount = 0;
+
+    // Multi-staff vendors: someone eligible must also be free
+    const freeStaff = staffContext
+      ? getFreeStaff(staffContext, dateStr, startTime, endTime, buffer)
+      : undefined;
+    if (freeStaff) availableCount = Math.min(availableCount, freeStaff.capacity);
 
     const isAvailable = availableCount > 0;
 
@@ -208,18 +195,29 @@ export const checkSlotAvailability = asyncHandler(async (req: Request, res: Resp
         success: true,
         available: true,
         availableSlots: availableCount,
+        ...(freeStaff ? { staff: freeStaff.staff } : {}),
+        timezone,
+        startUtc: slotStart.toISOString(),
+        endUtc: slotEnd.toISOString(),
       });
       return;
     }
 
     // Slot not available - get alternative slots for this date
     const durationValue = duration || 60; // Default 60 minutes if not provided
-    const alternativeSlots = getServiceSlots(dateDetails, durationValue, appointments);
+    const alternativeSlots = getServiceSlots(
+      dateDetails,
+      durationValue,
+      appointments,
+      '',
+      timezone,
+      constraints,
+    );
 
     res.status(200).json({
       success: true,
       available: false,
-      message: 'This slot is no longer available',
+      message: ruleError || 'This slot is no longer available',
       alternativeSlots,
       date: dateStr,
     });
@@ -237,68 +235,40 @@ export const checkSlotAvailability = asyncHandler(async (req: Request, res: Resp
 export const getVendorServiceSlotsByDate = asyncHandler(async (req: Request, res: Response) => {
   try {
     const { vendorServiceId, date, duration } = req.body;
-    const startDate = date ? new Date(date) : new Date();
-    startDate.setHours(0, 0, 0, 0);
+    const timezone = await getVendorServiceTimezone(vendorServiceId);
+    const startDate = new Date(
+      `${date ? toDateKey(date) : todayInTimezone(timezone)}T00:00:00.000Z`,
+    );
 
     const activeDaysNeeded = 15;
     const serviceSlotsByDate: Record<string, Slot[]> = {};
 
-    // Build month/year conditions for next 3 months in a single query
-    // Use first day of month to avoid date overflow (e.g., Jan 31 + 1 month = Mar 3, skipping Feb)
-    const monthYearConditions = [];
-    for (let i = 0; i < 3; i++) {
-      const searchDate = new Date(startDate.getFullYear(), startDate.getMonth() + i, 1);
-      monthYearConditions.push({
-        month: searchDate.getMonth() + 1,
-        year: searchDate.getFullYear(),
-      });
-    }
-
-    // Single query to fetch all months at once
-    const vendorServiceSlots: any = await VendorServiceSlot.find({
-      vendorServiceId,
-      $or: monthYearConditions,
-      dates: {
-        $elemMatch: {
-          date: { $gte: startDate },
-        },
-      },
-    }).lean();
-
-    // Collect all dates from all month documents
-    const allDates: any[] = [];
-    for (const slotDoc of vendorServiceSlots) {
-      for (const dateDetails of slotDoc.dates) {
-        const dateObj = new Date(dateDetails.date);
-        if (dateObj >= startDate) {
-          allDates.push(dateDetails);
-        }
-      }
-    }
-
-    // Sort all dates chronologically
-    allDates.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    // Calculate end date for appointments query (3 months from start)
+    // Calculate end date for the search (3 months from start)
     const endDate = new Date(startDate);
-    endDate.setMonth(endDate.getMonth() + 3);
-    endDate.setHours(23, 59, 59, 999);
+    endDate.setUTCMonth(endDate.getUTCMonth() + 3);
+    endDate.setUTCHours(23, 59, 59, 999);
+
+    // Every configured date in the window, in order — weekly template
+    // expanded, with per-date slot entries taking precedence
+    const allDates = await loadAvailability(vendorServiceId, startDate, endDate);
 
-    // Fetch appointments for the entire date range
+    // Fetch appointments, block times, booking rules and staff schedules for
+    // the entire date range
     const appointments = await getAppointmentsByDate(vendorServiceId, startDate, endDate);
+    const constraints = await loadSlotConstraints(vendorServiceId, startDate, endDate);
 
     // Process dates and pick first 15 active days
     let activeDaysFound = 0;
     for (const dateDetails of allDates) {
       if (activeDaysFound >= activeDaysNeeded) break;
 
-      const dateStr = moment(dateDetails.date).format().substring(0, 10);
+      const dateStr = toDateKey(dateDetails.date);
 
       // Skip if already processed
       if (serviceSlotsByDate[dateStr]) continue;
 
       // Get slots for this date, checking against appointments
-      const slots = getServiceSlots(dateDetails, duration, appointments);
+      const slots = getServiceSlots(dateDetails, duration, appointments, '', timezone, constraints);
 
       // Only count as active day if there are available slots
       if (slots.length > 0) {
@@ -310,6 +280,7 @@ export const getVendorServiceSlotsByDate = asyncHandler(async (req: Request, res
     res.status(200).json({
       success: true,
       data: serviceSlotsByDate,
+      timezone,
     });
   } catch (error) {
     res.status(500).json({
@@ -1,174 +1,194 @@
 import type { Request, Response } from 'express';
-import mongoose from 'mongoose';
-import moment from 'moment';
 import { asyncHandler } from '../utils/asyncHandler.util';
 import { AppError } from '../utils/appError.util';
 import Appointment from '../models/appointment.model';
-import logger from '../config/logger';
+import { changeAppointmentStatuses } from '../services/appointment-status.service';
+import {
+  cancelSeries,
+  createSeries,
+  editFollowingOccurrences,
+  editOccurrence,
+  getSeries,
+  resolveSeriesConflict,
+} from '../services/recurring-series.service';
 
 /**
- * Recurring appointments.
+ * Recurring appointments (services/recurring-series).
  *
- * Model: each occurrence is its own Appointment (independent payments,
- * cancellations, and notifications). Occurrences share a
- * `recurrenceSeriesId` that lets us query the whole series later.
+ * Each occurrence is its own Appointment (independent payments,
+ * cancellations and notifications) sharing a `recurrenceSeriesId` — the
+ * id of the series document that books the next occurrences as the
+ * rolling window moves. Series are weekly, biweekly or monthly, 2–52
+ * occurrences long or open-ended.
  *
- * MVP scope:
- *   - Weekly / biweekly / monthly cadences
- *   - Fixed count 2–52 occurrences (no infinite series yet)
- *   - Server checks each generated date for slot collisions before
- *     creating the whole series. If ANY occurrence conflicts, the entire
- *     series creation aborts with a per-date report so the client can
- *     surface which dates need adjustment.
- *   - Payment covers only the first occurrence — subsequent occurrences
- *     are marked `paymentStatus: 'pending'` and expect the customer to
- *     confirm each one 24h before via a reminder (Sprint 8 job).
+ * Occurrences whose time is taken come back as conflicts with nearby free
+ * times: at creation the whole series waits for the customer to skip or
+ * move each; later the customer is notified and resolves them one by one.
+ * The first occurrence is paid with the booking; later card-paid ones are
+ * charged to the saved card 24h before they start.
+ *
+ *   POST   /customer/appointments/recurring
+ *   GET    /customer/appointments/recurring/:seriesId
+ *   PATCH  /customer/appointments/recurring/occurrences/:appointmentId
+ *   POST   /customer/appointments/recurring/:seriesId/conflicts/:index
+ *   DELETE /customer/appointments/recurring/:seriesId
  */
 
-const advanceDate = (base: Date, frequency: 'weekly' | 'biweekly' | 'monthly', n: number) => {
-  const m = moment(base);
-  switch (frequency) {
-    case 'weekly':
-      return m.add(n, 'weeks').toDate();
-    case 'biweekly':
-      return m.add(n * 2, 'weeks').toDate();
-    case 'monthly':
-      return m.add(n, 'months').toDate();
-  }
-};
+// Occurrences that need a refund when cancelled
+const isPaid = (apt: { paymentStatus?: string }) =>
+  apt.paymentStatus === 'completed' || apt.paymentStatus === 'deposit_paid';
+
+const conflictResponse = (res: Response, message: string, conflicts: { appointmentDate: Date }[]) =>
+  res.status(409).json({
+    success: false,
+    message,
+    conflicts,
+    conflictingDates: conflicts.map((conflict) => conflict.appointmentDate),
+  });
 
 /**
  * POST /customer/appointments/recurring
  * Body: {
  *   base: <full booking payload for first occurrence, minus recurrence keys>,
- *   recurrence: { frequency: 'weekly'|'biweekly'|'monthly', occurrences: 2..52 }
+ *   recurrence: { frequency: 'weekly'|'biweekly'|'monthly', occurrences?: 2..52 },
+ *   resolutions?: [{ index, action: 'skip' } | { index, action: 'move', startTime, endTime }]
  * }
+ * Leave out `occurrences` for an open-ended series. The series belongs to
+ * the signed-in customer and is priced from the service; `base.paymentMethodId`
+ * must be one of their saved cards and `base.paymentIntentId` their payment
+ * for the first occurrence, which stays pending until that payment succeeds.
  */
 export const createRecurringSeries = asyncHandler(async (req: Request, res: Response) => {
-  const { base, recurrence } = req.body as {
-    base: any;
-    recurrence: { frequency: 'weekly' | 'biweekly' | 'monthly'; occurrences: number };
-  };
-
-  if (!base?.vendorServiceId || !base?.appointmentDate || !base?.startTime || !base?.endTime) {
-    throw new AppError('Base appointment fields are required', 400);
-  }
-  if (
-    !recurrence?.frequency ||
-    !['weekly', 'biweekly', 'monthly'].includes(recurrence.frequency)
-  ) {
-    throw new AppError('recurrence.frequency must be weekly|biweekly|monthly', 400);
-  }
-  if (
-    !recurrence.occurrences ||
-    recurrence.occurrences < 2 ||
-    recurrence.occurrences > 52
-  ) {
-    throw new AppError('recurrence.occurrences must be between 2 and 52', 400);
+  const { base, recurrence, resolutions } = req.body;
+  const result = await createSeries(req.user!._id, base, recurrence, resolutions);
+  if (result.status === 'conflicts') {
+    return conflictResponse(
+      res,
+      'One or more dates in the series are unavailable — skip or move each to continue',
+      result.conflicts,
+    );
   }
 
-  const seriesId = new mongoose.Types.ObjectId();
-  const firstDate = new Date(base.appointmentDate);
+  const { series, appointments } = result;
+  res.status(201).json({
+    success: true,
+    data: {
+      seriesId: series._id,
+      occurrences: appointments,
+      firstAppointmentId: appointments[0]._id,
+      totalOccurrences: series.occurrences,
+      conflicts: series.conflicts,
+    },
+  });
+});
 
-  // Pre-generate every occurrence date + check for collisions before writing anything
-  const plannedDates: Date[] = [];
-  for (let i = 0; i < recurrence.occurrences; i++) {
-    plannedDates.push(i === 0 ? firstDate : advanceDate(firstDate, recurrence.frequency, i));
-  }
+/**
+ * GET /customer/appointments/recurring/:seriesId
+ */
+export const getRecurringSeries = asyncHandler(async (req: Request, res: Response) => {
+  const data = await getSeries(req.params.seriesId, req.user!._id);
+  res.status(200).json({ success: true, data });
+});
 
-  const collisionQuery: any = {
-    vendorServiceId: new mongoose.Types.ObjectId(base.vendorServiceId),
-    startTime: base.startTime,
-    endTime: base.endTime,
-    status: { $nin: ['cancelled', 'rejected'] },
-    appointmentDate: { $in: plannedDates },
-  };
-  if (base.staffId) {
-    collisionQuery.$or = [
-      { staffId: new mongoose.Types.ObjectId(base.staffId) },
-      { staffId: null },
-    ];
-  }
-  const conflicts = await Appointment.find(collisionQuery).select('appointmentDate').lean();
+/**
+ * PATCH /customer/appointments/recurring/occurrences/:appointmentId
+ * Body: { scope: 'this'|'following', appointmentDate?, startTime?, endTime?,
+ *         customerNotes?, servicePlace?, customerAddress?, note?, resolutions? }
+ * 'this' reschedules one occurrence; 'following' changes the time and
+ * details of this and every later occurrence.
+ */
+export const editRecurringOccurrence = asyncHandler(async (req: Request, res: Response) => {
+  const { appointmentId } = req.params;
+  const { scope } = req.body;
 
-  if (conflicts.length > 0) {
-    return res.status(409).json({
-      success: false,
-      message: 'One or more dates in the series are already booked',
-      conflictingDates: conflicts.map((c) => c.appointmentDate),
+  if (scope === 'this') {
+    const { appointment, reschedule } = await editOccurrence(
+      appointmentId,
+      req.user!._id,
+      req.body,
+    );
+    return res.status(200).json({
+      success: true,
+      message:
+        reschedule?.status === 'pending'
+          ? 'Reschedule request sent to the provider'
+          : 'Occurrence updated',
+      data: { appointment, rescheduleRequest: reschedule?.request || null },
     });
   }
+  if (scope !== 'following') throw new AppError("scope must be 'this' or 'following'", 400);
 
-  // Build the array of appointment docs. Only the first one carries the
-  // payment intent (client pre-created it). The rest are payment-pending.
-  const docs = plannedDates.map((date, i) => {
-    const doc: any = {
-      ...base,
-      appointmentDate: date,
-      recurrenceSeriesId: seriesId,
-      status: i === 0 ? base.status || 'confirmed' : 'pending',
-    };
-    if (i === 0) {
-      doc.recurrencePattern = {
-        frequency: recurrence.frequency,
-        occurrences: recurrence.occurrences,
-      };
-    } else {
-      // Later occurrences: strip the first-instance-only payment fields
-      delete doc.paymentIntentId;
-      delete doc.stripePaymentIntentId;
-      delete doc.idempotencyKey;
-      doc.paymentStatus = 'pending';
-    }
-    return doc;
+  const result = await editFollowingOccurrences(appointmentId, req.user!._id, req.body);
+  if (result.status === 'conflicts') {
+    return conflictResponse(
+      res,
+      'The new time is unavailable for some occurrences — skip or move each to continue',
+      result.conflicts,
+    );
+  }
+  res.status(200).json({
+    success: true,
+    message: 'Series updated',
+    data: { updated: result.updated, unchanged: result.unchanged },
   });
+});
 
-  const created = await Appointment.insertMany(docs);
-
-  logger.info(
-    `[Recurring] Created series ${seriesId} — ${created.length} occurrences (${recurrence.frequency})`,
-  );
+/**
+ * POST /customer/appointments/recurring/:seriesId/conflicts/:index
+ * Body: { action: 'skip' } | { action: 'move', startTime, endTime }
+ */
+export const resolveRecurringConflict = asyncHandler(async (req: Request, res: Response) => {
+  const index = Number(req.params.index);
+  if (!Number.isInteger(index) || index < 0) throw new AppError('Invalid occurrence index', 400);
 
-  res.status(201).json({
+  const result = await resolveSeriesConflict(req.params.seriesId, req.user!._id, index, req.body);
+  if (result.status === 'conflict') {
+    return conflictResponse(res, 'This time is unavailable too', [result.conflict]);
+  }
+  res.status(200).json({
     success: true,
     data: {
-      seriesId,
-      occurrences: created,
-      firstAppointmentId: created[0]._id,
-      totalOccurrences: created.length,
+      status: result.status,
+      appointment: result.status === 'booked' ? result.appointment : null,
     },
   });
 });
 
 /**
  * DELETE /customer/appointments/recurring/:seriesId
- * Cancels every future occurrence in the series. Past occurrences are
- * left as-is. Body: { reason? }
+ * Stops the series and cancels every future unpaid occurrence in it. Past
+ * occurrences are left as-is; paid ones are cancelled one at a time under
+ * the cancellation policy so they are refunded. Body: { reason? }
  */
 export const cancelRecurringSeries = asyncHandler(async (req: Request, res: Response) => {
   const { seriesId } = req.params;
   const { reason } = req.body as { reason?: string };
   const now = new Date();
 
-  const result = await Appointment.updateMany(
-    {
-      recurrenceSeriesId: seriesId,
-      appointmentDate: { $gte: now },
-      status: { $nin: ['cancelled', 'rejected', 'completed'] },
-    },
-    {
-      $set: {
-        status: 'cancelled',
-        cancellationReason: reason || 'Series cancelled by customer',
-        cancelledAt: now,
-      },
-    },
+  await cancelSeries(seriesId, req.user!._id);
+
+  const cancellable = await Appointment.find({
+    recurrenceSeriesId: seriesId,
+    customerId: req.user!._id,
+    appointmentDate: { $gte: now },
+    status: { $in: ['pending', 'confirmed'] },
+  })
+    .select('status paymentStatus')
+    .lean();
+  const paid = cancellable.filter(isPaid);
+
+  const cancelled = await changeAppointmentStatuses(
+    cancellable.filter((apt) => !isPaid(apt)),
+    'cancelled',
+    { actor: 'customer', reason },
+    { cancellationReason: reason || 'Series cancelled by customer' },
   );
 
   res.status(200).json({
     success: true,
     data: {
-      cancelledCount: result.modifiedCount,
+      cancelledCount: cancelled.length,
+      paidOccurrenceIds: paid.map((apt) => apt._id),
       seriesId,
     },
   });
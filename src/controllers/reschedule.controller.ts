@@ -0,0 +1,144 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import RescheduleRequest, { OPEN_RESCHEDULE_STATUSES } from '../models/reschedule-request.model';
+import Vendor from '../models/vendor.model';
+import {
+  acceptRescheduleRequest,
+  counterRescheduleRequest,
+  declineRescheduleRequest,
+  loadReschedulePolicy,
+} from '../services/reschedule.service';
+import {
+  DEFAULT_RESCHEDULE_POLICY,
+  MAX_COUNTER_PROPOSALS,
+  resolveReschedulePolicy,
+  validateReschedulePolicy,
+} from '../utils/reschedule.util';
+
+/**
+ * Rescheduling endpoints for vendors.
+ *
+ *   GET  /vendor/reschedule-policy                     — own policy (defaults filled in)
+ *   PUT  /vendor/reschedule-policy                     — notice window, limit, approval
+ *   GET  /vendor/reschedule-requests                   — requests (?status=open|pending|…)
+ *   POST /vendor/reschedule-requests/:id/accept        — move the appointment
+ *   POST /vendor/reschedule-requests/:id/decline       — keep the current time
+ *   POST /vendor/reschedule-requests/:id/counter       — suggest other times
+ *
+ * Customers ask, answer counter-proposals and withdraw through the
+ * appointment operations endpoint (`reschedule-appointment`,
+ * `respond-reschedule-proposal`, `withdraw-reschedule-request`).
+ */
+
+const requireVendorId = (req: Request): string => {
+  const vendorId = (req as any).vendorId;
+  if (!vendorId) throw new AppError('Vendor session required', 401);
+  return vendorId;
+};
+
+/** GET /vendor/reschedule-policy */
+export const getReschedulePolicy = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  res.status(200).json({
+    success: true,
+    data: await loadReschedulePolicy(vendorId),
+    defaults: DEFAULT_RESCHEDULE_POLICY,
+  });
+});
+
+/**
+ * PUT /vendor/reschedule-policy
+ * Body: { minNoticeHours?, maxReschedules?, requireApproval? } — omitted fields keep their value
+ */
+export const updateReschedulePolicy = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const error = validateReschedulePolicy(req.body);
+  if (error) throw new AppError(error, 400);
+
+  const policy = resolveReschedulePolicy({
+    ...(await loadReschedulePolicy(vendorId)),
+    ...req.body,
+  });
+  await Vendor.updateOne({ _id: vendorId }, { $set: { reschedulePolicy: policy } });
+
+  res.status(200).json({ success: true, data: policy });
+});
+
+/**
+ * GET /vendor/reschedule-requests
+ * Query: status (`open` = waiting on anyone, or a single status), page, limit
+ */
+export const listRescheduleRequests = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+  const status = req.query.status as string | undefined;
+
+  const filter: Record<string, any> = { vendorId };
+  if (status === 'open') filter.status = { $in: OPEN_RESCHEDULE_STATUSES };
+  else if (status) filter.status = status;
+
+  const [requests, total] = await Promise.all([
+    RescheduleRequest.find(filter)
+      .populate('customerId', 'firstName lastName email')
+      .populate({
+        path: 'appointmentId',
+        select: 'vendorServiceId staffId status',
+        populate: { path: 'vendorServiceId', select: 'name serviceId' },
+      })
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    RescheduleRequest.countDocuments(filter),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    data: requests,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+  });
+});
+
+/** POST /vendor/reschedule-requests/:id/accept — Body: { note? } */
+export const acceptReschedule = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const { request, appointment } = await acceptRescheduleRequest(
+    req.params.id,
+    vendorId,
+    req.body.note,
+  );
+  res.status(200).json({
+    success: true,
+    message: 'Appointment rescheduled',
+    data: request,
+    appointment,
+  });
+});
+
+/** POST /vendor/reschedule-requests/:id/decline — Body: { note? } */
+export const declineReschedule = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const request = await declineRescheduleRequest(req.params.id, vendorId, req.body.note);
+  res.status(200).json({ success: true, message: 'Reschedule request declined', data: request });
+});
+
+/**
+ * POST /vendor/reschedule-requests/:id/counter
+ * Body: { proposals: [{ appointmentDate, startTime, endTime }], note? } — up to MAX_COUNTER_PROPOSALS
+ */
+export const counterReschedule = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = requireVendorId(req);
+  const request = await counterRescheduleRequest(
+    req.params.id,
+    vendorId,
+    req.body.proposals,
+    req.body.note,
+  );
+  res.status(200).json({
+    success: true,
+    message: `Suggested ${request.proposals.length} of up to ${MAX_COUNTER_PROPOSALS} times`,
+    data: request,
+  });
+});
@@ -2,6 +2,7 @@ import type { Request, Response } from 'express';
 import SlotLock, { ISlotLockDocument } from '../models/slot-lock.model';
 import Appointment from '../models/appointment.model';
 import { asyncHandler } from '../utils/asyncHandler.util';
+import { checkBookingRules } from '../services/booking-rules.service';
 import mongoose from 'mongoose';
 
 // Lock duration in minutes
@@ -29,6 +30,17 @@ export const lockSlot = asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
+  // Buffer time, minimum notice and booking horizon
+  const ruleError = await checkBookingRules({
+    vendorServiceId,
+    appointmentDate: date,
+    startTime: fromTime,
+    endTime: toTime,
+  });
+  if (ruleError) {
+    return res.status(400).json({ success: false, message: ruleError });
+  }
+
   const slotDate = new Date(date);
   const vendorServiceObjectId = new mongoose.Types.ObjectId(vendorServiceId);
   const userObjectId = new mongoose.Types.ObjectId(userId);
@@ -3,9 +3,15 @@ import mongoose from 'mongoose';
 import moment from 'moment';
 
 import VendorService from '../models/vendor-service.model';
-import VendorServiceSlot from '../models/vendor-service-slot.model';
 import { asyncHandler } from '../utils/asyncHandler.util';
 import { getServiceSlots } from './../services/get-slots.service';
+import { loadSlotConstraints } from './../services/booking-rules.service';
+import { loadAvailabilityForServices } from './../services/availability.service';
+import { loadBlockedWindowsByVendor } from './../services/block-time.service';
+import { isDateFullyBlocked } from './../utils/block-time.util';
+import { getVendorServiceTimezone } from './../utils/vendor.util';
+import { resolveTimezone } from './../utils/timezone.util';
+import type { SlotStaff } from './../interfaces/common.interface';
 
 interface TimeSlot {
   start_time: string;
@@ -13,6 +19,10 @@ interface TimeSlot {
   availableSlots: number;
   vendorServiceId: string;
   index: number;
+  timezone?: string;
+  start_utc?: string;
+  end_utc?: string;
+  staff?: SlotStaff[];
 }
 
 interface GroupedTimeSlot {
@@ -20,6 +30,9 @@ interface GroupedTimeSlot {
   end_time: string;
   availableSlots: number;
   vendorServiceIds: string[];
+  timezone?: string;
+  start_utc?: string;
+  end_utc?: string;
 }
 
 const groupTimeSlots = (timeSlots: TimeSlot[][]): GroupedTimeSlot[] => {
@@ -30,7 +43,8 @@ const groupTimeSlots = (timeSlots: TimeSlot[][]): GroupedTimeSlot[] => {
   const timeSlotMap = new Map<string, GroupedTimeSlot>();
 
   flattenedSlots.forEach((slot) => {
-    const key = `${slot.start_time}-${slot.end_time}`;
+    // Key on the real instant so 09:00 in Chicago and 09:00 in New York stay distinct
+    const key = `${slot.start_utc || slot.start_time}-${slot.end_utc || slot.end_time}`;
 
     if (timeSlotMap.has(key)) {
       const existingSlot = timeSlotMap.get(key)!;
@@ -44,6 +58,9 @@ const groupTimeSlots = (timeSlots: TimeSlot[][]): GroupedTimeSlot[] => {
         end_time: slot.end_time,
         availableSlots: slot.availableSlots,
         vendorServiceIds: [slot.vendorServiceId.toString()],
+        timezone: slot.timezone,
+        start_utc: slot.start_utc,
+        end_utc: slot.end_utc,
       });
     }
   });
@@ -67,47 +84,34 @@ export const getServiceSlotsByDate = asyncHandler(async (req: Request, res: Resp
     let serviceSlotsByDate: any = [];
     const appointments: any = [];
 
-    // Step 2: Process each vendor service
+    // Step 2: Availability for the date (weekly templates expanded, per-date
+    // slot entries taking precedence) for every vendor service at once
+    const day = new Date(dt);
+    const availability = await loadAvailabilityForServices(
+      vendorServices.map((vs) => vs._id),
+      day,
+      day,
+    );
+
+    // Step 3: Process each vendor service that opens that day in the vendor's
+    // own timezone, narrowed by free staff, block times and booking rules
     for (const vendorService of vendorServices) {
-      // Step 3: For each vendor service, find matching slots
-      // This replaces the $lookup with let
-      const slots = await VendorServiceSlot.aggregate([
-        // Match slots for this vendor service
-        {
-          $match: {
-            vendorServiceId: vendorService._id,
-          },
-        },
-        // Unwind dates array to match specific date
-        {
-          $unwind: '$dates',
-        },
-        // Match the specific date
-        {
-          $match: {
-            'dates.date': new Date(dt),
-          },
-        },
-        // Add duration field from vendor service
-        {
-          $addFields: {
-            duration: vendorService.duration,
-          },
-        },
-      ]);
-
-      // Step 4: Process the slots (similar to your original code)
-      if (slots.length > 0) {
-        slots.forEach((slot: any) => {
-          const slots = getServiceSlots(
-            slot.dates,
-            slot.duration,
-            appointments,
-            slot.vendorServiceId,
-          );
-          serviceSlotsByDate.push(slots);
-        });
-      }
+      const vendorServiceId = vendorService._id.toString();
+      const [dateDetails] = availability.get(vendorServiceId) || [];
+      if (!dateDetails) continue;
+
+      const timezone = await getVendorServiceTimezone(vendorServiceId);
+      const constraints = await loadSlotConstraints(vendorServiceId, day, day);
+      serviceSlotsByDate.push(
+        getServiceSlots(
+          dateDetails,
+          vendorService.duration,
+          appointments,
+          vendorServiceId,
+          timezone,
+          constraints,
+        ),
+      );
     }
 
     // Group and return results (unchanged)
@@ -159,43 +163,39 @@ export const getNearbyAvailableDates = asyncHandler(async (req: Request, res: Re
     const searchStart = moment.max(today, moment(targetDate).subtract(1, 'day'));
     const searchEnd = moment(targetDate).add(60, 'days');
 
-    // Step 3: Build month/year conditions covering the search range
-    const monthYearConditions = [];
-    const cursor = moment(searchStart).startOf('month');
-    while (cursor.isSameOrBefore(searchEnd)) {
-      monthYearConditions.push({
-        month: cursor.month() + 1,
-        year: cursor.year(),
-      });
-      cursor.add(1, 'month');
-    }
-
-    // Step 4: Query VendorServiceSlot for all vendor services in the range
-    const allSlotDocs = await VendorServiceSlot.find({
-      vendorServiceId: { $in: vendorServiceIds },
-      $or: monthYearConditions,
-    }).lean();
-
-    // Step 5: Collect unique dates that have timing entries
+    // Step 3: Expand every vendor service's availability across the range
+    const availability = await loadAvailabilityForServices(
+      vendorServiceIds,
+      searchStart.toDate(),
+      searchEnd.toDate(),
+    );
+
+    // Step 4: Collect unique dates that have timing entries not covered by
+    // the vendor's block times
+    const blockedByVendor = await loadBlockedWindowsByVendor(
+      vendorServices.map((vs) => vs.vendorId),
+      searchStart.toDate(),
+      searchEnd.toDate(),
+    );
+    const vendorOf = new Map(vendorServices.map((vs) => [String(vs._id), String(vs.vendorId)]));
     const datesWithSlots = new Set<string>();
 
-    for (const slotDoc of allSlotDocs) {
-      for (const dateDetails of (slotDoc as any).dates) {
-        const dateObj = moment(dateDetails.date).startOf('day');
+    for (const [vendorServiceId, dates] of availability) {
+      const blocked = blockedByVendor.get(vendorOf.get(vendorServiceId) || '');
+      for (const dateDetails of dates) {
+        const dateObj = moment.utc(dateDetails.date).startOf('day');
+        const dateStr = dateObj.format('YYYY-MM-DD');
         if (
-          dateObj.isSameOrAfter(searchStart) &&
-          dateObj.isSameOrBefore(searchEnd) &&
           dateObj.isSameOrAfter(today) &&
-          !dateObj.isSame(targetDate, 'day') &&
-          dateDetails.timings &&
-          dateDetails.timings.length > 0
+          dateStr !== targetDate.format('YYYY-MM-DD') &&
+          !isDateFullyBlocked(blocked, dateStr, dateDetails.timings)
         ) {
-          datesWithSlots.add(dateObj.format('YYYY-MM-DD'));
+          datesWithSlots.add(dateStr);
         }
       }
     }
 
-    // Step 6: Sort, pick 1 before + fill after to reach totalNeeded
+    // Step 5: Sort, pick 1 before + fill after to reach totalNeeded
     const sortedDates = Array.from(datesWithSlots).sort();
 
     // Skip "before date" when targetDate is today or within 1 day of today
@@ -247,7 +247,7 @@ export const getVendorServicesWithSlots = asyncHandler(async (req: Request, res:
       .select(
         'name image price duration rating totalReviews vendorId shortDescription shortDescriptionType servicePlace',
       )
-      .populate('vendorId', 'vendorName rating reviewCount logo')
+      .populate('vendorId', 'vendorName rating reviewCount logo timezone')
       .lean();
 
     if (vendorServices.length === 0) {
@@ -255,29 +255,33 @@ export const getVendorServicesWithSlots = asyncHandler(async (req: Request, res:
       return;
     }
 
+    // Availability for the date: weekly templates expanded, per-date slot
+    // entries taking precedence
+    const day = new Date(dt);
+    const availability = await loadAvailabilityForServices(
+      vendorServices.map((vs: any) => vs._id),
+      day,
+      day,
+    );
     const results: any[] = [];
 
     for (const vs of vendorServices) {
-      const slotDocs = await VendorServiceSlot.aggregate([
-        { $match: { vendorServiceId: (vs as any)._id } },
-        { $unwind: '$dates' },
-        { $match: { 'dates.date': new Date(dt) } },
-        { $addFields: { duration: (vs as any).duration } },
-      ]);
-
-      let vendorSlots: any[] = [];
+      const vendorServiceId = String((vs as any)._id);
       const appointments: any = [];
+      const timezone = resolveTimezone((vs as any).vendorId?.timezone);
+      const [dateDetails] = availability.get(vendorServiceId) || [];
 
-      if (slotDocs.length > 0) {
-        slotDocs.forEach((slotDoc: any) => {
-          const computed = getServiceSlots(
-            slotDoc.dates,
-            slotDoc.duration,
-            appointments,
-            (slotDoc.vendorServiceId || '').toString(),
-          );
-          vendorSlots = vendorSlots.concat(computed);
-        });
+      let vendorSlots: any[] = [];
+      if (dateDetails) {
+        const constraints = await loadSlotConstraints(vendorServiceId, day, day);
+        vendorSlots = getServiceSlots(
+          dateDetails,
+          (vs as any).duration,
+          appointments,
+          vendorServiceId,
+          timezone,
+          constraints,
+        );
       }
 
       // Only include vendor services that have available slots
@@ -296,10 +300,16 @@ export const getVendorServicesWithSlots = asyncHandler(async (req: Request, res:
             servicePlace: (vs as any).servicePlace,
             vendorId: (vs as any).vendorId,
           },
+          timezone,
           slots: vendorSlots.map((s: any) => ({
             start_time: s.start_time,
             end_time: s.end_time,
             availableSlots: s.availableSlots,
+            start_local: s.start_local,
+            end_local: s.end_local,
+            start_utc: s.start_utc,
+            end_utc: s.end_utc,
+            staff: s.staff,
           })),
         });
       }
@@ -0,0 +1,35 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import { getSmsProvider } from '../services/sms-providers.service';
+import { handleInboundSms } from '../services/sms.service';
+
+/**
+ * SMS provider webhooks.
+ *
+ *   POST /sms/inbound — inbound texts (STOP / START / HELP keywords)
+ *
+ * Point the provider's inbound-message webhook here. The request is
+ * verified by the active provider (Twilio signature, or the shared secret
+ * for the log provider).
+ */
+
+/** POST /sms/inbound */
+export const receiveInboundSms = asyncHandler(async (req: Request, res: Response) => {
+  const provider = getSmsProvider();
+  const base = process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+
+  const verified = provider.verifyInbound({
+    url: `${base}${req.originalUrl}`,
+    headers: req.headers,
+    body: req.body || {},
+  });
+  if (!verified) throw new AppError('Invalid webhook signature', 403);
+
+  const inbound = provider.parseInbound(req.body || {});
+  if (!inbound) throw new AppError('Unrecognized inbound message', 400);
+
+  const result = await handleInboundSms(inbound, provider.name);
+  const reply = provider.inboundReply(result.reply);
+  res.status(200).type(reply.contentType).send(reply.body);
+});
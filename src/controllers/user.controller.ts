@@ -5,6 +5,7 @@ import { AppError } from '../utils/appError.util';
 import { asyncHandler } from '../utils/asyncHandler.util';
 import crypto from 'crypto';
 import { sendActivationEmail } from '../services/email.service';
+import { isValidLanguageTag } from '../utils/email-template.util';
 import { signToken, verifyToken, setTokenCookie } from '../utils/jwt.util';
 
 export const signupUser = asyncHandler(async (req: Request, res: Response) => {
@@ -20,6 +21,13 @@ export const signupUser = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError('User already exists', 400);
   }
 
+  // Explicit choice first, then the browser's
+  const language = isValidLanguageTag(req.body.language)
+    ? req.body.language
+    : req.acceptsLanguages()[0] !== '*'
+      ? req.acceptsLanguages()[0]
+      : null;
+
   const activationToken = crypto.randomBytes(20).toString('hex');
   const user = await User.create({
     firstName,
@@ -30,11 +38,12 @@ export const signupUser = asyncHandler(async (req: Request, res: Response) => {
     role,
     activationToken,
     isActive: false,
+    language,
   });
 
   // Send activation email
   try {
-    await sendActivationEmail(email, activationToken);
+    await sendActivationEmail(email, activationToken, user.language);
   } catch (emailError) {
     // Log email error but don't fail the signup
     console.error('Failed to send activation email:', emailError);
@@ -147,6 +156,12 @@ export const updateUserProfile = asyncHandler(async (req: Request, res: Response
   if (req.body.password) {
     user.password = req.body.password;
   }
+  if (req.body.language !== undefined) {
+    if (req.body.language !== null && !isValidLanguageTag(req.body.language)) {
+      throw new AppError('language must be a language tag such as "en" or "es-MX"', 400);
+    }
+    user.language = req.body.language;
+  }
 
   const updatedUser = await user.save();
 
@@ -265,7 +280,7 @@ export const getClerkUser = asyncHandler(async (req: Request, res: Response) =>
 
 export const updateClerkUser = asyncHandler(async (req: Request, res: Response) => {
   const { clerkId } = req.params;
-  const { email, firstName, lastName, imageUrl } = req.body;
+  const { email, firstName, lastName, imageUrl, language } = req.body;
 
   const user = await User.findOne({ clerkId });
 
@@ -277,6 +292,7 @@ export const updateClerkUser = asyncHandler(async (req: Request, res: Response)
   if (email) user.email = email;
   if (firstName) user.firstName = firstName;
   if (lastName) user.lastName = lastName;
+  if (isValidLanguageTag(language)) user.language = language;
   user.lastSyncedAt = new Date();
 
   await user.save();
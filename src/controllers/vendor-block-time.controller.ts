@@ -5,6 +5,25 @@ import VendorBlockTime from '../models/vendor-block-time.model';
 import Appointment from '../models/appointment.model';
 import VendorService from '../models/vendor-service.model';
 import { getVendorServiceIds } from '../utils/vendor.util';
+import {
+  cancelBlockConflicts,
+  findBlockConflicts,
+  rescheduleBlockConflicts,
+} from '../services/block-time.service';
+
+const findVendorBlock = async (vendorId: string, id: string) => {
+  const block = await VendorBlockTime.findOne({ _id: id, vendorId });
+  if (!block) throw new AppError('Block-time entry not found', 404);
+  return block;
+};
+
+// Imported busy time is rewritten on every sync, so edits would not stick
+const assertManualBlock = async (vendorId: string, id: string) => {
+  const block = await findVendorBlock(vendorId, id);
+  if (block.source === 'external') {
+    throw new AppError('This block comes from a connected calendar. Change it there.', 409);
+  }
+};
 
 /** GET /api/v1/vendor/block-times?from=YYYY-MM-DD&to=YYYY-MM-DD */
 export const listBlockTimes = asyncHandler(async (req: Request, res: Response) => {
@@ -22,10 +41,24 @@ export const listBlockTimes = asyncHandler(async (req: Request, res: Response) =
   res.status(200).json({ success: true, data: blocks });
 });
 
-/** POST /api/v1/vendor/block-times */
+/**
+ * POST /api/v1/vendor/block-times
+ * Responds with the appointments the block now clashes with. Pass
+ * `conflictAction: 'cancel'` to cancel and refund them straight away.
+ */
 export const createBlockTime = asyncHandler(async (req: Request, res: Response) => {
   const vendorId = req.vendorId!;
-  const { fromDate, toDate, allDay = true, fromTime, toTime, reason, notes } = req.body;
+  const {
+    fromDate,
+    toDate,
+    allDay = true,
+    fromTime,
+    toTime,
+    reason,
+    notes,
+    conflictAction,
+    conflictMessage,
+  } = req.body;
 
   if (!fromDate || !toDate) {
     throw new AppError('fromDate and toDate are required', 400);
@@ -33,6 +66,9 @@ export const createBlockTime = asyncHandler(async (req: Request, res: Response)
   if (!allDay && (!fromTime || !toTime)) {
     throw new AppError('fromTime and toTime are required when allDay is false', 400);
   }
+  if (new Date(fromDate) > new Date(toDate)) {
+    throw new AppError('fromDate must be on or before toDate', 400);
+  }
 
   const block = await VendorBlockTime.create({
     vendorId,
@@ -45,7 +81,13 @@ export const createBlockTime = asyncHandler(async (req: Request, res: Response)
     notes,
   });
 
-  res.status(201).json({ success: true, data: block });
+  const conflicts = await findBlockConflicts(vendorId, block);
+  const resolutions =
+    conflictAction === 'cancel' && conflicts.length > 0
+      ? await cancelBlockConflicts(vendorId, block, undefined, conflictMessage)
+      : undefined;
+
+  res.status(201).json({ success: true, data: block, conflicts, resolutions });
 });
 
 /** PUT /api/v1/vendor/block-times/:id */
@@ -57,21 +99,73 @@ export const updateBlockTime = asyncHandler(async (req: Request, res: Response)
     if (req.body[key] !== undefined) updates[key] = req.body[key];
   }
 
+  await assertManualBlock(vendorId, req.params.id);
   const block = await VendorBlockTime.findOneAndUpdate({ _id: req.params.id, vendorId }, updates, {
     new: true,
   });
   if (!block) throw new AppError('Block-time entry not found', 404);
-  res.status(200).json({ success: true, data: block });
+
+  const conflicts = await findBlockConflicts(vendorId, block);
+  res.status(200).json({ success: true, data: block, conflicts });
 });
 
 /** DELETE /api/v1/vendor/block-times/:id */
 export const deleteBlockTime = asyncHandler(async (req: Request, res: Response) => {
   const vendorId = req.vendorId!;
+  await assertManualBlock(vendorId, req.params.id);
   const block = await VendorBlockTime.findOneAndDelete({ _id: req.params.id, vendorId });
   if (!block) throw new AppError('Block-time entry not found', 404);
   res.status(200).json({ success: true, message: 'Block-time removed' });
 });
 
+/** GET /api/v1/vendor/block-times/:id/conflicts */
+export const getBlockTimeConflicts = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const block = await findVendorBlock(vendorId, req.params.id);
+  const conflicts = await findBlockConflicts(vendorId, block);
+  res.status(200).json({ success: true, data: conflicts });
+});
+
+/**
+ * POST /api/v1/vendor/block-times/:id/conflicts/cancel
+ * Body: { appointmentIds?: string[], message?: string } — all conflicts when omitted.
+ */
+export const cancelBlockTimeConflicts = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const { appointmentIds, message } = req.body;
+  if (appointmentIds !== undefined && !Array.isArray(appointmentIds)) {
+    throw new AppError('appointmentIds must be an array', 400);
+  }
+
+  const block = await findVendorBlock(vendorId, req.params.id);
+  const results = await cancelBlockConflicts(vendorId, block, appointmentIds, message);
+  res.status(200).json({
+    success: true,
+    message: `${results.filter((r) => r.status === 'cancelled').length} appointment(s) cancelled`,
+    data: results,
+  });
+});
+
+/**
+ * POST /api/v1/vendor/block-times/:id/conflicts/reschedule
+ * Body: { moves: [{ appointmentId, appointmentDate, startTime, endTime }], message?: string }
+ */
+export const rescheduleBlockTimeConflicts = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const { moves, message } = req.body;
+  if (!Array.isArray(moves) || moves.length === 0) {
+    throw new AppError('moves must be a non-empty array', 400);
+  }
+
+  const block = await findVendorBlock(vendorId, req.params.id);
+  const results = await rescheduleBlockConflicts(vendorId, block, moves, message);
+  res.status(200).json({
+    success: true,
+    message: `${results.filter((r) => r.status === 'rescheduled').length} appointment(s) rescheduled`,
+    data: results,
+  });
+});
+
 /**
  * GET /api/v1/vendor/customers/:customerId/history
  * Returns this customer's appointment history with the authenticated vendor,
@@ -5,14 +5,28 @@ import { AppError } from '../utils/appError.util';
 import Vendor from '../models/vendor.model';
 import VendorService from '../models/vendor-service.model';
 import VendorServiceSlot from '../models/vendor-service-slot.model';
+import AvailabilityTemplate from '../models/availability-template.model';
 import Appointment from '../models/appointment.model';
 import User from '../models/user.model';
 import Review from '../models/review.model';
 import Category from '../models/category.model';
 import SubCategory from '../models/sub-category.model';
 import Service from '../models/service.model';
-import { getVendorServiceIds } from '../utils/vendor.util';
+import { getVendorServiceIds, clearVendorTimezoneCache } from '../utils/vendor.util';
+import { isValidTimezone } from '../utils/timezone.util';
 import StripeService from '../services/stripe.service';
+import { awardPointsForAppointment } from '../services/loyalty.service';
+import { emitAppointmentEvent } from '../services/vendor-webhook.service';
+import { changeAppointmentStatus } from '../services/appointment-status.service';
+import { getAppointmentPolicy } from '../services/cancellation-policy.service';
+import { calculateNoShowFee } from '../utils/cancellation-policy.util';
+import {
+  captureBalance,
+  refundAppointmentPayment,
+  waiveBalance,
+} from '../services/deposit.service';
+import { amountPaid, paymentPartsOf, validateDepositSettings } from '../utils/deposit.util';
+import { validateBookingRules } from '../utils/booking-rules.util';
 import logger from '../config/logger';
 
 const clerkClient = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY! });
@@ -390,8 +404,10 @@ export const confirmAppointment = asyncHandler(async (req: Request, res: Respons
     throw new AppError('Only pending appointments can be confirmed', 400);
   }
 
-  appointment.status = 'confirmed';
-  await appointment.save();
+  await changeAppointmentStatus(appointment, 'confirmed', {
+    actor: 'vendor',
+    actorId: req.user?._id,
+  });
 
   res.status(200).json({
     success: true,
@@ -425,32 +441,26 @@ export const declineAppointment = asyncHandler(async (req: Request, res: Respons
   }
 
   // Vendor-initiated decline → always full refund (customer has no fault here).
-  // Only refund if customer paid via Stripe and payment completed.
+  // Only refund if customer paid via Stripe — in full or just the deposit.
   let refundResult: {
-    refundId: string;
+    refundId: string | null;
     refundStatus: string;
     refundAmount: number;
   } | null = null;
 
   if (
     appointment.paymentIntentId &&
-    appointment.paymentStatus === 'completed'
+    ['completed', 'deposit_paid'].includes(appointment.paymentStatus || '')
   ) {
     try {
-      const refund = await StripeService.refundPayment(appointment.paymentIntentId);
+      const refund = await refundAppointmentPayment(appointment);
       refundResult = {
-        refundId: refund.id,
-        refundStatus: refund.status || 'pending',
-        refundAmount: refund.amount ? refund.amount / 100 : appointment.total,
+        refundId: refund.refundId,
+        refundStatus: refund.status,
+        refundAmount: refund.amount,
       };
-      appointment.refundId = refund.id;
-      appointment.refundStatus =
-        (refund.status as 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled') ||
-        'pending';
-      appointment.refundAmount = refundResult.refundAmount;
-      appointment.paymentStatus = 'refunded';
       logger.info(
-        `Vendor declined appointment ${id} — full refund $${refundResult.refundAmount.toFixed(2)} issued (refund ${refund.id})`,
+        `Vendor declined appointment ${id} — full refund $${refundResult.refundAmount.toFixed(2)} issued (refund ${refund.refundId})`,
       );
     } catch (refundError: any) {
       // Refund failure must not block the decline itself — log and continue.
@@ -461,10 +471,16 @@ export const declineAppointment = asyncHandler(async (req: Request, res: Respons
     }
   }
 
-  appointment.status = 'cancelled';
+  waiveBalance(appointment);
   appointment.cancellationReason = reason || 'Declined by vendor';
-  appointment.cancelledAt = new Date();
-  await appointment.save();
+  await changeAppointmentStatus(appointment, 'cancelled', {
+    actor: 'vendor',
+    actorId: req.user?._id,
+    reason,
+  });
+  if (refundResult && refundResult.refundAmount > 0) {
+    await emitAppointmentEvent('appointment.refunded', appointment);
+  }
 
   res.status(200).json({
     success: true,
@@ -499,23 +515,85 @@ export const completeAppointment = asyncHandler(async (req: Request, res: Respon
     throw new AppError('Only confirmed appointments can be marked as completed', 400);
   }
 
-  appointment.status = 'completed';
-  (appointment as any).completedAt = new Date();
-  (appointment as any).statusChangedBy = 'vendor';
-  await appointment.save();
+  await changeAppointmentStatus(appointment, 'completed', {
+    actor: 'vendor',
+    actorId: req.user?._id,
+  });
+
+  // Deposit bookings: charge the balance to the saved card. A failed charge
+  // doesn't undo the completion — the vendor can retry via capture-balance.
+  const balance = await captureBalance(id);
+
+  // Loyalty accrual must not block completion
+  awardPointsForAppointment(id).catch((err) =>
+    logger.error(`[Loyalty] Failed to award points for appointment ${id}: ${err.message}`),
+  );
+
+  res.status(200).json({
+    success: true,
+    message:
+      balance.status === 'failed'
+        ? 'Appointment marked as completed, but the balance charge failed'
+        : 'Appointment marked as completed',
+    ...(balance.status !== 'skipped' ? { data: { balance } } : {}),
+  });
+});
+
+/**
+ * Charge the outstanding balance of a deposit booking now — ahead of the
+ * appointment, or to retry a failed charge.
+ */
+export const captureAppointmentBalance = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const vendorId = req.vendorId!;
+
+  const appointment = await Appointment.findById(id);
+  if (!appointment) {
+    throw new AppError('Appointment not found', 404);
+  }
+
+  const serviceIds = await getVendorServiceIds(vendorId);
+  if (!serviceIds.includes(appointment.vendorServiceId.toString())) {
+    throw new AppError('Not authorized to access this appointment', 403);
+  }
+
+  if (appointment.paymentPlan !== 'deposit') {
+    throw new AppError('This appointment was paid in full at booking', 400);
+  }
+  if (appointment.paymentStatus !== 'deposit_paid') {
+    throw new AppError('The deposit has not been paid yet', 400);
+  }
+  if (!['pending', 'failed'].includes(appointment.balanceStatus || '')) {
+    throw new AppError(`Balance is already ${appointment.balanceStatus}`, 400);
+  }
+
+  const balance = await captureBalance(id);
+  if (balance.status !== 'paid') {
+    throw new AppError(`Balance charge failed: ${balance.error || 'please try again'}`, 402);
+  }
+
+  // Completed before the balance cleared — points were held back until now
+  if (appointment.status === 'completed') {
+    awardPointsForAppointment(id).catch((err) =>
+      logger.error(`[Loyalty] Failed to award points for appointment ${id}: ${err.message}`),
+    );
+  }
 
   res.status(200).json({
     success: true,
-    message: 'Appointment marked as completed',
+    message: `Balance of $${balance.amount.toFixed(2)} charged`,
+    data: { balance },
   });
 });
 
 /**
  * Mark appointment as missed (customer no-show)
+ * Applies the no-show fee from the booking's cancellation policy unless
+ * the vendor sends `waiveFee: true`.
  */
 export const markAppointmentMissed = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { reason } = req.body;
+  const { reason, waiveFee } = req.body;
   const vendorId = req.vendorId!;
 
   if (!reason || reason.trim().length < 5) {
@@ -539,14 +617,53 @@ export const markAppointmentMissed = asyncHandler(async (req: Request, res: Resp
     throw new AppError('Only confirmed or completed appointments can be marked as missed', 400);
   }
 
-  appointment.status = 'missed';
-  (appointment as any).statusChangedBy = 'vendor';
-  (appointment as any).statusReason = reason.trim();
-  await appointment.save();
+  // No-show fee under the policy snapshotted at booking. Whatever has
+  // already been paid (in full, or the deposit) counts towards it.
+  const policy = await getAppointmentPolicy(appointment);
+  const waive = waiveFee === true;
+  const noShowFee = waive ? 0 : calculateNoShowFee(policy, appointment.total || 0);
+  const paid = ['completed', 'deposit_paid'].includes(appointment.paymentStatus || '')
+    ? amountPaid(paymentPartsOf(appointment))
+    : 0;
+  appointment.noShowFeeAmount = noShowFee;
+  waiveBalance(appointment);
+  if (waive) {
+    appointment.noShowFeeStatus = 'waived';
+  } else if (noShowFee > 0 && noShowFee <= paid) {
+    // Already covered by what was paid — it is simply not refunded
+    appointment.noShowFeeStatus = 'retained';
+  } else if (noShowFee > 0) {
+    const customer = await User.findById(appointment.customerId).select('stripeCustomerId');
+    try {
+      if (!customer?.stripeCustomerId) throw new Error('Customer has no Stripe account');
+      const charge = await StripeService.chargeSavedPaymentMethod({
+        customerId: customer.stripeCustomerId,
+        amount: Math.round((noShowFee - paid) * 100) / 100,
+        idempotencyKey: `noshow_${appointment._id}`,
+        metadata: { appointmentId: String(appointment._id), type: 'no_show_fee' },
+      });
+      appointment.noShowFeePaymentIntentId = charge.id;
+      appointment.noShowFeeStatus = charge.status === 'succeeded' ? 'charged' : 'failed';
+    } catch (err: any) {
+      logger.warn(`[NoShow] Fee charge failed for appointment ${id}: ${err.message}`);
+      appointment.noShowFeeStatus = 'failed';
+    }
+  }
+  await changeAppointmentStatus(appointment, 'missed', {
+    actor: 'vendor',
+    actorId: req.user?._id,
+    reason,
+  });
 
   res.status(200).json({
     success: true,
     message: 'Appointment marked as missed',
+    data: {
+      noShowFee: {
+        amount: noShowFee,
+        status: appointment.noShowFeeStatus || null,
+      },
+    },
   });
 });
 
@@ -579,10 +696,11 @@ export const markAppointmentFailed = asyncHandler(async (req: Request, res: Resp
     throw new AppError('Only confirmed or completed appointments can be marked as failed', 400);
   }
 
-  appointment.status = 'failed';
-  (appointment as any).statusChangedBy = 'vendor';
-  (appointment as any).statusReason = reason.trim();
-  await appointment.save();
+  await changeAppointmentStatus(appointment, 'failed', {
+    actor: 'vendor',
+    actorId: req.user?._id,
+    reason,
+  });
 
   res.status(200).json({
     success: true,
@@ -814,8 +932,13 @@ export const updateProfile = asyncHandler(async (req: Request, res: Response) =>
     'zip',
     'website',
     'socialLinks',
+    'timezone',
   ];
 
+  if (updates.timezone !== undefined && !isValidTimezone(updates.timezone)) {
+    throw new AppError('timezone must be a valid IANA zone, e.g. America/Chicago', 400);
+  }
+
   const filteredUpdates: any = {};
   for (const field of allowedFields) {
     if (updates[field] !== undefined) {
@@ -829,6 +952,10 @@ export const updateProfile = asyncHandler(async (req: Request, res: Response) =>
     throw new AppError('Vendor not found', 404);
   }
 
+  if (filteredUpdates.timezone !== undefined) {
+    clearVendorTimezoneCache();
+  }
+
   res.status(200).json({
     success: true,
     message: 'Profile updated successfully',
@@ -1195,6 +1322,8 @@ export const getVendorServiceById = asyncHandler(async (req: Request, res: Respo
       subCategory: service.subCategoryId,
       price: service.price,
       duration: service.duration,
+      deposit: service.deposit,
+      bookingRules: service.bookingRules,
       isActive: service.isActive,
       images: service.images,
     },
@@ -1206,7 +1335,26 @@ export const getVendorServiceById = asyncHandler(async (req: Request, res: Respo
  */
 export const createVendorService = asyncHandler(async (req: Request, res: Response) => {
   const vendorId = req.vendorId!;
-  const { name, description, categoryId, subCategoryId, serviceId, price, duration } = req.body;
+  const {
+    name,
+    description,
+    categoryId,
+    subCategoryId,
+    serviceId,
+    price,
+    duration,
+    deposit,
+    bookingRules,
+  } = req.body;
+
+  if (deposit !== undefined) {
+    const depositError = validateDepositSettings(deposit);
+    if (depositError) throw new AppError(depositError, 400);
+  }
+  if (bookingRules !== undefined) {
+    const rulesError = validateBookingRules(bookingRules);
+    if (rulesError) throw new AppError(rulesError, 400);
+  }
 
   // Find or create a default service if not provided
   let actualServiceId = serviceId;
@@ -1249,6 +1397,8 @@ export const createVendorService = asyncHandler(async (req: Request, res: Respon
     serviceId: actualServiceId,
     price: Number(price),
     duration: Number(duration),
+    ...(deposit !== undefined ? { deposit } : {}),
+    ...(bookingRules !== undefined ? { bookingRules } : {}),
     isActive: true,
   });
 
@@ -1260,6 +1410,8 @@ export const createVendorService = asyncHandler(async (req: Request, res: Respon
       name: vendorService.name,
       price: vendorService.price,
       duration: vendorService.duration,
+      deposit: vendorService.deposit,
+      bookingRules: vendorService.bookingRules,
     },
   });
 });
@@ -1294,6 +1446,19 @@ export const updateVendorService = asyncHandler(async (req: Request, res: Respon
   if (updates.duration) service.duration = Number(updates.duration);
   if (updates.categoryId) service.categoryId = updates.categoryId;
   if (typeof updates.isActive === 'boolean') service.isActive = updates.isActive;
+  if (updates.deposit !== undefined) {
+    // Only affects new bookings — existing ones keep the split they were booked with
+    const deposit = { ...(service.toObject().deposit || {}), ...updates.deposit };
+    const depositError = validateDepositSettings(deposit);
+    if (depositError) throw new AppError(depositError, 400);
+    service.deposit = deposit;
+  }
+  if (updates.bookingRules !== undefined) {
+    const bookingRules = { ...(service.toObject().bookingRules || {}), ...updates.bookingRules };
+    const rulesError = validateBookingRules(bookingRules);
+    if (rulesError) throw new AppError(rulesError, 400);
+    service.bookingRules = bookingRules;
+  }
 
   await service.save();
 
@@ -1327,8 +1492,9 @@ export const deleteVendorService = asyncHandler(async (req: Request, res: Respon
     throw new AppError('Cannot delete service with upcoming appointments', 400);
   }
 
-  // Delete associated slots
+  // Delete associated slots and weekly template
   await VendorServiceSlot.deleteMany({ vendorServiceId: id });
+  await AvailabilityTemplate.deleteMany({ vendorServiceId: id });
 
   // Delete the service
   await VendorService.findByIdAndDelete(id);
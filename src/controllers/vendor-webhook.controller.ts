@@ -0,0 +1,245 @@
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler.util';
+import { AppError } from '../utils/appError.util';
+import VendorWebhook from '../models/vendor-webhook.model';
+import WebhookDelivery from '../models/webhook-delivery.model';
+import { replayWebhookDelivery, sendWebhookPing } from '../services/vendor-webhook.service';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookEvent,
+  webhookUrlError,
+} from '../utils/vendor-webhook.util';
+
+/**
+ * Webhook subscriptions (vendor).
+ *
+ *   GET    /vendor/webhooks                                       — list subscriptions
+ *   POST   /vendor/webhooks                                       — subscribe; the secret is returned once
+ *   PUT    /vendor/webhooks/:id                                   — change url, events or description, pause/resume
+ *   DELETE /vendor/webhooks/:id                                   — unsubscribe
+ *   POST   /vendor/webhooks/:id/rotate-secret                     — new signing secret
+ *   POST   /vendor/webhooks/:id/test                              — send a `webhook.ping`
+ *   GET    /vendor/webhooks/:id/deliveries                        — delivery log (?status=failed)
+ *   GET    /vendor/webhooks/:id/deliveries/:deliveryId            — one delivery with its body
+ *   POST   /vendor/webhooks/:id/deliveries/:deliveryId/replay     — send it again
+ *   POST   /vendor/webhooks/:id/replay-failed                     — send every failed delivery again
+ */
+
+const MAX_WEBHOOKS_PER_VENDOR = 10;
+const MAX_BULK_REPLAY = 100;
+const DELIVERY_STATUSES = ['pending', 'retrying', 'succeeded', 'failed'];
+
+const validateEvents = (events: unknown): string | null => {
+  if (!Array.isArray(events) || events.length === 0) return 'events must be a non-empty array';
+  const unknown = events.filter((event) => !isWebhookEvent(event));
+  if (unknown.length > 0) {
+    return `Unknown events: ${unknown.join(', ')}. Must be any of: ${WEBHOOK_EVENTS.join(', ')}`;
+  }
+  return null;
+};
+
+const urlError = (url: unknown) => webhookUrlError(url, process.env.NODE_ENV === 'production');
+
+const findWebhook = async (req: Request) => {
+  const webhook = await VendorWebhook.findOne({ _id: req.params.id, vendorId: req.vendorId! });
+  if (!webhook) throw new AppError('Webhook not found', 404);
+  return webhook;
+};
+
+/** GET /vendor/webhooks */
+export const listVendorWebhooks = asyncHandler(async (req: Request, res: Response) => {
+  const webhooks = await VendorWebhook.find({ vendorId: req.vendorId! })
+    .sort({ createdAt: 1 })
+    .lean();
+  res.status(200).json({ success: true, data: webhooks, availableEvents: WEBHOOK_EVENTS });
+});
+
+/** POST /vendor/webhooks */
+export const createVendorWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const vendorId = req.vendorId!;
+  const { url, events, description } = req.body;
+
+  const validationError = urlError(url) || validateEvents(events);
+  if (validationError) throw new AppError(validationError, 400);
+
+  const count = await VendorWebhook.countDocuments({ vendorId });
+  if (count >= MAX_WEBHOOKS_PER_VENDOR) {
+    throw new AppError(`A vendor can have at most ${MAX_WEBHOOKS_PER_VENDOR} webhooks`, 400);
+  }
+
+  const secret = generateWebhookSecret();
+  const webhook = await VendorWebhook.create({
+    vendorId,
+    url,
+    events: [...new Set(events)],
+    description,
+    secret,
+  });
+  const data = await VendorWebhook.findById(webhook._id).lean();
+
+  // The only time the secret is shown; store it to verify signatures
+  res.status(201).json({ success: true, data: { ...data, secret } });
+});
+
+/** PUT /vendor/webhooks/:id */
+export const updateVendorWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  const { url, events, description, isActive } = req.body;
+
+  if (url !== undefined) {
+    const error = urlError(url);
+    if (error) throw new AppError(error, 400);
+    webhook.url = url;
+  }
+  if (events !== undefined) {
+    const error = validateEvents(events);
+    if (error) throw new AppError(error, 400);
+    webhook.events = [...new Set(events as typeof webhook.events)];
+  }
+  if (description !== undefined) webhook.description = description;
+  if (isActive !== undefined) {
+    if (typeof isActive !== 'boolean') throw new AppError('isActive must be a boolean', 400);
+    // Resuming starts the failure count over
+    if (isActive && !webhook.isActive) webhook.consecutiveFailures = 0;
+    webhook.isActive = isActive;
+  }
+  await webhook.save();
+
+  const data = await VendorWebhook.findById(webhook._id).lean();
+  res.status(200).json({ success: true, data });
+});
+
+/** DELETE /vendor/webhooks/:id */
+export const deleteVendorWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  await webhook.deleteOne();
+  res.status(200).json({ success: true, message: 'Webhook deleted' });
+});
+
+/** POST /vendor/webhooks/:id/rotate-secret */
+export const rotateVendorWebhookSecret = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  const secret = generateWebhookSecret();
+  webhook.secret = secret;
+  await webhook.save();
+  res.status(200).json({ success: true, data: { _id: webhook._id, secret } });
+});
+
+/** POST /vendor/webhooks/:id/test */
+export const testVendorWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  if (!webhook.isActive) throw new AppError('Resume the webhook before testing it', 400);
+
+  const { delivery, attempt } = await sendWebhookPing(webhook);
+  res.status(200).json({
+    success: attempt.ok,
+    data: {
+      deliveryId: delivery._id,
+      responseStatus: attempt.status,
+      error: attempt.error || null,
+    },
+  });
+});
+
+/**
+ * GET /vendor/webhooks/:id/deliveries?page=1&limit=20&status=failed
+ */
+export const listWebhookDeliveries = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+  const status = req.query.status as string | undefined;
+  if (status && !DELIVERY_STATUSES.includes(status)) {
+    throw new AppError(`status must be one of: ${DELIVERY_STATUSES.join(', ')}`, 400);
+  }
+
+  const filter: Record<string, unknown> = { webhookId: webhook._id };
+  if (status) filter.status = status;
+
+  const [deliveries, total] = await Promise.all([
+    WebhookDelivery.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .select('-payload -responseBody')
+      .lean(),
+    WebhookDelivery.countDocuments(filter),
+  ]);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    },
+  });
+});
+
+/** GET /vendor/webhooks/:id/deliveries/:deliveryId */
+export const getWebhookDelivery = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  const delivery = await WebhookDelivery.findOne({
+    _id: req.params.deliveryId,
+    webhookId: webhook._id,
+  }).lean();
+  if (!delivery) throw new AppError('Delivery not found', 404);
+
+  res.status(200).json({
+    success: true,
+    data: { ...delivery, payload: JSON.parse(delivery.payload) },
+  });
+});
+
+/** POST /vendor/webhooks/:id/deliveries/:deliveryId/replay */
+export const replayWebhookDeliveryHandler = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  if (!webhook.isActive) throw new AppError('Resume the webhook before replaying deliveries', 400);
+
+  const delivery = await WebhookDelivery.findOne({
+    _id: req.params.deliveryId,
+    webhookId: webhook._id,
+  }).select('_id');
+  if (!delivery) throw new AppError('Delivery not found', 404);
+
+  const replay = await replayWebhookDelivery(String(delivery._id));
+  res.status(202).json({ success: true, data: { deliveryId: replay?._id } });
+});
+
+/**
+ * POST /vendor/webhooks/:id/replay-failed
+ * Failed deliveries that haven't been replayed yet, oldest first.
+ */
+export const replayFailedWebhookDeliveries = asyncHandler(async (req: Request, res: Response) => {
+  const webhook = await findWebhook(req);
+  if (!webhook.isActive) {
+    throw new AppError('Resume the webhook before replaying deliveries', 400);
+  }
+
+  const failed = await WebhookDelivery.find({ webhookId: webhook._id, status: 'failed' })
+    .sort({ createdAt: 1 })
+    .select('_id')
+    .lean();
+  const replayed = new Set(
+    (
+      await WebhookDelivery.find({ replayOf: { $in: failed.map((d) => d._id) } })
+        .select('replayOf')
+        .lean()
+    ).map((d) => String(d.replayOf)),
+  );
+  const pending = failed.filter((d) => !replayed.has(String(d._id))).slice(0, MAX_BULK_REPLAY);
+
+  for (const delivery of pending) {
+    await replayWebhookDelivery(String(delivery._id));
+  }
+
+  res.status(202).json({
+    success: true,
+    data: { replayed: pending.length, remaining: failed.length - replayed.size - pending.length },
+  });
+});
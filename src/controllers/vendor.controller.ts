@@ -3,6 +3,7 @@ import { validationResult } from 'express-validator';
 import Vendor from '../models/vendor.model';
 import { AppError } from '../utils/appError.util';
 import { asyncHandler } from '../utils/asyncHandler.util';
+import { clearVendorTimezoneCache } from '../utils/vendor.util';
 
 export const createVendor = asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
@@ -40,6 +41,9 @@ export const updateVendor = asyncHandler(async (req: Request, res: Response) =>
   if (!vendor) {
     throw new AppError('Vendor not found', 404);
   }
+  if (req.body.timezone !== undefined) {
+    clearVendorTimezoneCache();
+  }
   res.json(vendor);
 });
 
@@ -5,7 +5,7 @@ import User from '../models/user.model';
 import VendorService from '../models/vendor-service.model';
 import { AppError } from '../utils/appError.util';
 import { asyncHandler } from '../utils/asyncHandler.util';
-import { sendNotificationToUser } from '../services/push-notification.service';
+import { dispatchNotification } from '../services/notification-dispatcher.service';
 import logger from '../config/logger';
 
 /**
@@ -158,21 +158,22 @@ export async function notifyWaitlistedUsers(
     // Notify each waitlisted user
     for (const entry of entries) {
       try {
-        await sendNotificationToUser({
-          userId: entry.customerId.toString(),
-          title: 'Slot Available!',
-          body: vendorName
-            ? `A slot for ${serviceName} with ${vendorName} on ${formattedDate} is now available. Book now before it fills up!`
-            : `A slot for ${serviceName} on ${formattedDate} is now available. Book now before it fills up!`,
-          type: 'appointment',
-          data: {
-            vendorServiceId,
-            preferredDate: dateStr,
-            waitlistId: entry._id.toString(),
-            action: 'waitlist_slot_available',
+        await dispatchNotification(
+          { userId: entry.customerId.toString() },
+          {
+            title: 'Slot Available!',
+            body: vendorName
+              ? `A slot for ${serviceName} with ${vendorName} on ${formattedDate} is now available. Book now before it fills up!`
+              : `A slot for ${serviceName} on ${formattedDate} is now available. Book now before it fills up!`,
+            type: 'appointment',
+            data: {
+              vendorServiceId,
+              preferredDate: dateStr,
+              waitlistId: entry._id.toString(),
+              action: 'waitlist_slot_available',
+            },
           },
-          saveToDatabase: true,
-        });
+        );
 
         // Mark entry as notified
         entry.status = 'notified';
@@ -1,3 +1,9 @@
+import type {
+  AppointmentStatus,
+  IAppointmentStatusChange,
+  StatusActor,
+} from '../utils/appointment-status.util';
+
 export interface ICardDetails {
   cardNumber: string;
   cardHolderName: string;
@@ -14,14 +20,31 @@ export interface ICustomerAddress {
   zip: string;
 }
 
+export interface IAppointmentPolicySnapshot {
+  policyId?: string | null;
+  name: string;
+  tiers: { minHoursBefore: number; refundPercent: number }[];
+  cancellationFee: number;
+  noShowFee: { type: 'fixed' | 'percentage'; value: number };
+  depositForfeiture: { enabled: boolean; type: 'fixed' | 'percentage'; value: number };
+  depositAmount: number;
+  snapshotAt: Date;
+}
+
 export interface IAppointment {
   _id: string;
   customerId: string;
   vendorServiceId: string;
+  staffId?: string | null;
+  staffAutoAssigned?: boolean;
   servicePlace: string;
   appointmentDate: Date;
   startTime: string;
   endTime: string;
+  // Vendor timezone + UTC instants for the booked window
+  timezone?: string;
+  startAt?: Date;
+  endAt?: Date;
   customerAddress: string | ICustomerAddress;
   customerNotes: string;
   serviceFee: number;
@@ -29,31 +52,81 @@ export interface IAppointment {
   promotionId?: string | null;
   couponCode?: string | null;
   walletAmount: number;
+  // Loyalty
+  loyaltyTier?: 'bronze' | 'silver' | 'gold';
+  loyaltyDiscountAmount?: number;
+  loyaltyPointsAwarded?: number;
+  loyaltyPointsClawedBack?: number;
   total: number;
   paymentMode: string;
   cardDetails: null | ICardDetails;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'missed' | 'failed';
+  status: AppointmentStatus;
   // Idempotency
   idempotencyKey?: string | null;
   // Payment fields
   paymentIntentId?: string;
-  paymentStatus?: 'pending' | 'completed' | 'refunded' | 'partially_refunded' | 'failed';
+  paymentStatus?:
+    | 'pending'
+    | 'deposit_paid'
+    | 'completed'
+    | 'refunded'
+    | 'partially_refunded'
+    | 'failed';
+  // Deposit / split payment
+  paymentPlan?: 'full' | 'deposit';
+  depositAmount?: number;
+  depositPaid?: number;
+  balanceDue?: number;
+  balancePaid?: number;
+  balanceCapture?: 'on_completion' | 'before_appointment';
+  balanceDueAt?: Date;
+  balanceStatus?: 'pending' | 'processing' | 'paid' | 'failed' | 'waived';
+  balancePaymentIntentId?: string;
+  balanceAttempts?: number;
+  balancePaidAt?: Date;
+  // Recurring series
+  recurrenceSeriesId?: string | null;
+  recurrenceIndex?: number | null;
+  occurrenceChargeStatus?: 'pending' | 'processing' | 'paid' | 'failed';
+  occurrenceChargeDueAt?: Date;
+  occurrenceChargeAttempts?: number;
+  occurrenceChargeKey?: string;
+  occurrenceChargeLockedAt?: Date;
   // Refund fields
   refundId?: string;
   refundStatus?: 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
   refundAmount?: number;
+  balanceRefundId?: string;
+  // Card dispute (chargeback) on one of the appointment's charges
+  disputeId?: string | null;
+  disputeStatus?: string | null;
+  disputeReason?: string | null;
+  disputeAmount?: number | null;
+  disputedAt?: Date | null;
   // Cancellation fields
   cancelledAt?: Date;
   cancellationReason?: string;
+  cancellationPolicy?: IAppointmentPolicySnapshot | null;
+  cancellationFeeAmount?: number;
+  depositForfeitedAmount?: number;
+  // No-show fee
+  noShowFeeAmount?: number;
+  noShowFeeStatus?: 'retained' | 'charged' | 'failed' | 'waived';
+  noShowFeePaymentIntentId?: string;
   // Completion fields
   completedAt?: Date;
-  statusChangedBy?: 'auto' | 'vendor' | 'customer' | 'admin';
+  statusChangedBy?: StatusActor;
   statusReason?: string;
+  statusHistory?: IAppointmentStatusChange[];
   // Reminder tracking fields
   reminder24hSentAt?: Date;
   reminder1hSentAt?: Date;
   reminder2hSentAt?: Date;
   reminderPostSentAt?: Date;
+  // Times the customer has moved this appointment
+  rescheduleCount?: number;
+  // iCalendar SEQUENCE, bumped on reschedule / status change
+  calendarSequence?: number;
   // Timestamps
   createdAt?: Date;
   updatedAt?: Date;
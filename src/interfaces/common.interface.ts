@@ -1,3 +1,6 @@
+import type { BlockedWindows } from '../utils/block-time.util';
+import type { BookingRules } from '../utils/booking-rules.util';
+
 export interface Appointment {
   start_time: string;
   end_time: string;
@@ -11,18 +14,57 @@ export interface Timing {
 }
 
 export interface DateDetails {
-  date: string;
+  // Calendar date — a stored UTC-midnight Date or a YYYY-MM-DD key
+  date: Date | string;
   reoccurrence: number;
   timingType: string;
   timings: Timing[];
 }
 
+export interface SlotStaff {
+  staffId: string;
+  name: string;
+}
+
+export interface StaffSchedule extends SlotStaff {
+  // Empty = follows the service's own timings
+  workingHours: { dayOfWeek: number; startTime: string; endTime: string }[];
+  // This member's bookings by vendor date key, across all the vendor's services
+  bookings: Record<string, Appointment[]>;
+}
+
+export interface StaffContext {
+  members: StaffSchedule[];
+  // Bookings made without a staff member — each still occupies one
+  unassigned: Record<string, Appointment[]>;
+}
+
+// Optional inputs that narrow the slots generated for a date
+export interface SlotConstraints {
+  // Multi-staff vendors: cap capacity by who is free and list them per slot
+  staffContext?: StaffContext;
+  // Vendor block times by date key
+  blocked?: BlockedWindows;
+  // Buffers, minimum notice and booking horizon
+  rules?: BookingRules;
+  // Reference time for notice / horizon checks
+  now?: Date;
+}
+
 export interface Slot {
   index?: number;
   start_time: string;
   end_time: string;
   availableSlots: number;
   vendorServiceId?: string;
+  // Vendor's IANA zone plus the slot bounds as real instants
+  timezone?: string;
+  start_local?: string;
+  end_local?: string;
+  start_utc?: string;
+  end_utc?: string;
+  // Staff free for this slot (multi-staff vendors only)
+  staff?: SlotStaff[];
 }
 
 export interface ServiceToMonth {
@@ -1,4 +1,14 @@
 import type { Document } from 'mongoose';
+import type { DeliveryStatus, NotificationChannel } from '../utils/notification-channels.util';
+
+export interface INotificationDelivery {
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  reason?: string;
+  error?: string;
+  providerMessageId?: string;
+  at?: Date;
+}
 
 export interface INotification extends Document {
   _id: string;
@@ -8,6 +18,7 @@ export interface INotification extends Document {
   body: string;
   data?: Record<string, string>; // Additional data (appointmentId, serviceId, url, etc.)
   read: boolean;
+  deliveries?: INotificationDelivery[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -1,5 +1,13 @@
 import type { Document } from 'mongoose';
 
+export interface IPushDevice {
+  token: string;
+  platform?: 'ios' | 'android' | 'web' | null;
+  deviceName?: string | null;
+  createdAt?: Date;
+  lastUsedAt?: Date;
+}
+
 export interface IUser extends Document {
   _id: string;
   firstName: string;
@@ -21,13 +29,28 @@ export interface IUser extends Document {
   fullName?: string; // Virtual field or computed property
 
   // Push Notification
-  expoPushToken?: string;
+  expoPushToken?: string; // Single-device token from before pushTokens
+  pushTokens?: IPushDevice[];
 
   // Stripe
   stripeCustomerId?: string;
 
   // Contact
   phone?: string;
+  timezone?: string | null; // IANA zone, for quiet hours
+  language?: string | null; // Preferred email language
+
+  // SMS consent (TCPA)
+  smsConsent?: boolean;
+  smsConsentAt?: Date | null;
+  smsConsentMethod?:
+    | 'signup_checkbox'
+    | 'profile_toggle'
+    | 'verbal'
+    | 'imported'
+    | 'sms_keyword'
+    | null;
+  smsOptedOutAt?: Date | null;
 
   // Methods
   correctPassword(candidatePassword: string, userPassword: string): Promise<boolean>;
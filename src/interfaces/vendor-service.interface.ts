@@ -1,3 +1,6 @@
+import type { DepositSettings } from '../utils/deposit.util';
+import type { BookingRules } from '../utils/booking-rules.util';
+
 interface SocialMediaLink {
   mediaName: string;
   mediaLink: string;
@@ -29,6 +32,8 @@ export interface IVendorService {
   serviceType: string;
   serviceTypeLink: string;
   isCombo: boolean;
+  deposit?: DepositSettings;
+  bookingRules?: BookingRules;
   comboServiceIds: string;
   isActive: boolean;
   isFavorite: boolean;
@@ -1,3 +1,5 @@
+import type { ReschedulePolicy } from '../utils/reschedule.util';
+
 export interface SocialMediaLink {
   mediaName: string;
   mediaLink: string;
@@ -13,6 +15,7 @@ export interface IVendor {
   zip: string;
   address: string;
   location: string;
+  timezone?: string;
   email: string;
   phone: string;
   website: string;
@@ -28,6 +31,7 @@ export interface IVendor {
   verificationStatus?: 'pending' | 'verified' | 'rejected';
   rating?: number;
   totalReviews?: number;
+  reschedulePolicy?: ReschedulePolicy;
   // Link to User record (for vendor login via Users table)
   userId?: string;
   // Timestamps
@@ -1,85 +1,21 @@
 import type { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import logger from '../config/logger';
+import { getCacheBackend } from '../config/cache';
 
-// Simple in-memory cache implementation
-interface CacheEntry {
-  data: any;
-  expiresAt: number;
-}
-
-class MemoryCache {
-  private cache: Map<string, CacheEntry> = new Map();
-  private defaultTTL = 300; // 5 minutes default
-
-  constructor() {
-    // Clean up expired entries every minute
-    setInterval(() => this.cleanup(), 60000);
-  }
-
-  set(key: string, value: any, ttlSeconds?: number): void {
-    const ttl = ttlSeconds || this.defaultTTL;
-    this.cache.set(key, {
-      data: value,
-      expiresAt: Date.now() + ttl * 1000,
-    });
-  }
-
-  get(key: string): any | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    return entry.data;
-  }
-
-  delete(key: string): boolean {
-    return this.cache.delete(key);
-  }
-
-  deleteByPattern(pattern: string): number {
-    let deleted = 0;
-    const regex = new RegExp(pattern);
-    for (const key of this.cache.keys()) {
-      if (regex.test(key)) {
-        this.cache.delete(key);
-        deleted++;
-      }
-    }
-    return deleted;
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-
-  private cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
-        this.cache.delete(key);
-      }
-    }
-  }
-
-  getStats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys()),
-    };
-  }
-}
-
-// Export singleton instance
-export const cache = new MemoryCache();
+// Shared backend: Redis when REDIS_URL is set, in-process Map otherwise
+export const cache = getCacheBackend();
 
 // Generate cache key from request
 const generateCacheKey = (req: Request, prefix?: string): string => {
   const userId = (req as any).auth?.userId || 'anonymous';
-  const baseKey = `${prefix || 'api'}:${req.method}:${req.originalUrl}`;
+  let baseKey = `${prefix || 'api'}:${req.method}:${req.originalUrl}`;
+
+  // POST list endpoints take their filters in the body
+  if (req.method !== 'GET' && req.body && Object.keys(req.body).length > 0) {
+    const bodyHash = crypto.createHash('sha1').update(JSON.stringify(req.body)).digest('hex');
+    baseKey = `${baseKey}:${bodyHash}`;
+  }
 
   // For user-specific routes, include userId in key
   if (req.originalUrl.includes('/user/') || req.originalUrl.includes('/appointments')) {
@@ -97,10 +33,14 @@ interface CacheOptions {
   shouldCache?: (req: Request, res: Response) => boolean;
   // Whether to include user ID in cache key
   userSpecific?: boolean;
+  // Extra invalidation tags; the prefix is always a tag
+  tags?: string[];
+  // Methods to cache (default GET). Add POST for read-only list endpoints.
+  methods?: string[];
 }
 
 /**
- * Cache middleware for GET requests
+ * Cache middleware for read requests
  * @param options - Cache configuration options
  */
 export const cacheMiddleware = (options: CacheOptions = {}) => {
@@ -109,11 +49,13 @@ export const cacheMiddleware = (options: CacheOptions = {}) => {
     prefix = 'api',
     shouldCache = () => true,
     userSpecific = false,
+    tags = [],
+    methods = ['GET'],
   } = options;
+  const entryTags = Array.from(new Set([prefix, ...tags]));
 
-  return (req: Request, res: Response, next: NextFunction): void => {
-    // Only cache GET requests
-    if (req.method !== 'GET') {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!methods.includes(req.method)) {
       next();
       return;
     }
@@ -123,7 +65,7 @@ export const cacheMiddleware = (options: CacheOptions = {}) => {
       : generateCacheKey(req, prefix);
 
     // Check if cached response exists
-    const cachedResponse = cache.get(cacheKey);
+    const cachedResponse = await cache.get(cacheKey);
     if (cachedResponse) {
       logger.debug(`Cache HIT: ${cacheKey}`);
       res.status(200).json(cachedResponse);
@@ -139,8 +81,9 @@ export const cacheMiddleware = (options: CacheOptions = {}) => {
     res.json = (body: any) => {
       // Only cache successful responses
       if (res.statusCode === 200 && shouldCache(req, res)) {
-        cache.set(cacheKey, body, ttlSeconds);
-        logger.debug(`Cached: ${cacheKey} (TTL: ${ttlSeconds}s)`);
+        cache.set(cacheKey, body, ttlSeconds, entryTags).then(() => {
+          logger.debug(`Cached: ${cacheKey} (TTL: ${ttlSeconds}s)`);
+        });
       }
       return originalJson(body);
     };
@@ -150,23 +93,35 @@ export const cacheMiddleware = (options: CacheOptions = {}) => {
 };
 
 /**
- * Invalidate cache for specific patterns
- * Useful for invalidating cache after mutations
+ * Drop every entry carrying any of the given tags. Safe to call from
+ * services; errors are logged by the backend.
  */
-export const invalidateCache = (patterns: string[]) => {
+export const invalidateCacheTags = async (tags: string[]): Promise<number> => {
+  const deleted = await cache.invalidateTags(tags);
+  if (deleted > 0) {
+    logger.debug(`Invalidated ${deleted} cache entries tagged: ${tags.join(', ')}`);
+  }
+  return deleted;
+};
+
+/**
+ * Invalidate cache tags after a successful mutation.
+ * Read requests pass through, so this can be mounted with router.use().
+ */
+export const invalidateCache = (tags: string[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      next();
+      return;
+    }
+
     // Store original json method
     const originalJson = res.json.bind(res);
 
     // Override json method to invalidate cache after successful response
     res.json = (body: any) => {
       if (res.statusCode >= 200 && res.statusCode < 300) {
-        patterns.forEach((pattern) => {
-          const deleted = cache.deleteByPattern(pattern);
-          if (deleted > 0) {
-            logger.debug(`Invalidated ${deleted} cache entries matching: ${pattern}`);
-          }
-        });
+        invalidateCacheTags(tags);
       }
       return originalJson(body);
     };
@@ -176,21 +131,42 @@ export const invalidateCache = (patterns: string[]) => {
 };
 
 /**
- * Clear all cache entries
+ * Clear all cache entries (every instance when Redis-backed)
  */
-export const clearCache = (req: Request, res: Response) => {
-  cache.clear();
+export const clearCache = async (req: Request, res: Response) => {
+  const deleted = await cache.clear();
   res.status(200).json({
     success: true,
     message: 'Cache cleared successfully',
+    data: { backend: cache.name, deleted },
+  });
+};
+
+/**
+ * Invalidate specific tags
+ * Body: { tags: string[] }
+ */
+export const invalidateCacheByTags = async (req: Request, res: Response) => {
+  const tags = Array.isArray(req.body?.tags)
+    ? req.body.tags.filter((tag: unknown) => typeof tag === 'string' && tag.length > 0)
+    : [];
+  if (tags.length === 0) {
+    res.status(400).json({ success: false, error: 'tags must be a non-empty array of strings' });
+    return;
+  }
+
+  const deleted = await invalidateCacheTags(tags);
+  res.status(200).json({
+    success: true,
+    data: { backend: cache.name, tags, deleted },
   });
 };
 
 /**
  * Get cache statistics
  */
-export const getCacheStats = (req: Request, res: Response) => {
-  const stats = cache.getStats();
+export const getCacheStats = async (req: Request, res: Response) => {
+  const stats = await cache.getStats();
   res.status(200).json({
     success: true,
     data: stats,
@@ -198,18 +174,34 @@ export const getCacheStats = (req: Request, res: Response) => {
 };
 
 // Pre-configured cache middlewares for common use cases
-export const cacheCategories = cacheMiddleware({ ttlSeconds: 3600, prefix: 'categories' }); // 1 hour
+export const cacheCategories = cacheMiddleware({
+  ttlSeconds: 3600,
+  prefix: 'categories',
+  methods: ['GET', 'POST'],
+}); // 1 hour
 export const cacheServices = cacheMiddleware({ ttlSeconds: 1800, prefix: 'services' }); // 30 min
 export const cacheVendors = cacheMiddleware({ ttlSeconds: 900, prefix: 'vendors' }); // 15 min
-export const cacheVendorServices = cacheMiddleware({ ttlSeconds: 600, prefix: 'vendor-services' }); // 10 min
+export const cacheVendorServices = cacheMiddleware({
+  ttlSeconds: 600,
+  prefix: 'vendor-services',
+  tags: ['categories', 'services', 'vendors'],
+}); // 10 min
+export const cachePromotions = cacheMiddleware({ ttlSeconds: 600, prefix: 'promotions' }); // 10 min
+export const cacheHome = cacheMiddleware({
+  ttlSeconds: 600,
+  prefix: 'home',
+  tags: ['services', 'vendor-services'],
+}); // 10 min
 export const cacheUserData = cacheMiddleware({
   ttlSeconds: 300,
   prefix: 'user',
   userSpecific: true,
 }); // 5 min
 
-// Cache invalidation patterns
+// Cache invalidation by tag
 export const invalidateCategoryCache = invalidateCache(['categories']);
 export const invalidateServiceCache = invalidateCache(['services', 'vendor-services']);
 export const invalidateVendorCache = invalidateCache(['vendors', 'vendor-services']);
+export const invalidateVendorServiceCache = invalidateCache(['vendor-services']);
+export const invalidatePromotionCache = invalidateCache(['promotions']);
 export const invalidateAppointmentCache = invalidateCache(['appointments', 'user']);
@@ -1,29 +1,121 @@
-import rateLimit from 'express-rate-limit';
-import type { Request} from 'express';
-import { Response } from 'express';
+import rateLimit, { type Options } from 'express-rate-limit';
+import type { Request, Response } from 'express';
+import { verifyToken as verifyClerkToken } from '@clerk/backend';
+import { createRateLimitStore, RATE_LIMIT_QUOTAS, type RateLimitGroup } from '../config/rate-limit';
+import { verifyToken } from '../utils/jwt.util';
+
+/**
+ * All limiters count in Redis when REDIS_URL is set (see config/rate-limit),
+ * so quotas are shared across instances. Store errors let requests through.
+ *
+ * 429 responses carry a `Retry-After` header plus `retryAfter` (seconds),
+ * `limit` and `resetAt` in the JSON body so the apps can show a countdown.
+ */
+
+const clientIp = (req: Request): string => req.ip || req.socket.remoteAddress || 'unknown';
+
+/**
+ * Rate limit key for a request: the vendor or user that `protectVendor` /
+ * `protect` verified, otherwise IP.
+ */
+export const rateLimitKey = (req: Request): string => {
+  if (req.vendorId) return `vendor:${req.vendorId}`;
+  const userId = req.auth?.userId || (req.user as any)?._id;
+  if (userId) return `user:${userId}`;
+  return `ip:${clientIp(req)}`;
+};
+
+/**
+ * The caller behind the request's Bearer token, when its signature checks
+ * out: an app session (the JWT `protect` accepts) or a Clerk session.
+ * Anything unverifiable counts as anonymous.
+ */
+async function verifiedCallerKey(req: Request): Promise<string | null> {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  const token = header.slice('Bearer '.length);
+  try {
+    return `user:${verifyToken(token).userId}`;
+  } catch {
+    // Not one of ours; try Clerk
+  }
+  if (!process.env.CLERK_SECRET_KEY) return null;
+  try {
+    const payload = await verifyClerkToken(token, { secretKey: process.env.CLERK_SECRET_KEY });
+    return payload?.sub ? `clerk:${payload.sub}` : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key for identity-keyed limiters. Customer routes mostly run them before
+ * any auth middleware, so the token is verified here; mobile users behind
+ * carrier NAT then get their own quota instead of sharing their IP's.
+ */
+export const identityKey = async (req: Request): Promise<string> => {
+  const key = rateLimitKey(req);
+  if (!key.startsWith('ip:')) return key;
+  return (await verifiedCallerKey(req)) || key;
+};
+
+const ipKey = (req: Request): string => `ip:${clientIp(req)}`;
+
+const rateLimitExceeded = (message: string) => (req: Request, res: Response) => {
+  const info = (req as any).rateLimit as { limit: number; resetTime?: Date } | undefined;
+  const resetAt = info?.resetTime || new Date();
+  const retryAfter = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    success: false,
+    message,
+    retryAfter,
+    limit: info?.limit,
+    resetAt: resetAt.toISOString(),
+  });
+};
+
+interface LimiterConfig {
+  name: string;
+  windowMs: number;
+  max: number;
+  message: string;
+  keyBy?: 'identity' | 'ip';
+  skip?: Options['skip'];
+  skipSuccessfulRequests?: boolean;
+}
+
+const buildLimiter = ({ name, windowMs, max, message, keyBy = 'ip', ...rest }: LimiterConfig) =>
+  rateLimit({
+    windowMs,
+    max,
+    keyGenerator: keyBy === 'identity' ? identityKey : ipKey,
+    handler: rateLimitExceeded(message),
+    store: createRateLimitStore(name),
+    passOnStoreError: true,
+    standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+    legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+    ...rest,
+  });
+
+const isLocalhost = (req: Request) => {
+  const ip = clientIp(req);
+  return ip === '127.0.0.1' || ip === '::1' || ip === '::ffff:127.0.0.1';
+};
 
 /**
  * Rate limiter for general API requests
+ * Runs app-wide before any auth, so it is keyed by IP
  * Allows 2000 requests per 15 minutes per IP in development (for testing)
  * Allows 100 requests per 15 minutes per IP in production
  */
-export const generalLimiter = rateLimit({
+export const generalLimiter = buildLimiter({
+  name: 'general',
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: process.env.NODE_ENV === 'production' ? 100 : 2000, // Much higher limit for development
-  message: {
-    success: false,
-    message: 'Too many requests from this IP, please try again after 15 minutes',
-  },
-  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-  skip: (req: Request) => {
-    // Skip rate limiting in development for localhost
-    if (process.env.NODE_ENV !== 'production') {
-      const ip = req.ip || req.socket.remoteAddress || '';
-      return ip === '127.0.0.1' || ip === '::1' || ip === '::ffff:127.0.0.1';
-    }
-    return false;
-  },
+  message: 'Too many requests, please try again after 15 minutes',
+  // Skip rate limiting in development for localhost
+  skip: (req: Request) => process.env.NODE_ENV !== 'production' && isLocalhost(req),
 });
 
 /**
@@ -31,15 +123,11 @@ export const generalLimiter = rateLimit({
  * Allows 5 login attempts per 15 minutes per IP
  * Prevents brute-force attacks
  */
-export const authLimiter = rateLimit({
+export const authLimiter = buildLimiter({
+  name: 'auth',
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 5, // Limit each IP to 5 login attempts per windowMs
-  message: {
-    success: false,
-    message: 'Too many login attempts from this IP, please try again after 15 minutes',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
+  message: 'Too many login attempts from this IP, please try again after 15 minutes',
   skipSuccessfulRequests: false, // Count all requests
 });
 
@@ -47,75 +135,85 @@ export const authLimiter = rateLimit({
  * Rate limiter for password reset/forgot password
  * Allows 3 attempts per hour per IP
  */
-export const passwordResetLimiter = rateLimit({
+export const passwordResetLimiter = buildLimiter({
+  name: 'password-reset',
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 3, // Limit each IP to 3 requests per hour
-  message: {
-    success: false,
-    message: 'Too many password reset attempts, please try again after an hour',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
+  message: 'Too many password reset attempts, please try again after an hour',
 });
 
 /**
  * Rate limiter for registration
  * Allows 10 registrations per hour per IP
  */
-export const registrationLimiter = rateLimit({
+export const registrationLimiter = buildLimiter({
+  name: 'registration',
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 10, // Limit each IP to 10 registrations per hour
-  message: {
-    success: false,
-    message: 'Too many accounts created from this IP, please try again after an hour',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
+  message: 'Too many accounts created from this IP, please try again after an hour',
 });
 
 /**
  * Rate limiter for payment endpoints
  * Allows 20 requests per minute per IP
  */
-export const paymentLimiter = rateLimit({
+export const paymentLimiter = buildLimiter({
+  name: 'payment',
   windowMs: 60 * 1000, // 1 minute
   max: 20, // Limit each IP to 20 requests per minute
-  message: {
-    success: false,
-    message: 'Too many payment requests, please try again after a minute',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
+  message: 'Too many payment requests, please try again after a minute',
 });
 
 /**
  * Rate limiter for sensitive operations (delete, bulk operations)
  * Allows 30 requests per 15 minutes per IP
  */
-export const sensitiveLimiter = rateLimit({
+export const sensitiveLimiter = buildLimiter({
+  name: 'sensitive',
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 30, // Limit each IP to 30 requests per windowMs
-  message: {
-    success: false,
-    message: 'Too many requests for this operation, please try again later',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
+  message: 'Too many requests for this operation, please try again later',
 });
 
 /**
  * Dynamic rate limiter factory
  * Creates a custom rate limiter with specified parameters
  */
-export const createRateLimiter = (windowMinutes: number, maxRequests: number, message?: string) => {
-  return rateLimit({
+export const createRateLimiter = (
+  windowMinutes: number,
+  maxRequests: number,
+  message?: string,
+  name = `custom-${windowMinutes}m-${maxRequests}`,
+) => {
+  return buildLimiter({
+    name,
     windowMs: windowMinutes * 60 * 1000,
     max: maxRequests,
-    message: {
-      success: false,
-      message: message || `Too many requests, please try again after ${windowMinutes} minutes`,
-    },
-    standardHeaders: true,
-    legacyHeaders: false,
+    message: message || `Too many requests, please try again after ${windowMinutes} minutes`,
   });
 };
+
+/**
+ * Per-user quota for a route group (see RATE_LIMIT_QUOTAS).
+ */
+export const createGroupLimiter = (group: RateLimitGroup, skip?: Options['skip']) => {
+  const { max, windowSeconds, message } = RATE_LIMIT_QUOTAS[group];
+  return buildLimiter({
+    name: group,
+    windowMs: windowSeconds * 1000,
+    max,
+    message,
+    keyBy: 'identity',
+    skip,
+  });
+};
+
+// appointmentOperations multiplexes on body.type; only creations count
+const isBookingCreation = (req: Request) =>
+  req.body?.type === 'create-booking' || /^\/recurring\/?$/.test(req.path);
+
+// Route-group limiters, keyed by verified caller (see identityKey).
+export const bookingLimiter = createGroupLimiter('booking', (req) => !isBookingCreation(req));
+export const slotLockLimiter = createGroupLimiter('slotLock');
+export const chatSendLimiter = createGroupLimiter('chatSend');
+export const searchLogLimiter = createGroupLimiter('searchLog');
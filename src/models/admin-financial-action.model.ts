@@ -0,0 +1,84 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { AdminRole, FinancialActionType } from '../config/financial-limits';
+
+/**
+ * Every admin refund and wallet credit, whether it ran straight away or
+ * waited for a second super_admin. Daily caps are summed from here, and
+ * `pending` rows are the approval queue.
+ *
+ *   processing → executed | failed              (within the cap and threshold)
+ *   pending → processing → executed | failed    (approved)
+ *   pending → rejected | expired
+ */
+
+export type FinancialActionStatus =
+  | 'pending'
+  | 'processing'
+  | 'executed'
+  | 'failed'
+  | 'rejected'
+  | 'expired';
+
+export interface IAdminFinancialAction {
+  action: FinancialActionType;
+  amount: number; // dollars
+  status: FinancialActionStatus;
+  requestedBy: mongoose.Types.ObjectId;
+  requestedByEmail?: string;
+  requestedByRole: AdminRole;
+  // The refunded appointment or credited user
+  appointmentId?: mongoose.Types.ObjectId | null;
+  targetUserId?: mongoose.Types.ObjectId | null;
+  reason: string;
+  note?: string | null;
+  requiresApproval: boolean;
+  reviewedBy?: mongoose.Types.ObjectId | null;
+  reviewedByEmail?: string | null;
+  reviewedAt?: Date | null;
+  reviewNote?: string | null;
+  executedAt?: Date | null;
+  result?: Record<string, unknown> | null;
+  error?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AdminFinancialActionSchema = new Schema<IAdminFinancialAction & Document>(
+  {
+    action: { type: String, enum: ['wallet_credit', 'refund'], required: true },
+    amount: { type: Number, required: true, min: 0.01 },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'executed', 'failed', 'rejected', 'expired'],
+      required: true,
+      index: true,
+    },
+    requestedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    requestedByEmail: { type: String },
+    requestedByRole: { type: String, enum: ['super_admin', 'support_agent'], required: true },
+    appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment', default: null },
+    targetUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    reason: { type: String, required: true },
+    note: { type: String, default: null },
+    requiresApproval: { type: Boolean, default: false },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    reviewedByEmail: { type: String, default: null },
+    reviewedAt: { type: Date, default: null },
+    reviewNote: { type: String, default: null },
+    executedAt: { type: Date, default: null },
+    result: { type: Schema.Types.Mixed, default: null },
+    error: { type: String, default: null },
+  },
+  { timestamps: true },
+);
+
+// Daily cap: an admin's actions of one type since midnight
+AdminFinancialActionSchema.index({ requestedBy: 1, action: 1, createdAt: -1 });
+// Approval queue, oldest first
+AdminFinancialActionSchema.index({ status: 1, createdAt: 1 });
+
+export default mongoose.model<IAdminFinancialAction & Document>(
+  'AdminFinancialAction',
+  AdminFinancialActionSchema,
+  'admin_financial_actions',
+);
@@ -1,6 +1,7 @@
 import type { Document } from 'mongoose';
 import mongoose, { Schema } from 'mongoose';
 import type { IAppointment } from './../interfaces/appointment.interface';
+import { APPOINTMENT_STATUSES, STATUS_ACTORS } from './../utils/appointment-status.util';
 
 const CardDetailsSchema: Schema = new Schema({
   cardNumber: {
@@ -37,6 +38,84 @@ const CustomerAddressSchema: Schema = new Schema({
     type: String,
   },
 });
+
+// Terms of the vendor's cancellation policy at the time of booking
+const CancellationPolicySnapshotSchema: Schema = new Schema(
+  {
+    policyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'CancellationPolicy',
+      default: null,
+    },
+    name: {
+      type: String,
+    },
+    tiers: [
+      {
+        _id: false,
+        minHoursBefore: Number,
+        refundPercent: Number,
+      },
+    ],
+    cancellationFee: {
+      type: Number,
+      default: 0,
+    },
+    noShowFee: {
+      type: { type: String, enum: ['fixed', 'percentage'] },
+      value: Number,
+    },
+    depositForfeiture: {
+      enabled: Boolean,
+      type: { type: String, enum: ['fixed', 'percentage'] },
+      value: Number,
+    },
+    depositAmount: {
+      type: Number,
+      default: 0,
+    },
+    snapshotAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
+
+// One status change (services/appointment-status.service)
+const StatusChangeSchema: Schema = new Schema(
+  {
+    from: {
+      type: String,
+      enum: APPOINTMENT_STATUSES,
+    },
+    to: {
+      type: String,
+      enum: APPOINTMENT_STATUSES,
+      required: true,
+    },
+    actor: {
+      type: String,
+      enum: STATUS_ACTORS,
+      required: true,
+    },
+    // The user behind the change, where there is one
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    reason: {
+      type: String,
+      default: null,
+    },
+    at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false },
+);
+
 const AppointmentSchema: Schema = new Schema(
   {
     customerId: {
@@ -57,6 +136,11 @@ const AppointmentSchema: Schema = new Schema(
       default: null,
       index: true,
     },
+    // True when the customer chose "No preference" and the server picked
+    staffAutoAssigned: {
+      type: Boolean,
+      default: false,
+    },
     // Recurring series linkage. When a customer books "every Tuesday for 8
     // weeks", each occurrence is its own Appointment (payments + cancels
     // remain per-instance) but they share a `recurrenceSeriesId`. The first
@@ -76,6 +160,11 @@ const AppointmentSchema: Schema = new Schema(
       },
       default: null,
     },
+    // Position in the series, counted from 0
+    recurrenceIndex: {
+      type: Number,
+      default: null,
+    },
     servicePlace: {
       type: String,
       required: true,
@@ -92,6 +181,17 @@ const AppointmentSchema: Schema = new Schema(
       type: String,
       required: true,
     },
+    // Vendor's IANA zone at booking time, plus the slot as real UTC instants.
+    // `startTime`/`endTime` stay vendor-local wall-clock for display.
+    timezone: {
+      type: String,
+    },
+    startAt: {
+      type: Date,
+    },
+    endAt: {
+      type: Date,
+    },
     customerAddress: {
       type: CustomerAddressSchema,
     },
@@ -132,6 +232,25 @@ const AppointmentSchema: Schema = new Schema(
     walletAmount: {
       type: Number,
     },
+    // Loyalty tier discount applied at booking (server-calculated)
+    loyaltyTier: {
+      type: String,
+      enum: ['bronze', 'silver', 'gold'],
+    },
+    loyaltyDiscountAmount: {
+      type: Number,
+      default: 0,
+    },
+    // Points earned on completion and reversed on refund — kept on the
+    // appointment so accrual and clawback are idempotent.
+    loyaltyPointsAwarded: {
+      type: Number,
+      default: 0,
+    },
+    loyaltyPointsClawedBack: {
+      type: Number,
+      default: 0,
+    },
     total: {
       type: Number,
     },
@@ -143,7 +262,7 @@ const AppointmentSchema: Schema = new Schema(
     },
     status: {
       type: String,
-      enum: ['pending', 'confirmed', 'cancelled', 'completed', 'missed', 'failed'],
+      enum: APPOINTMENT_STATUSES,
       default: 'pending',
     },
     paymentIntentId: {
@@ -157,9 +276,75 @@ const AppointmentSchema: Schema = new Schema(
     },
     paymentStatus: {
       type: String,
-      enum: ['pending', 'completed', 'refunded', 'partially_refunded', 'failed'],
+      enum: ['pending', 'deposit_paid', 'completed', 'refunded', 'partially_refunded', 'failed'],
       default: 'pending',
     },
+    // Split payment: `deposit` bookings charge depositAmount up front
+    // (paymentIntentId) and the balance later (balancePaymentIntentId).
+    paymentPlan: {
+      type: String,
+      enum: ['full', 'deposit'],
+      default: 'full',
+    },
+    depositAmount: {
+      type: Number,
+      default: 0,
+    },
+    depositPaid: {
+      type: Number,
+      default: 0,
+    },
+    balanceDue: {
+      type: Number,
+      default: 0,
+    },
+    balancePaid: {
+      type: Number,
+      default: 0,
+    },
+    balanceCapture: {
+      type: String,
+      enum: ['on_completion', 'before_appointment'],
+    },
+    // Set for `before_appointment` capture — the scheduler charges from here on
+    balanceDueAt: {
+      type: Date,
+    },
+    balanceStatus: {
+      type: String,
+      enum: ['pending', 'processing', 'paid', 'failed', 'waived'],
+    },
+    balancePaymentIntentId: {
+      type: String,
+    },
+    balanceAttempts: {
+      type: Number,
+      default: 0,
+    },
+    balancePaidAt: {
+      type: Date,
+    },
+    // Later occurrences of a recurring series are charged to the saved card
+    // shortly before they start (services/recurring-series)
+    occurrenceChargeStatus: {
+      type: String,
+      enum: ['pending', 'processing', 'paid', 'failed'],
+    },
+    occurrenceChargeDueAt: {
+      type: Date,
+    },
+    occurrenceChargeAttempts: {
+      type: Number,
+      default: 0,
+    },
+    // Idempotency key of the next charge; only replaced after a definite decline
+    occurrenceChargeKey: {
+      type: String,
+    },
+    // When the running charge was claimed (stale claims are picked up again)
+    occurrenceChargeLockedAt: {
+      type: Date,
+    },
     // Refund fields
     refundId: {
       type: String,
@@ -171,23 +356,78 @@ const AppointmentSchema: Schema = new Schema(
     refundAmount: {
       type: Number,
     },
+    // Refund against the balance PaymentIntent of a deposit booking
+    balanceRefundId: {
+      type: String,
+    },
+    // Card dispute (chargeback) on one of the appointment's charges, as Stripe reports it
+    disputeId: {
+      type: String,
+      default: null,
+    },
+    disputeStatus: {
+      type: String,
+      default: null,
+    },
+    disputeReason: {
+      type: String,
+      default: null,
+    },
+    disputeAmount: {
+      type: Number,
+      default: null,
+    },
+    disputedAt: {
+      type: Date,
+      default: null,
+    },
     cancelledAt: {
       type: Date,
     },
     cancellationReason: {
       type: String,
     },
+    cancellationPolicy: {
+      type: CancellationPolicySnapshotSchema,
+    },
+    // Amounts kept under the cancellation policy
+    cancellationFeeAmount: {
+      type: Number,
+      default: 0,
+    },
+    depositForfeitedAmount: {
+      type: Number,
+      default: 0,
+    },
+    // No-show fee applied when the vendor marks the appointment missed
+    noShowFeeAmount: {
+      type: Number,
+      default: 0,
+    },
+    noShowFeeStatus: {
+      type: String,
+      enum: ['retained', 'charged', 'failed', 'waived'],
+    },
+    noShowFeePaymentIntentId: {
+      type: String,
+    },
     // Completion tracking fields
     completedAt: {
       type: Date,
     },
     statusChangedBy: {
       type: String,
-      enum: ['auto', 'vendor', 'customer', 'admin'],
+      enum: STATUS_ACTORS,
     },
     statusReason: {
       type: String,
     },
+    // Every status change, oldest first — statusChangedBy/statusReason
+    // only describe the latest
+    statusHistory: {
+      type: [StatusChangeSchema],
+      default: [],
+    },
     // Reminder tracking fields
     reminder24hSentAt: {
       type: Date,
@@ -201,6 +441,17 @@ const AppointmentSchema: Schema = new Schema(
     reminderPostSentAt: {
       type: Date,
     },
+    // Times the customer has moved this appointment (vendor reschedule policy)
+    rescheduleCount: {
+      type: Number,
+      default: 0,
+    },
+    // iCalendar SEQUENCE — bumped whenever the time or status changes so
+    // subscribed calendars replace their copy of the event
+    calendarSequence: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     // Match the exact field names and structure from the database
@@ -227,11 +478,40 @@ AppointmentSchema.index({ vendorServiceId: 1, appointmentDate: 1, startTime: 1,
 AppointmentSchema.index({ paymentStatus: 1 });
 // Index for payment intent lookup (Stripe webhooks)
 AppointmentSchema.index({ paymentIntentId: 1 });
+// Index for the balance capture sweep
+AppointmentSchema.index({ balanceStatus: 1, balanceDueAt: 1 });
+// Index for the recurring occurrence charge sweep
+AppointmentSchema.index({ occurrenceChargeStatus: 1, occurrenceChargeDueAt: 1 });
 // Sparse unique index — only enforces uniqueness when idempotencyKey is set.
 AppointmentSchema.index({ idempotencyKey: 1 }, { unique: true, sparse: true });
 // Index for created date (dashboard analytics)
 AppointmentSchema.index({ createdAt: -1 });
 // Index for reminder queries
 AppointmentSchema.index({ appointmentDate: 1, status: 1, reminder1hSentAt: 1 });
+// Index for instant-based queries (auto-complete, reminders)
+AppointmentSchema.index({ startAt: 1, status: 1 });
+
+// Changes to these fields reach subscribed calendars as a new SEQUENCE
+const CALENDAR_FIELDS = ['appointmentDate', 'startTime', 'endTime', 'startAt', 'endAt', 'status'];
+
+AppointmentSchema.pre('save', function (next) {
+  if (!this.isNew && CALENDAR_FIELDS.some((field) => this.isModified(field))) {
+    this.set('calendarSequence', (this.get('calendarSequence') || 0) + 1);
+  }
+  next();
+});
+
+AppointmentSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], function (next) {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if (!update || Array.isArray(update)) return next();
+  const touched = CALENDAR_FIELDS.some(
+    (field) => field in update || (update.$set && field in update.$set),
+  );
+  if (touched) {
+    update.$inc = { ...(update.$inc || {}), calendarSequence: 1 };
+    this.setUpdate(update);
+  }
+  next();
+});
 
 export default mongoose.model<IAppointment & Document>('Appointment', AppointmentSchema);
@@ -32,7 +32,30 @@ const AuditLogSchema: Schema = new Schema({
   action: {
     type: String,
     required: true,
-    enum: ['CREATE', 'READ', 'UPDATE', 'DELETE', 'LOGIN', 'LOGOUT', 'EXPORT', 'IMPORT', 'OTHER'],
+    enum: [
+      'CREATE',
+      'READ',
+      'UPDATE',
+      'DELETE',
+      'LOGIN',
+      'LOGOUT',
+      'EXPORT',
+      'IMPORT',
+      'SMS_OPT_OUT',
+      'SMS_OPT_IN',
+      'SMS_HELP',
+      'DISPUTE_EVIDENCE',
+      'DISPUTE_ACCEPT',
+      'ADMIN_REFUND',
+      'ADMIN_WALLET_CREDIT',
+      'FINANCIAL_CAP_EXCEEDED',
+      'FINANCIAL_APPROVAL_REQUESTED',
+      'FINANCIAL_APPROVAL_APPROVED',
+      'FINANCIAL_APPROVAL_REJECTED',
+      'FINANCIAL_APPROVAL_EXPIRED',
+      'FINANCIAL_ACTION_FAILED',
+      'OTHER',
+    ],
     index: true,
   },
   resource: {
@@ -46,7 +69,8 @@ const AuditLogSchema: Schema = new Schema({
   method: {
     type: String,
     required: true,
-    enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+    // OTHER: events logged outside a request (logAuditEvent)
+    enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OTHER'],
   },
   path: {
     type: String,
@@ -0,0 +1,86 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type {
+  AvailabilityException,
+  ExtraOpening,
+  TemplateTiming,
+  WeeklyHours,
+} from '../utils/availability-template.util';
+
+/**
+ * Recurring weekly availability for a vendor service — the alternative to
+ * entering `VendorServiceSlot` dates month by month.
+ *
+ *   - `weeklyHours`: the regular week, any number of windows per weekday
+ *   - `exceptions`: date ranges that are closed or run different hours
+ *   - `extraOpenings`: one-off additional hours on a single date
+ *
+ * The slot engine expands this on the fly. Dates configured explicitly in
+ * `VendorServiceSlot` override the template on that date.
+ */
+
+export interface IAvailabilityTemplate {
+  vendorServiceId: mongoose.Types.ObjectId;
+  isActive: boolean;
+  reoccurrence: number;
+  weeklyHours: WeeklyHours[];
+  exceptions: AvailabilityException[];
+  extraOpenings: ExtraOpening[];
+  effectiveFrom?: Date | null;
+  effectiveTo?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimingSchema = new Schema<TemplateTiming>(
+  {
+    fromTime: { type: String, required: true }, // HH:mm
+    toTime: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const WeeklyHoursSchema = new Schema<WeeklyHours>(
+  {
+    dayOfWeek: { type: Number, required: true, min: 0, max: 6 },
+    fromTime: { type: String, required: true },
+    toTime: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const ExceptionSchema = new Schema<AvailabilityException>({
+  fromDate: { type: Date, required: true },
+  toDate: { type: Date, required: true },
+  timings: { type: [TimingSchema], default: [] },
+  reason: { type: String, trim: true },
+});
+
+const ExtraOpeningSchema = new Schema<ExtraOpening>({
+  date: { type: Date, required: true },
+  timings: { type: [TimingSchema], default: [] },
+});
+
+const AvailabilityTemplateSchema = new Schema<IAvailabilityTemplate & Document>(
+  {
+    vendorServiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'VendorService',
+      required: true,
+      unique: true,
+    },
+    isActive: { type: Boolean, default: true },
+    reoccurrence: { type: Number, default: 1, min: 1 },
+    weeklyHours: { type: [WeeklyHoursSchema], default: [] },
+    exceptions: { type: [ExceptionSchema], default: [] },
+    extraOpenings: { type: [ExtraOpeningSchema], default: [] },
+    effectiveFrom: { type: Date, default: null },
+    effectiveTo: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+export default mongoose.model<IAvailabilityTemplate & Document>(
+  'AvailabilityTemplate',
+  AvailabilityTemplateSchema,
+  'availability_templates',
+);
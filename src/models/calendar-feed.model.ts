@@ -0,0 +1,49 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * Private iCalendar subscription feed for a vendor or one of its staff.
+ *
+ * The token in the URL is the only credential, so calendar apps (Apple
+ * Calendar, Outlook, Google "From URL") can poll it without logging in.
+ * Rotating the token invalidates any copy of the old URL.
+ *
+ *   - `staffId` null: every appointment across the vendor's services
+ *   - `staffId` set:  only appointments assigned to that staff member
+ */
+
+export interface ICalendarFeed {
+  vendorId: mongoose.Types.ObjectId;
+  staffId?: mongoose.Types.ObjectId | null;
+  token: string;
+  lastAccessedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CalendarFeedSchema = new Schema<ICalendarFeed & Document>(
+  {
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+      index: true,
+    },
+    staffId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Staff',
+      default: null,
+    },
+    token: { type: String, required: true, unique: true },
+    lastAccessedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// One feed per vendor / staff scope
+CalendarFeedSchema.index({ vendorId: 1, staffId: 1 }, { unique: true });
+
+export default mongoose.model<ICalendarFeed & Document>(
+  'CalendarFeed',
+  CalendarFeedSchema,
+  'calendar_feeds',
+);
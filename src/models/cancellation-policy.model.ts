@@ -0,0 +1,74 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { FeeType, RefundTier } from '../utils/cancellation-policy.util';
+
+/**
+ * CancellationPolicy — a vendor's refund tiers and fees.
+ *
+ * One vendor-wide default (`vendorServiceId: null`) plus optional overrides
+ * per VendorService. Appointments snapshot the policy in force at booking so
+ * later edits never change what a customer agreed to.
+ */
+
+export interface ICancellationPolicy extends Document {
+  vendorId: mongoose.Types.ObjectId;
+  vendorServiceId?: mongoose.Types.ObjectId | null;
+  name: string;
+  tiers: RefundTier[];
+  // Flat fee deducted from any refund
+  cancellationFee: number;
+  noShowFee: { type: FeeType; value: number };
+  // Portion of the booking kept when cancelling outside the full-refund window
+  depositForfeiture: { enabled: boolean; type: FeeType; value: number };
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FeeSchema = {
+  type: { type: String, enum: ['fixed', 'percentage'], default: 'fixed' },
+  value: { type: Number, default: 0, min: 0 },
+};
+
+const CancellationPolicySchema = new Schema<ICancellationPolicy>(
+  {
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+      index: true,
+    },
+    vendorServiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'VendorService',
+      default: null,
+    },
+    name: { type: String, trim: true, default: 'Standard policy', maxlength: 100 },
+    tiers: {
+      type: [
+        {
+          _id: false,
+          minHoursBefore: { type: Number, required: true, min: 0 },
+          refundPercent: { type: Number, required: true, min: 0, max: 100 },
+        },
+      ],
+      required: true,
+    },
+    cancellationFee: { type: Number, default: 0, min: 0 },
+    noShowFee: FeeSchema,
+    depositForfeiture: {
+      enabled: { type: Boolean, default: false },
+      ...FeeSchema,
+    },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true },
+);
+
+// At most one policy per vendor default / per service
+CancellationPolicySchema.index({ vendorId: 1, vendorServiceId: 1 }, { unique: true });
+
+export default mongoose.model<ICancellationPolicy>(
+  'CancellationPolicy',
+  CancellationPolicySchema,
+  'cancellation_policies',
+);
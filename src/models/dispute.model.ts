@@ -0,0 +1,105 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * Dispute — a chargeback (or inquiry) raised by the customer's bank on an
+ * appointment payment. Created and kept current from Stripe's
+ * `charge.dispute.*` webhooks; admins respond with evidence from here.
+ *
+ * Amounts are in cents, like VendorPayout. `payoutActions` records what
+ * the dispute did to the vendor's payouts so it can be undone on a win.
+ */
+
+export type DisputePayoutActionType = 'held' | 'reversed' | 'released' | 'repaid' | 'canceled';
+
+export interface IDisputePayoutAction {
+  payoutId: mongoose.Types.ObjectId;
+  action: DisputePayoutActionType;
+  amount: number;
+  at: Date;
+  error?: string | null;
+}
+
+export interface IDisputeHistoryEntry {
+  event: string;
+  status: string;
+  at: Date;
+}
+
+export interface IDispute {
+  stripeDisputeId: string;
+  stripeChargeId: string;
+  paymentIntentId?: string | null;
+  appointmentId?: mongoose.Types.ObjectId | null;
+  vendorId?: mongoose.Types.ObjectId | null;
+  customerId?: mongoose.Types.ObjectId | null;
+  amount: number;
+  currency: string;
+  reason: string;
+  // Stripe status: warning_needs_response, needs_response, under_review, won, lost, ...
+  status: string;
+  evidenceDueBy?: Date | null;
+  isChargeRefundable: boolean;
+  payoutActions: IDisputePayoutAction[];
+  // Last evidence sent to Stripe
+  evidence?: Record<string, string> | null;
+  evidenceSubmittedAt?: Date | null;
+  evidenceSubmittedBy?: mongoose.Types.ObjectId | null;
+  // Set once holdPayoutsForDispute finished; until then a redelivered event retries it
+  payoutsHeldAt?: Date | null;
+  vendorNotifiedAt?: Date | null;
+  closedAt?: Date | null;
+  history: IDisputeHistoryEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DisputeSchema = new Schema<IDispute & Document>(
+  {
+    stripeDisputeId: { type: String, required: true, unique: true },
+    stripeChargeId: { type: String, required: true },
+    paymentIntentId: { type: String, default: null, index: true },
+    appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment', default: null, index: true },
+    vendorId: { type: Schema.Types.ObjectId, ref: 'Vendor', default: null, index: true },
+    customerId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    amount: { type: Number, required: true },
+    currency: { type: String, default: 'usd' },
+    reason: { type: String, required: true },
+    status: { type: String, required: true, index: true },
+    evidenceDueBy: { type: Date, default: null },
+    isChargeRefundable: { type: Boolean, default: false },
+    payoutActions: [
+      {
+        _id: false,
+        payoutId: { type: Schema.Types.ObjectId, ref: 'VendorPayout', required: true },
+        action: {
+          type: String,
+          enum: ['held', 'reversed', 'released', 'repaid', 'canceled'],
+          required: true,
+        },
+        amount: { type: Number, default: 0 },
+        at: { type: Date, default: Date.now },
+        error: { type: String, default: null },
+      },
+    ],
+    evidence: { type: Schema.Types.Mixed, default: null },
+    evidenceSubmittedAt: { type: Date, default: null },
+    evidenceSubmittedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    payoutsHeldAt: { type: Date, default: null },
+    vendorNotifiedAt: { type: Date, default: null },
+    closedAt: { type: Date, default: null },
+    history: [
+      {
+        _id: false,
+        event: { type: String, required: true },
+        status: { type: String, required: true },
+        at: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  { timestamps: true },
+);
+
+// Admin queue: open disputes by response deadline
+DisputeSchema.index({ status: 1, evidenceDueBy: 1 });
+
+export default mongoose.model<IDispute & Document>('Dispute', DisputeSchema, 'disputes');
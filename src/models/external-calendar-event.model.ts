@@ -0,0 +1,43 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * An appointment pushed to an external calendar. `sequence` is the
+ * appointment's `calendarSequence` at push time; sync re-pushes when the
+ * appointment has moved on.
+ */
+
+export interface IExternalCalendarEvent {
+  externalCalendarId: mongoose.Types.ObjectId;
+  appointmentId: mongoose.Types.ObjectId;
+  // Provider's id for the event (Google event id, CalDAV resource name)
+  externalId: string;
+  sequence: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExternalCalendarEventSchema = new Schema<IExternalCalendarEvent & Document>(
+  {
+    externalCalendarId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ExternalCalendar',
+      required: true,
+    },
+    appointmentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Appointment',
+      required: true,
+    },
+    externalId: { type: String, required: true },
+    sequence: { type: Number, default: 0 },
+  },
+  { timestamps: true },
+);
+
+ExternalCalendarEventSchema.index({ externalCalendarId: 1, appointmentId: 1 }, { unique: true });
+
+export default mongoose.model<IExternalCalendarEvent & Document>(
+  'ExternalCalendarEvent',
+  ExternalCalendarEventSchema,
+  'external_calendar_events',
+);
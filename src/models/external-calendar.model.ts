@@ -0,0 +1,69 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * A vendor's connected personal calendar.
+ *
+ *   - `google`: Google Calendar via OAuth tokens
+ *   - `caldav`: any CalDAV collection URL (iCloud, Fastmail, Nextcloud …)
+ *   - `ics`:    read-only ICS URL — busy times are imported, nothing is pushed
+ *
+ * Busy times are imported as `VendorBlockTime` entries with
+ * `source: 'external'`; appointments are pushed back as events when
+ * `pushAppointments` is on. Credentials are never selected by default.
+ */
+
+export type ExternalCalendarProvider = 'google' | 'caldav' | 'ics';
+
+export interface IExternalCalendar {
+  vendorId: mongoose.Types.ObjectId;
+  provider: ExternalCalendarProvider;
+  name: string;
+  // CalDAV collection or ICS URL
+  url?: string;
+  username?: string;
+  password?: string;
+  // Google
+  calendarId: string;
+  accessToken?: string;
+  refreshToken?: string;
+  importBusy: boolean;
+  pushAppointments: boolean;
+  isActive: boolean;
+  lastSyncedAt?: Date | null;
+  lastSyncStatus?: 'ok' | 'error' | null;
+  lastSyncError?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExternalCalendarSchema = new Schema<IExternalCalendar & Document>(
+  {
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+      index: true,
+    },
+    provider: { type: String, enum: ['google', 'caldav', 'ics'], required: true },
+    name: { type: String, trim: true, default: 'My calendar' },
+    url: { type: String, trim: true },
+    username: { type: String, select: false },
+    password: { type: String, select: false },
+    calendarId: { type: String, default: 'primary' },
+    accessToken: { type: String, select: false },
+    refreshToken: { type: String, select: false },
+    importBusy: { type: Boolean, default: true },
+    pushAppointments: { type: Boolean, default: false },
+    isActive: { type: Boolean, default: true },
+    lastSyncedAt: { type: Date, default: null },
+    lastSyncStatus: { type: String, enum: ['ok', 'error', null], default: null },
+    lastSyncError: { type: String, default: null },
+  },
+  { timestamps: true },
+);
+
+export default mongoose.model<IExternalCalendar & Document>(
+  'ExternalCalendar',
+  ExternalCalendarSchema,
+  'external_calendars',
+);
@@ -1,8 +1,9 @@
 import type { Document } from 'mongoose';
 import mongoose, { Schema } from 'mongoose';
+import { getTierForTotalEarned, type LoyaltyTier } from '../config/loyalty';
 
 export interface ILoyaltyTransaction {
-  type: 'earned' | 'redeemed' | 'bonus' | 'referral';
+  type: 'earned' | 'redeemed' | 'bonus' | 'referral' | 'clawback';
   points: number;
   description: string;
   appointmentId?: mongoose.Types.ObjectId;
@@ -15,14 +16,18 @@ export interface ILoyaltyAccount extends Document {
   points: number;
   totalEarned: number;
   totalRedeemed: number;
-  tier: 'bronze' | 'silver' | 'gold';
+  tier: LoyaltyTier;
   history: ILoyaltyTransaction[];
   createdAt: Date;
   updatedAt: Date;
 }
 
 const LoyaltyTransactionSchema = new Schema({
-  type: { type: String, enum: ['earned', 'redeemed', 'bonus', 'referral'], required: true },
+  type: {
+    type: String,
+    enum: ['earned', 'redeemed', 'bonus', 'referral', 'clawback'],
+    required: true,
+  },
   points: { type: Number, required: true },
   description: { type: String, required: true },
   appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment' },
@@ -42,11 +47,9 @@ const LoyaltyAccountSchema = new Schema(
   { timestamps: true },
 );
 
-// Compute tier based on totalEarned
+// Compute tier based on totalEarned (thresholds in config/loyalty)
 LoyaltyAccountSchema.pre('save', function (next) {
-  if (this.totalEarned >= 1000) this.tier = 'gold';
-  else if (this.totalEarned >= 500) this.tier = 'silver';
-  else this.tier = 'bronze';
+  this.tier = getTierForTotalEarned(this.totalEarned);
   next();
 });
 
@@ -30,6 +30,22 @@ const NotificationSchema: Schema = new Schema(
       default: false,
       index: true, // Index for filtering unread notifications
     },
+    // Outcome per channel (push / email / sms), skipped ones included
+    deliveries: [
+      {
+        _id: false,
+        channel: { type: String, enum: ['push', 'email', 'sms'], required: true },
+        status: {
+          type: String,
+          enum: ['sent', 'queued', 'failed', 'skipped'],
+          required: true,
+        },
+        reason: { type: String },
+        error: { type: String },
+        providerMessageId: { type: String },
+        at: { type: Date, default: Date.now },
+      },
+    ],
   },
   {
     timestamps: true,
@@ -0,0 +1,59 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import { OUTBOX_EVENT_TYPES, type OutboxEventType } from '../utils/booking-outbox.util';
+
+/**
+ * A side effect of a booking waiting to run (services/outbox.service).
+ * Rows are written before the appointment they belong to, so a request
+ * that dies afterwards leaves them behind for the worker rather than
+ * losing them.
+ *
+ *   pending → processing → done
+ *                        → pending (retry at nextAttemptAt) … → failed
+ *   pending → discarded  (the appointment was never created)
+ */
+
+export type OutboxEventStatus = 'pending' | 'processing' | 'done' | 'failed' | 'discarded';
+
+export interface IOutboxEvent {
+  type: OutboxEventType;
+  appointmentId: mongoose.Types.ObjectId;
+  payload?: Record<string, unknown> | null;
+  status: OutboxEventStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date | null;
+  lastError?: string | null;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OutboxEventSchema = new Schema<IOutboxEvent & Document>(
+  {
+    type: { type: String, enum: OUTBOX_EVENT_TYPES, required: true },
+    appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment', required: true, index: true },
+    payload: { type: Schema.Types.Mixed, default: null },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'done', 'failed', 'discarded'],
+      default: 'pending',
+    },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lockedAt: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    completedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// Sweep: due rows and rows stuck in processing
+OutboxEventSchema.index({ status: 1, nextAttemptAt: 1 });
+// Finished rows are kept for 14 days
+OutboxEventSchema.index({ completedAt: 1 }, { expireAfterSeconds: 14 * 24 * 60 * 60 });
+
+export default mongoose.model<IOutboxEvent & Document>(
+  'OutboxEvent',
+  OutboxEventSchema,
+  'outbox_events',
+);
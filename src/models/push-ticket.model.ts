@@ -0,0 +1,80 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * One push message to one device, from send through Expo's receipt.
+ *
+ *   pending    not yet accepted by Expo (first send in flight)
+ *   retrying   transient failure; resent at `nextAttemptAt`
+ *   sent       ticket issued; waiting for the receipt
+ *   delivered  receipt ok — handed to Apple / Google
+ *   failed     permanent error, dead token, or out of attempts
+ *   expired    no receipt within Expo's 24h retention
+ *
+ * The message is kept so retries can resend it.
+ */
+
+export type PushTicketStatus = 'pending' | 'retrying' | 'sent' | 'delivered' | 'failed' | 'expired';
+
+export interface IPushTicket {
+  userId: mongoose.Types.ObjectId;
+  notificationId?: mongoose.Types.ObjectId | null;
+  token: string;
+  message: {
+    title: string;
+    body: string;
+    data?: Record<string, string>;
+  };
+  status: PushTicketStatus;
+  ticketId?: string | null;
+  errorCode?: string | null;
+  error?: string | null;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  sentAt?: Date | null;
+  receiptCheckedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PushTicketSchema = new Schema<IPushTicket & Document>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    notificationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notification',
+      default: null,
+      index: true,
+    },
+    token: { type: String, required: true },
+    message: {
+      title: { type: String, required: true },
+      body: { type: String, required: true },
+      data: { type: Schema.Types.Mixed, default: {} },
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'retrying', 'sent', 'delivered', 'failed', 'expired'],
+      default: 'pending',
+    },
+    ticketId: { type: String, default: null },
+    errorCode: { type: String, default: null },
+    error: { type: String, default: null },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: null },
+    sentAt: { type: Date, default: null },
+    receiptCheckedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// Receipt polling and retry sweeps
+PushTicketSchema.index({ status: 1, sentAt: 1 });
+PushTicketSchema.index({ status: 1, nextAttemptAt: 1 });
+// Outcomes are only interesting for a while
+PushTicketSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default mongoose.model<IPushTicket & Document>(
+  'PushTicket',
+  PushTicketSchema,
+  'push_tickets',
+);
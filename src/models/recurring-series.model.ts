@@ -0,0 +1,105 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import {
+  RECURRENCE_FREQUENCIES,
+  type ConflictReason,
+  type OccurrenceTime,
+  type RecurrenceFrequency,
+} from '../utils/recurring-series.util';
+
+/**
+ * A customer's recurring booking (services/recurring-series). Each
+ * occurrence is its own Appointment carrying `recurrenceSeriesId` (this
+ * document's id) and `recurrenceIndex`; the series keeps what is needed to
+ * book the next ones as the rolling window moves.
+ *
+ *   active → ended (last occurrence booked) | cancelled
+ */
+
+export type RecurringSeriesStatus = 'active' | 'ended' | 'cancelled';
+
+export interface ISeriesConflict {
+  index: number;
+  appointmentDate: Date;
+  reason: ConflictReason;
+  alternatives: OccurrenceTime[];
+  detectedAt: Date;
+}
+
+export interface IRecurringSeries {
+  customerId: mongoose.Types.ObjectId;
+  vendorServiceId: mongoose.Types.ObjectId;
+  // Chosen staff member; null = no preference
+  staffId?: mongoose.Types.ObjectId | null;
+  frequency: RecurrenceFrequency;
+  // Date of occurrence 0
+  anchorDate: Date;
+  startTime: string;
+  endTime: string;
+  // null = open-ended
+  occurrences: number | null;
+  // Next occurrence index to book (earlier ones are booked, skipped or in `conflicts`)
+  nextIndex: number;
+  // Date of occurrence `nextIndex` — the roll-forward sweep only reads series it has come near
+  nextOccurrenceAt?: Date | null;
+  // Booking fields copied onto every later occurrence (price, place, notes …)
+  template: Record<string, any>;
+  paymentMode?: string | null;
+  // Card later occurrences are charged to; the customer's first saved card when unset
+  paymentMethodId?: string | null;
+  // Occurrences the scheduler couldn't book, waiting for the customer
+  conflicts: ISeriesConflict[];
+  status: RecurringSeriesStatus;
+  cancelledAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimeSchema = new Schema<OccurrenceTime>(
+  {
+    startTime: { type: String, required: true },
+    endTime: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const ConflictSchema = new Schema<ISeriesConflict>(
+  {
+    index: { type: Number, required: true },
+    appointmentDate: { type: Date, required: true },
+    reason: { type: String, enum: ['booked', 'unavailable', 'no_availability'], required: true },
+    alternatives: { type: [TimeSchema], default: [] },
+    detectedAt: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const RecurringSeriesSchema = new Schema<IRecurringSeries & Document>(
+  {
+    customerId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    vendorServiceId: { type: Schema.Types.ObjectId, ref: 'VendorService', required: true },
+    staffId: { type: Schema.Types.ObjectId, ref: 'Staff', default: null },
+    frequency: { type: String, enum: RECURRENCE_FREQUENCIES, required: true },
+    anchorDate: { type: Date, required: true },
+    startTime: { type: String, required: true },
+    endTime: { type: String, required: true },
+    occurrences: { type: Number, default: null },
+    nextIndex: { type: Number, default: 0 },
+    nextOccurrenceAt: { type: Date, default: null },
+    template: { type: Schema.Types.Mixed, default: {} },
+    paymentMode: { type: String, default: null },
+    paymentMethodId: { type: String, default: null },
+    conflicts: { type: [ConflictSchema], default: [] },
+    status: { type: String, enum: ['active', 'ended', 'cancelled'], default: 'active' },
+    cancelledAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// Roll-forward sweep
+RecurringSeriesSchema.index({ status: 1, nextOccurrenceAt: 1 });
+
+export default mongoose.model<IRecurringSeries & Document>(
+  'RecurringSeries',
+  RecurringSeriesSchema,
+  'recurring_series',
+);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * A customer's request to move an appointment (services/reschedule.service).
+ * Vendors without approval turned on get an `accepted` row straight away,
+ * so every move is on record. At most one request per appointment is open.
+ *
+ *   pending → accepted | declined | countered | withdrawn
+ *   countered → accepted (customer picked a proposal) | declined | withdrawn
+ */
+
+export type RescheduleRequestStatus =
+  | 'pending'
+  | 'countered'
+  | 'accepted'
+  | 'declined'
+  | 'withdrawn';
+
+export const OPEN_RESCHEDULE_STATUSES: RescheduleRequestStatus[] = ['pending', 'countered'];
+
+export interface IRescheduleSlot {
+  appointmentDate: Date;
+  startTime: string;
+  endTime: string;
+}
+
+export interface IRescheduleRequest {
+  appointmentId: mongoose.Types.ObjectId;
+  vendorId: mongoose.Types.ObjectId;
+  customerId: mongoose.Types.ObjectId;
+  status: RescheduleRequestStatus;
+  // The appointment's time when the request was made
+  from: IRescheduleSlot;
+  // What the customer asked for
+  requested: IRescheduleSlot;
+  // Vendor's alternatives, when countered
+  proposals: IRescheduleSlot[];
+  // Where the appointment ended up, once accepted
+  movedTo?: IRescheduleSlot | null;
+  customerNote?: string | null;
+  vendorNote?: string | null;
+  autoAccepted: boolean;
+  respondedAt?: Date | null;
+  resolvedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SlotSchema = new Schema<IRescheduleSlot>(
+  {
+    appointmentDate: { type: Date, required: true },
+    startTime: { type: String, required: true },
+    endTime: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const RescheduleRequestSchema = new Schema<IRescheduleRequest & Document>(
+  {
+    appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment', required: true, index: true },
+    vendorId: { type: Schema.Types.ObjectId, ref: 'Vendor', required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'countered', 'accepted', 'declined', 'withdrawn'],
+      default: 'pending',
+    },
+    from: { type: SlotSchema, required: true },
+    requested: { type: SlotSchema, required: true },
+    proposals: { type: [SlotSchema], default: [] },
+    movedTo: { type: SlotSchema, default: null },
+    customerNote: { type: String, default: null },
+    vendorNote: { type: String, default: null },
+    autoAccepted: { type: Boolean, default: false },
+    respondedAt: { type: Date, default: null },
+    resolvedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// Vendor inbox: open requests, newest first
+RescheduleRequestSchema.index({ vendorId: 1, status: 1, createdAt: -1 });
+
+export default mongoose.model<IRescheduleRequest & Document>(
+  'RescheduleRequest',
+  RescheduleRequestSchema,
+  'reschedule_requests',
+);
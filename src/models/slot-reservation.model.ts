@@ -0,0 +1,36 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * A booking in flight. Held only while the appointment is being inserted
+ * (utils/booking-outbox): the unique index lets one request per slot and
+ * staff member through, and the TTL clears reservations left behind by a
+ * request that died before dropping its own.
+ */
+
+export interface ISlotReservation {
+  slotKey: string;
+  // Staff member id, or 'any' for "no preference"
+  staffKey: string;
+  appointmentId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const SlotReservationSchema = new Schema<ISlotReservation & Document>(
+  {
+    slotKey: { type: String, required: true },
+    staffKey: { type: String, required: true },
+    appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment', required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+SlotReservationSchema.index({ slotKey: 1, staffKey: 1 }, { unique: true });
+SlotReservationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISlotReservation & Document>(
+  'SlotReservation',
+  SlotReservationSchema,
+  'slot_reservations',
+);
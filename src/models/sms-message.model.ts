@@ -0,0 +1,61 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * Every text we send or receive. Outbound texts held back by quiet hours
+ * wait here as `pending` until `sendAfter`; inbound texts keep the keyword
+ * we acted on.
+ */
+
+export type SmsDirection = 'outbound' | 'inbound';
+export type SmsMessageStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled' | 'received';
+
+export interface ISmsMessage {
+  userId?: mongoose.Types.ObjectId | null;
+  direction: SmsDirection;
+  phone: string; // E.164 — recipient for outbound, sender for inbound
+  body: string;
+  status: SmsMessageStatus;
+  notificationType?: string;
+  keyword?: string | null;
+  // Outbound only: earliest send time, and the point past which it is no use
+  sendAfter?: Date | null;
+  expiresAt?: Date | null;
+  provider?: string;
+  providerMessageId?: string;
+  error?: string;
+  sentAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SmsMessageSchema = new Schema<ISmsMessage & Document>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', default: null, index: true },
+    direction: { type: String, enum: ['outbound', 'inbound'], required: true },
+    phone: { type: String, required: true, index: true },
+    body: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'sending', 'sent', 'failed', 'cancelled', 'received'],
+      required: true,
+    },
+    notificationType: String,
+    keyword: { type: String, default: null },
+    sendAfter: { type: Date, default: null },
+    expiresAt: { type: Date, default: null },
+    provider: String,
+    providerMessageId: String,
+    error: String,
+    sentAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// Deferred-send sweep
+SmsMessageSchema.index({ status: 1, sendAfter: 1 });
+
+export default mongoose.model<ISmsMessage & Document>(
+  'SmsMessage',
+  SmsMessageSchema,
+  'sms_messages',
+);
@@ -0,0 +1,48 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * Stripe webhook events we have seen, keyed by event id. Stripe delivers
+ * at least once and retries on any non-2xx, so an event is only processed
+ * if it isn't already here as `processed` (or being processed right now).
+ */
+
+export type StripeEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface IStripeEvent {
+  eventId: string;
+  type: string;
+  // Connected account the event came from, for Connect events
+  account?: string | null;
+  status: StripeEventStatus;
+  attempts: number;
+  error?: string | null;
+  processedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StripeEventSchema = new Schema<IStripeEvent & Document>(
+  {
+    eventId: { type: String, required: true, unique: true },
+    type: { type: String, required: true },
+    account: { type: String, default: null },
+    status: {
+      type: String,
+      enum: ['processing', 'processed', 'failed'],
+      default: 'processing',
+    },
+    attempts: { type: Number, default: 1 },
+    error: { type: String, default: null },
+    processedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+// Stripe stops retrying after three days; keep ids well past that
+StripeEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default mongoose.model<IStripeEvent & Document>(
+  'StripeEvent',
+  StripeEventSchema,
+  'stripe_events',
+);
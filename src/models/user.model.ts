@@ -67,7 +67,8 @@ const UserSchema: Schema = new Schema(
     // Admin sub-role hierarchy (only relevant when role === 'admin').
     // super_admin: full access including destructive/financial actions.
     // support_agent: read + safe support actions (impersonation with reason,
-    //                wallet credit up to a per-day cap enforced by policy).
+    //                refunds and wallet credit up to per-day caps, see
+    //                config/financial-limits).
     adminRole: {
       type: String,
       enum: ['super_admin', 'support_agent', null],
@@ -78,11 +79,22 @@ const UserSchema: Schema = new Schema(
       default: 0,
     },
     passwordChangedAt: Date,
-    // Push notification token (Expo Push Token)
+    // Push notification token (Expo Push Token) — single device, from before pushTokens
     expoPushToken: {
       type: String,
       sparse: true,
     },
+    // One entry per device; tokens Expo reports as unregistered are pruned
+    pushTokens: [
+      {
+        _id: false,
+        token: { type: String, required: true },
+        platform: { type: String, enum: ['ios', 'android', 'web', null], default: null },
+        deviceName: { type: String, default: null },
+        createdAt: { type: Date, default: Date.now },
+        lastUsedAt: { type: Date, default: Date.now },
+      },
+    ],
     stripeCustomerId: {
       type: String,
       sparse: true,
@@ -93,6 +105,16 @@ const UserSchema: Schema = new Schema(
       type: String,
       trim: true,
     },
+    // IANA zone for SMS quiet hours; platform default when unset
+    timezone: {
+      type: String,
+      default: null,
+    },
+    // Preferred language for emails ("es", "es-MX"); English when unset
+    language: {
+      type: String,
+      default: null,
+    },
     smsConsent: {
       type: Boolean,
       default: false,
@@ -104,7 +126,12 @@ const UserSchema: Schema = new Schema(
     smsConsentMethod: {
       // How the user gave consent — for audit trail required by TCPA
       type: String,
-      enum: ['signup_checkbox', 'profile_toggle', 'verbal', 'imported', null],
+      enum: ['signup_checkbox', 'profile_toggle', 'verbal', 'imported', 'sms_keyword', null],
+      default: null,
+    },
+    smsOptedOutAt: {
+      // Set when the user texts STOP; START only re-subscribes these users
+      type: Date,
       default: null,
     },
     marketingEmailConsent: {
@@ -229,6 +256,7 @@ UserSchema.index({ isActive: 1 });
 UserSchema.index({ role: 1, createdAt: -1 });
 // Index for push notification queries
 UserSchema.index({ expoPushToken: 1 }, { sparse: true });
+UserSchema.index({ 'pushTokens.token': 1 });
 // Index for activation token lookup
 UserSchema.index({ activationToken: 1 }, { sparse: true });
 // Index for auth provider filtering
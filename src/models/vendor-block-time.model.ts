@@ -12,6 +12,11 @@ export interface IVendorBlockTime extends Document {
   toTime?: string;
   reason?: 'vacation' | 'sick' | 'holiday' | 'training' | 'other';
   notes?: string;
+  // 'external' entries are busy times imported from a connected calendar
+  // and are replaced on every sync
+  source?: 'manual' | 'external';
+  externalCalendarId?: mongoose.Types.ObjectId | null;
+  externalUid?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +40,14 @@ const VendorBlockTimeSchema = new Schema<IVendorBlockTime>(
       default: 'vacation',
     },
     notes: { type: String, trim: true },
+    source: { type: String, enum: ['manual', 'external'], default: 'manual' },
+    externalCalendarId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ExternalCalendar',
+      default: null,
+      index: true,
+    },
+    externalUid: { type: String },
   },
   { timestamps: true },
 );
@@ -4,6 +4,8 @@ import mongoose, { Schema } from 'mongoose';
 export interface IVendorPayout extends Document {
   vendorId: mongoose.Types.ObjectId;
   appointmentId?: mongoose.Types.ObjectId;
+  // Which payment this payout draws on — deposit bookings get one per part
+  paymentPart: 'full' | 'deposit' | 'balance';
   // Amounts in cents (matches Stripe convention)
   grossAmount: number; // What customer paid (excluding tax)
   platformFee: number; // Commission taken by platform
@@ -11,16 +13,24 @@ export interface IVendorPayout extends Document {
   netAmount: number; // grossAmount - platformFee = paid to vendor
   currency: string; // 'usd'
   // Status of the payout
-  status: 'pending' | 'in_transit' | 'paid' | 'failed' | 'reversed' | 'canceled';
+  // held: kept back while the customer's charge is disputed
+  status: 'pending' | 'held' | 'in_transit' | 'paid' | 'failed' | 'reversed' | 'canceled';
   // Stripe references
   stripePaymentIntentId?: string; // Source payment
   stripeTransferId?: string; // Transfer from platform to connected account
   stripePayoutId?: string; // Final payout from connected account to bank
   failureReason?: string;
+  // Dispute that held or reversed this payout
+  disputeId?: mongoose.Types.ObjectId | null;
+  holdReason?: string;
+  reversedAmount?: number; // cents pulled back from the vendor
   // Audit
   createdAt: Date;
+  transferredAt?: Date;
   paidAt?: Date;
   failedAt?: Date;
+  heldAt?: Date;
+  reversedAt?: Date;
 }
 
 const VendorPayoutSchema = new Schema<IVendorPayout>(
@@ -37,6 +47,11 @@ const VendorPayoutSchema = new Schema<IVendorPayout>(
       default: null,
       index: true,
     },
+    paymentPart: {
+      type: String,
+      enum: ['full', 'deposit', 'balance'],
+      default: 'full',
+    },
     grossAmount: { type: Number, required: true },
     platformFee: { type: Number, required: true, default: 0 },
     taxAmount: { type: Number, required: true, default: 0 },
@@ -44,7 +59,7 @@ const VendorPayoutSchema = new Schema<IVendorPayout>(
     currency: { type: String, required: true, default: 'usd' },
     status: {
       type: String,
-      enum: ['pending', 'in_transit', 'paid', 'failed', 'reversed', 'canceled'],
+      enum: ['pending', 'held', 'in_transit', 'paid', 'failed', 'reversed', 'canceled'],
       default: 'pending',
       index: true,
     },
@@ -52,8 +67,14 @@ const VendorPayoutSchema = new Schema<IVendorPayout>(
     stripeTransferId: { type: String, index: true },
     stripePayoutId: { type: String, index: true },
     failureReason: { type: String },
+    disputeId: { type: Schema.Types.ObjectId, ref: 'Dispute', default: null },
+    holdReason: { type: String },
+    reversedAmount: { type: Number, default: 0 },
+    transferredAt: { type: Date },
     paidAt: { type: Date },
     failedAt: { type: Date },
+    heldAt: { type: Date },
+    reversedAt: { type: Date },
   },
   {
     timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
@@ -95,6 +95,27 @@ const VendorServiceSchema: Schema = new Schema(
       type: Boolean,
       default: false,
     },
+    // Deposit taken at booking; the balance is charged to the saved card
+    // on completion or `balanceDueHoursBefore` hours ahead of the appointment.
+    deposit: {
+      enabled: { type: Boolean, default: false },
+      type: { type: String, enum: ['fixed', 'percentage'], default: 'percentage' },
+      value: { type: Number, default: 0, min: 0 },
+      balanceCapture: {
+        type: String,
+        enum: ['on_completion', 'before_appointment'],
+        default: 'on_completion',
+      },
+      balanceDueHoursBefore: { type: Number, default: 24, min: 0 },
+    },
+    // Buffer time around appointments, minimum notice and booking horizon.
+    // maxAdvanceDays 0 = customers can book any date the slots cover.
+    bookingRules: {
+      bufferBeforeMinutes: { type: Number, default: 0, min: 0 },
+      bufferAfterMinutes: { type: Number, default: 0, min: 0 },
+      minNoticeMinutes: { type: Number, default: 0, min: 0 },
+      maxAdvanceDays: { type: Number, default: 0, min: 0 },
+    },
     comboServiceIds: [
       {
         type: mongoose.Schema.Types.ObjectId,
@@ -0,0 +1,55 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import { WEBHOOK_EVENTS, type WebhookEvent } from '../utils/vendor-webhook.util';
+
+/**
+ * A vendor's webhook subscription: an endpoint and the booking events it
+ * wants. The signing secret is shown once on creation (and on rotation)
+ * and never selected by default.
+ */
+
+export interface IVendorWebhook {
+  vendorId: mongoose.Types.ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string;
+  isActive: boolean;
+  lastDeliveryAt?: Date | null;
+  lastDeliveryStatus?: 'succeeded' | 'failed' | null;
+  // Deliveries that failed for good since the last success
+  consecutiveFailures: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VendorWebhookSchema = new Schema<IVendorWebhook & Document>(
+  {
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+      index: true,
+    },
+    url: { type: String, required: true, trim: true },
+    description: { type: String, trim: true, maxlength: 200 },
+    events: {
+      type: [{ type: String, enum: WEBHOOK_EVENTS }],
+      validate: [(events: string[]) => events.length > 0, 'At least one event is required'],
+    },
+    secret: { type: String, required: true, select: false },
+    isActive: { type: Boolean, default: true },
+    lastDeliveryAt: { type: Date, default: null },
+    lastDeliveryStatus: { type: String, enum: ['succeeded', 'failed', null], default: null },
+    consecutiveFailures: { type: Number, default: 0 },
+  },
+  { timestamps: true },
+);
+
+// Subscriptions for an event
+VendorWebhookSchema.index({ vendorId: 1, isActive: 1, events: 1 });
+
+export default mongoose.model<IVendorWebhook & Document>(
+  'VendorWebhook',
+  VendorWebhookSchema,
+  'vendor_webhooks',
+);
@@ -1,6 +1,7 @@
 import type { Document } from 'mongoose';
 import mongoose, { Schema } from 'mongoose';
 import type { IVendor } from './../interfaces/vendor.interface';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../utils/timezone.util';
 
 const SocialMediaLinkSchema: Schema = new Schema({
   mediaName: {
@@ -49,6 +50,17 @@ const VendorSchema: Schema = new Schema(
     location: {
       type: String,
     },
+    // IANA timezone the vendor operates in (e.g. 'America/Chicago').
+    // Slot times, booking collisions, reminders and refund windows are all
+    // interpreted in this zone rather than the server's.
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimezone,
+        message: (props: { value: string }) => `${props.value} is not a valid IANA timezone`,
+      },
+    },
     // GeoJSON Point for "near me" search. Format: { type: 'Point', coordinates: [lng, lat] }
     geoLocation: {
       type: {
@@ -190,6 +202,12 @@ const VendorSchema: Schema = new Schema(
       min: 0,
       max: 100,
     },
+    // Customer rescheduling rules (utils/reschedule). 0 = no limit.
+    reschedulePolicy: {
+      minNoticeHours: { type: Number, default: 0, min: 0 },
+      maxReschedules: { type: Number, default: 0, min: 0 },
+      requireApproval: { type: Boolean, default: false },
+    },
     // Reference to User record (for vendor login)
     userId: {
       type: Schema.Types.ObjectId,
@@ -0,0 +1,68 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * One attempt series at delivering an event to a vendor webhook. The
+ * payload is stored as sent so a delivery can be replayed byte for byte;
+ * a replay is a new delivery with the same `eventId`, which receivers can
+ * use to deduplicate.
+ */
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'succeeded' | 'failed';
+
+export interface IWebhookDelivery {
+  webhookId: mongoose.Types.ObjectId;
+  vendorId: mongoose.Types.ObjectId;
+  event: string;
+  eventId: string;
+  appointmentId?: mongoose.Types.ObjectId | null;
+  // Serialized JSON body
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  durationMs?: number | null;
+  lastAttemptAt?: Date | null;
+  deliveredAt?: Date | null;
+  replayOf?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery & Document>(
+  {
+    webhookId: { type: Schema.Types.ObjectId, ref: 'VendorWebhook', required: true },
+    vendorId: { type: Schema.Types.ObjectId, ref: 'Vendor', required: true },
+    event: { type: String, required: true },
+    eventId: { type: String, required: true, index: true },
+    appointmentId: { type: Schema.Types.ObjectId, ref: 'Appointment', default: null },
+    payload: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'retrying', 'succeeded', 'failed'],
+      default: 'pending',
+    },
+    attempts: { type: Number, default: 0 },
+    responseStatus: { type: Number, default: null },
+    responseBody: { type: String, default: null },
+    error: { type: String, default: null },
+    durationMs: { type: Number, default: null },
+    lastAttemptAt: { type: Date, default: null },
+    deliveredAt: { type: Date, default: null },
+    replayOf: { type: Schema.Types.ObjectId, ref: 'WebhookDelivery', default: null },
+  },
+  { timestamps: true },
+);
+
+// Delivery log per subscription, newest first
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ webhookId: 1, status: 1 });
+// Keep the log for 30 days
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default mongoose.model<IWebhookDelivery & Document>(
+  'WebhookDelivery',
+  WebhookDeliverySchema,
+  'webhook_deliveries',
+);
@@ -1,23 +1,42 @@
 import express from 'express';
 import { protectAdmin } from '../../middlewares/admin-auth.middleware';
-import { requireSuperAdmin } from '../../middlewares/admin-role.middleware';
+import { requireAdminRole, requireSuperAdmin } from '../../middlewares/admin-role.middleware';
 import {
   adminIssueRefund,
   adminAddWalletCredit,
   adminGetWalletHistory,
+  adminGetFinancialLimits,
+  adminListFinancialActions,
+  adminApproveFinancialAction,
+  adminRejectFinancialAction,
 } from '../../controllers/admin-financial.controller';
 
 const router = express.Router();
 
 router.use(protectAdmin);
 
-// Refunds — super_admin only (financial impact)
-router.post('/appointments/:id/refund', requireSuperAdmin, adminIssueRefund);
+// Refunds and wallet credit — capped per role per day; large amounts wait for
+// a second super_admin (config/financial-limits)
+router.post(
+  '/appointments/:id/refund',
+  requireAdminRole('super_admin', 'support_agent'),
+  adminIssueRefund,
+);
+router.post(
+  '/users/:id/wallet-credit',
+  requireAdminRole('super_admin', 'support_agent'),
+  adminAddWalletCredit,
+);
 
 // Wallet history — any admin can read
 router.get('/users/:id/wallet-history', adminGetWalletHistory);
 
-// Wallet credit — super_admin only (financial impact)
-router.post('/users/:id/wallet-credit', requireSuperAdmin, adminAddWalletCredit);
+// The signed-in admin's caps and usage today
+router.get('/financial-limits', adminGetFinancialLimits);
+
+// Approval queue and history — any admin can read; only super_admin reviews
+router.get('/financial-actions', adminListFinancialActions);
+router.post('/financial-actions/:id/approve', requireSuperAdmin, adminApproveFinancialAction);
+router.post('/financial-actions/:id/reject', requireSuperAdmin, adminRejectFinancialAction);
 
 export default router;
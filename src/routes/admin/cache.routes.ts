@@ -1,6 +1,10 @@
 import express from 'express';
 import { protectAdmin } from '../../middlewares/admin-auth.middleware';
-import { clearCache, getCacheStats } from '../../middlewares/cache.middleware';
+import {
+  clearCache,
+  getCacheStats,
+  invalidateCacheByTags,
+} from '../../middlewares/cache.middleware';
 
 const router = express.Router();
 
@@ -12,6 +16,7 @@ router.use(protectAdmin);
  * /api/admin/cache/stats:
  *   get:
  *     summary: Get cache statistics
+ *     description: Cluster-wide when Redis-backed, per-instance for the memory backend
  *     tags: [Cache]
  *     security:
  *       - bearerAuth: []
@@ -35,4 +40,32 @@ router.get('/stats', getCacheStats);
  */
 router.post('/clear', clearCache);
 
+/**
+ * @swagger
+ * /api/admin/cache/invalidate:
+ *   post:
+ *     summary: Invalidate cache entries by tag
+ *     tags: [Cache]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [categories, promotions]
+ *     responses:
+ *       200:
+ *         description: Number of entries removed
+ *       400:
+ *         description: Missing tags
+ */
+router.post('/invalidate', invalidateCacheByTags);
+
 export default router;
@@ -1,11 +1,13 @@
 import express from 'express';
 import { protectAdmin } from '../../middlewares/admin-auth.middleware';
+import { invalidateCategoryCache } from '../../middlewares/cache.middleware';
 import * as categoryController from '../../controllers/category.controller';
 
 const router = express.Router();
 
 // All admin routes require authentication and admin role
 router.use(protectAdmin);
+router.use(invalidateCategoryCache);
 
 router.route('/').get(categoryController.getAllCategories).post(categoryController.createCategory);
 
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { protectAdmin } from '../../middlewares/admin-auth.middleware';
+import { requireSuperAdmin } from '../../middlewares/admin-role.middleware';
+import {
+  acceptDispute,
+  getDispute,
+  getDisputeEvidence,
+  listDisputes,
+  submitDisputeEvidence,
+} from '../../controllers/dispute.controller';
+
+const router = Router();
+
+// All admin routes require authentication
+router.use(protectAdmin);
+
+// GET /api/v1/admin/disputes - List disputes (?status=, ?open=true, ?vendorId=)
+router.get('/', listDisputes);
+
+// GET /api/v1/admin/disputes/:id - Dispute with appointment and payouts
+router.get('/:id', getDispute);
+
+// GET /api/v1/admin/disputes/:id/evidence - Draft evidence, timeline and chat transcript
+router.get('/:id/evidence', getDisputeEvidence);
+
+// POST /api/v1/admin/disputes/:id/evidence - Save or submit evidence — super_admin only
+router.post('/:id/evidence', requireSuperAdmin, submitDisputeEvidence);
+
+// POST /api/v1/admin/disputes/:id/accept - Concede the dispute — super_admin only
+router.post('/:id/accept', requireSuperAdmin, acceptDispute);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { protectAdmin } from '../../middlewares/admin-auth.middleware';
+import {
+  getEmailTemplates,
+  previewEmailTemplate,
+  viewEmailTemplatePreview,
+} from '../../controllers/email-template.controller';
+
+const router = Router();
+
+// All admin routes require authentication
+router.use(protectAdmin);
+
+// GET /api/v1/admin/email-templates - List templates with variables and locales
+router.get('/', getEmailTemplates);
+
+// GET /api/v1/admin/email-templates/:id/preview - Rendered HTML (or ?format=text) with example values
+router.get('/:id/preview', viewEmailTemplatePreview);
+
+// POST /api/v1/admin/email-templates/:id/preview - Render with given locale and variables
+router.post('/:id/preview', previewEmailTemplate);
+
+export default router;
@@ -28,6 +28,8 @@ import waitlistRoutes from './waitlist.routes';
 import searchLogRoutes from './search-log.routes';
 import scheduledNotificationRoutes from './scheduled-notification.routes';
 import adminFinancialRoutes from './admin-financial.routes';
+import emailTemplateRoutes from './email-template.routes';
+import disputeRoutes from './dispute.routes';
 import { syncAdmin, getAdminProfile } from '../../controllers/admin-portal.controller';
 import { protectAdmin } from '../../middlewares/admin-auth.middleware';
 import { AppError } from '../../utils/appError.util';
@@ -134,6 +136,8 @@ router.use('/referrals', referralRoutes);
 router.use('/waitlist', waitlistRoutes);
 router.use('/search-logs', searchLogRoutes);
 router.use('/scheduled-notifications', scheduledNotificationRoutes);
-router.use('/', adminFinancialRoutes); // /appointments/:id/refund, /users/:id/wallet-credit, /users/:id/wallet-history
+router.use('/email-templates', emailTemplateRoutes);
+router.use('/disputes', disputeRoutes);
+router.use('/', adminFinancialRoutes); // /appointments/:id/refund, /users/:id/wallet-credit, /users/:id/wallet-history, /financial-limits, /financial-actions
 
 export default router;
@@ -6,6 +6,7 @@ import {
   getAppointmentById,
   updateAppointmentStatus,
 } from '../../controllers/manage-appointment.controller';
+import { getAdminAppointmentTimeline } from '../../controllers/appointment-timeline.controller';
 
 const router = express.Router();
 
@@ -14,6 +15,7 @@ router.use(protectAdmin);
 
 router.post('/', getAppointments);
 router.get('/:id', getAppointmentById);
+router.get('/:id/timeline', getAdminAppointmentTimeline);
 router.patch(
   '/:id/status',
   [
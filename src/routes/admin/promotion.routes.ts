@@ -1,11 +1,13 @@
 import express from 'express';
 import { protectAdmin } from '../../middlewares/admin-auth.middleware';
+import { invalidatePromotionCache } from '../../middlewares/cache.middleware';
 import * as promotionController from '../../controllers/promotion.controller';
 
 const router = express.Router();
 
 // All admin routes require authentication and admin role
 router.use(protectAdmin);
+router.use(invalidatePromotionCache);
 
 router
   .route('/')
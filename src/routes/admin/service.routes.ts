@@ -1,5 +1,6 @@
 import express from 'express';
 import { protectAdmin } from '../../middlewares/admin-auth.middleware';
+import { invalidateServiceCache } from '../../middlewares/cache.middleware';
 import {
   createService,
   getServices,
@@ -12,6 +13,7 @@ const router = express.Router();
 
 // All admin routes require authentication and admin role
 router.use(protectAdmin);
+router.use(invalidateServiceCache);
 
 router.post('/', createService);
 router.get('/', getServices);
@@ -1,5 +1,6 @@
 import express from 'express';
 import { protectAdmin } from '../../middlewares/admin-auth.middleware';
+import { invalidateVendorCache } from '../../middlewares/cache.middleware';
 import {
   createVendor,
   getVendors,
@@ -19,6 +20,7 @@ const router = express.Router();
 
 // All admin routes require authentication and admin role
 router.use(protectAdmin);
+router.use(invalidateVendorCache);
 
 // Verification routes (must be before /:id routes)
 router.get('/verification/list', getVendorsByVerificationStatus);
@@ -0,0 +1,9 @@
+import express from 'express';
+import { getCalendarFeed } from '../controllers/calendar-feed.controller';
+
+const router = express.Router();
+
+// Public — the token in the file name is the credential
+router.get('/feeds/:file', getCalendarFeed);
+
+export default router;
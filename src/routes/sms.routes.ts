@@ -0,0 +1,9 @@
+import express from 'express';
+import { receiveInboundSms } from '../controllers/sms.controller';
+
+const router = express.Router();
+
+// Public — verified by the provider's signature. Twilio posts form-encoded.
+router.post('/inbound', express.urlencoded({ extended: false }), receiveInboundSms);
+
+export default router;
@@ -3,14 +3,34 @@ import { protect, authorize } from './../../middlewares/auth.middleware';
 import { appointmentOperations } from './../../controllers/appointment.controller';
 import {
   createRecurringSeries,
+  getRecurringSeries,
+  editRecurringOccurrence,
+  resolveRecurringConflict,
   cancelRecurringSeries,
 } from './../../controllers/recurring-appointment.controller';
+import { downloadAppointmentIcs } from './../../controllers/calendar-feed.controller';
+import { getCustomerAppointmentTimeline } from './../../controllers/appointment-timeline.controller';
 import { appointmentValidationRules } from './../../utils/validation.util';
+import { bookingLimiter } from '../../middlewares/rateLimiter.middleware';
 
 const router = express.Router();
 
-router.post('/', appointmentOperations);
-router.post('/recurring', createRecurringSeries);
-router.delete('/recurring/:seriesId', cancelRecurringSeries);
+// Operations on a reschedule request the customer already has need a signed-in owner
+const SIGNED_IN_OPERATIONS = ['respond-reschedule-proposal', 'withdraw-reschedule-request'];
+
+router.post(
+  '/',
+  (req, res, next) =>
+    SIGNED_IN_OPERATIONS.includes(req.body?.type) ? protect(req, res, next) : next(),
+  bookingLimiter,
+  appointmentOperations,
+);
+router.post('/recurring', protect, bookingLimiter, createRecurringSeries);
+router.get('/recurring/:seriesId', protect, getRecurringSeries);
+router.patch('/recurring/occurrences/:appointmentId', protect, editRecurringOccurrence);
+router.post('/recurring/:seriesId/conflicts/:index', protect, resolveRecurringConflict);
+router.delete('/recurring/:seriesId', protect, cancelRecurringSeries);
+router.get('/:id/calendar.ics', protect, downloadAppointmentIcs);
+router.get('/:id/timeline', protect, getCustomerAppointmentTimeline);
 
 export default router;
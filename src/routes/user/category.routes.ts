@@ -1,8 +1,9 @@
 import express from 'express';
 import { getCategoryList } from './../../controllers/category.controller';
+import { cacheCategories } from '../../middlewares/cache.middleware';
 
 const router = express.Router();
 
-router.post('/', getCategoryList);
+router.post('/', cacheCategories, getCategoryList);
 
 export default router;
@@ -4,14 +4,21 @@ import {
   startCustomerConversation,
   listCustomerMessages,
   sendCustomerMessage,
+  markCustomerConversationRead,
+  sendCustomerTyping,
+  streamCustomerConversations,
 } from '../../controllers/chat.controller';
+import { chatSendLimiter } from '../../middlewares/rateLimiter.middleware';
 
 const router = express.Router();
 
 // Customer identified via `x-clerk-id` header (same pattern as wallet + addresses)
 router.get('/conversations', listCustomerConversations);
+router.get('/conversations/stream', streamCustomerConversations); // SSE
 router.post('/conversations', startCustomerConversation);
 router.get('/conversations/:id/messages', listCustomerMessages);
-router.post('/conversations/:id/messages', sendCustomerMessage);
+router.post('/conversations/:id/messages', chatSendLimiter, sendCustomerMessage);
+router.post('/conversations/:id/read', markCustomerConversationRead);
+router.post('/conversations/:id/typing', sendCustomerTyping);
 
 export default router;
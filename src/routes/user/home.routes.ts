@@ -5,12 +5,14 @@ import {
   getPopularServices,
   logServiceSearch,
 } from '../../controllers/home.controller';
+import { cacheHome } from '../../middlewares/cache.middleware';
+import { searchLogLimiter } from '../../middlewares/rateLimiter.middleware';
 
 const router = express.Router();
 
-router.get('/most-booked-services', getMostBookedServices);
-router.get('/most-searched-services', getMostSearchedServices);
-router.get('/popular-services', getPopularServices);
-router.post('/log-search', logServiceSearch);
+router.get('/most-booked-services', cacheHome, getMostBookedServices);
+router.get('/most-searched-services', cacheHome, getMostSearchedServices);
+router.get('/popular-services', cacheHome, getPopularServices);
+router.post('/log-search', searchLogLimiter, logServiceSearch);
 
 export default router;
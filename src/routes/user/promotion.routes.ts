@@ -1,15 +1,16 @@
 import express from 'express';
 import * as promotionController from '../../controllers/promotion.controller';
+import { cachePromotions } from '../../middlewares/cache.middleware';
 
 const router = express.Router();
 
 // Public routes - no authentication required
 
 // Get banner promotions (for home screen)
-router.get('/banners', promotionController.getBannerPromotions);
+router.get('/banners', cachePromotions, promotionController.getBannerPromotions);
 
 // Get all active promotions (for offers page)
-router.get('/', promotionController.getActivePromotions);
+router.get('/', cachePromotions, promotionController.getActivePromotions);
 
 // Validate a promo code
 router.post('/validate', promotionController.validatePromoCode);
@@ -7,12 +7,12 @@ import {
   getUserLocks,
   releaseUserLocks,
 } from '../../controllers/slot-lock.controller';
-import { paymentLimiter } from '../../middlewares/rateLimiter.middleware';
+import { slotLockLimiter } from '../../middlewares/rateLimiter.middleware';
 
 const router = express.Router();
 
 // Apply rate limiting to lock operations
-router.use(paymentLimiter);
+router.use(slotLockLimiter);
 
 /**
  * @swagger
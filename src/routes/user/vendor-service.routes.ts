@@ -6,6 +6,9 @@ import {
   searchVendorServices,
 } from './../../controllers/vendor-service.controller';
 import { listStaffForVendorService } from '../../controllers/staff.controller';
+import {
+  getVendorServiceCancellationPolicy,
+} from '../../controllers/cancellation-policy.controller';
 import { cacheVendorServices } from '../../middlewares/cache.middleware';
 
 const router = express.Router();
@@ -88,6 +91,8 @@ router.get('/search', cacheVendorServices, searchVendorServices);
 router.get('/:id', cacheVendorServices, getVendorServiceById);
 // Public staff picker — active staff who can deliver this service
 router.get('/:id/staff', listStaffForVendorService);
+// Refund tiers and fees shown before booking
+router.get('/:id/cancellation-policy', getVendorServiceCancellationPolicy);
 router.post('/', getVendorServiceList);
 
 export default router;
@@ -20,11 +20,23 @@ import { auditAdmin, auditAllMutations } from './middlewares/audit.middleware';
 import adminRoutes from './routes/admin';
 import userRoutes from './routes/user';
 import vendorRoutes from './routes/vendor';
+import calendarRoutes from './routes/calendar.routes';
+import smsRoutes from './routes/sms.routes';
 import { startNotificationScheduler } from './services/notification-scheduler.service';
 import { autoCompleteAppointments } from './services/scheduler.service';
 import { startWebhookWorker } from './services/webhook-queue.service';
 import { startEmailWorker } from './services/email-queue.service';
+import { startExternalCalendarSync } from './services/external-calendar-sync.service';
+import { startSmsScheduler } from './services/sms.service';
+import { startRecurringSeriesScheduler } from './services/recurring-series.service';
+import { startBalanceCaptureScheduler } from './services/deposit.service';
+import { startPushReceiptWorker } from './services/push-notification.service';
+import { startVendorWebhookWorker } from './services/vendor-webhook.service';
+import { startOutboxWorker } from './services/outbox.service';
 import { shutdownQueues } from './config/queue';
+import { closeCache } from './config/cache';
+import { closeRateLimitStore } from './config/rate-limit';
+import { shutdownChatRealtime } from './services/chat-realtime.service';
 
 const app = express();
 connectToDatabase();
@@ -85,20 +97,34 @@ setupSwagger(app);
 app.use('/api/v1/admin', auditAdmin, adminRoutes);
 app.use('/api/v1/customer', auditAllMutations, userRoutes);
 app.use('/api/v1/vendor', auditAllMutations, vendorRoutes);
+app.use('/api/v1/calendar', calendarRoutes);
+app.use('/api/v1/sms', smsRoutes);
 
 // Schedulers
 startNotificationScheduler();
 autoCompleteAppointments();
 setInterval(autoCompleteAppointments, 15 * 60 * 1000);
+startExternalCalendarSync();
+startSmsScheduler();
+startRecurringSeriesScheduler();
+startBalanceCaptureScheduler();
+startPushReceiptWorker();
 
 // Background queue workers (Redis-backed). No-op if REDIS_URL not set.
 startWebhookWorker();
 startEmailWorker();
+startVendorWebhookWorker();
+
+// Booking side effects — queued when Redis is set, swept every minute either way
+startOutboxWorker();
 
 // Graceful shutdown — flush queues before process exits
 const shutdown = async (signal: string) => {
   logger.info(`[Server] Received ${signal}, shutting down gracefully`);
+  await shutdownChatRealtime();
   await shutdownQueues();
+  await closeCache();
+  await closeRateLimitStore();
   process.exit(0);
 };
 process.on('SIGTERM', () => shutdown('SIGTERM'));
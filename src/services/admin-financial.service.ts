@@ -0,0 +1,369 @@
+/**
+ * Admin refunds and wallet credits, with per-role daily caps and
+ * four-eyes approval for large amounts (config/financial-limits).
+ *
+ * Every request is recorded as an AdminFinancialAction. Within the
+ * threshold it runs immediately; above it, it waits as `pending` until a
+ * different super_admin approves it, and only then runs. Each step —
+ * blocked by the cap, requested, approved, rejected, executed, failed —
+ * is written to the audit log.
+ */
+
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import {
+  APPROVAL_TTL_MS,
+  FINANCIAL_LIMITS,
+  effectiveAdminRole,
+  evaluateFinancialAction,
+  startOfUtcDay,
+  type FinancialActionType,
+} from '../config/financial-limits';
+import { logAuditEvent } from '../middlewares/audit.middleware';
+import AdminFinancialAction from '../models/admin-financial-action.model';
+import Appointment from '../models/appointment.model';
+import User from '../models/user.model';
+import WalletTransaction from '../models/wallet-transaction.model';
+import { AppError } from '../utils/appError.util';
+import { amountPaid, paymentPartsOf } from '../utils/deposit.util';
+import { refundAppointmentPayment } from './deposit.service';
+import { clawbackPointsForAppointment } from './loyalty.service';
+import { emitAppointmentEvent } from './vendor-webhook.service';
+
+type FinancialActionDocument = InstanceType<typeof AdminFinancialAction>;
+
+export interface AdminActor {
+  _id: unknown;
+  email?: string;
+  adminRole?: string | null;
+}
+
+export interface FinancialActionInput {
+  action: FinancialActionType;
+  amount: number;
+  reason: string;
+  note?: string;
+  appointmentId?: string;
+  targetUserId?: string;
+}
+
+export type FinancialActionOutcome =
+  | { status: 'executed'; record: FinancialActionDocument }
+  | { status: 'pending'; record: FinancialActionDocument };
+
+// Counted against the daily cap
+const COUNTED_STATUSES = ['pending', 'processing', 'executed'];
+
+const ACTION_LABELS: Record<FinancialActionType, string> = {
+  wallet_credit: 'wallet credit',
+  refund: 'refund',
+};
+
+const auditDetails = (record: FinancialActionDocument, actor: AdminActor) => ({
+  userId: String(actor._id),
+  userEmail: actor.email,
+  resourceId: String(record._id),
+  metadata: {
+    action: record.action,
+    amount: record.amount,
+    reason: record.reason,
+    requestedBy: String(record.requestedBy),
+    appointmentId: record.appointmentId ? String(record.appointmentId) : undefined,
+    targetUserId: record.targetUserId ? String(record.targetUserId) : undefined,
+  },
+});
+
+/**
+ * The appointment to refund, checked against what was paid. Run when the
+ * request is made and again when an approved request executes.
+ */
+export async function loadRefundTarget(appointmentId: string, amount?: number) {
+  const appointment = await Appointment.findById(appointmentId);
+  if (!appointment) throw new AppError('Appointment not found', 404);
+  if (!appointment.paymentIntentId) {
+    throw new AppError('This appointment has no Stripe payment to refund', 400);
+  }
+  if (appointment.paymentStatus === 'refunded') {
+    throw new AppError('This appointment has already been fully refunded', 400);
+  }
+
+  // Deposit bookings can only be refunded up to what has been charged so far
+  const paid = amountPaid(paymentPartsOf(appointment));
+  const refundAmount = amount ?? paid;
+  if (refundAmount <= 0) throw new AppError('Refund amount must be positive', 400);
+  if (refundAmount > paid) {
+    throw new AppError('Refund amount cannot exceed the amount paid', 400);
+  }
+  return { appointment, amount: refundAmount };
+}
+
+/**
+ * Sum of an admin's counted actions of one type since midnight UTC.
+ */
+export async function usedToday(
+  adminId: unknown,
+  action: FinancialActionType,
+  now: Date = new Date(),
+): Promise<number> {
+  const [row] = await AdminFinancialAction.aggregate<{ total: number }>([
+    {
+      $match: {
+        requestedBy: new mongoose.Types.ObjectId(String(adminId)),
+        action,
+        status: { $in: COUNTED_STATUSES },
+        createdAt: { $gte: startOfUtcDay(now) },
+      },
+    },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+  return Math.round((row?.total || 0) * 100) / 100;
+}
+
+async function executeRefund(record: FinancialActionDocument) {
+  const { appointment } = await loadRefundTarget(String(record.appointmentId), record.amount);
+  const refund = await refundAppointmentPayment(appointment, record.amount);
+  await appointment.save();
+  await emitAppointmentEvent('appointment.refunded', appointment);
+
+  // Reverse loyalty points earned on the refunded share
+  const pointsReversed = await clawbackPointsForAppointment(String(appointment._id)).catch(
+    (err) => {
+      logger.error(`[Loyalty] Clawback failed for appointment ${appointment._id}: ${err.message}`);
+      return 0;
+    },
+  );
+
+  return {
+    refundId: refund.refundId,
+    balanceRefundId: refund.balanceRefundId,
+    refundAmount: refund.amount,
+    refundStatus: refund.status,
+    isFullRefund: refund.isFullRefund,
+    pointsReversed,
+  };
+}
+
+async function executeWalletCredit(record: FinancialActionDocument) {
+  const user = await User.findById(record.targetUserId);
+  if (!user) throw new AppError('User not found', 404);
+
+  const before = (user as any).walletBalance || 0;
+  const after = Math.round((before + record.amount) * 100) / 100;
+  (user as any).walletBalance = after;
+  await user.save();
+
+  const tx = await WalletTransaction.create({
+    userId: user._id,
+    type: 'credit',
+    amount: record.amount,
+    reason: record.reason,
+    note: record.note,
+    adminId: record.requestedBy,
+    balanceAfter: after,
+  });
+
+  return {
+    transactionId: String(tx._id),
+    balanceBefore: before,
+    balanceAfter: after,
+    amount: record.amount,
+  };
+}
+
+/**
+ * Run a claimed (`processing`) action and record the outcome.
+ */
+async function runFinancialAction(
+  record: FinancialActionDocument,
+  actor: AdminActor,
+): Promise<FinancialActionDocument> {
+  try {
+    const result =
+      record.action === 'refund' ? await executeRefund(record) : await executeWalletCredit(record);
+    record.status = 'executed';
+    record.executedAt = new Date();
+    record.result = result;
+    await record.save();
+
+    const isRefund = record.action === 'refund';
+    await logAuditEvent(
+      isRefund ? 'ADMIN_REFUND' : 'ADMIN_WALLET_CREDIT',
+      isRefund ? 'appointment' : 'user',
+      {
+        userId: String(record.requestedBy),
+        userEmail: record.requestedByEmail,
+        resourceId: String(isRefund ? record.appointmentId : record.targetUserId),
+        metadata: {
+          financialActionId: String(record._id),
+          amount: record.amount,
+          reason: record.reason,
+          note: record.note,
+          approvedBy: record.reviewedByEmail || undefined,
+          ...result,
+        },
+      },
+    );
+    logger.info(
+      `[Admin] ${record.requestedByEmail} ${ACTION_LABELS[record.action]} of $${record.amount.toFixed(2)} executed` +
+        `${record.reviewedByEmail ? ` (approved by ${record.reviewedByEmail})` : ''} — ${record.reason}`,
+    );
+    return record;
+  } catch (err: any) {
+    record.status = 'failed';
+    record.error = err.message;
+    await record.save();
+    await logAuditEvent('FINANCIAL_ACTION_FAILED', 'financial_action', {
+      ...auditDetails(record, actor),
+      error: err.message,
+    });
+    throw err;
+  }
+}
+
+/**
+ * Check the admin's daily cap, then run the action or queue it for
+ * approval. Throws 403 when the cap would be exceeded.
+ */
+export async function requestFinancialAction(
+  admin: AdminActor,
+  input: FinancialActionInput,
+): Promise<FinancialActionOutcome> {
+  const role = effectiveAdminRole(admin.adminRole);
+  const limit = FINANCIAL_LIMITS[role][input.action];
+  const label = ACTION_LABELS[input.action];
+
+  const capExceeded = async (remaining: number) => {
+    await logAuditEvent('FINANCIAL_CAP_EXCEEDED', 'financial_action', {
+      userId: String(admin._id),
+      userEmail: admin.email,
+      metadata: { ...input, role, dailyCap: limit.dailyCap, remaining },
+    });
+    return new AppError(
+      `This ${label} would exceed your daily cap of $${limit.dailyCap.toFixed(2)} ` +
+        `($${remaining.toFixed(2)} left today)`,
+      403,
+    );
+  };
+
+  const decision = evaluateFinancialAction(
+    input.amount,
+    await usedToday(admin._id, input.action),
+    limit,
+  );
+  if (decision.outcome === 'over_cap') throw await capExceeded(decision.remaining);
+
+  const requiresApproval = decision.outcome === 'approval';
+  const record = await AdminFinancialAction.create({
+    ...input,
+    status: requiresApproval ? 'pending' : 'processing',
+    requestedBy: admin._id,
+    requestedByEmail: admin.email,
+    requestedByRole: role,
+    requiresApproval,
+  });
+
+  // Two requests at once can both pass the check above; recount with this one in
+  const total = await usedToday(admin._id, input.action);
+  if (total > limit.dailyCap) {
+    await record.deleteOne();
+    throw await capExceeded(Math.max(0, limit.dailyCap - (total - input.amount)));
+  }
+
+  if (requiresApproval) {
+    await logAuditEvent('FINANCIAL_APPROVAL_REQUESTED', 'financial_action', {
+      ...auditDetails(record, admin),
+      metadata: {
+        ...auditDetails(record, admin).metadata,
+        approvalThreshold: limit.approvalThreshold,
+      },
+    });
+    logger.info(
+      `[Admin] ${admin.email} requested approval for a $${input.amount.toFixed(2)} ${label} (${record._id})`,
+    );
+    return { status: 'pending', record };
+  }
+
+  return { status: 'executed', record: await runFinancialAction(record, admin) };
+}
+
+/**
+ * Lapse pending requests nobody reviewed in time.
+ */
+export async function expireStaleApprovals(now: Date = new Date()): Promise<number> {
+  const stale = await AdminFinancialAction.find({
+    status: 'pending',
+    createdAt: { $lt: new Date(now.getTime() - APPROVAL_TTL_MS) },
+  });
+  for (const record of stale) {
+    record.status = 'expired';
+    await record.save();
+    await logAuditEvent('FINANCIAL_APPROVAL_EXPIRED', 'financial_action', {
+      ...auditDetails(record, { _id: record.requestedBy, email: record.requestedByEmail }),
+    });
+  }
+  return stale.length;
+}
+
+async function claimForReview(
+  id: string,
+  reviewer: AdminActor,
+  status: 'processing' | 'rejected',
+  note?: string,
+): Promise<FinancialActionDocument> {
+  await expireStaleApprovals();
+  const record = await AdminFinancialAction.findById(id);
+  if (!record) throw new AppError('Approval request not found', 404);
+  if (record.status !== 'pending') {
+    throw new AppError(`This request is already ${record.status}`, 409);
+  }
+  if (String(record.requestedBy) === String(reviewer._id)) {
+    throw new AppError('A different super_admin must review this request', 403);
+  }
+
+  // Two reviewers at once: only one moves it out of pending
+  const claimed = await AdminFinancialAction.findOneAndUpdate(
+    { _id: record._id, status: 'pending' },
+    {
+      $set: {
+        status,
+        reviewedBy: reviewer._id,
+        reviewedByEmail: reviewer.email,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+      },
+    },
+    { new: true },
+  );
+  if (!claimed) throw new AppError('This request has already been reviewed', 409);
+  return claimed;
+}
+
+/**
+ * Approve a pending request and run it.
+ */
+export async function approveFinancialAction(
+  id: string,
+  reviewer: AdminActor,
+  note?: string,
+): Promise<FinancialActionDocument> {
+  const record = await claimForReview(id, reviewer, 'processing', note);
+  await logAuditEvent('FINANCIAL_APPROVAL_APPROVED', 'financial_action', {
+    ...auditDetails(record, reviewer),
+    metadata: { ...auditDetails(record, reviewer).metadata, note },
+  });
+  return runFinancialAction(record, reviewer);
+}
+
+export async function rejectFinancialAction(
+  id: string,
+  reviewer: AdminActor,
+  note: string,
+): Promise<FinancialActionDocument> {
+  const record = await claimForReview(id, reviewer, 'rejected', note);
+  await logAuditEvent('FINANCIAL_APPROVAL_REJECTED', 'financial_action', {
+    ...auditDetails(record, reviewer),
+    metadata: { ...auditDetails(record, reviewer).metadata, note },
+  });
+  logger.info(`[Admin] ${reviewer.email} rejected financial action ${record._id} — ${note}`);
+  return record;
+}
@@ -0,0 +1,154 @@
+/**
+ * The one place an appointment's status changes (utils/appointment-status).
+ * Each change is checked against the lifecycle, recorded in the
+ * appointment's statusHistory with who made it and why, saved only if no
+ * one else changed the status meanwhile, and announced to the vendor's
+ * webhooks.
+ *
+ * Callers set any other fields that go with the change (refund amounts,
+ * cancellation reason …) on the document first; they are saved with it.
+ */
+
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import { AppError } from '../utils/appError.util';
+import {
+  isAppointmentStatus,
+  statusReasonError,
+  statusTransitionError,
+  type AppointmentStatus,
+  type IAppointmentStatusChange,
+  type StatusActor,
+} from '../utils/appointment-status.util';
+import type { WebhookEvent } from '../utils/vendor-webhook.util';
+import { emitAppointmentEvent, emitAppointmentEvents } from './vendor-webhook.service';
+
+type AppointmentDocument = InstanceType<typeof Appointment>;
+
+export interface StatusChange {
+  actor: StatusActor;
+  // The user behind the change (customer, vendor user or admin)
+  actorId?: unknown;
+  reason?: string | null;
+}
+
+const STATUS_EVENTS: Partial<Record<AppointmentStatus, WebhookEvent>> = {
+  confirmed: 'appointment.confirmed',
+  cancelled: 'appointment.cancelled',
+  completed: 'appointment.completed',
+  missed: 'appointment.missed',
+  failed: 'appointment.failed',
+};
+
+/**
+ * Throw unless `change.actor` may move the appointment to `to` now. Call
+ * it before side effects that can't be undone (refunds, fee charges).
+ */
+export function assertStatusTransition(
+  appointment: { status: AppointmentStatus },
+  to: AppointmentStatus,
+  change: StatusChange,
+): void {
+  if (!isAppointmentStatus(to)) {
+    throw new AppError(statusTransitionError(appointment.status, to, change.actor)!, 400);
+  }
+  const reasonError = statusReasonError(to, change.reason);
+  if (reasonError) throw new AppError(reasonError, 400);
+  const error = statusTransitionError(appointment.status, to, change.actor);
+  if (error) throw new AppError(error, 409);
+}
+
+const historyEntry = (
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  change: StatusChange,
+  at: Date,
+): IAppointmentStatusChange => ({
+  from,
+  to,
+  actor: change.actor,
+  actorId: change.actorId ? String(change.actorId) : null,
+  reason: change.reason?.trim() || null,
+  at,
+});
+
+/**
+ * Move one appointment to `to` and save it. Fails with 409 when the
+ * change is illegal or the status changed since the document was loaded.
+ */
+export async function changeAppointmentStatus(
+  appointment: AppointmentDocument,
+  to: AppointmentStatus,
+  change: StatusChange,
+): Promise<AppointmentDocument> {
+  assertStatusTransition(appointment, to, change);
+
+  const from = appointment.status;
+  const now = new Date();
+  const entry = historyEntry(from, to, change, now);
+  appointment.status = to;
+  appointment.statusChangedBy = change.actor;
+  appointment.set('statusReason', entry.reason || undefined);
+  if (to === 'completed') appointment.completedAt = now;
+  if (to === 'cancelled' && !appointment.cancelledAt) appointment.cancelledAt = now;
+  appointment.statusHistory!.push(entry);
+
+  // Only if nobody moved it in the meantime
+  appointment.$where = { status: from };
+  try {
+    await appointment.save();
+  } catch (err: any) {
+    if (err?.name === 'DocumentNotFoundError') {
+      throw new AppError('The appointment was updated meanwhile — reload it and try again', 409);
+    }
+    throw err;
+  } finally {
+    appointment.$where = {};
+  }
+
+  logger.info(`Appointment ${appointment._id} ${from} → ${to} (${change.actor})`);
+  const event = STATUS_EVENTS[to];
+  if (event) await emitAppointmentEvent(event, appointment);
+  return appointment;
+}
+
+/**
+ * Move many appointments to `to` at once (scheduler sweeps, series
+ * cancellation). Appointments the change isn't legal for are skipped, as
+ * are any whose status changed since they were loaded. `set` is written
+ * alongside. Returns the ids that changed.
+ */
+export async function changeAppointmentStatuses(
+  appointments: { _id: unknown; status: AppointmentStatus }[],
+  to: AppointmentStatus,
+  change: StatusChange,
+  set: Record<string, unknown> = {},
+): Promise<string[]> {
+  const now = new Date();
+  const changed: string[] = [];
+
+  for (const appointment of appointments) {
+    if (statusTransitionError(appointment.status, to, change.actor)) continue;
+    const entry = historyEntry(appointment.status, to, change, now);
+    const result = await Appointment.updateOne(
+      { _id: appointment._id, status: appointment.status },
+      {
+        $set: {
+          ...set,
+          status: to,
+          statusChangedBy: change.actor,
+          ...(entry.reason ? { statusReason: entry.reason } : {}),
+          ...(to === 'completed' ? { completedAt: now } : {}),
+          ...(to === 'cancelled' ? { cancelledAt: now } : {}),
+        },
+        ...(entry.reason ? {} : { $unset: { statusReason: 1 } }),
+        $push: { statusHistory: entry },
+      },
+    );
+    if (result.modifiedCount > 0) changed.push(String(appointment._id));
+  }
+
+  const event = STATUS_EVENTS[to];
+  if (event) await emitAppointmentEvents(event, changed);
+  return changed;
+}
@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+import AvailabilityTemplate from '../models/availability-template.model';
+import VendorServiceSlot from '../models/vendor-service-slot.model';
+import { expandAvailability } from '../utils/availability-template.util';
+import { toDateKey } from '../utils/timezone.util';
+import type { DateDetails } from '../interfaces/common.interface';
+
+const toObjectIds = (ids: (string | mongoose.Types.ObjectId)[]) =>
+  ids.map((id) => new mongoose.Types.ObjectId(String(id)));
+
+/**
+ * Bookable dates for several vendor services between two calendar dates
+ * (inclusive), keyed by vendor service id. Weekly templates are expanded
+ * and per-date `VendorServiceSlot` entries override them.
+ */
+export async function loadAvailabilityForServices(
+  vendorServiceIds: (string | mongoose.Types.ObjectId)[],
+  startDate: Date,
+  endDate: Date,
+): Promise<Map<string, DateDetails[]>> {
+  const ids = toObjectIds(vendorServiceIds);
+  const first = new Date(`${toDateKey(startDate)}T00:00:00.000Z`);
+  const last = new Date(`${toDateKey(endDate)}T23:59:59.999Z`);
+
+  const [slotDocs, templates] = await Promise.all([
+    VendorServiceSlot.find({
+      vendorServiceId: { $in: ids },
+      dates: { $elemMatch: { date: { $gte: first, $lte: last } } },
+    }).lean(),
+    AvailabilityTemplate.find({ vendorServiceId: { $in: ids }, isActive: true }).lean(),
+  ]);
+
+  const overrides = new Map<string, DateDetails[]>();
+  for (const doc of slotDocs) {
+    const key = String(doc.vendorServiceId);
+    overrides.set(key, [...(overrides.get(key) || []), ...((doc.dates || []) as DateDetails[])]);
+  }
+  const templateById = new Map(templates.map((t) => [String(t.vendorServiceId), t]));
+
+  return new Map(
+    ids.map((id) => {
+      const key = String(id);
+      return [
+        key,
+        expandAvailability(templateById.get(key), first, last, overrides.get(key) || []),
+      ];
+    }),
+  );
+}
+
+/**
+ * Bookable dates for one vendor service between two calendar dates.
+ */
+export async function loadAvailability(
+  vendorServiceId: string,
+  startDate: Date,
+  endDate: Date,
+): Promise<DateDetails[]> {
+  if (!mongoose.isValidObjectId(vendorServiceId)) return [];
+  const byService = await loadAvailabilityForServices([vendorServiceId], startDate, endDate);
+  return byService.get(String(vendorServiceId)) || [];
+}
+
+/**
+ * Availability on a single date, or null when the service is closed.
+ */
+export async function getDateAvailability(
+  vendorServiceId: string,
+  date: Date | string,
+): Promise<DateDetails | null> {
+  const day = new Date(`${toDateKey(date)}T00:00:00.000Z`);
+  const [details] = await loadAvailability(vendorServiceId, day, day);
+  return details || null;
+}
@@ -0,0 +1,317 @@
+import mongoose from 'mongoose';
+import moment from 'moment';
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import VendorBlockTime, { type IVendorBlockTime } from '../models/vendor-block-time.model';
+import VendorService from '../models/vendor-service.model';
+import { AppError } from '../utils/appError.util';
+import { getVendorServiceIds } from '../utils/vendor.util';
+import { toDateKey } from '../utils/timezone.util';
+import {
+  expandBlockTimes,
+  isTimeBlocked,
+  type BlockedWindows,
+  type BlockTimeLike,
+} from '../utils/block-time.util';
+import { refundAppointmentPayment, waiveBalance } from './deposit.service';
+import { emitAppointmentEvent } from './vendor-webhook.service';
+import { assertStatusTransition, changeAppointmentStatus } from './appointment-status.service';
+import { checkRescheduleSlot, moveAppointment } from './reschedule.service';
+import { cancelAppointmentReminders } from './notification-scheduler.service';
+import {
+  sendAppointmentCancellationNotification,
+  dispatchNotification,
+} from './notification-dispatcher.service';
+
+// Bookings a new block can collide with
+const LIVE_STATUSES = ['pending', 'confirmed'];
+
+export interface BlockConflict {
+  appointmentId: string;
+  customerId: string;
+  customerName: string;
+  serviceName: string;
+  appointmentDate: Date;
+  startTime: string;
+  endTime: string;
+  status: string;
+  total: number;
+}
+
+export interface ConflictResolution {
+  appointmentId: string;
+  status: 'cancelled' | 'rescheduled' | 'failed';
+  refundAmount?: number;
+  error?: string;
+}
+
+export interface RescheduleMove {
+  appointmentId: string;
+  appointmentDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+const formatDate = (date: Date | string) => moment.utc(date).format('MMM D, YYYY');
+
+/**
+ * A vendor's blocked windows between two calendar dates (UTC midnight).
+ */
+export async function loadVendorBlockedWindows(
+  vendorId: string | mongoose.Types.ObjectId,
+  startDate: Date,
+  endDate: Date,
+): Promise<BlockedWindows> {
+  const blocks = await VendorBlockTime.find({
+    vendorId,
+    fromDate: { $lte: endDate },
+    toDate: { $gte: startDate },
+  })
+    .select('fromDate toDate allDay fromTime toTime')
+    .lean();
+  return expandBlockTimes(blocks, startDate, endDate);
+}
+
+/**
+ * Blocked windows for the vendor behind a vendor service.
+ */
+export async function loadBlockedWindows(
+  vendorServiceId: string,
+  startDate: Date,
+  endDate: Date,
+): Promise<BlockedWindows> {
+  if (!mongoose.isValidObjectId(vendorServiceId)) return {};
+  const vendorService = await VendorService.findById(vendorServiceId).select('vendorId').lean();
+  if (!vendorService) return {};
+  return loadVendorBlockedWindows(vendorService.vendorId, startDate, endDate);
+}
+
+/**
+ * Blocked windows for several vendors at once, keyed by vendor id.
+ */
+export async function loadBlockedWindowsByVendor(
+  vendorIds: (string | mongoose.Types.ObjectId)[],
+  startDate: Date,
+  endDate: Date,
+): Promise<Map<string, BlockedWindows>> {
+  const blocks = await VendorBlockTime.find({
+    vendorId: { $in: vendorIds },
+    fromDate: { $lte: endDate },
+    toDate: { $gte: startDate },
+  })
+    .select('vendorId fromDate toDate allDay fromTime toTime')
+    .lean();
+
+  const byVendor = new Map<string, BlockTimeLike[]>();
+  for (const block of blocks) {
+    const key = String(block.vendorId);
+    byVendor.set(key, [...(byVendor.get(key) || []), block]);
+  }
+  return new Map(
+    [...byVendor].map(([vendorId, list]) => [vendorId, expandBlockTimes(list, startDate, endDate)]),
+  );
+}
+
+/**
+ * Whether a booking window falls in one of the vendor's block times.
+ */
+export async function isBookingBlocked(booking: {
+  vendorServiceId: string;
+  appointmentDate: Date | string;
+  startTime: string;
+  endTime: string;
+}): Promise<boolean> {
+  const dateStr = toDateKey(booking.appointmentDate);
+  const day = new Date(`${dateStr}T00:00:00.000Z`);
+  const windows = await loadBlockedWindows(booking.vendorServiceId, day, day);
+  return isTimeBlocked(windows, dateStr, booking.startTime, booking.endTime);
+}
+
+async function findConflictingAppointments(vendorId: string, block: BlockTimeLike) {
+  const serviceIds = await getVendorServiceIds(vendorId);
+  const windows = expandBlockTimes([block]);
+  const appointments = await Appointment.find({
+    vendorServiceId: { $in: serviceIds },
+    appointmentDate: {
+      $gte: new Date(`${toDateKey(block.fromDate)}T00:00:00.000Z`),
+      $lte: new Date(`${toDateKey(block.toDate)}T23:59:59.999Z`),
+    },
+    status: { $in: LIVE_STATUSES },
+  })
+    .populate('customerId', 'firstName lastName email')
+    .populate({
+      path: 'vendorServiceId',
+      select: 'name serviceId',
+      populate: { path: 'serviceId', select: 'name' },
+    })
+    .sort({ appointmentDate: 1, startTime: 1 });
+
+  return appointments.filter((apt) =>
+    isTimeBlocked(windows, toDateKey(apt.appointmentDate), apt.startTime, apt.endTime),
+  );
+}
+
+/**
+ * Live appointments that fall inside a block — the vendor's conflict report.
+ */
+export async function findBlockConflicts(
+  vendorId: string,
+  block: BlockTimeLike,
+): Promise<BlockConflict[]> {
+  const appointments = await findConflictingAppointments(vendorId, block);
+  return appointments.map((apt: any) => ({
+    appointmentId: String(apt._id),
+    customerId: String(apt.customerId?._id || apt.customerId),
+    customerName:
+      `${apt.customerId?.firstName || ''} ${apt.customerId?.lastName || ''}`.trim() ||
+      apt.customerId?.email ||
+      'Customer',
+    serviceName: apt.vendorServiceId?.serviceId?.name || apt.vendorServiceId?.name || 'Service',
+    appointmentDate: apt.appointmentDate,
+    startTime: apt.startTime,
+    endTime: apt.endTime,
+    status: apt.status,
+    total: apt.total,
+  }));
+}
+
+/**
+ * Cancel appointments that clash with a block, refund what the customer
+ * paid and tell them why. Limited to `appointmentIds` when given.
+ */
+export async function cancelBlockConflicts(
+  vendorId: string,
+  block: IVendorBlockTime,
+  appointmentIds?: string[],
+  message?: string,
+): Promise<ConflictResolution[]> {
+  const conflicts = (await findConflictingAppointments(vendorId, block)).filter(
+    (apt) => !appointmentIds || appointmentIds.includes(String(apt._id)),
+  );
+  const reason = message || 'The provider is unavailable at this time';
+  const results: ConflictResolution[] = [];
+
+  for (const apt of conflicts as any[]) {
+    const appointmentId = String(apt._id);
+    try {
+      assertStatusTransition(apt, 'cancelled', { actor: 'vendor' });
+      // Vendor-initiated — everything paid goes back, as with a decline
+      let refundAmount = 0;
+      if (apt.paymentIntentId && ['completed', 'deposit_paid'].includes(apt.paymentStatus)) {
+        refundAmount = (await refundAppointmentPayment(apt)).amount;
+      }
+      waiveBalance(apt);
+      apt.cancellationReason = reason;
+      await changeAppointmentStatus(apt, 'cancelled', { actor: 'vendor', reason });
+      results.push({ appointmentId, status: 'cancelled', refundAmount });
+      if (refundAmount > 0) await emitAppointmentEvent('appointment.refunded', apt);
+    } catch (err: any) {
+      logger.error(`[BlockTime] Failed to cancel appointment ${appointmentId}: ${err.message}`);
+      results.push({ appointmentId, status: 'failed', error: err.message });
+      continue;
+    }
+
+    try {
+      await cancelAppointmentReminders(appointmentId);
+      await sendAppointmentCancellationNotification(String(apt.customerId?._id || apt.customerId), {
+        serviceName: apt.vendorServiceId?.serviceId?.name || apt.vendorServiceId?.name || 'Service',
+        date: formatDate(apt.appointmentDate),
+        time: apt.startTime,
+        appointmentId,
+        reason,
+      });
+    } catch (err: any) {
+      logger.error(`[BlockTime] Failed to notify customer for ${appointmentId}: ${err.message}`);
+    }
+  }
+
+  logger.info(
+    `[BlockTime] Cancelled ${results.filter((r) => r.status === 'cancelled').length}/${conflicts.length} conflicting appointments for block ${block._id}`,
+  );
+  return results;
+}
+
+/**
+ * Move appointments that clash with a block to new times the vendor picked
+ * and tell the customers. Each new time goes through the same slot check
+ * as a customer reschedule, but doesn't count against their limit.
+ */
+export async function rescheduleBlockConflicts(
+  vendorId: string,
+  block: IVendorBlockTime,
+  moves: RescheduleMove[],
+  message?: string,
+): Promise<ConflictResolution[]> {
+  const conflicts = new Map(
+    (await findConflictingAppointments(vendorId, block)).map((apt) => [String(apt._id), apt]),
+  );
+  const results: ConflictResolution[] = [];
+
+  for (const move of moves) {
+    const apt: any = conflicts.get(String(move.appointmentId));
+    const fail = (error: string) =>
+      results.push({ appointmentId: String(move.appointmentId), status: 'failed', error });
+    if (!apt) {
+      fail('Appointment is not affected by this block time');
+      continue;
+    }
+    if (!move.appointmentDate || !move.startTime || !move.endTime) {
+      fail('appointmentDate, startTime and endTime are required');
+      continue;
+    }
+
+    const vendorServiceId = String(apt.vendorServiceId?._id || apt.vendorServiceId);
+    if (await isBookingBlocked({ vendorServiceId, ...move })) {
+      fail('The new time falls inside a block time');
+      continue;
+    }
+
+    // The conflict list is populated for display; move the plain document
+    const appointment = await Appointment.findById(apt._id);
+    if (!appointment) {
+      fail('Appointment not found');
+      continue;
+    }
+    const previous = { date: appointment.appointmentDate, time: appointment.startTime };
+    let moved;
+    try {
+      const staff = await checkRescheduleSlot(appointment, move);
+      moved = await moveAppointment(appointment, move, staff, { countAsReschedule: false });
+    } catch (err: any) {
+      if (!(err instanceof AppError)) throw err;
+      fail(err.message);
+      continue;
+    }
+    results.push({ appointmentId: String(moved._id), status: 'rescheduled' });
+
+    const serviceName =
+      apt.vendorServiceId?.serviceId?.name || apt.vendorServiceId?.name || 'Service';
+    try {
+      await dispatchNotification(
+        { userId: String(moved.customerId) },
+        {
+          title: 'Appointment Rescheduled',
+          body:
+            `Your ${serviceName} appointment on ${formatDate(previous.date)} at ${previous.time} ` +
+            `has moved to ${formatDate(moved.appointmentDate)} at ${moved.startTime}.` +
+            (message ? ` ${message}` : ''),
+          type: 'appointment',
+          data: {
+            appointmentId: String(moved._id),
+            serviceName,
+            date: formatDate(moved.appointmentDate),
+            time: moved.startTime,
+            rescheduled: 'true',
+          },
+        },
+      );
+    } catch (err: any) {
+      logger.error(`[BlockTime] Failed to notify customer for ${moved._id}: ${err.message}`);
+    }
+  }
+
+  logger.info(
+    `[BlockTime] Rescheduled ${results.filter((r) => r.status === 'rescheduled').length}/${moves.length} conflicting appointments for block ${block._id}`,
+  );
+  return results;
+}
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import Appointment from '../models/appointment.model';
+import VendorService from '../models/vendor-service.model';
+import { loadStaffContext } from './staff-availability.service';
+import { loadBlockedWindows } from './block-time.service';
+import { getDateAvailability } from './availability.service';
+import { getVendorServiceTimezone } from '../utils/vendor.util';
+import { timeToMinutes, toDateKey, zonedTimeToUtc } from '../utils/timezone.util';
+import {
+  bookingWindowError,
+  resolveBookingRules,
+  totalBufferMinutes,
+  type BookingRules,
+} from '../utils/booking-rules.util';
+import type { SlotConstraints } from '../interfaces/common.interface';
+
+/**
+ * A vendor service's booking rules with defaults filled in.
+ */
+export async function loadBookingRules(vendorServiceId: string): Promise<BookingRules> {
+  if (!mongoose.isValidObjectId(vendorServiceId)) return resolveBookingRules();
+  const vendorService = await VendorService.findById(vendorServiceId).select('bookingRules').lean();
+  return resolveBookingRules(vendorService?.bookingRules);
+}
+
+/**
+ * Everything slot generation needs beyond the booked appointments: staff
+ * schedules, block times and booking rules for the date range.
+ */
+export async function loadSlotConstraints(
+  vendorServiceId: string,
+  startDate: Date,
+  endDate: Date,
+  excludeAppointmentId?: string,
+): Promise<SlotConstraints> {
+  const [staffContext, blocked, rules] = await Promise.all([
+    loadStaffContext(vendorServiceId, startDate, endDate, excludeAppointmentId),
+    loadBlockedWindows(vendorServiceId, startDate, endDate),
+    loadBookingRules(vendorServiceId),
+  ]);
+  return { staffContext, blocked, rules };
+}
+
+/**
+ * Why a booking (or reschedule) breaks the service's booking rules, or null
+ * when it is fine: minimum notice, booking horizon, and buffer time around
+ * the service's other appointments on that day.
+ */
+export async function checkBookingRules(booking: {
+  vendorServiceId: string;
+  appointmentDate: Date | string;
+  startTime: string;
+  endTime: string;
+  // Reschedules: the appointment being moved doesn't collide with itself
+  excludeAppointmentId?: string;
+}): Promise<string | null> {
+  const rules = await loadBookingRules(booking.vendorServiceId);
+  const timezone = await getVendorServiceTimezone(booking.vendorServiceId);
+  const dateStr = toDateKey(booking.appointmentDate);
+
+  const windowError = bookingWindowError(
+    rules,
+    zonedTimeToUtc(dateStr, booking.startTime, timezone),
+  );
+  if (windowError) return windowError;
+
+  const buffer = totalBufferMinutes(rules);
+  if (buffer === 0) return null;
+
+  // Same capacity the slot listing offers for this date
+  const day = new Date(`${dateStr}T00:00:00.000Z`);
+  const availability = await getDateAvailability(booking.vendorServiceId, day);
+  const capacity = availability?.reoccurrence || 1;
+
+  const start = timeToMinutes(booking.startTime) - buffer;
+  const end = timeToMinutes(booking.endTime) + buffer;
+  const sameDay = await Appointment.find({
+    vendorServiceId: booking.vendorServiceId,
+    appointmentDate: day,
+    status: { $nin: ['cancelled', 'rejected'] },
+    ...(booking.excludeAppointmentId ? { _id: { $ne: booking.excludeAppointmentId } } : {}),
+  })
+    .select('startTime endTime')
+    .lean();
+  const nearby = sameDay.filter(
+    (apt) => timeToMinutes(apt.startTime) < end && start < timeToMinutes(apt.endTime),
+  ).length;
+
+  return nearby >= capacity
+    ? `Appointments need ${buffer} minutes between them. Please select a different time.`
+    : null;
+}
@@ -0,0 +1,142 @@
+/**
+ * Committing a booking without double-booking the slot
+ * (utils/booking-outbox). A new appointment is only inserted, and a moved
+ * one only saved, while the request holds the target slot's reservation.
+ * New bookings record their side effects in the outbox first so the worker
+ * runs them even if the request dies.
+ */
+
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import OutboxEvent from '../models/outbox-event.model';
+import SlotReservation from '../models/slot-reservation.model';
+import {
+  RESERVATION_TTL_MS,
+  bookingOutboxEvents,
+  bookingSlotKey,
+  bookingStaffKey,
+  staffKeysCollide,
+  type BookingSlot,
+  type OutboxEventType,
+} from '../utils/booking-outbox.util';
+import { dispatchOutboxEvents, recordOutboxEvents } from './outbox.service';
+
+type AppointmentDocument = InstanceType<typeof Appointment>;
+
+const hasSlot = (data: Partial<BookingSlot>): data is BookingSlot =>
+  !!(data.vendorServiceId && data.appointmentDate && data.startTime && data.endTime);
+
+/**
+ * An active appointment that already holds this slot. A booking for a
+ * specific staff member only collides with that member's bookings and
+ * "no preference" ones; a "no preference" booking collides with any.
+ */
+export async function findCollidingAppointment(
+  slot: BookingSlot,
+  // Reschedules: the appointment being moved doesn't collide with itself
+  excludeAppointmentId?: unknown,
+) {
+  const collisionQuery: Record<string, any> = {
+    vendorServiceId: new mongoose.Types.ObjectId(String(slot.vendorServiceId)),
+    appointmentDate: new Date(slot.appointmentDate),
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    status: { $nin: ['cancelled', 'rejected'] },
+    ...(excludeAppointmentId ? { _id: { $ne: excludeAppointmentId } } : {}),
+  };
+  if (slot.staffId) {
+    collisionQuery.$or = [
+      { staffId: new mongoose.Types.ObjectId(String(slot.staffId)) },
+      { staffId: null },
+    ];
+  }
+  return Appointment.findOne(collisionQuery);
+}
+
+/**
+ * Take the slot's reservation for an appointment about to be inserted or
+ * moved there. Null when another booking of the slot is in flight.
+ */
+async function reserveSlot(slot: BookingSlot, appointmentId: unknown) {
+  const slotKey = bookingSlotKey(slot);
+  const staffKey = bookingStaffKey(slot.staffId);
+
+  let reservation;
+  try {
+    reservation = await SlotReservation.create({
+      slotKey,
+      staffKey,
+      appointmentId,
+      expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+    });
+  } catch (err: any) {
+    if (err?.code === 11000) return null;
+    throw err;
+  }
+
+  // Same slot, different staff key — "no preference" collides with everyone
+  const others = await SlotReservation.find({ slotKey, _id: { $ne: reservation._id } })
+    .select('staffKey')
+    .lean();
+  if (others.some((other) => staffKeysCollide(staffKey, other.staffKey))) {
+    await reservation.deleteOne();
+    return null;
+  }
+  return reservation;
+}
+
+/**
+ * Run `write` while holding the slot's reservation, after checking nothing
+ * booked before the reservation was taken holds the slot. Returns null
+ * (without running it) when the slot is taken or another booking of it is
+ * in flight.
+ */
+export async function withSlotReservation<T>(
+  slot: BookingSlot,
+  appointmentId: unknown,
+  write: () => Promise<T>,
+): Promise<T | null> {
+  const reservation = await reserveSlot(slot, appointmentId);
+  if (!reservation) return null;
+  try {
+    if (await findCollidingAppointment(slot, appointmentId)) return null;
+    return await write();
+  } finally {
+    await reservation.deleteOne().catch((err: any) =>
+      // The TTL index clears it shortly anyway
+      logger.error(`[Booking] Failed to drop reservation ${reservation._id}: ${err.message}`),
+    );
+  }
+}
+
+/**
+ * Insert a booking and queue its side effects, less any in `skip`. Returns
+ * null when the slot was taken by another booking, in which case nothing
+ * is written.
+ */
+export async function createReservedBooking(
+  data: Record<string, any>,
+  options: { skip?: OutboxEventType[] } = {},
+): Promise<AppointmentDocument | null> {
+  const appointmentId = new mongoose.Types.ObjectId();
+  const types = bookingOutboxEvents(data).filter((type) => !options.skip?.includes(type));
+  const insert = async () => {
+    const events = await recordOutboxEvents(appointmentId, types);
+    try {
+      const appointment = await Appointment.create({ ...data, _id: appointmentId });
+      return { appointment, events };
+    } catch (err) {
+      await OutboxEvent.deleteMany({ appointmentId });
+      throw err;
+    }
+  };
+
+  const created = hasSlot(data)
+    ? await withSlotReservation(data, appointmentId, insert)
+    : await insert();
+  if (!created) return null;
+
+  await dispatchOutboxEvents(created.events);
+  return created.appointment;
+}
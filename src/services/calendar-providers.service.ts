@@ -0,0 +1,235 @@
+import moment from 'moment-timezone';
+import type {
+  ExternalCalendarProvider,
+  IExternalCalendar,
+} from '../models/external-calendar.model';
+import { buildIcsCalendar, isAppointmentUid, type IcsEvent } from '../utils/ics.util';
+import {
+  extractCalDavCalendarData,
+  parseIcsBusy,
+  type BusyInterval,
+} from '../utils/external-calendar.util';
+import { assertPublicUrl } from '../utils/public-url.util';
+import {
+  listCalendarEventsInRange,
+  refreshAccessToken,
+  removeCalendarEvent,
+  upsertCalendarEvent,
+} from './calendar.service';
+
+/**
+ * Provider layer for connected vendor calendars. Each provider reads busy
+ * time and, where the protocol allows, writes our appointments back.
+ *
+ * The registry is swappable (`setCalendarProvider`) so sync can run against
+ * a local fake; CalDAV and ICS also accept plain http:// URLs for the same
+ * reason outside production. In production every CalDAV/ICS request, and
+ * every redirect it follows, must go to a public address.
+ */
+
+export type CalendarConnection = Pick<
+  IExternalCalendar,
+  'provider' | 'url' | 'username' | 'password' | 'calendarId' | 'accessToken' | 'refreshToken'
+>;
+
+export interface CalendarProvider {
+  fetchBusy(
+    calendar: CalendarConnection,
+    from: Date,
+    to: Date,
+    timezone: string,
+  ): Promise<BusyInterval[]>;
+  // Create or replace an event; returns the provider's id for it
+  pushEvent?(calendar: CalendarConnection, event: IcsEvent, externalId?: string): Promise<string>;
+  deleteEvent?(calendar: CalendarConnection, externalId: string): Promise<void>;
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 3;
+
+const httpUrl = (url: string | undefined) => {
+  if (!url) throw new Error('Calendar URL is not configured');
+  return url.replace(/^webcal:/i, 'https:');
+};
+
+const authHeaders = (calendar: CalendarConnection): Record<string, string> =>
+  calendar.username
+    ? {
+        Authorization: `Basic ${Buffer.from(
+          `${calendar.username}:${calendar.password || ''}`,
+        ).toString('base64')}`,
+      }
+    : {};
+
+// fetch that follows redirects itself, so each hop is checked too
+async function guardedFetch(url: string, init: RequestInit): Promise<Response> {
+  let target = url;
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(target, 'Calendar');
+    const response = await fetch(target, {
+      ...init,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    if (hop >= MAX_REDIRECTS)
+      throw new Error(`${init.method || 'GET'} ${url} redirected too often`);
+    target = new URL(location, target).toString();
+  }
+}
+
+async function request(url: string, init: RequestInit): Promise<Response> {
+  const response = await guardedFetch(url, init);
+  if (!response.ok && response.status !== 207) {
+    throw new Error(`${init.method || 'GET'} ${url} failed with HTTP ${response.status}`);
+  }
+  return response;
+}
+
+const caldavResource = (calendar: CalendarConnection, name: string) =>
+  `${httpUrl(calendar.url).replace(/\/?$/, '/')}${encodeURIComponent(name)}`;
+
+const icsProvider: CalendarProvider = {
+  async fetchBusy(calendar, _from, _to, timezone) {
+    const response = await request(httpUrl(calendar.url), {
+      headers: { Accept: 'text/calendar', ...authHeaders(calendar) },
+    });
+    return parseIcsBusy(await response.text(), timezone);
+  },
+};
+
+const caldavProvider: CalendarProvider = {
+  async fetchBusy(calendar, from, to, timezone) {
+    const range = `start="${moment.utc(from).format('YYYYMMDD[T]HHmmss[Z]')}" end="${moment
+      .utc(to)
+      .format('YYYYMMDD[T]HHmmss[Z]')}"`;
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop><C:calendar-data><C:expand ${range}/></C:calendar-data></D:prop>
+  <C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT">
+    <C:time-range ${range}/>
+  </C:comp-filter></C:comp-filter></C:filter>
+</C:calendar-query>`;
+
+    const response = await request(httpUrl(calendar.url), {
+      method: 'REPORT',
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        Depth: '1',
+        ...authHeaders(calendar),
+      },
+      body,
+    });
+    return extractCalDavCalendarData(await response.text()).flatMap((ics) =>
+      parseIcsBusy(ics, timezone),
+    );
+  },
+
+  async pushEvent(calendar, event, externalId) {
+    const name = externalId || `${event.uid.replace(/[^\w.-]/g, '_')}.ics`;
+    await request(caldavResource(calendar, name), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...authHeaders(calendar) },
+      body: buildIcsCalendar([event]),
+    });
+    return name;
+  },
+
+  async deleteEvent(calendar, externalId) {
+    const response = await guardedFetch(caldavResource(calendar, externalId), {
+      method: 'DELETE',
+      headers: authHeaders(calendar),
+    });
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      throw new Error(`DELETE ${externalId} failed with HTTP ${response.status}`);
+    }
+  },
+};
+
+// Refreshed Google tokens, reused for the rest of a sync run
+const googleTokens = new WeakMap<CalendarConnection, { token: string; expiresAt: number }>();
+const GOOGLE_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+const googleToken = async (calendar: CalendarConnection) => {
+  if (!calendar.refreshToken) {
+    if (calendar.accessToken) return calendar.accessToken;
+    throw new Error('Google calendar has no access or refresh token');
+  }
+  const cached = googleTokens.get(calendar);
+  if (cached && cached.expiresAt > Date.now()) return cached.token;
+  const token = await refreshAccessToken(calendar.refreshToken);
+  googleTokens.set(calendar, { token, expiresAt: Date.now() + GOOGLE_TOKEN_TTL_MS });
+  return token;
+};
+
+const googleInstant = (time: { dateTime?: string; date?: string }, timezone: string) =>
+  time.dateTime
+    ? new Date(time.dateTime)
+    : moment.tz(String(time.date), 'YYYY-MM-DD', timezone).toDate();
+
+const googleProvider: CalendarProvider = {
+  async fetchBusy(calendar, from, to, timezone) {
+    const token = await googleToken(calendar);
+    const items = await listCalendarEventsInRange(
+      token,
+      calendar.calendarId,
+      from.toISOString(),
+      to.toISOString(),
+    );
+    return items
+      .filter(
+        (item) =>
+          item.status !== 'cancelled' &&
+          item.transparency !== 'transparent' &&
+          !isAppointmentUid(item.extendedProperties?.private?.appnowUid || ''),
+      )
+      .map((item) => ({
+        uid: item.iCalUID || item.id,
+        start: googleInstant(item.start, timezone),
+        end: googleInstant(item.end, timezone),
+      }))
+      .filter((interval) => interval.end > interval.start);
+  },
+
+  async pushEvent(calendar, event, externalId) {
+    const token = await googleToken(calendar);
+    return upsertCalendarEvent(token, calendar.calendarId, externalId, {
+      summary: event.summary,
+      description: event.description,
+      location: event.location,
+      start: { dateTime: event.start.toISOString(), timeZone: 'UTC' },
+      end: { dateTime: event.end.toISOString(), timeZone: 'UTC' },
+      status: event.status.toLowerCase(),
+      extendedProperties: { private: { appnowUid: event.uid } },
+    });
+  },
+
+  async deleteEvent(calendar, externalId) {
+    const token = await googleToken(calendar);
+    await removeCalendarEvent(token, calendar.calendarId, externalId);
+  },
+};
+
+const providers: Record<ExternalCalendarProvider, CalendarProvider> = {
+  google: googleProvider,
+  caldav: caldavProvider,
+  ics: icsProvider,
+};
+
+export function getCalendarProvider(name: ExternalCalendarProvider): CalendarProvider {
+  return providers[name];
+}
+
+/**
+ * Replace a provider implementation, e.g. with a fake in tests. Returns the
+ * previous one so callers can restore it.
+ */
+export function setCalendarProvider(
+  name: ExternalCalendarProvider,
+  provider: CalendarProvider,
+): CalendarProvider {
+  const previous = providers[name];
+  providers[name] = provider;
+  return previous;
+}
@@ -170,3 +170,79 @@ export const deleteCalendarEvent = async (accessToken: string, eventId: string):
     throw new Error('Failed to delete calendar event');
   }
 };
+
+// Per-call client so concurrent syncs for different vendors don't share credentials
+const clientFor = (accessToken: string) => {
+  const client = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_REDIRECT_URI,
+  );
+  client.setCredentials({ access_token: accessToken });
+  return google.calendar({ version: 'v3', auth: client });
+};
+
+// Function to exchange a stored refresh token for a fresh access token
+export const refreshAccessToken = async (refreshToken: string): Promise<string> => {
+  const client = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_REDIRECT_URI,
+  );
+  client.setCredentials({ refresh_token: refreshToken });
+  const { token } = await client.getAccessToken();
+  if (!token) throw new Error('Google did not return an access token');
+  return token;
+};
+
+// Function to list every event in a window, recurring events expanded
+export const listCalendarEventsInRange = async (
+  accessToken: string,
+  calendarId: string,
+  timeMin: string,
+  timeMax: string,
+): Promise<any[]> => {
+  const calendar = clientFor(accessToken);
+  const items: any[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await calendar.events.list({
+      calendarId,
+      timeMin,
+      timeMax,
+      singleEvents: true,
+      maxResults: 250,
+      pageToken,
+    });
+    items.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+  return items;
+};
+
+// Function to create or replace an event we own in a given calendar
+export const upsertCalendarEvent = async (
+  accessToken: string,
+  calendarId: string,
+  eventId: string | undefined,
+  requestBody: Record<string, any>,
+): Promise<string> => {
+  const calendar = clientFor(accessToken);
+  const response = eventId
+    ? await calendar.events.update({ calendarId, eventId, requestBody })
+    : await calendar.events.insert({ calendarId, requestBody });
+  return response.data.id as string;
+};
+
+// Function to delete an event from a given calendar; already-gone events are ignored
+export const removeCalendarEvent = async (
+  accessToken: string,
+  calendarId: string,
+  eventId: string,
+): Promise<void> => {
+  try {
+    await clientFor(accessToken).events.delete({ calendarId, eventId });
+  } catch (error: any) {
+    if (error?.code !== 404 && error?.code !== 410) throw error;
+  }
+};
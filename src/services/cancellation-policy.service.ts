@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import CancellationPolicy from '../models/cancellation-policy.model';
+import VendorService from '../models/vendor-service.model';
+import {
+  buildPolicySnapshot,
+  DEFAULT_POLICY_TERMS,
+  type PolicySnapshot,
+  type PolicyTerms,
+} from '../utils/cancellation-policy.util';
+
+/**
+ * Resolve the policy in force for a vendor service:
+ *   service override → vendor default → platform default.
+ */
+export async function resolveCancellationPolicy(
+  vendorServiceId: string,
+): Promise<{ terms: PolicyTerms; policyId: string | null; name: string }> {
+  const fallback = { terms: DEFAULT_POLICY_TERMS, policyId: null, name: 'Standard policy' };
+  if (!mongoose.isValidObjectId(vendorServiceId)) return fallback;
+
+  const vendorService = await VendorService.findById(vendorServiceId).select('vendorId').lean();
+  if (!vendorService?.vendorId) return fallback;
+
+  const policies = await CancellationPolicy.find({
+    vendorId: vendorService.vendorId,
+    vendorServiceId: { $in: [null, vendorService._id] },
+    isActive: true,
+  }).lean();
+  const policy =
+    policies.find((p) => String(p.vendorServiceId) === String(vendorService._id)) ||
+    policies.find((p) => !p.vendorServiceId);
+  if (!policy) return fallback;
+
+  return {
+    terms: {
+      tiers: policy.tiers,
+      cancellationFee: policy.cancellationFee,
+      noShowFee: policy.noShowFee,
+      depositForfeiture: policy.depositForfeiture,
+    },
+    policyId: String(policy._id),
+    name: policy.name,
+  };
+}
+
+/**
+ * Snapshot of the policy in force for a new booking of `total` dollars.
+ * Pass `depositAmount` when the booking takes a deposit up front.
+ */
+export async function snapshotCancellationPolicy(
+  vendorServiceId: string,
+  total: number,
+  depositAmount?: number,
+): Promise<PolicySnapshot> {
+  const { terms, policyId, name } = await resolveCancellationPolicy(vendorServiceId);
+  return buildPolicySnapshot(terms, total, { policyId, name, depositAmount });
+}
+
+/**
+ * The policy an existing appointment is bound to. Bookings made before
+ * policies existed fall back to the service's current policy.
+ */
+export async function getAppointmentPolicy(appointment: {
+  cancellationPolicy?: PolicySnapshot | null;
+  vendorServiceId: unknown;
+  total?: number;
+}): Promise<PolicySnapshot> {
+  if (appointment.cancellationPolicy?.tiers?.length) return appointment.cancellationPolicy;
+  const vendorServiceId = (appointment.vendorServiceId as any)?._id || appointment.vendorServiceId;
+  return snapshotCancellationPolicy(String(vendorServiceId), appointment.total || 0);
+}
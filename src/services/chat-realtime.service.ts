@@ -0,0 +1,181 @@
+import type { Request, Response } from 'express';
+import crypto from 'crypto';
+import IORedis, { Redis } from 'ioredis';
+import logger from '../config/logger';
+
+/**
+ * Realtime chat delivery over Server-Sent Events.
+ *
+ * Each connected client holds one stream per party (customer or vendor)
+ * and receives events for every conversation it participates in:
+ *
+ *   message  new Message document + both unread counters
+ *   read     readAt stamped on the counterparty's messages + counters
+ *   typing   counterparty started/stopped typing (never persisted)
+ *
+ * Streams live in process memory. When REDIS_URL is set, events are also
+ * fanned out over Redis pub/sub so a sender on one instance reaches a
+ * recipient connected to another. Without Redis, delivery is local only and
+ * clients still fall back to the REST endpoints.
+ */
+
+export type ChatRole = 'customer' | 'vendor';
+export type ChatEventType = 'message' | 'read' | 'typing';
+
+export interface ChatParticipants {
+  customerId: unknown;
+  vendorId: unknown;
+}
+
+export interface ChatEvent {
+  type: ChatEventType;
+  conversationId: string;
+  data: Record<string, unknown>;
+}
+
+interface ChatEnvelope {
+  origin: string;
+  customerId: string;
+  vendorId: string;
+  // Limit delivery to one side (e.g. typing goes only to the counterparty)
+  only?: ChatRole;
+  event: ChatEvent;
+}
+
+const CHANNEL = 'chat:events';
+const HEARTBEAT_MS = 25 * 1000;
+const INSTANCE_ID = crypto.randomBytes(8).toString('hex');
+
+const streams = new Map<string, Set<Response>>();
+const heartbeats = new Map<Response, NodeJS.Timeout>();
+let publisher: Redis | null = null;
+let subscriber: Redis | null = null;
+
+const partyKey = (role: ChatRole, id: string) => `${role}:${id}`;
+
+const writeEvent = (res: Response, event: ChatEvent) => {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+};
+
+function deliverLocally(envelope: ChatEnvelope): void {
+  const targets: [ChatRole, string][] = [
+    ['customer', envelope.customerId],
+    ['vendor', envelope.vendorId],
+  ];
+  for (const [role, id] of targets) {
+    if (envelope.only && envelope.only !== role) continue;
+    const clients = streams.get(partyKey(role, id));
+    if (!clients) continue;
+    for (const res of clients) writeEvent(res, envelope.event);
+  }
+}
+
+function getPublisher(): Redis | null {
+  if (publisher) return publisher;
+  if (!process.env.REDIS_URL) return null;
+
+  publisher = new IORedis(process.env.REDIS_URL);
+  publisher.on('error', (err) => logger.error(`[ChatRealtime] Redis error: ${err.message}`));
+  return publisher;
+}
+
+// Subscribed lazily — instances with no open streams don't need the feed
+function ensureSubscriber(): void {
+  if (subscriber || !process.env.REDIS_URL) return;
+
+  subscriber = new IORedis(process.env.REDIS_URL);
+  subscriber.on('error', (err) => logger.error(`[ChatRealtime] Redis error: ${err.message}`));
+  subscriber.subscribe(CHANNEL).catch((err) => {
+    logger.error(`[ChatRealtime] Failed to subscribe: ${err.message}`);
+  });
+  subscriber.on('message', (_channel: string, raw: string) => {
+    try {
+      const envelope = JSON.parse(raw) as ChatEnvelope;
+      // Already delivered locally when published
+      if (envelope.origin === INSTANCE_ID) return;
+      deliverLocally(envelope);
+    } catch (err: any) {
+      logger.warn(`[ChatRealtime] Dropped malformed event: ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Open an SSE stream for one party. The stream stays open until the client
+ * disconnects; a comment line is sent periodically to keep proxies from
+ * closing idle connections.
+ */
+export function openChatStream(req: Request, res: Response, role: ChatRole, id: string): void {
+  ensureSubscriber();
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable buffering on nginx / Azure front doors
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: 5000\nevent: ready\ndata: ${JSON.stringify({ role, id })}\n\n`);
+
+  const key = partyKey(role, id);
+  if (!streams.has(key)) streams.set(key, new Set());
+  streams.get(key)!.add(res);
+
+  heartbeats.set(res, setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS));
+
+  req.on('close', () => {
+    clearInterval(heartbeats.get(res));
+    heartbeats.delete(res);
+    const clients = streams.get(key);
+    if (!clients) return;
+    clients.delete(res);
+    if (clients.size === 0) streams.delete(key);
+  });
+}
+
+/**
+ * Push an event to the participants of a conversation, on this instance and
+ * (when Redis is configured) every other instance. Never throws — realtime
+ * delivery is best-effort on top of the persisted REST state.
+ */
+export function publishChatEvent(
+  participants: ChatParticipants,
+  event: ChatEvent,
+  only?: ChatRole,
+): void {
+  const envelope: ChatEnvelope = {
+    origin: INSTANCE_ID,
+    customerId: String(participants.customerId),
+    vendorId: String(participants.vendorId),
+    only,
+    event,
+  };
+
+  try {
+    deliverLocally(envelope);
+  } catch (err: any) {
+    logger.warn(`[ChatRealtime] Local delivery failed: ${err.message}`);
+  }
+
+  const redis = getPublisher();
+  if (!redis) return;
+  redis.publish(CHANNEL, JSON.stringify(envelope)).catch((err) => {
+    logger.warn(`[ChatRealtime] Publish failed: ${err.message}`);
+  });
+}
+
+/**
+ * Close Redis connections and end open streams on shutdown.
+ */
+export async function shutdownChatRealtime(): Promise<void> {
+  for (const clients of streams.values()) {
+    for (const res of clients) res.end();
+  }
+  for (const heartbeat of heartbeats.values()) clearInterval(heartbeat);
+  heartbeats.clear();
+  streams.clear();
+  if (subscriber) await subscriber.quit();
+  if (publisher) await publisher.quit();
+  subscriber = null;
+  publisher = null;
+}
@@ -0,0 +1,223 @@
+import mongoose, { type Document } from 'mongoose';
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import User from '../models/user.model';
+import VendorService from '../models/vendor-service.model';
+import type { IAppointment } from '../interfaces/appointment.interface';
+import StripeService from './stripe.service';
+import { enqueuePayoutRecord } from './webhook-queue.service';
+import { recordPayoutForAppointment } from './vendor-payout.service';
+import {
+  amountPaid,
+  buildBookingDeposit,
+  paymentPartsOf,
+  splitRefund,
+  type BookingDeposit,
+} from '../utils/deposit.util';
+import { toAppointmentRefundStatus } from '../utils/stripe-webhook.util';
+
+type AppointmentDocument = IAppointment & Document;
+
+export interface BalanceCaptureResult {
+  status: 'paid' | 'failed' | 'skipped';
+  amount: number;
+  paymentIntentId?: string;
+  error?: string;
+}
+
+export interface AppointmentRefund {
+  refundId: string | null;
+  balanceRefundId: string | null;
+  amount: number;
+  status: string;
+  isFullRefund: boolean;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const BALANCE_SWEEP_MS = 5 * 60 * 1000;
+
+/**
+ * Deposit for a new booking of `total` dollars, or null when the service
+ * takes full payment up front.
+ */
+export async function resolveBookingDeposit(
+  vendorServiceId: string,
+  total: number,
+  startAt?: Date | null,
+): Promise<BookingDeposit | null> {
+  if (!mongoose.isValidObjectId(vendorServiceId)) return null;
+  const vendorService = await VendorService.findById(vendorServiceId).select('deposit').lean();
+  return buildBookingDeposit(vendorService?.deposit, total, startAt);
+}
+
+/**
+ * The user's Stripe customer, created on first use. Deposit bookings save
+ * the card against it so the balance can be charged later.
+ */
+export async function ensureStripeCustomer(userId: string): Promise<string | null> {
+  if (!mongoose.isValidObjectId(userId)) return null;
+  const user = await User.findById(userId);
+  if (!user) return null;
+  if (user.stripeCustomerId) return user.stripeCustomerId;
+
+  const customer = await StripeService.createCustomer({
+    email: user.email,
+    name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email,
+    phone: user.phone,
+  });
+  user.stripeCustomerId = customer.id;
+  await user.save();
+  logger.info(`[Deposit] Created Stripe customer ${customer.id} for user ${userId}`);
+  return customer.id;
+}
+
+/**
+ * Record the vendor's payout for a charge that just went through.
+ */
+export async function recordPayout(appointmentId: string): Promise<void> {
+  try {
+    const queued = await enqueuePayoutRecord(appointmentId);
+    if (!queued) await recordPayoutForAppointment(appointmentId);
+  } catch (err: any) {
+    // Payout recording can be retried — never fail the capture for it
+    logger.error(`[Deposit] Failed to record payout for ${appointmentId}: ${err.message}`);
+  }
+}
+
+/**
+ * Charge the outstanding balance of a deposit booking to the customer's
+ * saved card. Safe to call more than once — the balance is claimed on the
+ * appointment before Stripe is called, and a failed charge can be retried.
+ */
+export async function captureBalance(appointmentId: string): Promise<BalanceCaptureResult> {
+  const appointment = await Appointment.findOneAndUpdate(
+    {
+      _id: appointmentId,
+      paymentPlan: 'deposit',
+      paymentStatus: 'deposit_paid',
+      balanceStatus: { $in: ['pending', 'failed'] },
+      balanceDue: { $gt: 0 },
+      status: { $in: ['pending', 'confirmed', 'completed'] },
+    },
+    { $set: { balanceStatus: 'processing' }, $inc: { balanceAttempts: 1 } },
+    { new: true },
+  );
+  if (!appointment) return { status: 'skipped', amount: 0 };
+
+  const amount = appointment.balanceDue || 0;
+  try {
+    const customer = await User.findById(appointment.customerId).select('stripeCustomerId');
+    if (!customer?.stripeCustomerId) throw new Error('Customer has no Stripe account');
+
+    const charge = await StripeService.chargeSavedPaymentMethod({
+      customerId: customer.stripeCustomerId,
+      amount,
+      idempotencyKey: `balance_${appointment._id}_${appointment.balanceAttempts}`,
+      metadata: { appointmentId: String(appointment._id), type: 'balance' },
+    });
+    appointment.balancePaymentIntentId = charge.id;
+    if (charge.status !== 'succeeded') throw new Error(`Charge ${charge.id} is ${charge.status}`);
+
+    appointment.balancePaid = amount;
+    appointment.balanceDue = 0;
+    appointment.balanceStatus = 'paid';
+    appointment.balancePaidAt = new Date();
+    appointment.paymentStatus = 'completed';
+    await appointment.save();
+  } catch (err: any) {
+    appointment.balanceStatus = 'failed';
+    await appointment.save();
+    logger.warn(`[Deposit] Balance charge failed for appointment ${appointmentId}: ${err.message}`);
+    return { status: 'failed', amount, error: err.message };
+  }
+
+  logger.info(`[Deposit] Captured $${amount.toFixed(2)} balance for appointment ${appointmentId}`);
+  await recordPayout(appointmentId);
+  return { status: 'paid', amount, paymentIntentId: appointment.balancePaymentIntentId };
+}
+
+/**
+ * Charge balances that have come due ahead of their appointment
+ * (`before_appointment` capture). Run by the balance capture sweep.
+ */
+export async function captureDueBalances(now: Date = new Date()): Promise<number> {
+  const due = await Appointment.find({
+    paymentPlan: 'deposit',
+    paymentStatus: 'deposit_paid',
+    balanceStatus: 'pending',
+    balanceDueAt: { $lte: now },
+    status: { $in: ['pending', 'confirmed'] },
+  })
+    .select('_id')
+    .limit(100)
+    .lean();
+
+  let captured = 0;
+  for (const apt of due) {
+    const result = await captureBalance(String(apt._id));
+    if (result.status === 'paid') captured++;
+  }
+  if (due.length > 0) logger.info(`[Deposit] Captured ${captured}/${due.length} due balances`);
+  return captured;
+}
+
+export function startBalanceCaptureScheduler(): void {
+  setInterval(() => {
+    captureDueBalances().catch((error) =>
+      logger.error(`[Deposit] Balance capture sweep failed: ${error.message}`),
+    );
+  }, BALANCE_SWEEP_MS);
+  logger.info('[Deposit] Balance capture sweep started (every 5 min)');
+}
+
+/**
+ * Drop an unpaid balance (cancellation, decline, no-show). Caller saves.
+ */
+export function waiveBalance(appointment: AppointmentDocument): void {
+  if (appointment.paymentPlan !== 'deposit' || appointment.balanceStatus === 'paid') return;
+  appointment.balanceStatus = 'waived';
+  appointment.balanceDue = 0;
+}
+
+/**
+ * Refund `amount` dollars — everything paid when omitted — across the
+ * deposit and balance PaymentIntents and record it on the appointment.
+ * Caller saves.
+ */
+export async function refundAppointmentPayment(
+  appointment: AppointmentDocument,
+  amount?: number,
+): Promise<AppointmentRefund> {
+  const parts = paymentPartsOf(appointment);
+  const paid = amountPaid(parts);
+  const legs = splitRefund(parts, amount ?? paid);
+  if (legs.length === 0) throw new Error('Nothing has been paid on this appointment');
+
+  const result: AppointmentRefund = {
+    refundId: null,
+    balanceRefundId: null,
+    amount: 0,
+    status: 'succeeded',
+    isFullRefund: false,
+  };
+  for (const leg of legs) {
+    const refund = await StripeService.refundPayment(
+      leg.paymentIntentId,
+      leg.full ? undefined : leg.amount,
+    );
+    result.amount += refund.amount ? refund.amount / 100 : leg.amount;
+    if (refund.status && refund.status !== 'succeeded') result.status = refund.status;
+    if (leg.paymentIntentId === parts.balanceIntentId) result.balanceRefundId = refund.id;
+    else result.refundId = refund.id;
+  }
+  result.amount = roundMoney(result.amount);
+  result.isFullRefund = result.amount >= paid;
+
+  if (result.refundId) appointment.refundId = result.refundId;
+  if (result.balanceRefundId) appointment.balanceRefundId = result.balanceRefundId;
+  appointment.refundStatus = toAppointmentRefundStatus(result.status);
+  appointment.refundAmount = result.amount;
+  appointment.paymentStatus = result.isFullRefund ? 'refunded' : 'partially_refunded';
+  return result;
+}
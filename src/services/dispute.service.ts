@@ -0,0 +1,411 @@
+/**
+ * Disputes (chargebacks)
+ *
+ * Stripe's `charge.dispute.*` webhooks keep a Dispute record per chargeback.
+ * When one opens, the vendor's payout for the appointment is held if it
+ * hasn't been sent, or pulled back from their Connect balance if it has,
+ * and the vendor is emailed. When it closes the holds are released (won)
+ * or cancelled (lost), and pulled-back money is paid out again on a win.
+ * A lost dispute also reverses the customer's loyalty points for it.
+ *
+ * Admins respond from /admin/disputes with evidence assembled here.
+ */
+
+import type Stripe from 'stripe';
+import logger from '../config/logger';
+import AuditLog from '../models/audit-log.model';
+import Appointment from '../models/appointment.model';
+import Conversation from '../models/conversation.model';
+import Dispute, { type IDispute, type IDisputePayoutAction } from '../models/dispute.model';
+import Message from '../models/message.model';
+import User from '../models/user.model';
+import Vendor from '../models/vendor.model';
+import VendorPayout from '../models/vendor-payout.model';
+import VendorService from '../models/vendor-service.model';
+import WebhookDelivery from '../models/webhook-delivery.model';
+import {
+  buildStatusTimeline,
+  composeDisputeEvidence,
+  formatTranscript,
+  isDisputeWon,
+  payoutDisputeAction,
+  reversalAmounts,
+  type DisputeEvidence,
+  type TimelineEntry,
+} from '../utils/dispute.util';
+import { isDisputeClosed } from '../utils/stripe-webhook.util';
+import { queueEmail } from './email-queue.service';
+import { clawbackPointsForAppointment } from './loyalty.service';
+import { StripeConnectService } from './stripe-connect.service';
+
+type DisputeDocument = InstanceType<typeof Dispute>;
+
+// Chat before the booking often explains a dispute; look back this far
+const TRANSCRIPT_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_TRANSCRIPT_MESSAGES = 200;
+
+const idOf = (value: string | { id: string } | null | undefined): string | null =>
+  !value ? null : typeof value === 'string' ? value : value.id;
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * Create or update the Dispute for a `charge.dispute.*` event and apply
+ * its side effects: the payout hold while it is open (retried on every
+ * event until it has gone through once) and the settlement on closing.
+ */
+export async function syncDispute(stripeDispute: Stripe.Dispute, event: string): Promise<void> {
+  const paymentIntentId = idOf(stripeDispute.payment_intent);
+  const appointment = paymentIntentId
+    ? await Appointment.findOne({
+        $or: [{ paymentIntentId }, { balancePaymentIntentId: paymentIntentId }],
+      })
+    : null;
+
+  let dispute = await Dispute.findOne({ stripeDisputeId: stripeDispute.id });
+  const wasClosed = dispute ? isDisputeClosed(dispute.status) : false;
+
+  if (!dispute) {
+    let vendorId = null;
+    if (appointment) {
+      const vendorService = await VendorService.findById(appointment.vendorServiceId)
+        .select('vendorId')
+        .lean();
+      vendorId = vendorService?.vendorId || null;
+    }
+    dispute = new Dispute({
+      stripeDisputeId: stripeDispute.id,
+      stripeChargeId: idOf(stripeDispute.charge),
+      paymentIntentId,
+      appointmentId: appointment?._id || null,
+      vendorId,
+      customerId: appointment?.customerId || null,
+    });
+  }
+
+  dispute.set({
+    amount: stripeDispute.amount,
+    currency: stripeDispute.currency,
+    reason: stripeDispute.reason,
+    status: stripeDispute.status,
+    evidenceDueBy: stripeDispute.evidence_details?.due_by
+      ? new Date(stripeDispute.evidence_details.due_by * 1000)
+      : null,
+    isChargeRefundable: stripeDispute.is_charge_refundable,
+  });
+  dispute.history.push({ event, status: stripeDispute.status, at: new Date() });
+  const closedNow = !wasClosed && isDisputeClosed(stripeDispute.status);
+  if (closedNow) dispute.closedAt = new Date();
+  await dispute.save();
+
+  if (appointment) {
+    appointment.disputeId = stripeDispute.id;
+    appointment.disputeStatus = stripeDispute.status;
+    appointment.disputeReason = stripeDispute.reason;
+    appointment.disputeAmount = stripeDispute.amount / 100;
+    if (!appointment.disputedAt) appointment.disputedAt = new Date(stripeDispute.created * 1000);
+    await appointment.save();
+  } else {
+    logger.warn(`[Dispute] ${stripeDispute.id} (${event}) has no appointment`);
+  }
+
+  const message = `[Dispute] ${stripeDispute.id} on appointment ${appointment?._id}: ${stripeDispute.status} (${stripeDispute.reason})`;
+  if (isDisputeClosed(stripeDispute.status)) logger.info(message);
+  else logger.warn(message);
+
+  const open = !isDisputeClosed(stripeDispute.status);
+  if (open && dispute.appointmentId && !dispute.payoutsHeldAt) {
+    await holdPayoutsForDispute(dispute);
+  }
+  if (open && dispute.appointmentId && !dispute.vendorNotifiedAt) {
+    await notifyVendor(dispute, 'opened');
+  } else if (closedNow) {
+    await settlePayoutsForDispute(dispute);
+    if (stripeDispute.status === 'lost' && dispute.appointmentId) {
+      const lost = stripeDispute.amount / 100;
+      await clawbackPointsForAppointment(String(dispute.appointmentId), lost).catch((err) =>
+        logger.error(`[Loyalty] Clawback failed for dispute ${stripeDispute.id}: ${err.message}`),
+      );
+    }
+    // Inquiries closed before anyone was told need no follow-up
+    if (dispute.vendorNotifiedAt) await notifyVendor(dispute, 'closed');
+  }
+}
+
+/**
+ * Hold the appointment's unsent payouts and reverse transferred ones, up
+ * to the disputed amount. A failed reversal is recorded on the dispute for
+ * an admin to follow up rather than failing the webhook. Safe to rerun
+ * after a crash: held payouts are skipped, payouts this dispute already
+ * reversed count against the amount, and Stripe dedupes each reversal.
+ */
+async function holdPayoutsForDispute(dispute: DisputeDocument): Promise<void> {
+  const payouts = await VendorPayout.find({ appointmentId: dispute.appointmentId }).sort({
+    createdAt: 1,
+  });
+  const actions: IDisputePayoutAction[] = [];
+
+  // The whole unsent payout is held, even for a partial dispute
+  for (const payout of payouts.filter((p) => payoutDisputeAction(p.status) === 'hold')) {
+    payout.status = 'held';
+    payout.holdReason = `Charge disputed (${dispute.reason})`;
+    payout.heldAt = new Date();
+    payout.disputeId = dispute._id;
+    await payout.save();
+    actions.push({
+      payoutId: payout._id,
+      action: 'held',
+      amount: payout.netAmount,
+      at: new Date(),
+    });
+  }
+
+  const reversedHere = payouts.filter(
+    (p) => String(p.disputeId) === String(dispute._id) && p.reversedAt,
+  );
+  const transferred = payouts.filter(
+    (p) =>
+      payoutDisputeAction(p.status) === 'reverse' &&
+      p.stripeTransferId &&
+      !reversedHere.includes(p),
+  );
+  const alreadyReversed = reversedHere.reduce((sum, p) => sum + (p.reversedAmount || 0), 0);
+  const amounts = reversalAmounts(transferred, dispute.amount - alreadyReversed);
+  for (const [index, payout] of transferred.entries()) {
+    const amount = amounts[index];
+    if (amount <= 0) continue;
+    try {
+      await StripeConnectService.reverseTransfer(
+        payout.stripeTransferId!,
+        amount,
+        `dispute_${dispute.stripeDisputeId}_${payout._id}`,
+      );
+      payout.reversedAmount = (payout.reversedAmount || 0) + amount;
+      payout.reversedAt = new Date();
+      payout.disputeId = dispute._id;
+      if (payout.reversedAmount >= payout.netAmount) payout.status = 'reversed';
+      await payout.save();
+      actions.push({ payoutId: payout._id, action: 'reversed', amount, at: new Date() });
+    } catch (err: any) {
+      logger.error(`[Dispute] Reversing payout ${payout._id} failed: ${err.message}`);
+      actions.push({
+        payoutId: payout._id,
+        action: 'reversed',
+        amount: 0,
+        at: new Date(),
+        error: err.message,
+      });
+    }
+  }
+
+  dispute.payoutActions.push(...actions);
+  dispute.payoutsHeldAt = new Date();
+  await dispute.save();
+}
+
+/**
+ * Won: release held payouts and pay back what was reversed as a new
+ * payout. Lost: the customer kept the money, so held payouts are cancelled.
+ */
+async function settlePayoutsForDispute(dispute: DisputeDocument): Promise<void> {
+  const won = isDisputeWon(dispute.status);
+  const actions: IDisputePayoutAction[] = [];
+
+  const held = await VendorPayout.find({ disputeId: dispute._id, status: 'held' });
+  for (const payout of held) {
+    if (won) {
+      payout.status = 'pending';
+      payout.holdReason = undefined;
+    } else {
+      payout.status = 'canceled';
+      payout.failureReason = 'Dispute lost';
+    }
+    await payout.save();
+    actions.push({
+      payoutId: payout._id,
+      action: won ? 'released' : 'canceled',
+      amount: payout.netAmount,
+      at: new Date(),
+    });
+  }
+
+  if (won) {
+    const reversals = dispute.payoutActions.filter((a) => a.action === 'reversed' && !a.error);
+    for (const reversal of reversals) {
+      const original = await VendorPayout.findById(reversal.payoutId).lean();
+      if (!original) continue;
+      const repayment = await VendorPayout.create({
+        vendorId: original.vendorId,
+        appointmentId: original.appointmentId,
+        paymentPart: original.paymentPart,
+        grossAmount: reversal.amount,
+        platformFee: 0,
+        taxAmount: 0,
+        netAmount: reversal.amount,
+        currency: original.currency,
+        status: 'pending',
+        disputeId: dispute._id,
+      });
+      actions.push({
+        payoutId: repayment._id,
+        action: 'repaid',
+        amount: reversal.amount,
+        at: new Date(),
+      });
+    }
+  }
+
+  if (actions.length > 0) {
+    dispute.payoutActions.push(...actions);
+    await dispute.save();
+  }
+  logger.info(
+    `[Dispute] ${dispute.stripeDisputeId} ${won ? 'won' : 'lost'}; ${actions.length} payout(s) settled`,
+  );
+}
+
+async function notifyVendor(dispute: DisputeDocument, kind: 'opened' | 'closed'): Promise<void> {
+  try {
+    const [vendor, appointment] = await Promise.all([
+      Vendor.findById(dispute.vendorId).select('vendorName email userId').lean(),
+      Appointment.findById(dispute.appointmentId)
+        .select('vendorServiceId appointmentDate')
+        .populate('vendorServiceId', 'name')
+        .lean(),
+    ]);
+    if (!vendor?.email || !appointment) {
+      logger.warn(`[Dispute] No vendor email to notify about ${dispute.stripeDisputeId}`);
+      return;
+    }
+    const owner = vendor.userId
+      ? await User.findById(vendor.userId).select('language').lean()
+      : null;
+    const common = {
+      vendorName: vendor.vendorName,
+      serviceName: (appointment.vendorServiceId as any)?.name || 'appointment',
+      date: formatDate(appointment.appointmentDate),
+    };
+
+    if (kind === 'opened') {
+      const held = dispute.payoutActions.filter((a) => a.action === 'held');
+      const reversed = dispute.payoutActions
+        .filter((a) => a.action === 'reversed' && !a.error)
+        .reduce((sum, a) => sum + a.amount, 0);
+      await queueEmail({
+        to: vendor.email,
+        templateId: 'vendor-dispute-opened',
+        variables: {
+          ...common,
+          amount: formatCents(dispute.amount),
+          reason: dispute.reason.replace(/_/g, ' '),
+          payoutHeld: held.length > 0,
+          payoutReversed: reversed > 0 ? formatCents(reversed) : null,
+        },
+        locale: owner?.language,
+      });
+      dispute.vendorNotifiedAt = new Date();
+      await dispute.save();
+    } else {
+      await queueEmail({
+        to: vendor.email,
+        templateId: 'vendor-dispute-closed',
+        variables: { ...common, won: isDisputeWon(dispute.status) },
+        locale: owner?.language,
+      });
+    }
+  } catch (err: any) {
+    // The dispute is recorded either way; a missed email shouldn't fail the webhook
+    logger.error(
+      `[Dispute] Notifying vendor about ${dispute.stripeDisputeId} failed: ${err.message}`,
+    );
+  }
+}
+
+export interface AssembledEvidence {
+  evidence: DisputeEvidence;
+  timeline: TimelineEntry[];
+  transcript: string;
+}
+
+/**
+ * Draft evidence for a dispute: the booking, its status timeline and the
+ * customer's chat with the vendor around it.
+ */
+export async function assembleDisputeEvidence(
+  dispute: Pick<IDispute, 'appointmentId'>,
+): Promise<AssembledEvidence> {
+  const appointment = dispute.appointmentId
+    ? await Appointment.findById(dispute.appointmentId)
+        .populate('vendorServiceId', 'name vendorId')
+        .lean()
+    : null;
+  if (!appointment) return { evidence: {}, timeline: [], transcript: '' };
+
+  const vendorService = appointment.vendorServiceId as any;
+  const [customer, vendor, audit, deliveries] = await Promise.all([
+    User.findById(appointment.customerId).select('firstName lastName email').lean(),
+    Vendor.findById(vendorService?.vendorId).select('vendorName').lean(),
+    AuditLog.find({ resourceId: String(appointment._id) })
+      .sort({ createdAt: 1 })
+      .select('createdAt action path statusCode')
+      .limit(200)
+      .lean(),
+    WebhookDelivery.find({ appointmentId: appointment._id, replayOf: null })
+      .sort({ createdAt: 1 })
+      .select('createdAt event')
+      .lean(),
+  ]);
+
+  const customerName = customer ? `${customer.firstName} ${customer.lastName}`.trim() : '';
+  const vendorName = vendor?.vendorName || 'the vendor';
+
+  let transcript = '';
+  const conversation = vendor
+    ? await Conversation.findOne({ customerId: appointment.customerId, vendorId: vendor._id })
+        .select('_id')
+        .lean()
+    : null;
+  if (conversation) {
+    const since = new Date(
+      (appointment.createdAt?.getTime() || Date.now()) - TRANSCRIPT_LOOKBACK_MS,
+    );
+    const messages = await Message.find({
+      conversationId: conversation._id,
+      createdAt: { $gte: since },
+    })
+      .sort({ createdAt: -1 })
+      .limit(MAX_TRANSCRIPT_MESSAGES)
+      .select('createdAt senderRole content')
+      .lean();
+    transcript = formatTranscript(messages, {
+      customer: customerName || 'Customer',
+      vendor: vendorName,
+    });
+  }
+
+  const timeline = buildStatusTimeline(appointment, audit, deliveries);
+  const evidence = composeDisputeEvidence({
+    customerName,
+    customerEmail: customer?.email,
+    serviceName: vendorService?.name || 'Service',
+    vendorName,
+    appointmentDate: new Date(appointment.appointmentDate).toISOString().slice(0, 10),
+    startTime: appointment.startTime,
+    endTime: appointment.endTime,
+    servicePlace: appointment.servicePlace,
+    total: appointment.total || 0,
+    completedAt: appointment.completedAt,
+    cancellationPolicyName: appointment.cancellationPolicy?.name,
+    timeline,
+    transcript,
+  });
+  return { evidence, timeline, transcript };
+}
@@ -1,11 +1,14 @@
 import type { Job } from 'bullmq';
 import { enqueue, registerWorker, isQueueEnabled } from '../config/queue';
-import { sendEmail } from './email.service';
+import crypto from 'crypto';
+import { sendEmail, sendTemplatedEmail, type TemplatedEmail } from './email.service';
+import { validateEmailVariables } from './email-template.service';
 import logger from '../config/logger';
 
 /**
- * Background email queue. Wraps `sendEmail` so the request cycle isn't
- * blocked on SMTP round-trips (which can be 1-5s under load).
+ * Background email queue. Wraps `sendTemplatedEmail` so the request cycle
+ * isn't blocked on SMTP round-trips (which can be 1-5s under load). Jobs
+ * carry the template id and variables; the worker renders at send time.
  *
  * Falls back to synchronous send when REDIS_URL isn't configured so
  * local dev and initial rollout continue to work without Redis.
@@ -13,7 +16,10 @@ import logger from '../config/logger';
 
 const EMAIL_QUEUE = 'emails';
 
-export interface QueuedEmail {
+export type QueuedEmail = TemplatedEmail;
+
+// Jobs enqueued before templates existed carry rendered content
+interface LegacyQueuedEmail {
   to: string;
   subject: string;
   text: string;
@@ -21,21 +27,33 @@ export interface QueuedEmail {
 }
 
 /**
- * Enqueue an email. Returns true if the job was queued, false if Redis
- * is disabled AND the sync fallback also fails.
+ * Enqueue an email. Returns false if the variables don't fit the template,
+ * or if Redis is disabled AND the sync fallback also fails.
  */
 export async function queueEmail(payload: QueuedEmail): Promise<boolean> {
+  // Catch bad variables now rather than in a retrying worker
+  const errors = validateEmailVariables(payload.templateId, payload.variables);
+  if (errors.length > 0) {
+    logger.error(`[email-queue] ${payload.templateId} not queued: ${errors.join('; ')}`);
+    return false;
+  }
+
   if (isQueueEnabled()) {
+    const variablesHash = crypto
+      .createHash('sha1')
+      .update(JSON.stringify(payload.variables))
+      .digest('hex')
+      .slice(0, 12);
     return enqueue(EMAIL_QUEUE, 'send', payload, {
-      // Idempotency: same recipient + subject within a minute = same job.
+      // Idempotency: same recipient + template + variables within a minute = same job.
       // Prevents duplicate reminder emails when multiple triggers fire.
-      jobId: `${payload.to}:${payload.subject}:${Math.floor(Date.now() / 60000)}`,
+      jobId: `${payload.to}:${payload.templateId}:${variablesHash}:${Math.floor(Date.now() / 60000)}`,
     });
   }
 
   // Redis not configured — send synchronously so mail still goes out.
   try {
-    await sendEmail(payload);
+    await sendTemplatedEmail(payload);
     return true;
   } catch (err: any) {
     logger.error(`[email-queue] sync fallback failed: ${err.message}`);
@@ -48,10 +66,14 @@ export async function queueEmail(payload: QueuedEmail): Promise<boolean> {
  * Should be called once at server startup, alongside the webhook worker.
  */
 export function startEmailWorker(): void {
-  const worker = registerWorker<QueuedEmail>(
+  const worker = registerWorker<QueuedEmail | LegacyQueuedEmail>(
     EMAIL_QUEUE,
-    async (job: Job<QueuedEmail>) => {
-      await sendEmail(job.data);
+    async (job: Job<QueuedEmail | LegacyQueuedEmail>) => {
+      if ('templateId' in job.data) {
+        await sendTemplatedEmail(job.data);
+      } else {
+        await sendEmail(job.data);
+      }
     },
     5, // 5 concurrent SMTP sends is plenty; SendGrid limit is ~100/s
   );
@@ -0,0 +1,120 @@
+import { AppError } from '../utils/appError.util';
+import {
+  htmlToText,
+  renderTemplate,
+  resolveLocale,
+  validateTemplateVariables,
+  type TemplateVariables,
+} from '../utils/email-template.util';
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LAYOUT,
+  EMAIL_LOCALES,
+  EMAIL_PARTIALS,
+  type EmailLocale,
+} from '../templates/email/layout';
+import { EMAIL_TEMPLATES, type EmailTemplateId } from '../templates/email/templates';
+
+/**
+ * Renders the templates in src/templates/email. Callers (and queued jobs)
+ * pass a template id, variables and the recipient's language; the locale
+ * falls back region → language → English.
+ */
+
+export interface RenderedEmail {
+  templateId: EmailTemplateId;
+  locale: EmailLocale;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Available to every template without being passed in
+export const EMAIL_GLOBALS = {
+  appName: 'AppNow',
+  supportEmail: process.env.SUPPORT_EMAIL || 'support@appnow.com',
+};
+
+const identity = (value: string) => value;
+
+export function isEmailTemplateId(id: unknown): id is EmailTemplateId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, id);
+}
+
+export function resolveEmailLocale(language?: string | null): EmailLocale {
+  return resolveLocale(language, EMAIL_LOCALES, DEFAULT_EMAIL_LOCALE) as EmailLocale;
+}
+
+/**
+ * Problems with the variables for a template; empty when it can render.
+ */
+export function validateEmailVariables(
+  templateId: string,
+  variables: Record<string, unknown>,
+): string[] {
+  if (!isEmailTemplateId(templateId)) return [`Unknown email template: ${templateId}`];
+  return validateTemplateVariables(EMAIL_TEMPLATES[templateId].variables, variables);
+}
+
+export function renderEmail(
+  templateId: string,
+  variables: TemplateVariables,
+  language?: string | null,
+): RenderedEmail {
+  if (!isEmailTemplateId(templateId)) {
+    throw new AppError(`Unknown email template: ${templateId}`, 404);
+  }
+  const errors = validateEmailVariables(templateId, variables);
+  if (errors.length > 0) {
+    throw new AppError(`Invalid variables for ${templateId}: ${errors.join('; ')}`, 400);
+  }
+
+  const locale = resolveEmailLocale(language);
+  const content = EMAIL_TEMPLATES[templateId].content[locale];
+  const values = { ...variables, ...EMAIL_GLOBALS };
+  const partials = EMAIL_PARTIALS[locale];
+
+  const body = renderTemplate(content.html, values, { partials });
+  const html = renderTemplate(EMAIL_LAYOUT.html, { ...values, content: body }, { partials });
+
+  const textPartials = Object.fromEntries(
+    Object.entries(partials).map(([name, source]) => [name, htmlToText(source)]),
+  );
+  const textBody = content.text
+    ? renderTemplate(content.text, values, { partials: textPartials, escape: identity })
+    : htmlToText(body);
+  const text = renderTemplate(
+    EMAIL_LAYOUT.text,
+    { ...values, content: textBody },
+    { partials: textPartials, escape: identity },
+  );
+
+  return {
+    templateId,
+    locale,
+    subject: renderTemplate(content.subject, values, { escape: identity }),
+    html,
+    text,
+  };
+}
+
+/**
+ * Catalog for the admin preview: ids, variables and available locales.
+ */
+export function listEmailTemplates() {
+  return (Object.keys(EMAIL_TEMPLATES) as EmailTemplateId[]).map((id) => ({
+    id,
+    description: EMAIL_TEMPLATES[id].description,
+    variables: EMAIL_TEMPLATES[id].variables,
+    locales: Object.keys(EMAIL_TEMPLATES[id].content),
+  }));
+}
+
+export function exampleEmailVariables(templateId: EmailTemplateId): TemplateVariables {
+  return Object.fromEntries(
+    Object.entries(EMAIL_TEMPLATES[templateId].variables).map(([name, spec]) => [
+      name,
+      spec.example,
+    ]),
+  );
+}
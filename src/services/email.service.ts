@@ -1,11 +1,21 @@
 import nodemailer from 'nodemailer';
 import logger from '../config/logger';
+import type { TemplateVariables } from '../utils/email-template.util';
+import type { EmailTemplateId } from '../templates/email/templates';
+import { renderEmail } from './email-template.service';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
 
 interface EmailOptions {
   to: string;
   subject: string;
   text: string;
   html?: string;
+  attachments?: EmailAttachment[];
 }
 
 // Create a test email account if in development mode
@@ -52,6 +62,7 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
       subject: options.subject,
       text: options.text,
       html: options.html,
+      attachments: options.attachments,
     };
 
     const info = await transporter.sendMail(mailOptions);
@@ -66,53 +77,49 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
   }
 };
 
+export interface TemplatedEmail {
+  to: string;
+  templateId: EmailTemplateId;
+  variables: TemplateVariables;
+  // Recipient's language ("es", "es-MX"); English when unset or unsupported
+  locale?: string | null;
+  attachments?: EmailAttachment[];
+}
+
+// Render a template and send it
+export const sendTemplatedEmail = async (email: TemplatedEmail): Promise<void> => {
+  const { subject, text, html } = renderEmail(email.templateId, email.variables, email.locale);
+  await sendEmail({ to: email.to, subject, text, html, attachments: email.attachments });
+};
+
 // Function to send activation email
 export const sendActivationEmail = async (
   email: string,
   activationToken: string,
+  locale?: string | null,
 ): Promise<void> => {
-  const activationUrl = `${process.env.CLIENT_URL}/activate/${activationToken}`;
-
-  const text = `Welcome to AppNow! Please click on the following link to activate your account: ${activationUrl}`;
-  const html = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #333;">Welcome to AppNow!</h1>
-            <p>Thank you for registering with us. Please click the button below to activate your account:</p>
-            <a href="${activationUrl}" style="display: inline-block; padding: 10px 20px; background-color: #4CAF50; color: white; text-decoration: none; border-radius: 4px;">Activate Account</a>
-            <p>If you didn't register for an AppNow account, please ignore this email.</p>
-            <p>Best regards,<br>The AppNow Team</p>
-        </div>
-    `;
-
-  await sendEmail({
+  await sendTemplatedEmail({
     to: email,
-    subject: 'Activate Your AppNow Account',
-    text,
-    html,
+    templateId: 'account-activation',
+    variables: { activationUrl: `${process.env.CLIENT_URL}/activate/${activationToken}` },
+    locale,
   });
 };
 
 // Function to send password reset email
-export const sendPasswordResetEmail = async (email: string, resetToken: string): Promise<void> => {
-  const resetUrl = `${process.env.CLIENT_URL}/reset-password/${resetToken}`;
-
-  const text = `You requested a password reset. Please click on the following link to reset your password: ${resetUrl}. This link is valid for 10 minutes.`;
-  const html = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #333;">Reset Your Password</h1>
-            <p>You requested a password reset. Please click the button below to reset your password:</p>
-            <a href="${resetUrl}" style="display: inline-block; padding: 10px 20px; background-color: #2196F3; color: white; text-decoration: none; border-radius: 4px;">Reset Password</a>
-            <p>This link is valid for 10 minutes.</p>
-            <p>If you didn't request a password reset, please ignore this email.</p>
-            <p>Best regards,<br>The AppNow Team</p>
-        </div>
-    `;
-
-  await sendEmail({
+export const sendPasswordResetEmail = async (
+  email: string,
+  resetToken: string,
+  locale?: string | null,
+): Promise<void> => {
+  await sendTemplatedEmail({
     to: email,
-    subject: 'Reset Your AppNow Password',
-    text,
-    html,
+    templateId: 'password-reset',
+    variables: {
+      resetUrl: `${process.env.CLIENT_URL}/reset-password/${resetToken}`,
+      expiresInMinutes: 10,
+    },
+    locale,
   });
 };
 
@@ -120,28 +127,18 @@ export const sendPasswordResetEmail = async (email: string, resetToken: string):
 export const sendAppointmentConfirmation = async (
   email: string,
   appointmentDetails: any,
+  locale?: string | null,
 ): Promise<void> => {
-  const text = `Your appointment has been confirmed for ${appointmentDetails.date} at ${appointmentDetails.time}.`;
-  const html = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #333;">Appointment Confirmation</h1>
-            <p>Your appointment has been confirmed:</p>
-            <ul>
-                <li><strong>Date:</strong> ${appointmentDetails.date}</li>
-                <li><strong>Time:</strong> ${appointmentDetails.time}</li>
-                <li><strong>Service:</strong> ${appointmentDetails.service}</li>
-                <li><strong>Provider:</strong> ${appointmentDetails.provider}</li>
-            </ul>
-            <p>To view or manage your appointment, please log in to your account.</p>
-            <p>Best regards,<br>The AppNow Team</p>
-        </div>
-    `;
-
-  await sendEmail({
+  await sendTemplatedEmail({
     to: email,
-    subject: 'Your AppNow Appointment Confirmation',
-    text,
-    html,
+    templateId: 'appointment-confirmation',
+    variables: {
+      date: appointmentDetails.date,
+      time: appointmentDetails.time,
+      service: appointmentDetails.service,
+      provider: appointmentDetails.provider,
+    },
+    locale,
   });
 };
 
@@ -149,27 +146,19 @@ export const sendAppointmentConfirmation = async (
 export const sendBookingConfirmationEmail = async (
   email: string,
   bookingDetails: any,
+  attachments?: EmailAttachment[],
+  locale?: string | null,
 ): Promise<void> => {
-  const text = `Your booking has been confirmed for ${bookingDetails.serviceName} with ${bookingDetails.vendorServiceName} on ${bookingDetails.date} at ${bookingDetails.time}.`;
-  const html = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #333;">Booking Confirmation</h1>
-            <p>Your booking has been confirmed:</p>
-            <ul>
-                <li><strong>Service:</strong> ${bookingDetails.serviceName}</li>
-                <li><strong>Provider:</strong> ${bookingDetails.vendorServiceName}</li>
-                <li><strong>Date:</strong> ${bookingDetails.date}</li>
-                <li><strong>Time:</strong> ${bookingDetails.time}</li>
-            </ul>
-            <p>To view or manage your booking, please log in to your account.</p>
-            <p>Best regards,<br>The AppNow Team</p>
-        </div>
-    `;
-
-  await sendEmail({
+  await sendTemplatedEmail({
     to: email,
-    subject: 'Your AppNow Booking Confirmation',
-    text,
-    html,
+    templateId: 'booking-confirmation',
+    variables: {
+      serviceName: bookingDetails.serviceName,
+      vendorName: bookingDetails.vendorServiceName,
+      date: bookingDetails.date,
+      time: bookingDetails.time,
+    },
+    attachments,
+    locale,
   });
 };
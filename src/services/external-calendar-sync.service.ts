@@ -0,0 +1,204 @@
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import ExternalCalendar from '../models/external-calendar.model';
+import ExternalCalendarEvent from '../models/external-calendar-event.model';
+import Vendor from '../models/vendor.model';
+import VendorBlockTime from '../models/vendor-block-time.model';
+import { getVendorServiceIds } from '../utils/vendor.util';
+import { resolveTimezone, toDateKey } from '../utils/timezone.util';
+import { busyIntervalsToBlocks } from '../utils/external-calendar.util';
+import { getCalendarProvider, type CalendarProvider } from './calendar-providers.service';
+import { appointmentToIcsEvent, populateForIcs } from './ics.service';
+
+// Sync window: yesterday through the booking horizon most vendors use
+const SYNC_PAST_DAYS = 1;
+const SYNC_FUTURE_DAYS = 90;
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Appointments that should appear in the vendor's calendar
+const PUSHED_STATUSES = ['pending', 'confirmed', 'completed'];
+
+const CREDENTIAL_FIELDS = '+username +password +accessToken +refreshToken';
+
+export interface CalendarSyncResult {
+  imported: number;
+  pushed: number;
+  removed: number;
+  error?: string;
+}
+
+/**
+ * Replace the calendar's imported block times inside the window with the
+ * busy intervals it reports now.
+ */
+async function importBusyTimes(
+  calendar: any,
+  provider: CalendarProvider,
+  timezone: string,
+  from: Date,
+  to: Date,
+): Promise<number> {
+  const intervals = await provider.fetchBusy(calendar, from, to, timezone);
+  const fromKey = toDateKey(from);
+  const blocks = busyIntervalsToBlocks(intervals, timezone, fromKey, toDateKey(to));
+
+  await VendorBlockTime.deleteMany({
+    externalCalendarId: calendar._id,
+    toDate: { $gte: new Date(`${fromKey}T00:00:00.000Z`) },
+  });
+  if (blocks.length > 0) {
+    await VendorBlockTime.insertMany(
+      blocks.map((block) => ({
+        vendorId: calendar.vendorId,
+        fromDate: new Date(`${block.fromDate}T00:00:00.000Z`),
+        toDate: new Date(`${block.toDate}T00:00:00.000Z`),
+        allDay: block.allDay,
+        fromTime: block.fromTime,
+        toTime: block.toTime,
+        reason: 'other',
+        notes: `Busy in ${calendar.name}`,
+        source: 'external',
+        externalCalendarId: calendar._id,
+        externalUid: block.uid,
+      })),
+    );
+  }
+  return blocks.length;
+}
+
+/**
+ * Push appointments that are new or changed since the last push, and remove
+ * the ones that were cancelled.
+ */
+async function pushAppointments(
+  calendar: any,
+  provider: CalendarProvider,
+  from: Date,
+  to: Date,
+): Promise<{ pushed: number; removed: number }> {
+  const serviceIds = await getVendorServiceIds(String(calendar.vendorId));
+  const appointments = await populateForIcs(
+    Appointment.find({
+      vendorServiceId: { $in: serviceIds },
+      appointmentDate: { $gte: from, $lte: to },
+    }),
+  ).lean();
+  const mappings = await ExternalCalendarEvent.find({ externalCalendarId: calendar._id });
+  const byAppointment = new Map(mappings.map((m) => [String(m.appointmentId), m]));
+
+  let pushed = 0;
+  let removed = 0;
+  for (const apt of appointments as any[]) {
+    const mapping = byAppointment.get(String(apt._id));
+    const sequence = apt.calendarSequence || 0;
+
+    if (!PUSHED_STATUSES.includes(apt.status)) {
+      if (mapping && provider.deleteEvent) {
+        await provider.deleteEvent(calendar, mapping.externalId);
+        await mapping.deleteOne();
+        removed++;
+      }
+      continue;
+    }
+    if (mapping && mapping.sequence === sequence) continue;
+
+    const externalId = await provider.pushEvent!(
+      calendar,
+      appointmentToIcsEvent(apt, 'vendor'),
+      mapping?.externalId,
+    );
+    await ExternalCalendarEvent.updateOne(
+      { externalCalendarId: calendar._id, appointmentId: apt._id },
+      { $set: { externalId, sequence } },
+      { upsert: true },
+    );
+    pushed++;
+  }
+  return { pushed, removed };
+}
+
+/**
+ * Run one two-way sync for a connected calendar. Failures are recorded on
+ * the calendar rather than thrown.
+ */
+export async function syncExternalCalendar(
+  externalCalendarId: string,
+  now: Date = new Date(),
+): Promise<CalendarSyncResult> {
+  const calendar = await ExternalCalendar.findById(externalCalendarId).select(CREDENTIAL_FIELDS);
+  if (!calendar) return { imported: 0, pushed: 0, removed: 0, error: 'Calendar not found' };
+
+  const result: CalendarSyncResult = { imported: 0, pushed: 0, removed: 0 };
+  try {
+    const vendor = await Vendor.findById(calendar.vendorId).select('timezone').lean();
+    const timezone = resolveTimezone(vendor?.timezone as string | undefined);
+    const from = new Date(now.getTime() - SYNC_PAST_DAYS * DAY_MS);
+    const to = new Date(now.getTime() + SYNC_FUTURE_DAYS * DAY_MS);
+    const provider = getCalendarProvider(calendar.provider);
+
+    if (calendar.importBusy) {
+      result.imported = await importBusyTimes(calendar, provider, timezone, from, to);
+    }
+    if (calendar.pushAppointments && provider.pushEvent) {
+      Object.assign(result, await pushAppointments(calendar, provider, from, to));
+    }
+
+    calendar.lastSyncStatus = 'ok';
+    calendar.lastSyncError = null;
+  } catch (error: any) {
+    logger.error(`[CalendarSync] ${externalCalendarId} failed: ${error.message}`);
+    result.error = error.message;
+    calendar.lastSyncStatus = 'error';
+    calendar.lastSyncError = error.message;
+  }
+  calendar.lastSyncedAt = now;
+  await calendar.save();
+  return result;
+}
+
+/**
+ * Remove everything a calendar connection created on our side: imported
+ * block times and the push mapping. Pushed events are deleted from the
+ * external calendar on a best-effort basis.
+ */
+export async function disconnectExternalCalendar(externalCalendarId: string): Promise<void> {
+  const calendar = await ExternalCalendar.findById(externalCalendarId).select(CREDENTIAL_FIELDS);
+  if (!calendar) return;
+
+  const provider = getCalendarProvider(calendar.provider);
+  const mappings = await ExternalCalendarEvent.find({ externalCalendarId });
+  for (const mapping of mappings) {
+    try {
+      await provider.deleteEvent?.(calendar, mapping.externalId);
+    } catch (error: any) {
+      logger.warn(`[CalendarSync] Could not remove event ${mapping.externalId}: ${error.message}`);
+    }
+  }
+
+  await ExternalCalendarEvent.deleteMany({ externalCalendarId });
+  await VendorBlockTime.deleteMany({ externalCalendarId });
+  await calendar.deleteOne();
+}
+
+/**
+ * Sync every active calendar, one at a time.
+ */
+export async function syncAllExternalCalendars(): Promise<void> {
+  const calendars = await ExternalCalendar.find({ isActive: true }).select('_id').lean();
+  for (const calendar of calendars) {
+    await syncExternalCalendar(String(calendar._id));
+  }
+  if (calendars.length > 0) {
+    logger.info(`[CalendarSync] Synced ${calendars.length} external calendar(s)`);
+  }
+}
+
+export function startExternalCalendarSync(): void {
+  setInterval(() => {
+    syncAllExternalCalendars().catch((error) =>
+      logger.error(`[CalendarSync] Sweep failed: ${error.message}`),
+    );
+  }, SYNC_INTERVAL_MS);
+  logger.info('[CalendarSync] External calendar sync started (every 15 min)');
+}
@@ -1,17 +1,44 @@
-import moment from 'moment';
-import type { Appointment, Timing, DateDetails, Slot } from './../interfaces/common.interface';
+import type {
+  Appointment,
+  Timing,
+  DateDetails,
+  Slot,
+  SlotConstraints,
+  SlotStaff,
+  StaffContext,
+  StaffSchedule,
+} from './../interfaces/common.interface';
+import {
+  DEFAULT_TIMEZONE,
+  formatInTimezone,
+  minutesToTime,
+  timeToMinutes,
+  toDateKey,
+  zonedTimeToUtc,
+} from '../utils/timezone.util';
+import { isTimeBlocked } from '../utils/block-time.util';
+import { bookingWindowError, totalBufferMinutes } from '../utils/booking-rules.util';
 
-const checkSlotIsAvailable = (
+/**
+ * Count remaining capacity for a slot window. All timestamps are real UTC
+ * instants computed in the vendor's timezone.
+ */
+export const checkSlotIsAvailable = (
   appointments: Appointment[],
   appointmentDate: string,
   startTs: number,
   endTs: number,
   reoccurrence: number,
+  timezone: string = DEFAULT_TIMEZONE,
 ): number => {
   let availableSlots = reoccurrence;
   for (const appointment of appointments) {
-    const appointmentStartTs = new Date(`${appointmentDate} ${appointment.start_time}`).getTime();
-    const appointmentEndTs = new Date(`${appointmentDate} ${appointment.end_time}`).getTime();
+    const appointmentStartTs = zonedTimeToUtc(
+      appointmentDate,
+      appointment.start_time,
+      timezone,
+    ).getTime();
+    const appointmentEndTs = zonedTimeToUtc(appointmentDate, appointment.end_time, timezone).getTime();
     const appointmentCount = appointment.appointments;
 
     // Check for any overlap between appointment and slot:
@@ -36,58 +63,184 @@ const checkSlotIsAvailable = (
   return availableSlots;
 };
 
+const overlaps = (aStart: number, aEnd: number, bStart: number, bEnd: number) =>
+  aStart < bEnd && bStart < aEnd;
+
+/**
+ * Whether a staff member can take a slot: inside their working hours for
+ * that weekday (none set = follows the service's timings) and at least
+ * `bufferMinutes` clear of their own bookings. Times are vendor wall-clock
+ * on `dateStr`.
+ */
+export const isStaffFree = (
+  member: StaffSchedule,
+  dateStr: string,
+  startTime: string,
+  endTime: string,
+  bufferMinutes = 0,
+): boolean => {
+  const start = timeToMinutes(startTime);
+  const end = timeToMinutes(endTime);
+
+  if (member.workingHours.length > 0) {
+    const dayOfWeek = new Date(`${dateStr}T00:00:00.000Z`).getUTCDay();
+    const covered = member.workingHours.some(
+      (hours) =>
+        hours.dayOfWeek === dayOfWeek &&
+        timeToMinutes(hours.startTime) <= start &&
+        end <= timeToMinutes(hours.endTime),
+    );
+    if (!covered) return false;
+  }
+
+  return !(member.bookings[dateStr] || []).some((booking) =>
+    overlaps(
+      start - bufferMinutes,
+      end + bufferMinutes,
+      timeToMinutes(booking.start_time),
+      timeToMinutes(booking.end_time),
+    ),
+  );
+};
+
+/**
+ * Staff free for a slot, and how many more bookings it can take — free
+ * staff less any overlapping bookings that have no staff member yet.
+ */
+export const getFreeStaff = (
+  context: StaffContext,
+  dateStr: string,
+  startTime: string,
+  endTime: string,
+  bufferMinutes = 0,
+): { staff: SlotStaff[]; capacity: number } => {
+  const start = timeToMinutes(startTime) - bufferMinutes;
+  const end = timeToMinutes(endTime) + bufferMinutes;
+  const free = context.members.filter((member) =>
+    isStaffFree(member, dateStr, startTime, endTime, bufferMinutes),
+  );
+  const unassigned = (context.unassigned[dateStr] || [])
+    .filter((booking) =>
+      overlaps(start, end, timeToMinutes(booking.start_time), timeToMinutes(booking.end_time)),
+    )
+    .reduce((count, booking) => count + booking.appointments, 0);
+
+  return {
+    staff: free.map(({ staffId, name }) => ({ staffId, name })),
+    capacity: Math.max(0, free.length - unassigned),
+  };
+};
+
+/**
+ * "No preference" assignment: the candidate with the fewest bookings that
+ * day, then whoever was assigned least recently (round-robin), then by id
+ * so the choice is stable.
+ */
+export const pickStaffMember = (
+  candidates: { staffId: string; dayLoad: number; lastAssignedAt?: Date | null }[],
+): string | null => {
+  const ranked = [...candidates].sort(
+    (a, b) =>
+      a.dayLoad - b.dayLoad ||
+      (a.lastAssignedAt?.getTime() || 0) - (b.lastAssignedAt?.getTime() || 0) ||
+      a.staffId.localeCompare(b.staffId),
+  );
+  return ranked[0]?.staffId || null;
+};
+
 const getSlots = (
   duration: number,
   timing: Timing,
   dateDetails: DateDetails,
   appointments: Record<string, Appointment[]>,
   vendorServiceId = '',
+  timezone: string = DEFAULT_TIMEZONE,
+  constraints: SlotConstraints = {},
 ): Slot[] => {
+  const { staffContext, blocked, rules, now = new Date() } = constraints;
   const slots: Slot[] = [];
-  let startTime = timing.fromTime;
-  const endTime = timing.toTime;
-  const dateStr = moment(dateDetails.date).format().substring(0, 10);
-  while (
-    new Date(`${dateStr} ${startTime}`).getTime() <= new Date(`${dateStr} ${endTime}`).getTime()
-  ) {
-    const slotStart = startTime;
-    const durationAddedTs = new Date(`${dateStr} ${startTime}`).getTime() + duration * 60 * 1000;
-    startTime = new Date(durationAddedTs).toTimeString().slice(0, 5);
-    const slotEnd = startTime;
+  const dateStr = toDateKey(dateDetails.date);
+  const windowStart = timeToMinutes(timing.fromTime);
+  const windowEnd = timeToMinutes(timing.toTime);
+  if (isNaN(windowStart) || isNaN(windowEnd) || !(duration > 0)) return slots;
+
+  // Appointments must sit this far apart (cleanup + next prep), so slots
+  // step by the duration plus the gap and bookings are padded by it
+  const buffer = rules ? totalBufferMinutes(rules) : 0;
+  const bufferMs = buffer * 60 * 1000;
+
+  // Walk the window in vendor wall-clock minutes; convert each slot to real
+  // instants only for collision checks and the response.
+  for (let cursor = windowStart; cursor + duration <= windowEnd; cursor += duration + buffer) {
+    const slotStart = minutesToTime(cursor);
+    const slotEnd = minutesToTime(cursor + duration);
+    // Vendor block times (vacation, sick days, …) are never bookable
+    if (isTimeBlocked(blocked, dateStr, slotStart, slotEnd)) continue;
+    const startAt = zonedTimeToUtc(dateStr, slotStart, timezone);
+    const endAt = zonedTimeToUtc(dateStr, slotEnd, timezone);
+    // Too soon (minimum notice, or already started) or beyond the booking horizon
+    if (rules && bookingWindowError(rules, startAt, now)) continue;
+
     let slotCount = dateDetails.reoccurrence;
     if (appointments[dateStr]) {
       slotCount = checkSlotIsAvailable(
         appointments[dateStr],
         dateStr,
-        new Date(`${dateStr} ${slotStart}`).getTime(),
-        new Date(`${dateStr} ${slotEnd}`).getTime(),
+        startAt.getTime() - bufferMs,
+        endAt.getTime() + bufferMs,
         dateDetails.reoccurrence,
+        timezone,
       );
     }
-    if (
-      slotCount > 0 &&
-      new Date(`${dateStr} ${startTime}`).getTime() <= new Date(`${dateStr} ${endTime}`).getTime()
-    ) {
+    // Multi-staff vendors: capacity is also capped by who is actually free
+    let staff: SlotStaff[] | undefined;
+    if (staffContext) {
+      const free = getFreeStaff(staffContext, dateStr, slotStart, slotEnd, buffer);
+      slotCount = Math.min(slotCount, free.capacity);
+      staff = free.staff;
+    }
+    if (slotCount > 0) {
       slots.push({
         start_time: slotStart,
         end_time: slotEnd,
         availableSlots: slotCount,
         vendorServiceId,
+        timezone,
+        start_local: formatInTimezone(startAt, timezone),
+        end_local: formatInTimezone(endAt, timezone),
+        start_utc: startAt.toISOString(),
+        end_utc: endAt.toISOString(),
+        ...(staff ? { staff } : {}),
       });
     }
   }
   return slots;
 };
 
+/**
+ * Bookable slots for one date. `constraints` narrows them further: staff
+ * availability for multi-staff vendors (each slot lists who is free), the
+ * vendor's block times, and the service's buffer / notice / horizon rules.
+ */
 export const getServiceSlots = (
   dateDetails: DateDetails,
   duration: number,
   appointments: Record<string, Appointment[]>,
   vendorServiceId = '',
+  timezone: string = DEFAULT_TIMEZONE,
+  constraints: SlotConstraints = {},
 ): Slot[] => {
   let resultSlots: Slot[] = [];
   for (const timing of dateDetails.timings) {
-    const slots = getSlots(duration, timing, dateDetails, appointments, vendorServiceId);
+    const slots = getSlots(
+      duration,
+      timing,
+      dateDetails,
+      appointments,
+      vendorServiceId,
+      timezone,
+      constraints,
+    );
     resultSlots = resultSlots.concat(slots);
   }
   resultSlots.forEach((resultSlot: Slot, index: number) => (resultSlot.index = index));
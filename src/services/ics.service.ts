@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import Appointment from '../models/appointment.model';
+import CalendarFeed from '../models/calendar-feed.model';
+import VendorService from '../models/vendor-service.model';
+import {
+  appointmentStatusToIcs,
+  appointmentUid,
+  buildIcsCalendar,
+  type IcsEvent,
+} from '../utils/ics.util';
+import { buildZonedSchedule } from '../utils/timezone.util';
+
+// Feed window: recent history plus the year ahead
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const FEED_REFRESH_MINUTES = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Audience = 'vendor' | 'customer';
+
+const joinAddress = (parts: (string | undefined | null)[]) => parts.filter(Boolean).join(', ');
+
+/**
+ * Map a populated appointment to an ICS event. Vendors see the customer's
+ * name; customers see the service and provider.
+ */
+export function appointmentToIcsEvent(apt: any, audience: Audience): IcsEvent {
+  const schedule =
+    apt.startAt && apt.endAt
+      ? { startAt: apt.startAt, endAt: apt.endAt }
+      : buildZonedSchedule(apt.appointmentDate, apt.startTime, apt.endTime, apt.timezone);
+
+  const vendorService = apt.vendorServiceId || {};
+  const vendor = vendorService.vendorId || {};
+  const customer = apt.customerId || {};
+  const serviceName = vendorService.name || vendorService.serviceId?.name || 'Appointment';
+  const customerName = [customer.firstName, customer.lastName].filter(Boolean).join(' ');
+  const staffName = apt.staffId?.name;
+
+  const summary =
+    audience === 'vendor'
+      ? `${serviceName}${customerName ? ` — ${customerName}` : ''}`
+      : `${serviceName}${vendor.vendorName ? ` with ${vendor.vendorName}` : ''}`;
+
+  const location =
+    apt.servicePlace === 'customer' && apt.customerAddress
+      ? joinAddress([
+          apt.customerAddress.address1,
+          apt.customerAddress.address2,
+          apt.customerAddress.city,
+          apt.customerAddress.state,
+          apt.customerAddress.zip,
+        ])
+      : joinAddress([vendor.address1, vendor.address2, vendor.city, vendor.state, vendor.zip]);
+
+  const description = [
+    staffName ? `Staff: ${staffName}` : null,
+    audience === 'vendor' && apt.customerNotes ? `Notes: ${apt.customerNotes}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    uid: appointmentUid(String(apt._id)),
+    sequence: apt.calendarSequence || 0,
+    status: appointmentStatusToIcs(apt.status),
+    start: new Date(schedule.startAt),
+    end: new Date(schedule.endAt),
+    summary,
+    description: description || undefined,
+    location: location || undefined,
+    updatedAt: apt.updatedAt ? new Date(apt.updatedAt) : undefined,
+  };
+}
+
+// Populates what `appointmentToIcsEvent` reads
+export const populateForIcs = (query: any) =>
+  query
+    .populate('customerId', 'firstName lastName')
+    .populate('staffId', 'name')
+    .populate({
+      path: 'vendorServiceId',
+      select: 'name serviceId vendorId',
+      populate: [
+        { path: 'serviceId', select: 'name' },
+        { path: 'vendorId', select: 'vendorName address1 address2 city state zip' },
+      ],
+    });
+
+/**
+ * Single-event calendar file for one appointment, as attached to the
+ * confirmation email and served by the customer download endpoint.
+ */
+export async function buildAppointmentIcs(
+  appointmentId: string,
+  audience: Audience = 'customer',
+): Promise<string | null> {
+  const appointment = await populateForIcs(Appointment.findById(appointmentId)).lean();
+  if (!appointment) return null;
+
+  return buildIcsCalendar([appointmentToIcsEvent(appointment, audience)]);
+}
+
+/**
+ * Subscription feed body for a token, or null when the token is unknown.
+ * Cancelled appointments stay in the feed so clients drop their copy.
+ */
+export async function buildFeedIcs(token: string, now = new Date()): Promise<string | null> {
+  const feed = await CalendarFeed.findOneAndUpdate(
+    { token },
+    { $set: { lastAccessedAt: now } },
+    { new: true },
+  ).lean();
+  if (!feed) return null;
+
+  const filter: Record<string, any> = {
+    appointmentDate: {
+      $gte: new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+      $lte: new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS),
+    },
+    status: { $in: ['pending', 'confirmed', 'completed', 'cancelled'] },
+  };
+  if (feed.staffId) {
+    filter.staffId = feed.staffId;
+  } else {
+    const services = await VendorService.find({ vendorId: feed.vendorId }).select('_id').lean();
+    filter.vendorServiceId = { $in: services.map((s) => s._id) };
+  }
+
+  const appointments = await populateForIcs(Appointment.find(filter))
+    .sort({ appointmentDate: 1, startTime: 1 })
+    .lean();
+
+  return buildIcsCalendar(
+    appointments.map((apt: any) => appointmentToIcsEvent(apt, 'vendor')),
+    { name: 'AppNow appointments', refreshMinutes: FEED_REFRESH_MINUTES, now },
+  );
+}
+
+/**
+ * Unguessable URL token for a feed.
+ */
+export function generateFeedToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
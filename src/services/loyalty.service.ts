@@ -0,0 +1,187 @@
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import LoyaltyAccount, { type ILoyaltyAccount } from '../models/loyalty-account.model';
+import Appointment from '../models/appointment.model';
+import User from '../models/user.model';
+import {
+  calculatePointsForAmount,
+  calculateTierDiscount,
+  LOYALTY_TIERS,
+  type LoyaltyTier,
+} from '../config/loyalty';
+
+/**
+ * Loyalty accrual tied to the appointment lifecycle.
+ *
+ *   completed → points awarded on the amount actually paid, × tier multiplier
+ *   refunded  → the refunded share of those points is clawed back
+ *
+ * Both directions are idempotent: the appointment records how many points
+ * it has earned and how many were reversed, so re-running is a no-op.
+ */
+
+/**
+ * Find a loyalty account by Clerk ID or User _id, creating it on first use.
+ * Returns null when the user doesn't exist.
+ */
+export async function findOrCreateLoyaltyAccount(
+  lookup: { clerkId?: string; userId?: string },
+): Promise<ILoyaltyAccount | null> {
+  const query = lookup.clerkId
+    ? { clerkId: lookup.clerkId }
+    : { userId: new mongoose.Types.ObjectId(lookup.userId) };
+  const account = await LoyaltyAccount.findOne(query);
+  if (account) return account;
+
+  const user = lookup.clerkId
+    ? await User.findOne({ clerkId: lookup.clerkId })
+    : await User.findById(lookup.userId);
+  if (!user?.clerkId) return null;
+
+  return LoyaltyAccount.create({
+    userId: user._id,
+    clerkId: user.clerkId,
+    points: 0,
+    totalEarned: 0,
+    totalRedeemed: 0,
+    tier: 'bronze',
+    history: [],
+  });
+}
+
+/**
+ * Current tier for a customer without creating an account.
+ */
+export async function getCustomerTier(customerId: string): Promise<LoyaltyTier> {
+  const account = await LoyaltyAccount.findOne({
+    userId: new mongoose.Types.ObjectId(customerId),
+  })
+    .select('tier')
+    .lean();
+  return (account?.tier as LoyaltyTier) || 'bronze';
+}
+
+/**
+ * Tier discount a customer is entitled to on a booking's service fee.
+ */
+export async function getTierDiscountForBooking(
+  customerId: string,
+  serviceFee: number,
+): Promise<{ tier: LoyaltyTier; discountAmount: number; discountPercent: number }> {
+  const tier = await getCustomerTier(customerId);
+  return {
+    tier,
+    discountAmount: calculateTierDiscount(serviceFee, tier),
+    discountPercent: LOYALTY_TIERS[tier].bookingDiscountPercent,
+  };
+}
+
+/**
+ * Award points for a completed appointment. Safe to call more than once.
+ * Returns the number of points awarded by this call.
+ */
+export async function awardPointsForAppointment(appointmentId: string): Promise<number> {
+  const appointment = await Appointment.findById(appointmentId);
+  if (!appointment) {
+    logger.warn(`[Loyalty] Appointment ${appointmentId} not found`);
+    return 0;
+  }
+  if (appointment.status !== 'completed') return 0;
+  if ((appointment.loyaltyPointsAwarded || 0) > 0) return 0;
+  if (!['completed', 'partially_refunded'].includes(appointment.paymentStatus || '')) return 0;
+
+  const amountPaid = Math.max(
+    0,
+    (appointment.total ?? appointment.serviceFee ?? 0) - (appointment.refundAmount || 0),
+  );
+
+  const account = await findOrCreateLoyaltyAccount({ userId: appointment.customerId.toString() });
+  if (!account) {
+    logger.warn(`[Loyalty] No account for customer ${appointment.customerId}`);
+    return 0;
+  }
+
+  const points = calculatePointsForAmount(amountPaid, account.tier);
+  if (points <= 0) return 0;
+
+  // Claim the award on the appointment first so concurrent completions can't double-award
+  const claimed = await Appointment.updateOne(
+    { _id: appointment._id, loyaltyPointsAwarded: { $in: [null, 0] } },
+    { $set: { loyaltyPointsAwarded: points } },
+  );
+  if (claimed.modifiedCount === 0) return 0;
+
+  const multiplier = LOYALTY_TIERS[account.tier].pointsMultiplier;
+  account.points += points;
+  account.totalEarned += points;
+  account.history.push({
+    type: 'earned',
+    points,
+    description:
+      multiplier > 1
+        ? `Earned ${points} points for $${amountPaid.toFixed(2)} booking (${account.tier} ${multiplier}x)`
+        : `Earned ${points} points for $${amountPaid.toFixed(2)} booking`,
+    appointmentId: appointment._id,
+    createdAt: new Date(),
+  });
+  await account.save();
+
+  logger.info(`[Loyalty] Awarded ${points} points for appointment ${appointmentId}`);
+  return points;
+}
+
+/**
+ * Reverse points for a refunded appointment, proportional to the share of
+ * the payment refunded. `lostAmount` adds money lost to a chargeback.
+ * Balances never go below zero; lifetime totals are reduced too so tier
+ * reflects net spend. Returns points reversed by this call.
+ */
+export async function clawbackPointsForAppointment(
+  appointmentId: string,
+  lostAmount = 0,
+): Promise<number> {
+  const appointment = await Appointment.findById(appointmentId);
+  if (!appointment) return 0;
+
+  const awarded = appointment.loyaltyPointsAwarded || 0;
+  const alreadyReversed = appointment.loyaltyPointsClawedBack || 0;
+  if (awarded <= 0) return 0;
+
+  const paid = appointment.total ?? appointment.serviceFee ?? 0;
+  const refunded =
+    (appointment.paymentStatus === 'refunded' ? paid : appointment.refundAmount || 0) + lostAmount;
+  const refundShare = paid > 0 ? Math.min(1, refunded / paid) : 1;
+  const target = Math.ceil(awarded * refundShare);
+  const toReverse = target - alreadyReversed;
+  if (toReverse <= 0) return 0;
+
+  const claimed = await Appointment.updateOne(
+    {
+      _id: appointment._id,
+      loyaltyPointsClawedBack: alreadyReversed === 0 ? { $in: [null, 0] } : alreadyReversed,
+    },
+    { $set: { loyaltyPointsClawedBack: target } },
+  );
+  if (claimed.modifiedCount === 0) return 0;
+
+  const account = await LoyaltyAccount.findOne({ userId: appointment.customerId });
+  if (!account) return 0;
+
+  const deducted = Math.min(toReverse, account.points);
+  account.points -= deducted;
+  account.totalEarned = Math.max(0, account.totalEarned - toReverse);
+  account.history.push({
+    type: 'clawback',
+    points: -toReverse,
+    description:
+      deducted < toReverse
+        ? `Reversed ${toReverse} points for refunded booking (${toReverse - deducted} already redeemed)`
+        : `Reversed ${toReverse} points for refunded booking`,
+    appointmentId: appointment._id,
+    createdAt: new Date(),
+  });
+  await account.save();
+
+  logger.info(`[Loyalty] Clawed back ${toReverse} points for appointment ${appointmentId}`);
+  return toReverse;
+}
@@ -0,0 +1,453 @@
+/**
+ * Notification Dispatcher
+ *
+ * Single entry point for customer-facing messages (bookings, reminders,
+ * cancellations, waitlist offers, promotions). For each recipient it:
+ *   1. resolves channels from `notificationPrefs` and consent
+ *   2. saves the in-app inbox entry (`Notification`)
+ *   3. fans out to push, email and SMS
+ *   4. records the per-channel outcome on the Notification document
+ */
+
+import mongoose from 'mongoose';
+import User from '../models/user.model';
+import Notification from '../models/notification.model';
+import logger from '../config/logger';
+import { isQueueEnabled } from '../config/queue';
+import type { INotificationDelivery } from '../interfaces/notification.interface';
+import {
+  resolveChannels,
+  type ChannelDecision,
+  type NotificationChannel,
+  type NotificationType,
+} from '../utils/notification-channels.util';
+import type { TemplateVariables } from '../utils/email-template.util';
+import type { EmailTemplateId } from '../templates/email/templates';
+import type { EmailAttachment } from './email.service';
+import { queueEmail } from './email-queue.service';
+import { userPushTokens } from '../utils/push-receipt.util';
+import { sendPushMessages, type PushOutcome, type PushRequest } from './push-notification.service';
+import { sendSmsNotification } from './sms.service';
+
+const RECIPIENT_FIELDS =
+  '_id clerkId email phone timezone language firstName expoPushToken pushTokens notificationPrefs smsConsent marketingEmailConsent';
+
+export interface DispatchMessage {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+  // Email template; defaults to the generic `notification` one with the title and body
+  email?: {
+    templateId: EmailTemplateId;
+    variables: TemplateVariables;
+    attachments?: EmailAttachment[];
+  };
+  // SMS text; defaults to the body
+  sms?: string;
+  // No use after this (e.g. a reminder once the appointment starts); SMS
+  // held for quiet hours is dropped instead of sent late
+  expiresAt?: Date;
+  // Restrict to these channels (preferences and consent still apply)
+  channels?: NotificationChannel[];
+  saveToDatabase?: boolean;
+}
+
+export interface DispatchTarget {
+  userId?: string; // MongoDB _id
+  clerkId?: string; // Clerk user ID
+}
+
+export interface DispatchResult {
+  success: boolean;
+  notificationId?: string;
+  deliveries: INotificationDelivery[];
+  error?: string;
+}
+
+export type Recipient = {
+  _id: mongoose.Types.ObjectId | string;
+  clerkId?: string;
+  email?: string;
+  phone?: string;
+  timezone?: string | null;
+  language?: string | null;
+  firstName?: string;
+  expoPushToken?: string;
+  pushTokens?: { token: string }[];
+  notificationPrefs?: Record<string, boolean>;
+  smsConsent?: boolean;
+  marketingEmailConsent?: boolean;
+};
+
+export interface SendContext {
+  // Inbox entry the delivery belongs to, when one is saved
+  notificationId?: mongoose.Types.ObjectId | null;
+}
+
+/**
+ * Sends one message on one channel. Return the delivery outcome; throwing
+ * is recorded as `failed`.
+ */
+export type ChannelSender = (
+  recipient: Recipient,
+  message: DispatchMessage,
+  context: SendContext,
+) => Promise<Omit<INotificationDelivery, 'channel'>>;
+
+const emailSender: ChannelSender = async (recipient, message) => {
+  const queued = await queueEmail({
+    to: recipient.email!,
+    templateId: message.email?.templateId || 'notification',
+    variables: message.email?.variables || { title: message.title, body: message.body },
+    locale: recipient.language,
+    attachments: message.email?.attachments,
+  });
+  if (!queued) return { status: 'failed', error: 'Email could not be sent' };
+  return { status: isQueueEnabled() ? 'queued' : 'sent' };
+};
+
+const pushRequests = (
+  recipient: Recipient,
+  message: DispatchMessage,
+  context: SendContext,
+): PushRequest[] =>
+  userPushTokens(recipient).map((token) => ({
+    userId: recipient._id,
+    token,
+    title: message.title,
+    body: message.body,
+    data: { ...(message.data || {}), type: message.type },
+    notificationId: context.notificationId,
+  }));
+
+/**
+ * One delivery entry for all of a user's devices: sent if any device got
+ * it, queued while any is waiting on a retry. Per-device results are on the
+ * PushTickets.
+ */
+const pushDelivery = (outcomes: PushOutcome[]): Omit<INotificationDelivery, 'channel'> => {
+  const sent = outcomes.find((outcome) => outcome.status === 'sent');
+  if (sent) return { status: 'sent', providerMessageId: sent.ticketId };
+  if (outcomes.some((outcome) => outcome.status === 'retrying')) {
+    return { status: 'queued', reason: 'retrying' };
+  }
+  return { status: 'failed', error: outcomes[0]?.error || 'No device token' };
+};
+
+const pushSender: ChannelSender = async (recipient, message, context) =>
+  pushDelivery(await sendPushMessages(pushRequests(recipient, message, context)));
+
+const senders: Partial<Record<NotificationChannel, ChannelSender>> = {
+  push: pushSender,
+  email: emailSender,
+  sms: sendSmsNotification,
+};
+
+/**
+ * Plug in (or replace) the sender for a channel. Channels without a sender
+ * are recorded as skipped.
+ */
+export function registerChannelSender(channel: NotificationChannel, sender: ChannelSender): void {
+  senders[channel] = sender;
+}
+
+const skipped = (decision: ChannelDecision): INotificationDelivery => ({
+  channel: decision.channel,
+  status: 'skipped',
+  reason: decision.reason,
+  at: new Date(),
+});
+
+async function deliver(
+  recipient: Recipient,
+  message: DispatchMessage,
+  decision: ChannelDecision,
+  context: SendContext,
+): Promise<INotificationDelivery> {
+  if (!decision.send) return skipped(decision);
+  const sender = senders[decision.channel];
+  if (!sender) return { ...skipped(decision), reason: 'channel_unavailable' };
+
+  try {
+    return {
+      channel: decision.channel,
+      ...(await sender(recipient, message, context)),
+      at: new Date(),
+    };
+  } catch (error: any) {
+    logger.error(
+      `[NotificationDispatcher] ${decision.channel} to ${recipient._id} failed: ${error.message}`,
+    );
+    return { channel: decision.channel, status: 'failed', error: error.message, at: new Date() };
+  }
+}
+
+const isDelivered = (delivery: INotificationDelivery) =>
+  delivery.status === 'sent' || delivery.status === 'queued';
+
+/**
+ * Send one message to one user on every channel they allow.
+ */
+export async function dispatchNotification(
+  target: DispatchTarget,
+  message: DispatchMessage,
+): Promise<DispatchResult> {
+  try {
+    const recipient = (
+      target.clerkId
+        ? await User.findOne({ clerkId: target.clerkId }).select(RECIPIENT_FIELDS).lean()
+        : target.userId
+          ? await User.findById(target.userId).select(RECIPIENT_FIELDS).lean()
+          : null
+    ) as Recipient | null;
+    if (!recipient) return { success: false, deliveries: [], error: 'User not found' };
+
+    const save = message.saveToDatabase !== false && !!recipient.clerkId;
+    const context: SendContext = { notificationId: save ? new mongoose.Types.ObjectId() : null };
+    const decisions = resolveChannels(recipient, message.type, message.channels);
+    const deliveries = await Promise.all(
+      decisions.map((decision) => deliver(recipient, message, decision, context)),
+    );
+
+    let notificationId: string | undefined;
+    if (save) {
+      try {
+        const notification = await Notification.create({
+          _id: context.notificationId,
+          userId: recipient.clerkId,
+          type: message.type,
+          title: message.title,
+          body: message.body,
+          data: message.data || {},
+          read: false,
+          deliveries,
+        });
+        notificationId = String(notification._id);
+      } catch (dbError: any) {
+        logger.error(`[NotificationDispatcher] Error saving notification: ${dbError.message}`);
+      }
+    }
+
+    return {
+      success: !!notificationId || deliveries.some(isDelivered),
+      notificationId,
+      deliveries,
+    };
+  } catch (error: any) {
+    logger.error(`[NotificationDispatcher] Error dispatching notification: ${error.message}`);
+    return { success: false, deliveries: [], error: error.message || 'Unknown error' };
+  }
+}
+
+/**
+ * Send one message to many users (admin broadcasts, promotions). Push is
+ * batched; email and SMS go out per recipient.
+ */
+export async function dispatchToUsers(
+  filter: Record<string, any>,
+  message: DispatchMessage,
+): Promise<{
+  recipients: number;
+  delivered: Record<NotificationChannel, number>;
+  failed: Record<NotificationChannel, number>;
+}> {
+  const users = (await User.find(filter).select(RECIPIENT_FIELDS).lean()) as Recipient[];
+  const delivered: Record<NotificationChannel, number> = { push: 0, email: 0, sms: 0 };
+  const failed: Record<NotificationChannel, number> = { push: 0, email: 0, sms: 0 };
+  const save = message.saveToDatabase !== false;
+  const plans = users.map((user) => ({
+    user,
+    context: {
+      notificationId: save && user.clerkId ? new mongoose.Types.ObjectId() : null,
+    } as SendContext,
+    decisions: resolveChannels(user, message.type, message.channels),
+    deliveries: [] as INotificationDelivery[],
+  }));
+
+  // Push for everyone in one batched send; a swapped-in push sender is
+  // called per recipient instead
+  if (senders.push === pushSender) {
+    const pushPlans = plans.filter((p) => p.decisions.find((d) => d.channel === 'push')?.send);
+    const requests = pushPlans.map((plan) => pushRequests(plan.user, message, plan.context));
+    const outcomes = await sendPushMessages(requests.flat());
+    let offset = 0;
+    pushPlans.forEach((plan, index) => {
+      const count = requests[index].length;
+      plan.deliveries.push({
+        channel: 'push',
+        ...pushDelivery(outcomes.slice(offset, offset + count)),
+        at: new Date(),
+      });
+      offset += count;
+    });
+  }
+
+  for (const plan of plans) {
+    for (const decision of plan.decisions) {
+      if (plan.deliveries.some((d) => d.channel === decision.channel)) continue;
+      plan.deliveries.push(await deliver(plan.user, message, decision, plan.context));
+    }
+    for (const delivery of plan.deliveries) {
+      if (isDelivered(delivery)) delivered[delivery.channel]++;
+      if (delivery.status === 'failed') failed[delivery.channel]++;
+    }
+  }
+
+  if (save) {
+    const docs = plans
+      .filter((plan) => plan.context.notificationId)
+      .map((plan) => ({
+        _id: plan.context.notificationId,
+        userId: plan.user.clerkId,
+        type: message.type,
+        title: message.title,
+        body: message.body,
+        data: message.data || {},
+        read: false,
+        deliveries: plan.deliveries,
+      }));
+    if (docs.length > 0) {
+      try {
+        await Notification.insertMany(docs);
+      } catch (dbError: any) {
+        logger.error(`[NotificationDispatcher] Error saving notifications: ${dbError.message}`);
+      }
+    }
+  }
+
+  return { recipients: users.length, delivered, failed };
+}
+
+/**
+ * Send booking confirmation notification
+ */
+export async function sendBookingConfirmationNotification(
+  userId: string,
+  appointmentDetails: {
+    serviceName: string;
+    vendorName?: string;
+    date: string;
+    time: string;
+    appointmentId: string;
+  },
+  channels?: NotificationChannel[],
+): Promise<DispatchResult> {
+  const { serviceName, vendorName, date, time, appointmentId } = appointmentDetails;
+
+  const title = 'Booking Confirmed!';
+  const body = vendorName
+    ? `Your appointment for ${serviceName} with ${vendorName} on ${date} at ${time} has been confirmed.`
+    : `Your appointment for ${serviceName} on ${date} at ${time} has been confirmed.`;
+
+  return dispatchNotification(
+    { userId },
+    {
+      title,
+      body,
+      type: 'appointment',
+      data: {
+        appointmentId,
+        serviceName,
+        date,
+        time,
+      },
+      channels,
+    },
+  );
+}
+
+/**
+ * Send appointment reminder notification
+ */
+export async function sendAppointmentReminderNotification(
+  userId: string,
+  appointmentDetails: {
+    serviceName: string;
+    vendorName?: string;
+    date: string;
+    time: string;
+    appointmentId: string;
+    reminderType?: '24h' | '1h';
+    startsAt?: Date; // a reminder held for quiet hours is dropped after this
+  },
+): Promise<DispatchResult> {
+  const {
+    serviceName,
+    vendorName,
+    date,
+    time,
+    appointmentId,
+    reminderType = '1h',
+    startsAt,
+  } = appointmentDetails;
+
+  // Customize title based on reminder type
+  const title = reminderType === '1h' ? 'Appointment in 1 Hour!' : 'Appointment Tomorrow';
+
+  // Customize body based on reminder type
+  let body: string;
+  if (reminderType === '1h') {
+    body = vendorName
+      ? `Your ${serviceName} appointment with ${vendorName} starts at ${time}. Get ready!`
+      : `Your ${serviceName} appointment starts at ${time}. Get ready!`;
+  } else {
+    body = vendorName
+      ? `Reminder: Your ${serviceName} appointment with ${vendorName} is tomorrow (${date}) at ${time}.`
+      : `Reminder: Your ${serviceName} appointment is tomorrow (${date}) at ${time}.`;
+  }
+
+  return dispatchNotification(
+    { userId },
+    {
+      title,
+      body,
+      type: 'reminder',
+      data: {
+        appointmentId,
+        serviceName,
+        date,
+        time,
+        reminderType,
+      },
+      expiresAt: startsAt,
+    },
+  );
+}
+
+/**
+ * Send appointment cancellation notification
+ */
+export async function sendAppointmentCancellationNotification(
+  userId: string,
+  appointmentDetails: {
+    serviceName: string;
+    date: string;
+    time: string;
+    appointmentId: string;
+    reason?: string;
+  },
+): Promise<DispatchResult> {
+  const { serviceName, date, time, appointmentId, reason } = appointmentDetails;
+
+  const title = 'Appointment Cancelled';
+  const body = reason
+    ? `Your appointment for ${serviceName} on ${date} at ${time} has been cancelled. Reason: ${reason}`
+    : `Your appointment for ${serviceName} on ${date} at ${time} has been cancelled.`;
+
+  return dispatchNotification(
+    { userId },
+    {
+      title,
+      body,
+      type: 'appointment',
+      data: {
+        appointmentId,
+        serviceName,
+        date,
+        time,
+        cancelled: 'true',
+      },
+    },
+  );
+}
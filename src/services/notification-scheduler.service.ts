@@ -10,13 +10,12 @@
  * This avoids constant polling and ensures efficient notification delivery.
  */
 
-import type {
-  IScheduledNotification,
-} from '../models/scheduled-notification.model';
+import type { IScheduledNotification } from '../models/scheduled-notification.model';
 import ScheduledNotification from '../models/scheduled-notification.model';
 import Appointment from '../models/appointment.model';
 import User from '../models/user.model';
-import { sendNotificationToUser } from './push-notification.service';
+import { dispatchNotification } from './notification-dispatcher.service';
+import { resolveAppointmentSchedule } from '../utils/vendor.util';
 import logger from '../config/logger';
 import mongoose from 'mongoose';
 
@@ -28,12 +27,16 @@ interface AppointmentDetails {
     | {
         _id: string;
         name?: string;
-        vendorId?: { vendorName?: string };
+        vendorId?: { vendorName?: string; timezone?: string };
         serviceId?: { name?: string };
       };
   appointmentDate: Date;
   startTime: string;
+  endTime?: string;
   status: string;
+  timezone?: string;
+  startAt?: Date;
+  endAt?: Date;
 }
 
 /**
@@ -59,10 +62,9 @@ export async function scheduleAppointmentReminders(appointment: AppointmentDetai
     // Cancel any existing pending reminders for this appointment (in case of reschedule)
     await cancelAppointmentReminders(appointmentId);
 
-    // Calculate appointment datetime
-    const [hours, minutes] = appointment.startTime.split(':').map(Number);
-    const appointmentDateTime = new Date(appointment.appointmentDate);
-    appointmentDateTime.setHours(hours, minutes, 0, 0);
+    // Calculate appointment datetime in the vendor's timezone
+    const schedule = await resolveAppointmentSchedule(appointment);
+    const appointmentDateTime = schedule.startAt;
 
     const now = new Date();
 
@@ -80,6 +82,7 @@ export async function scheduleAppointmentReminders(appointment: AppointmentDetai
       weekday: 'short',
       month: 'short',
       day: 'numeric',
+      timeZone: schedule.timezone,
     });
 
     const notificationsToCreate: Partial<IScheduledNotification>[] = [];
@@ -269,7 +272,7 @@ export async function processScheduledNotifications(): Promise<void> {
 
         // Check if appointment is still valid (not cancelled)
         const appointment = await Appointment.findById(notification.appointmentId)
-          .select('status')
+          .select('status startAt')
           .lean();
 
         if (!appointment || ['cancelled', 'completed', 'failed'].includes(appointment.status)) {
@@ -281,14 +284,16 @@ export async function processScheduledNotifications(): Promise<void> {
         }
 
         // Send the notification
-        const result = await sendNotificationToUser({
-          userId: customer._id.toString(),
-          title: notification.title,
-          body: notification.body,
-          type: 'reminder',
-          data: notification.data as Record<string, string>,
-          saveToDatabase: true,
-        });
+        const result = await dispatchNotification(
+          { userId: customer._id.toString() },
+          {
+            title: notification.title,
+            body: notification.body,
+            type: 'reminder',
+            data: notification.data as Record<string, string>,
+            expiresAt: appointment.startAt,
+          },
+        );
 
         if (result.success) {
           await ScheduledNotification.findByIdAndUpdate(notification._id, {
@@ -363,7 +368,7 @@ export async function scheduleDailyReminders(): Promise<void> {
       .populate({
         path: 'vendorServiceId',
         populate: [
-          { path: 'vendorId', select: 'vendorName' },
+          { path: 'vendorId', select: 'vendorName timezone' },
           { path: 'serviceId', select: 'name' },
         ],
       })
@@ -453,7 +458,7 @@ export async function rescheduleAppointmentReminders(appointmentId: string): Pro
       .populate({
         path: 'vendorServiceId',
         populate: [
-          { path: 'vendorId', select: 'vendorName' },
+          { path: 'vendorId', select: 'vendorName timezone' },
           { path: 'serviceId', select: 'name' },
         ],
       })
@@ -498,7 +503,7 @@ export async function syncTodaySchedule(): Promise<void> {
       .populate({
         path: 'vendorServiceId',
         populate: [
-          { path: 'vendorId', select: 'vendorName' },
+          { path: 'vendorId', select: 'vendorName timezone' },
           { path: 'serviceId', select: 'name' },
         ],
       })
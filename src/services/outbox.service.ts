@@ -0,0 +1,278 @@
+/**
+ * The booking outbox: side effects of a new appointment, recorded before
+ * the appointment is inserted and run here afterwards (utils/booking-outbox).
+ *
+ * Each row runs at least once. With Redis, runs go through the `outbox`
+ * BullMQ queue and a failed run is re-queued with a delay; without it they
+ * happen in the background of the request. Either way a sweep every minute
+ * picks up rows that are due and were never queued (the process died), and
+ * rows a dead worker left in `processing`.
+ */
+
+import type { Job } from 'bullmq';
+import type mongoose from 'mongoose';
+import logger from '../config/logger';
+import { enqueue, isQueueEnabled, registerWorker } from '../config/queue';
+import Appointment from '../models/appointment.model';
+import OutboxEvent from '../models/outbox-event.model';
+import Promotion from '../models/promotion.model';
+import SlotLock from '../models/slot-lock.model';
+import VendorService from '../models/vendor-service.model';
+import {
+  ORPHAN_GRACE_MS,
+  PROCESSING_STALE_MS,
+  nextOutboxAttemptAt,
+  type OutboxEventType,
+} from '../utils/booking-outbox.util';
+import { sendBookingConfirmationNotification } from './notification-dispatcher.service';
+import { scheduleAppointmentReminders, syncTodaySchedule } from './notification-scheduler.service';
+import { recordPayoutForAppointment } from './vendor-payout.service';
+import { emitAppointmentEvent } from './vendor-webhook.service';
+
+const OUTBOX_QUEUE = 'outbox';
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+type OutboxEventDocument = InstanceType<typeof OutboxEvent>;
+
+interface OutboxJobData {
+  outboxEventId: string;
+}
+
+type BookedAppointment = {
+  _id: mongoose.Types.ObjectId;
+  customerId: unknown;
+  vendorServiceId: unknown;
+  appointmentDate: Date;
+  startTime: string;
+  endTime: string;
+  promotionId?: unknown;
+};
+
+type OutboxHandler = (appointment: BookedAppointment) => Promise<void>;
+
+const OUTBOX_HANDLERS: Record<OutboxEventType, OutboxHandler> = {
+  'appointment-webhook': async (appointment) => {
+    await emitAppointmentEvent('appointment.created', String(appointment._id));
+  },
+
+  'record-payout': async (appointment) => {
+    await recordPayoutForAppointment(String(appointment._id));
+  },
+
+  'increment-coupon': async (appointment) => {
+    if (!appointment.promotionId) return;
+    await Promotion.updateOne({ _id: appointment.promotionId }, { $inc: { usageCount: 1 } });
+  },
+
+  'release-slot-lock': async (appointment) => {
+    await SlotLock.deleteOne({
+      vendorServiceId: appointment.vendorServiceId,
+      date: appointment.appointmentDate,
+      fromTime: appointment.startTime,
+      toTime: appointment.endTime,
+    });
+  },
+
+  'booking-notification': async (appointment) => {
+    const vendorService = await VendorService.findById(appointment.vendorServiceId)
+      .populate('vendorId', 'name')
+      .populate('serviceId', 'name')
+      .lean();
+    if (!vendorService) return;
+
+    const formattedDate = new Date(appointment.appointmentDate).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC', // calendar date is stored as UTC midnight
+    });
+
+    // The confirmation email (with the calendar file) goes out once payment is confirmed
+    await sendBookingConfirmationNotification(
+      String(appointment.customerId),
+      {
+        serviceName: (vendorService.serviceId as any)?.name || 'Service',
+        vendorName: (vendorService.vendorId as any)?.name,
+        date: formattedDate,
+        time: appointment.startTime,
+        appointmentId: String(appointment._id),
+      },
+      ['push', 'sms'],
+    );
+  },
+
+  'schedule-reminders': async (appointment) => {
+    const populated = await Appointment.findById(appointment._id)
+      .populate('customerId', '_id')
+      .populate({
+        path: 'vendorServiceId',
+        populate: [
+          { path: 'vendorId', select: 'vendorName' },
+          { path: 'serviceId', select: 'name' },
+        ],
+      })
+      .lean();
+    if (!populated) return;
+    await scheduleAppointmentReminders(populated as any);
+
+    // Process any notifications already due
+    syncTodaySchedule().catch((err) => {
+      logger.error(`Failed to sync today's schedule: ${err.message}`);
+    });
+  },
+};
+
+/**
+ * Write an appointment's side effects, due now. Called before the
+ * appointment itself is inserted.
+ */
+export async function recordOutboxEvents(
+  appointmentId: mongoose.Types.ObjectId,
+  types: OutboxEventType[],
+): Promise<OutboxEventDocument[]> {
+  const now = new Date();
+  return OutboxEvent.insertMany(
+    types.map((type) => ({ type, appointmentId, status: 'pending', nextAttemptAt: now })),
+  ) as unknown as Promise<OutboxEventDocument[]>;
+}
+
+async function scheduleOutboxEvent(event: OutboxEventDocument): Promise<void> {
+  const outboxEventId = String(event._id);
+  if (isQueueEnabled()) {
+    await enqueue<OutboxJobData>(
+      OUTBOX_QUEUE,
+      event.type,
+      { outboxEventId },
+      {
+        // One job per attempt; the row keeps count, so BullMQ doesn't retry
+        jobId: `outbox_${outboxEventId}_${event.attempts}`,
+        delay: Math.max(0, event.nextAttemptAt.getTime() - Date.now()),
+        attempts: 1,
+      },
+    );
+    return;
+  }
+  // No queue — run now if due; later attempts are left to the sweep
+  if (event.nextAttemptAt.getTime() <= Date.now()) {
+    processOutboxEvent(outboxEventId).catch((err) =>
+      logger.error(`[Outbox] Event ${outboxEventId} failed: ${err.message}`),
+    );
+  }
+}
+
+/**
+ * Hand freshly recorded rows to the worker. Never throws — the rows are
+ * already stored and the sweep finds any this misses.
+ */
+export async function dispatchOutboxEvents(events: OutboxEventDocument[]): Promise<void> {
+  for (const event of events) {
+    await scheduleOutboxEvent(event).catch((err) =>
+      logger.error(`[Outbox] Could not queue event ${event._id}: ${err.message}`),
+    );
+  }
+}
+
+/**
+ * Run one row if it's still pending. On failure it is rescheduled with
+ * backoff, or marked `failed` once attempts are used up.
+ */
+export async function processOutboxEvent(outboxEventId: string): Promise<void> {
+  // Only one worker moves it out of pending
+  const event = await OutboxEvent.findOneAndUpdate(
+    { _id: outboxEventId, status: 'pending' },
+    { $set: { status: 'processing', lockedAt: new Date() } },
+    { new: true },
+  );
+  if (!event) return;
+
+  const appointment = await Appointment.findById(event.appointmentId)
+    .select('customerId vendorServiceId appointmentDate startTime endTime promotionId')
+    .lean();
+
+  if (!appointment && Date.now() - event.createdAt.getTime() > ORPHAN_GRACE_MS) {
+    // The booking request died before inserting the appointment
+    event.status = 'discarded';
+    event.completedAt = new Date();
+    event.lockedAt = null;
+    await event.save();
+    logger.warn(`[Outbox] Discarded ${event.type} for missing appointment ${event.appointmentId}`);
+    return;
+  }
+
+  try {
+    if (!appointment) throw new Error('Appointment not created yet');
+    await OUTBOX_HANDLERS[event.type](appointment as unknown as BookedAppointment);
+
+    event.status = 'done';
+    event.attempts += 1;
+    event.completedAt = new Date();
+    event.lockedAt = null;
+    event.lastError = null;
+    await event.save();
+  } catch (err: any) {
+    event.attempts += 1;
+    event.lastError = err.message;
+    event.lockedAt = null;
+    const retryAt = nextOutboxAttemptAt(event.attempts);
+    if (retryAt) {
+      event.status = 'pending';
+      event.nextAttemptAt = retryAt;
+    } else {
+      event.status = 'failed';
+    }
+    await event.save();
+
+    if (retryAt) {
+      await scheduleOutboxEvent(event);
+    } else {
+      logger.error(
+        `[Outbox] ${event.type} for appointment ${event.appointmentId} failed after ${event.attempts} attempts: ${err.message}`,
+      );
+    }
+  }
+}
+
+/**
+ * Reclaim rows a dead worker left in `processing`, then run (or queue)
+ * every pending row that's due.
+ */
+export async function sweepOutbox(now: Date = new Date()): Promise<number> {
+  await OutboxEvent.updateMany(
+    { status: 'processing', lockedAt: { $lt: new Date(now.getTime() - PROCESSING_STALE_MS) } },
+    // The interrupted run counts as an attempt, which also gives it a fresh job id
+    { $set: { status: 'pending', lockedAt: null, nextAttemptAt: now }, $inc: { attempts: 1 } },
+  );
+
+  const due = await OutboxEvent.find({ status: 'pending', nextAttemptAt: { $lte: now } })
+    .sort({ nextAttemptAt: 1 })
+    .limit(SWEEP_BATCH_SIZE);
+  for (const event of due) {
+    if (isQueueEnabled()) {
+      // Same job id as the original dispatch, so a job still queued isn't doubled
+      await scheduleOutboxEvent(event);
+    } else {
+      await processOutboxEvent(String(event._id));
+    }
+  }
+  return due.length;
+}
+
+/**
+ * Start the outbox worker (when Redis is configured) and the sweep.
+ */
+export function startOutboxWorker(): void {
+  const worker = registerWorker<OutboxJobData>(
+    OUTBOX_QUEUE,
+    async (job: Job<OutboxJobData>) => {
+      await processOutboxEvent(job.data.outboxEventId);
+    },
+    2,
+  );
+  if (worker) logger.info('[Outbox] Worker started');
+
+  setInterval(() => {
+    sweepOutbox().catch((err) => logger.error(`[Outbox] Sweep failed: ${err.message}`));
+  }, SWEEP_INTERVAL_MS);
+  logger.info('[Outbox] Sweep started (every 1 min)');
+}
@@ -1,12 +1,35 @@
 /**
  * Push Notification Service
- * Handles sending push notifications via Expo Push API
+ * Expo Push API transport. Messages to users go through
+ * notification-dispatcher.service, which decides whether push is allowed.
+ *
+ * Every message is recorded as a PushTicket. A background sweep resends
+ * transient failures with backoff and polls Expo's receipts endpoint;
+ * tokens Expo reports as `DeviceNotRegistered` are removed from the user.
  */
 
+import type mongoose from 'mongoose';
+import logger from '../config/logger';
 import User from '../models/user.model';
-import Notification from '../models/notification.model';
+import PushTicket, { type IPushTicket } from '../models/push-ticket.model';
+import {
+  RECEIPT_BATCH_SIZE,
+  RECEIPT_DELAY_MS,
+  RECEIPT_RETENTION_MS,
+  classifyPushError,
+  nextPushAttemptAt,
+} from '../utils/push-receipt.util';
 
-interface ExpoPushMessage {
+const EXPO_SEND_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts';
+const REQUEST_TIMEOUT_MS = 15000;
+// Expo accepts at most 100 messages per request
+const SEND_BATCH_SIZE = 100;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 500;
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+export interface ExpoPushMessage {
   to: string;
   sound?: 'default' | null;
   title: string;
@@ -14,260 +37,299 @@ interface ExpoPushMessage {
   data?: Record<string, string>;
 }
 
-interface ExpoPushTicket {
+export interface ExpoPushTicket {
   status: 'ok' | 'error';
   id?: string;
   message?: string;
   details?: { error: string };
 }
 
-interface SendNotificationOptions {
-  userId?: string; // MongoDB _id
-  clerkId?: string; // Clerk user ID
-  title: string;
-  body: string;
-  type: 'appointment' | 'reminder' | 'promotion' | 'system';
-  data?: Record<string, string>;
-  saveToDatabase?: boolean;
+export interface ExpoPushReceipt {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
 }
 
-interface SendNotificationResult {
-  success: boolean;
-  pushSent: boolean;
-  savedToDb: boolean;
-  error?: string;
-}
+const EXPO_HEADERS = {
+  Accept: 'application/json',
+  'Accept-encoding': 'gzip, deflate',
+  'Content-Type': 'application/json',
+};
 
 /**
- * Send push notifications via Expo Push API
+ * Send push notifications via Expo Push API. Throws when the request
+ * itself fails, so callers can retry; per-message errors come back as
+ * tickets.
  */
-async function sendExpoPushNotifications(messages: ExpoPushMessage[]): Promise<ExpoPushTicket[]> {
+export async function sendExpoPushNotifications(
+  messages: ExpoPushMessage[],
+): Promise<ExpoPushTicket[]> {
   if (messages.length === 0) {
     return [];
   }
 
-  try {
-    const response = await fetch('https://exp.host/--/api/v2/push/send', {
-      method: 'POST',
-      headers: {
-        Accept: 'application/json',
-        'Accept-encoding': 'gzip, deflate',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(messages),
-    });
-
-    const result = (await response.json()) as { data?: ExpoPushTicket[] };
-    return result.data || [];
-  } catch (error) {
-    console.error('Error sending Expo push notifications:', error);
-    return [];
+  const response = await fetch(EXPO_SEND_URL, {
+    method: 'POST',
+    headers: EXPO_HEADERS,
+    body: JSON.stringify(messages),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Expo push send failed with HTTP ${response.status}`);
   }
+
+  const result = (await response.json()) as { data?: ExpoPushTicket[] };
+  return result.data || [];
 }
 
 /**
- * Send notification to a single user
+ * Fetch receipts for ticket ids. Ids without a receipt yet are missing from
+ * the result.
  */
-export async function sendNotificationToUser(
-  options: SendNotificationOptions,
-): Promise<SendNotificationResult> {
-  const { userId, clerkId, title, body, type, data = {}, saveToDatabase = true } = options;
-
-  const result: SendNotificationResult = {
-    success: false,
-    pushSent: false,
-    savedToDb: false,
-  };
-
-  try {
-    // Find user by either userId or clerkId
-    let user;
-    if (clerkId) {
-      user = await User.findOne({ clerkId }).select('_id clerkId expoPushToken').lean();
-    } else if (userId) {
-      user = await User.findById(userId).select('_id clerkId expoPushToken').lean();
-    }
+export async function getExpoPushReceipts(ids: string[]): Promise<Record<string, ExpoPushReceipt>> {
+  if (ids.length === 0) return {};
 
-    if (!user) {
-      result.error = 'User not found';
-      return result;
-    }
+  const response = await fetch(EXPO_RECEIPTS_URL, {
+    method: 'POST',
+    headers: EXPO_HEADERS,
+    body: JSON.stringify({ ids }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Expo push receipts failed with HTTP ${response.status}`);
+  }
 
-    const userClerkId = user.clerkId;
-
-    // Save notification to database
-    if (saveToDatabase && userClerkId) {
-      try {
-        await Notification.create({
-          userId: userClerkId,
-          type,
-          title,
-          body,
-          data,
-          read: false,
-        });
-        result.savedToDb = true;
-      } catch (dbError) {
-        console.error('[PushNotification] Error saving notification to DB:', dbError);
-      }
-    }
+  const result = (await response.json()) as { data?: Record<string, ExpoPushReceipt> };
+  return result.data || {};
+}
 
-    // Send push notification if user has a valid Expo push token
-    if (user.expoPushToken && user.expoPushToken.startsWith('ExponentPushToken')) {
-      const message: ExpoPushMessage = {
-        to: user.expoPushToken,
-        sound: 'default',
-        title,
-        body,
-        data: { ...data, type },
-      };
-
-      const tickets = await sendExpoPushNotifications([message]);
-
-      if (tickets.length > 0 && tickets[0].status === 'ok') {
-        result.pushSent = true;
-      } else if (tickets.length > 0) {
-        console.error('[PushNotification] Push notification failed:', tickets[0].message);
-      }
-    }
+/**
+ * Drop a dead token from whichever users still hold it.
+ */
+export async function removePushToken(token: string): Promise<void> {
+  await User.updateMany({ 'pushTokens.token': token }, { $pull: { pushTokens: { token } } });
+  await User.updateMany({ expoPushToken: token }, { $unset: { expoPushToken: 1 } });
+  logger.info(`[Push] Removed unregistered device token ${token.slice(0, 30)}...`);
+}
+
+export interface PushRequest {
+  userId: mongoose.Types.ObjectId | string;
+  token: string;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+  notificationId?: mongoose.Types.ObjectId | string | null;
+}
+
+export interface PushOutcome {
+  token: string;
+  status: 'sent' | 'retrying' | 'failed';
+  ticketId?: string;
+  error?: string;
+}
+
+type TicketDoc = IPushTicket & mongoose.Document;
+
+const toExpoMessage = (ticket: TicketDoc): ExpoPushMessage => ({
+  to: ticket.token,
+  sound: 'default',
+  title: ticket.message.title,
+  body: ticket.message.body,
+  data: ticket.message.data,
+});
+
+/**
+ * Record the result of one send attempt on its ticket.
+ */
+async function applySendResult(
+  ticket: TicketDoc,
+  result: ExpoPushTicket | undefined,
+  requestError: string | null,
+  now: Date,
+): Promise<PushOutcome> {
+  ticket.attempts += 1;
+
+  if (result?.status === 'ok') {
+    ticket.status = 'sent';
+    ticket.ticketId = result.id || null;
+    ticket.sentAt = now;
+    ticket.nextAttemptAt = null;
+    ticket.errorCode = null;
+    ticket.error = null;
+    await ticket.save();
+    return { token: ticket.token, status: 'sent', ticketId: ticket.ticketId || undefined };
+  }
+
+  const errorCode = result?.details?.error || null;
+  const error = requestError || result?.message || 'No push ticket returned';
+  // A failed request (network, 5xx, 429) is always worth another try
+  const kind = requestError || !result ? 'transient' : classifyPushError(errorCode);
+  ticket.errorCode = errorCode;
+  ticket.error = error;
+
+  const retryAt = kind === 'transient' ? nextPushAttemptAt(ticket.attempts, now) : null;
+  if (retryAt) {
+    ticket.status = 'retrying';
+    ticket.nextAttemptAt = retryAt;
+  } else {
+    ticket.status = 'failed';
+    ticket.nextAttemptAt = null;
+  }
+  await ticket.save();
+
+  if (kind === 'invalid_token') await removePushToken(ticket.token);
+  return { token: ticket.token, status: ticket.status as PushOutcome['status'], error };
+}
 
-    result.success = result.savedToDb || result.pushSent;
-    return result;
-  } catch (error: any) {
-    console.error('[PushNotification] Error sending notification:', error);
-    result.error = error.message || 'Unknown error';
-    return result;
+async function sendTickets(tickets: TicketDoc[], now: Date): Promise<PushOutcome[]> {
+  const outcomes: PushOutcome[] = [];
+  for (let i = 0; i < tickets.length; i += SEND_BATCH_SIZE) {
+    const batch = tickets.slice(i, i + SEND_BATCH_SIZE);
+    let results: ExpoPushTicket[] = [];
+    let requestError: string | null = null;
+    try {
+      results = await sendExpoPushNotifications(batch.map(toExpoMessage));
+    } catch (error: any) {
+      requestError = error.message || 'Push request failed';
+      logger.error(`[Push] Send batch failed: ${requestError}`);
+    }
+    for (const [index, ticket] of batch.entries()) {
+      outcomes.push(await applySendResult(ticket, results[index], requestError, now));
+    }
   }
+  return outcomes;
 }
 
 /**
- * Send booking confirmation notification
+ * Send one message per device token and track each as a PushTicket.
+ * Outcomes come back in request order.
  */
-export async function sendBookingConfirmationNotification(
-  userId: string,
-  appointmentDetails: {
-    serviceName: string;
-    vendorName?: string;
-    date: string;
-    time: string;
-    appointmentId: string;
-  },
-): Promise<SendNotificationResult> {
-  const { serviceName, vendorName, date, time, appointmentId } = appointmentDetails;
-
-  const title = 'Booking Confirmed!';
-  const body = vendorName
-    ? `Your appointment for ${serviceName} with ${vendorName} on ${date} at ${time} has been confirmed.`
-    : `Your appointment for ${serviceName} on ${date} at ${time} has been confirmed.`;
-
-  return sendNotificationToUser({
-    userId,
-    title,
-    body,
-    type: 'appointment',
-    data: {
-      appointmentId,
-      serviceName,
-      date,
-      time,
-    },
-    saveToDatabase: true,
-  });
+export async function sendPushMessages(
+  requests: PushRequest[],
+  now: Date = new Date(),
+): Promise<PushOutcome[]> {
+  if (requests.length === 0) return [];
+  const tickets = (await PushTicket.insertMany(
+    requests.map((request) => ({
+      userId: request.userId,
+      notificationId: request.notificationId || null,
+      token: request.token,
+      message: { title: request.title, body: request.body, data: request.data || {} },
+      status: 'pending',
+    })),
+  )) as unknown as TicketDoc[];
+  return sendTickets(tickets, now);
 }
 
 /**
- * Send appointment reminder notification
+ * Resend tickets whose retry time has come.
  */
-export async function sendAppointmentReminderNotification(
-  userId: string,
-  appointmentDetails: {
-    serviceName: string;
-    vendorName?: string;
-    date: string;
-    time: string;
-    appointmentId: string;
-    reminderType?: '24h' | '1h';
-  },
-): Promise<SendNotificationResult> {
-  const {
-    serviceName,
-    vendorName,
-    date,
-    time,
-    appointmentId,
-    reminderType = '1h',
-  } = appointmentDetails;
-
-  // Customize title based on reminder type
-  const title = reminderType === '1h' ? 'Appointment in 1 Hour!' : 'Appointment Tomorrow';
-
-  // Customize body based on reminder type
-  let body: string;
-  if (reminderType === '1h') {
-    body = vendorName
-      ? `Your ${serviceName} appointment with ${vendorName} starts at ${time}. Get ready!`
-      : `Your ${serviceName} appointment starts at ${time}. Get ready!`;
-  } else {
-    body = vendorName
-      ? `Reminder: Your ${serviceName} appointment with ${vendorName} is tomorrow (${date}) at ${time}.`
-      : `Reminder: Your ${serviceName} appointment is tomorrow (${date}) at ${time}.`;
+export async function retryPushTickets(now: Date = new Date()): Promise<number> {
+  const due = (await PushTicket.find({
+    $or: [
+      { status: 'retrying', nextAttemptAt: { $lte: now } },
+      // First send never finished (e.g. the process restarted mid-request)
+      { status: 'pending', createdAt: { $lte: new Date(now.getTime() - STALE_PENDING_MS) } },
+    ],
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(SWEEP_BATCH_SIZE)) as TicketDoc[];
+  if (due.length === 0) return 0;
+
+  // The token may have been pruned since the first attempt
+  const tokens = [...new Set(due.map((ticket) => ticket.token))];
+  const live = new Set<string>();
+  const holders = await User.find({
+    $or: [{ 'pushTokens.token': { $in: tokens } }, { expoPushToken: { $in: tokens } }],
+  })
+    .select('pushTokens expoPushToken')
+    .lean();
+  for (const user of holders) {
+    for (const device of user.pushTokens || []) live.add(device.token);
+    if (user.expoPushToken) live.add(user.expoPushToken);
   }
 
-  return sendNotificationToUser({
-    userId,
-    title,
-    body,
-    type: 'reminder',
-    data: {
-      appointmentId,
-      serviceName,
-      date,
-      time,
-      reminderType,
-    },
-    saveToDatabase: true,
-  });
+  const resend: TicketDoc[] = [];
+  for (const ticket of due) {
+    if (live.has(ticket.token)) {
+      resend.push(ticket);
+    } else {
+      ticket.status = 'failed';
+      ticket.error = 'Device token no longer registered';
+      ticket.nextAttemptAt = null;
+      await ticket.save();
+    }
+  }
+  await sendTickets(resend, now);
+  return resend.length;
 }
 
 /**
- * Send appointment cancellation notification
+ * Check receipts for tickets old enough to have one.
  */
-export async function sendAppointmentCancellationNotification(
-  userId: string,
-  appointmentDetails: {
-    serviceName: string;
-    date: string;
-    time: string;
-    appointmentId: string;
-    reason?: string;
-  },
-): Promise<SendNotificationResult> {
-  const { serviceName, date, time, appointmentId, reason } = appointmentDetails;
-
-  const title = 'Appointment Cancelled';
-  const body = reason
-    ? `Your appointment for ${serviceName} on ${date} at ${time} has been cancelled. Reason: ${reason}`
-    : `Your appointment for ${serviceName} on ${date} at ${time} has been cancelled.`;
-
-  return sendNotificationToUser({
-    userId,
-    title,
-    body,
-    type: 'appointment',
-    data: {
-      appointmentId,
-      serviceName,
-      date,
-      time,
-      cancelled: 'true',
-    },
-    saveToDatabase: true,
-  });
+export async function processPushReceipts(now: Date = new Date()): Promise<number> {
+  const pending = (await PushTicket.find({
+    status: 'sent',
+    ticketId: { $ne: null },
+    sentAt: { $lte: new Date(now.getTime() - RECEIPT_DELAY_MS) },
+  })
+    .sort({ sentAt: 1 })
+    .limit(SWEEP_BATCH_SIZE)) as TicketDoc[];
+
+  let checked = 0;
+  for (let i = 0; i < pending.length; i += RECEIPT_BATCH_SIZE) {
+    const batch = pending.slice(i, i + RECEIPT_BATCH_SIZE);
+    const receipts = await getExpoPushReceipts(batch.map((ticket) => ticket.ticketId!));
+
+    for (const ticket of batch) {
+      const receipt = receipts[ticket.ticketId!];
+      ticket.receiptCheckedAt = now;
+
+      if (!receipt) {
+        // Not ready yet — give up once Expo would have discarded it
+        if (ticket.sentAt && now.getTime() - ticket.sentAt.getTime() > RECEIPT_RETENTION_MS) {
+          ticket.status = 'expired';
+        }
+        await ticket.save();
+        continue;
+      }
+
+      checked++;
+      if (receipt.status === 'ok') {
+        ticket.status = 'delivered';
+        await ticket.save();
+        continue;
+      }
+
+      const errorCode = receipt.details?.error || null;
+      const kind = classifyPushError(errorCode);
+      ticket.errorCode = errorCode;
+      ticket.error = receipt.message || errorCode || 'Push delivery failed';
+      const retryAt = kind === 'transient' ? nextPushAttemptAt(ticket.attempts, now) : null;
+      ticket.status = retryAt ? 'retrying' : 'failed';
+      ticket.nextAttemptAt = retryAt;
+      await ticket.save();
+
+      if (kind === 'invalid_token') await removePushToken(ticket.token);
+      if (kind === 'permanent') {
+        logger.warn(`[Push] Ticket ${ticket.ticketId} failed: ${ticket.error}`);
+      }
+    }
+  }
+  return checked;
 }
 
-export default {
-  sendNotificationToUser,
-  sendBookingConfirmationNotification,
-  sendAppointmentReminderNotification,
-  sendAppointmentCancellationNotification,
-};
+/**
+ * Start the retry and receipt sweep. Runs alongside the other schedulers.
+ */
+export function startPushReceiptWorker(): void {
+  setInterval(async () => {
+    try {
+      await retryPushTickets();
+      await processPushReceipts();
+    } catch (error: any) {
+      logger.error(`[Push] Receipt sweep failed: ${error.message}`);
+    }
+  }, SWEEP_INTERVAL_MS);
+  logger.info('[Push] Receipt and retry sweep started (every 5 min)');
+}
@@ -0,0 +1,1029 @@
+/**
+ * Recurring series (utils/recurring-series): booking occurrences as the
+ * rolling window moves, charging each to the saved card ahead of time,
+ * and the customer's edits and conflict choices.
+ *
+ * Every occurrence is checked against the slot engine the way a single
+ * booking is, and booked under the slot's reservation (services/booking).
+ * At creation a taken occurrence blocks the series until the customer
+ * skips or moves it; later, the scheduler parks it in the series'
+ * `conflicts` with nearby free times and asks the customer to choose.
+ *
+ * Occurrence 0 is paid with the booking. Later card-paid occurrences stay
+ * pending until their charge goes through, then are confirmed; one whose
+ * charge keeps failing is cancelled.
+ */
+
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import RecurringSeries from '../models/recurring-series.model';
+import User from '../models/user.model';
+import VendorService from '../models/vendor-service.model';
+import { AppError } from '../utils/appError.util';
+import type { OutboxEventType } from '../utils/booking-outbox.util';
+import {
+  alternativeTimes,
+  bookingHorizon,
+  dueOccurrenceIndexes,
+  MAX_OCCURRENCE_CHARGE_ATTEMPTS,
+  OCCURRENCE_CHARGE_STALE_MS,
+  occurrenceChargeDueAt,
+  occurrenceChargeRetryAt,
+  occurrenceDate,
+  occurrenceMessage,
+  parseRecurrence,
+  parseResolutions,
+  type OccurrenceConflict,
+  type OccurrenceResolution,
+  type OccurrenceTime,
+} from '../utils/recurring-series.util';
+import { rescheduleEligibilityError } from '../utils/reschedule.util';
+import { buildZonedSchedule, timeToMinutes, toDateKey } from '../utils/timezone.util';
+import { getVendorServiceTimezone, resolveAppointmentSchedule } from '../utils/vendor.util';
+import { changeAppointmentStatus } from './appointment-status.service';
+import { loadBookingRules } from './booking-rules.service';
+import { createReservedBooking, findCollidingAppointment } from './booking.service';
+import { recordPayout, refundAppointmentPayment } from './deposit.service';
+import { dispatchNotification } from './notification-dispatcher.service';
+import {
+  checkRescheduleSlot,
+  loadOpenSlots,
+  loadReschedulePolicy,
+  moveAppointment,
+  requestReschedule,
+  type RescheduleOutcome,
+  type StaffChoice,
+} from './reschedule.service';
+import { resolveBookingStaff } from './staff-availability.service';
+import StripeService from './stripe.service';
+
+type AppointmentDocument = InstanceType<typeof Appointment>;
+type SeriesDocument = InstanceType<typeof RecurringSeries>;
+
+// What a series needs to place one occurrence
+type SeriesPlan = Pick<
+  SeriesDocument,
+  | '_id'
+  | 'customerId'
+  | 'vendorServiceId'
+  | 'staffId'
+  | 'frequency'
+  | 'anchorDate'
+  | 'startTime'
+  | 'endTime'
+  | 'occurrences'
+  | 'nextIndex'
+  | 'template'
+  | 'paymentMode'
+>;
+
+export type SeriesCreation =
+  | { status: 'created'; series: SeriesDocument; appointments: AppointmentDocument[] }
+  | { status: 'conflicts'; conflicts: OccurrenceConflict[] };
+
+export type FollowingEdit =
+  | { status: 'updated'; updated: string[]; unchanged: string[] }
+  | { status: 'conflicts'; conflicts: OccurrenceConflict[] };
+
+export type ConflictResolution =
+  | { status: 'skipped' }
+  | { status: 'booked'; appointment: AppointmentDocument }
+  | { status: 'conflict'; conflict: OccurrenceConflict };
+
+// Booking fields that belong to one occurrence, never to the series template
+const OCCURRENCE_FIELDS = [
+  '_id',
+  'customerId',
+  'vendorServiceId',
+  'staffId',
+  'staffAutoAssigned',
+  'appointmentDate',
+  'startTime',
+  'endTime',
+  'timezone',
+  'startAt',
+  'endAt',
+  'status',
+  'paymentStatus',
+  'paymentIntentId',
+  'stripePaymentIntentId',
+  'idempotencyKey',
+  'recurrenceSeriesId',
+  'recurrencePattern',
+  'recurrenceIndex',
+  'paymentMethodId',
+];
+
+// Client-sent pricing; a series is priced from the service instead
+const PRICE_FIELDS = [
+  'serviceFee',
+  'discountAmount',
+  'tipAmount',
+  'taxAmount',
+  'walletAmount',
+  'promotionId',
+  'couponCode',
+  'loyaltyTier',
+  'loyaltyDiscountAmount',
+  'total',
+  'paymentPlan',
+  'depositAmount',
+  'depositPaid',
+  'balanceDue',
+  'balancePaid',
+  'balanceCapture',
+  'balanceDueAt',
+  'balanceStatus',
+  'balancePaymentIntentId',
+  'balanceAttempts',
+];
+
+// Stripe failures that may have charged anyway; retried under the same idempotency key
+const AMBIGUOUS_STRIPE_ERRORS = ['StripeConnectionError', 'StripeAPIError', 'StripeRateLimitError'];
+
+// Occurrence details the customer may change along with (or without) the time
+const DETAIL_FIELDS = ['customerNotes', 'servicePlace', 'customerAddress'];
+
+const OPEN_STATUSES = ['pending', 'confirmed'];
+
+const CHARGE_SWEEP_MS = 5 * 60 * 1000;
+const ROLL_FORWARD_SWEEP_MS = 60 * 60 * 1000;
+const SWEEP_BATCH = 100;
+
+const durationOf = (time: OccurrenceTime) =>
+  timeToMinutes(time.endTime) - timeToMinutes(time.startTime);
+
+const pick = (source: Record<string, any>, fields: string[]) =>
+  Object.fromEntries(
+    fields.filter((field) => source[field] !== undefined).map((f) => [f, source[f]]),
+  );
+
+async function loadHorizon(vendorServiceId: unknown, now: Date): Promise<Date> {
+  const rules = await loadBookingRules(String(vendorServiceId));
+  return bookingHorizon(now, rules.maxAdvanceDays);
+}
+
+/**
+ * Throw unless `paymentMethodId` is a card saved to this customer's Stripe
+ * account — later occurrences are charged to it off-session.
+ */
+async function assertOwnPaymentMethod(customerId: unknown, paymentMethodId: string) {
+  const customer = await User.findById(customerId).select('stripeCustomerId').lean();
+  const cards = customer?.stripeCustomerId
+    ? await StripeService.listPaymentMethods(customer.stripeCustomerId)
+    : [];
+  if (!cards.some((card) => card.id === paymentMethodId)) {
+    throw new AppError('Payment method not found', 400);
+  }
+}
+
+/**
+ * The PaymentIntent occurrence 0 is paid with: the customer's own, for the
+ * series price, not cancelled and not already on another booking.
+ */
+async function loadOwnPaymentIntent(customerId: unknown, paymentIntentId: string, price: number) {
+  const intent = await StripeService.retrievePaymentIntent(paymentIntentId).catch(() => null);
+  if (!intent) throw new AppError('Payment not found', 400);
+  const customer = await User.findById(customerId).select('stripeCustomerId').lean();
+  const stripeCustomerId =
+    typeof intent.customer === 'string' ? intent.customer : intent.customer?.id;
+  const owned =
+    intent.metadata?.customerId === String(customerId) ||
+    (!!stripeCustomerId && stripeCustomerId === customer?.stripeCustomerId);
+  if (!owned) throw new AppError('Payment not found', 400);
+  if (intent.amount !== Math.round(price * 100)) {
+    throw new AppError('Payment amount does not match the service price', 400);
+  }
+  if (intent.status === 'canceled') throw new AppError('Payment was cancelled', 400);
+  if (await Appointment.exists({ paymentIntentId: intent.id })) {
+    throw new AppError('This payment is already used by another booking', 409);
+  }
+  return intent;
+}
+
+/**
+ * Check one occurrence at `time` and pick its staff member, or say why it
+ * can't be booked there with the closest free times that day.
+ */
+async function checkOccurrence(
+  series: SeriesPlan,
+  index: number,
+  date: Date,
+  time: OccurrenceTime,
+  excludeAppointmentId?: string,
+): Promise<{ staff: StaffChoice } | { conflict: OccurrenceConflict }> {
+  const vendorServiceId = String(series.vendorServiceId);
+  const slots = await loadOpenSlots(vendorServiceId, date, {
+    excludeAppointmentId,
+    fallbackDuration: durationOf(time),
+  });
+  const base = { index, appointmentDate: date, startTime: time.startTime, endTime: time.endTime };
+  if (!slots) return { conflict: { ...base, reason: 'no_availability', alternatives: [] } };
+
+  const open = slots.some(
+    (slot) => slot.start_time === time.startTime && slot.end_time === time.endTime,
+  );
+  if (open) {
+    const slot = {
+      vendorServiceId,
+      appointmentDate: date,
+      startTime: time.startTime,
+      endTime: time.endTime,
+      staffId: series.staffId ? String(series.staffId) : null,
+    };
+    const taken = await findCollidingAppointment(slot, excludeAppointmentId);
+    if (!taken) {
+      const assignment = await resolveBookingStaff({ ...slot, excludeAppointmentId });
+      if (!assignment.error) {
+        return {
+          staff: { staffId: assignment.staffId, autoAssigned: assignment.autoAssigned },
+        };
+      }
+    }
+  }
+  return {
+    conflict: {
+      ...base,
+      reason: open ? 'booked' : 'unavailable',
+      alternatives: alternativeTimes(slots, time),
+    },
+  };
+}
+
+/**
+ * Book occurrence `index` at `time`. `extra` goes on the appointment as
+ * well (occurrence 0's payment).
+ */
+async function bookOccurrence(
+  series: SeriesPlan,
+  index: number,
+  time: OccurrenceTime,
+  extra: Record<string, any> = {},
+): Promise<{ appointment: AppointmentDocument } | { conflict: OccurrenceConflict }> {
+  const date = occurrenceDate(series.anchorDate, series.frequency, index);
+  const check = await checkOccurrence(series, index, date, time);
+  if ('conflict' in check) return check;
+
+  const timezone = await getVendorServiceTimezone(String(series.vendorServiceId));
+  const schedule = buildZonedSchedule(date, time.startTime, time.endTime, timezone);
+  // Later occurrences paid by card are charged ahead of time, and paid out then
+  const chargedLater = index > 0 && series.paymentMode === 'credit-card';
+  const skip: OutboxEventType[] =
+    index === 0
+      ? []
+      : [
+          'booking-notification',
+          'increment-coupon',
+          ...(chargedLater ? ['record-payout' as const] : []),
+        ];
+
+  const appointment = await createReservedBooking(
+    {
+      ...series.template,
+      customerId: series.customerId,
+      vendorServiceId: series.vendorServiceId,
+      appointmentDate: date,
+      startTime: time.startTime,
+      endTime: time.endTime,
+      staffId: check.staff.staffId,
+      staffAutoAssigned: check.staff.autoAssigned,
+      timezone: schedule.timezone,
+      startAt: schedule.startAt,
+      endAt: schedule.endAt,
+      recurrenceSeriesId: series._id,
+      recurrenceIndex: index,
+      status: 'pending',
+      paymentStatus: 'pending',
+      ...(chargedLater
+        ? {
+            occurrenceChargeStatus: 'pending',
+            occurrenceChargeDueAt: occurrenceChargeDueAt(schedule.startAt),
+          }
+        : {}),
+      ...extra,
+    },
+    { skip },
+  );
+  if (!appointment) {
+    return {
+      conflict: { index, appointmentDate: date, ...time, reason: 'booked', alternatives: [] },
+    };
+  }
+  return { appointment };
+}
+
+async function notifyOccurrence(
+  kind: 'conflict' | 'charge_failed' | 'cancelled_unpaid',
+  occurrence: {
+    customerId: unknown;
+    vendorServiceId: unknown;
+    appointmentDate: Date;
+    startTime: string;
+  },
+  data: Record<string, string>,
+  attemptsLeft?: number,
+): Promise<void> {
+  try {
+    const vendorService = await VendorService.findById(occurrence.vendorServiceId)
+      .select('name serviceId')
+      .populate('serviceId', 'name')
+      .lean();
+    const message = occurrenceMessage(kind, {
+      serviceName: (vendorService?.serviceId as any)?.name || vendorService?.name || 'Service',
+      appointmentDate: occurrence.appointmentDate,
+      startTime: occurrence.startTime,
+      attemptsLeft,
+    });
+    await dispatchNotification(
+      { userId: String(occurrence.customerId) },
+      { type: 'appointment', ...message, data: { ...data, recurringStep: kind } },
+    );
+  } catch (err: any) {
+    logger.error(`[Recurring] ${kind} notification failed: ${err.message}`);
+  }
+}
+
+/**
+ * Start a series for the customer from a booking payload, priced from the
+ * service. Every occurrence inside the window is checked first; if any is
+ * taken nothing is written and the conflicts come back, unless
+ * `resolutionsInput` says what to do with each of them.
+ */
+export async function createSeries(
+  customerId: unknown,
+  base: Record<string, any> | undefined,
+  recurrenceInput: unknown,
+  resolutionsInput?: unknown,
+): Promise<SeriesCreation> {
+  if (!base?.vendorServiceId || !base?.appointmentDate || !base?.startTime || !base?.endTime) {
+    throw new AppError('Base appointment fields are required', 400);
+  }
+  if (!mongoose.isValidObjectId(base.vendorServiceId)) {
+    throw new AppError('Invalid vendorServiceId', 400);
+  }
+  const recurrence = parseRecurrence(recurrenceInput as any);
+  if (typeof recurrence === 'string') throw new AppError(recurrence, 400);
+
+  const vendorService = await VendorService.findById(base.vendorServiceId).select('price').lean();
+  if (!vendorService) throw new AppError('Service not found', 404);
+  if (base.paymentMethodId) await assertOwnPaymentMethod(customerId, base.paymentMethodId);
+  const intent = base.paymentIntentId
+    ? await loadOwnPaymentIntent(customerId, String(base.paymentIntentId), vendorService.price)
+    : null;
+
+  const series = new RecurringSeries({
+    customerId,
+    vendorServiceId: base.vendorServiceId,
+    staffId: base.staffId || null,
+    frequency: recurrence.frequency,
+    anchorDate: new Date(`${toDateKey(base.appointmentDate)}T00:00:00.000Z`),
+    startTime: base.startTime,
+    endTime: base.endTime,
+    occurrences: recurrence.occurrences,
+    nextIndex: 0,
+    template: {
+      ...Object.fromEntries(
+        Object.entries(base).filter(
+          ([field]) => !OCCURRENCE_FIELDS.includes(field) && !PRICE_FIELDS.includes(field),
+        ),
+      ),
+      serviceFee: vendorService.price,
+      total: vendorService.price,
+    },
+    paymentMode: base.paymentMode || null,
+    paymentMethodId: base.paymentMethodId || null,
+  });
+  const seriesTime = { startTime: series.startTime, endTime: series.endTime };
+  const indexes = dueOccurrenceIndexes(
+    series,
+    await loadHorizon(series.vendorServiceId, new Date()),
+  );
+
+  // Check everything before writing anything
+  const conflicts: OccurrenceConflict[] = [];
+  for (const index of indexes) {
+    const date = occurrenceDate(series.anchorDate, series.frequency, index);
+    const check = await checkOccurrence(series, index, date, seriesTime);
+    if ('conflict' in check) conflicts.push(check.conflict);
+  }
+  if (conflicts.length > 0 && resolutionsInput === undefined) {
+    return { status: 'conflicts', conflicts };
+  }
+  const resolutions = parseResolutions(resolutionsInput, conflicts);
+  if (typeof resolutions === 'string') throw new AppError(resolutions, 400);
+
+  // The times the customer moved occurrences to must be free too
+  const moveConflicts: OccurrenceConflict[] = [];
+  for (const resolution of resolutions.values()) {
+    if (resolution.action !== 'move' || !indexes.includes(resolution.index)) continue;
+    const date = occurrenceDate(series.anchorDate, series.frequency, resolution.index);
+    const check = await checkOccurrence(series, resolution.index, date, resolution);
+    if ('conflict' in check) moveConflicts.push(check.conflict);
+  }
+  if (moveConflicts.length > 0) return { status: 'conflicts', conflicts: moveConflicts };
+
+  const timeFor = (resolution?: OccurrenceResolution): OccurrenceTime | null =>
+    resolution?.action === 'skip'
+      ? null
+      : resolution?.action === 'move'
+        ? { startTime: resolution.startTime, endTime: resolution.endTime }
+        : seriesTime;
+
+  // Occurrence 0 carries the booking's payment; without it there's no series.
+  // It stays pending until confirm-payment, unless the intent already succeeded
+  const paid = intent?.status === 'succeeded';
+  const first = await bookOccurrence(series, 0, timeFor(resolutions.get(0))!, {
+    ...pick(base, ['idempotencyKey']),
+    paymentIntentId: intent?.id,
+    status: paid ? 'confirmed' : 'pending',
+    paymentStatus: paid ? 'completed' : 'pending',
+    recurrencePattern: {
+      frequency: recurrence.frequency,
+      occurrences: recurrence.occurrences,
+    },
+  });
+  if ('conflict' in first) return { status: 'conflicts', conflicts: [first.conflict] };
+
+  const appointments = [first.appointment];
+  for (const index of indexes.slice(1)) {
+    const time = timeFor(resolutions.get(index));
+    if (!time) continue;
+    const result = await bookOccurrence(series, index, time);
+    if ('appointment' in result) {
+      appointments.push(result.appointment);
+    } else {
+      // Taken since the check — left for the customer like a roll-forward conflict
+      series.conflicts.push({ ...result.conflict, detectedAt: new Date() });
+    }
+  }
+
+  series.nextIndex = indexes[indexes.length - 1] + 1;
+  series.nextOccurrenceAt = occurrenceDate(series.anchorDate, series.frequency, series.nextIndex);
+  if (series.occurrences !== null && series.nextIndex >= series.occurrences) {
+    series.status = 'ended';
+  }
+  await series.save();
+
+  logger.info(
+    `[Recurring] Created series ${series._id} — ${appointments.length} occurrences booked (${recurrence.frequency}, ${recurrence.occurrences ?? 'open-ended'})`,
+  );
+  return { status: 'created', series, appointments };
+}
+
+/**
+ * Book a series' occurrences that have come inside the window. Each index
+ * is claimed on the series before it is booked, so overlapping sweeps
+ * never book one twice.
+ */
+async function extendSeries(series: SeriesDocument, now: Date): Promise<number> {
+  const indexes = dueOccurrenceIndexes(series, await loadHorizon(series.vendorServiceId, now));
+  const seriesTime = { startTime: series.startTime, endTime: series.endTime };
+  let booked = 0;
+
+  for (const index of indexes) {
+    const ends = series.occurrences !== null && index + 1 >= series.occurrences;
+    const claimed = await RecurringSeries.updateOne(
+      { _id: series._id, status: 'active', nextIndex: index },
+      {
+        $set: {
+          nextIndex: index + 1,
+          nextOccurrenceAt: occurrenceDate(series.anchorDate, series.frequency, index + 1),
+          ...(ends ? { status: 'ended' } : {}),
+        },
+      },
+    );
+    if (claimed.modifiedCount === 0) break;
+
+    let result: Awaited<ReturnType<typeof bookOccurrence>>;
+    try {
+      result = await bookOccurrence(series, index, seriesTime);
+    } catch (err: any) {
+      logger.error(
+        `[Recurring] Booking occurrence ${index} of ${series._id} failed: ${err.message}`,
+      );
+      const appointmentDate = occurrenceDate(series.anchorDate, series.frequency, index);
+      result = {
+        conflict: {
+          index,
+          appointmentDate,
+          ...seriesTime,
+          reason: 'unavailable',
+          alternatives: [],
+        },
+      };
+    }
+    if ('appointment' in result) {
+      booked++;
+      continue;
+    }
+
+    const { conflict } = result;
+    await RecurringSeries.updateOne(
+      { _id: series._id },
+      { $push: { conflicts: { ...conflict, detectedAt: now } } },
+    );
+    await notifyOccurrence(
+      'conflict',
+      { ...conflict, customerId: series.customerId, vendorServiceId: series.vendorServiceId },
+      { recurrenceSeriesId: String(series._id), recurrenceIndex: String(index) },
+    );
+  }
+  return booked;
+}
+
+/**
+ * Book the next occurrences of every active series whose next date has
+ * come inside the longest window, a page at a time. Run by the scheduler.
+ */
+export async function rollForwardSeries(now: Date = new Date()): Promise<number> {
+  const filter = { status: 'active', nextOccurrenceAt: { $lte: bookingHorizon(now) } };
+  let booked = 0;
+  let read = 0;
+  let lastId: unknown = null;
+
+  for (;;) {
+    const page = await RecurringSeries.find(lastId ? { ...filter, _id: { $gt: lastId } } : filter)
+      .sort({ _id: 1 })
+      .limit(SWEEP_BATCH);
+    for (const series of page) {
+      try {
+        booked += await extendSeries(series, now);
+      } catch (err: any) {
+        logger.error(`[Recurring] Rolling series ${series._id} forward failed: ${err.message}`);
+      }
+    }
+    read += page.length;
+    if (page.length < SWEEP_BATCH) break;
+    lastId = page[page.length - 1]._id;
+  }
+
+  if (booked > 0) {
+    logger.info(`[Recurring] Booked ${booked} occurrences across ${read} series`);
+  }
+  return booked;
+}
+
+/**
+ * Give back a charge that went through after the occurrence stopped
+ * waiting for it (cancelled meanwhile), unless the cancellation already
+ * refunded it. True when the occurrence didn't keep the charge.
+ */
+async function refundLateCharge(appointmentId: string): Promise<boolean> {
+  const appointment = await Appointment.findById(appointmentId);
+  if (!appointment || ['confirmed', 'completed'].includes(appointment.status)) return false;
+  if (appointment.refundId) return true;
+
+  await refundAppointmentPayment(appointment);
+  await appointment.save();
+  logger.warn(
+    `[Recurring] Refunded occurrence ${appointmentId} — it was ${appointment.status} when its charge went through`,
+  );
+  return true;
+}
+
+/**
+ * Charge one occurrence to the series' card. Safe to call more than once:
+ * the charge is claimed on the appointment first, and every try uses the
+ * occurrence's idempotency key, so a retry after a crash or a network
+ * error returns the earlier charge instead of making another. The key is
+ * only replaced once Stripe has definitely declined, so the retry can go
+ * through.
+ */
+export async function chargeOccurrence(
+  appointmentId: string,
+  now: Date = new Date(),
+): Promise<'paid' | 'refunded' | 'failed' | 'skipped'> {
+  const appointment = await Appointment.findOneAndUpdate(
+    {
+      _id: appointmentId,
+      status: 'pending',
+      occurrenceChargeStatus: { $in: ['pending', 'failed'] },
+    },
+    {
+      $set: { occurrenceChargeStatus: 'processing', occurrenceChargeLockedAt: now },
+      $inc: { occurrenceChargeAttempts: 1 },
+    },
+    { new: true },
+  );
+  if (!appointment) return 'skipped';
+
+  const attempts = appointment.occurrenceChargeAttempts || 0;
+  const idempotencyKey = appointment.occurrenceChargeKey || `occurrence_${appointment._id}`;
+  let charge: Awaited<ReturnType<typeof StripeService.chargeSavedPaymentMethod>> | null = null;
+  let ambiguous = false;
+  try {
+    const [customer, series] = await Promise.all([
+      User.findById(appointment.customerId).select('stripeCustomerId').lean(),
+      RecurringSeries.findById(appointment.recurrenceSeriesId).select('paymentMethodId').lean(),
+    ]);
+    if (!customer?.stripeCustomerId) throw new Error('Customer has no Stripe account');
+
+    charge = await StripeService.chargeSavedPaymentMethod({
+      customerId: customer.stripeCustomerId,
+      amount: appointment.total,
+      paymentMethodId: series?.paymentMethodId || undefined,
+      idempotencyKey,
+      metadata: { appointmentId: String(appointment._id), type: 'recurring_occurrence' },
+    });
+    if (charge.status !== 'succeeded') throw new Error(`Charge ${charge.id} is ${charge.status}`);
+  } catch (err: any) {
+    ambiguous = AMBIGUOUS_STRIPE_ERRORS.includes(err.cause?.type);
+    logger.warn(`[Recurring] Charge failed for occurrence ${appointmentId}: ${err.message}`);
+    const data = { appointmentId: String(appointment._id) };
+    appointment.occurrenceChargeStatus = 'failed';
+    appointment.set('occurrenceChargeLockedAt', undefined);
+    appointment.paymentStatus = 'failed';
+    if (charge) appointment.paymentIntentId = charge.id;
+    // Stripe replays a declined key's decline, so the next try needs its own
+    if (!ambiguous) appointment.occurrenceChargeKey = `occurrence_${appointment._id}_${attempts}`;
+
+    // An ambiguous failure may have charged, so it is always retried (and not the card's fault)
+    const retryAt = occurrenceChargeRetryAt(ambiguous ? 0 : attempts, now);
+    if (retryAt) {
+      appointment.occurrenceChargeDueAt = retryAt;
+      await appointment.save();
+      if (!ambiguous) {
+        await notifyOccurrence(
+          'charge_failed',
+          appointment,
+          data,
+          MAX_OCCURRENCE_CHARGE_ATTEMPTS - attempts,
+        );
+      }
+    } else {
+      appointment.cancellationReason = 'Payment for this occurrence failed';
+      await changeAppointmentStatus(appointment, 'cancelled', {
+        actor: 'auto',
+        reason: 'Payment for this occurrence failed',
+      });
+      await notifyOccurrence('cancelled_unpaid', appointment, data);
+    }
+    return 'failed';
+  }
+
+  // Record the money in one write before anything else can fail
+  const recorded = await Appointment.findOneAndUpdate(
+    { _id: appointment._id, occurrenceChargeStatus: 'processing' },
+    {
+      $set: {
+        occurrenceChargeStatus: 'paid',
+        paymentIntentId: charge.id,
+        paymentStatus: 'completed',
+      },
+      $unset: { occurrenceChargeLockedAt: 1 },
+    },
+    { new: true },
+  );
+  // A stale-claim reclaim got there first; its retry finds this charge under the same key
+  if (!recorded) return 'skipped';
+  logger.info(`[Recurring] Charged $${recorded.total} for occurrence ${appointmentId}`);
+
+  if (recorded.status === 'pending') {
+    try {
+      await changeAppointmentStatus(recorded, 'confirmed', { actor: 'auto' });
+    } catch (err) {
+      // Cancelled meanwhile — refunded below
+      if (!(err instanceof AppError)) throw err;
+    }
+  }
+  if (await refundLateCharge(appointmentId)) return 'refunded';
+  await recordPayout(appointmentId);
+  return 'paid';
+}
+
+/**
+ * Reclaim charges a dead sweep left in `processing`, then charge
+ * occurrences whose charge (or retry) has come due. Run by the scheduler.
+ */
+export async function chargeDueOccurrences(now: Date = new Date()): Promise<number> {
+  // Tried again straight away under the same key, so a charge that did go through isn't repeated
+  await Appointment.updateMany(
+    {
+      occurrenceChargeStatus: 'processing',
+      occurrenceChargeLockedAt: { $lt: new Date(now.getTime() - OCCURRENCE_CHARGE_STALE_MS) },
+    },
+    {
+      $set: { occurrenceChargeStatus: 'pending', occurrenceChargeDueAt: now },
+      $unset: { occurrenceChargeLockedAt: 1 },
+    },
+  );
+
+  const due = await Appointment.find({
+    status: 'pending',
+    occurrenceChargeStatus: { $in: ['pending', 'failed'] },
+    occurrenceChargeDueAt: { $lte: now },
+  })
+    .select('_id')
+    .limit(SWEEP_BATCH)
+    .lean();
+
+  let paid = 0;
+  for (const apt of due) {
+    try {
+      if ((await chargeOccurrence(String(apt._id), now)) === 'paid') paid++;
+    } catch (err: any) {
+      logger.error(`[Recurring] Charging occurrence ${apt._id} failed: ${err.message}`);
+    }
+  }
+  if (due.length > 0) logger.info(`[Recurring] Charged ${paid}/${due.length} due occurrences`);
+  return paid;
+}
+
+async function loadOwnSeries(seriesId: string, customerId: unknown): Promise<SeriesDocument> {
+  const series = mongoose.isValidObjectId(seriesId)
+    ? await RecurringSeries.findById(seriesId)
+    : null;
+  // Someone else's series reads as missing
+  if (!series || String(series.customerId) !== String(customerId)) {
+    throw new AppError('Series not found', 404);
+  }
+  return series;
+}
+
+/**
+ * The series and its occurrences. Series booked before series documents
+ * existed come back with `series: null`.
+ */
+export async function getSeries(seriesId: string, customerId: unknown) {
+  const occurrences = mongoose.isValidObjectId(seriesId)
+    ? await Appointment.find({ recurrenceSeriesId: seriesId, customerId })
+        .select(
+          'appointmentDate startTime endTime status paymentStatus recurrenceIndex occurrenceChargeStatus occurrenceChargeDueAt staffId',
+        )
+        .sort({ appointmentDate: 1 })
+        .lean()
+    : [];
+  const series = mongoose.isValidObjectId(seriesId)
+    ? await RecurringSeries.findOne({ _id: seriesId, customerId }).lean()
+    : null;
+  if (!series && occurrences.length === 0) throw new AppError('Series not found', 404);
+  return { series, occurrences };
+}
+
+/**
+ * Book or skip an occurrence the scheduler couldn't place. A move to a
+ * time that is taken too comes back with fresh alternatives.
+ */
+export async function resolveSeriesConflict(
+  seriesId: string,
+  customerId: unknown,
+  index: number,
+  input: { action?: string; startTime?: string; endTime?: string },
+): Promise<ConflictResolution> {
+  const series = await loadOwnSeries(seriesId, customerId);
+  if (series.status === 'cancelled') throw new AppError('This series is cancelled', 409);
+  const stored = series.conflicts.find((conflict) => conflict.index === index);
+  if (!stored) throw new AppError('No conflict for this occurrence', 404);
+
+  const resolutions = parseResolutions([{ ...input, index }], [stored]);
+  if (typeof resolutions === 'string') throw new AppError(resolutions, 400);
+  const resolution = resolutions.get(index)!;
+
+  if (resolution.action === 'move') {
+    const result = await bookOccurrence(series, index, resolution);
+    if ('conflict' in result) {
+      await RecurringSeries.updateOne(
+        { _id: series._id, 'conflicts.index': index },
+        { $set: { 'conflicts.$.alternatives': result.conflict.alternatives } },
+      );
+      return { status: 'conflict', conflict: result.conflict };
+    }
+    await RecurringSeries.updateOne({ _id: series._id }, { $pull: { conflicts: { index } } });
+    return { status: 'booked', appointment: result.appointment };
+  }
+
+  await RecurringSeries.updateOne({ _id: series._id }, { $pull: { conflicts: { index } } });
+  logger.info(`[Recurring] Occurrence ${index} of series ${series._id} skipped`);
+  return { status: 'skipped' };
+}
+
+async function loadOwnOccurrence(appointmentId: string, customerId: unknown) {
+  const appointment = mongoose.isValidObjectId(appointmentId)
+    ? await Appointment.findById(appointmentId)
+    : null;
+  if (!appointment || String(appointment.customerId) !== String(customerId)) {
+    throw new AppError('Appointment not found', 404);
+  }
+  if (!appointment.recurrenceSeriesId) {
+    throw new AppError('This appointment is not part of a series', 400);
+  }
+  if (!OPEN_STATUSES.includes(appointment.status)) {
+    throw new AppError(`Cannot edit a ${appointment.status} appointment`, 400);
+  }
+  return appointment;
+}
+
+/**
+ * "Edit this occurrence": a new time goes through the reschedule flow
+ * (notice, limits, vendor approval); details change straight away.
+ */
+export async function editOccurrence(
+  appointmentId: string,
+  customerId: unknown,
+  input: Record<string, any>,
+): Promise<{ appointment: AppointmentDocument; reschedule: RescheduleOutcome | null }> {
+  let appointment = await loadOwnOccurrence(appointmentId, customerId);
+
+  const details = pick(input, DETAIL_FIELDS);
+  if (Object.keys(details).length > 0) {
+    appointment.set(details);
+    await appointment.save();
+  }
+
+  let reschedule: RescheduleOutcome | null = null;
+  if (input.appointmentDate || input.startTime || input.endTime) {
+    reschedule = await requestReschedule(
+      appointmentId,
+      {
+        appointmentDate: input.appointmentDate || appointment.appointmentDate,
+        startTime: input.startTime || appointment.startTime,
+        endTime: input.endTime || appointment.endTime,
+      },
+      input.note,
+    );
+    appointment = reschedule.appointment;
+  }
+  return { appointment, reschedule };
+}
+
+/**
+ * "Edit this and following": new details and/or time for this occurrence,
+ * every later booked one and the ones still to be booked. Moves skip the
+ * reschedule count but not the vendor's notice; occurrences inside it keep
+ * their time. Taken times block the edit unless `input.resolutions` skips
+ * (keeps the old time) or moves each.
+ */
+export async function editFollowingOccurrences(
+  appointmentId: string,
+  customerId: unknown,
+  input: Record<string, any>,
+): Promise<FollowingEdit> {
+  const appointment = await loadOwnOccurrence(appointmentId, customerId);
+  if (input.appointmentDate) {
+    throw new AppError("Change the date of one occurrence at a time (scope 'this')", 400);
+  }
+  const series = await RecurringSeries.findById(appointment.recurrenceSeriesId);
+  if (!series || series.status === 'cancelled' || typeof appointment.recurrenceIndex !== 'number') {
+    throw new AppError(
+      "This series can only be edited one occurrence at a time (scope 'this')",
+      400,
+    );
+  }
+
+  const details = pick(input, DETAIL_FIELDS);
+  const retime = !!(input.startTime || input.endTime);
+  const time = {
+    startTime: input.startTime || series.startTime,
+    endTime: input.endTime || series.endTime,
+  };
+  if (retime && durationOf(time) <= 0) throw new AppError('endTime must be after startTime', 400);
+
+  const affected = await Appointment.find({
+    recurrenceSeriesId: series._id,
+    recurrenceIndex: { $gte: appointment.recurrenceIndex },
+    status: { $in: OPEN_STATUSES },
+  }).sort({ recurrenceIndex: 1 });
+
+  // Work out every move before making any
+  const moves: { appointment: AppointmentDocument; target: OccurrenceTime; staff: StaffChoice }[] =
+    [];
+  const unchanged: string[] = [];
+  if (retime) {
+    const vendorService = await VendorService.findById(series.vendorServiceId)
+      .select('vendorId')
+      .lean();
+    const policy = await loadReschedulePolicy(vendorService?.vendorId);
+    if (policy.requireApproval) {
+      throw new AppError(
+        "This provider approves time changes one at a time — change each occurrence with scope 'this'",
+        409,
+      );
+    }
+
+    const conflicts: OccurrenceConflict[] = [];
+    const planned: { occurrence: AppointmentDocument; target: OccurrenceTime }[] = [];
+    for (const occurrence of affected) {
+      const { startAt } = await resolveAppointmentSchedule(occurrence);
+      const hoursUntil = (startAt.getTime() - Date.now()) / (60 * 60 * 1000);
+      if (rescheduleEligibilityError(policy, { rescheduleCount: 0 }, hoursUntil)) {
+        unchanged.push(String(occurrence._id));
+        continue;
+      }
+      if (occurrence.startTime === time.startTime && occurrence.endTime === time.endTime) continue;
+      planned.push({ occurrence, target: time });
+      const check = await checkOccurrence(
+        series,
+        occurrence.recurrenceIndex ?? 0,
+        occurrence.appointmentDate,
+        time,
+        String(occurrence._id),
+      );
+      if ('conflict' in check) conflicts.push(check.conflict);
+    }
+
+    if (conflicts.length > 0 && input.resolutions === undefined) {
+      return { status: 'conflicts', conflicts };
+    }
+    const resolutions = parseResolutions(input.resolutions, conflicts);
+    if (typeof resolutions === 'string') throw new AppError(resolutions, 400);
+
+    const moveConflicts: OccurrenceConflict[] = [];
+    for (const { occurrence, target } of planned) {
+      const resolution = resolutions.get(occurrence.recurrenceIndex ?? 0);
+      if (resolution?.action === 'skip') {
+        unchanged.push(String(occurrence._id));
+        continue;
+      }
+      const chosen = resolution?.action === 'move' ? resolution : target;
+      const newTime = { startTime: chosen.startTime, endTime: chosen.endTime };
+      try {
+        const staff = await checkRescheduleSlot(occurrence, {
+          appointmentDate: occurrence.appointmentDate,
+          ...newTime,
+        });
+        moves.push({ appointment: occurrence, target: newTime, staff });
+      } catch (err: any) {
+        if (!(err instanceof AppError) || !resolution) throw err;
+        const date = occurrence.appointmentDate;
+        const check = await checkOccurrence(
+          series,
+          resolution.index,
+          date,
+          newTime,
+          String(occurrence._id),
+        );
+        if ('conflict' in check) moveConflicts.push(check.conflict);
+      }
+    }
+    if (moveConflicts.length > 0) return { status: 'conflicts', conflicts: moveConflicts };
+  }
+
+  const updated: string[] = [];
+  for (const { appointment: occurrence, target, staff } of moves) {
+    occurrence.set(details);
+    await moveAppointment(
+      occurrence,
+      { appointmentDate: occurrence.appointmentDate, ...target },
+      staff,
+      { countAsReschedule: false },
+    );
+    updated.push(String(occurrence._id));
+  }
+  if (Object.keys(details).length > 0) {
+    for (const occurrence of affected) {
+      const id = String(occurrence._id);
+      if (updated.includes(id)) continue;
+      occurrence.set(details);
+      await occurrence.save();
+      if (!unchanged.includes(id)) updated.push(id);
+    }
+  }
+
+  // Occurrences still to be booked follow the new time and details
+  series.template = { ...series.template, ...details };
+  series.markModified('template');
+  if (retime) {
+    series.startTime = time.startTime;
+    series.endTime = time.endTime;
+  }
+  await series.save();
+
+  logger.info(
+    `[Recurring] Series ${series._id} edited from occurrence ${appointment.recurrenceIndex}: ${updated.length} updated, ${unchanged.length} unchanged`,
+  );
+  return { status: 'updated', updated, unchanged };
+}
+
+/**
+ * Stop the customer's series from booking further occurrences. Cancelling
+ * its booked occurrences is the caller's. Series booked before series
+ * documents existed have nothing to stop.
+ */
+export async function cancelSeries(seriesId: string, customerId: unknown): Promise<void> {
+  if (!mongoose.isValidObjectId(seriesId) || !(await RecurringSeries.exists({ _id: seriesId }))) {
+    return;
+  }
+  const series = await loadOwnSeries(seriesId, customerId);
+  if (series.status === 'cancelled') return;
+  series.status = 'cancelled';
+  series.cancelledAt = new Date();
+  series.set('conflicts', []);
+  await series.save();
+}
+
+export function startRecurringSeriesScheduler(): void {
+  setInterval(() => {
+    chargeDueOccurrences().catch((error) =>
+      logger.error(`[Recurring] Charge sweep failed: ${error.message}`),
+    );
+  }, CHARGE_SWEEP_MS);
+  setInterval(() => {
+    rollForwardSeries().catch((error) =>
+      logger.error(`[Recurring] Roll-forward sweep failed: ${error.message}`),
+    );
+  }, ROLL_FORWARD_SWEEP_MS);
+  logger.info(
+    '[Recurring] Occurrence charge (every 5 min) and roll-forward (hourly) sweeps started',
+  );
+}
@@ -0,0 +1,515 @@
+/**
+ * Customer rescheduling under the vendor's reschedule policy
+ * (utils/reschedule), with optional vendor approval and counter-proposals.
+ *
+ * A new time must be a slot the slot engine would offer for that date —
+ * inside the service's availability, clear of block times, the booking
+ * window and buffers, with capacity and (for multi-staff vendors) the
+ * staff member free — ignoring the appointment being moved. It must not be
+ * held by another customer's slot lock, and the move itself is saved under
+ * the slot's reservation (services/booking). Customer and vendor are both
+ * notified at every step.
+ */
+
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import RescheduleRequest, {
+  OPEN_RESCHEDULE_STATUSES,
+  type IRescheduleSlot,
+} from '../models/reschedule-request.model';
+import SlotLock from '../models/slot-lock.model';
+import User from '../models/user.model';
+import VendorService from '../models/vendor-service.model';
+import Vendor from '../models/vendor.model';
+import type { Appointment as SlotAppointment, Slot } from '../interfaces/common.interface';
+import { AppError } from '../utils/appError.util';
+import { shiftBalanceDueAt } from '../utils/deposit.util';
+import {
+  rescheduleEligibilityError,
+  rescheduleMessages,
+  resolveReschedulePolicy,
+  validateCounterProposals,
+  type ReschedulePolicy,
+  type RescheduleStep,
+  type RescheduleTime,
+} from '../utils/reschedule.util';
+import { buildZonedSchedule, timeToMinutes, toDateKey } from '../utils/timezone.util';
+import { getVendorServiceTimezone, resolveAppointmentSchedule } from '../utils/vendor.util';
+import { getDateAvailability } from './availability.service';
+import { loadSlotConstraints } from './booking-rules.service';
+import { withSlotReservation } from './booking.service';
+import { getServiceSlots } from './get-slots.service';
+import { dispatchNotification } from './notification-dispatcher.service';
+import { rescheduleAppointmentReminders } from './notification-scheduler.service';
+import { resolveBookingStaff } from './staff-availability.service';
+import { emitAppointmentEvent } from './vendor-webhook.service';
+
+type AppointmentDocument = InstanceType<typeof Appointment>;
+type RescheduleRequestDocument = InstanceType<typeof RescheduleRequest>;
+
+export type RescheduleOutcome =
+  | { status: 'rescheduled'; appointment: AppointmentDocument; request: RescheduleRequestDocument }
+  | { status: 'pending'; appointment: AppointmentDocument; request: RescheduleRequestDocument };
+
+export interface StaffChoice {
+  staffId: string | null;
+  autoAssigned: boolean;
+}
+
+const toSlot = (time: RescheduleTime): IRescheduleSlot => ({
+  appointmentDate: new Date(`${toDateKey(time.appointmentDate)}T00:00:00.000Z`),
+  startTime: time.startTime,
+  endTime: time.endTime,
+});
+
+const currentSlot = (appointment: AppointmentDocument): IRescheduleSlot => ({
+  appointmentDate: appointment.appointmentDate,
+  startTime: appointment.startTime,
+  endTime: appointment.endTime,
+});
+
+const sameSlot = (a: RescheduleTime, b: RescheduleTime) =>
+  toDateKey(a.appointmentDate) === toDateKey(b.appointmentDate) &&
+  a.startTime === b.startTime &&
+  a.endTime === b.endTime;
+
+async function vendorOfAppointment(appointment: AppointmentDocument) {
+  const vendorService = await VendorService.findById(appointment.vendorServiceId)
+    .select('vendorId')
+    .lean();
+  if (!vendorService) throw new AppError('Vendor service not found', 404);
+  return vendorService;
+}
+
+export async function loadReschedulePolicy(vendorId: unknown): Promise<ReschedulePolicy> {
+  const vendor = await Vendor.findById(vendorId).select('reschedulePolicy').lean();
+  return resolveReschedulePolicy((vendor as any)?.reschedulePolicy);
+}
+
+/**
+ * The times the slot engine offers for a service on a date, counting every
+ * booking except `excludeAppointmentId`'s. Null when the provider has no
+ * availability that day at all.
+ */
+export async function loadOpenSlots(
+  vendorServiceId: string,
+  date: Date | string,
+  options: { excludeAppointmentId?: string | null; fallbackDuration?: number } = {},
+): Promise<Slot[] | null> {
+  const dateStr = toDateKey(date);
+  const day = new Date(`${dateStr}T00:00:00.000Z`);
+
+  const dateDetails = await getDateAvailability(vendorServiceId, day);
+  if (!dateDetails) return null;
+
+  // The service's other bookings that day, grouped the way the slot engine counts them
+  const sameDay = await Appointment.find({
+    ...(options.excludeAppointmentId ? { _id: { $ne: options.excludeAppointmentId } } : {}),
+    vendorServiceId,
+    appointmentDate: day,
+    status: { $nin: ['cancelled', 'rejected'] },
+  })
+    .select('startTime endTime')
+    .lean();
+  const booked: SlotAppointment[] = [];
+  for (const apt of sameDay) {
+    const entry = booked.find((b) => b.start_time === apt.startTime && b.end_time === apt.endTime);
+    if (entry) entry.appointments += 1;
+    else booked.push({ start_time: apt.startTime, end_time: apt.endTime, appointments: 1 });
+  }
+
+  const vendorService = await VendorService.findById(vendorServiceId).select('duration').lean();
+  const duration = vendorService?.duration || options.fallbackDuration || 0;
+  const timezone = await getVendorServiceTimezone(vendorServiceId);
+  const constraints = await loadSlotConstraints(
+    vendorServiceId,
+    day,
+    day,
+    options.excludeAppointmentId || undefined,
+  );
+  return getServiceSlots(
+    dateDetails,
+    duration,
+    { [dateStr]: booked },
+    vendorServiceId,
+    timezone,
+    constraints,
+  );
+}
+
+/**
+ * Check a new time for an appointment and pick its staff member. Someone
+ * the customer chose is kept; an auto-assigned member may be swapped for
+ * whoever is free. Throws 409 with the reason when the time won't do.
+ */
+export async function checkRescheduleSlot(
+  appointment: AppointmentDocument,
+  target: RescheduleTime,
+): Promise<StaffChoice> {
+  if (!target.appointmentDate || !target.startTime || !target.endTime) {
+    throw new AppError('appointmentDate, startTime and endTime are required', 400);
+  }
+  const vendorServiceId = String(appointment.vendorServiceId);
+  const appointmentId = String(appointment._id);
+  const day = new Date(`${toDateKey(target.appointmentDate)}T00:00:00.000Z`);
+
+  const slots = await loadOpenSlots(vendorServiceId, day, {
+    excludeAppointmentId: appointmentId,
+    fallbackDuration: timeToMinutes(appointment.endTime) - timeToMinutes(appointment.startTime),
+  });
+  if (!slots) throw new AppError('The provider has no availability on this date', 409);
+  if (!slots.some((s) => s.start_time === target.startTime && s.end_time === target.endTime)) {
+    throw new AppError('This time is not available. Please select a different time.', 409);
+  }
+
+  const lock = await SlotLock.findOne({
+    vendorServiceId: appointment.vendorServiceId,
+    date: day,
+    fromTime: target.startTime,
+    toTime: target.endTime,
+  });
+  if (lock && String(lock.lockedBy) !== String(appointment.customerId)) {
+    throw new AppError(
+      'This slot is temporarily locked by another user. Please try again shortly or select a different time.',
+      409,
+    );
+  }
+
+  const keepStaff = appointment.staffId && !appointment.staffAutoAssigned;
+  const assignment = await resolveBookingStaff({
+    vendorServiceId,
+    appointmentDate: day,
+    startTime: target.startTime,
+    endTime: target.endTime,
+    staffId: keepStaff ? String(appointment.staffId) : null,
+    excludeAppointmentId: appointmentId,
+  });
+  if (assignment.error) throw new AppError(assignment.error, 409);
+  return { staffId: assignment.staffId, autoAssigned: assignment.autoAssigned };
+}
+
+/**
+ * Move the appointment to a checked time while holding the slot's
+ * reservation, then refresh reminders and tell vendor webhooks. Moves
+ * that aren't the customer's reschedule (series edits) leave
+ * rescheduleCount alone. A pending balance stays due the same time ahead.
+ */
+export async function moveAppointment(
+  appointment: AppointmentDocument,
+  target: RescheduleTime,
+  staff: StaffChoice,
+  options: { countAsReschedule?: boolean } = {},
+): Promise<AppointmentDocument> {
+  const slot = toSlot(target);
+  const timezone = await getVendorServiceTimezone(String(appointment.vendorServiceId));
+  const schedule = buildZonedSchedule(slot.appointmentDate, slot.startTime, slot.endTime, timezone);
+
+  const moved = await withSlotReservation(
+    { vendorServiceId: appointment.vendorServiceId, ...slot, staffId: staff.staffId },
+    appointment._id,
+    async () => {
+      const { balanceStatus, balanceDueAt, startAt } = appointment;
+      if (balanceStatus === 'pending' && balanceDueAt && startAt) {
+        appointment.balanceDueAt = shiftBalanceDueAt(balanceDueAt, startAt, schedule.startAt);
+      }
+      appointment.appointmentDate = slot.appointmentDate;
+      appointment.startTime = slot.startTime;
+      appointment.endTime = slot.endTime;
+      appointment.staffId = staff.staffId as any;
+      appointment.staffAutoAssigned = staff.autoAssigned;
+      appointment.timezone = schedule.timezone;
+      appointment.startAt = schedule.startAt;
+      appointment.endAt = schedule.endAt;
+      if (options.countAsReschedule !== false) {
+        appointment.rescheduleCount = (appointment.rescheduleCount || 0) + 1;
+      }
+      return appointment.save();
+    },
+  );
+  if (!moved) {
+    throw new AppError('This time was just booked by someone else. Please select another.', 409);
+  }
+
+  await emitAppointmentEvent('appointment.rescheduled', moved);
+  try {
+    await rescheduleAppointmentReminders(String(moved._id));
+  } catch (err: any) {
+    logger.error(`Failed to reschedule reminders: ${err.message}`);
+  }
+  return moved;
+}
+
+/**
+ * Tell the customer and the vendor what just happened. Best-effort.
+ */
+async function notifyRescheduleStep(
+  step: RescheduleStep,
+  request: RescheduleRequestDocument,
+  note?: string | null,
+): Promise<void> {
+  try {
+    const appointment = await Appointment.findById(request.appointmentId)
+      .select('vendorServiceId')
+      .lean();
+    const [vendorService, customer, vendor] = await Promise.all([
+      VendorService.findById(appointment?.vendorServiceId)
+        .select('name serviceId')
+        .populate('serviceId', 'name')
+        .lean(),
+      User.findById(request.customerId).select('firstName lastName').lean(),
+      Vendor.findById(request.vendorId).select('userId').lean(),
+    ]);
+    const messages = rescheduleMessages(step, {
+      serviceName: (vendorService?.serviceId as any)?.name || vendorService?.name || 'Service',
+      customerName:
+        [customer?.firstName, customer?.lastName].filter(Boolean).join(' ') || 'A customer',
+      from: request.from,
+      to: request.movedTo || request.requested,
+      proposals: request.proposals,
+      note,
+    });
+    const data = {
+      appointmentId: String(request.appointmentId),
+      rescheduleRequestId: String(request._id),
+      rescheduleStep: step,
+    };
+
+    await dispatchNotification(
+      { userId: String(request.customerId) },
+      { type: 'appointment', ...messages.customer, data },
+    );
+    if (vendor?.userId) {
+      await dispatchNotification(
+        { userId: String(vendor.userId) },
+        { type: 'appointment', ...messages.vendor, data },
+      );
+    }
+  } catch (err: any) {
+    logger.error(
+      `[Reschedule] ${step} notification for request ${request._id} failed: ${err.message}`,
+    );
+  }
+}
+
+/**
+ * A customer's reschedule: moved straight away, or left for the vendor to
+ * answer when their policy requires approval.
+ */
+export async function requestReschedule(
+  appointmentId: string,
+  target: RescheduleTime,
+  note?: string | null,
+): Promise<RescheduleOutcome> {
+  const appointment = await Appointment.findById(appointmentId);
+  if (!appointment) throw new AppError('Appointment not found', 404);
+  if (appointment.status === 'cancelled') {
+    throw new AppError('Cannot reschedule a cancelled appointment', 400);
+  }
+  if (appointment.status === 'completed') {
+    throw new AppError('Cannot reschedule a completed appointment', 400);
+  }
+  if (sameSlot(target, currentSlot(appointment))) {
+    throw new AppError('The appointment is already at this time', 400);
+  }
+
+  const vendorService = await vendorOfAppointment(appointment);
+  const policy = await loadReschedulePolicy(vendorService.vendorId);
+  const { startAt } = await resolveAppointmentSchedule(appointment);
+  const hoursUntil = (startAt.getTime() - Date.now()) / (60 * 60 * 1000);
+  const ineligible = rescheduleEligibilityError(policy, appointment, hoursUntil);
+  if (ineligible) throw new AppError(ineligible, 400);
+
+  const open = await RescheduleRequest.exists({
+    appointmentId: appointment._id,
+    status: { $in: OPEN_RESCHEDULE_STATUSES },
+  });
+  if (open) {
+    throw new AppError('A reschedule request for this appointment is already waiting', 409);
+  }
+
+  const staff = await checkRescheduleSlot(appointment, target);
+  const from = currentSlot(appointment);
+  const base = {
+    appointmentId: appointment._id,
+    vendorId: vendorService.vendorId,
+    customerId: appointment.customerId,
+    from,
+    requested: toSlot(target),
+    customerNote: note || null,
+  };
+
+  if (policy.requireApproval) {
+    const request = await RescheduleRequest.create({ ...base, status: 'pending' });
+    await notifyRescheduleStep('requested', request, note);
+    return { status: 'pending', appointment, request };
+  }
+
+  const moved = await moveAppointment(appointment, target, staff);
+  const request = await RescheduleRequest.create({
+    ...base,
+    status: 'accepted',
+    movedTo: toSlot(target),
+    autoAccepted: true,
+    resolvedAt: new Date(),
+  });
+  await notifyRescheduleStep('rescheduled', request, note);
+  logger.info(
+    `Appointment ${appointment._id} rescheduled from ${toDateKey(from.appointmentDate)} ${from.startTime} to ${toDateKey(target.appointmentDate)} ${target.startTime}`,
+  );
+  return { status: 'rescheduled', appointment: moved, request };
+}
+
+async function loadVendorRequest(requestId: string, vendorId: string) {
+  const request = await RescheduleRequest.findById(requestId);
+  if (!request) throw new AppError('Reschedule request not found', 404);
+  if (String(request.vendorId) !== String(vendorId)) {
+    throw new AppError('Not authorized to access this reschedule request', 403);
+  }
+  if (request.status !== 'pending') {
+    throw new AppError(`This request is already ${request.status}`, 409);
+  }
+  return request;
+}
+
+async function loadRequestAppointment(request: RescheduleRequestDocument) {
+  const appointment = await Appointment.findById(request.appointmentId);
+  if (!appointment) throw new AppError('Appointment not found', 404);
+  if (['cancelled', 'completed'].includes(appointment.status)) {
+    throw new AppError(`The appointment is ${appointment.status}`, 409);
+  }
+  return appointment;
+}
+
+export async function acceptRescheduleRequest(
+  requestId: string,
+  vendorId: string,
+  note?: string | null,
+): Promise<{ request: RescheduleRequestDocument; appointment: AppointmentDocument }> {
+  const request = await loadVendorRequest(requestId, vendorId);
+  const appointment = await loadRequestAppointment(request);
+  const staff = await checkRescheduleSlot(appointment, request.requested);
+  const moved = await moveAppointment(appointment, request.requested, staff);
+
+  const now = new Date();
+  request.status = 'accepted';
+  request.movedTo = request.requested;
+  request.vendorNote = note || null;
+  request.respondedAt = now;
+  request.resolvedAt = now;
+  await request.save();
+  await notifyRescheduleStep('accepted', request, note);
+  return { request, appointment: moved };
+}
+
+export async function declineRescheduleRequest(
+  requestId: string,
+  vendorId: string,
+  note?: string | null,
+): Promise<RescheduleRequestDocument> {
+  const request = await loadVendorRequest(requestId, vendorId);
+  const now = new Date();
+  request.status = 'declined';
+  request.vendorNote = note || null;
+  request.respondedAt = now;
+  request.resolvedAt = now;
+  await request.save();
+  await notifyRescheduleStep('declined', request, note);
+  return request;
+}
+
+/**
+ * Offer the customer other times instead. Each must be free right now;
+ * they are checked again when the customer picks one.
+ */
+export async function counterRescheduleRequest(
+  requestId: string,
+  vendorId: string,
+  proposals: RescheduleTime[],
+  note?: string | null,
+): Promise<RescheduleRequestDocument> {
+  const invalid = validateCounterProposals(proposals);
+  if (invalid) throw new AppError(invalid, 400);
+
+  const request = await loadVendorRequest(requestId, vendorId);
+  const appointment = await loadRequestAppointment(request);
+  for (const proposal of proposals) {
+    try {
+      await checkRescheduleSlot(appointment, proposal);
+    } catch (err: any) {
+      throw new AppError(
+        `${toDateKey(proposal.appointmentDate)} ${proposal.startTime}: ${err.message}`,
+        err.statusCode || 409,
+      );
+    }
+  }
+
+  request.status = 'countered';
+  request.proposals = proposals.map(toSlot);
+  request.vendorNote = note || null;
+  request.respondedAt = new Date();
+  await request.save();
+  await notifyRescheduleStep('countered', request, note);
+  return request;
+}
+
+async function loadOpenRequest(appointmentId: string, customerId: string) {
+  const appointment = await Appointment.findById(appointmentId).select('customerId');
+  if (!appointment) throw new AppError('Appointment not found', 404);
+  if (String(appointment.customerId) !== String(customerId)) {
+    throw new AppError('Not authorized to update this appointment', 403);
+  }
+  const request = await RescheduleRequest.findOne({
+    appointmentId,
+    status: { $in: OPEN_RESCHEDULE_STATUSES },
+  });
+  if (!request) throw new AppError('No open reschedule request for this appointment', 404);
+  return request;
+}
+
+/**
+ * The customer's answer to a counter-proposal: the index of the time they
+ * pick, or null to keep the appointment where it is.
+ */
+export async function respondToCounterProposal(
+  appointmentId: string,
+  customerId: string,
+  proposalIndex: number | null,
+): Promise<{ request: RescheduleRequestDocument; appointment: AppointmentDocument | null }> {
+  const request = await loadOpenRequest(appointmentId, customerId);
+  if (request.status !== 'countered') {
+    throw new AppError('The provider has not suggested other times yet', 409);
+  }
+
+  if (proposalIndex === null) {
+    request.status = 'declined';
+    request.resolvedAt = new Date();
+    await request.save();
+    await notifyRescheduleStep('counter_declined', request);
+    return { request, appointment: null };
+  }
+
+  const proposal = request.proposals[proposalIndex];
+  if (!proposal) throw new AppError('Pick one of the suggested times', 400);
+  const appointment = await loadRequestAppointment(request);
+  const staff = await checkRescheduleSlot(appointment, proposal);
+  const moved = await moveAppointment(appointment, proposal, staff);
+
+  request.status = 'accepted';
+  request.movedTo = proposal;
+  request.resolvedAt = new Date();
+  await request.save();
+  await notifyRescheduleStep('counter_accepted', request);
+  return { request, appointment: moved };
+}
+
+export async function withdrawRescheduleRequest(
+  appointmentId: string,
+  customerId: string,
+): Promise<RescheduleRequestDocument> {
+  const request = await loadOpenRequest(appointmentId, customerId);
+  request.status = 'withdrawn';
+  request.resolvedAt = new Date();
+  await request.save();
+  await notifyRescheduleStep('withdrawn', request);
+  return request;
+}
@@ -6,7 +6,11 @@
 
 import Appointment from '../models/appointment.model';
 import VendorService from '../models/vendor-service.model';
-import { sendAppointmentReminderNotification } from './push-notification.service';
+import { sendAppointmentReminderNotification } from './notification-dispatcher.service';
+import { resolveAppointmentSchedule } from '../utils/vendor.util';
+import { awardPointsForAppointment } from './loyalty.service';
+import { captureBalance } from './deposit.service';
+import { changeAppointmentStatuses } from './appointment-status.service';
 import logger from '../config/logger';
 
 // Track last auto-complete run to avoid running too frequently
@@ -118,12 +122,15 @@ async function findAppointmentsForReminder(
   reminderField: 'reminder24hSentAt' | 'reminder1hSentAt',
 ): Promise<any[]> {
   try {
-    // Get date range for the query
+    // Get date range for the query. Calendar dates are stored as UTC midnight
+    // and vendors sit in different zones, so pad a day on each side.
     const startDate = new Date(startTime);
-    startDate.setHours(0, 0, 0, 0);
+    startDate.setUTCDate(startDate.getUTCDate() - 1);
+    startDate.setUTCHours(0, 0, 0, 0);
 
     const endDate = new Date(endTime);
-    endDate.setHours(23, 59, 59, 999);
+    endDate.setUTCDate(endDate.getUTCDate() + 1);
+    endDate.setUTCHours(23, 59, 59, 999);
 
     // Build query to find appointments that haven't received this reminder
     const query: any = {
@@ -140,22 +147,23 @@ async function findAppointmentsForReminder(
       .populate({
         path: 'vendorServiceId',
         populate: [
-          { path: 'vendorId', select: 'vendorName' },
+          { path: 'vendorId', select: 'vendorName timezone' },
           { path: 'serviceId', select: 'name' },
         ],
       })
       .lean();
 
-    // Filter by exact time window
-    return appointments.filter((apt) => {
-      if (!apt.startTime) return false;
-
-      const [hours, minutes] = apt.startTime.split(':').map(Number);
-      const aptDateTime = new Date(apt.appointmentDate);
-      aptDateTime.setHours(hours, minutes, 0, 0);
+    // Filter by exact time window, resolved in each vendor's timezone
+    const inWindow: any[] = [];
+    for (const apt of appointments) {
+      if (!apt.startTime) continue;
 
-      return aptDateTime >= startTime && aptDateTime <= endTime;
-    });
+      const { startAt } = await resolveAppointmentSchedule(apt as any);
+      if (startAt >= startTime && startAt <= endTime) {
+        inWindow.push(apt);
+      }
+    }
+    return inWindow;
   } catch (error: any) {
     logger.error(`Error finding appointments for reminder: ${error.message}`);
     return [];
@@ -196,6 +204,7 @@ async function sendReminderForAppointment(
       time: appointment.startTime,
       appointmentId: appointment._id.toString(),
       reminderType, // Include type so notification can be customized
+      startsAt: appointment.startAt,
     });
 
     if (result.success) {
@@ -232,64 +241,51 @@ export async function autoCompleteAppointments(): Promise<void> {
 
     logger.info('Running auto-complete check for past appointments...');
 
-    // Find confirmed appointments from past days (not today, to give buffer)
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
-    yesterday.setHours(23, 59, 59, 999);
-
-    // Find all confirmed appointments that ended before yesterday
-    const pastConfirmedAppointments = await Appointment.find({
-      appointmentDate: { $lte: yesterday },
-      status: 'confirmed',
-    }).lean();
-
-    // Also check for confirmed appointments from today where end time has passed
-    const todayStart = new Date(now);
-    todayStart.setHours(0, 0, 0, 0);
-
-    const todayEnd = new Date(now);
-    todayEnd.setHours(23, 59, 59, 999);
+    // Candidate confirmed appointments up to tomorrow's calendar date (UTC) —
+    // a vendor west of UTC can still be on "yesterday" locally.
+    const horizon = new Date(now);
+    horizon.setUTCDate(horizon.getUTCDate() + 1);
+    horizon.setUTCHours(23, 59, 59, 999);
 
-    const todayAppointments = await Appointment.find({
-      appointmentDate: { $gte: todayStart, $lte: todayEnd },
+    const candidateAppointments = await Appointment.find({
+      appointmentDate: { $lte: horizon },
       status: 'confirmed',
     }).lean();
 
-    // Filter today's appointments where end time has passed (with 30 min buffer)
+    // Complete those whose end time (in the vendor's timezone) has passed, with 30 min buffer
     const bufferMinutes = 30;
-    const currentTimeWithBuffer = new Date(now.getTime() - bufferMinutes * 60 * 1000);
-    const currentHour = currentTimeWithBuffer.getHours();
-    const currentMinute = currentTimeWithBuffer.getMinutes();
-    const currentTimeStr = `${currentHour.toString().padStart(2, '0')}:${currentMinute.toString().padStart(2, '0')}`;
-
-    const todayPastAppointments = todayAppointments.filter((apt) => {
-      if (!apt.endTime) return false;
-      return apt.endTime <= currentTimeStr;
-    });
+    const cutoff = new Date(now.getTime() - bufferMinutes * 60 * 1000);
 
-    // Combine all appointments to auto-complete
-    const appointmentsToComplete = [...pastConfirmedAppointments, ...todayPastAppointments];
+    const appointmentsToComplete: typeof candidateAppointments = [];
+    for (const apt of candidateAppointments) {
+      const { endAt } = await resolveAppointmentSchedule(apt as any);
+      if (endAt <= cutoff) {
+        appointmentsToComplete.push(apt);
+      }
+    }
 
     if (appointmentsToComplete.length === 0) {
       logger.info('No appointments to auto-complete');
       return;
     }
 
-    // Update all found appointments to completed
-    const appointmentIds = appointmentsToComplete.map((apt) => apt._id);
-
-    const result = await Appointment.updateMany(
-      { _id: { $in: appointmentIds } },
-      {
-        $set: {
-          status: 'completed',
-          completedAt: now,
-          statusChangedBy: 'auto',
-        },
-      },
-    );
+    // Skips any the vendor changed since they were loaded
+    const appointmentIds = await changeAppointmentStatuses(appointmentsToComplete, 'completed', {
+      actor: 'auto',
+    });
+
+    logger.info(`Auto-completed ${appointmentIds.length} appointments`);
 
-    logger.info(`Auto-completed ${result.modifiedCount} appointments`);
+    // Charge outstanding deposit balances, then award loyalty points for
+    // each newly completed appointment
+    for (const appointmentId of appointmentIds) {
+      await captureBalance(appointmentId).catch((err) =>
+        logger.error(`[Deposit] Balance capture failed for ${appointmentId}: ${err.message}`),
+      );
+      await awardPointsForAppointment(appointmentId).catch((err) =>
+        logger.error(`[Loyalty] Failed to award points for ${appointmentId}: ${err.message}`),
+      );
+    }
   } catch (error: any) {
     logger.error(`Error in auto-complete scheduler: ${error.message}`);
   }
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import logger from '../config/logger';
+
+/**
+ * Provider layer for SMS. `SMS_PROVIDER` picks one:
+ *   - log     (default) writes texts to the log; for development
+ *   - twilio  Twilio Programmable Messaging
+ *
+ * Each provider also owns its inbound webhook format: how to verify the
+ * request, read the sender and text, and shape the reply.
+ */
+
+export interface InboundSmsRequest {
+  url: string; // Full public URL the provider posted to
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, any>;
+}
+
+export interface InboundSms {
+  from: string;
+  text: string;
+  providerMessageId?: string;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, body: string): Promise<{ providerMessageId?: string }>;
+  verifyInbound(request: InboundSmsRequest): boolean;
+  parseInbound(body: Record<string, any>): InboundSms | null;
+  // Webhook response carrying an optional reply text
+  inboundReply(text: string | null): { contentType: string; body: string };
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+const header = (request: InboundSmsRequest, name: string) => {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const logProvider: SmsProvider = {
+  name: 'log',
+
+  async send(to, body) {
+    const providerMessageId = `log-${crypto.randomUUID()}`;
+    logger.info(`[SMS:log] to ${to}: ${body}`);
+    return { providerMessageId };
+  },
+
+  // Shared secret when configured; open outside production otherwise
+  verifyInbound(request) {
+    const secret = process.env.SMS_WEBHOOK_SECRET;
+    if (!secret) return process.env.NODE_ENV !== 'production';
+    return safeEqual(header(request, 'x-sms-webhook-secret') || '', secret);
+  },
+
+  parseInbound(body) {
+    if (!body?.from || typeof body.text !== 'string') return null;
+    return { from: String(body.from), text: body.text };
+  },
+
+  inboundReply(text) {
+    return { contentType: 'application/json', body: JSON.stringify({ reply: text }) };
+  },
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * X-Twilio-Signature: base64 HMAC-SHA1 over the URL followed by every POST
+ * parameter (sorted by name) as name+value.
+ */
+export function twilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, any>,
+): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + String(params[key] ?? ''), url);
+  return crypto.createHmac('sha1', authToken).update(payload, 'utf8').digest('base64');
+}
+
+const twilioProvider: SmsProvider = {
+  name: 'twilio',
+
+  async send(to, body) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    if (!accountSid || !authToken) throw new Error('Twilio credentials are not configured');
+
+    const form = new URLSearchParams({ To: to, Body: body });
+    if (process.env.TWILIO_MESSAGING_SERVICE_SID) {
+      form.set('MessagingServiceSid', process.env.TWILIO_MESSAGING_SERVICE_SID);
+    } else if (process.env.TWILIO_FROM_NUMBER) {
+      form.set('From', process.env.TWILIO_FROM_NUMBER);
+    } else {
+      throw new Error('TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID is required');
+    }
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form.toString(),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+    );
+    const result = (await response.json().catch(() => ({}))) as {
+      sid?: string;
+      message?: string;
+    };
+    if (!response.ok) {
+      throw new Error(`Twilio ${response.status}: ${result.message || response.statusText}`);
+    }
+    return { providerMessageId: result.sid };
+  },
+
+  verifyInbound(request) {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const signature = header(request, 'x-twilio-signature');
+    if (!authToken || !signature) return false;
+    return safeEqual(twilioSignature(authToken, request.url, request.body || {}), signature);
+  },
+
+  parseInbound(body) {
+    if (!body?.From || typeof body.Body !== 'string') return null;
+    return { from: String(body.From), text: body.Body, providerMessageId: body.MessageSid };
+  },
+
+  inboundReply(text) {
+    const message = text ? `<Message>${escapeXml(text)}</Message>` : '';
+    return {
+      contentType: 'text/xml',
+      body: `<?xml version="1.0" encoding="UTF-8"?><Response>${message}</Response>`,
+    };
+  },
+};
+
+const providers: Record<string, SmsProvider> = {
+  log: logProvider,
+  twilio: twilioProvider,
+};
+
+let override: SmsProvider | null = null;
+
+export function getSmsProvider(): SmsProvider {
+  if (override) return override;
+  const name = process.env.SMS_PROVIDER || 'log';
+  const provider = providers[name];
+  if (!provider) {
+    logger.warn(`[SMS] Unknown SMS_PROVIDER "${name}", using log`);
+    return logProvider;
+  }
+  return provider;
+}
+
+/**
+ * Replace the active provider (e.g. a fake in tests). Pass null to go back
+ * to `SMS_PROVIDER`. Returns the previous override.
+ */
+export function setSmsProvider(provider: SmsProvider | null): SmsProvider | null {
+  const previous = override;
+  override = provider;
+  return previous;
+}
@@ -0,0 +1,271 @@
+import type mongoose from 'mongoose';
+import logger from '../config/logger';
+import User from '../models/user.model';
+import SmsMessage from '../models/sms-message.model';
+import { logAuditEvent } from '../middlewares/audit.middleware';
+import { resolveTimezone } from '../utils/timezone.util';
+import {
+  SMS_HELP_REPLY,
+  SMS_START_REPLY,
+  SMS_STOP_REPLY,
+  formatSmsBody,
+  normalizePhoneNumber,
+  parseSmsKeyword,
+  phoneMatchPattern,
+  quietHoursEnd,
+  type SmsKeyword,
+} from '../utils/sms.util';
+import { getSmsProvider, type InboundSms } from './sms-providers.service';
+import type { ChannelSender } from './notification-dispatcher.service';
+
+/**
+ * SMS channel for the notification dispatcher.
+ *
+ * The dispatcher has already checked `smsConsent` and the per-type
+ * preference. Here we add quiet hours: texts that would land overnight in
+ * the recipient's zone wait in `sms_messages` until morning, unless they
+ * would be stale by then (a reminder for an appointment that has started).
+ * Consent is checked again before a held text goes out.
+ */
+
+const DEFERRED_SWEEP_MS = 5 * 60 * 1000;
+const DEFERRED_BATCH_SIZE = 100;
+
+async function deliverNow(
+  to: string,
+  body: string,
+  userId: mongoose.Types.ObjectId | string,
+  notificationType: string,
+) {
+  const provider = getSmsProvider();
+  try {
+    const { providerMessageId } = await provider.send(to, body);
+    await SmsMessage.create({
+      userId,
+      direction: 'outbound',
+      phone: to,
+      body,
+      status: 'sent',
+      notificationType,
+      provider: provider.name,
+      providerMessageId,
+      sentAt: new Date(),
+    });
+    return providerMessageId;
+  } catch (error: any) {
+    await SmsMessage.create({
+      userId,
+      direction: 'outbound',
+      phone: to,
+      body,
+      status: 'failed',
+      notificationType,
+      provider: provider.name,
+      error: error.message,
+    }).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Dispatcher sender for the `sms` channel.
+ */
+export const sendSmsNotification: ChannelSender = async (recipient, message) => {
+  const to = normalizePhoneNumber(recipient.phone);
+  if (!to) return { status: 'skipped', reason: 'invalid_phone' };
+
+  const body = formatSmsBody(message.sms || message.body);
+  const now = new Date();
+  const resumeAt = quietHoursEnd(now, resolveTimezone(recipient.timezone));
+
+  if (resumeAt) {
+    if (message.expiresAt && resumeAt >= message.expiresAt) {
+      return { status: 'skipped', reason: 'quiet_hours' };
+    }
+    const held = await SmsMessage.create({
+      userId: recipient._id,
+      direction: 'outbound',
+      phone: to,
+      body,
+      status: 'pending',
+      notificationType: message.type,
+      sendAfter: resumeAt,
+      expiresAt: message.expiresAt || null,
+    });
+    return { status: 'queued', reason: 'quiet_hours', providerMessageId: String(held._id) };
+  }
+
+  const providerMessageId = await deliverNow(to, body, recipient._id, message.type);
+  return { status: 'sent', providerMessageId };
+};
+
+/**
+ * Send held texts whose quiet hours are over. Each one is claimed before
+ * sending so overlapping sweeps can't double-send.
+ */
+export async function processDeferredSms(now: Date = new Date()): Promise<number> {
+  const due = await SmsMessage.find({ status: 'pending', sendAfter: { $lte: now } })
+    .select('_id')
+    .limit(DEFERRED_BATCH_SIZE)
+    .lean();
+
+  let sent = 0;
+  for (const { _id } of due) {
+    const sms = await SmsMessage.findOneAndUpdate(
+      { _id, status: 'pending' },
+      { status: 'sending' },
+      { new: true },
+    );
+    if (!sms) continue;
+
+    try {
+      const user = sms.userId
+        ? await User.findById(sms.userId).select('phone smsConsent timezone').lean()
+        : null;
+      const cancelReason = !user?.smsConsent
+        ? 'consent_revoked'
+        : normalizePhoneNumber(user.phone) !== sms.phone
+          ? 'phone_changed'
+          : sms.expiresAt && sms.expiresAt <= now
+            ? 'expired'
+            : null;
+      if (cancelReason) {
+        sms.status = 'cancelled';
+        sms.error = cancelReason;
+        await sms.save();
+        continue;
+      }
+
+      // Timezone may have changed since the text was held
+      const resumeAt = quietHoursEnd(now, resolveTimezone(user!.timezone));
+      if (resumeAt) {
+        sms.status = 'pending';
+        sms.sendAfter = resumeAt;
+        await sms.save();
+        continue;
+      }
+
+      const provider = getSmsProvider();
+      const { providerMessageId } = await provider.send(sms.phone, sms.body);
+      sms.status = 'sent';
+      sms.provider = provider.name;
+      sms.providerMessageId = providerMessageId;
+      sms.sentAt = new Date();
+      await sms.save();
+      sent++;
+    } catch (error: any) {
+      logger.error(`[SMS] Deferred text ${sms._id} failed: ${error.message}`);
+      sms.status = 'failed';
+      sms.error = error.message;
+      await sms.save().catch(() => undefined);
+    }
+  }
+  return sent;
+}
+
+export function startSmsScheduler(): void {
+  setInterval(() => {
+    processDeferredSms().catch((error) =>
+      logger.error(`[SMS] Deferred sweep failed: ${error.message}`),
+    );
+  }, DEFERRED_SWEEP_MS);
+  logger.info('[SMS] Deferred text sweep started (every 5 min)');
+}
+
+const AUDIT_ACTIONS: Record<SmsKeyword, string> = {
+  stop: 'SMS_OPT_OUT',
+  start: 'SMS_OPT_IN',
+  help: 'SMS_HELP',
+};
+
+const REPLIES: Record<SmsKeyword, string> = {
+  stop: SMS_STOP_REPLY,
+  start: SMS_START_REPLY,
+  help: SMS_HELP_REPLY,
+};
+
+export interface InboundSmsResult {
+  keyword: SmsKeyword | null;
+  reply: string | null;
+  users: number;
+}
+
+/**
+ * Act on an inbound text. STOP revokes consent for every account on that
+ * number and cancels held texts; START restores consent only for accounts
+ * that opted out by text; HELP just replies. Each keyword is audited.
+ */
+export async function handleInboundSms(
+  inbound: InboundSms,
+  providerName: string,
+  now: Date = new Date(),
+): Promise<InboundSmsResult> {
+  const phone = normalizePhoneNumber(inbound.from) || inbound.from;
+  const keyword = parseSmsKeyword(inbound.text);
+
+  await SmsMessage.create({
+    direction: 'inbound',
+    phone,
+    body: inbound.text,
+    status: 'received',
+    keyword,
+    provider: providerName,
+    providerMessageId: inbound.providerMessageId,
+  });
+  if (!keyword) return { keyword, reply: null, users: 0 };
+
+  const pattern = phoneMatchPattern(phone);
+  const users = pattern
+    ? await User.find({ phone: { $regex: pattern } }).select(
+        '_id email phone smsConsent smsOptedOutAt',
+      )
+    : [];
+
+  let affected = users;
+  if (keyword === 'stop') {
+    affected = users.filter((user) => user.smsConsent);
+    for (const user of affected) {
+      user.smsConsent = false;
+      user.smsOptedOutAt = now;
+      await user.save();
+    }
+    await SmsMessage.updateMany(
+      { phone, direction: 'outbound', status: 'pending' },
+      { status: 'cancelled', error: 'consent_revoked' },
+    );
+  } else if (keyword === 'start') {
+    affected = users.filter((user) => !user.smsConsent && user.smsOptedOutAt);
+    for (const user of affected) {
+      user.smsConsent = true;
+      user.smsConsentAt = now;
+      user.smsConsentMethod = 'sms_keyword';
+      user.smsOptedOutAt = null;
+      await user.save();
+    }
+  }
+
+  // Audit even when no account matches: the number itself opted out
+  const targets = affected.length > 0 ? affected : [null];
+  for (const user of targets) {
+    await logAuditEvent(AUDIT_ACTIONS[keyword], 'user', {
+      userId: user ? String(user._id) : undefined,
+      userEmail: user?.email,
+      resourceId: user ? String(user._id) : undefined,
+      metadata: {
+        phone,
+        keyword,
+        text: inbound.text,
+        provider: providerName,
+        providerMessageId: inbound.providerMessageId,
+      },
+    });
+  }
+
+  logger.info(`[SMS] ${keyword.toUpperCase()} from ${phone} (${affected.length} account(s))`);
+  return {
+    keyword,
+    // START for a number we never opted out gets no reply
+    reply: keyword === 'start' && affected.length === 0 ? null : REPLIES[keyword],
+    users: affected.length,
+  };
+}
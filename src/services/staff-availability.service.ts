@@ -0,0 +1,183 @@
+import mongoose from 'mongoose';
+import Appointment from '../models/appointment.model';
+import Staff from '../models/staff.model';
+import VendorService from '../models/vendor-service.model';
+import { getFreeStaff, isStaffFree, pickStaffMember } from './get-slots.service';
+import { toDateKey } from '../utils/timezone.util';
+import type {
+  Appointment as SlotAppointment,
+  StaffContext,
+} from '../interfaces/common.interface';
+
+export interface StaffAssignment {
+  staffId: string | null;
+  autoAssigned: boolean;
+  // Set when the booking can't go ahead
+  error?: string;
+}
+
+/**
+ * Active staff who can deliver a vendor service (empty serviceIds = all
+ * of the vendor's services).
+ */
+export async function findEligibleStaff(vendorServiceId: string) {
+  if (!mongoose.isValidObjectId(vendorServiceId)) return [];
+  const vendorService = await VendorService.findById(vendorServiceId).select('vendorId').lean();
+  if (!vendorService) return [];
+
+  return Staff.find({
+    vendorId: vendorService.vendorId,
+    isActive: true,
+    $or: [
+      { serviceIds: { $size: 0 } },
+      { serviceIds: { $exists: false } },
+      { serviceIds: new mongoose.Types.ObjectId(vendorServiceId) },
+    ],
+  })
+    .select('name workingHours')
+    .sort({ name: 1 })
+    .lean();
+}
+
+const addBooking = (
+  byDate: Record<string, SlotAppointment[]>,
+  booking: { appointmentDate: Date; startTime: string; endTime: string },
+) => {
+  const dateStr = toDateKey(booking.appointmentDate);
+  const entries = (byDate[dateStr] ||= []);
+  const existing = entries.find(
+    (e) => e.start_time === booking.startTime && e.end_time === booking.endTime,
+  );
+  if (existing) existing.appointments += 1;
+  else entries.push({ start_time: booking.startTime, end_time: booking.endTime, appointments: 1 });
+};
+
+/**
+ * Staff availability for slot generation between two vendor calendar dates
+ * (stored as UTC midnight). Undefined when no staff deliver the service, so
+ * solo vendors keep the plain `reoccurrence` capacity. A rescheduled
+ * appointment passes its own id so it doesn't keep its staff member busy.
+ */
+export async function loadStaffContext(
+  vendorServiceId: string,
+  startDate: Date,
+  endDate: Date,
+  excludeAppointmentId?: string,
+): Promise<StaffContext | undefined> {
+  const staff = await findEligibleStaff(vendorServiceId);
+  if (staff.length === 0) return undefined;
+
+  const staffIds = staff.map((member) => member._id);
+  // A member's bookings on any of the vendor's services keep them busy
+  const bookings = await Appointment.find({
+    appointmentDate: { $gte: startDate, $lte: endDate },
+    status: { $nin: ['cancelled', 'rejected'] },
+    ...(excludeAppointmentId ? { _id: { $ne: excludeAppointmentId } } : {}),
+    $or: [
+      { staffId: { $in: staffIds } },
+      { vendorServiceId: new mongoose.Types.ObjectId(vendorServiceId), staffId: null },
+    ],
+  })
+    .select('staffId appointmentDate startTime endTime')
+    .lean();
+
+  const context: StaffContext = {
+    members: staff.map((member) => ({
+      staffId: String(member._id),
+      name: member.name,
+      workingHours: member.workingHours || [],
+      bookings: {},
+    })),
+    unassigned: {},
+  };
+  const byId = new Map(context.members.map((member) => [member.staffId, member]));
+  for (const booking of bookings) {
+    const member = booking.staffId ? byId.get(String(booking.staffId)) : undefined;
+    addBooking(member ? member.bookings : context.unassigned, booking);
+  }
+  return context;
+}
+
+/**
+ * Staff for a new booking. A requested member must be eligible and free;
+ * "no preference" auto-assigns the least-loaded free member, round-robin
+ * on ties. Vendors without staff get `staffId: null`.
+ */
+export async function resolveBookingStaff(booking: {
+  vendorServiceId: string;
+  appointmentDate: Date | string;
+  startTime: string;
+  endTime: string;
+  staffId?: string | null;
+  // Reschedules: the appointment being moved doesn't collide with itself
+  excludeAppointmentId?: string;
+}): Promise<StaffAssignment> {
+  const dateStr = toDateKey(booking.appointmentDate);
+  const day = new Date(`${dateStr}T00:00:00.000Z`);
+  const context = await loadStaffContext(
+    booking.vendorServiceId,
+    day,
+    day,
+    booking.excludeAppointmentId,
+  );
+
+  const ineligible: StaffAssignment = {
+    staffId: null,
+    autoAssigned: false,
+    error: 'This staff member cannot deliver this service',
+  };
+  if (!context) {
+    return booking.staffId ? ineligible : { staffId: null, autoAssigned: false };
+  }
+
+  if (booking.staffId) {
+    const member = context.members.find((m) => m.staffId === String(booking.staffId));
+    if (!member) return ineligible;
+    if (!isStaffFree(member, dateStr, booking.startTime, booking.endTime)) {
+      return {
+        staffId: null,
+        autoAssigned: false,
+        error: `${member.name} is not available at this time. Please pick another slot or staff member.`,
+      };
+    }
+    return { staffId: member.staffId, autoAssigned: false };
+  }
+
+  const { staff: free, capacity } = getFreeStaff(
+    context,
+    dateStr,
+    booking.startTime,
+    booking.endTime,
+  );
+  if (capacity <= 0) {
+    return {
+      staffId: null,
+      autoAssigned: false,
+      error: 'No staff are available at this time. Please select a different time.',
+    };
+  }
+
+  const lastAssigned = await Appointment.aggregate<{ _id: mongoose.Types.ObjectId; last: Date }>(
+    [
+      {
+        $match: { staffId: { $in: free.map((m) => new mongoose.Types.ObjectId(m.staffId)) } },
+      },
+      { $group: { _id: '$staffId', last: { $max: '$createdAt' } } },
+    ],
+  );
+  const lastById = new Map(lastAssigned.map((row) => [String(row._id), row.last]));
+  const dayLoad = (staffId: string) =>
+    (context.members.find((m) => m.staffId === staffId)?.bookings[dateStr] || []).reduce(
+      (count, b) => count + b.appointments,
+      0,
+    );
+
+  const staffId = pickStaffMember(
+    free.map((member) => ({
+      staffId: member.staffId,
+      dayLoad: dayLoad(member.staffId),
+      lastAssignedAt: lastById.get(member.staffId) || null,
+    })),
+  );
+  return { staffId, autoAssigned: true };
+}
@@ -135,11 +135,43 @@ export class StripeConnectService {
     }
   }
 
+  /**
+   * Ids of the platform transfers paid out by a connected account's payout.
+   * Each transfer lands on the account as a payment whose source_transfer
+   * points back to it.
+   */
+  static async listPayoutTransferIds(
+    stripeConnectAccountId: string,
+    payoutId: string,
+  ): Promise<string[]> {
+    const transferIds: string[] = [];
+    await stripe.balanceTransactions
+      .list(
+        { payout: payoutId, type: 'payment', limit: 100, expand: ['data.source'] },
+        { stripeAccount: stripeConnectAccountId },
+      )
+      .autoPagingEach((transaction) => {
+        const source = transaction.source as Stripe.Charge | null;
+        const transfer = source?.source_transfer;
+        if (transfer) transferIds.push(typeof transfer === 'string' ? transfer : transfer.id);
+      });
+    return transferIds;
+  }
+
   /**
    * Reverse a transfer — used when refunding a customer that already had funds
    * sent to the vendor. The amount is pulled back from the vendor's balance.
+   * Retries with the same `idempotencyKey` get the original reversal back.
    */
-  static async reverseTransfer(transferId: string, amount?: number): Promise<Stripe.TransferReversal> {
-    return stripe.transfers.createReversal(transferId, amount ? { amount } : undefined);
+  static async reverseTransfer(
+    transferId: string,
+    amount?: number,
+    idempotencyKey?: string,
+  ): Promise<Stripe.TransferReversal> {
+    return stripe.transfers.createReversal(
+      transferId,
+      amount ? { amount } : undefined,
+      idempotencyKey ? { idempotencyKey: `trr_${idempotencyKey}` } : undefined,
+    );
   }
 }
@@ -0,0 +1,363 @@
+/**
+ * Stripe Webhooks
+ *
+ * Keeps our records in step with what happens on Stripe after the request
+ * that started it:
+ *   - payment_intent.*   release the slot lock
+ *   - charge.refunded / refund updates   appointment refund status and amount,
+ *                        including refunds issued from the Stripe dashboard
+ *   - charge.dispute.*   disputes (services/dispute.service)
+ *   - account.updated    vendor Connect capability flags
+ *   - transfer.*         vendor payout transfer state
+ *   - payout.*           vendor payout paid / failed (Connect endpoint)
+ *
+ * Every event id is recorded in `stripe_events` first, so redelivered and
+ * replayed events are acknowledged without being applied twice.
+ */
+
+import type Stripe from 'stripe';
+import logger from '../config/logger';
+import Appointment from '../models/appointment.model';
+import SlotLock from '../models/slot-lock.model';
+import StripeEvent from '../models/stripe-event.model';
+import Vendor from '../models/vendor.model';
+import VendorPayout from '../models/vendor-payout.model';
+import { amountPaid, paymentPartsOf } from '../utils/deposit.util';
+import {
+  connectAccountFlags,
+  paymentStatusAfterRefund,
+  payoutRecordStatus,
+  toAppointmentRefundStatus,
+} from '../utils/stripe-webhook.util';
+import { syncDispute } from './dispute.service';
+import { clawbackPointsForAppointment } from './loyalty.service';
+import StripeService from './stripe.service';
+import { StripeConnectService } from './stripe-connect.service';
+import { emitAppointmentEvent } from './vendor-webhook.service';
+
+// A claim older than this is assumed to belong to a crashed request
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const idOf = (value: string | { id: string } | null | undefined): string | null =>
+  !value ? null : typeof value === 'string' ? value : value.id;
+
+const findAppointmentByPaymentIntent = (paymentIntentId: string) =>
+  Appointment.findOne({
+    $or: [{ paymentIntentId }, { balancePaymentIntentId: paymentIntentId }],
+  });
+
+async function releaseSlotLock(paymentIntentId: string, reason: string): Promise<void> {
+  try {
+    const deletedLock = await SlotLock.findOneAndDelete({ paymentIntentId });
+    if (deletedLock) {
+      logger.info(`Slot lock released (${reason}) for payment intent: ${paymentIntentId}`);
+    }
+  } catch (lockError: any) {
+    logger.error(`Error releasing slot lock: ${lockError.message}`);
+  }
+}
+
+/**
+ * A charge was refunded, by us or from the dashboard. Stripe's refunded
+ * total is authoritative; for deposit bookings the other charge is added.
+ * Loyalty points earned on the refunded share are reversed.
+ */
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId = idOf(charge.payment_intent);
+  if (!paymentIntentId) return;
+  const appointment = await findAppointmentByPaymentIntent(paymentIntentId);
+  if (!appointment) {
+    logger.info(`[StripeWebhook] Refund on ${paymentIntentId} has no appointment`);
+    return;
+  }
+
+  const parts = paymentPartsOf(appointment);
+  let refunded = charge.amount_refunded / 100;
+  const otherIntentId =
+    paymentIntentId === parts.depositIntentId ? parts.balanceIntentId : parts.depositIntentId;
+  if (otherIntentId && otherIntentId !== paymentIntentId) {
+    refunded += await StripeService.getRefundedAmount(otherIntentId);
+  }
+  refunded = Math.round(refunded * 100) / 100;
+
+  const previous = appointment.refundAmount || 0;
+  appointment.refundAmount = refunded;
+  const paymentStatus = paymentStatusAfterRefund(amountPaid(parts), refunded);
+  if (paymentStatus) appointment.paymentStatus = paymentStatus;
+
+  const latest = charge.refunds?.data?.[0];
+  if (latest) {
+    appointment.refundStatus = toAppointmentRefundStatus(latest.status);
+    if (paymentIntentId === parts.balanceIntentId) appointment.balanceRefundId = latest.id;
+    else if (!appointment.refundId) appointment.refundId = latest.id;
+  } else if (!appointment.refundStatus || appointment.refundStatus === 'pending') {
+    appointment.refundStatus = 'succeeded';
+  }
+  await appointment.save();
+
+  logger.info(
+    `[StripeWebhook] Appointment ${appointment._id} refunded $${refunded.toFixed(2)} (${appointment.paymentStatus})`,
+  );
+  // Refunds we issued ourselves were already announced
+  if (refunded > previous) await emitAppointmentEvent('appointment.refunded', appointment);
+
+  // Every refund path ends here; the clawback only reverses what's still owed
+  await clawbackPointsForAppointment(String(appointment._id)).catch((err) =>
+    logger.error(`[Loyalty] Clawback failed for appointment ${appointment._id}: ${err.message}`),
+  );
+}
+
+/**
+ * A refund moved on (pending → succeeded, or failed / canceled).
+ */
+async function handleRefundUpdated(refund: Stripe.Refund): Promise<void> {
+  const paymentIntentId = idOf(refund.payment_intent);
+  if (!paymentIntentId) return;
+  const appointment = await findAppointmentByPaymentIntent(paymentIntentId);
+  if (!appointment) return;
+
+  const status = toAppointmentRefundStatus(refund.status);
+  appointment.refundStatus = status;
+  if (status === 'failed' || status === 'cancelled') {
+    logger.warn(
+      `[StripeWebhook] Refund ${refund.id} on appointment ${appointment._id} ${refund.status}: ${refund.failure_reason || 'no reason given'}`,
+    );
+    // The money stayed with us; the charge's refunded total drops with it
+    const remaining = Math.max(0, (appointment.refundAmount || 0) - refund.amount / 100);
+    appointment.refundAmount = Math.round(remaining * 100) / 100;
+    appointment.paymentStatus =
+      paymentStatusAfterRefund(amountPaid(paymentPartsOf(appointment)), remaining) ||
+      (appointment.paymentPlan === 'deposit' && !appointment.balancePaid
+        ? 'deposit_paid'
+        : 'completed');
+  }
+  await appointment.save();
+}
+
+async function handleAccountUpdated(account: Stripe.Account): Promise<void> {
+  const flags = connectAccountFlags(account);
+  const result = await Vendor.updateOne({ stripeConnectAccountId: account.id }, { $set: flags });
+  if (result.matchedCount === 0) {
+    logger.info(`[StripeWebhook] account.updated for unknown account ${account.id}`);
+    return;
+  }
+  logger.info(
+    `[StripeWebhook] Connect account ${account.id}: charges=${flags.stripeChargesEnabled} payouts=${flags.stripePayoutsEnabled}`,
+  );
+}
+
+async function handleTransfer(transfer: Stripe.Transfer, type: string): Promise<void> {
+  // The transfer id is saved after the API call returns, so the webhook can
+  // arrive first; the payout id in the metadata covers that window
+  const payout = await VendorPayout.findOne(
+    transfer.metadata?.payoutId
+      ? { $or: [{ stripeTransferId: transfer.id }, { _id: transfer.metadata.payoutId }] }
+      : { stripeTransferId: transfer.id },
+  );
+  if (!payout) {
+    logger.info(`[StripeWebhook] ${type} for untracked transfer ${transfer.id}`);
+    return;
+  }
+
+  if (!payout.stripeTransferId) payout.stripeTransferId = transfer.id;
+  if (transfer.reversed || (transfer.amount_reversed > 0 && type === 'transfer.reversed')) {
+    if (transfer.amount_reversed >= transfer.amount) {
+      payout.status = 'reversed';
+      payout.failureReason = 'Transfer reversed';
+    } else {
+      logger.warn(
+        `[StripeWebhook] Transfer ${transfer.id} partially reversed (${transfer.amount_reversed}/${transfer.amount})`,
+      );
+    }
+  } else if (payout.status === 'pending') {
+    payout.status = 'in_transit';
+    payout.transferredAt = payout.transferredAt || new Date(transfer.created * 1000);
+  }
+  await payout.save();
+}
+
+/**
+ * Payouts move money from a vendor's Stripe balance to their bank and can
+ * carry many transfers. Link the transfers first, then settle them.
+ */
+async function handlePayout(payout: Stripe.Payout, account: string | undefined, type: string) {
+  if (!account) return; // The platform's own payouts
+  const vendor = await Vendor.findOne({ stripeConnectAccountId: account }).select('_id').lean();
+  if (!vendor) {
+    logger.info(`[StripeWebhook] ${type} for unknown account ${account}`);
+    return;
+  }
+
+  if (type === 'payout.canceled') {
+    await VendorPayout.updateMany(
+      { vendorId: vendor._id, stripePayoutId: payout.id },
+      { $unset: { stripePayoutId: 1 } },
+    );
+    return;
+  }
+
+  let transferIds: string[] | null = null;
+  try {
+    transferIds = await StripeConnectService.listPayoutTransferIds(account, payout.id);
+  } catch (err: any) {
+    // Manual payouts can't be listed by payout; fall back to what was in transit when it was made
+    logger.warn(`[StripeWebhook] Could not list transfers for payout ${payout.id}: ${err.message}`);
+  }
+  await VendorPayout.updateMany(
+    transferIds
+      ? { vendorId: vendor._id, stripeTransferId: { $in: transferIds } }
+      : {
+          vendorId: vendor._id,
+          status: 'in_transit',
+          stripePayoutId: null,
+          transferredAt: { $lte: new Date(payout.created * 1000) },
+        },
+    { $set: { stripePayoutId: payout.id } },
+  );
+
+  const status = payoutRecordStatus(payout.status);
+  if (status === 'paid') {
+    await VendorPayout.updateMany(
+      {
+        vendorId: vendor._id,
+        stripePayoutId: payout.id,
+        status: { $in: ['in_transit', 'failed'] },
+      },
+      {
+        $set: { status: 'paid', paidAt: new Date(payout.arrival_date * 1000) },
+        $unset: { failureReason: 1, failedAt: 1 },
+      },
+    );
+  } else if (status === 'failed') {
+    await VendorPayout.updateMany(
+      { vendorId: vendor._id, stripePayoutId: payout.id, status: 'in_transit' },
+      {
+        $set: {
+          status: 'failed',
+          failureReason: payout.failure_message || payout.failure_code || 'Payout failed',
+          failedAt: new Date(),
+        },
+      },
+    );
+    logger.warn(
+      `[StripeWebhook] Payout ${payout.id} to vendor ${vendor._id} failed: ${payout.failure_code}`,
+    );
+  }
+}
+
+/**
+ * Apply one event. Throws when it should be retried.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      logger.info(`Payment successful for session: ${session.id}`);
+      break;
+    }
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      logger.info(`Payment for ${paymentIntent.amount} succeeded!`);
+      await releaseSlotLock(paymentIntent.id, 'payment succeeded');
+      break;
+    }
+    case 'payment_intent.payment_failed': {
+      const failedPayment = event.data.object as Stripe.PaymentIntent;
+      logger.error(`Payment for ${failedPayment.amount} failed!`);
+      // So another user can book
+      await releaseSlotLock(failedPayment.id, 'payment failed');
+      break;
+    }
+    case 'payment_intent.canceled': {
+      const canceledPayment = event.data.object as Stripe.PaymentIntent;
+      logger.info(`Payment intent canceled: ${canceledPayment.id}`);
+      await releaseSlotLock(canceledPayment.id, 'payment canceled');
+      break;
+    }
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+    case 'charge.refund.updated':
+    case 'refund.updated':
+    case 'refund.failed':
+      await handleRefundUpdated(event.data.object as Stripe.Refund);
+      break;
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+    case 'charge.dispute.funds_withdrawn':
+    case 'charge.dispute.funds_reinstated':
+      await syncDispute(event.data.object as Stripe.Dispute, event.type);
+      break;
+    case 'account.updated':
+      await handleAccountUpdated(event.data.object as Stripe.Account);
+      break;
+    case 'transfer.created':
+    case 'transfer.updated':
+    case 'transfer.reversed':
+      await handleTransfer(event.data.object as Stripe.Transfer, event.type);
+      break;
+    case 'payout.created':
+    case 'payout.updated':
+    case 'payout.paid':
+    case 'payout.failed':
+    case 'payout.canceled':
+      await handlePayout(event.data.object as Stripe.Payout, event.account, event.type);
+      break;
+    default:
+      logger.info(`Unhandled event type ${event.type}`);
+  }
+}
+
+/**
+ * Record the event id before processing. False when it was already
+ * processed or another request is processing it now.
+ */
+async function claimEvent(event: Stripe.Event): Promise<boolean> {
+  try {
+    await StripeEvent.create({ eventId: event.id, type: event.type, account: event.account });
+    return true;
+  } catch (err: any) {
+    if (err.code !== 11000) throw err;
+  }
+  // Seen before: take it again only if the earlier attempt failed or stalled
+  const reclaimed = await StripeEvent.findOneAndUpdate(
+    {
+      eventId: event.id,
+      $or: [
+        { status: 'failed' },
+        { status: 'processing', updatedAt: { $lt: new Date(Date.now() - STALE_CLAIM_MS) } },
+      ],
+    },
+    { $set: { status: 'processing', error: null }, $inc: { attempts: 1 } },
+  );
+  return !!reclaimed;
+}
+
+/**
+ * Process a verified event at most once. Throws (after recording the
+ * failure) so the webhook answers non-2xx and Stripe retries.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<'processed' | 'duplicate'> {
+  if (!(await claimEvent(event))) {
+    logger.info(`[StripeWebhook] Skipping duplicate event ${event.id} (${event.type})`);
+    return 'duplicate';
+  }
+
+  try {
+    await processStripeEvent(event);
+  } catch (err: any) {
+    await StripeEvent.updateOne(
+      { eventId: event.id },
+      { $set: { status: 'failed', error: err.message } },
+    );
+    logger.error(`[StripeWebhook] ${event.type} ${event.id} failed: ${err.message}`);
+    throw err;
+  }
+
+  await StripeEvent.updateOne(
+    { eventId: event.id },
+    { $set: { status: 'processed', processedAt: new Date() } },
+  );
+  return 'processed';
+}
@@ -9,6 +9,8 @@ export interface PaymentIntentData {
   customerId?: string;
   metadata?: Record<string, string>;
   idempotencyKey?: string;
+  // Save the card for later off-session charges (deposit balances)
+  setupFutureUsage?: 'off_session';
 }
 
 export interface CustomerData {
@@ -30,6 +32,7 @@ export class StripeService {
           currency: data.currency || 'usd',
           customer: data.customerId,
           metadata: data.metadata || {},
+          ...(data.setupFutureUsage ? { setup_future_usage: data.setupFutureUsage } : {}),
           automatic_payment_methods: {
             enabled: true,
           },
@@ -95,6 +98,25 @@ export class StripeService {
     return stripe.paymentIntents.update(paymentIntentId, params);
   }
 
+  /**
+   * Cancel a PaymentIntent that was never confirmed (e.g. the booking it
+   * was created for lost its slot).
+   */
+  static async cancelPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    return stripe.paymentIntents.cancel(paymentIntentId);
+  }
+
+  /**
+   * Amount refunded so far on a PaymentIntent's charge, in dollars.
+   */
+  static async getRefundedAmount(paymentIntentId: string): Promise<number> {
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, {
+      expand: ['latest_charge'],
+    });
+    const charge = paymentIntent.latest_charge as Stripe.Charge | null;
+    return charge?.amount_refunded ? charge.amount_refunded / 100 : 0;
+  }
+
   static async refundPayment(paymentIntentId: string, amount?: number): Promise<Stripe.Refund> {
     try {
       const refund = await stripe.refunds.create({
@@ -110,21 +132,57 @@ export class StripeService {
     }
   }
 
+  /**
+   * Send dispute evidence. With `submit: false` Stripe stores it as a draft.
+   */
+  static async updateDispute(
+    disputeId: string,
+    evidence: Stripe.DisputeUpdateParams.Evidence,
+    submit: boolean,
+  ): Promise<Stripe.Dispute> {
+    try {
+      return await stripe.disputes.update(disputeId, { evidence, submit });
+    } catch (error: any) {
+      logger.error(`Error updating dispute ${disputeId}: ${error.message}`);
+      throw new Error(`Failed to update dispute: ${error.message}`);
+    }
+  }
+
+  /**
+   * Accept a dispute. Irreversible — the customer keeps the money.
+   */
+  static async closeDispute(disputeId: string): Promise<Stripe.Dispute> {
+    try {
+      return await stripe.disputes.close(disputeId);
+    } catch (error: any) {
+      logger.error(`Error closing dispute ${disputeId}: ${error.message}`);
+      throw new Error(`Failed to close dispute: ${error.message}`);
+    }
+  }
+
+  /**
+   * Verify and parse a webhook. Connect events (accounts, their payouts) come
+   * from a separate endpoint signed with STRIPE_CONNECT_WEBHOOK_SECRET when
+   * one is configured.
+   */
   static async constructWebhookEvent(
     payload: string | Buffer,
     signature: string,
   ): Promise<Stripe.Event> {
-    try {
-      const event = stripe.webhooks.constructEvent(
-        payload,
-        signature,
-        process.env.STRIPE_WEBHOOK_SECRET!,
-      );
-      return event;
-    } catch (error: any) {
-      logger.error(`Webhook signature verification failed: ${error.message}`);
-      throw new Error(`Webhook signature verification failed: ${error.message}`);
+    const secrets = [
+      process.env.STRIPE_WEBHOOK_SECRET!,
+      process.env.STRIPE_CONNECT_WEBHOOK_SECRET,
+    ].filter(Boolean) as string[];
+    let lastError: any = new Error('No webhook secret configured');
+    for (const secret of secrets) {
+      try {
+        return stripe.webhooks.constructEvent(payload, signature, secret);
+      } catch (error: any) {
+        lastError = error;
+      }
     }
+    logger.error(`Webhook signature verification failed: ${lastError.message}`);
+    throw new Error(`Webhook signature verification failed: ${lastError.message}`);
   }
 
   static async confirmPaymentWithPaymentMethod(
@@ -220,6 +278,48 @@ export class StripeService {
     });
   }
 
+  /**
+   * Charge a customer's saved card without them present (no-show fees,
+   * balances). Uses the first saved card unless one is given. Throws if the
+   * customer has no card or the charge needs authentication.
+   */
+  static async chargeSavedPaymentMethod(data: {
+    customerId: string;
+    amount: number; // in dollars
+    paymentMethodId?: string;
+    metadata?: Record<string, string>;
+    idempotencyKey?: string;
+  }): Promise<Stripe.PaymentIntent> {
+    try {
+      let paymentMethodId = data.paymentMethodId;
+      if (!paymentMethodId) {
+        const [card] = await StripeService.listPaymentMethods(data.customerId);
+        if (!card) throw new Error('Customer has no saved card');
+        paymentMethodId = card.id;
+      }
+
+      const paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: Math.round(data.amount * 100),
+          currency: 'usd',
+          customer: data.customerId,
+          payment_method: paymentMethodId,
+          off_session: true,
+          confirm: true,
+          metadata: data.metadata || {},
+        },
+        data.idempotencyKey ? { idempotencyKey: data.idempotencyKey } : {},
+      );
+
+      logger.info(`Off-session charge created: ${paymentIntent.id} (${paymentIntent.status})`);
+      return paymentIntent;
+    } catch (error: any) {
+      logger.error(`Error charging saved payment method: ${error.message}`);
+      // `cause` keeps the Stripe error type (declined vs. network) for callers that retry
+      throw new Error(`Failed to charge saved payment method: ${error.message}`, { cause: error });
+    }
+  }
+
   static async attachPaymentMethod(customerId: string, paymentMethodId: string) {
     const paymentMethod = await stripe.paymentMethods.attach(paymentMethodId, {
       customer: customerId,
@@ -3,7 +3,12 @@ import VendorPayout from '../models/vendor-payout.model';
 import Vendor from '../models/vendor.model';
 import VendorService from '../models/vendor-service.model';
 import Appointment from '../models/appointment.model';
+import Dispute from '../models/dispute.model';
 import { StripeConnectService } from './stripe-connect.service';
+import { allocateCents } from '../utils/deposit.util';
+import { isDisputeClosed } from '../utils/stripe-webhook.util';
+
+type PaymentPart = 'full' | 'deposit' | 'balance';
 
 /**
  * Record (and optionally execute) a vendor payout for a paid appointment.
@@ -14,7 +19,12 @@ import { StripeConnectService } from './stripe-connect.service';
  *   - taxAmount    → sales tax (collected, not paid to vendor)
  *   - netAmount    → gross - platformFee → wired to vendor
  *
- * Returns the created payout document (status='pending').
+ * Deposit bookings are paid through two PaymentIntents, so they get one
+ * payout per part, prorated by the deposit's share of the total. The balance
+ * payout is recorded once the balance is captured. Safe to call again —
+ * parts that already have a payout are skipped.
+ *
+ * Payouts are created with status='pending'.
  * The actual Stripe Transfer happens via the webhook queue / cron.
  */
 export async function recordPayoutForAppointment(
@@ -26,9 +36,20 @@ export async function recordPayoutForAppointment(
     return;
   }
 
-  // Avoid creating duplicate payouts for the same appointment
-  const existing = await VendorPayout.findOne({ appointmentId });
-  if (existing) {
+  const isDeposit = appointment.paymentPlan === 'deposit';
+  const parts: { part: PaymentPart; paymentIntentId?: string }[] = isDeposit
+    ? [{ part: 'deposit', paymentIntentId: appointment.paymentIntentId }]
+    : [{ part: 'full', paymentIntentId: appointment.paymentIntentId }];
+  if (isDeposit && appointment.balanceStatus === 'paid') {
+    parts.push({ part: 'balance', paymentIntentId: appointment.balancePaymentIntentId });
+  }
+
+  // Avoid creating duplicate payouts for the same appointment (payouts
+  // recorded before split payments existed have no paymentPart)
+  const existing = await VendorPayout.find({ appointmentId }).select('paymentPart').lean();
+  const recorded = new Set(existing.map((p) => p.paymentPart || 'full'));
+  const pending = parts.filter(({ part }) => !recorded.has(part));
+  if (pending.length === 0) {
     logger.info(`[VendorPayout] Payout already exists for appointment ${appointmentId}`);
     return;
   }
@@ -49,29 +70,46 @@ export async function recordPayoutForAppointment(
   }
 
   // Amounts in cents (matches Stripe convention)
-  const grossAmount = Math.round((appointment.serviceFee || 0) * 100);
-  const tipAmount = Math.round((appointment as any).tipAmount * 100 || 0);
-  const taxAmount = Math.round((appointment as any).taxAmount * 100 || 0);
+  const serviceCents = Math.round((appointment.serviceFee || 0) * 100);
+  const tipCents = Math.round((appointment as any).tipAmount * 100 || 0);
+  const taxCents = Math.round((appointment as any).taxAmount * 100 || 0);
   const commissionRate = (vendor as any).commissionRate || 10;
-  // Commission only on service fee, NOT on tip (vendor keeps 100% of tip)
-  const platformFee = Math.round((grossAmount * commissionRate) / 100);
-  const netAmount = Math.max(0, grossAmount - platformFee) + tipAmount;
+  // A payout recorded while the charge is disputed waits for the outcome
+  const dispute =
+    appointment.disputeId && !isDisputeClosed(appointment.disputeStatus || '')
+      ? await Dispute.findOne({ stripeDisputeId: appointment.disputeId }).select('_id').lean()
+      : null;
 
-  await VendorPayout.create({
-    vendorId: vendor._id,
-    appointmentId: appointment._id,
-    grossAmount: grossAmount + tipAmount, // Gross paid to vendor (service + tip)
-    platformFee,
-    taxAmount,
-    netAmount,
-    currency: 'usd',
-    status: 'pending',
-    stripePaymentIntentId: appointment.paymentIntentId,
-  });
+  for (const { part, paymentIntentId } of pending) {
+    const share = (cents: number) =>
+      part === 'full'
+        ? cents
+        : allocateCents(cents, appointment.depositAmount || 0, appointment.total || 0)[part];
+    const grossAmount = share(serviceCents);
+    const tipAmount = share(tipCents);
+    const taxAmount = share(taxCents);
+    // Commission only on service fee, NOT on tip (vendor keeps 100% of tip)
+    const platformFee = Math.round((grossAmount * commissionRate) / 100);
+    const netAmount = Math.max(0, grossAmount - platformFee) + tipAmount;
 
-  logger.info(
-    `[VendorPayout] Recorded payout for appointment ${appointmentId}: gross=${grossAmount} tip=${tipAmount} fee=${platformFee} net=${netAmount}`,
-  );
+    await VendorPayout.create({
+      vendorId: vendor._id,
+      appointmentId: appointment._id,
+      paymentPart: part,
+      grossAmount: grossAmount + tipAmount, // Gross paid to vendor (service + tip)
+      platformFee,
+      taxAmount,
+      netAmount,
+      currency: 'usd',
+      status: dispute ? 'held' : 'pending',
+      ...(dispute && { disputeId: dispute._id, holdReason: 'Charge disputed', heldAt: new Date() }),
+      stripePaymentIntentId: paymentIntentId,
+    });
+
+    logger.info(
+      `[VendorPayout] Recorded ${part} payout for appointment ${appointmentId}: gross=${grossAmount} tip=${tipAmount} fee=${platformFee} net=${netAmount}`,
+    );
+  }
 }
 
 /**
@@ -110,10 +148,12 @@ export async function processPayoutTransfer(payoutId: string): Promise<void> {
       metadata: {
         vendorId: vendor._id.toString(),
         appointmentId: payout.appointmentId?.toString() || '',
+        payoutId: payout._id.toString(),
       },
     });
     payout.stripeTransferId = transfer.id;
     payout.status = 'in_transit';
+    payout.transferredAt = new Date();
     await payout.save();
     logger.info(`[VendorPayout] Payout ${payoutId} transferred via ${transfer.id}`);
   } catch (err: any) {
@@ -0,0 +1,356 @@
+/**
+ * Vendor Webhooks
+ *
+ * Tells vendors' own systems (CRMs, schedulers) about booking lifecycle
+ * events. Each event is written to the delivery log, then posted to every
+ * matching subscription through the `vendor-webhooks` BullMQ queue, which
+ * retries failures with exponential backoff. Without Redis each delivery
+ * is attempted once in the background and can be replayed from the portal.
+ */
+
+import crypto from 'crypto';
+import type { Job } from 'bullmq';
+import type mongoose from 'mongoose';
+import logger from '../config/logger';
+import { enqueue, isQueueEnabled, registerWorker } from '../config/queue';
+import Appointment from '../models/appointment.model';
+import VendorService from '../models/vendor-service.model';
+import VendorWebhook from '../models/vendor-webhook.model';
+import WebhookDelivery, { type IWebhookDelivery } from '../models/webhook-delivery.model';
+import { assertPublicUrl } from '../utils/public-url.util';
+import {
+  WEBHOOK_PING_EVENT,
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+  type WebhookEvent,
+} from '../utils/vendor-webhook.util';
+
+const WEBHOOK_QUEUE = 'vendor-webhooks';
+const REQUEST_TIMEOUT_MS = 10000;
+const RESPONSE_BODY_LIMIT = 1000;
+// 30s, 1m, 2m … ~1h between the last two: about two hours in all
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30 * 1000;
+// Subscriptions are switched off after this many deliveries fail for good in a row
+const DISABLE_AFTER_FAILURES = 50;
+
+type DeliveryDoc = IWebhookDelivery & mongoose.Document;
+
+interface DeliveryJobData {
+  deliveryId: string;
+}
+
+export interface WebhookAttempt {
+  ok: boolean;
+  status: number | null;
+  error?: string;
+  // Not worth retrying (the delivery or its subscription is gone)
+  permanent?: boolean;
+}
+
+/**
+ * The appointment as vendors see it in webhook bodies. Payment card data
+ * and internal bookkeeping are left out.
+ */
+async function serializeAppointment(appointmentId: string) {
+  const appointment = (await Appointment.findById(appointmentId)
+    .populate('customerId', 'firstName lastName email phone')
+    .populate('vendorServiceId', 'name vendorId')
+    .lean()) as any;
+  if (!appointment) return null;
+
+  const customer = appointment.customerId || {};
+  const vendorService = appointment.vendorServiceId || {};
+  return {
+    vendorId: String(vendorService.vendorId || ''),
+    data: {
+      id: String(appointment._id),
+      status: appointment.status,
+      paymentStatus: appointment.paymentStatus || null,
+      service: { id: String(vendorService._id || ''), name: vendorService.name || null },
+      staffId: appointment.staffId ? String(appointment.staffId) : null,
+      customer: {
+        id: customer._id ? String(customer._id) : null,
+        firstName: customer.firstName || null,
+        lastName: customer.lastName || null,
+        email: customer.email || null,
+        phone: customer.phone || null,
+      },
+      appointmentDate: appointment.appointmentDate,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+      timezone: appointment.timezone || null,
+      startAt: appointment.startAt || null,
+      endAt: appointment.endAt || null,
+      servicePlace: appointment.servicePlace || null,
+      total: appointment.total,
+      refundAmount: appointment.refundAmount || 0,
+      cancellationReason: appointment.cancellationReason || null,
+      cancelledAt: appointment.cancelledAt || null,
+      createdAt: appointment.createdAt,
+      updatedAt: appointment.updatedAt,
+    },
+  };
+}
+
+async function scheduleDelivery(delivery: DeliveryDoc): Promise<void> {
+  const deliveryId = String(delivery._id);
+  if (isQueueEnabled()) {
+    await enqueue<DeliveryJobData>(
+      WEBHOOK_QUEUE,
+      'deliver',
+      { deliveryId },
+      {
+        jobId: `webhook_${deliveryId}`,
+        attempts: MAX_ATTEMPTS,
+        backoff: { type: 'exponential', delay: RETRY_BASE_MS },
+      },
+    );
+    return;
+  }
+  // No queue — one attempt, off the request path
+  deliverWebhook(deliveryId, true).catch((err) =>
+    logger.error(`[VendorWebhook] Delivery ${deliveryId} failed: ${err.message}`),
+  );
+}
+
+async function createDeliveries(
+  webhooks: { _id: mongoose.Types.ObjectId; vendorId: mongoose.Types.ObjectId }[],
+  event: string,
+  data: Record<string, unknown>,
+  appointmentId: string | null,
+): Promise<DeliveryDoc[]> {
+  const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+  const payload = JSON.stringify({
+    id: eventId,
+    type: event,
+    createdAt: new Date().toISOString(),
+    data,
+  });
+  const deliveries = (await WebhookDelivery.insertMany(
+    webhooks.map((webhook) => ({
+      webhookId: webhook._id,
+      vendorId: webhook.vendorId,
+      event,
+      eventId,
+      appointmentId,
+      payload,
+    })),
+  )) as unknown as DeliveryDoc[];
+  for (const delivery of deliveries) await scheduleDelivery(delivery);
+  return deliveries;
+}
+
+/**
+ * Send a booking lifecycle event to the vendor's subscriptions. Call after
+ * the change is saved. Never throws — webhooks must not break bookings.
+ */
+export async function emitAppointmentEvent(
+  event: WebhookEvent,
+  appointment: { _id: unknown } | string,
+): Promise<void> {
+  const appointmentId = typeof appointment === 'string' ? appointment : String(appointment._id);
+  try {
+    const serialized = await serializeAppointment(appointmentId);
+    if (!serialized?.vendorId) return;
+
+    const webhooks = await VendorWebhook.find({
+      vendorId: serialized.vendorId,
+      isActive: true,
+      events: event,
+    })
+      .select('_id vendorId')
+      .lean();
+    if (webhooks.length === 0) return;
+
+    await createDeliveries(webhooks, event, { appointment: serialized.data }, appointmentId);
+  } catch (err: any) {
+    logger.error(
+      `[VendorWebhook] ${event} for appointment ${appointmentId} not sent: ${err.message}`,
+    );
+  }
+}
+
+/**
+ * Same as emitAppointmentEvent for appointments changed in bulk.
+ */
+export async function emitAppointmentEvents(
+  event: WebhookEvent,
+  appointmentIds: (string | { toString(): string })[],
+): Promise<void> {
+  if (appointmentIds.length === 0) return;
+  try {
+    // Most vendors have no subscriptions; skip the per-appointment lookups for them
+    const services = await Appointment.distinct('vendorServiceId', {
+      _id: { $in: appointmentIds },
+    });
+    const vendorIds = await VendorService.distinct('vendorId', { _id: { $in: services } });
+    const subscribed = await VendorWebhook.exists({
+      vendorId: { $in: vendorIds },
+      isActive: true,
+      events: event,
+    });
+    if (!subscribed) return;
+  } catch (err: any) {
+    logger.error(
+      `[VendorWebhook] ${event} for ${appointmentIds.length} appointments not sent: ${err.message}`,
+    );
+    return;
+  }
+
+  for (const appointmentId of appointmentIds) {
+    await emitAppointmentEvent(event, String(appointmentId));
+  }
+}
+
+/**
+ * POST one delivery and record the attempt. `final` marks the last
+ * attempt, after which a failure is permanent.
+ */
+export async function deliverWebhook(deliveryId: string, final: boolean): Promise<WebhookAttempt> {
+  const delivery = (await WebhookDelivery.findById(deliveryId)) as DeliveryDoc | null;
+  if (!delivery) return { ok: false, status: null, error: 'Delivery not found', permanent: true };
+  if (delivery.status === 'succeeded') return { ok: true, status: delivery.responseStatus ?? null };
+
+  const webhook = await VendorWebhook.findById(delivery.webhookId).select('+secret');
+  if (!webhook || !webhook.isActive) {
+    delivery.status = 'failed';
+    delivery.error = webhook ? 'Subscription is disabled' : 'Subscription was deleted';
+    await delivery.save();
+    return { ok: false, status: null, error: delivery.error, permanent: true };
+  }
+
+  const started = Date.now();
+  let attempt: WebhookAttempt;
+  let responseBody: string | null = null;
+  try {
+    // The host may have been pointed somewhere internal since it was saved
+    await assertPublicUrl(webhook.url, 'Webhook');
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AppNow-Webhooks/1.0',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, delivery.payload),
+        'AppNow-Event': delivery.event,
+        'AppNow-Delivery': String(delivery._id),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+    responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+    attempt = response.ok
+      ? { ok: true, status: response.status }
+      : { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (err: any) {
+    attempt = {
+      ok: false,
+      status: null,
+      error: err.name === 'TimeoutError' ? 'Timed out' : err.message,
+    };
+  }
+
+  const now = new Date();
+  delivery.attempts += 1;
+  delivery.lastAttemptAt = now;
+  delivery.durationMs = Date.now() - started;
+  delivery.responseStatus = attempt.status;
+  delivery.responseBody = responseBody;
+  delivery.error = attempt.error || null;
+
+  if (attempt.ok) {
+    delivery.status = 'succeeded';
+    delivery.deliveredAt = now;
+    await delivery.save();
+    await VendorWebhook.updateOne(
+      { _id: webhook._id },
+      { lastDeliveryAt: now, lastDeliveryStatus: 'succeeded', consecutiveFailures: 0 },
+    );
+    return attempt;
+  }
+
+  delivery.status = final ? 'failed' : 'retrying';
+  await delivery.save();
+  if (final) {
+    const updated = await VendorWebhook.findOneAndUpdate(
+      { _id: webhook._id },
+      {
+        lastDeliveryAt: now,
+        lastDeliveryStatus: 'failed',
+        $inc: { consecutiveFailures: 1 },
+      },
+      { new: true },
+    );
+    if (updated && updated.consecutiveFailures >= DISABLE_AFTER_FAILURES) {
+      updated.isActive = false;
+      await updated.save();
+      logger.warn(
+        `[VendorWebhook] Disabled ${webhook._id} for vendor ${webhook.vendorId} after ${DISABLE_AFTER_FAILURES} failed deliveries`,
+      );
+    }
+  }
+  return attempt;
+}
+
+/**
+ * Send a stored delivery again as a new delivery (same event id and body).
+ */
+export async function replayWebhookDelivery(deliveryId: string): Promise<DeliveryDoc | null> {
+  const original = await WebhookDelivery.findById(deliveryId).lean();
+  if (!original) return null;
+
+  const replay = (await WebhookDelivery.create({
+    webhookId: original.webhookId,
+    vendorId: original.vendorId,
+    event: original.event,
+    eventId: original.eventId,
+    appointmentId: original.appointmentId,
+    payload: original.payload,
+    replayOf: original._id,
+  })) as DeliveryDoc;
+  await scheduleDelivery(replay);
+  return replay;
+}
+
+/**
+ * Post a `webhook.ping` to check an endpoint. Waits for the answer.
+ */
+export async function sendWebhookPing(webhook: {
+  _id: mongoose.Types.ObjectId;
+  vendorId: mongoose.Types.ObjectId;
+}): Promise<{ delivery: DeliveryDoc; attempt: WebhookAttempt }> {
+  const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+  const delivery = (await WebhookDelivery.create({
+    webhookId: webhook._id,
+    vendorId: webhook.vendorId,
+    event: WEBHOOK_PING_EVENT,
+    eventId,
+    payload: JSON.stringify({
+      id: eventId,
+      type: WEBHOOK_PING_EVENT,
+      createdAt: new Date().toISOString(),
+      data: { webhookId: String(webhook._id) },
+    }),
+  })) as DeliveryDoc;
+  const attempt = await deliverWebhook(String(delivery._id), true);
+  return { delivery, attempt };
+}
+
+/**
+ * Start the delivery worker. No-op if Redis isn't configured.
+ */
+export function startVendorWebhookWorker(): void {
+  const worker = registerWorker<DeliveryJobData>(
+    WEBHOOK_QUEUE,
+    async (job: Job<DeliveryJobData>) => {
+      const final = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+      const attempt = await deliverWebhook(job.data.deliveryId, final);
+      // Throwing hands the retry and its backoff to BullMQ
+      if (!attempt.ok && !attempt.permanent && !final)
+        throw new Error(attempt.error || 'Webhook delivery failed');
+    },
+    5,
+  );
+  if (worker) logger.info('[VendorWebhook] Worker started');
+}
@@ -0,0 +1,36 @@
+/**
+ * Shared email chrome. Every template body is rendered first and dropped
+ * into the layout as `content`; partials are available to both.
+ */
+
+export const EMAIL_LOCALES = ['en', 'es'] as const;
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+export const EMAIL_LAYOUT = {
+  html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+{{{content}}}
+{{> signature}}
+{{> footer}}
+</div>`,
+  text: `{{{content}}}
+
+{{> signature}}
+
+{{> footer}}`,
+};
+
+export const EMAIL_PARTIALS: Record<EmailLocale, Record<string, string>> = {
+  en: {
+    signature: '<p>Best regards,<br>The {{appName}} Team</p>',
+    footer:
+      '<p style="color: #888; font-size: 12px;">Questions? Contact us at {{supportEmail}}.</p>',
+    manageBooking: '<p>To view or manage your booking, please log in to your account.</p>',
+  },
+  es: {
+    signature: '<p>Saludos,<br>El equipo de {{appName}}</p>',
+    footer:
+      '<p style="color: #888; font-size: 12px;">¿Preguntas? Escríbenos a {{supportEmail}}.</p>',
+    manageBooking: '<p>Para ver o gestionar tu reserva, inicia sesión en tu cuenta.</p>',
+  },
+};
@@ -0,0 +1,265 @@
+import type { TemplateVariableSpec } from '../../utils/email-template.util';
+import type { EmailLocale } from './layout';
+
+/**
+ * Transactional email templates. Each locale has a subject and an HTML
+ * body; `text` is optional and otherwise derived from the HTML.
+ *
+ * Add a locale by adding it to EMAIL_LOCALES and giving every template
+ * (and EMAIL_PARTIALS) a variant — the type check enforces it.
+ */
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export interface EmailTemplate {
+  description: string;
+  variables: Record<string, TemplateVariableSpec>;
+  content: Record<EmailLocale, EmailTemplateContent>;
+}
+
+const BUTTON_STYLE =
+  'display: inline-block; padding: 10px 20px; color: white; text-decoration: none; border-radius: 4px;';
+
+const templates = {
+  'account-activation': {
+    description: 'Sent after signup with the account activation link',
+    variables: {
+      activationUrl: {
+        description: 'Link that activates the account',
+        required: true,
+        example: 'https://app.appnow.com/activate/abc123',
+      },
+    },
+    content: {
+      en: {
+        subject: 'Activate Your {{appName}} Account',
+        html: `<h1 style="color: #333;">Welcome to {{appName}}!</h1>
+<p>Thank you for registering with us. Please click the button below to activate your account:</p>
+<a href="{{activationUrl}}" style="${BUTTON_STYLE} background-color: #4CAF50;">Activate Account</a>
+<p>If you didn't register for an {{appName}} account, please ignore this email.</p>`,
+        text: `Welcome to {{appName}}! Please click on the following link to activate your account: {{activationUrl}}
+
+If you didn't register for an {{appName}} account, please ignore this email.`,
+      },
+      es: {
+        subject: 'Activa tu cuenta de {{appName}}',
+        html: `<h1 style="color: #333;">¡Bienvenido a {{appName}}!</h1>
+<p>Gracias por registrarte. Haz clic en el botón de abajo para activar tu cuenta:</p>
+<a href="{{activationUrl}}" style="${BUTTON_STYLE} background-color: #4CAF50;">Activar cuenta</a>
+<p>Si no creaste una cuenta en {{appName}}, ignora este correo.</p>`,
+        text: `¡Bienvenido a {{appName}}! Abre el siguiente enlace para activar tu cuenta: {{activationUrl}}
+
+Si no creaste una cuenta en {{appName}}, ignora este correo.`,
+      },
+    },
+  },
+
+  'password-reset': {
+    description: 'Password reset link',
+    variables: {
+      resetUrl: {
+        description: 'Link to the reset form',
+        required: true,
+        example: 'https://app.appnow.com/reset-password/abc123',
+      },
+      expiresInMinutes: {
+        description: 'How long the link stays valid',
+        required: true,
+        example: '10',
+      },
+    },
+    content: {
+      en: {
+        subject: 'Reset Your {{appName}} Password',
+        html: `<h1 style="color: #333;">Reset Your Password</h1>
+<p>You requested a password reset. Please click the button below to reset your password:</p>
+<a href="{{resetUrl}}" style="${BUTTON_STYLE} background-color: #2196F3;">Reset Password</a>
+<p>This link is valid for {{expiresInMinutes}} minutes.</p>
+<p>If you didn't request a password reset, please ignore this email.</p>`,
+        text: `You requested a password reset. Please click on the following link to reset your password: {{resetUrl}}. This link is valid for {{expiresInMinutes}} minutes.
+
+If you didn't request a password reset, please ignore this email.`,
+      },
+      es: {
+        subject: 'Restablece tu contraseña de {{appName}}',
+        html: `<h1 style="color: #333;">Restablece tu contraseña</h1>
+<p>Solicitaste restablecer tu contraseña. Haz clic en el botón de abajo para elegir una nueva:</p>
+<a href="{{resetUrl}}" style="${BUTTON_STYLE} background-color: #2196F3;">Restablecer contraseña</a>
+<p>Este enlace es válido durante {{expiresInMinutes}} minutos.</p>
+<p>Si no solicitaste este cambio, ignora este correo.</p>`,
+      },
+    },
+  },
+
+  'appointment-confirmation': {
+    description: 'Appointment confirmed',
+    variables: {
+      date: { description: 'Formatted appointment date', required: true, example: 'June 10' },
+      time: { description: 'Start time', required: true, example: '10:00' },
+      service: { description: 'Service name', required: true, example: 'Haircut' },
+      provider: { description: 'Vendor name', example: 'Downtown Barbers' },
+    },
+    content: {
+      en: {
+        subject: 'Your {{appName}} Appointment Confirmation',
+        html: `<h1 style="color: #333;">Appointment Confirmation</h1>
+<p>Your appointment has been confirmed:</p>
+<ul>
+  <li><strong>Date:</strong> {{date}}</li>
+  <li><strong>Time:</strong> {{time}}</li>
+  <li><strong>Service:</strong> {{service}}</li>
+  {{#provider}}<li><strong>Provider:</strong> {{provider}}</li>{{/provider}}
+</ul>
+<p>To view or manage your appointment, please log in to your account.</p>`,
+      },
+      es: {
+        subject: 'Confirmación de tu cita en {{appName}}',
+        html: `<h1 style="color: #333;">Confirmación de cita</h1>
+<p>Tu cita ha sido confirmada:</p>
+<ul>
+  <li><strong>Fecha:</strong> {{date}}</li>
+  <li><strong>Hora:</strong> {{time}}</li>
+  <li><strong>Servicio:</strong> {{service}}</li>
+  {{#provider}}<li><strong>Proveedor:</strong> {{provider}}</li>{{/provider}}
+</ul>
+<p>Para ver o gestionar tu cita, inicia sesión en tu cuenta.</p>`,
+      },
+    },
+  },
+
+  'booking-confirmation': {
+    description: 'Booking paid and confirmed (sent with the calendar file)',
+    variables: {
+      serviceName: { description: 'Service name', required: true, example: 'Haircut' },
+      vendorName: { description: 'Vendor name', example: 'Downtown Barbers' },
+      date: {
+        description: 'Formatted appointment date',
+        required: true,
+        example: 'Wednesday, June 10, 2026',
+      },
+      time: { description: 'Start time', required: true, example: '10:00' },
+    },
+    content: {
+      en: {
+        subject: 'Your {{appName}} Booking Confirmation',
+        html: `<h1 style="color: #333;">Booking Confirmation</h1>
+<p>Your booking has been confirmed:</p>
+<ul>
+  <li><strong>Service:</strong> {{serviceName}}</li>
+  {{#vendorName}}<li><strong>Provider:</strong> {{vendorName}}</li>{{/vendorName}}
+  <li><strong>Date:</strong> {{date}}</li>
+  <li><strong>Time:</strong> {{time}}</li>
+</ul>
+{{> manageBooking}}`,
+      },
+      es: {
+        subject: 'Confirmación de tu reserva en {{appName}}',
+        html: `<h1 style="color: #333;">Confirmación de reserva</h1>
+<p>Tu reserva ha sido confirmada:</p>
+<ul>
+  <li><strong>Servicio:</strong> {{serviceName}}</li>
+  {{#vendorName}}<li><strong>Proveedor:</strong> {{vendorName}}</li>{{/vendorName}}
+  <li><strong>Fecha:</strong> {{date}}</li>
+  <li><strong>Hora:</strong> {{time}}</li>
+</ul>
+{{> manageBooking}}`,
+      },
+    },
+  },
+
+  'vendor-dispute-opened': {
+    description: "Sent to the vendor when a customer disputes an appointment's charge",
+    variables: {
+      vendorName: { description: 'Vendor name', required: true, example: 'Downtown Barbers' },
+      serviceName: { description: 'Service name', required: true, example: 'Haircut' },
+      date: { description: 'Formatted appointment date', required: true, example: 'June 10' },
+      amount: { description: 'Disputed amount', required: true, example: '$45.00' },
+      reason: { description: 'Dispute reason', required: true, example: 'product not received' },
+      payoutHeld: { description: 'Set when the payout is being held', example: 'true' },
+      payoutReversed: {
+        description: 'Reversed amount when funds were pulled back',
+        example: '$40.50',
+      },
+    },
+    content: {
+      en: {
+        subject: 'A customer disputed a {{appName}} payment',
+        html: `<h1 style="color: #333;">Payment disputed</h1>
+<p>Hi {{vendorName}},</p>
+<p>A customer's bank has opened a dispute of {{amount}} on the {{serviceName}} appointment on {{date}}. Reason given: {{reason}}.</p>
+{{#payoutHeld}}<p>Your payout for this appointment is on hold until the dispute is resolved.</p>{{/payoutHeld}}
+{{#payoutReversed}}<p>{{payoutReversed}} already paid out for this appointment has been pulled back until the dispute is resolved.</p>{{/payoutReversed}}
+<p>Our team responds to the bank on your behalf. If you have anything that shows the service was provided — messages, photos, a signed form — please send it to our support team.</p>`,
+      },
+      es: {
+        subject: 'Un cliente disputó un pago en {{appName}}',
+        html: `<h1 style="color: #333;">Pago disputado</h1>
+<p>Hola {{vendorName}}:</p>
+<p>El banco de un cliente abrió una disputa de {{amount}} sobre la cita de {{serviceName}} del {{date}}. Motivo indicado: {{reason}}.</p>
+{{#payoutHeld}}<p>Tu pago por esta cita queda retenido hasta que se resuelva la disputa.</p>{{/payoutHeld}}
+{{#payoutReversed}}<p>Se han retirado {{payoutReversed}} ya pagados por esta cita hasta que se resuelva la disputa.</p>{{/payoutReversed}}
+<p>Nuestro equipo responde al banco en tu nombre. Si tienes algo que demuestre que el servicio se prestó (mensajes, fotos, un formulario firmado), envíalo a nuestro equipo de soporte.</p>`,
+      },
+    },
+  },
+
+  'vendor-dispute-closed': {
+    description: 'Sent to the vendor when a dispute is decided',
+    variables: {
+      vendorName: { description: 'Vendor name', required: true, example: 'Downtown Barbers' },
+      serviceName: { description: 'Service name', required: true, example: 'Haircut' },
+      date: { description: 'Formatted appointment date', required: true, example: 'June 10' },
+      won: { description: 'Set when the dispute was decided in our favour', example: 'true' },
+    },
+    content: {
+      en: {
+        subject: 'Dispute on your {{serviceName}} appointment resolved',
+        html: `<h1 style="color: #333;">Dispute resolved</h1>
+<p>Hi {{vendorName}},</p>
+<p>The dispute on the {{serviceName}} appointment on {{date}} has been closed.</p>
+{{#won}}<p>It was decided in your favour. Any payout held or pulled back for this appointment is on its way to you.</p>{{/won}}
+{{^won}}<p>The bank decided in the customer's favour, so the payment for this appointment was returned to them and no payout will be made for it.</p>{{/won}}`,
+      },
+      es: {
+        subject: 'Disputa sobre tu cita de {{serviceName}} resuelta',
+        html: `<h1 style="color: #333;">Disputa resuelta</h1>
+<p>Hola {{vendorName}}:</p>
+<p>Se ha cerrado la disputa sobre la cita de {{serviceName}} del {{date}}.</p>
+{{#won}}<p>Se resolvió a tu favor. Cualquier pago retenido o retirado por esta cita está en camino.</p>{{/won}}
+{{^won}}<p>El banco resolvió a favor del cliente, así que el pago de esta cita se le devolvió y no se realizará ningún pago por ella.</p>{{/won}}`,
+      },
+    },
+  },
+
+  notification: {
+    description: 'Generic notification email (dispatcher default)',
+    variables: {
+      title: { description: 'Heading and subject', required: true, example: 'Slot Available!' },
+      body: {
+        description: 'Message text',
+        required: true,
+        example: 'A slot for Haircut on Wed, Jun 10 is now available.',
+      },
+    },
+    content: {
+      en: {
+        subject: '{{title}}',
+        html: `<h1 style="color: #333;">{{title}}</h1>
+<p>{{body}}</p>`,
+      },
+      es: {
+        subject: '{{title}}',
+        html: `<h1 style="color: #333;">{{title}}</h1>
+<p>{{body}}</p>`,
+      },
+    },
+  },
+} satisfies Record<string, EmailTemplate>;
+
+export type EmailTemplateId = keyof typeof templates;
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateId, EmailTemplate> = templates;
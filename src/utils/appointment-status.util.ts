@@ -0,0 +1,212 @@
+/**
+ * The appointment status lifecycle: which changes are legal, who may make
+ * them, and the timeline built from the recorded history. Pure functions —
+ * the writes live in services/appointment-status.service.
+ *
+ *   pending   → confirmed | cancelled
+ *   confirmed → completed | cancelled | missed | failed
+ *   completed → missed | failed        (no-show / service issue noticed late)
+ *   admins may also undo a wrong missed / failed mark back to completed
+ *
+ * cancelled, missed and failed are otherwise final.
+ */
+
+export const APPOINTMENT_STATUSES = [
+  'pending',
+  'confirmed',
+  'cancelled',
+  'completed',
+  'missed',
+  'failed',
+] as const;
+
+export type AppointmentStatus = (typeof APPOINTMENT_STATUSES)[number];
+
+// Who made a change. `auto` covers the scheduler and payment confirmation
+export const STATUS_ACTORS = ['auto', 'vendor', 'customer', 'admin'] as const;
+
+export type StatusActor = (typeof STATUS_ACTORS)[number];
+
+export interface IAppointmentStatusChange {
+  from: AppointmentStatus;
+  to: AppointmentStatus;
+  actor: StatusActor;
+  actorId?: string | null;
+  reason?: string | null;
+  at: Date;
+}
+
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'cancelled', 'missed', 'failed'],
+  completed: ['missed', 'failed'],
+  cancelled: [],
+  missed: [],
+  failed: [],
+};
+
+// Corrections only an admin may make
+const ADMIN_CORRECTIONS: Partial<Record<AppointmentStatus, AppointmentStatus[]>> = {
+  missed: ['completed'],
+  failed: ['completed'],
+};
+
+// Statuses each actor may move an appointment to
+const ACTOR_TARGETS: Record<StatusActor, AppointmentStatus[]> = {
+  auto: ['confirmed', 'completed', 'cancelled'],
+  vendor: ['confirmed', 'completed', 'cancelled', 'missed', 'failed'],
+  customer: ['cancelled', 'missed', 'failed'],
+  admin: [...APPOINTMENT_STATUSES],
+};
+
+// Changes that need a written reason
+export const REASON_REQUIRED_STATUSES: AppointmentStatus[] = ['missed', 'failed'];
+export const MIN_STATUS_REASON_LENGTH = 5;
+
+export const isAppointmentStatus = (value: unknown): value is AppointmentStatus =>
+  APPOINTMENT_STATUSES.includes(value as AppointmentStatus);
+
+/**
+ * Why `actor` can't move an appointment from `from` to `to`, or null when
+ * the change is allowed.
+ */
+export function statusTransitionError(
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  actor: StatusActor,
+): string | null {
+  if (!isAppointmentStatus(to)) {
+    return `Invalid status. Must be one of: ${APPOINTMENT_STATUSES.join(', ')}`;
+  }
+  if (from === to) return `Appointment is already ${to}`;
+
+  const allowed = [
+    ...(APPOINTMENT_TRANSITIONS[from] || []),
+    ...(actor === 'admin' ? ADMIN_CORRECTIONS[from] || [] : []),
+  ];
+  if (!allowed.includes(to)) {
+    return allowed.length === 0
+      ? `A ${from} appointment can no longer change status`
+      : `A ${from} appointment can only become ${allowed.join(' or ')}, not ${to}`;
+  }
+  if (!ACTOR_TARGETS[actor].includes(to)) {
+    return `Only ${STATUS_ACTORS.filter(
+      (other) => other !== 'auto' && ACTOR_TARGETS[other].includes(to),
+    ).join(' or ')} can mark an appointment ${to}`;
+  }
+  return null;
+}
+
+/**
+ * Validation message for the reason given with a change, or null.
+ */
+export function statusReasonError(to: AppointmentStatus, reason?: string | null): string | null {
+  if (!REASON_REQUIRED_STATUSES.includes(to)) return null;
+  if (!reason || reason.trim().length < MIN_STATUS_REASON_LENGTH) {
+    return `Please provide a reason (at least ${MIN_STATUS_REASON_LENGTH} characters)`;
+  }
+  return null;
+}
+
+export type TimelineEntry =
+  | { type: 'booked'; at: Date }
+  | {
+      type: 'status';
+      at: Date;
+      from: AppointmentStatus | null;
+      to: AppointmentStatus;
+      actor: StatusActor | null;
+      actorId?: string | null;
+      reason: string | null;
+    }
+  | {
+      type: 'rescheduled';
+      at: Date;
+      from: TimelineSlot;
+      to: TimelineSlot;
+    };
+
+interface TimelineSlot {
+  appointmentDate: Date;
+  startTime: string;
+  endTime: string;
+}
+
+interface TimelineAppointment {
+  status: AppointmentStatus;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+  statusHistory?: IAppointmentStatusChange[] | null;
+  statusChangedBy?: StatusActor | null;
+  statusReason?: string | null;
+  cancellationReason?: string | null;
+  cancelledAt?: Date | null;
+  completedAt?: Date | null;
+}
+
+interface TimelineMove {
+  from: TimelineSlot;
+  movedTo?: TimelineSlot | null;
+  resolvedAt?: Date | null;
+}
+
+/**
+ * Everything that happened to an appointment, oldest first: the booking,
+ * each status change and each accepted reschedule. Appointments from before
+ * the history was kept get one entry for their current status, from the
+ * fields the last change left behind. Actor ids are left out unless asked
+ * for.
+ */
+export function buildAppointmentTimeline(
+  appointment: TimelineAppointment,
+  moves: TimelineMove[] = [],
+  options: { includeActorIds?: boolean } = {},
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  if (appointment.createdAt) entries.push({ type: 'booked', at: new Date(appointment.createdAt) });
+
+  const history = appointment.statusHistory || [];
+  for (const change of history) {
+    entries.push({
+      type: 'status',
+      at: new Date(change.at),
+      from: change.from,
+      to: change.to,
+      actor: change.actor,
+      ...(options.includeActorIds
+        ? { actorId: change.actorId ? String(change.actorId) : null }
+        : {}),
+      reason: change.reason ?? null,
+    });
+  }
+  if (history.length === 0 && appointment.status !== 'pending') {
+    const at =
+      (appointment.status === 'cancelled' && appointment.cancelledAt) ||
+      (appointment.status === 'completed' && appointment.completedAt) ||
+      appointment.updatedAt ||
+      appointment.createdAt;
+    if (at) {
+      entries.push({
+        type: 'status',
+        at: new Date(at),
+        from: null,
+        to: appointment.status,
+        actor: appointment.statusChangedBy ?? null,
+        reason: appointment.statusReason ?? appointment.cancellationReason ?? null,
+      });
+    }
+  }
+
+  for (const move of moves) {
+    if (!move.movedTo || !move.resolvedAt) continue;
+    entries.push({
+      type: 'rescheduled',
+      at: new Date(move.resolvedAt),
+      from: move.from,
+      to: move.movedTo,
+    });
+  }
+
+  // Stable sort: entries at the same instant keep the order they were added in
+  return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
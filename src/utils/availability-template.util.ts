@@ -0,0 +1,184 @@
+import type { DateDetails } from '../interfaces/common.interface';
+import { timeToMinutes, toDateKey } from './timezone.util';
+
+/**
+ * Weekly availability templates. Pure functions — lookups live in
+ * services/availability.service.
+ *
+ * A template describes a service's regular week (hours per weekday) plus
+ * date-range exceptions (closed, or different hours) and one-off extra
+ * openings. It is expanded into the same per-date `DateDetails` the slot
+ * engine already consumes. Per-date `VendorServiceSlot` entries still win:
+ * a date the vendor configured explicitly replaces the template that day.
+ */
+
+export interface TemplateTiming {
+  fromTime: string;
+  toTime: string;
+}
+
+export interface WeeklyHours extends TemplateTiming {
+  dayOfWeek: number; // 0 = Sunday, 6 = Saturday
+}
+
+export interface AvailabilityException {
+  fromDate: Date | string;
+  toDate: Date | string;
+  // Empty = closed for the whole range; otherwise these hours replace the week's
+  timings?: TemplateTiming[];
+  reason?: string;
+}
+
+export interface ExtraOpening {
+  date: Date | string;
+  timings: TemplateTiming[];
+}
+
+export interface AvailabilityTemplateRules {
+  // Bookings each slot can take (same as a slot document's `reoccurrence`)
+  reoccurrence: number;
+  weeklyHours: WeeklyHours[];
+  exceptions?: AvailabilityException[];
+  extraOpenings?: ExtraOpening[];
+  // Template only applies between these dates when set
+  effectiveFrom?: Date | string | null;
+  effectiveTo?: Date | string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date | string) => new Date(`${toDateKey(date)}T00:00:00.000Z`);
+
+const validTiming = (timing: TemplateTiming) =>
+  timeToMinutes(timing.fromTime) < timeToMinutes(timing.toTime);
+
+const byStart = (a: TemplateTiming, b: TemplateTiming) =>
+  timeToMinutes(a.fromTime) - timeToMinutes(b.fromTime);
+
+/**
+ * Validation message for a template, or null when it is usable.
+ */
+export function validateAvailabilityTemplate(
+  template: Partial<AvailabilityTemplateRules>,
+): string | null {
+  if (template === null || typeof template !== 'object') return 'template must be an object';
+  if (template.reoccurrence !== undefined && !(Number(template.reoccurrence) >= 1)) {
+    return 'reoccurrence must be 1 or more';
+  }
+
+  const timingError = (timings: TemplateTiming[] | undefined, field: string) =>
+    (timings || []).some((t) => !validTiming(t))
+      ? `${field} times must be HH:mm with fromTime before toTime`
+      : null;
+
+  for (const hours of template.weeklyHours || []) {
+    if (!Number.isInteger(hours.dayOfWeek) || hours.dayOfWeek < 0 || hours.dayOfWeek > 6) {
+      return 'weeklyHours.dayOfWeek must be 0 (Sunday) to 6 (Saturday)';
+    }
+  }
+  const weeklyError = timingError(template.weeklyHours, 'weeklyHours');
+  if (weeklyError) return weeklyError;
+
+  for (const exception of template.exceptions || []) {
+    if (!exception.fromDate || !exception.toDate) {
+      return 'exceptions need fromDate and toDate';
+    }
+    if (startOfDay(exception.fromDate) > startOfDay(exception.toDate)) {
+      return 'exceptions.fromDate must be on or before toDate';
+    }
+    const error = timingError(exception.timings, 'exceptions');
+    if (error) return error;
+  }
+
+  for (const opening of template.extraOpenings || []) {
+    if (!opening.date || !opening.timings?.length) {
+      return 'extraOpenings need a date and at least one timing';
+    }
+    const error = timingError(opening.timings, 'extraOpenings');
+    if (error) return error;
+  }
+
+  if (
+    template.effectiveFrom &&
+    template.effectiveTo &&
+    startOfDay(template.effectiveFrom) > startOfDay(template.effectiveTo)
+  ) {
+    return 'effectiveFrom must be on or before effectiveTo';
+  }
+  return null;
+}
+
+/**
+ * Template hours for one calendar date, before per-date overrides.
+ */
+export function templateTimingsForDate(
+  template: AvailabilityTemplateRules,
+  date: Date | string,
+): TemplateTiming[] {
+  const dateStr = toDateKey(date);
+  const day = startOfDay(dateStr);
+  const inEffect =
+    (!template.effectiveFrom || startOfDay(template.effectiveFrom) <= day) &&
+    (!template.effectiveTo || day <= startOfDay(template.effectiveTo));
+
+  let timings: TemplateTiming[] = inEffect
+    ? template.weeklyHours
+        .filter((hours) => hours.dayOfWeek === day.getUTCDay())
+        .map(({ fromTime, toTime }) => ({ fromTime, toTime }))
+    : [];
+
+  // The most recently added exception covering the date wins
+  const exception = [...(template.exceptions || [])]
+    .reverse()
+    .find((e) => startOfDay(e.fromDate) <= day && day <= startOfDay(e.toDate));
+  if (exception) {
+    timings = (exception.timings || []).map(({ fromTime, toTime }) => ({ fromTime, toTime }));
+  }
+
+  for (const opening of template.extraOpenings || []) {
+    if (toDateKey(opening.date) !== dateStr) continue;
+    timings.push(...opening.timings.map(({ fromTime, toTime }) => ({ fromTime, toTime })));
+  }
+
+  return timings.filter(validTiming).sort(byStart);
+}
+
+/**
+ * Bookable dates between `startDate` and `endDate` (inclusive), in date
+ * order. `overrides` are per-date slot entries and replace the template on
+ * their date; dates with no hours at all are left out.
+ */
+export function expandAvailability(
+  template: AvailabilityTemplateRules | null | undefined,
+  startDate: Date | string,
+  endDate: Date | string,
+  overrides: DateDetails[] = [],
+): DateDetails[] {
+  const first = startOfDay(startDate).getTime();
+  const last = startOfDay(endDate).getTime();
+  const byDate = new Map<string, DateDetails>();
+
+  if (template) {
+    for (let day = first; day <= last; day += DAY_MS) {
+      const timings = templateTimingsForDate(template, new Date(day));
+      if (timings.length === 0) continue;
+      byDate.set(toDateKey(new Date(day)), {
+        date: new Date(day),
+        reoccurrence: template.reoccurrence,
+        timingType: 'template',
+        timings,
+      });
+    }
+  }
+
+  for (const override of overrides) {
+    const day = startOfDay(override.date).getTime();
+    if (day < first || day > last) continue;
+    byDate.set(toDateKey(override.date), override);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, details]) => details)
+    .filter((details) => details.timings?.length > 0);
+}
@@ -0,0 +1,104 @@
+import { timeToMinutes, toDateKey } from './timezone.util';
+
+/**
+ * Vendor block-time math. Pure functions — queries live in
+ * services/block-time.service.
+ *
+ * A block covers every calendar day from `fromDate` to `toDate`, either the
+ * whole day or the same `fromTime`–`toTime` wall-clock window on each day.
+ * Windows are expanded per date key so they line up with the slot engine.
+ */
+
+export interface BlockWindow {
+  fromTime: string;
+  toTime: string;
+}
+
+// Blocked wall-clock windows by vendor date key (YYYY-MM-DD)
+export type BlockedWindows = Record<string, BlockWindow[]>;
+
+export interface BlockTimeLike {
+  fromDate: Date | string;
+  toDate: Date | string;
+  allDay?: boolean;
+  fromTime?: string;
+  toTime?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ALL_DAY: BlockWindow = { fromTime: '00:00', toTime: '24:00' };
+
+const toMinutes = (time: string) => (time === '24:00' ? 1440 : timeToMinutes(time));
+
+/**
+ * Expand blocks into per-date windows, clipped to `from`–`to` when given.
+ */
+export function expandBlockTimes(
+  blocks: BlockTimeLike[],
+  from?: Date | string,
+  to?: Date | string,
+): BlockedWindows {
+  const windows: BlockedWindows = {};
+  const rangeStart = from ? toDateKey(from) : null;
+  const rangeEnd = to ? toDateKey(to) : null;
+
+  for (const block of blocks) {
+    const window =
+      block.allDay !== false || !block.fromTime || !block.toTime
+        ? ALL_DAY
+        : { fromTime: block.fromTime, toTime: block.toTime };
+    let day = new Date(`${toDateKey(block.fromDate)}T00:00:00.000Z`).getTime();
+    const last = new Date(`${toDateKey(block.toDate)}T00:00:00.000Z`).getTime();
+
+    for (; day <= last; day += DAY_MS) {
+      const dateStr = toDateKey(new Date(day));
+      if (rangeStart && dateStr < rangeStart) continue;
+      if (rangeEnd && dateStr > rangeEnd) break;
+      (windows[dateStr] ||= []).push(window);
+    }
+  }
+  return windows;
+}
+
+/**
+ * Whether `startTime`–`endTime` on `dateStr` touches a blocked window.
+ */
+export function isTimeBlocked(
+  windows: BlockedWindows | undefined,
+  dateStr: string,
+  startTime: string,
+  endTime: string,
+): boolean {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return (windows?.[dateStr] || []).some(
+    (window) => start < toMinutes(window.toTime) && toMinutes(window.fromTime) < end,
+  );
+}
+
+/**
+ * Whether blocks cover every configured timing on a date, leaving nothing
+ * bookable.
+ */
+export function isDateFullyBlocked(
+  windows: BlockedWindows | undefined,
+  dateStr: string,
+  timings: { fromTime: string; toTime: string }[],
+): boolean {
+  const blocked = [...(windows?.[dateStr] || [])].sort(
+    (a, b) => toMinutes(a.fromTime) - toMinutes(b.fromTime),
+  );
+  if (blocked.length === 0) return false;
+
+  return timings.every((timing) => {
+    // Walk the sorted windows, advancing how far the timing is covered
+    let covered = toMinutes(timing.fromTime);
+    const end = toMinutes(timing.toTime);
+    for (const window of blocked) {
+      if (toMinutes(window.fromTime) > covered) break;
+      covered = Math.max(covered, toMinutes(window.toTime));
+      if (covered >= end) return true;
+    }
+    return covered >= end;
+  });
+}
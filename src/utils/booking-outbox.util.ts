@@ -0,0 +1,103 @@
+/**
+ * Rules for committing a booking. Pure functions — the reservation and
+ * outbox writes live in services/booking.service and services/outbox.service.
+ *
+ * Creating a booking is a check-then-insert, so two requests for the same
+ * slot could both pass the check. Each request first inserts a short-lived
+ * reservation keyed by slot and staff member (unique index), re-checks for a
+ * colliding appointment, then inserts the appointment and drops the
+ * reservation. A "no preference" booking holds the slot for every staff
+ * member, so after its insert each request looks for other reservations of
+ * the slot it collides with and backs off if it finds one.
+ *
+ * Everything that should follow a booking (payout, coupon count, lock
+ * release, notifications, reminders, vendor webhook) is written to the
+ * outbox before the appointment itself and run by a worker with retries,
+ * so a crash mid-request can't lose it.
+ */
+
+export const OUTBOX_EVENT_TYPES = [
+  'appointment-webhook',
+  'record-payout',
+  'increment-coupon',
+  'release-slot-lock',
+  'booking-notification',
+  'schedule-reminders',
+] as const;
+
+export type OutboxEventType = (typeof OUTBOX_EVENT_TYPES)[number];
+
+// A reservation outlives a request that crashed before dropping it by this much
+export const RESERVATION_TTL_MS = 2 * 60 * 1000;
+
+export const MAX_OUTBOX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_CAP_MS = 60 * 60 * 1000;
+
+// Outbox rows are written before the appointment; if it never appears
+// (the request crashed in between) the rows are dropped after this long
+export const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+// A row stuck in `processing` this long belongs to a worker that died
+export const PROCESSING_STALE_MS = 5 * 60 * 1000;
+
+export interface BookingSlot {
+  vendorServiceId: unknown;
+  appointmentDate: Date | string;
+  startTime: string;
+  endTime: string;
+  staffId?: unknown;
+}
+
+const ANY_STAFF = 'any';
+
+/**
+ * One key per bookable window of a vendor service, e.g.
+ * `64f…|2026-06-10|09:00-10:00`. The calendar date is stored as UTC midnight.
+ */
+export function bookingSlotKey(slot: BookingSlot): string {
+  const date = new Date(slot.appointmentDate).toISOString().slice(0, 10);
+  return `${String(slot.vendorServiceId)}|${date}|${slot.startTime}-${slot.endTime}`;
+}
+
+export function bookingStaffKey(staffId: unknown): string {
+  return staffId ? String(staffId) : ANY_STAFF;
+}
+
+/**
+ * Two bookings of one slot collide when they're for the same staff member
+ * or either has no staff preference.
+ */
+export function staffKeysCollide(a: string, b: string): boolean {
+  return a === ANY_STAFF || b === ANY_STAFF || a === b;
+}
+
+/**
+ * The side effects of a new booking, in the order they should run.
+ */
+export function bookingOutboxEvents(booking: { promotionId?: unknown }): OutboxEventType[] {
+  return [
+    'appointment-webhook',
+    'record-payout',
+    ...(booking.promotionId ? (['increment-coupon'] as const) : []),
+    'release-slot-lock',
+    'booking-notification',
+    'schedule-reminders',
+  ];
+}
+
+/**
+ * Delay before the next attempt: 30s, 1, 2, 4… minutes, capped at an hour.
+ * `attempts` is how many runs have failed so far.
+ */
+export function outboxRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_CAP_MS);
+}
+
+/**
+ * When to try again, or null once attempts are used up.
+ */
+export function nextOutboxAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_OUTBOX_ATTEMPTS) return null;
+  return new Date(now.getTime() + outboxRetryDelayMs(attempts));
+}
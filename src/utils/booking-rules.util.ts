@@ -0,0 +1,96 @@
+/**
+ * Per-service booking rules: buffer time around appointments, minimum
+ * booking notice and how far ahead customers may book. Pure functions —
+ * lookups live in services/booking-rules.service.
+ */
+
+export interface BookingRules {
+  // Prep / cleanup time kept free before and after every appointment
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  // Minimum notice between booking and the appointment starting
+  minNoticeMinutes: number;
+  // Furthest ahead a customer may book, in days. 0 = no limit
+  maxAdvanceDays: number;
+}
+
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+  minNoticeMinutes: 0,
+  maxAdvanceDays: 0,
+};
+
+const RULE_KEYS = Object.keys(DEFAULT_BOOKING_RULES) as (keyof BookingRules)[];
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Stored (possibly partial) rules with defaults filled in.
+ */
+export function resolveBookingRules(rules?: Partial<BookingRules> | null): BookingRules {
+  const resolved = { ...DEFAULT_BOOKING_RULES };
+  for (const key of RULE_KEYS) {
+    const value = Number(rules?.[key]);
+    if (Number.isFinite(value) && value >= 0) resolved[key] = value;
+  }
+  return resolved;
+}
+
+/**
+ * Validation message for booking rules, or null when they are usable.
+ */
+export function validateBookingRules(rules: Partial<BookingRules>): string | null {
+  if (rules === null || typeof rules !== 'object') return 'bookingRules must be an object';
+  for (const key of RULE_KEYS) {
+    if (rules[key] === undefined) continue;
+    const value = Number(rules[key]);
+    if (!Number.isInteger(value) || value < 0) {
+      return `bookingRules.${key} must be a whole number, 0 or more`;
+    }
+  }
+  if ((rules.bufferBeforeMinutes || 0) + (rules.bufferAfterMinutes || 0) > 24 * 60) {
+    return 'bookingRules buffers cannot exceed 24 hours in total';
+  }
+  return null;
+}
+
+/**
+ * Gap two appointments of the service must keep: one's cleanup plus the
+ * next one's prep.
+ */
+export const totalBufferMinutes = (rules: BookingRules): number =>
+  rules.bufferBeforeMinutes + rules.bufferAfterMinutes;
+
+const describeMinutes = (minutes: number): string => {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+/**
+ * Why an appointment starting at `startAt` can't be booked right now, or
+ * null when it respects the minimum notice and booking horizon.
+ */
+export function bookingWindowError(
+  rules: BookingRules,
+  startAt: Date,
+  now: Date = new Date(),
+): string | null {
+  const leadMs = startAt.getTime() - now.getTime();
+  if (leadMs < rules.minNoticeMinutes * MINUTE_MS) {
+    return rules.minNoticeMinutes > 0
+      ? `This service must be booked at least ${describeMinutes(rules.minNoticeMinutes)} in advance`
+      : 'This time has already passed';
+  }
+  if (rules.maxAdvanceDays > 0 && leadMs > rules.maxAdvanceDays * DAY_MS) {
+    return `This service can only be booked up to ${describeMinutes(rules.maxAdvanceDays * 24 * 60)} in advance`;
+  }
+  return null;
+}
@@ -0,0 +1,235 @@
+/**
+ * Cancellation / no-show policy math. Pure functions — the DB lookup lives in
+ * services/cancellation-policy.service.
+ *
+ * A policy is a list of refund tiers keyed by how many hours before the
+ * appointment the customer cancels, plus optional fees:
+ *
+ *   refund = (amountPaid − forfeited deposit) × tier% − flat cancellation fee
+ *
+ * The deposit is only forfeited outside the full-refund window. The no-show
+ * fee is charged (or retained) when the vendor marks the appointment missed.
+ */
+
+export interface RefundTier {
+  // Cancelling at least this many hours before start earns `refundPercent`
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export type FeeType = 'fixed' | 'percentage';
+
+export interface PolicyFee {
+  type: FeeType;
+  value: number;
+}
+
+export interface PolicyTerms {
+  tiers: RefundTier[];
+  cancellationFee: number;
+  noShowFee: PolicyFee;
+  depositForfeiture: PolicyFee & { enabled: boolean };
+}
+
+/**
+ * What gets stored on the appointment at booking time.
+ */
+export interface PolicySnapshot extends PolicyTerms {
+  policyId?: string | null;
+  name: string;
+  // Resolved deposit in dollars at the time of booking
+  depositAmount: number;
+  snapshotAt: Date;
+}
+
+export interface RefundQuote {
+  hoursUntilAppointment: number;
+  refundPercentage: number;
+  policyTier: string;
+  refundAmount: number;
+  cancellationFee: number;
+  depositForfeited: number;
+  nonRefundableAmount: number;
+  policyMessage: string;
+}
+
+// The platform's historical 24/12/2-hour schedule, used when a vendor has none
+export const DEFAULT_POLICY_TERMS: PolicyTerms = {
+  tiers: [
+    { minHoursBefore: 24, refundPercent: 100 },
+    { minHoursBefore: 12, refundPercent: 75 },
+    { minHoursBefore: 2, refundPercent: 50 },
+    { minHoursBefore: 0, refundPercent: 0 },
+  ],
+  cancellationFee: 0,
+  noShowFee: { type: 'fixed', value: 0 },
+  depositForfeiture: { enabled: false, type: 'fixed', value: 0 },
+};
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const resolveFee = (fee: PolicyFee | undefined, baseAmount: number): number => {
+  if (!fee || !(fee.value > 0) || !(baseAmount > 0)) return 0;
+  const amount = fee.type === 'percentage' ? (baseAmount * fee.value) / 100 : fee.value;
+  return roundMoney(Math.min(amount, baseAmount));
+};
+
+/**
+ * Tiers sorted from the longest notice to the shortest, always ending with a
+ * 0-hour tier so every cancellation matches something.
+ */
+export function normalizeTiers(tiers: RefundTier[] | undefined): RefundTier[] {
+  const sorted = [...(tiers || [])]
+    .filter((t) => t.minHoursBefore >= 0 && t.refundPercent >= 0 && t.refundPercent <= 100)
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+  if (sorted.length === 0 || sorted[sorted.length - 1].minHoursBefore > 0) {
+    sorted.push({ minHoursBefore: 0, refundPercent: 0 });
+  }
+  return sorted;
+}
+
+/**
+ * Validation message for a set of terms, or null when they are usable.
+ */
+export function validatePolicyTerms(terms: Partial<PolicyTerms>): string | null {
+  if (terms.tiers !== undefined) {
+    if (!Array.isArray(terms.tiers) || terms.tiers.length === 0) {
+      return 'tiers must be a non-empty array';
+    }
+    for (const tier of terms.tiers) {
+      if (!(Number(tier?.minHoursBefore) >= 0)) return 'minHoursBefore must be 0 or more';
+      if (!(Number(tier?.refundPercent) >= 0 && Number(tier?.refundPercent) <= 100)) {
+        return 'refundPercent must be between 0 and 100';
+      }
+    }
+    const hours = terms.tiers.map((t) => Number(t.minHoursBefore));
+    if (new Set(hours).size !== hours.length) return 'Each tier needs a distinct minHoursBefore';
+  }
+  if (terms.cancellationFee !== undefined && !(Number(terms.cancellationFee) >= 0)) {
+    return 'cancellationFee must be 0 or more';
+  }
+  for (const [field, fee] of [
+    ['noShowFee', terms.noShowFee],
+    ['depositForfeiture', terms.depositForfeiture],
+  ] as const) {
+    if (fee === undefined) continue;
+    if (!['fixed', 'percentage'].includes(fee.type)) {
+      return `${field}.type must be fixed or percentage`;
+    }
+    if (!(Number(fee.value) >= 0)) return `${field}.value must be 0 or more`;
+    if (fee.type === 'percentage' && Number(fee.value) > 100) {
+      return `${field}.value cannot exceed 100%`;
+    }
+  }
+  return null;
+}
+
+const tierLabel = (percent: number) =>
+  percent >= 100 ? 'full' : percent <= 0 ? 'no_refund' : `partial_${percent}`;
+
+const describeWindow = (tiers: RefundTier[], index: number) => {
+  const from = tiers[index].minHoursBefore;
+  const to = index > 0 ? tiers[index - 1].minHoursBefore : null;
+  if (to === null) return `${from}+ hours`;
+  if (from === 0) return `Less than ${to} hours`;
+  return `${from}-${to} hours`;
+};
+
+/**
+ * Human-readable tier table for the cancellation preview.
+ */
+export function describePolicy(terms: PolicyTerms) {
+  const tiers = normalizeTiers(terms.tiers);
+  return tiers.map((tier, index) => ({
+    threshold: describeWindow(tiers, index),
+    refund: `${tier.refundPercent}%`,
+    description:
+      tier.refundPercent >= 100
+        ? 'Full refund'
+        : tier.refundPercent > 0
+          ? 'Partial refund'
+          : 'No refund',
+  }));
+}
+
+/**
+ * Refund owed for cancelling `hoursUntilAppointment` hours before start.
+ */
+export function calculateCancellationRefund(
+  policy: PolicyTerms & { depositAmount?: number },
+  amountPaid: number,
+  hoursUntilAppointment: number,
+): RefundQuote {
+  const tiers = normalizeTiers(policy.tiers);
+  const index = tiers.findIndex((t) => hoursUntilAppointment >= t.minHoursBefore);
+  const tier = tiers[index === -1 ? tiers.length - 1 : index];
+  const paid = Math.max(0, amountPaid || 0);
+
+  const depositForfeited =
+    policy.depositForfeiture?.enabled && tier.refundPercent < 100
+      ? roundMoney(Math.min(policy.depositAmount || 0, paid))
+      : 0;
+  const grossRefund = roundMoney(((paid - depositForfeited) * tier.refundPercent) / 100);
+  const cancellationFee =
+    grossRefund > 0 ? roundMoney(Math.min(policy.cancellationFee || 0, grossRefund)) : 0;
+  const refundAmount = roundMoney(grossRefund - cancellationFee);
+
+  const window = describeWindow(tiers, index === -1 ? tiers.length - 1 : index);
+  const parts = [
+    tier.refundPercent >= 100
+      ? 'Full refund'
+      : tier.refundPercent > 0
+        ? `${tier.refundPercent}% refund`
+        : 'No refund',
+    `(cancelled ${window.charAt(0).toLowerCase()}${window.slice(1)} before appointment)`,
+  ];
+  if (depositForfeited > 0) parts.push(`- $${depositForfeited.toFixed(2)} deposit forfeited`);
+  if (cancellationFee > 0) parts.push(`- $${cancellationFee.toFixed(2)} cancellation fee`);
+
+  return {
+    hoursUntilAppointment,
+    refundPercentage: tier.refundPercent,
+    policyTier: tierLabel(tier.refundPercent),
+    refundAmount,
+    cancellationFee,
+    depositForfeited,
+    nonRefundableAmount: roundMoney(paid - refundAmount),
+    policyMessage: parts.join(' '),
+  };
+}
+
+/**
+ * No-show fee in dollars for an appointment of the given total. A forfeitable
+ * deposit is the floor — a no-show never costs less than a late cancellation.
+ */
+export function calculateNoShowFee(
+  policy: PolicyTerms & { depositAmount?: number },
+  total: number,
+): number {
+  const fee = resolveFee(policy.noShowFee, total);
+  const deposit = policy.depositForfeiture?.enabled ? policy.depositAmount || 0 : 0;
+  return roundMoney(Math.min(Math.max(fee, deposit), Math.max(0, total || 0)));
+}
+
+/**
+ * Freeze the terms in force for a booking of `total` dollars. A booking that
+ * took a real deposit forfeits that deposit rather than the policy's figure.
+ */
+export function buildPolicySnapshot(
+  terms: PolicyTerms,
+  total: number,
+  meta: { policyId?: string | null; name?: string; depositAmount?: number } = {},
+): PolicySnapshot {
+  return {
+    policyId: meta.policyId || null,
+    name: meta.name || 'Standard policy',
+    tiers: normalizeTiers(terms.tiers),
+    cancellationFee: terms.cancellationFee || 0,
+    noShowFee: terms.noShowFee || DEFAULT_POLICY_TERMS.noShowFee,
+    depositForfeiture: terms.depositForfeiture || DEFAULT_POLICY_TERMS.depositForfeiture,
+    depositAmount: terms.depositForfeiture?.enabled
+      ? meta.depositAmount ?? resolveFee(terms.depositForfeiture, total)
+      : 0,
+    snapshotAt: new Date(),
+  };
+}
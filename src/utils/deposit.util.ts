@@ -0,0 +1,205 @@
+/**
+ * Deposit / split-payment math. Pure functions — Stripe calls live in
+ * services/deposit.service.
+ *
+ * A deposit booking charges `depositAmount` when the customer books and the
+ * remaining `balanceDue` later, either when the vendor completes the
+ * appointment or a set number of hours before it starts. Each part has its
+ * own PaymentIntent, so refunds and payouts are split across both.
+ */
+
+export type DepositType = 'fixed' | 'percentage';
+export type BalanceCapture = 'on_completion' | 'before_appointment';
+
+export interface DepositSettings {
+  enabled: boolean;
+  type: DepositType;
+  value: number;
+  balanceCapture: BalanceCapture;
+  // For `before_appointment`: charge the balance this many hours before start
+  balanceDueHoursBefore: number;
+}
+
+export interface BookingDeposit {
+  depositAmount: number;
+  balanceDue: number;
+  balanceCapture: BalanceCapture;
+  balanceDueAt: Date | null;
+}
+
+/**
+ * The paid parts of an appointment. Full-payment bookings only use the
+ * deposit slot (`paymentIntentId` / `total`).
+ */
+export interface PaymentParts {
+  depositPaid: number;
+  depositIntentId?: string | null;
+  balancePaid: number;
+  balanceIntentId?: string | null;
+}
+
+export interface RefundLeg {
+  paymentIntentId: string;
+  amount: number;
+  // Refunds the whole PaymentIntent — Stripe is called without an amount
+  full: boolean;
+}
+
+export const DEFAULT_DEPOSIT_SETTINGS: DepositSettings = {
+  enabled: false,
+  type: 'percentage',
+  value: 0,
+  balanceCapture: 'on_completion',
+  balanceDueHoursBefore: 24,
+};
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Validation message for deposit settings, or null when they are usable.
+ */
+export function validateDepositSettings(settings: Partial<DepositSettings>): string | null {
+  if (settings === null || typeof settings !== 'object') return 'deposit must be an object';
+  if (settings.type !== undefined && !['fixed', 'percentage'].includes(settings.type)) {
+    return 'deposit.type must be fixed or percentage';
+  }
+  if (settings.value !== undefined) {
+    if (!(Number(settings.value) >= 0)) return 'deposit.value must be 0 or more';
+    if (settings.type === 'percentage' && Number(settings.value) > 100) {
+      return 'deposit.value cannot exceed 100%';
+    }
+  }
+  if (
+    settings.balanceCapture !== undefined &&
+    !['on_completion', 'before_appointment'].includes(settings.balanceCapture)
+  ) {
+    return 'deposit.balanceCapture must be on_completion or before_appointment';
+  }
+  if (
+    settings.balanceDueHoursBefore !== undefined &&
+    !(Number(settings.balanceDueHoursBefore) >= 0)
+  ) {
+    return 'deposit.balanceDueHoursBefore must be 0 or more';
+  }
+  return null;
+}
+
+/**
+ * Deposit in dollars for a booking of `total`, or 0 when the booking should
+ * be paid in full (deposits off, or a deposit that covers the whole total).
+ */
+export function calculateDeposit(
+  settings: Partial<DepositSettings> | null | undefined,
+  total: number,
+): number {
+  if (!settings?.enabled || !(settings.value! > 0) || !(total > 0)) return 0;
+  const deposit =
+    settings.type === 'percentage' ? (total * settings.value!) / 100 : settings.value!;
+  const rounded = roundMoney(deposit);
+  return rounded >= total ? 0 : rounded;
+}
+
+/**
+ * Split a booking of `total` into deposit and balance. Returns null when the
+ * booking is paid in full. `startAt` dates a `before_appointment` balance.
+ */
+export function buildBookingDeposit(
+  settings: Partial<DepositSettings> | null | undefined,
+  total: number,
+  startAt?: Date | null,
+): BookingDeposit | null {
+  const depositAmount = calculateDeposit(settings, total);
+  if (depositAmount <= 0) return null;
+
+  const balanceCapture = settings?.balanceCapture || DEFAULT_DEPOSIT_SETTINGS.balanceCapture;
+  const hoursBefore =
+    settings?.balanceDueHoursBefore ?? DEFAULT_DEPOSIT_SETTINGS.balanceDueHoursBefore;
+  return {
+    depositAmount,
+    balanceDue: roundMoney(total - depositAmount),
+    balanceCapture,
+    balanceDueAt:
+      balanceCapture === 'before_appointment' && startAt
+        ? new Date(startAt.getTime() - hoursBefore * 60 * 60 * 1000)
+        : null,
+  };
+}
+
+/**
+ * Move a balance due date along with its appointment, keeping the lead time
+ * it was booked with.
+ */
+export const shiftBalanceDueAt = (balanceDueAt: Date, fromStartAt: Date, toStartAt: Date): Date =>
+  new Date(balanceDueAt.getTime() + (toStartAt.getTime() - fromStartAt.getTime()));
+
+/**
+ * Paid parts of an appointment. Full-payment bookings report their whole
+ * total against `paymentIntentId`.
+ */
+export function paymentPartsOf(appointment: {
+  paymentPlan?: 'full' | 'deposit';
+  total?: number;
+  depositPaid?: number;
+  balancePaid?: number;
+  paymentIntentId?: string | null;
+  balancePaymentIntentId?: string | null;
+}): PaymentParts {
+  if (appointment.paymentPlan !== 'deposit') {
+    return {
+      depositPaid: appointment.total || 0,
+      depositIntentId: appointment.paymentIntentId,
+      balancePaid: 0,
+    };
+  }
+  return {
+    depositPaid: appointment.depositPaid || 0,
+    depositIntentId: appointment.paymentIntentId,
+    balancePaid: appointment.balancePaid || 0,
+    balanceIntentId: appointment.balancePaymentIntentId,
+  };
+}
+
+export const amountPaid = (parts: PaymentParts): number =>
+  roundMoney((parts.depositPaid || 0) + (parts.balancePaid || 0));
+
+/**
+ * Spread a refund of `amount` dollars across the paid parts — balance
+ * first, so a partial refund leaves the deposit in place for as long as
+ * possible. Parts refunded in full are flagged so Stripe refunds the exact
+ * captured amount.
+ */
+export function splitRefund(parts: PaymentParts, amount: number): RefundLeg[] {
+  let remaining = roundMoney(Math.min(Math.max(0, amount || 0), amountPaid(parts)));
+  const legs: RefundLeg[] = [];
+  const sources = [
+    { paymentIntentId: parts.balanceIntentId, paid: parts.balancePaid || 0 },
+    { paymentIntentId: parts.depositIntentId, paid: parts.depositPaid || 0 },
+  ];
+
+  for (const source of sources) {
+    if (remaining <= 0 || !source.paymentIntentId || source.paid <= 0) continue;
+    const legAmount = roundMoney(Math.min(remaining, source.paid));
+    legs.push({
+      paymentIntentId: source.paymentIntentId,
+      amount: legAmount,
+      full: legAmount >= source.paid,
+    });
+    remaining = roundMoney(remaining - legAmount);
+  }
+  return legs;
+}
+
+/**
+ * Split an amount in cents between deposit and balance in proportion to the
+ * deposit's share of the total. The balance takes the rounding remainder so
+ * the two parts always add back up.
+ */
+export function allocateCents(
+  amountCents: number,
+  depositAmount: number,
+  total: number,
+): { deposit: number; balance: number } {
+  const share = total > 0 ? Math.min(1, Math.max(0, depositAmount / total)) : 1;
+  const deposit = Math.round(amountCents * share);
+  return { deposit, balance: amountCents - deposit };
+}
@@ -0,0 +1,247 @@
+/**
+ * Chargeback handling — payout decisions and the evidence we send Stripe.
+ * Pure functions; services/dispute.service does the I/O.
+ */
+
+export type DisputePayoutAction = 'hold' | 'reverse' | 'none';
+
+// Stripe caps each evidence text field at 20,000 characters
+export const EVIDENCE_TEXT_LIMIT = 20000;
+
+// Evidence fields an admin may set or override when responding
+export const EDITABLE_EVIDENCE_FIELDS = [
+  'product_description',
+  'customer_name',
+  'customer_email_address',
+  'service_date',
+  'access_activity_log',
+  'cancellation_policy_disclosure',
+  'cancellation_rebuttal',
+  'refund_policy_disclosure',
+  'refund_refusal_explanation',
+  'uncategorized_text',
+] as const;
+
+export type EvidenceField = (typeof EDITABLE_EVIDENCE_FIELDS)[number];
+export type DisputeEvidence = Partial<Record<EvidenceField, string>>;
+
+/**
+ * What a dispute does to a vendor payout: money not yet sent is held,
+ * money already transferred is pulled back.
+ */
+export function payoutDisputeAction(status: string): DisputePayoutAction {
+  switch (status) {
+    case 'pending':
+    case 'failed':
+      return 'hold';
+    case 'in_transit':
+    case 'paid':
+      return 'reverse';
+    default:
+      return 'none';
+  }
+}
+
+/**
+ * Split a disputed amount (cents) across transferred payouts, oldest
+ * first, never pulling back more than a payout still holds.
+ */
+export function reversalAmounts(
+  payouts: { netAmount: number; reversedAmount?: number }[],
+  disputedCents: number,
+): number[] {
+  let remaining = Math.max(0, Math.round(disputedCents));
+  return payouts.map((payout) => {
+    const available = Math.max(0, payout.netAmount - (payout.reversedAmount || 0));
+    const amount = Math.min(available, remaining);
+    remaining -= amount;
+    return amount;
+  });
+}
+
+/**
+ * A won dispute (or a closed inquiry) gives the money back to us, so the
+ * vendor is paid after all.
+ */
+export const isDisputeWon = (status: string) =>
+  status === 'won' || status === 'warning_closed' || status === 'prevented';
+
+// Evidence can only be submitted while Stripe is waiting for it
+export const acceptsEvidence = (status: string) =>
+  status === 'needs_response' || status === 'warning_needs_response';
+
+export interface TimelineEntry {
+  at: Date;
+  event: string;
+  source: 'appointment' | 'audit' | 'webhook';
+  detail?: string;
+}
+
+export interface TimelineAppointment {
+  createdAt?: Date | null;
+  balancePaidAt?: Date | null;
+  cancelledAt?: Date | null;
+  cancellationReason?: string | null;
+  completedAt?: Date | null;
+  startAt?: Date | null;
+  endAt?: Date | null;
+  statusHistory?: { at: Date; to: string; actor: string; reason?: string | null }[] | null;
+}
+
+const statusLabel = (status: string) => status.charAt(0).toUpperCase() + status.slice(1);
+
+/**
+ * Appointment history, oldest first: the booking, each status change with
+ * who made it, the audit log and the lifecycle events sent to the vendor's
+ * webhooks. Appointments from before the status log fall back to their
+ * cancelled/completed timestamps.
+ */
+export function buildStatusTimeline(
+  appointment: TimelineAppointment,
+  audit: { createdAt: Date; action: string; path: string; statusCode: number }[] = [],
+  webhookEvents: { createdAt: Date; event: string }[] = [],
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const add = (at: Date | null | undefined, event: string, detail?: string) => {
+    if (at) entries.push({ at: new Date(at), event, source: 'appointment', detail });
+  };
+  add(appointment.createdAt, 'Booked');
+  add(appointment.balancePaidAt, 'Balance paid');
+  add(appointment.startAt, 'Scheduled start');
+  add(appointment.endAt, 'Scheduled end');
+  const history = appointment.statusHistory || [];
+  for (const change of history) {
+    add(
+      change.at,
+      statusLabel(change.to),
+      `by ${change.actor}${change.reason ? `: ${change.reason}` : ''}`,
+    );
+  }
+  if (history.length === 0) {
+    add(appointment.cancelledAt, 'Cancelled', appointment.cancellationReason || undefined);
+    add(appointment.completedAt, 'Completed');
+  }
+
+  for (const entry of audit) {
+    if (entry.statusCode >= 400) continue;
+    entries.push({
+      at: new Date(entry.createdAt),
+      event: entry.action,
+      source: 'audit',
+      detail: entry.path,
+    });
+  }
+
+  // A replayed delivery repeats its event; list each event once
+  const seen = new Set<string>();
+  for (const delivery of webhookEvents) {
+    if (seen.has(delivery.event)) continue;
+    seen.add(delivery.event);
+    entries.push({ at: new Date(delivery.createdAt), event: delivery.event, source: 'webhook' });
+  }
+
+  return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+export const formatTimestamp = (at: Date) =>
+  `${at.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+export function formatTimeline(entries: TimelineEntry[]): string {
+  return entries
+    .map((e) => `${formatTimestamp(e.at)}  ${e.event}${e.detail ? ` — ${e.detail}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Chat transcript, oldest first, one message per line.
+ */
+export function formatTranscript(
+  messages: { createdAt: Date; senderRole: 'customer' | 'vendor'; content: string }[],
+  names: { customer: string; vendor: string },
+): string {
+  return [...messages]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .map(
+      (m) =>
+        `[${formatTimestamp(new Date(m.createdAt))}] ${names[m.senderRole]}: ${m.content.replace(/\s+/g, ' ')}`,
+    )
+    .join('\n');
+}
+
+// Keep the end of long logs and transcripts — the latest entries matter most
+export function truncateEvidence(text: string, limit = EVIDENCE_TEXT_LIMIT): string {
+  if (text.length <= limit) return text;
+  const marker = '[earlier entries omitted]\n';
+  return marker + text.slice(text.length - (limit - marker.length));
+}
+
+export interface EvidenceInput {
+  customerName?: string;
+  customerEmail?: string;
+  serviceName: string;
+  vendorName: string;
+  appointmentDate: string; // YYYY-MM-DD
+  startTime: string;
+  endTime: string;
+  servicePlace?: string;
+  total: number;
+  completedAt?: Date | null;
+  cancellationPolicyName?: string | null;
+  timeline: TimelineEntry[];
+  transcript: string;
+}
+
+/**
+ * Draft evidence from what we know about the booking. Admins review and
+ * add the rebuttal before submitting.
+ */
+export function composeDisputeEvidence(input: EvidenceInput): DisputeEvidence {
+  const evidence: DisputeEvidence = {
+    product_description:
+      `${input.serviceName} provided by ${input.vendorName} on ${input.appointmentDate}, ` +
+      `${input.startTime}–${input.endTime}` +
+      `${input.servicePlace ? ` (${input.servicePlace})` : ''}. Total charged $${input.total.toFixed(2)}.`,
+    service_date: input.appointmentDate,
+    access_activity_log: truncateEvidence(formatTimeline(input.timeline)),
+  };
+  if (input.customerName) evidence.customer_name = input.customerName;
+  if (input.customerEmail) evidence.customer_email_address = input.customerEmail;
+  if (input.cancellationPolicyName) {
+    evidence.cancellation_policy_disclosure = `The customer booked under the vendor's "${input.cancellationPolicyName}" cancellation policy, shown at checkout.`;
+  }
+
+  const completion = input.completedAt
+    ? `The appointment was marked completed at ${formatTimestamp(new Date(input.completedAt))}.`
+    : 'The appointment has not been marked completed.';
+  const transcript = input.transcript
+    ? `\n\nMessages between the customer and ${input.vendorName}:\n${input.transcript}`
+    : '';
+  evidence.uncategorized_text = truncateEvidence(completion + transcript);
+  return evidence;
+}
+
+/**
+ * Evidence fields from a request body. Unknown fields and non-strings are
+ * errors rather than silently dropped.
+ */
+export function pickEvidenceOverrides(body: unknown): {
+  evidence: DisputeEvidence;
+  error?: string;
+} {
+  if (body === undefined || body === null) return { evidence: {} };
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    return { evidence: {}, error: 'evidence must be an object' };
+  }
+  const evidence: DisputeEvidence = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!(EDITABLE_EVIDENCE_FIELDS as readonly string[]).includes(key)) {
+      return { evidence: {}, error: `Unknown evidence field: ${key}` };
+    }
+    if (typeof value !== 'string') return { evidence: {}, error: `${key} must be a string` };
+    if (value.length > EVIDENCE_TEXT_LIMIT) {
+      return { evidence: {}, error: `${key} must be at most ${EVIDENCE_TEXT_LIMIT} characters` };
+    }
+    evidence[key as EvidenceField] = value;
+  }
+  return { evidence };
+}
@@ -0,0 +1,164 @@
+/**
+ * Minimal mustache-style template engine for emails. Pure functions — the
+ * templates themselves live in src/templates/email.
+ *
+ *   {{name}}               escaped value
+ *   {{{name}}}             raw value (already-rendered HTML)
+ *   {{> partial}}          another template (layout pieces, buttons)
+ *   {{#name}}…{{/name}}    only when `name` is set
+ *   {{^name}}…{{/name}}    only when `name` is not set
+ */
+
+export type TemplateValue = string | number | boolean | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface TemplateVariableSpec {
+  description: string;
+  required?: boolean;
+  // Used by the admin preview
+  example: string;
+}
+
+export interface RenderOptions {
+  partials?: Record<string, string>;
+  escape?: (value: string) => string;
+}
+
+const MAX_PARTIAL_DEPTH = 5;
+const PARTIAL = /\{\{>\s*([\w-]+)\s*\}\}/g;
+const SECTION = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+// Raw and escaped in one pass, so values are never re-scanned for tags
+const VARIABLE = /\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g;
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const isSet = (value: TemplateValue) =>
+  value !== undefined && value !== null && value !== '' && value !== false;
+
+function expandPartials(source: string, partials: Record<string, string>, depth = 0): string {
+  if (depth > MAX_PARTIAL_DEPTH) throw new Error('Email template partials nest too deeply');
+  return source.replace(PARTIAL, (_match, name: string) => {
+    if (partials[name] === undefined) throw new Error(`Unknown email template partial: ${name}`);
+    return expandPartials(partials[name], partials, depth + 1);
+  });
+}
+
+export function renderTemplate(
+  source: string,
+  variables: TemplateVariables,
+  { partials = {}, escape = escapeHtml }: RenderOptions = {},
+): string {
+  let output = expandPartials(source, partials);
+
+  // Innermost sections first, until none are left
+  let previous: string;
+  do {
+    previous = output;
+    output = output.replace(SECTION, (_match, kind: string, name: string, inner: string) =>
+      isSet(variables[name]) === (kind === '#') ? inner : '',
+    );
+  } while (output !== previous);
+
+  const value = (name: string) => (isSet(variables[name]) ? String(variables[name]) : '');
+  return output.replace(VARIABLE, (_match, raw?: string, escaped?: string) =>
+    raw ? value(raw) : escape(value(escaped!)),
+  );
+}
+
+/**
+ * Every variable a template references, partials included.
+ */
+export function templateVariables(source: string, partials: Record<string, string> = {}): string[] {
+  const expanded = expandPartials(source, partials);
+  const names = new Set<string>();
+  for (const match of expanded.matchAll(SECTION)) names.add(match[2]);
+  for (const match of expanded.matchAll(VARIABLE)) names.add(match[1] || match[2]);
+  return [...names].sort();
+}
+
+/**
+ * Problems with the variables passed for a template: missing required
+ * ones, names the template doesn't declare, and non-scalar values.
+ */
+export function validateTemplateVariables(
+  specs: Record<string, TemplateVariableSpec>,
+  variables: Record<string, unknown>,
+): string[] {
+  const errors: string[] = [];
+  for (const [name, spec] of Object.entries(specs)) {
+    if (spec.required && !isSet(variables[name] as TemplateValue)) {
+      errors.push(`${name} is required`);
+    }
+  }
+  for (const [name, value] of Object.entries(variables)) {
+    if (!specs[name]) {
+      errors.push(`${name} is not a variable of this template`);
+    } else if (value !== null && value !== undefined && typeof value === 'object') {
+      errors.push(`${name} must be a string, number or boolean`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Plain-text fallback for an HTML body: links keep their URL, list items
+ * become dashes, block elements become line breaks.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(
+      /<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi,
+      (_match, href: string, label: string) => {
+        const text = label.replace(/<[^>]+>/g, '').trim();
+        return text && text !== href ? `${text}: ${href}` : href;
+      },
+    )
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|tr|table)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Best available locale for a language preference ("es-MX", "es_MX", or an
+ * Accept-Language list). Falls back from region to base language, then to
+ * `fallback`.
+ */
+export function resolveLocale(
+  requested: string | null | undefined,
+  available: readonly string[],
+  fallback: string,
+): string {
+  const candidates = (requested || '')
+    .split(',')
+    .map((part) => part.split(';')[0].trim().replace('_', '-').toLowerCase())
+    .filter(Boolean);
+
+  for (const candidate of candidates) {
+    const exact = available.find((locale) => locale.toLowerCase() === candidate);
+    if (exact) return exact;
+    const base = available.find((locale) => locale.toLowerCase() === candidate.split('-')[0]);
+    if (base) return base;
+  }
+  return fallback;
+}
+
+export const isValidLanguageTag = (value: unknown): value is string =>
+  typeof value === 'string' && /^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/i.test(value);
@@ -0,0 +1,198 @@
+import moment from 'moment-timezone';
+import { isAppointmentUid } from './ics.util';
+import { isValidTimezone } from './timezone.util';
+
+/**
+ * External calendar busy-time parsing. Pure functions — provider calls and
+ * sync live in services/calendar-providers.service and
+ * services/external-calendar-sync.service.
+ *
+ * Busy intervals arrive as UTC instants. They are split into vendor-local
+ * per-day windows so they can be stored as block times, which the slot
+ * engine, date discovery and booking checks already respect.
+ *
+ * Recurring events are only expanded when the server does it (CalDAV
+ * `<C:expand>`, Google `singleEvents`); a plain ICS URL contributes the
+ * first occurrence of an RRULE series.
+ */
+
+export interface BusyInterval {
+  uid: string;
+  start: Date;
+  end: Date;
+}
+
+// One vendor-local block derived from a busy interval
+export interface ImportedBlock {
+  uid: string;
+  fromDate: string; // YYYY-MM-DD
+  toDate: string;
+  allDay: boolean;
+  fromTime?: string;
+  toTime?: string;
+}
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+const DURATION_PATTERN = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+function parseProperty(line: string): [string, IcsProperty] | null {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return [name.toUpperCase(), { params, value: line.slice(colon + 1).trim() }];
+}
+
+function parseIcsInstant(prop: IcsProperty, defaultTz: string): Date | null {
+  const { value, params } = prop;
+  let parsed: moment.Moment;
+  if (params.VALUE === 'DATE' || /^\d{8}$/.test(value)) {
+    // All-day dates belong to the vendor's day
+    parsed = moment.tz(value, 'YYYYMMDD', defaultTz);
+  } else if (value.endsWith('Z')) {
+    parsed = moment.utc(value, 'YYYYMMDDTHHmmss[Z]');
+  } else {
+    const tz = params.TZID && isValidTimezone(params.TZID) ? params.TZID : defaultTz;
+    parsed = moment.tz(value, 'YYYYMMDDTHHmmss', tz);
+  }
+  return parsed.isValid() ? parsed.toDate() : null;
+}
+
+function durationMs(value: string): number | null {
+  const match = DURATION_PATTERN.exec(value);
+  if (!match) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((n) => Number(n || 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Busy intervals from an iCalendar document. Free (TRANSP:TRANSPARENT) and
+ * cancelled events are skipped, as are events we pushed ourselves.
+ */
+export function parseIcsBusy(text: string, defaultTz: string): BusyInterval[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const intervals: BusyInterval[] = [];
+  let event: Record<string, IcsProperty> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const interval = toBusyInterval(event, defaultTz);
+      if (interval) intervals.push(interval);
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+    const parsed = parseProperty(line);
+    // First occurrence wins (nested VALARM blocks repeat some names)
+    if (parsed && !event[parsed[0]]) event[parsed[0]] = parsed[1];
+  }
+  return intervals;
+}
+
+function toBusyInterval(
+  event: Record<string, IcsProperty>,
+  defaultTz: string,
+): BusyInterval | null {
+  const uid = event.UID?.value || '';
+  if (isAppointmentUid(uid)) return null;
+  if (event.TRANSP?.value.toUpperCase() === 'TRANSPARENT') return null;
+  if (event.STATUS?.value.toUpperCase() === 'CANCELLED') return null;
+  if (!event.DTSTART) return null;
+
+  const start = parseIcsInstant(event.DTSTART, defaultTz);
+  if (!start) return null;
+
+  let end = event.DTEND ? parseIcsInstant(event.DTEND, defaultTz) : null;
+  if (!end && event.DURATION) {
+    const ms = durationMs(event.DURATION.value);
+    if (ms !== null) end = new Date(start.getTime() + ms);
+  }
+  if (!end && (event.DTSTART.params.VALUE === 'DATE' || /^\d{8}$/.test(event.DTSTART.value))) {
+    end = moment(start).tz(defaultTz).add(1, 'day').toDate();
+  }
+  if (!end || end <= start) return null;
+  return { uid, start, end };
+}
+
+/**
+ * iCalendar bodies inside a CalDAV multistatus response.
+ */
+export function extractCalDavCalendarData(xml: string): string[] {
+  const pattern = /<(?:[\w-]+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g;
+  const bodies: string[] = [];
+  for (const match of xml.matchAll(pattern)) {
+    bodies.push(
+      match[1]
+        .replace(/^\s*<!\[CDATA\[/, '')
+        .replace(/\]\]>\s*$/, '')
+        .replace(/&#13;|&#x0?D;/gi, '\r')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&'),
+    );
+  }
+  return bodies;
+}
+
+/**
+ * Split busy intervals into vendor-local block entries, clipped to the
+ * `from`–`to` date keys. Whole days collapse into multi-day all-day blocks.
+ */
+export function busyIntervalsToBlocks(
+  intervals: BusyInterval[],
+  tz: string,
+  from?: string,
+  to?: string,
+): ImportedBlock[] {
+  const blocks: ImportedBlock[] = [];
+
+  for (const interval of intervals) {
+    const end = moment(interval.end).tz(tz);
+    // Round a partial trailing minute up so the block covers it
+    if (end.seconds() || end.milliseconds()) end.startOf('minute').add(1, 'minute');
+    let cursor = moment(interval.start).tz(tz).startOf('minute');
+
+    while (cursor.isBefore(end)) {
+      const nextDay = cursor.clone().startOf('day').add(1, 'day');
+      const segmentEnd = moment.min(end, nextDay);
+      const date = cursor.format('YYYY-MM-DD');
+      const fromTime = cursor.format('HH:mm');
+      const toTime = segmentEnd.isSame(nextDay) ? '24:00' : segmentEnd.format('HH:mm');
+      cursor = nextDay;
+
+      if ((from && date < from) || (to && date > to) || fromTime === toTime) continue;
+
+      const previous = blocks[blocks.length - 1];
+      const allDay = fromTime === '00:00' && toTime === '24:00';
+      if (
+        allDay &&
+        previous?.allDay &&
+        previous.uid === interval.uid &&
+        moment.utc(previous.toDate).add(1, 'day').format('YYYY-MM-DD') === date
+      ) {
+        previous.toDate = date;
+        continue;
+      }
+      blocks.push(
+        allDay
+          ? { uid: interval.uid, fromDate: date, toDate: date, allDay: true }
+          : { uid: interval.uid, fromDate: date, toDate: date, allDay: false, fromTime, toTime },
+      );
+    }
+  }
+  return blocks;
+}
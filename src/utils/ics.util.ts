@@ -0,0 +1,148 @@
+/**
+ * iCalendar (RFC 5545) serialisation. Pure functions — appointment lookups
+ * live in services/ics.service.
+ *
+ * Every appointment keeps the same UID for its whole life; calendar clients
+ * use SEQUENCE to tell which copy is newer after a reschedule or cancel.
+ */
+
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  status: IcsEventStatus;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  // Last change to the appointment (LAST-MODIFIED)
+  updatedAt?: Date;
+}
+
+export interface IcsCalendarOptions {
+  name?: string;
+  // iTIP method; PUBLISH (the default) suits feeds and downloaded files
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+  // How often subscribed clients should re-fetch, in minutes
+  refreshMinutes?: number;
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//AppNow//Appointments//EN';
+const UID_DOMAIN = 'appnow.com';
+// RFC 5545 §3.1: lines longer than 75 octets are folded
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Stable UID for an appointment, shared by feeds and attachments.
+ */
+export function appointmentUid(appointmentId: string): string {
+  return `appointment-${appointmentId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Whether a UID is one of ours — used to skip our own events when
+ * importing from calendars we also push to.
+ */
+export function isAppointmentUid(uid: string): boolean {
+  return uid.startsWith('appointment-') && uid.endsWith(`@${UID_DOMAIN}`);
+}
+
+/**
+ * ICS status for an appointment status. Finished appointments stay confirmed
+ * so they remain visible in the calendar history.
+ */
+export function appointmentStatusToIcs(status: string): IcsEventStatus {
+  if (status === 'pending') return 'TENTATIVE';
+  if (status === 'cancelled' || status === 'failed') return 'CANCELLED';
+  return 'CONFIRMED';
+}
+
+/**
+ * UTC date-time in basic format, e.g. 20260310T140000Z.
+ */
+export function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines).
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets. Continuation lines start with a space;
+ * multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: IcsEvent, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialise events into a VCALENDAR document with CRLF line endings.
+ */
+export function buildIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions = {}): string {
+  const now = options.now || new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method || 'PUBLISH'}`,
+  ];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+  for (const event of events) lines.push(...eventLines(event, now));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
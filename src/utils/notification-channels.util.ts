@@ -0,0 +1,129 @@
+import { userPushTokens } from './push-receipt.util';
+
+/**
+ * Channel resolution for outgoing notifications. Pure functions — sending
+ * lives in services/notification-dispatcher.service.
+ *
+ * Each notification type maps to a preference group (booking updates,
+ * reminders, promotions) and every channel has its own toggle in
+ * `User.notificationPrefs`. On top of the toggles:
+ *   - SMS always needs `smsConsent` (TCPA)
+ *   - promotional email needs `marketingEmailConsent` (CAN-SPAM)
+ *   - system messages are push / in-app only
+ */
+
+export type NotificationType = 'appointment' | 'reminder' | 'promotion' | 'system';
+export type NotificationChannel = 'push' | 'email' | 'sms';
+export type DeliveryStatus = 'sent' | 'queued' | 'failed' | 'skipped';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'appointment',
+  'reminder',
+  'promotion',
+  'system',
+];
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['push', 'email', 'sms'];
+
+export interface NotificationPrefs {
+  pushBookingUpdates: boolean;
+  pushReminders: boolean;
+  pushPromotions: boolean;
+  emailBookingUpdates: boolean;
+  emailReminders: boolean;
+  emailPromotions: boolean;
+  smsBookingUpdates: boolean;
+  smsReminders: boolean;
+  smsPromotions: boolean;
+}
+
+// Same defaults as the User schema, for users saved before prefs existed
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  pushBookingUpdates: true,
+  pushReminders: true,
+  pushPromotions: false,
+  emailBookingUpdates: true,
+  emailReminders: true,
+  emailPromotions: false,
+  smsBookingUpdates: true,
+  smsReminders: true,
+  smsPromotions: false,
+};
+
+export interface RecipientProfile {
+  email?: string | null;
+  phone?: string | null;
+  expoPushToken?: string | null;
+  pushTokens?: { token: string }[] | null;
+  notificationPrefs?: Partial<NotificationPrefs> | null;
+  smsConsent?: boolean;
+  marketingEmailConsent?: boolean;
+}
+
+export interface ChannelDecision {
+  channel: NotificationChannel;
+  send: boolean;
+  // Why the channel was skipped
+  reason?:
+    | 'not_requested'
+    | 'not_applicable'
+    | 'opted_out'
+    | 'no_consent'
+    | 'no_push_token'
+    | 'no_email'
+    | 'no_phone';
+}
+
+const PREF_GROUP: Record<NotificationType, 'BookingUpdates' | 'Reminders' | 'Promotions' | null> = {
+  appointment: 'BookingUpdates',
+  reminder: 'Reminders',
+  promotion: 'Promotions',
+  system: null,
+};
+
+function decide(
+  recipient: RecipientProfile,
+  type: NotificationType,
+  channel: NotificationChannel,
+): ChannelDecision {
+  const group = PREF_GROUP[type];
+  if (!group) {
+    return channel === 'push'
+      ? userPushTokens(recipient).length > 0
+        ? { channel, send: true }
+        : { channel, send: false, reason: 'no_push_token' }
+      : { channel, send: false, reason: 'not_applicable' };
+  }
+
+  const prefs = { ...DEFAULT_NOTIFICATION_PREFS, ...(recipient.notificationPrefs || {}) };
+  if (!prefs[`${channel}${group}`]) return { channel, send: false, reason: 'opted_out' };
+
+  if (channel === 'push') {
+    return userPushTokens(recipient).length > 0
+      ? { channel, send: true }
+      : { channel, send: false, reason: 'no_push_token' };
+  }
+  if (channel === 'email') {
+    if (type === 'promotion' && !recipient.marketingEmailConsent) {
+      return { channel, send: false, reason: 'no_consent' };
+    }
+    return recipient.email ? { channel, send: true } : { channel, send: false, reason: 'no_email' };
+  }
+  if (!recipient.smsConsent) return { channel, send: false, reason: 'no_consent' };
+  return recipient.phone ? { channel, send: true } : { channel, send: false, reason: 'no_phone' };
+}
+
+/**
+ * Decide every channel for one recipient. `only` narrows the channels the
+ * caller wants; the rest come back as `not_requested`.
+ */
+export function resolveChannels(
+  recipient: RecipientProfile,
+  type: NotificationType,
+  only?: NotificationChannel[],
+): ChannelDecision[] {
+  return NOTIFICATION_CHANNELS.map((channel) =>
+    only && !only.includes(channel)
+      ? { channel, send: false, reason: 'not_requested' }
+      : decide(recipient, type, channel),
+  );
+}
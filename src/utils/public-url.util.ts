@@ -0,0 +1,22 @@
+import { lookup } from 'dns/promises';
+import { isPrivateAddress, webhookUrlError } from './vendor-webhook.util';
+
+/**
+ * Refuse a URL a vendor gave us (webhook endpoint, calendar feed) that leads
+ * inside our network. URLs are checked when saved, but a public hostname can
+ * resolve to a private address later, so in production what it resolves to
+ * right now is checked too. Call before every request; `label` starts the
+ * error message.
+ */
+export async function assertPublicUrl(url: string, label: string): Promise<void> {
+  const production = process.env.NODE_ENV === 'production';
+  const error = webhookUrlError(url, production);
+  if (error) throw new Error(`${label} ${error}`);
+  if (!production) return;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookup(host, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${label} url must point to a public host`);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Expo push ticket and receipt handling rules. Pure functions — the
+ * sending and polling live in services/push-notification.service.
+ *
+ * Expo answers a send with a ticket per message, and ~15 minutes later a
+ * receipt per ticket id saying whether Apple / Google accepted it. Either
+ * can carry an error code:
+ *   - DeviceNotRegistered   the app was uninstalled; drop the token
+ *   - MessageRateExceeded   too many messages to this device; retry later
+ *   - anything else         (MessageTooBig, InvalidCredentials, …) won't
+ *                           succeed on retry
+ */
+
+export type PushErrorKind = 'invalid_token' | 'transient' | 'permanent';
+
+// Receipts are ready after ~15 minutes and kept by Expo for 24 hours
+export const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+export const RECEIPT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_PUSH_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_CAP_MS = 60 * 60 * 1000;
+
+// getReceipts accepts up to 1000 ids per request
+export const RECEIPT_BATCH_SIZE = 1000;
+
+export function classifyPushError(code: string | null | undefined): PushErrorKind {
+  if (code === 'DeviceNotRegistered') return 'invalid_token';
+  if (code === 'MessageRateExceeded') return 'transient';
+  return 'permanent';
+}
+
+/**
+ * Delay before the next attempt: 1, 2, 4, 8… minutes, capped at an hour.
+ * `attempts` is how many sends have been made so far.
+ */
+export function pushRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_CAP_MS);
+}
+
+/**
+ * When to try again, or null once attempts are used up.
+ */
+export function nextPushAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_PUSH_ATTEMPTS) return null;
+  return new Date(now.getTime() + pushRetryDelayMs(attempts));
+}
+
+export function isValidExpoPushToken(token: string | null | undefined): token is string {
+  return !!token && (token.startsWith('ExponentPushToken[') || token.startsWith('ExpoPushToken['));
+}
+
+/**
+ * Every valid device token for a user: the registered devices plus the
+ * single-token field from before multi-device support. Deduplicated.
+ */
+export function userPushTokens(user: {
+  expoPushToken?: string | null;
+  pushTokens?: { token: string }[] | null;
+}): string[] {
+  const tokens = [...(user.pushTokens || []).map((device) => device.token), user.expoPushToken];
+  return [...new Set(tokens.filter(isValidExpoPushToken))];
+}
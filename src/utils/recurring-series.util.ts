@@ -0,0 +1,263 @@
+import moment from 'moment';
+import { timeToMinutes, toDateKey } from './timezone.util';
+
+/**
+ * Recurring series: dates, how far ahead occurrences are booked, when each
+ * is charged, and the alternatives offered when an occurrence's time is
+ * taken. Pure functions — the writes live in services/recurring-series.
+ *
+ * Occurrences are booked a rolling window ahead (ROLLING_HORIZON_DAYS, or
+ * the service's booking horizon when that is shorter) rather than all at
+ * once, so open-ended series and long fixed ones work the same way: the
+ * scheduler books the next ones as the window moves.
+ */
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export const MIN_OCCURRENCES = 2;
+// Fixed-length series; longer ones are open-ended
+export const MAX_FIXED_OCCURRENCES = 52;
+
+// How far ahead occurrences are booked
+export const ROLLING_HORIZON_DAYS = 56;
+
+// Later occurrences are charged to the saved card this long before they start
+export const OCCURRENCE_CHARGE_LEAD_HOURS = 24;
+// A failed charge is retried this much later, up to MAX_OCCURRENCE_CHARGE_ATTEMPTS
+// in all; after the last one fails the occurrence is cancelled
+export const OCCURRENCE_CHARGE_RETRY_HOURS = 6;
+export const MAX_OCCURRENCE_CHARGE_ATTEMPTS = 3;
+// A charge stuck in `processing` this long belongs to a sweep that died
+export const OCCURRENCE_CHARGE_STALE_MS = 10 * 60 * 1000;
+
+// Alternatives offered for an occurrence whose time is taken
+export const MAX_ALTERNATIVE_TIMES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  // null = open-ended
+  occurrences: number | null;
+}
+
+export interface OccurrenceTime {
+  startTime: string;
+  endTime: string;
+}
+
+export type ConflictReason = 'booked' | 'unavailable' | 'no_availability';
+
+export interface OccurrenceConflict {
+  index: number;
+  appointmentDate: Date;
+  startTime: string;
+  endTime: string;
+  reason: ConflictReason;
+  // Free times on the same date, closest to the series time first
+  alternatives: OccurrenceTime[];
+}
+
+export type OccurrenceResolution =
+  | { index: number; action: 'skip' }
+  | { index: number; action: 'move'; startTime: string; endTime: string };
+
+/**
+ * The series' recurrence from a request body, or a validation message.
+ * `occurrences` may be left out for an open-ended series.
+ */
+export function parseRecurrence(
+  input: { frequency?: unknown; occurrences?: unknown } | null | undefined,
+): Recurrence | string {
+  if (!input || !RECURRENCE_FREQUENCIES.includes(input.frequency as RecurrenceFrequency)) {
+    return `recurrence.frequency must be ${RECURRENCE_FREQUENCIES.join('|')}`;
+  }
+  const frequency = input.frequency as RecurrenceFrequency;
+  if (input.occurrences === undefined || input.occurrences === null) {
+    return { frequency, occurrences: null };
+  }
+  const occurrences = Number(input.occurrences);
+  if (
+    !Number.isInteger(occurrences) ||
+    occurrences < MIN_OCCURRENCES ||
+    occurrences > MAX_FIXED_OCCURRENCES
+  ) {
+    return `recurrence.occurrences must be between ${MIN_OCCURRENCES} and ${MAX_FIXED_OCCURRENCES}, or left out for an open-ended series`;
+  }
+  return { frequency, occurrences };
+}
+
+/**
+ * Calendar date (UTC midnight) of occurrence `index`, counted from 0.
+ * Monthly series on the 29th–31st fall on the last day of shorter months.
+ */
+export function occurrenceDate(
+  anchorDate: Date | string,
+  frequency: RecurrenceFrequency,
+  index: number,
+): Date {
+  const anchor = moment.utc(toDateKey(anchorDate));
+  switch (frequency) {
+    case 'weekly':
+      return anchor.add(index, 'weeks').toDate();
+    case 'biweekly':
+      return anchor.add(index * 2, 'weeks').toDate();
+    case 'monthly':
+      return anchor.add(index, 'months').toDate();
+  }
+}
+
+/**
+ * Last calendar date occurrences are booked for right now. A service
+ * horizon (maxAdvanceDays, 0 = none) shorter than ours wins.
+ */
+export function bookingHorizon(now: Date, maxAdvanceDays = 0): Date {
+  const days =
+    maxAdvanceDays > 0 ? Math.min(ROLLING_HORIZON_DAYS, maxAdvanceDays) : ROLLING_HORIZON_DAYS;
+  return new Date(`${toDateKey(new Date(now.getTime() + days * DAY_MS))}T00:00:00.000Z`);
+}
+
+/**
+ * Indexes of the occurrences due to be booked: from `nextIndex` up to the
+ * horizon, and no further than the series' length. The first occurrence is
+ * always due, wherever it falls.
+ */
+export function dueOccurrenceIndexes(
+  series: {
+    anchorDate: Date | string;
+    frequency: RecurrenceFrequency;
+    occurrences: number | null;
+    nextIndex: number;
+  },
+  horizon: Date,
+): number[] {
+  const indexes: number[] = [];
+  for (let index = series.nextIndex; ; index++) {
+    if (series.occurrences !== null && index >= series.occurrences) break;
+    if (index > 0 && occurrenceDate(series.anchorDate, series.frequency, index) > horizon) break;
+    indexes.push(index);
+  }
+  return indexes;
+}
+
+/**
+ * When a later occurrence is charged to the saved card.
+ */
+export const occurrenceChargeDueAt = (startAt: Date): Date =>
+  new Date(startAt.getTime() - OCCURRENCE_CHARGE_LEAD_HOURS * HOUR_MS);
+
+/**
+ * When a failed charge is tried again, or null when it was the last try.
+ */
+export function occurrenceChargeRetryAt(attempts: number, now: Date): Date | null {
+  if (attempts >= MAX_OCCURRENCE_CHARGE_ATTEMPTS) return null;
+  return new Date(now.getTime() + OCCURRENCE_CHARGE_RETRY_HOURS * HOUR_MS);
+}
+
+/**
+ * Free slots closest to the wanted start time, earlier first on a tie.
+ */
+export function alternativeTimes(
+  slots: { start_time: string; end_time: string }[],
+  wanted: OccurrenceTime,
+  limit: number = MAX_ALTERNATIVE_TIMES,
+): OccurrenceTime[] {
+  const target = timeToMinutes(wanted.startTime);
+  return slots
+    .filter((slot) => slot.start_time !== wanted.startTime || slot.end_time !== wanted.endTime)
+    .map((slot) => ({ startTime: slot.start_time, endTime: slot.end_time }))
+    .sort(
+      (a, b) =>
+        Math.abs(timeToMinutes(a.startTime) - target) -
+          Math.abs(timeToMinutes(b.startTime) - target) ||
+        timeToMinutes(a.startTime) - timeToMinutes(b.startTime),
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Resolutions for conflicting occurrences, by index, or a validation
+ * message. Every conflict needs one; the first occurrence can be moved
+ * but not skipped.
+ */
+export function parseResolutions(
+  input: unknown,
+  conflicts: { index: number }[],
+): Map<number, OccurrenceResolution> | string {
+  const resolutions = new Map<number, OccurrenceResolution>();
+  for (const entry of Array.isArray(input) ? input : []) {
+    const index = Number(entry?.index);
+    if (!Number.isInteger(index) || index < 0) return 'Each resolution needs an occurrence index';
+    if (entry.action === 'skip') {
+      if (index === 0) return 'The first occurrence can be moved but not skipped';
+      resolutions.set(index, { index, action: 'skip' });
+    } else if (entry.action === 'move') {
+      if (!entry.startTime || !entry.endTime) return 'A move needs startTime and endTime';
+      resolutions.set(index, {
+        index,
+        action: 'move',
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+      });
+    } else {
+      return 'Resolution action must be skip or move';
+    }
+  }
+  const unresolved = conflicts.filter((conflict) => !resolutions.has(conflict.index));
+  if (unresolved.length > 0) {
+    return `Occurrences ${unresolved.map((c) => c.index).join(', ')} still need a resolution`;
+  }
+  return resolutions;
+}
+
+interface MessageText {
+  title: string;
+  body: string;
+}
+
+const describeDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * What the customer is told when an occurrence needs their attention.
+ */
+export function occurrenceMessage(
+  kind: 'conflict' | 'charge_failed' | 'cancelled_unpaid',
+  details: {
+    serviceName: string;
+    appointmentDate: Date | string;
+    startTime: string;
+    attemptsLeft?: number;
+  },
+): MessageText {
+  const when = `${describeDate(details.appointmentDate)} at ${details.startTime}`;
+  switch (kind) {
+    case 'conflict':
+      return {
+        title: 'Choose Another Time',
+        body: `Your recurring ${details.serviceName} on ${when} isn't available. Pick another time or skip that date.`,
+      };
+    case 'charge_failed':
+      return {
+        title: 'Payment Failed',
+        body: `We couldn't charge your card for your ${details.serviceName} on ${when}. Please update your payment method${
+          details.attemptsLeft
+            ? ` — we'll try again ${details.attemptsLeft} more time${details.attemptsLeft === 1 ? '' : 's'}`
+            : ''
+        }.`,
+      };
+    case 'cancelled_unpaid':
+      return {
+        title: 'Appointment Cancelled',
+        body: `Your ${details.serviceName} on ${when} was cancelled because the payment didn't go through. The rest of your series is unchanged.`,
+      };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Per-vendor rescheduling rules and the messages sent at each step of a
+ * reschedule. Pure functions — the slot checks and writes live in
+ * services/reschedule.service.
+ *
+ *   no approval:   customer asks → moved straight away
+ *   approval:      customer asks → vendor accepts | declines | counters
+ *                  counter → customer picks one | declines
+ *   the customer can withdraw a request until it is accepted or declined
+ */
+
+export interface ReschedulePolicy {
+  // Closest to the start a customer may still reschedule, in hours. 0 = any time before it starts
+  minNoticeHours: number;
+  // Times one appointment may be moved by the customer. 0 = no limit
+  maxReschedules: number;
+  // Requests wait for the vendor to accept instead of moving straight away
+  requireApproval: boolean;
+}
+
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicy = {
+  minNoticeHours: 0,
+  maxReschedules: 0,
+  requireApproval: false,
+};
+
+// Alternatives a vendor may offer in one counter-proposal
+export const MAX_COUNTER_PROPOSALS = 3;
+
+export type RescheduleStep =
+  | 'requested'
+  | 'rescheduled'
+  | 'accepted'
+  | 'declined'
+  | 'countered'
+  | 'counter_accepted'
+  | 'counter_declined'
+  | 'withdrawn';
+
+export interface RescheduleTime {
+  appointmentDate: Date | string;
+  startTime: string;
+  endTime: string;
+}
+
+const NUMBER_KEYS = ['minNoticeHours', 'maxReschedules'] as const;
+
+/**
+ * Stored (possibly partial) policy with defaults filled in.
+ */
+export function resolveReschedulePolicy(
+  policy?: Partial<ReschedulePolicy> | null,
+): ReschedulePolicy {
+  const resolved = { ...DEFAULT_RESCHEDULE_POLICY };
+  for (const key of NUMBER_KEYS) {
+    const value = Number(policy?.[key]);
+    if (Number.isFinite(value) && value >= 0) resolved[key] = value;
+  }
+  if (typeof policy?.requireApproval === 'boolean') {
+    resolved.requireApproval = policy.requireApproval;
+  }
+  return resolved;
+}
+
+/**
+ * Validation message for a policy, or null when it is usable.
+ */
+export function validateReschedulePolicy(policy: Partial<ReschedulePolicy>): string | null {
+  if (policy === null || typeof policy !== 'object') return 'reschedulePolicy must be an object';
+  for (const key of NUMBER_KEYS) {
+    if (policy[key] === undefined) continue;
+    const value = Number(policy[key]);
+    if (!Number.isInteger(value) || value < 0) {
+      return `reschedulePolicy.${key} must be a whole number, 0 or more`;
+    }
+  }
+  if (policy.requireApproval !== undefined && typeof policy.requireApproval !== 'boolean') {
+    return 'reschedulePolicy.requireApproval must be true or false';
+  }
+  return null;
+}
+
+/**
+ * Why the customer can't reschedule this appointment any more, or null
+ * when the policy still allows it.
+ */
+export function rescheduleEligibilityError(
+  policy: ReschedulePolicy,
+  appointment: { rescheduleCount?: number | null },
+  hoursUntilAppointment: number,
+): string | null {
+  if (hoursUntilAppointment <= 0) {
+    return 'This appointment has already started and can no longer be rescheduled';
+  }
+  if (policy.minNoticeHours > 0 && hoursUntilAppointment < policy.minNoticeHours) {
+    return `Appointments can only be rescheduled up to ${policy.minNoticeHours} hour${
+      policy.minNoticeHours === 1 ? '' : 's'
+    } before they start`;
+  }
+  const count = appointment.rescheduleCount || 0;
+  if (policy.maxReschedules > 0 && count >= policy.maxReschedules) {
+    return `This appointment has already been rescheduled ${count} time${
+      count === 1 ? '' : 's'
+    }, the most this provider allows`;
+  }
+  return null;
+}
+
+/**
+ * Counter-proposal times: 1 to MAX_COUNTER_PROPOSALS, each complete and
+ * none repeated. Returns a validation message or null.
+ */
+export function validateCounterProposals(proposals: unknown): string | null {
+  if (!Array.isArray(proposals) || proposals.length === 0) {
+    return 'Offer at least one alternative time';
+  }
+  if (proposals.length > MAX_COUNTER_PROPOSALS) {
+    return `Offer at most ${MAX_COUNTER_PROPOSALS} alternative times`;
+  }
+  const seen = new Set<string>();
+  for (const proposal of proposals as Partial<RescheduleTime>[]) {
+    if (!proposal?.appointmentDate || !proposal.startTime || !proposal.endTime) {
+      return 'Each alternative needs appointmentDate, startTime and endTime';
+    }
+    const key = `${describeRescheduleTime(proposal as RescheduleTime)}-${proposal.endTime}`;
+    if (seen.has(key)) return 'Alternative times must be different';
+    seen.add(key);
+  }
+  return null;
+}
+
+/**
+ * "Wed, Jun 10 at 09:00" — the calendar date is stored as UTC midnight.
+ */
+export function describeRescheduleTime(time: RescheduleTime): string {
+  const date = new Date(time.appointmentDate).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+  return `${date} at ${time.startTime}`;
+}
+
+interface MessageText {
+  title: string;
+  body: string;
+}
+
+/**
+ * What the customer and the vendor are told at a step.
+ */
+export function rescheduleMessages(
+  step: RescheduleStep,
+  details: {
+    serviceName: string;
+    customerName: string;
+    from: RescheduleTime;
+    to?: RescheduleTime | null;
+    proposals?: RescheduleTime[];
+    note?: string | null;
+  },
+): { customer: MessageText; vendor: MessageText } {
+  const { serviceName, customerName } = details;
+  const from = describeRescheduleTime(details.from);
+  const to = details.to ? describeRescheduleTime(details.to) : '';
+  const note = details.note ? ` "${details.note}"` : '';
+
+  switch (step) {
+    case 'requested':
+      return {
+        customer: {
+          title: 'Reschedule Requested',
+          body: `We've asked the provider to move your ${serviceName} appointment from ${from} to ${to}. Your current time stays booked until they answer.`,
+        },
+        vendor: {
+          title: 'Reschedule Request',
+          body: `${customerName} would like to move their ${serviceName} appointment from ${from} to ${to}.${note}`,
+        },
+      };
+    case 'rescheduled':
+      return {
+        customer: {
+          title: 'Appointment Rescheduled',
+          body: `Your ${serviceName} appointment has moved from ${from} to ${to}.`,
+        },
+        vendor: {
+          title: 'Appointment Rescheduled',
+          body: `${customerName} moved their ${serviceName} appointment from ${from} to ${to}.${note}`,
+        },
+      };
+    case 'accepted':
+      return {
+        customer: {
+          title: 'Reschedule Accepted',
+          body: `The provider accepted your request. Your ${serviceName} appointment is now ${to}.`,
+        },
+        vendor: {
+          title: 'Reschedule Accepted',
+          body: `${customerName}'s ${serviceName} appointment has moved from ${from} to ${to}.`,
+        },
+      };
+    case 'declined':
+      return {
+        customer: {
+          title: 'Reschedule Declined',
+          body: `The provider couldn't move your ${serviceName} appointment. It stays on ${from}.${note}`,
+        },
+        vendor: {
+          title: 'Reschedule Declined',
+          body: `You declined ${customerName}'s request. Their ${serviceName} appointment stays on ${from}.`,
+        },
+      };
+    case 'countered': {
+      const options = (details.proposals || []).map(describeRescheduleTime).join(', ');
+      return {
+        customer: {
+          title: 'New Times Suggested',
+          body: `The provider can't do the time you asked for, but can offer ${options} for your ${serviceName} appointment.${note}`,
+        },
+        vendor: {
+          title: 'Alternative Times Sent',
+          body: `You offered ${customerName} ${options} for their ${serviceName} appointment.`,
+        },
+      };
+    }
+    case 'counter_accepted':
+      return {
+        customer: {
+          title: 'Appointment Rescheduled',
+          body: `Your ${serviceName} appointment has moved from ${from} to ${to}.`,
+        },
+        vendor: {
+          title: 'Alternative Time Accepted',
+          body: `${customerName} chose ${to} for their ${serviceName} appointment (was ${from}).`,
+        },
+      };
+    case 'counter_declined':
+      return {
+        customer: {
+          title: 'Appointment Unchanged',
+          body: `Your ${serviceName} appointment stays on ${from}.`,
+        },
+        vendor: {
+          title: 'Alternative Times Declined',
+          body: `${customerName} declined the times you offered. Their ${serviceName} appointment stays on ${from}.`,
+        },
+      };
+    case 'withdrawn':
+      return {
+        customer: {
+          title: 'Reschedule Request Withdrawn',
+          body: `Your ${serviceName} appointment stays on ${from}.`,
+        },
+        vendor: {
+          title: 'Reschedule Request Withdrawn',
+          body: `${customerName} withdrew their request. Their ${serviceName} appointment stays on ${from}.`,
+        },
+      };
+  }
+}
@@ -0,0 +1,113 @@
+import moment from 'moment-timezone';
+import { timeToMinutes } from './timezone.util';
+
+/**
+ * SMS helpers: carrier keywords, phone normalization and quiet hours.
+ * Sending lives in services/sms.service.
+ *
+ * Quiet hours follow the TCPA window — no texts before 08:00 or after
+ * 21:00 in the recipient's local time.
+ */
+
+export type SmsKeyword = 'stop' | 'help' | 'start';
+
+// Standard CTIA keywords; carriers expect all of them to be honored
+const KEYWORDS: Record<string, SmsKeyword> = {
+  STOP: 'stop',
+  STOPALL: 'stop',
+  UNSUBSCRIBE: 'stop',
+  CANCEL: 'stop',
+  END: 'stop',
+  QUIT: 'stop',
+  OPTOUT: 'stop',
+  REVOKE: 'stop',
+  HELP: 'help',
+  INFO: 'help',
+  START: 'start',
+  UNSTOP: 'start',
+  YES: 'start',
+};
+
+export const SMS_HELP_REPLY =
+  'AppNow: booking updates and reminders. Msg & data rates may apply. Reply STOP to opt out. Help: support@appnow.com';
+export const SMS_STOP_REPLY =
+  'AppNow: you are unsubscribed and will receive no further texts. Reply START to resubscribe.';
+export const SMS_START_REPLY =
+  'AppNow: you are subscribed to booking updates and reminders. Reply HELP for help, STOP to opt out.';
+
+/**
+ * The keyword in an inbound text, if the whole message is one
+ * ("stop", " Stop. ", "STOP ALL"). Anything longer is a normal reply.
+ */
+export function parseSmsKeyword(text: string | null | undefined): SmsKeyword | null {
+  const word = (text || '').toUpperCase().replace(/[^A-Z]/g, '');
+  return KEYWORDS[word] || null;
+}
+
+/**
+ * E.164 form of a phone number. Ten-digit numbers are taken as US/Canada.
+ * Returns null when the input can't be a phone number.
+ */
+export function normalizePhoneNumber(phone: string | null | undefined): string | null {
+  const raw = (phone || '').trim();
+  const digits = raw.replace(/\D/g, '');
+  if (raw.startsWith('+')) return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+export interface QuietHours {
+  start: string; // "HH:mm" local — texting stops
+  end: string; // "HH:mm" local — texting resumes
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  start: process.env.SMS_QUIET_HOURS_START || '21:00',
+  end: process.env.SMS_QUIET_HOURS_END || '08:00',
+};
+
+/**
+ * When quiet hours end, if `now` falls inside them in `tz`; null when a
+ * text may go out now. Handles windows that wrap midnight.
+ */
+export function quietHoursEnd(
+  now: Date,
+  tz: string,
+  quiet: QuietHours = DEFAULT_QUIET_HOURS,
+): Date | null {
+  const local = moment.tz(now, tz);
+  const minute = local.hours() * 60 + local.minutes();
+  const start = timeToMinutes(quiet.start);
+  const end = timeToMinutes(quiet.end);
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) return null;
+
+  const inside = start < end ? minute >= start && minute < end : minute >= start || minute < end;
+  if (!inside) return null;
+
+  const resume = local
+    .clone()
+    .set({ hour: Math.floor(end / 60), minute: end % 60, second: 0, millisecond: 0 });
+  if (resume.isSameOrBefore(local)) resume.add(1, 'day');
+  return resume.toDate();
+}
+
+/**
+ * Regex source matching a stored phone number however it was typed
+ * ("(555) 555-0123", "555.555.0123", "+1 555 555 0123") against the
+ * national digits of an E.164 number. Null for non-E.164 input.
+ */
+export function phoneMatchPattern(e164: string): string | null {
+  if (!/^\+\d{8,15}$/.test(e164)) return null;
+  // NANP numbers are often saved without the country code
+  const national = e164.startsWith('+1') && e164.length === 12 ? e164.slice(2) : e164.slice(1);
+  return `${national.split('').join('\\D*')}\\D*$`;
+}
+
+/**
+ * Outgoing text with the brand prefix and opt-out line carriers expect.
+ */
+export function formatSmsBody(text: string): string {
+  const body = text.startsWith('AppNow') ? text : `AppNow: ${text}`;
+  return /reply stop/i.test(body) ? body : `${body} Reply STOP to opt out.`;
+}
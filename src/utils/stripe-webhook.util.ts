@@ -0,0 +1,84 @@
+/**
+ * Mapping Stripe webhook objects onto our records. Pure functions — the
+ * event handlers live in services/stripe-webhook.service.
+ */
+
+export type AppointmentRefundStatus =
+  | 'pending'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+export type PayoutRecordStatus =
+  | 'pending'
+  | 'in_transit'
+  | 'paid'
+  | 'failed'
+  | 'reversed'
+  | 'canceled';
+
+// Stripe refund statuses: pending, requires_action, succeeded, failed, canceled
+export function toAppointmentRefundStatus(
+  status: string | null | undefined,
+): AppointmentRefundStatus {
+  switch (status) {
+    case 'succeeded':
+      return 'succeeded';
+    case 'failed':
+      return 'failed';
+    case 'canceled':
+      return 'cancelled';
+    case 'requires_action':
+      return 'processing';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Payment status after refunds, from what was paid and what has been
+ * refunded across all of the appointment's charges (dollars).
+ */
+export function paymentStatusAfterRefund(
+  paid: number,
+  refunded: number,
+): 'refunded' | 'partially_refunded' | null {
+  if (refunded <= 0) return null;
+  // Sub-cent rounding between our dollars and Stripe's cents
+  return refunded + 0.005 >= paid ? 'refunded' : 'partially_refunded';
+}
+
+/**
+ * Our payout record status for a Stripe payout status. `in_transit` and
+ * `pending` payouts leave the record where it is.
+ */
+export function payoutRecordStatus(stripeStatus: string): PayoutRecordStatus | null {
+  switch (stripeStatus) {
+    case 'paid':
+      return 'paid';
+    case 'failed':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Vendor Connect flags from an account object.
+ */
+export function connectAccountFlags(account: {
+  details_submitted?: boolean;
+  charges_enabled?: boolean;
+  payouts_enabled?: boolean;
+}) {
+  return {
+    stripeOnboardingCompleted: account.details_submitted === true,
+    stripeChargesEnabled: account.charges_enabled === true,
+    stripePayoutsEnabled: account.payouts_enabled === true,
+  };
+}
+
+// Dispute statuses that are over, one way or the other
+const CLOSED_DISPUTE_STATUSES = ['won', 'lost', 'warning_closed', 'prevented'];
+
+export const isDisputeClosed = (status: string) => CLOSED_DISPUTE_STATUSES.includes(status);
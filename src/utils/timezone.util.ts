@@ -0,0 +1,117 @@
+import moment from 'moment-timezone';
+
+/**
+ * Timezone helpers for the slot engine.
+ *
+ * Vendor availability is authored as wall-clock times ("09:00"-"17:00") on a
+ * calendar date. Those only become real instants once interpreted in the
+ * vendor's IANA zone — never the server's, which is UTC on Azure.
+ *
+ * Calendar dates (`appointmentDate`, `dates[].date`) are stored as UTC
+ * midnight, so date keys are always read back in UTC.
+ */
+
+// Fallback for vendors created before the `timezone` field existed
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_VENDOR_TIMEZONE || 'America/New_York';
+
+const TIME_REGEX = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimezone(tz: unknown): tz is string {
+  return typeof tz === 'string' && tz.length > 0 && moment.tz.zone(tz) !== null;
+}
+
+/**
+ * Return the zone if valid, otherwise the platform default.
+ */
+export function resolveTimezone(tz?: string | null): string {
+  return isValidTimezone(tz) ? tz : DEFAULT_TIMEZONE;
+}
+
+/**
+ * "HH:mm" → minutes since midnight. Returns NaN for malformed input.
+ */
+export function timeToMinutes(time: string): number {
+  const match = TIME_REGEX.exec((time || '').trim());
+  if (!match) return NaN;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Minutes since midnight → "HH:mm". Values past midnight wrap (1470 → "00:30").
+ */
+export function minutesToTime(minutes: number): string {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  const h = Math.floor(normalized / 60);
+  const m = normalized % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Calendar date key (YYYY-MM-DD) for a stored date. Strings already in that
+ * form are returned unchanged so callers can pass either.
+ */
+export function toDateKey(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  return moment.utc(date).format('YYYY-MM-DD');
+}
+
+/**
+ * The UTC instant for a vendor-local wall-clock time on a calendar date.
+ * DST gaps resolve forward (02:30 on spring-forward day → 03:30).
+ */
+export function zonedTimeToUtc(date: Date | string, time: string, tz: string): Date {
+  return moment.tz(`${toDateKey(date)} ${time}`, 'YYYY-MM-DD HH:mm', resolveTimezone(tz)).toDate();
+}
+
+/**
+ * Today's calendar date key in the given zone.
+ */
+export function todayInTimezone(tz: string, now: Date = new Date()): string {
+  return moment(now).tz(resolveTimezone(tz)).format('YYYY-MM-DD');
+}
+
+/**
+ * Current wall-clock time ("HH:mm") in the given zone.
+ */
+export function nowTimeInTimezone(tz: string, now: Date = new Date()): string {
+  return moment(now).tz(resolveTimezone(tz)).format('HH:mm');
+}
+
+/**
+ * ISO-8601 with the vendor's UTC offset, e.g. "2026-03-10T09:00:00-04:00".
+ */
+export function formatInTimezone(instant: Date, tz: string): string {
+  return moment(instant).tz(resolveTimezone(tz)).format();
+}
+
+export interface ZonedSchedule {
+  timezone: string;
+  startAt: Date;
+  endAt: Date;
+  startLocal: string;
+  endLocal: string;
+}
+
+/**
+ * Resolve a booked date + wall-clock window into UTC instants and
+ * offset-qualified local strings for API responses.
+ */
+export function buildZonedSchedule(
+  date: Date | string,
+  startTime: string,
+  endTime: string,
+  tz: string,
+): ZonedSchedule {
+  const timezone = resolveTimezone(tz);
+  const startAt = zonedTimeToUtc(date, startTime, timezone);
+  let endAt = zonedTimeToUtc(date, endTime, timezone);
+  // Windows that cross midnight end on the following calendar day
+  if (endAt <= startAt) endAt = new Date(endAt.getTime() + 24 * 60 * 60 * 1000);
+  return {
+    timezone,
+    startAt,
+    endAt,
+    startLocal: formatInTimezone(startAt, timezone),
+    endLocal: formatInTimezone(endAt, timezone),
+  };
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import net from 'net';
+
+/**
+ * Outbound vendor webhooks: event names, payload signing and endpoint
+ * checks. Delivery lives in services/vendor-webhook.service.
+ *
+ * Each request carries
+ *   AppNow-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ * keyed with the subscription's secret, so receivers can verify the body
+ * and reject replays older than a few minutes.
+ */
+
+export const WEBHOOK_EVENTS = [
+  'appointment.created',
+  'appointment.confirmed',
+  'appointment.rescheduled',
+  'appointment.cancelled',
+  'appointment.completed',
+  'appointment.missed',
+  'appointment.failed',
+  'appointment.refunded',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by the "test" button; not subscribable
+export const WEBHOOK_PING_EVENT = 'webhook.ping';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'AppNow-Signature';
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+  WEBHOOK_EVENTS.includes(value as WebhookEvent);
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Receiver-side check, as documented for vendors (and used by the tests).
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now: number = Math.floor(Date.now() / 1000),
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.split('=', 2) as [string, string]),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const received = Buffer.from(parts.v1);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Loopback, private, link-local or unspecified IP address (IPv4-mapped
+ * IPv6 included). Host names are not resolved here.
+ */
+export const isPrivateAddress = (host: string): boolean => {
+  const mapped = host.toLowerCase().match(/^::ffff:(.+)$/);
+  if (mapped) {
+    // The URL parser writes ::ffff:127.0.0.1 as ::ffff:7f00:1
+    const hex = mapped[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    const v4 = hex
+      ? [
+          parseInt(hex[1], 16) >> 8,
+          parseInt(hex[1], 16) & 255,
+          parseInt(hex[2], 16) >> 8,
+          parseInt(hex[2], 16) & 255,
+        ].join('.')
+      : mapped[1];
+    if (net.isIPv4(v4)) return isPrivateAddress(v4);
+  }
+  if (net.isIPv4(host)) {
+    const [a, b] = host.split('.').map(Number);
+    return (
+      a === 10 ||
+      a === 127 ||
+      a === 0 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  if (net.isIPv6(host)) {
+    const lower = host.toLowerCase();
+    return lower === '::1' || lower === '::' || /^f[cd]/.test(lower) || lower.startsWith('fe80');
+  }
+  return false;
+};
+
+/**
+ * Why an endpoint URL can't be used, or null if it's fine. HTTPS only in
+ * production, and never an internal address.
+ */
+export function webhookUrlError(url: unknown, production: boolean): string | null {
+  if (typeof url !== 'string' || url.length > 2048) return 'url must be a valid URL';
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'url must be a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:' && (production || parsed.protocol !== 'http:')) {
+    return production ? 'url must use https' : 'url must use http or https';
+  }
+  if (parsed.username || parsed.password) return 'url must not contain credentials';
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (production && (host === 'localhost' || host.endsWith('.local') || isPrivateAddress(host))) {
+    return 'url must point to a public host';
+  }
+  return null;
+}
@@ -1,4 +1,10 @@
 import VendorService from '../models/vendor-service.model';
+import {
+  buildZonedSchedule,
+  formatInTimezone,
+  resolveTimezone,
+  type ZonedSchedule,
+} from './timezone.util';
 
 /**
  * Get all vendor service IDs for a given vendor
@@ -26,3 +32,71 @@ export function clearVendorServiceCache(vendorId?: string) {
     vendorServiceIdCache.clear();
   }
 }
+
+/**
+ * Resolve the IANA timezone a vendor service operates in (via its vendor).
+ * Falls back to the platform default for legacy vendors without one.
+ */
+const vendorServiceTimezoneCache = new Map<string, { timezone: string; timestamp: number }>();
+
+export async function getVendorServiceTimezone(vendorServiceId: string): Promise<string> {
+  const key = vendorServiceId.toString();
+  const cached = vendorServiceTimezoneCache.get(key);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.timezone;
+  }
+
+  const vendorService = await VendorService.findById(key)
+    .select('vendorId')
+    .populate('vendorId', 'timezone')
+    .lean();
+  const timezone = resolveTimezone((vendorService?.vendorId as any)?.timezone);
+  vendorServiceTimezoneCache.set(key, { timezone, timestamp: Date.now() });
+  return timezone;
+}
+
+export function clearVendorTimezoneCache() {
+  vendorServiceTimezoneCache.clear();
+}
+
+interface SchedulableAppointment {
+  vendorServiceId?: any;
+  appointmentDate: Date;
+  startTime?: string;
+  endTime?: string;
+  timezone?: string;
+  startAt?: Date;
+  endAt?: Date;
+}
+
+/**
+ * Resolve an appointment's booked window as real instants. Uses the values
+ * stamped at booking time when present, otherwise interprets the wall-clock
+ * times in the vendor's current timezone (legacy rows).
+ */
+export async function resolveAppointmentSchedule(
+  appointment: SchedulableAppointment,
+): Promise<ZonedSchedule> {
+  if (appointment.timezone && appointment.startAt && appointment.endAt) {
+    return {
+      timezone: appointment.timezone,
+      startAt: new Date(appointment.startAt),
+      endAt: new Date(appointment.endAt),
+      startLocal: formatInTimezone(new Date(appointment.startAt), appointment.timezone),
+      endLocal: formatInTimezone(new Date(appointment.endAt), appointment.timezone),
+    };
+  }
+
+  const vendorService = appointment.vendorServiceId;
+  const populatedTimezone = vendorService?.vendorId?.timezone;
+  const timezone = populatedTimezone
+    ? resolveTimezone(populatedTimezone)
+    : await getVendorServiceTimezone((vendorService?._id || vendorService).toString());
+
+  return buildZonedSchedule(
+    appointment.appointmentDate,
+    appointment.startTime || '00:00',
+    appointment.endTime || appointment.startTime || '00:00',
+    timezone,
+  );
+}